@@ -36,7 +36,7 @@ const nextConfig = {
       'tailwind-merge',
     ],
     // Server components
-    serverComponentsExternalPackages: ['sharp', 'canvas'],
+    serverComponentsExternalPackages: ['sharp', 'canvas', 'pdfjs-dist'],
     // Mobile optimizations
     scrollRestoration: true,
     optimizeCss: true,
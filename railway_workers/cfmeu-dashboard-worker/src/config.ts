@@ -21,9 +21,28 @@ export const config = {
   databaseUrl: process.env.DATABASE_URL ?? null,
   refreshCron: process.env.REFRESH_CRON ?? '*/10 * * * *',
   dashboardSnapshotCron: process.env.DASHBOARD_SNAPSHOT_CRON ?? '0 2 * * 1', // Every Monday at 2 AM
+  ratingExpiryAlertCron: process.env.RATING_EXPIRY_ALERT_CRON ?? '0 6 * * *', // Every day at 6 AM, ahead of the email digest
   port: Number(process.env.PORT ?? 3000),
   requestTimeoutMs: Number(process.env.REQUEST_TIMEOUT_MS ?? 15000),
   corsOrigin: process.env.CORS_ORIGIN || '*',
   organizingMetricsWarmUrl: process.env.ORGANIZING_METRICS_WARM_URL ?? null,
   organizingMetricsWarmToken: process.env.ORGANIZING_METRICS_WARM_TOKEN ?? null,
+  emailDigest: {
+    enabled: process.env.ENABLE_EMAIL_DIGEST === 'true',
+    cron: process.env.EMAIL_DIGEST_CRON ?? '0 7 * * *', // Every day at 7 AM; weekly recipients are only sent every 7 days
+    appBaseUrl: process.env.DASHBOARD_BASE_URL || 'http://localhost:3000',
+    transport: process.env.EMAIL_TRANSPORT === 'file' ? 'file' : 'smtp',
+    from: process.env.EMAIL_FROM ?? 'CFMEU Organiser Digest <no-reply@cfmeu.org>',
+    outputDir: process.env.EMAIL_DIGEST_OUTPUT_DIR ?? 'digest-outbox',
+    smtp: {
+      host: process.env.SMTP_HOST ?? null,
+      port: Number(process.env.SMTP_PORT ?? 587),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER ?? null,
+      pass: process.env.SMTP_PASS ?? null,
+    },
+    ebaExpiryDays: Number(process.env.EMAIL_DIGEST_EBA_EXPIRY_DAYS ?? 60),
+    staleVisitDays: Number(process.env.EMAIL_DIGEST_STALE_VISIT_DAYS ?? 90),
+    itemLimit: Number(process.env.EMAIL_DIGEST_ITEM_LIMIT ?? 10),
+  },
 }
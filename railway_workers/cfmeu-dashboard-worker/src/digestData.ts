@@ -0,0 +1,176 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { config } from './config'
+
+export type DigestFrequency = 'daily' | 'weekly'
+
+export interface DigestRecipient {
+  id: string
+  email: string
+  fullName: string | null
+  role: 'organiser' | 'lead_organiser'
+  frequency: DigestFrequency
+  lastSentAt: string | null
+}
+
+export interface DigestSection<T> {
+  total: number
+  items: T[]
+}
+
+export interface DigestNewProject {
+  id: string
+  name: string
+  value: number | null
+  created_at: string
+}
+
+export interface DigestExpiringEba {
+  employer_id: string
+  employer_name: string
+  nominal_expiry_date: string
+}
+
+export interface DigestPendingDelegatedTask {
+  id: string
+  resource_type: 'PROJECT_AUDIT_COMPLIANCE' | 'PROJECT_MAPPING_SHEET'
+  project_id: string
+  project_name: string | null
+  created_at: string
+  expires_at: string
+  expired: boolean
+}
+
+export interface DigestStaleSiteVisit {
+  project_id: string
+  project_name: string
+  last_visit_date: string | null
+}
+
+export interface DigestRatingChange {
+  employer_id: string
+  employer_name: string
+  previous_rating: string | null
+  new_rating: string
+  rating_change_type: string | null
+  created_at: string
+}
+
+export interface DigestRatingAlert {
+  id: string
+  employer_id: string
+  employer_name: string
+  alert_level: 'info' | 'warning' | 'critical' | 'emergency'
+  alert_title: string
+  alert_message: string
+  created_at: string
+}
+
+export interface OrganiserDigest {
+  patches: { id: string; name: string }[]
+  new_projects: DigestSection<DigestNewProject>
+  expiring_ebas: DigestSection<DigestExpiringEba>
+  pending_delegated_tasks: DigestSection<DigestPendingDelegatedTask>
+  stale_site_visits: DigestSection<DigestStaleSiteVisit>
+  rating_changes: DigestSection<DigestRatingChange>
+  rating_alerts: DigestSection<DigestRatingAlert>
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+const FREQUENCY_INTERVAL_MS: Record<DigestFrequency, number> = {
+  daily: 24 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS,
+}
+
+// The cron never fires at exactly the same millisecond, so allow an hour of drift
+// rather than skipping a whole day (or week) when this run is slightly early.
+const DUE_GRACE_MS = HOUR_MS
+
+export function isDigestDue(recipient: Pick<DigestRecipient, 'frequency' | 'lastSentAt'>, now: Date) {
+  if (!recipient.lastSentAt) return true
+  const elapsed = now.getTime() - new Date(recipient.lastSentAt).getTime()
+  return elapsed >= FREQUENCY_INTERVAL_MS[recipient.frequency] - DUE_GRACE_MS
+}
+
+/**
+ * Start of the reporting window: the last digest, or one interval ago for a first digest
+ */
+export function getDigestWindowStart(recipient: Pick<DigestRecipient, 'frequency' | 'lastSentAt'>, now: Date) {
+  if (recipient.lastSentAt) return new Date(recipient.lastSentAt)
+  return new Date(now.getTime() - FREQUENCY_INTERVAL_MS[recipient.frequency])
+}
+
+export function isDigestEmpty(digest: OrganiserDigest) {
+  return (
+    digest.new_projects.total === 0 &&
+    digest.expiring_ebas.total === 0 &&
+    digest.pending_delegated_tasks.total === 0 &&
+    digest.stale_site_visits.total === 0 &&
+    digest.rating_changes.total === 0 &&
+    digest.rating_alerts.total === 0
+  )
+}
+
+/**
+ * Organisers and lead organisers who opted in and are due a digest at `now`
+ */
+export async function loadDueDigestRecipients(svc: SupabaseClient<any>, now: Date): Promise<DigestRecipient[]> {
+  const { data, error } = await svc
+    .from('profiles')
+    .select('id, email, full_name, role, email_digest_frequency, email_digest_last_sent_at')
+    .eq('email_digest_enabled', true)
+    .eq('is_active', true)
+    .in('role', ['organiser', 'lead_organiser'])
+    .not('email', 'is', null)
+
+  if (error) throw error
+
+  return (data ?? [])
+    .map((row: any) => ({
+      id: row.id,
+      email: row.email,
+      fullName: row.full_name ?? null,
+      role: row.role,
+      frequency: row.email_digest_frequency === 'daily' ? 'daily' : 'weekly',
+      lastSentAt: row.email_digest_last_sent_at ?? null,
+    }) as DigestRecipient)
+    .filter((recipient) => isDigestDue(recipient, now))
+}
+
+export async function loadOrganiserDigest(
+  svc: SupabaseClient<any>,
+  recipient: DigestRecipient,
+  since: Date
+): Promise<OrganiserDigest> {
+  const [digestResult, alertsResult] = await Promise.all([
+    svc.rpc('get_organiser_digest', {
+      p_user_id: recipient.id,
+      p_since: since.toISOString(),
+      p_eba_expiry_days: config.emailDigest.ebaExpiryDays,
+      p_stale_visit_days: config.emailDigest.staleVisitDays,
+      p_limit: config.emailDigest.itemLimit,
+    }),
+    // Alerts from the recipient's rating alert subscriptions that chose digest delivery
+    svc.rpc('get_rating_alert_digest', {
+      p_user_id: recipient.id,
+      p_since: since.toISOString(),
+      p_limit: config.emailDigest.itemLimit,
+    }),
+  ])
+
+  if (digestResult.error) throw digestResult.error
+  if (alertsResult.error) throw alertsResult.error
+  return {
+    ...(digestResult.data as Omit<OrganiserDigest, 'rating_alerts'>),
+    rating_alerts: alertsResult.data as DigestSection<DigestRatingAlert>,
+  }
+}
+
+export async function markDigestSent(svc: SupabaseClient<any>, recipientId: string, sentAt: Date) {
+  const { error } = await svc
+    .from('profiles')
+    .update({ email_digest_last_sent_at: sentAt.toISOString() })
+    .eq('id', recipientId)
+
+  if (error) throw error
+}
@@ -0,0 +1,235 @@
+import type {
+  DigestRecipient,
+  DigestSection,
+  OrganiserDigest,
+} from './digestData'
+
+export interface RenderedDigest {
+  subject: string
+  html: string
+  text: string
+}
+
+interface DigestLine {
+  label: string
+  detail?: string
+  href?: string
+}
+
+interface RenderedSection {
+  title: string
+  total: number
+  viewAllHref: string
+  emptyText: string
+  lines: DigestLine[]
+}
+
+const DELEGATED_TASK_LABELS: Record<string, string> = {
+  PROJECT_AUDIT_COMPLIANCE: 'Audit & compliance',
+  PROJECT_MAPPING_SHEET: 'Mapping sheet',
+}
+
+const ALERT_LEVEL_LABELS: Record<string, string> = {
+  info: 'Info',
+  warning: 'Warning',
+  critical: 'Critical',
+  emergency: 'Emergency',
+}
+
+const RATING_LABELS: Record<string, string> = {
+  green: 'Green',
+  amber: 'Amber',
+  red: 'Red',
+  unknown: 'Unknown',
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function formatDate(value: string | null) {
+  if (!value) return 'never'
+  return new Date(value).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' })
+}
+
+function formatValue(value: number | null) {
+  if (value === null || value === undefined) return undefined
+  return `$${Math.round(value).toLocaleString('en-AU')}`
+}
+
+function plural(count: number, singular: string, pluralForm = `${singular}s`) {
+  return `${count} ${count === 1 ? singular : pluralForm}`
+}
+
+function buildSections(digest: OrganiserDigest, appBaseUrl: string): RenderedSection[] {
+  const projectHref = (id: string) => `${appBaseUrl}/projects/${id}`
+
+  return [
+    {
+      title: 'New projects in your patches',
+      total: digest.new_projects.total,
+      viewAllHref: `${appBaseUrl}/projects`,
+      emptyText: 'No new projects.',
+      lines: digest.new_projects.items.map((project) => ({
+        label: project.name,
+        detail: [formatValue(project.value), `added ${formatDate(project.created_at)}`].filter(Boolean).join(' · '),
+        href: projectHref(project.id),
+      })),
+    },
+    {
+      title: 'EBAs expiring soon',
+      total: digest.expiring_ebas.total,
+      viewAllHref: `${appBaseUrl}/eba-tracking`,
+      emptyText: 'No EBAs expiring soon.',
+      lines: digest.expiring_ebas.items.map((eba) => ({
+        label: eba.employer_name,
+        detail: `expires ${formatDate(eba.nominal_expiry_date)}`,
+      })),
+    },
+    {
+      title: 'Delegated tasks not yet submitted',
+      total: digest.pending_delegated_tasks.total,
+      viewAllHref: `${appBaseUrl}/delegated-tasks`,
+      emptyText: 'All delegated tasks have been submitted.',
+      lines: digest.pending_delegated_tasks.items.map((task) => ({
+        label: task.project_name ?? 'Unknown project',
+        detail: `${DELEGATED_TASK_LABELS[task.resource_type] ?? task.resource_type} · ${
+          task.expired ? `expired ${formatDate(task.expires_at)}` : `link expires ${formatDate(task.expires_at)}`
+        }`,
+        href: projectHref(task.project_id),
+      })),
+    },
+    {
+      title: 'Projects due a site visit',
+      total: digest.stale_site_visits.total,
+      viewAllHref: `${appBaseUrl}/site-visits`,
+      emptyText: 'Every project has been visited recently.',
+      lines: digest.stale_site_visits.items.map((visit) => ({
+        label: visit.project_name,
+        detail: `last visited ${formatDate(visit.last_visit_date)}`,
+        href: projectHref(visit.project_id),
+      })),
+    },
+    {
+      title: 'Rating changes',
+      total: digest.rating_changes.total,
+      viewAllHref: `${appBaseUrl}/ratings`,
+      emptyText: 'No employer ratings changed.',
+      lines: digest.rating_changes.items.map((change) => ({
+        label: change.employer_name,
+        detail: `${change.previous_rating ? RATING_LABELS[change.previous_rating] ?? change.previous_rating : 'Unrated'} → ${
+          RATING_LABELS[change.new_rating] ?? change.new_rating
+        } on ${formatDate(change.created_at)}`,
+      })),
+    },
+    {
+      title: 'Rating alerts',
+      total: digest.rating_alerts.total,
+      viewAllHref: `${appBaseUrl}/`,
+      emptyText: 'No new rating alerts for your subscriptions.',
+      lines: digest.rating_alerts.items.map((alert) => ({
+        label: alert.alert_title,
+        detail: `${ALERT_LEVEL_LABELS[alert.alert_level] ?? alert.alert_level} · ${alert.alert_message}`,
+      })),
+    },
+  ]
+}
+
+function moreCount(section: Pick<DigestSection<unknown>, 'total'>, shown: number) {
+  return Math.max(section.total - shown, 0)
+}
+
+function buildSubject(digest: OrganiserDigest, recipient: DigestRecipient) {
+  const highlights = [
+    digest.new_projects.total > 0 && plural(digest.new_projects.total, 'new project'),
+    digest.expiring_ebas.total > 0 && plural(digest.expiring_ebas.total, 'expiring EBA'),
+    digest.rating_changes.total > 0 && plural(digest.rating_changes.total, 'rating change'),
+    digest.rating_alerts.total > 0 && plural(digest.rating_alerts.total, 'rating alert'),
+  ].filter(Boolean)
+  const title = recipient.frequency === 'daily' ? 'Your daily organiser digest' : 'Your weekly organiser digest'
+  return highlights.length > 0 ? `${title}: ${highlights.join(', ')}` : title
+}
+
+function renderText(sections: RenderedSection[], greeting: string, intro: string, settingsHref: string) {
+  const lines = [greeting, '', intro, '']
+
+  for (const section of sections) {
+    lines.push(`${section.title} (${section.total})`, '-'.repeat(section.title.length + String(section.total).length + 3))
+    if (section.total === 0) {
+      lines.push(section.emptyText)
+    } else {
+      for (const line of section.lines) {
+        lines.push(`- ${line.label}${line.detail ? ` (${line.detail})` : ''}`)
+      }
+      const more = moreCount(section, section.lines.length)
+      if (more > 0) lines.push(`…and ${more} more`)
+      lines.push(`View all: ${section.viewAllHref}`)
+    }
+    lines.push('')
+  }
+
+  lines.push(`Change how often you receive this email: ${settingsHref}`)
+  return lines.join('\n')
+}
+
+function renderHtml(sections: RenderedSection[], greeting: string, intro: string, settingsHref: string) {
+  const sectionHtml = sections
+    .map((section) => {
+      const heading = `<h2 style="font-size:16px;margin:24px 0 8px;">${escapeHtml(section.title)} <span style="color:#6b7280;font-weight:normal;">(${section.total})</span></h2>`
+      if (section.total === 0) {
+        return `${heading}<p style="margin:0;color:#6b7280;">${escapeHtml(section.emptyText)}</p>`
+      }
+
+      const items = section.lines
+        .map((line) => {
+          const label = line.href
+            ? `<a href="${escapeHtml(line.href)}" style="color:#1d4ed8;">${escapeHtml(line.label)}</a>`
+            : escapeHtml(line.label)
+          const detail = line.detail ? ` <span style="color:#6b7280;">${escapeHtml(line.detail)}</span>` : ''
+          return `<li style="margin:4px 0;">${label}${detail}</li>`
+        })
+        .join('')
+      const more = moreCount(section, section.lines.length)
+      const moreHtml = more > 0 ? `<li style="margin:4px 0;color:#6b7280;">…and ${more} more</li>` : ''
+
+      return `${heading}<ul style="margin:0;padding-left:20px;">${items}${moreHtml}</ul>
+<p style="margin:8px 0 0;"><a href="${escapeHtml(section.viewAllHref)}" style="color:#1d4ed8;">View all</a></p>`
+    })
+    .join('\n')
+
+  return `<!DOCTYPE html>
+<html>
+<body style="font-family:Arial,Helvetica,sans-serif;font-size:14px;color:#111827;max-width:640px;margin:0 auto;padding:16px;">
+<p>${escapeHtml(greeting)}</p>
+<p>${escapeHtml(intro)}</p>
+${sectionHtml}
+<p style="margin-top:32px;font-size:12px;color:#6b7280;"><a href="${escapeHtml(settingsHref)}" style="color:#6b7280;">Change how often you receive this email</a></p>
+</body>
+</html>`
+}
+
+export function renderOrganiserDigest(
+  digest: OrganiserDigest,
+  recipient: DigestRecipient,
+  options: { appBaseUrl: string; since: Date }
+): RenderedDigest {
+  const appBaseUrl = options.appBaseUrl.replace(/\/+$/, '')
+  const sections = buildSections(digest, appBaseUrl)
+  const firstName = recipient.fullName?.trim().split(/\s+/)[0]
+  const greeting = firstName ? `Hi ${firstName},` : 'Hi,'
+  const patchNames = digest.patches.map((patch) => patch.name)
+  const scope = patchNames.length > 0 ? `in ${patchNames.join(', ')}` : 'in your patches'
+  const intro = `Here's what has happened ${scope} since ${formatDate(options.since.toISOString())}.`
+  const settingsHref = `${appBaseUrl}/settings`
+
+  return {
+    subject: buildSubject(digest, recipient),
+    html: renderHtml(sections, greeting, intro, settingsHref),
+    text: renderText(sections, greeting, intro, settingsHref),
+  }
+}
@@ -1,28 +1,106 @@
 import 'dotenv/config'
+import nodeCron from 'node-cron'
+import pino, { type Logger } from 'pino'
+import { config } from './config'
+import { getServiceRoleClient } from './supabase'
+import {
+  getDigestWindowStart,
+  isDigestEmpty,
+  loadDueDigestRecipients,
+  loadOrganiserDigest,
+  markDigestSent,
+} from './digestData'
+import { renderOrganiserDigest } from './digestTemplates'
+import { createEmailTransportFromConfig, type EmailTransport } from './emailTransport'
 
-// Lightweight scaffold for daily email digest (no-op by default)
-// Uses NEXT_PUBLIC_DASHBOARD_WORKER_URL or local API to query new counts
+export interface EmailDigestRunSummary {
+  recipients: number
+  sent: number
+  empty: number
+  failed: number
+}
+
+/**
+ * Send the organiser digest to every opted-in organiser and lead organiser who is due one.
+ * Recipients with nothing to report are not emailed, but their window still moves
+ * forward so the next digest doesn't repeat an empty period. A failure for one
+ * recipient leaves their window unchanged so they are retried on the next run.
+ */
+export async function runEmailDigestOnce(
+  logger: Logger,
+  transport: EmailTransport = createEmailTransportFromConfig(),
+  now = new Date()
+): Promise<EmailDigestRunSummary> {
+  const svc = getServiceRoleClient()
+  const recipients = await loadDueDigestRecipients(svc, now)
+  const summary: EmailDigestRunSummary = { recipients: recipients.length, sent: 0, empty: 0, failed: 0 }
+
+  for (const recipient of recipients) {
+    try {
+      const since = getDigestWindowStart(recipient, now)
+      const digest = await loadOrganiserDigest(svc, recipient, since)
+
+      if (isDigestEmpty(digest)) {
+        summary.empty++
+      } else {
+        const rendered = renderOrganiserDigest(digest, recipient, { appBaseUrl: config.emailDigest.appBaseUrl, since })
+        await transport.send({ to: recipient.email, ...rendered })
+        summary.sent++
+      }
+
+      await markDigestSent(svc, recipient.id, now)
+    } catch (err) {
+      summary.failed++
+      logger.error({ err, userId: recipient.id }, 'Failed to send organiser digest')
+    }
+  }
+
+  logger.info({ ...summary, transport: transport.name }, 'Organiser email digest run complete')
+  return summary
+}
 
-export async function runEmailDigestOnce() {
-  const baseUrl = process.env.DASHBOARD_BASE_URL || 'http://localhost:3000'
-  const flag = process.env.ENABLE_EMAIL_DIGEST === 'true'
-  if (!flag) {
-    console.log('[emailDigest] Skipped (flag disabled)')
+export function scheduleEmailDigest(logger: Logger) {
+  if (!config.emailDigest.enabled) {
+    logger.info('Organiser email digest disabled (ENABLE_EMAIL_DIGEST is not true)')
     return
   }
+
+  let transport: EmailTransport
   try {
-    // This is a placeholder. Real implementation would iterate organiser users from DB
-    console.log('[emailDigest] Placeholder run - implement provider + recipients later')
-    const res = await fetch(`${baseUrl}/api/projects/new-count`, { headers: { 'Cache-Control': 'no-store' } })
-    const json = await res.json().catch(() => ({}))
-    console.log('[emailDigest] Example count', json)
-  } catch (e) {
-    console.error('[emailDigest] Error', e)
+    transport = createEmailTransportFromConfig()
+  } catch (err) {
+    logger.error({ err }, 'Organiser email digest not scheduled: transport misconfigured')
+    return
   }
+
+  const cron = config.emailDigest.cron
+  let running = false
+
+  nodeCron.schedule(cron, async () => {
+    // A slow run must not overlap the next one or recipients could be emailed twice
+    if (running) {
+      logger.warn('Previous organiser email digest run still in progress, skipping')
+      return
+    }
+    running = true
+    try {
+      await runEmailDigestOnce(logger, transport)
+    } catch (err) {
+      logger.error({ err }, 'Organiser email digest run failed')
+    } finally {
+      running = false
+    }
+  })
+
+  logger.info({ cron, transport: transport.name }, 'Scheduled organiser email digest')
 }
 
 if (require.main === module) {
-  runEmailDigestOnce()
+  const logger = pino({ level: process.env.LOG_LEVEL || 'info' })
+  runEmailDigestOnce(logger)
+    .then(() => process.exit(0))
+    .catch((err) => {
+      logger.error({ err }, 'Organiser email digest run failed')
+      process.exit(1)
+    })
 }
-
-
@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import nodemailer from 'nodemailer'
+import { config } from './config'
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  html: string
+  text: string
+}
+
+/**
+ * Anything that can deliver an email. The digest only depends on this
+ * interface so other providers can be dropped in without touching it.
+ */
+export interface EmailTransport {
+  name: string
+  send(message: EmailMessage): Promise<void>
+}
+
+export interface SmtpTransportOptions {
+  host: string
+  port: number
+  secure: boolean
+  user: string | null
+  pass: string | null
+  from: string
+}
+
+export function createSmtpTransport(options: SmtpTransportOptions): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.pass ?? '' } : undefined,
+  })
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({ from: options.from, ...message })
+    },
+  }
+}
+
+/**
+ * Writes each email to `outputDir` as .html and .txt files instead of sending it.
+ * Used for local development and for checking templates against real data.
+ */
+export function createFileTransport(outputDir: string): EmailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(outputDir, { recursive: true })
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+      const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')
+      const baseName = path.join(outputDir, `${stamp}-${recipient}`)
+      const header = `To: ${message.to}\nSubject: ${message.subject}\n\n`
+      await fs.writeFile(`${baseName}.html`, message.html, 'utf8')
+      await fs.writeFile(`${baseName}.txt`, header + message.text, 'utf8')
+    },
+  }
+}
+
+export function createEmailTransportFromConfig(): EmailTransport {
+  const { emailDigest } = config
+  if (emailDigest.transport === 'file') {
+    return createFileTransport(emailDigest.outputDir)
+  }
+  if (!emailDigest.smtp.host) {
+    throw new Error('SMTP_HOST is required when EMAIL_TRANSPORT is smtp')
+  }
+  return createSmtpTransport({ ...emailDigest.smtp, host: emailDigest.smtp.host, from: emailDigest.from })
+}
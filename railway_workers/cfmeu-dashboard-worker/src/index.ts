@@ -8,8 +8,9 @@ import express from 'express'
 import pino from 'pino'
 import { config } from './config'
 import { getServiceRoleClient, getUserClientFromToken, verifyJWT } from './supabase'
-import { scheduleMaterializedViewRefreshes, refreshPatchProjectMappingViewInBackground, warmOrganizingMetricsCache, scheduleWeeklyDashboardSnapshots } from './refresh'
+import { scheduleMaterializedViewRefreshes, refreshPatchProjectMappingViewInBackground, warmOrganizingMetricsCache, scheduleWeeklyDashboardSnapshots, scheduleRatingExpiryAlerts } from './refresh'
 import { cache, makeCacheKey } from './cache'
+import { scheduleEmailDigest } from './emailDigest'
 import crypto from 'crypto'
 
 const logger = pino({ level: process.env.LOG_LEVEL || 'info' })
@@ -1260,6 +1261,10 @@ server = app.listen(config.port, () => {
   scheduleMaterializedViewRefreshes(logger)
   // Schedule weekly dashboard snapshots
   scheduleWeeklyDashboardSnapshots(logger)
+  // Schedule the daily check that raises alerts for expired ratings
+  scheduleRatingExpiryAlerts(logger)
+  // Schedule organiser email digests (no-op unless ENABLE_EMAIL_DIGEST=true)
+  scheduleEmailDigest(logger)
   void warmOrganizingMetricsCache(logger)
 
   // Log memory usage every 15 seconds and enforce limits
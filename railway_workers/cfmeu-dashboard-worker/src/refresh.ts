@@ -138,4 +138,31 @@ export function scheduleWeeklyDashboardSnapshots(logger: Logger) {
   logger.info({ cron }, 'Scheduled weekly dashboard snapshots')
 }
 
+/**
+ * Schedule the daily rating expiry check
+ * Ratings expire without being rewritten, so the rating alert trigger never sees it happen
+ */
+export function scheduleRatingExpiryAlerts(logger: Logger) {
+  const cron = config.ratingExpiryAlertCron
+
+  nodeCron.schedule(cron, async () => {
+    const start = Date.now()
+    const svc = getServiceRoleClient()
+
+    try {
+      const { data: raised, error } = await svc.rpc('evaluate_expired_rating_alerts')
+
+      if (error) {
+        logger.error({ err: error }, 'Failed to evaluate expired rating alerts')
+        return
+      }
 
+      const ms = Date.now() - start
+      logger.info({ raised, ms }, 'Evaluated expired rating alerts')
+    } catch (err) {
+      logger.error({ err }, 'Failed to evaluate expired rating alerts')
+    }
+  })
+
+  logger.info({ cron }, 'Scheduled rating expiry alerts')
+}
@@ -39,6 +39,24 @@ export const config = {
     jitterMaxMs: Number(process.env.RETRY_JITTER_MAX_MS ?? 1000),
   },
 
+  // Backoff between attempts of a failed job (the whole job, not individual FWC searches)
+  jobBackoff: {
+    baseDelayMs: Number(process.env.JOB_BACKOFF_BASE_MS ?? 30_000),
+    maxDelayMs: Number(process.env.JOB_BACKOFF_MAX_MS ?? 30 * 60_000),
+    multiplier: Number(process.env.JOB_BACKOFF_MULTIPLIER ?? 2),
+  },
+
+  // Scheduled FWC re-verification of stored EBAs (see scheduler/ebaReverification.ts)
+  ebaReverification: {
+    enabled: process.env.EBA_REVERIFY_ENABLED !== 'false',
+    cron: process.env.EBA_REVERIFY_CRON ?? '0 3 * * *', // daily at 3 AM
+    expiryWindowDays: Number(process.env.EBA_REVERIFY_EXPIRY_WINDOW_DAYS ?? 90),
+    staleAfterDays: Number(process.env.EBA_REVERIFY_STALE_AFTER_DAYS ?? 30),
+    minRecheckDays: Number(process.env.EBA_REVERIFY_MIN_RECHECK_DAYS ?? 7),
+    batchSize: Number(process.env.EBA_REVERIFY_BATCH_SIZE ?? 25),
+    maxEmployersPerRun: Number(process.env.EBA_REVERIFY_MAX_EMPLOYERS ?? 200),
+  },
+
   // Graceful shutdown settings
   // FWC jobs can take up to 5 minutes with retries (75s * 4 attempts)
   // Incolink jobs are typically faster but can have network delays
@@ -1,64 +1,25 @@
-import { randomUUID } from 'crypto'
 import { SupabaseClient } from '@supabase/supabase-js'
+import { JobQueue, SupabaseJobStore } from 'cfmeu-job-queue'
 import { config } from './config'
-import { ScraperJob, ScraperJobStatus } from './types'
+import { ScraperJob } from './types'
 
 const JOB_TABLE = 'scraper_jobs'
 const EVENT_TABLE = 'scraper_job_events'
 
-export async function reserveNextJob(client: SupabaseClient): Promise<ScraperJob | null> {
-  const nowIso = new Date().toISOString()
-  const lockExpiry = new Date(Date.now() - config.lockTimeoutMs).toISOString()
-
-  const { data: candidates, error } = await client
-    .from(JOB_TABLE)
-    .select('*')
-    .eq('status', 'queued')
-    .eq('environment', config.workerEnv)
-    .in('job_type', ['fwc_lookup', 'incolink_sync']) // Only pick up jobs this worker can handle
-    .lte('run_at', nowIso)
-    .order('priority', { ascending: true })
-    .order('created_at', { ascending: true })
-    .limit(5)
-
-  if (error) {
-    throw new Error(`Failed to fetch queued jobs: ${error.message}`)
-  }
-
-  if (!candidates || candidates.length === 0) {
-    return null
-  }
-
-  for (const candidate of candidates) {
-    const lockToken = randomUUID()
-    const { data: lockedJob, error: lockError } = await client
-      .from(JOB_TABLE)
-      .update({
-        lock_token: lockToken,
-        status: 'running',
-        attempts: (candidate.attempts ?? 0) + 1,
-        locked_at: nowIso,
-        last_error: null,
-      })
-      .eq('id', candidate.id)
-      .eq('status', 'queued')
-      .eq('environment', config.workerEnv)
-      .lte('run_at', nowIso)
-      .is('lock_token', null)
-      .select()
-      .single()
-
-    if (lockError) {
-      continue
-    }
-
-    if (lockedJob) {
-      await appendEvent(client, lockedJob.id, 'job_locked', { lockToken })
-      return lockedJob
-    }
-  }
-
-  return null
+export function createJobQueue(client: SupabaseClient): JobQueue {
+  return new JobQueue({
+    store: new SupabaseJobStore(client, { table: JOB_TABLE, eventTable: EVENT_TABLE }),
+    runningStatus: 'running',
+    environment: config.workerEnv,
+    pollIntervalMs: config.pollIntervalMs,
+    lockTimeoutMs: config.lockTimeoutMs,
+    backoff: config.jobBackoff,
+    logger: {
+      info: (message, data) => console.log(`[worker] ${message}`, data ?? ''),
+      warn: (message, data) => console.warn(`[worker] ${message}`, data ?? ''),
+      error: (message, data) => console.error(`[worker] ${message}`, data ?? ''),
+    },
+  })
 }
 
 export async function appendEvent(
@@ -95,68 +56,3 @@ export async function updateProgress(
     throw new Error(`Failed to update progress: ${error.message}`)
   }
 }
-
-export async function markJobStatus(
-  client: SupabaseClient,
-  jobId: string,
-  status: ScraperJobStatus,
-  fields: Record<string, unknown> = {}
-) {
-  const payload: Record<string, unknown> = {
-    status,
-    updated_at: new Date().toISOString(),
-    ...fields,
-  }
-
-  if (status === 'succeeded' || status === 'failed' || status === 'cancelled') {
-    payload.completed_at = new Date().toISOString()
-  }
-
-  const { error } = await client.from(JOB_TABLE).update(payload).eq('id', jobId)
-
-  if (error) {
-    throw new Error(`Failed to update job status: ${error.message}`)
-  }
-}
-
-export async function releaseJobLock(client: SupabaseClient, jobId: string) {
-  const { error } = await client.from(JOB_TABLE).update({ lock_token: null, locked_at: null }).eq('id', jobId)
-
-  if (error) {
-    throw new Error(`Failed to release job lock: ${error.message}`)
-  }
-}
-
-export async function cleanupStaleLocks(
-  client: SupabaseClient,
-  config: { lockTimeoutMs: number }
-): Promise<number> {
-  const lockExpiry = new Date(Date.now() - config.lockTimeoutMs).toISOString()
-
-  console.log(`[cleanup] Cleaning up locks older than ${lockExpiry}`)
-
-  const { data, error } = await client
-    .from(JOB_TABLE)
-    .update({
-      lock_token: null,
-      locked_at: null,
-      status: 'queued',
-      last_error: 'Lock released due to timeout (worker may have crashed)',
-      run_at: new Date().toISOString()
-    })
-    .eq('status', 'running')
-    .lt('locked_at', lockExpiry)
-    .select('id')
-
-  if (error) {
-    console.error('[cleanup] Failed to clean stale locks:', error)
-    return 0
-  }
-
-  const count = data?.length || 0
-  if (count > 0) {
-    console.log(`[cleanup] Released ${count} stale job locks`)
-  }
-
-  return count
-}
@@ -4,6 +4,7 @@ import { SupabaseClient } from '@supabase/supabase-js'
 import { appendEvent, updateProgress } from '../jobs'
 import { FwcJobPayload, ScraperJob } from '../types'
 import { withRetry, formatRetryLog, DEFAULT_RETRY_CONFIG, RetryConfig } from '../utils/retry'
+import { diffEbaRecord, EbaChange, normalizeDateInput, StoredEbaSnapshot } from '../utils/ebaDiff'
 import { config } from '../config'
 
 const BASE_SEARCH_PREFIX = 'cfmeu construction nsw'
@@ -83,12 +84,14 @@ const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
 
 export async function processFwcJob(
   client: SupabaseClient,
-  job: ScraperJob
+  job: ScraperJob,
+  signal?: AbortSignal
 ): Promise<FwcLookupSummary> {
   const payload = (job.payload ?? {}) as Partial<FwcJobPayload>
   const employerIds = Array.isArray(payload.employerIds) ? payload.employerIds : []
   const searchOverrides = payload.options?.searchOverrides ?? {}
   const autoLink = payload.options?.autoLink !== false
+  const resumeFromIndex = Math.min(Math.max(Math.trunc(Number(payload.resumeFromIndex) || 0), 0), employerIds.length)
 
   if (employerIds.length === 0) {
     await appendEvent(client, job.id, 'fwc_no_employers')
@@ -116,6 +119,15 @@ export async function processFwcJob(
       autoLink,
     })
     for (const [index, employerId] of employerIds.entries()) {
+      // Retried from the admin panel: earlier employers were handled by a previous run
+      if (index < resumeFromIndex) continue
+
+      // Cancelled from the scraper jobs UI: stop between employers, keeping completed work
+      if (signal?.aborted) {
+        await appendEvent(client, job.id, 'fwc_cancelled', { completed: index })
+        break
+      }
+
       const employerName = employerMap.get(employerId) ?? employerId
       const searchTermOverride = searchOverrides[employerId]
       await appendEvent(client, job.id, 'fwc_employer_started', { employerId, employerName })
@@ -209,7 +221,7 @@ export async function processFwcJob(
 
             // Retry database upsert operation
             const upsertResult = await withRetry(
-              () => upsertEbaRecord(client, employerId, bestResult),
+              () => upsertEbaRecord(client, job.id, employerId, bestResult),
               {
                 maxAttempts: 3,
                 initialDelayMs: 1000,
@@ -234,6 +246,7 @@ export async function processFwcJob(
                 resultTitle: bestResult.title,
                 status: bestResult.status,
                 upsertAttempts: upsertResult.attempts,
+                changes: (upsertResult.data ?? []).map((change) => change.changeType),
               })
             } else {
               failed += 1
@@ -254,6 +267,7 @@ export async function processFwcJob(
           }
         } else {
           failed += 1
+          await markEbaRecordsChecked(client, employerId)
           await appendEvent(client, job.id, 'fwc_employer_no_results', {
             employerId,
             employerName,
@@ -703,10 +717,17 @@ function parseLegacyHtml(html: string): FwcSearchResult[] {
   return results
 }
 
-async function upsertEbaRecord(client: SupabaseClient, employerId: string, result: FwcSearchResult) {
+const EBA_SNAPSHOT_COLUMNS = 'id, fwc_lodgement_number, fwc_certified_date, nominal_expiry_date, fwc_agreement_status'
+
+async function upsertEbaRecord(
+  client: SupabaseClient,
+  jobId: string,
+  employerId: string,
+  result: FwcSearchResult
+): Promise<EbaChange[]> {
   const { data: existingRecord, error: fetchError } = await client
     .from('company_eba_records')
-    .select('id')
+    .select(EBA_SNAPSHOT_COLUMNS)
     .eq('employer_id', employerId)
     .maybeSingle()
 
@@ -714,17 +735,24 @@ async function upsertEbaRecord(client: SupabaseClient, employerId: string, resul
     throw new Error(`Failed to fetch existing EBA record: ${fetchError.message}`)
   }
 
+  const changes = diffEbaRecord(existingRecord as StoredEbaSnapshot | null, result)
+
   const updateData = {
     fwc_document_url: result.documentUrl,
     fwc_lodgement_number: result.lodgementNumber,
     fwc_certified_date: normalizeDateInput(result.approvedDate),
     nominal_expiry_date: normalizeDateInput(result.expiryDate),
+    fwc_agreement_status: result.status || null,
+    fwc_last_checked_at: new Date().toISOString(),
     comments: existingRecord
       ? `Updated from FWC search. Agreement: ${result.title}. Status: ${result.status}.`
       : `Auto-imported from FWC search. Agreement: ${result.title}. Status: ${result.status}.`,
   }
 
   if (existingRecord) {
+    // Changes are recorded before the record moves on, so a retried upsert still sees them
+    await recordEbaChanges(client, jobId, employerId, existingRecord.id, changes)
+
     const { error } = await client
       .from('company_eba_records')
       .update(updateData)
@@ -734,17 +762,21 @@ async function upsertEbaRecord(client: SupabaseClient, employerId: string, resul
       throw new Error(`Failed to update existing EBA record: ${error.message}`)
     }
   } else {
-    const { error } = await client
+    const { data: inserted, error } = await client
       .from('company_eba_records')
       .insert({
         employer_id: employerId,
         eba_file_number: result.title.substring(0, 100),
         ...updateData,
       })
+      .select('id')
+      .single()
 
     if (error) {
       throw new Error(`Failed to insert new EBA record: ${error.message}`)
     }
+
+    await recordEbaChanges(client, jobId, employerId, inserted.id, changes)
   }
 
   const { error: statusError } = await client.rpc('set_employer_eba_status', {
@@ -757,28 +789,45 @@ async function upsertEbaRecord(client: SupabaseClient, employerId: string, resul
   if (statusError) {
     throw new Error(`Failed to update employer status: ${statusError.message}`)
   }
+
+  return changes
 }
 
-function normalizeDateInput(value?: string | null): string | null {
-  if (!value) return null
-  const trimmed = value.trim()
-  if (!trimmed) return null
+async function recordEbaChanges(
+  client: SupabaseClient,
+  jobId: string,
+  employerId: string,
+  ebaRecordId: string,
+  changes: EbaChange[]
+) {
+  if (changes.length === 0) return
+
+  const { error } = await client.from('eba_change_events').upsert(
+    changes.map((change) => ({
+      employer_id: employerId,
+      eba_record_id: ebaRecordId,
+      change_type: change.changeType,
+      previous: change.previous,
+      current: change.current,
+      fingerprint: change.fingerprint,
+      job_id: jobId,
+    })),
+    { onConflict: 'employer_id,change_type,fingerprint', ignoreDuplicates: true }
+  )
 
-  const parsed = new Date(trimmed)
-  if (!Number.isNaN(parsed.getTime())) {
-    return parsed.toISOString().slice(0, 10)
+  if (error) {
+    throw new Error(`Failed to record EBA changes: ${error.message}`)
   }
+}
 
-  const match = trimmed.match(/^(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4})$/)
-  if (match) {
-    const dd = match[1].padStart(2, '0')
-    const mm = match[2].padStart(2, '0')
-    let yyyy = match[3]
-    if (yyyy.length === 2) {
-      yyyy = (Number(yyyy) > 50 ? '19' : '20') + yyyy
-    }
-    return `${yyyy}-${mm}-${dd}`
-  }
+// A lookup with no FWC match still counts as a check, so re-verification moves on to other employers
+async function markEbaRecordsChecked(client: SupabaseClient, employerId: string) {
+  const { error } = await client
+    .from('company_eba_records')
+    .update({ fwc_last_checked_at: new Date().toISOString() })
+    .eq('employer_id', employerId)
 
-  return null
+  if (error) {
+    throw new Error(`Failed to mark EBA records checked: ${error.message}`)
+  }
 }
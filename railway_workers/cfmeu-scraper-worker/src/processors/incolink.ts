@@ -40,9 +40,14 @@ export interface IncolinkSummary {
   placementsSkipped: number
 }
 
-export async function processIncolinkJob(client: SupabaseClient, job: ScraperJob): Promise<IncolinkSummary> {
+export async function processIncolinkJob(
+  client: SupabaseClient,
+  job: ScraperJob,
+  signal?: AbortSignal
+): Promise<IncolinkSummary> {
   const payload = (job.payload ?? {}) as Partial<IncolinkJobPayload>
   const employerIds = Array.isArray(payload.employerIds) ? payload.employerIds : []
+  const resumeFromIndex = Math.min(Math.max(Math.trunc(Number(payload.resumeFromIndex) || 0), 0), employerIds.length)
 
   if (employerIds.length === 0) {
     await appendEvent(client, job.id, 'incolink_no_employers')
@@ -75,6 +80,14 @@ export async function processIncolinkJob(client: SupabaseClient, job: ScraperJob
   const browser = await getBrowser()
   try {
     for (const [index, employerId] of employerIds.entries()) {
+      if (index < resumeFromIndex) continue
+
+      // Job was cancelled while running; placements already written are kept
+      if (signal?.aborted) {
+        await appendEvent(client, job.id, 'incolink_cancelled', { completed: index })
+        break
+      }
+
       const employerInfo = employerMap.get(employerId)
       if (!employerInfo || !employerInfo.incolinkId) {
         failed += 1
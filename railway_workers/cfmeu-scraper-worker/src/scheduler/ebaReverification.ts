@@ -0,0 +1,97 @@
+import nodeCron from 'node-cron'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { JobQueue } from 'cfmeu-job-queue'
+import { config } from '../config'
+import { FwcJobPayload } from '../types'
+
+export const EBA_REVERIFICATION_SOURCE = 'eba_reverification'
+
+// Below the default priority of 5 so lookups requested from the app run first
+const REVERIFICATION_PRIORITY = 8
+
+export interface EbaReverificationRunSummary {
+  skipped: boolean
+  employers: number
+  jobIds: string[]
+}
+
+/**
+ * Enqueue fwc_lookup jobs for employers whose EBA is close to expiry or hasn't
+ * been checked against FWC recently. A run is skipped while jobs from the
+ * previous run are still waiting, so a slow FWC never builds up a backlog.
+ */
+export async function enqueueEbaReverification(
+  client: SupabaseClient,
+  queue: JobQueue
+): Promise<EbaReverificationRunSummary> {
+  const settings = config.ebaReverification
+
+  const { count: pending, error: pendingError } = await client
+    .from('scraper_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('job_type', 'fwc_lookup')
+    .in('status', ['queued', 'running'])
+    .eq('payload->>source', EBA_REVERIFICATION_SOURCE)
+
+  if (pendingError) {
+    throw new Error(`Failed to check pending re-verification jobs: ${pendingError.message}`)
+  }
+
+  if ((pending ?? 0) > 0) {
+    return { skipped: true, employers: 0, jobIds: [] }
+  }
+
+  const { data: due, error: dueError } = await client.rpc('get_employers_due_for_eba_reverification', {
+    p_expiry_window_days: settings.expiryWindowDays,
+    p_stale_after_days: settings.staleAfterDays,
+    p_min_recheck_days: settings.minRecheckDays,
+    p_limit: settings.maxEmployersPerRun,
+  })
+
+  if (dueError) {
+    throw new Error(`Failed to load employers due for re-verification: ${dueError.message}`)
+  }
+
+  const employerIds = ((due ?? []) as Array<{ employer_id: string }>).map((row) => row.employer_id)
+  const jobIds: string[] = []
+
+  for (let start = 0; start < employerIds.length; start += settings.batchSize) {
+    const batch = employerIds.slice(start, start + settings.batchSize)
+    const job = await queue.enqueue<FwcJobPayload>({
+      job_type: 'fwc_lookup',
+      payload: {
+        employerIds: batch,
+        options: { autoLink: true },
+        source: EBA_REVERIFICATION_SOURCE,
+      },
+      priority: REVERIFICATION_PRIORITY,
+      progress_total: batch.length,
+    })
+    jobIds.push(job.id)
+  }
+
+  return { skipped: false, employers: employerIds.length, jobIds }
+}
+
+export function scheduleEbaReverification(client: SupabaseClient, queue: JobQueue) {
+  const { enabled, cron } = config.ebaReverification
+  if (!enabled) {
+    console.log('[scheduler] EBA re-verification disabled')
+    return
+  }
+
+  nodeCron.schedule(cron, async () => {
+    try {
+      const summary = await enqueueEbaReverification(client, queue)
+      if (summary.skipped) {
+        console.log('[scheduler] EBA re-verification skipped: previous run still in progress')
+      } else {
+        console.log('[scheduler] EBA re-verification enqueued', summary)
+      }
+    } catch (error) {
+      console.error('[scheduler] EBA re-verification failed', error)
+    }
+  })
+
+  console.log('[scheduler] Scheduled EBA re-verification', { cron })
+}
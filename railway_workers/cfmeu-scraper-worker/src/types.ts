@@ -1,23 +1,9 @@
-export type ScraperJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+import { JobStatus, QueueJob } from 'cfmeu-job-queue'
 
-export interface ScraperJob {
-  id: string
+export type ScraperJobStatus = JobStatus
+
+export interface ScraperJob extends QueueJob {
   job_type: 'fwc_lookup' | 'incolink_sync'
-  payload: Record<string, unknown>
-  progress_total: number
-  progress_completed: number
-  status: ScraperJobStatus
-  priority: number
-  attempts: number
-  max_attempts: number
-  lock_token: string | null
-  locked_at: string | null
-  run_at: string
-  last_error: string | null
-  created_by: string | null
-  created_at: string
-  updated_at: string
-  completed_at: string | null
 }
 
 export interface ScraperJobEvent {
@@ -36,9 +22,14 @@ export interface FwcJobPayload {
     [key: string]: unknown
   }
   projectId?: string
+  // 'eba_reverification' for jobs enqueued by the re-verification schedule
+  source?: string
+  // Set when an admin retries the job: employers before this index were already processed
+  resumeFromIndex?: number
 }
 
 export interface IncolinkJobPayload {
   employerIds: string[]
   invoiceNumber?: string
+  resumeFromIndex?: number
 }
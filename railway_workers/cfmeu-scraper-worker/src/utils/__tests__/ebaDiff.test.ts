@@ -0,0 +1,85 @@
+/**
+ * Unit tests for the FWC EBA re-verification diff
+ */
+
+import { diffEbaRecord, normalizeDateInput, StoredEbaSnapshot } from '../ebaDiff'
+
+const TODAY = new Date('2026-01-22T00:00:00.000Z')
+
+function stored(overrides: Partial<StoredEbaSnapshot> = {}): StoredEbaSnapshot {
+  return {
+    fwc_lodgement_number: 'AG2023/100',
+    fwc_certified_date: '2023-03-01',
+    nominal_expiry_date: '2027-03-01',
+    fwc_agreement_status: 'Approved',
+    ...overrides,
+  }
+}
+
+describe('EBA diff', () => {
+  it('should report nothing when the agreement is unchanged', () => {
+    const changes = diffEbaRecord(
+      stored(),
+      { title: 'Acme EA 2023', status: 'Approved', lodgementNumber: 'AG2023/100', approvedDate: '2023-03-01', expiryDate: '2027-03-01' },
+      TODAY
+    )
+
+    expect(changes).toEqual([])
+  })
+
+  it('should report a new agreement when there is no record or the lodgement number differs', () => {
+    const scraped = { title: 'Acme EA 2026', status: 'Approved', lodgementNumber: 'AG2026/7', expiryDate: '2030-01-01' }
+
+    expect(diffEbaRecord(null, scraped, TODAY).map((change) => change.changeType)).toEqual(['new_agreement'])
+
+    const [change] = diffEbaRecord(stored(), scraped, TODAY)
+    expect(change.changeType).toBe('new_agreement')
+    expect(change.fingerprint).toBe('AG2026/7')
+    expect(change.previous?.lodgementNumber).toBe('AG2023/100')
+    expect(change.current.expiryDate).toBe('2030-01-01')
+  })
+
+  it('should report approval of a lodged agreement', () => {
+    const changes = diffEbaRecord(
+      stored({ fwc_certified_date: null, fwc_agreement_status: 'Lodged' }),
+      { title: 'Acme EA 2023', status: 'Approved', lodgementNumber: 'AG2023/100', approvedDate: '15/04/2023', expiryDate: '2027-03-01' },
+      TODAY
+    )
+
+    expect(changes.map((change) => change.changeType)).toEqual(['agreement_approved'])
+    expect(changes[0].fingerprint).toBe('AG2023/100:2023-04-15')
+  })
+
+  it('should report expiry once, by status or by a passed expiry date', () => {
+    const byDate = diffEbaRecord(
+      stored({ nominal_expiry_date: '2025-12-31' }),
+      { title: 'Acme EA 2023', status: 'Approved', lodgementNumber: 'AG2023/100', approvedDate: '2023-03-01', expiryDate: '2025-12-31' },
+      TODAY
+    )
+    expect(byDate.map((change) => change.changeType)).toEqual(['agreement_expired'])
+    expect(byDate[0].fingerprint).toBe('AG2023/100:expired')
+
+    const alreadyKnown = diffEbaRecord(
+      stored({ fwc_agreement_status: 'Expired' }),
+      { title: 'Acme EA 2023', status: 'Expired', lodgementNumber: 'AG2023/100', approvedDate: '2023-03-01', expiryDate: '2027-03-01' },
+      TODAY
+    )
+    expect(alreadyKnown).toEqual([])
+  })
+
+  it('should report a changed nominal expiry date', () => {
+    const changes = diffEbaRecord(
+      stored(),
+      { title: 'Acme EA 2023', status: 'Approved', lodgementNumber: 'AG2023/100', approvedDate: '2023-03-01', expiryDate: '2028-03-01' },
+      TODAY
+    )
+
+    expect(changes.map((change) => change.changeType)).toEqual(['expiry_date_changed'])
+    expect(changes[0].previous?.expiryDate).toBe('2027-03-01')
+  })
+
+  it('should normalise day-first dates', () => {
+    expect(normalizeDateInput('15/04/23')).toBe('2023-04-15')
+    expect(normalizeDateInput('  ')).toBeNull()
+  })
+})
@@ -0,0 +1,115 @@
+/**
+ * Compare a scraped FWC agreement with the stored company_eba_records row
+ * and describe what changed, for the eba_change_events digest.
+ */
+
+export type EbaChangeType = 'new_agreement' | 'agreement_approved' | 'agreement_expired' | 'expiry_date_changed'
+
+export interface StoredEbaSnapshot {
+  fwc_lodgement_number: string | null
+  fwc_certified_date: string | null
+  nominal_expiry_date: string | null
+  fwc_agreement_status: string | null
+}
+
+export interface ScrapedEbaAgreement {
+  title: string
+  status: string
+  approvedDate?: string
+  expiryDate?: string
+  lodgementNumber?: string
+}
+
+export interface EbaAgreementSnapshot {
+  title: string | null
+  status: string | null
+  lodgementNumber: string | null
+  approvedDate: string | null
+  expiryDate: string | null
+}
+
+export interface EbaChange {
+  changeType: EbaChangeType
+  previous: EbaAgreementSnapshot | null
+  current: EbaAgreementSnapshot
+  // Stable per change, so re-verifying an unchanged agreement never records it twice
+  fingerprint: string
+}
+
+const EXPIRED_STATUS_PATTERN = /expired|terminated|ceased/i
+
+export function diffEbaRecord(
+  stored: StoredEbaSnapshot | null,
+  scraped: ScrapedEbaAgreement,
+  today: Date = new Date()
+): EbaChange[] {
+  const todayIso = today.toISOString().slice(0, 10)
+  const current: EbaAgreementSnapshot = {
+    title: scraped.title || null,
+    status: scraped.status || null,
+    lodgementNumber: scraped.lodgementNumber?.trim() || null,
+    approvedDate: normalizeDateInput(scraped.approvedDate),
+    expiryDate: normalizeDateInput(scraped.expiryDate),
+  }
+  const previous: EbaAgreementSnapshot | null = stored
+    ? {
+        title: null,
+        status: stored.fwc_agreement_status,
+        lodgementNumber: stored.fwc_lodgement_number,
+        approvedDate: normalizeDateInput(stored.fwc_certified_date),
+        expiryDate: normalizeDateInput(stored.nominal_expiry_date),
+      }
+    : null
+
+  const agreementKey = current.lodgementNumber ?? current.title ?? 'unknown'
+  const isNewAgreement =
+    !previous || (current.lodgementNumber !== null && current.lodgementNumber !== previous.lodgementNumber)
+
+  const changes: EbaChange[] = []
+  const push = (changeType: EbaChangeType, fingerprint: string) =>
+    changes.push({ changeType, previous, current, fingerprint })
+
+  if (isNewAgreement) {
+    push('new_agreement', agreementKey)
+  } else if (previous) {
+    if (current.approvedDate && !previous.approvedDate) {
+      push('agreement_approved', `${agreementKey}:${current.approvedDate}`)
+    }
+    if (current.expiryDate && previous.expiryDate && current.expiryDate !== previous.expiryDate) {
+      push('expiry_date_changed', `${agreementKey}:${current.expiryDate}`)
+    }
+  }
+
+  const isExpired =
+    EXPIRED_STATUS_PATTERN.test(current.status ?? '') || (current.expiryDate !== null && current.expiryDate < todayIso)
+  const wasKnownExpired = !isNewAgreement && EXPIRED_STATUS_PATTERN.test(previous?.status ?? '')
+  if (isExpired && !wasKnownExpired) {
+    push('agreement_expired', `${agreementKey}:expired`)
+  }
+
+  return changes
+}
+
+export function normalizeDateInput(value?: string | null): string | null {
+  if (!value) return null
+  const trimmed = value.trim()
+  if (!trimmed) return null
+
+  const parsed = new Date(trimmed)
+  if (!Number.isNaN(parsed.getTime())) {
+    return parsed.toISOString().slice(0, 10)
+  }
+
+  const match = trimmed.match(/^(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4})$/)
+  if (match) {
+    const dd = match[1].padStart(2, '0')
+    const mm = match[2].padStart(2, '0')
+    let yyyy = match[3]
+    if (yyyy.length === 2) {
+      yyyy = (Number(yyyy) > 50 ? '19' : '20') + yyyy
+    }
+    return `${yyyy}-${mm}-${dd}`
+  }
+
+  return null
+}
@@ -0,0 +1,285 @@
+/**
+ * Unit tests for the shared job queue, run against the in-memory store
+ */
+
+import { JobQueue, JobQueueOptions } from '../queue'
+import { InMemoryJobStore } from '../memoryStore'
+import { PermanentJobError } from '../errors'
+import { calculateBackoffDelay } from '../backoff'
+import { JobQueueLogger } from '../types'
+
+const silentLogger: JobQueueLogger = { info: () => {}, warn: () => {}, error: () => {} }
+
+function createClock(start = '2026-01-01T00:00:00.000Z') {
+  let current = new Date(start).getTime()
+  return {
+    now: () => new Date(current),
+    advance: (ms: number) => {
+      current += ms
+    },
+  }
+}
+
+function createQueue(store: InMemoryJobStore, clock: ReturnType<typeof createClock>, options: Partial<JobQueueOptions> = {}) {
+  return new JobQueue({
+    store,
+    now: clock.now,
+    logger: silentLogger,
+    cancellationCheckMs: 10,
+    backoff: { baseDelayMs: 1000, maxDelayMs: 10_000, multiplier: 2 },
+    ...options,
+  })
+}
+
+describe('JobQueue', () => {
+  describe('calculateBackoffDelay', () => {
+    it('should grow exponentially and cap at the maximum', () => {
+      const options = { baseDelayMs: 1000, maxDelayMs: 5000, multiplier: 2 }
+      expect(calculateBackoffDelay(1, options)).toBe(1000)
+      expect(calculateBackoffDelay(2, options)).toBe(2000)
+      expect(calculateBackoffDelay(3, options)).toBe(4000)
+      expect(calculateBackoffDelay(4, options)).toBe(5000)
+    })
+  })
+
+  describe('handlers', () => {
+    it('should dispatch jobs to the handler registered for their type', async () => {
+      const clock = createClock()
+      const store = new InMemoryJobStore(clock.now)
+      const queue = createQueue(store, clock)
+      const seen: string[] = []
+
+      queue.register('fwc_lookup', async ({ job }) => {
+        seen.push(`fwc:${job.id}`)
+        return { processed: 1 }
+      })
+      queue.register('incolink_sync', async ({ job, updateProgress }) => {
+        seen.push(`incolink:${job.id}`)
+        await updateProgress(3, 3)
+      })
+
+      const fwc = await queue.enqueue({ job_type: 'fwc_lookup', payload: {} })
+      const incolink = await queue.enqueue({ job_type: 'incolink_sync', payload: {}, priority: 1 })
+
+      expect(await queue.processNext()).toBe('succeeded')
+      expect(await queue.processNext()).toBe('succeeded')
+      expect(await queue.processNext()).toBeNull()
+
+      expect(seen).toEqual([`incolink:${incolink.id}`, `fwc:${fwc.id}`])
+      expect(store.job(incolink.id)?.progress_completed).toBe(3)
+      expect(store.job(fwc.id)?.status).toBe('succeeded')
+      expect(store.job(fwc.id)?.lock_token).toBeNull()
+
+      const completed = store.events(fwc.id).find((event) => event.event_type === 'job_completed')
+      expect(completed?.payload).toEqual({ processed: 1 })
+    })
+
+    it('should ignore job types without a handler', async () => {
+      const clock = createClock()
+      const store = new InMemoryJobStore(clock.now)
+      const queue = createQueue(store, clock)
+      queue.register('fwc_lookup', async () => undefined)
+
+      const scan = await store.insertJob({
+        job_type: 'mapping_sheet_scan',
+        payload: {},
+        status: 'queued',
+        priority: 5,
+        max_attempts: 3,
+        run_at: clock.now().toISOString(),
+        depends_on: null,
+        progress_total: 0,
+      })
+
+      expect(await queue.processNext()).toBeNull()
+      expect(store.job(scan.id)?.status).toBe('queued')
+    })
+
+    it('should reject duplicate registrations', () => {
+      const clock = createClock()
+      const queue = createQueue(new InMemoryJobStore(clock.now), clock)
+      queue.register('fwc_lookup', async () => undefined)
+
+      expect(() => queue.register('fwc_lookup', async () => undefined)).toThrow("A handler for 'fwc_lookup' is already registered")
+    })
+  })
+
+  describe('retries', () => {
+    it('should requeue failures with exponential backoff then dead-letter them', async () => {
+      const clock = createClock()
+      const store = new InMemoryJobStore(clock.now)
+      const queue = createQueue(store, clock)
+      queue.register('fwc_lookup', async () => {
+        throw new Error('FWC search timed out')
+      })
+
+      const job = await queue.enqueue({ job_type: 'fwc_lookup', payload: {}, max_attempts: 3 })
+
+      expect(await queue.processNext()).toBe('retrying')
+      expect(store.job(job.id)?.status).toBe('queued')
+      expect(store.job(job.id)?.run_at).toBe('2026-01-01T00:00:01.000Z')
+
+      // Not due yet
+      expect(await queue.processNext()).toBeNull()
+
+      clock.advance(1000)
+      expect(await queue.processNext()).toBe('retrying')
+      expect(store.job(job.id)?.run_at).toBe('2026-01-01T00:00:03.000Z')
+
+      clock.advance(2000)
+      expect(await queue.processNext()).toBe('dead_letter')
+
+      const final = store.job(job.id)
+      expect(final?.status).toBe('dead_letter')
+      expect(final?.attempts).toBe(3)
+      expect(final?.last_error).toBe('FWC search timed out')
+      expect(final?.completed_at).not.toBeNull()
+      expect(store.events(job.id).map((event) => event.event_type)).toContain('job_dead_lettered')
+    })
+
+    it('should fail permanent errors without retrying', async () => {
+      const clock = createClock()
+      const store = new InMemoryJobStore(clock.now)
+      const queue = createQueue(store, clock)
+      queue.register('fwc_lookup', async () => {
+        throw new PermanentJobError('Payload has no employer IDs')
+      })
+
+      const job = await queue.enqueue({ job_type: 'fwc_lookup', payload: {}, max_attempts: 5 })
+
+      expect(await queue.processNext()).toBe('failed')
+      expect(store.job(job.id)?.status).toBe('failed')
+      expect(store.job(job.id)?.attempts).toBe(1)
+    })
+  })
+
+  describe('concurrency', () => {
+    it('should not claim more jobs of a type than its concurrency limit', async () => {
+      const clock = createClock()
+      const store = new InMemoryJobStore(clock.now)
+      const queue = createQueue(store, clock)
+      queue.register('fwc_lookup', async () => undefined, { concurrency: 1 })
+      queue.register('incolink_sync', async () => undefined)
+
+      await queue.enqueue({ job_type: 'fwc_lookup', payload: {} })
+      await queue.enqueue({ job_type: 'fwc_lookup', payload: {} })
+      const incolink = await queue.enqueue({ job_type: 'incolink_sync', payload: {} })
+
+      const first = await queue.reserveNext()
+      expect(first?.job_type).toBe('fwc_lookup')
+
+      const second = await queue.reserveNext()
+      expect(second?.id).toBe(incolink.id)
+
+      expect(await queue.reserveNext()).toBeNull()
+
+      await queue.runJob(first!)
+      const third = await queue.reserveNext()
+      expect(third?.job_type).toBe('fwc_lookup')
+    })
+
+    it('should let only one of two competing workers claim a job', async () => {
+      const clock = createClock()
+      const store = new InMemoryJobStore(clock.now)
+      const workerA = createQueue(store, clock)
+      const workerB = createQueue(store, clock)
+      workerA.register('fwc_lookup', async () => undefined)
+      workerB.register('fwc_lookup', async () => undefined)
+
+      await workerA.enqueue({ job_type: 'fwc_lookup', payload: {} })
+
+      const claims = await Promise.all([workerA.reserveNext(), workerB.reserveNext()])
+      expect(claims.filter(Boolean).length).toBe(1)
+    })
+  })
+
+  describe('dependencies', () => {
+    it('should wait until every dependency has succeeded', async () => {
+      const clock = createClock()
+      const store = new InMemoryJobStore(clock.now)
+      const queue = createQueue(store, clock)
+      const order: string[] = []
+      queue.register('fwc_lookup', async ({ job }) => {
+        order.push(job.id)
+      })
+
+      const parent = await queue.enqueue({ job_type: 'fwc_lookup', payload: {}, priority: 9 })
+      const child = await queue.enqueue({ job_type: 'fwc_lookup', payload: {}, priority: 1, depends_on: [parent.id] })
+
+      expect(await queue.processNext()).toBe('succeeded')
+      expect(await queue.processNext()).toBe('succeeded')
+      expect(order).toEqual([parent.id, child.id])
+    })
+
+    it('should dead-letter jobs whose dependency cannot succeed', async () => {
+      const clock = createClock()
+      const store = new InMemoryJobStore(clock.now)
+      const queue = createQueue(store, clock)
+      queue.register('fwc_lookup', async () => {
+        throw new PermanentJobError('Bad payload')
+      })
+
+      const parent = await queue.enqueue({ job_type: 'fwc_lookup', payload: {} })
+      const child = await queue.enqueue({ job_type: 'fwc_lookup', payload: {}, depends_on: [parent.id] })
+
+      expect(await queue.processNext()).toBe('failed')
+      expect(await queue.processNext()).toBeNull()
+
+      expect(store.job(child.id)?.status).toBe('dead_letter')
+      expect(store.job(child.id)?.last_error).toBe(`Dependency ${parent.id} is failed`)
+    })
+  })
+
+  describe('cancellation', () => {
+    it('should abort a running job once it is cancelled and leave it cancelled', async () => {
+      const clock = createClock()
+      const store = new InMemoryJobStore(clock.now)
+      const queue = createQueue(store, clock)
+      let steps = 0
+
+      queue.register('fwc_lookup', async ({ signal }) => {
+        while (!signal.aborted && steps < 200) {
+          steps++
+          await new Promise((resolve) => setTimeout(resolve, 5))
+        }
+      })
+
+      const job = await queue.enqueue({ job_type: 'fwc_lookup', payload: {} })
+      const outcome = queue.processNext()
+
+      await new Promise((resolve) => setTimeout(resolve, 30))
+      await store.updateJob(job.id, { status: 'cancelled' })
+
+      expect(await outcome).toBe('cancelled')
+      expect(steps).toBeLessThan(200)
+
+      const final = store.job(job.id)
+      expect(final?.status).toBe('cancelled')
+      expect(final?.lock_token).toBeNull()
+      expect(store.events(job.id).map((event) => event.event_type)).toContain('job_cancel_honoured')
+    })
+  })
+
+  describe('cleanupStaleLocks', () => {
+    it('should requeue jobs whose lock has expired', async () => {
+      const clock = createClock()
+      const store = new InMemoryJobStore(clock.now)
+      const crashed = createQueue(store, clock, { lockTimeoutMs: 60_000 })
+      const survivor = createQueue(store, clock, { lockTimeoutMs: 60_000 })
+      crashed.register('fwc_lookup', async () => undefined)
+      survivor.register('fwc_lookup', async () => undefined)
+
+      const job = await crashed.enqueue({ job_type: 'fwc_lookup', payload: {} })
+      await crashed.reserveNext()
+
+      expect(await survivor.cleanupStaleLocks()).toBe(0)
+
+      clock.advance(61_000)
+      expect(await survivor.cleanupStaleLocks()).toBe(1)
+      expect(store.job(job.id)?.status).toBe('queued')
+      expect(store.job(job.id)?.lock_token).toBeNull()
+
+      expect(await survivor.processNext()).toBe('succeeded')
+    })
+  })
+})
@@ -0,0 +1,17 @@
+import { BackoffOptions } from './types'
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  baseDelayMs: 5000,
+  maxDelayMs: 5 * 60_000,
+  multiplier: 2,
+}
+
+/**
+ * Delay before retrying a job that failed on the given attempt (1-based):
+ * baseDelay * multiplier^(attempt - 1), capped at maxDelay.
+ */
+export function calculateBackoffDelay(attempt: number, options: BackoffOptions = DEFAULT_BACKOFF): number {
+  const exponent = Math.max(attempt, 1) - 1
+  const delay = options.baseDelayMs * Math.pow(options.multiplier, exponent)
+  return Math.min(delay, options.maxDelayMs)
+}
@@ -0,0 +1,20 @@
+// Thrown by a handler when retrying cannot help (bad payload, missing records).
+// The job is marked failed straight away instead of being retried.
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PermanentJobError'
+  }
+}
+
+export class JobQueueError extends Error {
+  public readonly code: string
+  public readonly details?: Record<string, unknown>
+
+  constructor(code: string, message: string, details?: Record<string, unknown>) {
+    super(message)
+    this.name = 'JobQueueError'
+    this.code = code
+    this.details = details
+  }
+}
@@ -0,0 +1,21 @@
+export { JobQueue } from './queue'
+export type { JobQueueOptions } from './queue'
+export { SupabaseJobStore } from './store'
+export type { JobStore, JobGuard, JobUpdate, NewJobRow, CandidateQuery, SupabaseJobStoreOptions } from './store'
+export { InMemoryJobStore } from './memoryStore'
+export type { StoredJobEvent } from './memoryStore'
+export { calculateBackoffDelay, DEFAULT_BACKOFF } from './backoff'
+export { PermanentJobError, JobQueueError } from './errors'
+export { TERMINAL_STATUSES } from './types'
+export type {
+  JobStatus,
+  RunningStatus,
+  QueueJob,
+  EnqueueJobInput,
+  JobContext,
+  JobHandler,
+  JobHandlerOptions,
+  JobOutcome,
+  BackoffOptions,
+  JobQueueLogger,
+} from './types'
@@ -0,0 +1,126 @@
+import { randomUUID } from 'crypto'
+import { CandidateQuery, JobGuard, JobStore, JobUpdate, NewJobRow } from './store'
+import { JobStatus, QueueJob } from './types'
+
+export interface StoredJobEvent {
+  id: number
+  job_id: string
+  event_type: string
+  payload: Record<string, unknown> | null
+  created_at: string
+}
+
+/**
+ * In-memory stand-in for the Postgres job table, for tests and local runs without Supabase.
+ * Rows are copied on the way in and out, and guarded updates behave like a single
+ * UPDATE ... WHERE statement, so competing claims resolve the same way they do in Postgres.
+ */
+export class InMemoryJobStore implements JobStore {
+  private readonly jobs = new Map<string, QueueJob>()
+  private readonly eventLog: StoredJobEvent[] = []
+  private nextEventId = 1
+
+  constructor(private readonly now: () => Date = () => new Date()) {}
+
+  async insertJob(row: NewJobRow): Promise<QueueJob> {
+    const timestamp = this.now().toISOString()
+    const job: QueueJob = {
+      id: randomUUID(),
+      attempts: 0,
+      lock_token: null,
+      locked_at: null,
+      last_error: null,
+      progress_completed: 0,
+      environment: null,
+      created_by: null,
+      created_at: timestamp,
+      updated_at: timestamp,
+      completed_at: null,
+      ...row,
+    }
+
+    this.jobs.set(job.id, job)
+    return this.copy(job)
+  }
+
+  async fetchCandidates(query: CandidateQuery): Promise<QueueJob[]> {
+    return [...this.jobs.values()]
+      .filter((job) =>
+        job.status === 'queued' &&
+        query.jobTypes.includes(job.job_type) &&
+        new Date(job.run_at) <= query.now &&
+        (!query.environment || job.environment === query.environment)
+      )
+      .sort((a, b) => a.priority - b.priority || a.created_at.localeCompare(b.created_at))
+      .slice(0, query.limit)
+      .map((job) => this.copy(job))
+  }
+
+  async updateJob(jobId: string, fields: JobUpdate, guard: JobGuard = {}): Promise<QueueJob | null> {
+    const job = this.jobs.get(jobId)
+    if (!job) return null
+    if (guard.statuses && !guard.statuses.includes(job.status)) return null
+    if (guard.lockToken !== undefined && job.lock_token !== guard.lockToken) return null
+
+    const updated: QueueJob = { ...job, ...this.copy(fields as QueueJob), updated_at: this.now().toISOString() }
+    this.jobs.set(jobId, updated)
+    return this.copy(updated)
+  }
+
+  async getJobs(jobIds: string[]): Promise<QueueJob[]> {
+    return jobIds
+      .map((id) => this.jobs.get(id))
+      .filter((job): job is QueueJob => Boolean(job))
+      .map((job) => this.copy(job))
+  }
+
+  async countJobs(jobType: string, statuses: JobStatus[], environment?: string): Promise<number> {
+    return [...this.jobs.values()].filter((job) =>
+      job.job_type === jobType &&
+      statuses.includes(job.status) &&
+      (!environment || job.environment === environment)
+    ).length
+  }
+
+  async findLockedBefore(
+    statuses: JobStatus[],
+    lockedBefore: Date,
+    jobTypes: string[],
+    environment?: string
+  ): Promise<QueueJob[]> {
+    return [...this.jobs.values()]
+      .filter((job) =>
+        statuses.includes(job.status) &&
+        jobTypes.includes(job.job_type) &&
+        job.locked_at !== null &&
+        new Date(job.locked_at) < lockedBefore &&
+        (!environment || job.environment === environment)
+      )
+      .map((job) => this.copy(job))
+  }
+
+  async appendEvent(jobId: string, eventType: string, payload?: Record<string, unknown>): Promise<void> {
+    this.eventLog.push({
+      id: this.nextEventId++,
+      job_id: jobId,
+      event_type: eventType,
+      payload: payload ? this.copy(payload) : null,
+      created_at: this.now().toISOString(),
+    })
+  }
+
+  // -- Test helpers ---------------------------------------------------------
+
+  job(jobId: string): QueueJob | undefined {
+    const job = this.jobs.get(jobId)
+    return job ? this.copy(job) : undefined
+  }
+
+  events(jobId?: string): StoredJobEvent[] {
+    return this.eventLog.filter((event) => !jobId || event.job_id === jobId).map((event) => this.copy(event))
+  }
+
+  private copy<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value)) as T
+  }
+}
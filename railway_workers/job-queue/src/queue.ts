@@ -0,0 +1,489 @@
+import { randomUUID } from 'crypto'
+import { calculateBackoffDelay, DEFAULT_BACKOFF } from './backoff'
+import { JobQueueError, PermanentJobError } from './errors'
+import { JobStore } from './store'
+import {
+  BackoffOptions,
+  EnqueueJobInput,
+  JobContext,
+  JobHandler,
+  JobHandlerOptions,
+  JobOutcome,
+  JobQueueLogger,
+  JobStatus,
+  QueueJob,
+  RunningStatus,
+} from './types'
+
+export interface JobQueueOptions {
+  store: JobStore
+  // Status written while a job is locked ('running' for scraper jobs, 'processing' for scans)
+  runningStatus?: RunningStatus
+  // Only claim jobs tagged with this environment (see scraper_jobs.environment)
+  environment?: string
+  pollIntervalMs?: number
+  lockTimeoutMs?: number
+  cleanupIntervalMs?: number
+  // How often a running job is re-read to see whether it was cancelled
+  cancellationCheckMs?: number
+  // Jobs this process runs at the same time
+  maxConcurrentJobs?: number
+  candidateLimit?: number
+  backoff?: Partial<BackoffOptions>
+  logger?: JobQueueLogger
+  now?: () => Date
+}
+
+interface RegisteredHandler {
+  handler: JobHandler<any, unknown>
+  options: JobHandlerOptions
+}
+
+const DEPENDENCY_BLOCKING_STATUSES: JobStatus[] = ['failed', 'cancelled', 'dead_letter']
+
+const consoleLogger: JobQueueLogger = {
+  info: (message, data) => console.log(`[queue] ${message}`, data ?? ''),
+  warn: (message, data) => console.warn(`[queue] ${message}`, data ?? ''),
+  error: (message, data) => console.error(`[queue] ${message}`, data ?? ''),
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+export class JobQueue {
+  private readonly store: JobStore
+  private readonly runningStatus: RunningStatus
+  private readonly environment?: string
+  private readonly pollIntervalMs: number
+  private readonly lockTimeoutMs: number
+  private readonly cleanupIntervalMs: number
+  private readonly cancellationCheckMs: number
+  private readonly maxConcurrentJobs: number
+  private readonly candidateLimit: number
+  private readonly backoff: BackoffOptions
+  private readonly logger: JobQueueLogger
+  private readonly now: () => Date
+
+  private readonly handlers = new Map<string, RegisteredHandler>()
+  private readonly activeJobs = new Map<string, { job: QueueJob; controller: AbortController }>()
+  private readonly inFlight = new Set<Promise<unknown>>()
+  private stopping = false
+  private loopPromise: Promise<void> | null = null
+
+  constructor(options: JobQueueOptions) {
+    this.store = options.store
+    this.runningStatus = options.runningStatus ?? 'running'
+    this.environment = options.environment
+    this.pollIntervalMs = options.pollIntervalMs ?? 5000
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 5 * 60_000
+    this.cleanupIntervalMs = options.cleanupIntervalMs ?? 5 * 60_000
+    this.cancellationCheckMs = options.cancellationCheckMs ?? 5000
+    this.maxConcurrentJobs = Math.max(1, options.maxConcurrentJobs ?? 1)
+    this.candidateLimit = options.candidateLimit ?? 20
+    this.backoff = { ...DEFAULT_BACKOFF, ...options.backoff }
+    this.logger = options.logger ?? consoleLogger
+    this.now = options.now ?? (() => new Date())
+  }
+
+  // ---------------------------------------------------------------------------
+  // Registration and enqueueing
+  // ---------------------------------------------------------------------------
+
+  register<TPayload, TResult = unknown>(
+    jobType: string,
+    handler: JobHandler<TPayload, TResult>,
+    options: JobHandlerOptions = {}
+  ): this {
+    if (this.handlers.has(jobType)) {
+      throw new JobQueueError('DUPLICATE_HANDLER', `A handler for '${jobType}' is already registered`, { jobType })
+    }
+    if (options.concurrency !== undefined && options.concurrency < 1) {
+      throw new JobQueueError('INVALID_CONCURRENCY', `Concurrency for '${jobType}' must be at least 1`, {
+        jobType,
+        concurrency: options.concurrency,
+      })
+    }
+
+    this.handlers.set(jobType, { handler: handler as JobHandler<any, unknown>, options })
+    return this
+  }
+
+  get jobTypes(): string[] {
+    return [...this.handlers.keys()]
+  }
+
+  get activeJobIds(): string[] {
+    return [...this.activeJobs.keys()]
+  }
+
+  async enqueue<TPayload>(input: EnqueueJobInput<TPayload>): Promise<QueueJob<TPayload>> {
+    const job = await this.store.insertJob({
+      job_type: input.job_type,
+      payload: input.payload as Record<string, unknown>,
+      status: 'queued',
+      priority: input.priority ?? 5,
+      max_attempts: input.max_attempts ?? 5,
+      run_at: (input.run_at ?? this.now()).toISOString(),
+      depends_on: input.depends_on && input.depends_on.length > 0 ? input.depends_on : null,
+      progress_total: input.progress_total ?? 0,
+      environment: this.environment ?? null,
+      created_by: input.created_by ?? null,
+    })
+
+    return job as QueueJob<TPayload>
+  }
+
+  // ---------------------------------------------------------------------------
+  // Claiming
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Lock the next runnable job: its type has a handler with spare concurrency and every job
+   * it depends on has succeeded. Jobs whose dependencies can no longer succeed are dead-lettered.
+   */
+  async reserveNext(): Promise<QueueJob | null> {
+    const now = this.now()
+    const availableTypes: string[] = []
+
+    for (const jobType of this.handlers.keys()) {
+      if (await this.hasCapacity(jobType)) {
+        availableTypes.push(jobType)
+      }
+    }
+
+    const candidates = await this.store.fetchCandidates({
+      jobTypes: availableTypes,
+      now,
+      limit: this.candidateLimit,
+      environment: this.environment,
+    })
+
+    const claimedTypes = new Set<string>()
+
+    for (const candidate of candidates) {
+      // Capacity was checked before fetching; re-check once a type has been claimed in this pass
+      if (claimedTypes.has(candidate.job_type) && !(await this.hasCapacity(candidate.job_type))) {
+        continue
+      }
+
+      if (!(await this.dependenciesSatisfied(candidate))) {
+        continue
+      }
+
+      const lockToken = randomUUID()
+      const lockedJob = await this.store.updateJob(
+        candidate.id,
+        {
+          status: this.runningStatus,
+          lock_token: lockToken,
+          locked_at: now.toISOString(),
+          attempts: (candidate.attempts ?? 0) + 1,
+          last_error: null,
+        },
+        { statuses: ['queued'], lockToken: null }
+      )
+
+      if (lockedJob) {
+        claimedTypes.add(lockedJob.job_type)
+        await this.store.appendEvent(lockedJob.id, 'job_locked', { lockToken })
+        return lockedJob
+      }
+    }
+
+    return null
+  }
+
+  private async hasCapacity(jobType: string): Promise<boolean> {
+    const limit = this.handlers.get(jobType)?.options.concurrency
+    if (limit === undefined) return true
+
+    const running = await this.store.countJobs(jobType, [this.runningStatus], this.environment)
+    return running < limit
+  }
+
+  private async dependenciesSatisfied(job: QueueJob): Promise<boolean> {
+    const dependencyIds = job.depends_on ?? []
+    if (dependencyIds.length === 0) return true
+
+    const dependencies = await this.store.getJobs(dependencyIds)
+    const found = new Map(dependencies.map((dependency) => [dependency.id, dependency]))
+
+    for (const dependencyId of dependencyIds) {
+      const dependency = found.get(dependencyId)
+      const blockingStatus = dependency ? dependency.status : 'missing'
+
+      if (!dependency || DEPENDENCY_BLOCKING_STATUSES.includes(dependency.status)) {
+        const message = `Dependency ${dependencyId} is ${blockingStatus}`
+        const deadLettered = await this.store.updateJob(
+          job.id,
+          { status: 'dead_letter', last_error: message, completed_at: this.now().toISOString() },
+          { statuses: ['queued'] }
+        )
+        if (deadLettered) {
+          await this.store.appendEvent(job.id, 'job_dead_lettered', { reason: message, dependencyId })
+        }
+        return false
+      }
+    }
+
+    return dependencies.every((dependency) => dependency.status === 'succeeded')
+  }
+
+  // ---------------------------------------------------------------------------
+  // Running
+  // ---------------------------------------------------------------------------
+
+  async processNext(): Promise<JobOutcome | null> {
+    const job = await this.reserveNext()
+    return job ? this.runJob(job) : null
+  }
+
+  /**
+   * Run a job this queue has locked and record the outcome: succeeded, retried with
+   * exponential backoff, failed (permanent error), dead-lettered (attempts exhausted)
+   * or cancelled (cancelled while running).
+   */
+  async runJob(job: QueueJob): Promise<JobOutcome> {
+    const registration = this.handlers.get(job.job_type)
+
+    if (!registration) {
+      await this.store.appendEvent(job.id, 'job_skipped', { reason: 'Unknown job type' })
+      await this.finish(job, 'failed', { last_error: `Unsupported job type: ${job.job_type}` })
+      return 'failed'
+    }
+
+    const controller = new AbortController()
+    this.activeJobs.set(job.id, { job, controller })
+    const cancellationTimer = setInterval(() => {
+      this.checkCancellation(job, controller).catch((error) => {
+        this.logger.warn('Cancellation check failed', { jobId: job.id, error: this.errorMessage(error) })
+      })
+    }, this.cancellationCheckMs)
+
+    const context: JobContext<any> = {
+      job,
+      signal: controller.signal,
+      isCancelled: () => controller.signal.aborted,
+      updateProgress: async (completed, total) => {
+        await this.store.updateJob(
+          job.id,
+          total === undefined ? { progress_completed: completed } : { progress_completed: completed, progress_total: total },
+          { lockToken: job.lock_token }
+        )
+      },
+      appendEvent: (eventType, payload) => this.store.appendEvent(job.id, eventType, payload),
+    }
+
+    try {
+      await this.store.appendEvent(job.id, 'job_started', { attempts: job.attempts })
+      const result = await registration.handler(context)
+
+      if (controller.signal.aborted) {
+        return await this.recordCancelled(job)
+      }
+
+      const completedPayload = this.isPlainObject(result) ? (result as Record<string, unknown>) : undefined
+      if (!(await this.finish(job, 'succeeded', { last_error: null }))) {
+        return await this.recordCancelled(job)
+      }
+      await this.store.appendEvent(job.id, 'job_completed', completedPayload)
+      this.logger.info('Job succeeded', { jobId: job.id, jobType: job.job_type })
+      return 'succeeded'
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return await this.recordCancelled(job)
+      }
+
+      return await this.recordFailure(job, error)
+    } finally {
+      clearInterval(cancellationTimer)
+      this.activeJobs.delete(job.id)
+    }
+  }
+
+  private async recordFailure(job: QueueJob, error: unknown): Promise<JobOutcome> {
+    const message = this.errorMessage(error)
+    this.logger.error('Job failed', { jobId: job.id, attempts: job.attempts, maxAttempts: job.max_attempts, error: message })
+    await this.store.appendEvent(job.id, 'job_failed', { error: message })
+
+    if (error instanceof PermanentJobError) {
+      return (await this.finish(job, 'failed', { last_error: message })) ? 'failed' : this.recordCancelled(job)
+    }
+
+    if (job.attempts < job.max_attempts) {
+      const delayMs = calculateBackoffDelay(job.attempts, this.backoff)
+      const requeued = await this.finish(job, 'queued', {
+        last_error: message,
+        run_at: new Date(this.now().getTime() + delayMs).toISOString(),
+      })
+      if (!requeued) return this.recordCancelled(job)
+
+      await this.store.appendEvent(job.id, 'job_requeued', { attempts: job.attempts, delayMs })
+      return 'retrying'
+    }
+
+    if (!(await this.finish(job, 'dead_letter', { last_error: message }))) {
+      return this.recordCancelled(job)
+    }
+    await this.store.appendEvent(job.id, 'job_dead_lettered', { attempts: job.attempts, error: message })
+    return 'dead_letter'
+  }
+
+  // Cancellation happens outside the worker (the job row is set to cancelled); release our lock
+  private async recordCancelled(job: QueueJob): Promise<JobOutcome> {
+    await this.store.updateJob(job.id, { lock_token: null, locked_at: null }, { lockToken: job.lock_token })
+    await this.store.appendEvent(job.id, 'job_cancel_honoured', { attempts: job.attempts })
+    this.logger.info('Job cancelled while running', { jobId: job.id, jobType: job.job_type })
+    return 'cancelled'
+  }
+
+  // Only applies while this worker still holds the lock and the job is still running
+  private async finish(job: QueueJob, status: JobStatus, fields: Partial<QueueJob>): Promise<boolean> {
+    const terminal = status !== 'queued'
+    const updated = await this.store.updateJob(
+      job.id,
+      {
+        ...fields,
+        status,
+        lock_token: null,
+        locked_at: null,
+        ...(terminal ? { completed_at: this.now().toISOString() } : {}),
+      },
+      { statuses: [this.runningStatus], lockToken: job.lock_token }
+    )
+    return updated !== null
+  }
+
+  private async checkCancellation(job: QueueJob, controller: AbortController): Promise<void> {
+    if (controller.signal.aborted) return
+
+    const [current] = await this.store.getJobs([job.id])
+    if (!current || current.status === 'cancelled' || current.lock_token !== job.lock_token) {
+      controller.abort()
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Maintenance
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Requeue jobs whose worker stopped renewing them (crashed or killed) so another worker
+   * can pick them up.
+   */
+  async cleanupStaleLocks(): Promise<number> {
+    const lockExpiry = new Date(this.now().getTime() - this.lockTimeoutMs)
+    const staleJobs = await this.store.findLockedBefore(
+      [this.runningStatus],
+      lockExpiry,
+      this.jobTypes,
+      this.environment
+    )
+
+    let released = 0
+    for (const job of staleJobs) {
+      if (this.activeJobs.has(job.id)) continue
+
+      const requeued = await this.store.updateJob(
+        job.id,
+        {
+          status: 'queued',
+          lock_token: null,
+          locked_at: null,
+          last_error: 'Lock released due to timeout (worker may have crashed)',
+          run_at: this.now().toISOString(),
+        },
+        { statuses: [this.runningStatus], lockToken: job.lock_token }
+      )
+      if (requeued) {
+        released++
+        await this.store.appendEvent(job.id, 'job_lock_expired', { lockedAt: job.locked_at })
+      }
+    }
+
+    if (released > 0) {
+      this.logger.info('Released stale job locks', { count: released })
+    }
+    return released
+  }
+
+  // ---------------------------------------------------------------------------
+  // Worker loop
+  // ---------------------------------------------------------------------------
+
+  start(): void {
+    if (this.loopPromise) return
+    this.stopping = false
+    this.loopPromise = this.loop()
+  }
+
+  /**
+   * Stop claiming jobs and wait for running ones. Jobs still running after the timeout are
+   * aborted and requeued so another worker can pick them up.
+   */
+  async stop(timeoutMs: number): Promise<void> {
+    this.stopping = true
+    await this.loopPromise
+    this.loopPromise = null
+
+    const deadline = Date.now() + timeoutMs
+    while (this.inFlight.size > 0 && Date.now() < deadline) {
+      await sleep(Math.min(1000, Math.max(deadline - Date.now(), 0)))
+    }
+
+    for (const { job, controller } of this.activeJobs.values()) {
+      this.logger.warn('Job did not complete before shutdown, re-queuing', { jobId: job.id })
+      controller.abort()
+      await this.store.updateJob(
+        job.id,
+        {
+          status: 'queued',
+          lock_token: null,
+          locked_at: null,
+          last_error: 'Job interrupted by worker shutdown',
+          run_at: this.now().toISOString(),
+        },
+        { statuses: [this.runningStatus], lockToken: job.lock_token }
+      )
+    }
+  }
+
+  private async loop(): Promise<void> {
+    let lastCleanup = Date.now()
+
+    while (!this.stopping) {
+      try {
+        if (Date.now() - lastCleanup > this.cleanupIntervalMs) {
+          await this.cleanupStaleLocks()
+          lastCleanup = Date.now()
+        }
+
+        if (this.inFlight.size >= this.maxConcurrentJobs) {
+          await Promise.race(this.inFlight)
+          continue
+        }
+
+        const job = await this.reserveNext()
+        if (!job) {
+          await sleep(this.pollIntervalMs)
+          continue
+        }
+
+        const run: Promise<unknown> = this.runJob(job)
+          .catch((error) => this.logger.error('Unhandled job error', { jobId: job.id, error: this.errorMessage(error) }))
+          .finally(() => this.inFlight.delete(run))
+        this.inFlight.add(run)
+      } catch (error) {
+        this.logger.error('Worker loop error', { error: this.errorMessage(error) })
+        await sleep(this.pollIntervalMs)
+      }
+    }
+  }
+
+  private isPlainObject(value: unknown): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+  }
+
+  private errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : 'Unknown worker error'
+  }
+}
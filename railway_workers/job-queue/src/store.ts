@@ -0,0 +1,193 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { JobStatus, QueueJob } from './types'
+
+export interface CandidateQuery {
+  jobTypes: string[]
+  now: Date
+  limit: number
+  environment?: string
+}
+
+// Conditions an update must match, like the WHERE clause of a compare-and-set UPDATE.
+// lockToken null means the row must be unlocked.
+export interface JobGuard {
+  statuses?: JobStatus[]
+  lockToken?: string | null
+}
+
+export type JobUpdate = Partial<Omit<QueueJob, 'id' | 'created_at'>>
+
+export type NewJobRow = Pick<
+  QueueJob,
+  'job_type' | 'payload' | 'status' | 'priority' | 'max_attempts' | 'run_at' | 'depends_on' | 'progress_total'
+> & {
+  environment?: string | null
+  created_by?: string | null
+}
+
+/**
+ * Persistence used by JobQueue. Every method maps onto a single statement against the
+ * job table so claims and state changes stay atomic without server-side functions.
+ */
+export interface JobStore {
+  insertJob(row: NewJobRow): Promise<QueueJob>
+  // Queued jobs of the given types due by `now`, highest priority (lowest number) first
+  fetchCandidates(query: CandidateQuery): Promise<QueueJob[]>
+  // Returns the updated row, or null when the guard did not match
+  updateJob(jobId: string, fields: JobUpdate, guard?: JobGuard): Promise<QueueJob | null>
+  getJobs(jobIds: string[]): Promise<QueueJob[]>
+  countJobs(jobType: string, statuses: JobStatus[], environment?: string): Promise<number>
+  findLockedBefore(statuses: JobStatus[], lockedBefore: Date, jobTypes: string[], environment?: string): Promise<QueueJob[]>
+  appendEvent(jobId: string, eventType: string, payload?: Record<string, unknown>): Promise<void>
+}
+
+export interface SupabaseJobStoreOptions {
+  table?: string
+  // Set to null for queues that do not keep an event log
+  eventTable?: string | null
+}
+
+export class SupabaseJobStore implements JobStore {
+  private readonly table: string
+  private readonly eventTable: string | null
+
+  constructor(private readonly client: SupabaseClient, options: SupabaseJobStoreOptions = {}) {
+    this.table = options.table ?? 'scraper_jobs'
+    this.eventTable = options.eventTable === undefined ? 'scraper_job_events' : options.eventTable
+  }
+
+  async insertJob(row: NewJobRow): Promise<QueueJob> {
+    const { data, error } = await this.client.from(this.table).insert(row).select().single()
+
+    if (error || !data) {
+      throw new Error(`Failed to enqueue job: ${error?.message ?? 'no row returned'}`)
+    }
+
+    return data as QueueJob
+  }
+
+  async fetchCandidates(query: CandidateQuery): Promise<QueueJob[]> {
+    if (query.jobTypes.length === 0) return []
+
+    let request = this.client
+      .from(this.table)
+      .select('*')
+      .eq('status', 'queued')
+      .in('job_type', query.jobTypes)
+      .lte('run_at', query.now.toISOString())
+
+    if (query.environment) {
+      request = request.eq('environment', query.environment)
+    }
+
+    const { data, error } = await request
+      .order('priority', { ascending: true })
+      .order('created_at', { ascending: true })
+      .limit(query.limit)
+
+    if (error) {
+      throw new Error(`Failed to fetch queued jobs: ${error.message}`)
+    }
+
+    return (data ?? []) as QueueJob[]
+  }
+
+  async updateJob(jobId: string, fields: JobUpdate, guard: JobGuard = {}): Promise<QueueJob | null> {
+    let request = this.client
+      .from(this.table)
+      .update({ updated_at: new Date().toISOString(), ...fields })
+      .eq('id', jobId)
+
+    if (guard.statuses) {
+      request = request.in('status', guard.statuses)
+    }
+
+    if (guard.lockToken === null) {
+      request = request.is('lock_token', null)
+    } else if (guard.lockToken !== undefined) {
+      request = request.eq('lock_token', guard.lockToken)
+    }
+
+    const { data, error } = await request.select().maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to update job ${jobId}: ${error.message}`)
+    }
+
+    return (data as QueueJob | null) ?? null
+  }
+
+  async getJobs(jobIds: string[]): Promise<QueueJob[]> {
+    if (jobIds.length === 0) return []
+
+    const { data, error } = await this.client.from(this.table).select('*').in('id', jobIds)
+
+    if (error) {
+      throw new Error(`Failed to load jobs: ${error.message}`)
+    }
+
+    return (data ?? []) as QueueJob[]
+  }
+
+  async countJobs(jobType: string, statuses: JobStatus[], environment?: string): Promise<number> {
+    let request = this.client
+      .from(this.table)
+      .select('id', { count: 'exact', head: true })
+      .eq('job_type', jobType)
+      .in('status', statuses)
+
+    if (environment) {
+      request = request.eq('environment', environment)
+    }
+
+    const { count, error } = await request
+
+    if (error) {
+      throw new Error(`Failed to count ${jobType} jobs: ${error.message}`)
+    }
+
+    return count ?? 0
+  }
+
+  async findLockedBefore(
+    statuses: JobStatus[],
+    lockedBefore: Date,
+    jobTypes: string[],
+    environment?: string
+  ): Promise<QueueJob[]> {
+    if (jobTypes.length === 0) return []
+
+    let request = this.client
+      .from(this.table)
+      .select('*')
+      .in('status', statuses)
+      .in('job_type', jobTypes)
+      .lt('locked_at', lockedBefore.toISOString())
+
+    if (environment) {
+      request = request.eq('environment', environment)
+    }
+
+    const { data, error } = await request
+
+    if (error) {
+      throw new Error(`Failed to find stale jobs: ${error.message}`)
+    }
+
+    return (data ?? []) as QueueJob[]
+  }
+
+  async appendEvent(jobId: string, eventType: string, payload?: Record<string, unknown>): Promise<void> {
+    if (!this.eventTable) return
+
+    const { error } = await this.client.from(this.eventTable).insert({
+      job_id: jobId,
+      event_type: eventType,
+      payload: payload ?? null,
+    })
+
+    if (error) {
+      throw new Error(`Failed to insert job event: ${error.message}`)
+    }
+  }
+}
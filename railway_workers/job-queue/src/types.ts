@@ -0,0 +1,79 @@
+// Status values stored in scraper_jobs.status. Older workers used 'processing' for a locked
+// job and newer ones 'running', so the in-progress status is configurable per queue.
+export type JobStatus =
+  | 'queued'
+  | 'running'
+  | 'processing'
+  | 'succeeded'
+  | 'failed'
+  | 'cancelled'
+  | 'dead_letter'
+
+export type RunningStatus = 'running' | 'processing'
+
+export const TERMINAL_STATUSES: JobStatus[] = ['succeeded', 'failed', 'cancelled', 'dead_letter']
+
+export interface QueueJob<TPayload = Record<string, unknown>> {
+  id: string
+  job_type: string
+  payload: TPayload
+  status: JobStatus
+  priority: number
+  attempts: number
+  max_attempts: number
+  lock_token: string | null
+  locked_at: string | null
+  run_at: string
+  last_error: string | null
+  depends_on: string[] | null
+  progress_total: number
+  progress_completed: number
+  environment?: string | null
+  created_by?: string | null
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+}
+
+export interface EnqueueJobInput<TPayload = Record<string, unknown>> {
+  job_type: string
+  payload: TPayload
+  priority?: number
+  max_attempts?: number
+  run_at?: Date
+  depends_on?: string[]
+  progress_total?: number
+  created_by?: string | null
+}
+
+export interface JobContext<TPayload = Record<string, unknown>> {
+  job: QueueJob<TPayload>
+  // Aborted when the job is cancelled while it runs; long handlers should check it between steps
+  signal: AbortSignal
+  isCancelled(): boolean
+  updateProgress(completed: number, total?: number): Promise<void>
+  appendEvent(eventType: string, payload?: Record<string, unknown>): Promise<void>
+}
+
+export type JobHandler<TPayload = Record<string, unknown>, TResult = unknown> = (
+  context: JobContext<TPayload>
+) => Promise<TResult>
+
+export interface JobHandlerOptions {
+  // Maximum jobs of this type running at once across every worker sharing the table
+  concurrency?: number
+}
+
+export type JobOutcome = 'succeeded' | 'retrying' | 'failed' | 'dead_letter' | 'cancelled'
+
+export interface BackoffOptions {
+  baseDelayMs: number
+  maxDelayMs: number
+  multiplier: number
+}
+
+export interface JobQueueLogger {
+  info(message: string, data?: Record<string, unknown>): void
+  warn(message: string, data?: Record<string, unknown>): void
+  error(message: string, data?: Record<string, unknown>): void
+}
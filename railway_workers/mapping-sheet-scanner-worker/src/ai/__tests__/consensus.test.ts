@@ -0,0 +1,102 @@
+/**
+ * Unit tests for multi-provider extraction consensus
+ */
+
+import { extractWithConsensus, reconcileExtractions } from '../consensus'
+import { AiProvider, ExtractedMappingSheetData, ExtractionProvider } from '../../types'
+import { claudeExtraction, openaiExtraction } from './fixtures/extractions'
+
+function fixtureProvider(name: AiProvider, data: ExtractedMappingSheetData | Error, costUsd = 0.05): ExtractionProvider {
+  return {
+    name,
+    extract: async () =>
+      data instanceof Error
+        ? { success: false, provider: name, costUsd: 0, processingTimeMs: 10, imagesProcessed: 2, error: data.message }
+        : { success: true, provider: name, extractedData: structuredClone(data), costUsd, processingTimeMs: 10, imagesProcessed: 2 },
+  }
+}
+
+describe('Extraction consensus', () => {
+  describe('reconcileExtractions', () => {
+    const reconciled = reconcileExtractions([
+      { provider: 'claude', data: claudeExtraction },
+      { provider: 'openai', data: openaiExtraction },
+    ])
+
+    it('should keep agreeing fields and ignore formatting differences', () => {
+      expect(reconciled.project?.project_name).toBe('Parramatta Square Tower 4')
+      expect(reconciled.confidence.project?.project_name).toBe(0.95)
+      expect(reconciled.project?.project_value).toBe(12_500_000)
+      expect(reconciled.site_contacts?.[0]).toEqual({ role: 'site_manager', name: 'Jo Nguyen', phone: '0412 345 678' })
+      expect(reconciled.confidence.disputes?.project?.project_value).toBeUndefined()
+    })
+
+    it('should take the more confident reading of a disputed field and record both', () => {
+      expect(reconciled.project?.builder).toBe('Buildt Pty Ltd')
+      expect(reconciled.confidence.project?.builder).toBe(0.5)
+      expect(reconciled.confidence.disputes?.project?.builder).toEqual({
+        claude: 'Built Pty Ltd',
+        openai: 'Buildt Pty Ltd',
+      })
+      expect(reconciled.confidence.disputes?.site_contacts?.[1]).toEqual({
+        name: { claude: 'Sam Patel', openai: 'Sam Patil' },
+      })
+    })
+
+    it('should discount fields only one provider read', () => {
+      expect(reconciled.project?.eba_with_cfmeu).toBe(true)
+      expect(reconciled.confidence.project?.eba_with_cfmeu).toBe(0.77)
+      expect(reconciled.project?.roe_email).toBe('roe@built.com.au')
+      expect(reconciled.confidence.project?.roe_email).toBe(0.6)
+    })
+
+    it('should match subcontractors by stage and trade', () => {
+      expect(reconciled.subcontractors).toEqual([
+        { stage: 'structure', trade: 'Formwork', company: 'Form Co', eba: true },
+        { stage: 'finishing', trade: 'Painting', company: 'Colour Crew' },
+        { stage: 'early_works', trade: 'Demolition', company: 'Knockdown Bros' },
+      ])
+      expect(reconciled.confidence.disputes?.subcontractors?.[0]).toEqual({ eba: { claude: true, openai: false } })
+      expect(reconciled.confidence.subcontractors).toEqual([0.5, 0.6, 0.64])
+    })
+
+    it('should lower overall confidence by the share of disputed fields and warn once', () => {
+      expect(reconciled.confidence.providers).toEqual(['claude', 'openai'])
+      expect(reconciled.confidence.overall).toBeLessThan(0.85)
+      expect(reconciled.warnings).toEqual([
+        'Page 2 partially illegible',
+        'AI providers disagreed on 3 fields; review the disputed fields',
+      ])
+    })
+  })
+
+  describe('extractWithConsensus', () => {
+    it('should return every provider result for cost tracking', async () => {
+      const result = await extractWithConsensus(
+        [fixtureProvider('claude', claudeExtraction, 0.04), fixtureProvider('openai', openaiExtraction, 0.06)],
+        Buffer.from('pdf')
+      )
+
+      expect(result.providers).toEqual(['claude', 'openai'])
+      expect(result.providerResults.map((providerResult) => providerResult.costUsd)).toEqual([0.04, 0.06])
+      expect(result.extractedData.confidence.disputes?.project?.builder).toBeDefined()
+    })
+
+    it('should fall back to the provider that succeeded', async () => {
+      const result = await extractWithConsensus(
+        [fixtureProvider('claude', claudeExtraction), fixtureProvider('openai', new Error('rate limited'))],
+        Buffer.from('pdf')
+      )
+
+      expect(result.providers).toEqual(['claude'])
+      expect(result.extractedData.project?.builder).toBe('Built Pty Ltd')
+      expect(result.extractedData.warnings).toContain('openai extraction failed (rate limited); consensus not available')
+    })
+
+    it('should fail when every provider fails', async () => {
+      await expect(
+        extractWithConsensus([fixtureProvider('claude', new Error('timeout'))], Buffer.from('pdf'))
+      ).rejects.toThrow('Extraction failed for every provider (claude: timeout)')
+    })
+  })
+})
@@ -0,0 +1,56 @@
+import { ExtractedMappingSheetData } from '../../../types'
+
+// The same handwritten mapping sheet as read by each provider
+export const claudeExtraction: ExtractedMappingSheetData = {
+  extraction_version: '1.0',
+  pages_processed: 2,
+  project: {
+    project_name: 'Parramatta Square Tower 4',
+    project_value: 12_500_000,
+    builder: 'Built Pty Ltd',
+    address: '169 Macquarie St, Parramatta',
+    eba_with_cfmeu: true,
+  },
+  site_contacts: [
+    { role: 'site_manager', name: 'Jo Nguyen', phone: '0412 345 678' },
+    { role: 'site_delegate', name: 'Sam Patel' },
+  ],
+  subcontractors: [
+    { stage: 'structure', trade: 'Formwork', company: 'Form Co', eba: true },
+    { stage: 'finishing', trade: 'Painting', company: 'Colour Crew' },
+  ],
+  confidence: {
+    overall: 0.9,
+    project: { project_name: 0.95, project_value: 0.85, builder: 0.9, address: 0.8, eba_with_cfmeu: 0.9 },
+    site_contacts: [0.9, 0.8],
+    subcontractors: [0.9, 0.7],
+  },
+  warnings: ['Page 2 partially illegible'],
+}
+
+export const openaiExtraction: ExtractedMappingSheetData = {
+  extraction_version: '1.0',
+  pages_processed: 2,
+  project: {
+    project_name: 'Parramatta Square Tower 4',
+    project_value: 12_450_000,
+    builder: 'Buildt Pty Ltd',
+    address: '169 Macquarie St, Parramatta',
+    roe_email: 'roe@built.com.au',
+  },
+  site_contacts: [
+    { role: 'site_manager', name: 'jo nguyen', phone: '0412345678' },
+    { role: 'site_delegate', name: 'Sam Patil' },
+  ],
+  subcontractors: [
+    { stage: 'structure', trade: 'formwork', company: 'Form Co', eba: false },
+    { stage: 'early_works', trade: 'Demolition', company: 'Knockdown Bros' },
+  ],
+  confidence: {
+    overall: 0.8,
+    project: { project_name: 0.9, project_value: 0.8, builder: 0.95, address: 0.8, roe_email: 0.7 },
+    site_contacts: [0.85, 0.6],
+    subcontractors: [0.8, 0.75],
+  },
+  warnings: ['Page 2 partially illegible'],
+}
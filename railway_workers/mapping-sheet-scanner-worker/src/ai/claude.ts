@@ -9,13 +9,14 @@ import {
   createTimeoutController
 } from '../utils/timeout'
 
-const client = new Anthropic({
+const defaultClient = new Anthropic({
   apiKey: config.claudeApiKey,
 })
 
 export async function extractWithClaude(
   pdfBuffer: Buffer,
-  selectedPages?: number[]
+  selectedPages?: number[],
+  client: Anthropic = defaultClient
 ): Promise<ProcessingResult> {
   const startTime = Date.now()
   let retryCount = 0
@@ -127,6 +128,7 @@ export async function extractWithClaude(
       success: true,
       extractedData,
       provider: 'claude',
+      model: config.claudeModel,
       costUsd,
       processingTimeMs,
       inputTokens,
@@ -159,6 +161,7 @@ export async function extractWithClaude(
     return {
       success: false,
       provider: 'claude',
+      model: config.claudeModel,
       costUsd: 0,
       processingTimeMs: Date.now() - startTime,
       imagesProcessed: selectedPages?.length || 1,
@@ -0,0 +1,346 @@
+import {
+  AiProvider,
+  ExtractedMappingSheetData,
+  ExtractionDisputes,
+  ExtractionProvider,
+  ProcessingResult,
+  ProviderValues,
+} from '../types'
+
+// A field only one provider read is less certain than one both agreed on
+const SINGLE_SOURCE_FACTOR = 0.85
+// Disputed fields are capped so the review UI always flags them as low confidence
+const DISPUTED_CONFIDENCE_CAP = 0.5
+// Numbers within 1% of each other (e.g. $12.5M vs $12,450,000) count as agreeing
+const NUMERIC_TOLERANCE = 0.01
+
+export interface ProviderExtraction {
+  provider: AiProvider
+  data: ExtractedMappingSheetData
+}
+
+export interface ConsensusExtraction {
+  extractedData: ExtractedMappingSheetData
+  // Providers whose output contributed, in priority order
+  providers: AiProvider[]
+  // Every provider's raw result, including failures, for cost tracking
+  providerResults: ProcessingResult[]
+}
+
+interface FieldReading {
+  provider: AiProvider
+  value: unknown
+  confidence: number
+}
+
+interface MergedField {
+  value: unknown
+  confidence: number
+  dispute?: ProviderValues
+}
+
+type SiteContact = NonNullable<ExtractedMappingSheetData['site_contacts']>[number]
+type Subcontractor = NonNullable<ExtractedMappingSheetData['subcontractors']>[number]
+
+/**
+ * Run every provider on the scan and reconcile their output. Providers are in
+ * priority order: when they disagree with equal confidence the first one wins.
+ * If only one provider succeeds its result is used as-is, with a warning.
+ */
+export async function extractWithConsensus(
+  providers: ExtractionProvider[],
+  pdfBuffer: Buffer,
+  selectedPages?: number[]
+): Promise<ConsensusExtraction> {
+  const providerResults = await Promise.all(
+    providers.map((provider) =>
+      provider.extract(pdfBuffer, selectedPages).catch(
+        (error): ProcessingResult => ({
+          success: false,
+          provider: provider.name,
+          costUsd: 0,
+          processingTimeMs: 0,
+          imagesProcessed: 0,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      )
+    )
+  )
+
+  const extractions: ProviderExtraction[] = providerResults
+    .filter((result) => result.success && result.extractedData)
+    .map((result) => ({ provider: result.provider, data: result.extractedData! }))
+
+  if (extractions.length === 0) {
+    const errors = providerResults.map((result) => `${result.provider}: ${result.error ?? 'no data returned'}`)
+    throw new Error(`Extraction failed for every provider (${errors.join('; ')})`)
+  }
+
+  const failed = providerResults.filter((result) => !result.success)
+  const extractedData = extractions.length === 1 ? extractions[0].data : reconcileExtractions(extractions)
+
+  if (failed.length > 0 && providers.length > 1) {
+    extractedData.warnings = [
+      ...(extractedData.warnings ?? []),
+      ...failed.map((result) => `${result.provider} extraction failed (${result.error ?? 'unknown error'}); consensus not available`),
+    ]
+  }
+
+  return {
+    extractedData,
+    providers: extractions.map((extraction) => extraction.provider),
+    providerResults,
+  }
+}
+
+/**
+ * Reconcile several providers' extractions field by field. Agreeing fields keep
+ * the higher confidence, fields only one provider read are discounted, and
+ * disagreements take the most confident reading and are recorded in
+ * `confidence.disputes` with every provider's value.
+ */
+export function reconcileExtractions(extractions: ProviderExtraction[]): ExtractedMappingSheetData {
+  if (extractions.length === 0) {
+    throw new Error('reconcileExtractions requires at least one extraction')
+  }
+
+  const [primary] = extractions
+  const multiSource = extractions.length > 1
+  const disputes: ExtractionDisputes = {}
+  let compared = 0
+  let disputed = 0
+
+  const merge = (readings: FieldReading[]): MergedField => {
+    const merged = mergeField(readings, multiSource)
+    if (readings.filter((reading) => !isBlank(reading.value)).length > 1) compared += 1
+    if (merged.dispute) disputed += 1
+    return merged
+  }
+
+  // Project fields
+  const project: Record<string, unknown> = {}
+  const projectConfidence: Record<string, number> = {}
+  const projectKeys = unique(extractions.flatMap((extraction) => Object.keys(extraction.data.project ?? {})))
+
+  for (const key of projectKeys) {
+    const merged = merge(
+      extractions.map((extraction) => ({
+        provider: extraction.provider,
+        value: (extraction.data.project as Record<string, unknown> | undefined)?.[key],
+        confidence: extraction.data.confidence?.project?.[key] ?? extraction.data.confidence?.overall ?? 0,
+      }))
+    )
+    if (isBlank(merged.value)) continue
+    project[key] = merged.value
+    projectConfidence[key] = merged.confidence
+    if (merged.dispute) {
+      disputes.project = { ...disputes.project, [key]: merged.dispute }
+    }
+  }
+
+  // Site contacts, matched by role (and order within a role)
+  const siteContactGroups = groupRows(
+    extractions,
+    (data) => data.site_contacts ?? [],
+    (data) => data.confidence?.site_contacts,
+    (contact: SiteContact) => contact.role
+  )
+  const siteContacts: SiteContact[] = []
+  const siteContactConfidence: number[] = []
+
+  for (const group of siteContactGroups) {
+    const index = siteContacts.length
+    const contact: SiteContact = { role: group.rows[0].row.role }
+    const fieldConfidences: number[] = []
+
+    for (const field of ['name', 'email', 'phone'] as const) {
+      const merged = merge(
+        group.rows.map(({ provider, row, confidence }) => ({ provider, value: row[field], confidence }))
+      )
+      if (isBlank(merged.value)) continue
+      contact[field] = merged.value as string
+      fieldConfidences.push(merged.confidence)
+      if (merged.dispute) {
+        disputes.site_contacts = {
+          ...disputes.site_contacts,
+          [index]: { ...disputes.site_contacts?.[index], [field]: merged.dispute },
+        }
+      }
+    }
+
+    siteContacts.push(contact)
+    siteContactConfidence.push(rowConfidence(fieldConfidences, group, multiSource))
+  }
+
+  // Subcontractors, matched by stage and trade
+  const subcontractorGroups = groupRows(
+    extractions,
+    (data) => data.subcontractors ?? [],
+    (data) => data.confidence?.subcontractors,
+    (subcontractor: Subcontractor) => `${subcontractor.stage}|${normalizeForComparison(subcontractor.trade)}`
+  )
+  const subcontractors: Subcontractor[] = []
+  const subcontractorConfidence: number[] = []
+
+  for (const group of subcontractorGroups) {
+    const index = subcontractors.length
+    const first = group.rows[0].row
+    const subcontractor: Subcontractor = { stage: first.stage, trade: first.trade }
+    const fieldConfidences: number[] = []
+
+    for (const field of ['company', 'eba'] as const) {
+      const merged = merge(
+        group.rows.map(({ provider, row, confidence }) => ({ provider, value: row[field], confidence }))
+      )
+      if (isBlank(merged.value)) continue
+      if (field === 'company') subcontractor.company = merged.value as string
+      else subcontractor.eba = merged.value as boolean
+      fieldConfidences.push(merged.confidence)
+      if (merged.dispute) {
+        disputes.subcontractors = {
+          ...disputes.subcontractors,
+          [index]: { ...disputes.subcontractors?.[index], [field]: merged.dispute },
+        }
+      }
+    }
+
+    subcontractors.push(subcontractor)
+    subcontractorConfidence.push(rowConfidence(fieldConfidences, group, multiSource))
+  }
+
+  const averageOverall =
+    extractions.reduce((sum, extraction) => sum + (extraction.data.confidence?.overall ?? 0), 0) / extractions.length
+  const agreementRatio = compared > 0 ? 1 - disputed / compared : 1
+
+  const warnings = unique(extractions.flatMap((extraction) => extraction.data.warnings ?? []))
+  if (disputed > 0) {
+    warnings.push(`AI providers disagreed on ${disputed} field${disputed === 1 ? '' : 's'}; review the disputed fields`)
+  }
+
+  return {
+    extraction_version: primary.data.extraction_version,
+    pages_processed: Math.max(...extractions.map((extraction) => extraction.data.pages_processed ?? 0)),
+    project: project as ExtractedMappingSheetData['project'],
+    site_contacts: siteContacts,
+    subcontractors,
+    confidence: {
+      overall: roundConfidence(averageOverall * (0.5 + 0.5 * agreementRatio)),
+      project: projectConfidence,
+      site_contacts: siteContactConfidence,
+      subcontractors: subcontractorConfidence,
+      providers: extractions.map((extraction) => extraction.provider),
+      disputes,
+    },
+    notes: unique(extractions.flatMap((extraction) => extraction.data.notes ?? [])),
+    warnings,
+  }
+}
+
+function mergeField(readings: FieldReading[], multiSource: boolean): MergedField {
+  const present = readings.filter((reading) => !isBlank(reading.value))
+
+  if (present.length === 0) {
+    return { value: undefined, confidence: 0 }
+  }
+
+  if (present.length === 1) {
+    const [only] = present
+    return {
+      value: only.value,
+      confidence: roundConfidence(multiSource ? only.confidence * SINGLE_SOURCE_FACTOR : only.confidence),
+    }
+  }
+
+  if (present.every((reading) => valuesAgree(reading.value, present[0].value))) {
+    return {
+      value: present[0].value,
+      confidence: roundConfidence(Math.max(...present.map((reading) => reading.confidence))),
+    }
+  }
+
+  // Most confident reading wins; earlier providers win ties
+  const chosen = present.reduce((best, reading) => (reading.confidence > best.confidence ? reading : best))
+  const dispute: ProviderValues = {}
+  for (const reading of present) {
+    dispute[reading.provider] = reading.value
+  }
+
+  return {
+    value: chosen.value,
+    confidence: roundConfidence(Math.min(chosen.confidence, DISPUTED_CONFIDENCE_CAP)),
+    dispute,
+  }
+}
+
+interface RowGroup<T> {
+  rows: Array<{ provider: AiProvider; row: T; confidence: number }>
+}
+
+// Match rows across providers by key, pairing the nth occurrence of a key in each provider
+function groupRows<T>(
+  extractions: ProviderExtraction[],
+  getRows: (data: ExtractedMappingSheetData) => T[],
+  getConfidences: (data: ExtractedMappingSheetData) => number[] | undefined,
+  getKey: (row: T) => string
+): RowGroup<T>[] {
+  const groups = new Map<string, RowGroup<T>>()
+
+  for (const extraction of extractions) {
+    const rows = getRows(extraction.data)
+    const confidences = getConfidences(extraction.data) ?? []
+    const occurrences = new Map<string, number>()
+
+    rows.forEach((row, index) => {
+      const baseKey = getKey(row)
+      const occurrence = occurrences.get(baseKey) ?? 0
+      occurrences.set(baseKey, occurrence + 1)
+
+      const key = `${baseKey}#${occurrence}`
+      const group = groups.get(key) ?? { rows: [] }
+      group.rows.push({
+        provider: extraction.provider,
+        row,
+        confidence: confidences[index] ?? extraction.data.confidence?.overall ?? 0,
+      })
+      groups.set(key, group)
+    })
+  }
+
+  return Array.from(groups.values())
+}
+
+function rowConfidence<T>(fieldConfidences: number[], group: RowGroup<T>, multiSource: boolean): number {
+  if (fieldConfidences.length > 0) {
+    return roundConfidence(Math.min(...fieldConfidences))
+  }
+  // A row with no detail fields (e.g. a trade with no company yet) keeps its row-level confidence
+  const best = Math.max(...group.rows.map((row) => row.confidence))
+  return roundConfidence(multiSource && group.rows.length === 1 ? best * SINGLE_SOURCE_FACTOR : best)
+}
+
+function valuesAgree(a: unknown, b: unknown): boolean {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return Math.abs(a - b) <= Math.max(Math.abs(a), Math.abs(b)) * NUMERIC_TOLERANCE
+  }
+  return normalizeForComparison(a) === normalizeForComparison(b)
+}
+
+// Case, spacing and punctuation differences ("0412 345 678" vs "0412345678") are not disagreements
+function normalizeForComparison(value: unknown): string {
+  if (typeof value === 'string') {
+    return value.toLowerCase().replace(/[^a-z0-9@.]/g, '')
+  }
+  return JSON.stringify(value)
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '')
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values))
+}
+
+function roundConfidence(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -3,12 +3,13 @@ import { config } from '../config'
 import { ExtractedMappingSheetData, ProcessingResult } from '../types'
 import { CLAUDE_SYSTEM_PROMPT, CLAUDE_USER_PROMPT } from './prompts'
 
-const client = new OpenAI({
+const defaultClient = new OpenAI({
   apiKey: config.openaiApiKey,
 })
 
 export async function extractWithOpenAI(
-  imageBuffers: Buffer[]
+  imageBuffers: Buffer[],
+  client: OpenAI = defaultClient
 ): Promise<ProcessingResult> {
   const startTime = Date.now()
   
@@ -77,6 +78,7 @@ export async function extractWithOpenAI(
       success: true,
       extractedData,
       provider: 'openai',
+      model: config.openaiModel,
       costUsd,
       processingTimeMs,
       imagesProcessed: imageBuffers.length,
@@ -86,6 +88,7 @@ export async function extractWithOpenAI(
     return {
       success: false,
       provider: 'openai',
+      model: config.openaiModel,
       costUsd: 0,
       processingTimeMs: Date.now() - startTime,
       imagesProcessed: imageBuffers.length,
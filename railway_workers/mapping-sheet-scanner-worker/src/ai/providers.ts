@@ -0,0 +1,30 @@
+import Anthropic from '@anthropic-ai/sdk'
+import OpenAI from 'openai'
+import { ExtractionProvider } from '../types'
+import { extractWithClaude } from './claude'
+import { extractWithOpenAI } from './openai'
+import { convertPdfToImages } from '../pdf/converter'
+
+export function createClaudeProvider(client?: Anthropic): ExtractionProvider {
+  return {
+    name: 'claude',
+    // Claude reads the PDF directly
+    extract: (pdfBuffer, selectedPages) => extractWithClaude(pdfBuffer, selectedPages, client),
+  }
+}
+
+export function createOpenAIProvider(client?: OpenAI): ExtractionProvider {
+  return {
+    name: 'openai',
+    // OpenAI vision needs page images
+    extract: async (pdfBuffer, selectedPages) => {
+      const images = await convertPdfToImages(pdfBuffer, selectedPages)
+      return extractWithOpenAI(images, client)
+    },
+  }
+}
+
+// Priority order: Claude's reading wins ties in consensus mode
+export function createDefaultProviders(): ExtractionProvider[] {
+  return [createClaudeProvider(), createOpenAIProvider()]
+}
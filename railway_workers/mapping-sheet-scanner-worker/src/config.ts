@@ -18,6 +18,7 @@ for (const envFile of envFiles) {
 }
 
 import dotenv from 'dotenv'
+import { ExtractionMode } from './types'
 
 dotenv.config()
 
@@ -43,6 +44,10 @@ export const config = {
   openaiModel: 'gpt-4-vision-preview',
   maxTokens: 4096,
 
+  // 'consensus' runs Claude and OpenAI on every scan and reconciles them field by field,
+  // roughly doubling cost per scan. Scans can override this via payload.extractionMode.
+  extractionMode: (process.env.SCANNER_EXTRACTION_MODE === 'consensus' ? 'consensus' : 'single') as ExtractionMode,
+
   // Timeout settings (in milliseconds)
   claudeTimeoutMs: parseInt(process.env.CLAUDE_TIMEOUT_MS || '60000', 10), // 60 seconds default
   claudeMaxRetries: parseInt(process.env.CLAUDE_MAX_RETRIES || '1', 10), // Retry once on timeout
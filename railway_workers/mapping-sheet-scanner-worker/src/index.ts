@@ -1,15 +1,21 @@
 import express from 'express'
 import { config } from './config'
 import { getAdminClient, closeAdminClient } from './supabase'
-import { reserveNextJob, releaseJobLock, markJobStatus, cleanupStaleLocks } from './jobs'
+import { createJobQueue } from './jobs'
 import { processMappingSheetScan } from './processors/mappingSheetProcessor'
-import { MappingSheetScanJob } from './types'
-
-const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+import { MappingSheetScanJob, MappingSheetScanPayload } from './types'
 
 // Graceful shutdown state (declared early for health endpoint access)
 let isShuttingDown = false
-let currentJobId: string | null = null
+
+const queue = createJobQueue(getAdminClient())
+
+queue.register<MappingSheetScanPayload>('mapping_sheet_scan', async ({ job }) => {
+  console.log(`[worker] Handling job ${job.id} (${job.job_type})`)
+  const result = await processMappingSheetScan(getAdminClient(), job as MappingSheetScanJob)
+  console.log(`[worker] Job ${job.id} completed:`, result)
+  return result
+})
 
 // Express app for health checks (Railway requires this)
 const app = express()
@@ -30,7 +36,7 @@ app.get('/health', (req, res) => {
   // No database checks, no async operations - just return OK immediately
   const healthData = {
     status: 'healthy',
-    currentJob: currentJobId || 'none',
+    currentJob: queue.activeJobIds[0] || 'none',
     isShuttingDown,
     uptime: process.uptime(),
     uptimeHuman: `${Math.floor(process.uptime() / 60)}m ${Math.floor(process.uptime() % 60)}s`,
@@ -68,61 +74,6 @@ const server = app.listen(HEALTH_PORT, '0.0.0.0', () => {
   console.log(`[health] Health check URL: http://0.0.0.0:${HEALTH_PORT}/health`)
   
   // Start worker loop only after server is ready
-  workerLoop().catch((error) => {
-    console.error('[worker] Fatal error:', error)
-    process.exit(1)
-  })
-})
-
-async function handleJob(job: MappingSheetScanJob) {
-  const client = getAdminClient()
-  console.log(`[worker] Handling job ${job.id} (${job.job_type})`)
-
-  try {
-    const result = await processMappingSheetScan(client, job)
-    
-    console.log(`[worker] Job ${job.id} completed:`, result)
-    
-    await markJobStatus(client, job.id, 'succeeded', {
-      lock_token: null,
-      locked_at: null,
-      last_error: null,
-    })
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error'
-    console.error(`[worker] Job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}):`, message)
-
-    const shouldRetry = job.attempts < job.max_attempts
-    const nextStatus = shouldRetry ? 'queued' : 'failed'
-
-    // Exponential backoff: 5s, 10s, 20s, 40s...
-    // Formula: baseDelay * 2^(attempts - 1), capped at 60 seconds
-    const backoffDelayMs = shouldRetry
-      ? Math.min(config.pollIntervalMs * Math.pow(2, job.attempts - 1), 60000)
-      : 0
-
-    if (shouldRetry) {
-      console.log(`[worker] Scheduling retry for job ${job.id} in ${backoffDelayMs}ms`)
-    }
-
-    await markJobStatus(client, job.id, nextStatus as any, {
-      lock_token: null,
-      locked_at: null,
-      last_error: message,
-      run_at: shouldRetry
-        ? new Date(Date.now() + backoffDelayMs).toISOString()
-        : job.run_at,
-    })
-  } finally {
-    await releaseJobLock(client, job.id)
-  }
-}
-
-async function workerLoop() {
-  const client = getAdminClient()
-  let lastCleanup = Date.now()
-  const CLEANUP_INTERVAL_MS = 5 * 60 * 1000 // 5 minutes
-
   console.log('[worker] Starting mapping sheet scanner worker with graceful shutdown support')
   if (config.verboseLogs) {
     console.log('[worker] Configuration:', {
@@ -132,36 +83,8 @@ async function workerLoop() {
       claudeModel: config.claudeModel,
     })
   }
-
-  while (!isShuttingDown) {
-    try {
-      // Periodic stale lock cleanup
-      if (Date.now() - lastCleanup > CLEANUP_INTERVAL_MS) {
-        await cleanupStaleLocks(client, config)
-        lastCleanup = Date.now()
-      }
-
-      const job = await reserveNextJob(client)
-
-      if (!job) {
-        await sleep(config.pollIntervalMs)
-        continue
-      }
-
-      currentJobId = job.id
-      try {
-        await handleJob(job)
-      } finally {
-        currentJobId = null
-      }
-    } catch (error) {
-      console.error('[worker] Loop error:', error)
-      await sleep(config.pollIntervalMs)
-    }
-  }
-
-  console.log('[worker] Worker loop exited gracefully')
-}
+  queue.start()
+})
 
 async function gracefulShutdown() {
   console.log('[shutdown] Received shutdown signal, initiating graceful shutdown...')
@@ -169,36 +92,10 @@ async function gracefulShutdown() {
 
   // Wait for current job to complete
   // Timeout must be longer than Claude timeout + retries to allow job completion
+  // Jobs still running after the timeout are re-queued by the queue
   const maxWait = config.gracefulShutdownTimeoutMs
-  const startTime = Date.now()
-  
   console.log(`[shutdown] Will wait up to ${maxWait}ms for current job to complete`)
-
-  while (currentJobId && (Date.now() - startTime < maxWait)) {
-    console.log(`[shutdown] Waiting for job ${currentJobId} to complete...`)
-    await sleep(1000)
-  }
-
-  if (currentJobId) {
-    console.warn(`[shutdown] Job ${currentJobId} did not complete in time, forcing shutdown and re-queuing`)
-    // Release the lock and re-queue the job
-    const client = getAdminClient()
-    try {
-      await client
-        .from('scraper_jobs')
-        .update({
-          lock_token: null,
-          locked_at: null,
-          status: 'queued',
-          last_error: 'Job interrupted by worker shutdown',
-          run_at: new Date().toISOString()
-        })
-        .eq('id', currentJobId)
-      console.log(`[shutdown] Job ${currentJobId} re-queued successfully`)
-    } catch (error) {
-      console.error(`[shutdown] Failed to re-queue job ${currentJobId}:`, error)
-    }
-  }
+  await queue.stop(maxWait)
 
   console.log('[shutdown] Graceful shutdown complete')
   
@@ -1,11 +1,13 @@
 import { createClient } from '@supabase/supabase-js'
 import { config } from '../config'
-import { MappingSheetScanJob, ProcessingResult } from '../types'
-import { extractWithClaude } from '../ai/claude'
+import { ExtractionProvider, MappingSheetScanJob } from '../types'
+import { extractWithConsensus } from '../ai/consensus'
+import { createDefaultProviders } from '../ai/providers'
 
 export async function processMappingSheetScan(
   supabase: any,
-  job: MappingSheetScanJob
+  job: MappingSheetScanJob,
+  providers: ExtractionProvider[] = createDefaultProviders()
 ): Promise<{ succeeded: number; failed: number }> {
   const { scanId } = job.payload
   const processingStartTime = Date.now()
@@ -88,28 +90,40 @@ export async function processMappingSheetScan(
     // Get selected pages from job payload
     const selectedPages = job.payload.selectedPages as number[] | undefined
 
-    // Try Claude (Claude can read PDFs directly!)
+    // Single mode uses the first (primary) provider only; consensus runs them all and reconciles
+    const extractionMode = job.payload.extractionMode ?? config.extractionMode
+    const activeProviders = extractionMode === 'consensus' ? providers : providers.slice(0, 1)
+
     // Note: Claude will process all pages - we'll use text instruction to focus on specific pages
-    console.log(`[processor] Attempting extraction with Claude (PDF direct)${selectedPages ? ` - focus on pages: ${selectedPages.join(', ')}` : ''}`)
-    const result: ProcessingResult = await extractWithClaude(pdfBuffer, selectedPages)
+    console.log(`[processor] Attempting ${extractionMode} extraction with ${activeProviders.map((provider) => provider.name).join(', ')}${selectedPages ? ` - focus on pages: ${selectedPages.join(', ')}` : ''}`)
+    const extraction = await extractWithConsensus(activeProviders, pdfBuffer, selectedPages)
+    const extractedData = extraction.extractedData
 
-    if (!result.success) {
-      throw new Error(`Claude extraction failed: ${result.error}`)
-    }
+    console.log(`[processor] Extraction successful with ${extraction.providers.join(', ')}`)
 
-    console.log(`[processor] Extraction successful with ${result.provider}`)
+    // Store cost tracking per provider (failed calls that still reported a cost are included)
+    const costRows = extraction.providerResults
+      .filter((result) => result.success || result.costUsd > 0)
+      .map((result) => ({
+        scan_id: scanId,
+        ai_provider: result.provider,
+        model: result.model ?? (result.provider === 'claude' ? config.claudeModel : config.openaiModel),
+        input_tokens: result.inputTokens,
+        output_tokens: result.outputTokens,
+        images_processed: result.imagesProcessed,
+        cost_usd: result.costUsd,
+        processing_time_ms: result.processingTimeMs,
+      }))
+
+    if (costRows.length > 0) {
+      const { error: costError } = await supabase.from('mapping_sheet_scan_costs').insert(costRows)
+      if (costError) {
+        console.warn(`[processor] Failed to record extraction costs for scan ${scanId}:`, costError.message)
+      }
+    }
 
-    // Store cost tracking
-    await supabase.from('mapping_sheet_scan_costs').insert({
-      scan_id: scanId,
-      ai_provider: result.provider,
-      model: result.provider === 'claude' ? config.claudeModel : config.openaiModel,
-      input_tokens: result.inputTokens,
-      output_tokens: result.outputTokens,
-      images_processed: result.imagesProcessed,
-      cost_usd: result.costUsd,
-      processing_time_ms: result.processingTimeMs,
-    })
+    const totalCostUsd = extraction.providerResults.reduce((sum, result) => sum + result.costUsd, 0)
+    const aiProvider = extraction.providers.length > 1 ? 'consensus' : extraction.providers[0]
 
     // Determine final status based on upload_mode (already fetched at start)
     // - new_project scans: review_new_project (triggers quick finder dialog)
@@ -125,12 +139,12 @@ export async function processMappingSheetScan(
       .from('mapping_sheet_scans')
       .update({
         status: finalStatus,
-        extracted_data: result.extractedData,
-        confidence_scores: result.extractedData?.confidence,
-        ai_provider: result.provider,
+        extracted_data: extractedData,
+        confidence_scores: extractedData.confidence,
+        ai_provider: aiProvider,
         extraction_completed_at: new Date().toISOString(),
-        extraction_cost_usd: result.costUsd,
-        page_count: selectedPages?.length || result.extractedData?.pages_processed || 1,
+        extraction_cost_usd: totalCostUsd,
+        page_count: selectedPages?.length || extractedData.pages_processed || 1,
       })
       .eq('id', scanId)
 
@@ -1,23 +1,23 @@
-export interface MappingSheetScanJob {
-  id: string
+import { QueueJob } from 'cfmeu-job-queue'
+
+export interface MappingSheetScanPayload {
+  scanId: string
+  projectId?: string
+  fileUrl: string
+  fileName: string
+  pageCount?: number
+  selectedPages?: number[]
+  // Overrides config.extractionMode for this scan
+  extractionMode?: ExtractionMode
+}
+
+export type AiProvider = 'claude' | 'openai'
+
+// 'single' extracts with Claude only; 'consensus' runs every provider and reconciles the results
+export type ExtractionMode = 'single' | 'consensus'
+
+export interface MappingSheetScanJob extends QueueJob<MappingSheetScanPayload> {
   job_type: 'mapping_sheet_scan'
-  status: 'queued' | 'processing' | 'succeeded' | 'failed'
-  payload: {
-    scanId: string
-    projectId?: string
-    fileUrl: string
-    fileName: string
-    pageCount?: number
-    selectedPages?: number[]
-  }
-  attempts: number
-  max_attempts: number
-  run_at: string
-  locked_at: string | null
-  lock_token: string | null
-  last_error: string | null
-  progress_completed: number
-  progress_total: number
 }
 
 export interface ExtractedMappingSheetData {
@@ -58,16 +58,31 @@ export interface ExtractedMappingSheetData {
     project?: Record<string, number>
     site_contacts?: number[]
     subcontractors?: number[]
+    // Consensus mode only: the providers that were reconciled and the fields they disagreed on
+    providers?: AiProvider[]
+    disputes?: ExtractionDisputes
   }
   
   notes?: string[]
   warnings?: string[]
 }
 
+// Each provider's reading of a field the providers disagreed on
+export type ProviderValues = Partial<Record<AiProvider, unknown>>
+
+export interface ExtractionDisputes {
+  // Keyed by project field name
+  project?: Record<string, ProviderValues>
+  // Keyed by index in site_contacts / subcontractors, then by field name
+  site_contacts?: Record<number, Record<string, ProviderValues>>
+  subcontractors?: Record<number, Record<string, ProviderValues>>
+}
+
 export interface ProcessingResult {
   success: boolean
   extractedData?: ExtractedMappingSheetData
-  provider: 'claude' | 'openai'
+  provider: AiProvider
+  model?: string
   costUsd: number
   processingTimeMs: number
   inputTokens?: number
@@ -77,3 +92,9 @@ export interface ProcessingResult {
   timedOut?: boolean
   retryCount?: number
 }
+
+// An AI extraction backend; the processor takes these as arguments so tests can supply fixtures
+export interface ExtractionProvider {
+  name: AiProvider
+  extract(pdfBuffer: Buffer, selectedPages?: number[]): Promise<ProcessingResult>
+}
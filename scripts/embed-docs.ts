@@ -4,7 +4,13 @@
  * 
  * Usage:
  *   npm run embed-docs
- * 
+ *   npm run embed-docs -- --incremental
+ *
+ * --incremental only re-embeds documents whose embedding text (title, content
+ * and keywords) or embedding model changed since the last run, going by the
+ * content_hash and embedding_model stored on help_documents. Metadata such as
+ * roles and pages is still updated for every document.
+ *
  * Environment variables required:
  *   - NEXT_PUBLIC_SUPABASE_URL
  *   - SUPABASE_SERVICE_ROLE_KEY
@@ -13,9 +19,9 @@
 
 import { config } from 'dotenv'
 import { createClient } from '@supabase/supabase-js'
-import OpenAI from 'openai'
 import fs from 'fs/promises'
 import path from 'path'
+import { buildEmbeddingText, contentHash, createOpenAIEmbedder } from '../src/lib/help/embedders'
 
 // Load environment variables from .env
 config()
@@ -25,9 +31,9 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 )
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY!,
-})
+const embedder = createOpenAIEmbedder(process.env.OPENAI_API_KEY!)
+
+const incremental = process.argv.includes('--incremental')
 
 interface Document {
   id: string
@@ -42,45 +48,65 @@ interface Document {
   screenshots?: string[]
 }
 
-async function embedDocument(doc: Document) {
-  console.log(`Embedding: ${doc.title}...`)
+type StoredEmbedding = { content_hash: string | null; embedding_model: string | null }
+
+async function loadStoredEmbeddings(): Promise<Map<string, StoredEmbedding>> {
+  const { data, error } = await supabase
+    .from('help_documents')
+    .select('doc_id, content_hash, embedding_model')
+
+  if (error) {
+    throw new Error(`Failed to load existing help documents: ${error.message}`)
+  }
+
+  return new Map((data || []).map((row: any) => [row.doc_id, row]))
+}
+
+/**
+ * Returns true when a new embedding was generated
+ */
+async function embedDocument(doc: Document, stored?: StoredEmbedding): Promise<boolean> {
+  const embeddingText = buildEmbeddingText(doc)
+  const hash = contentHash(embeddingText)
+  const unchanged = incremental
+    && stored?.content_hash === hash
+    && stored?.embedding_model === embedder.model
+
+  console.log(`${unchanged ? 'Unchanged' : 'Embedding'}: ${doc.title}...`)
 
   try {
-    // Generate text for embedding
-    const embeddingText = `${doc.title}\n\n${doc.content}\n\nKeywords: ${doc.keywords.join(', ')}`
+    const row: Record<string, unknown> = {
+      doc_id: doc.id,
+      title: doc.title,
+      category: doc.category,
+      content: doc.content,
+      roles: doc.roles,
+      pages: doc.pages,
+      keywords: doc.keywords,
+      related_docs: doc.related || [],
+      steps: doc.steps || null,
+      screenshots: doc.screenshots || [],
+    }
 
-    // Generate embedding using OpenAI
-    console.log(`  - Calling OpenAI API...`)
-    const response = await openai.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: embeddingText,
-    })
+    if (!unchanged) {
+      // Generate embedding
+      console.log(`  - Calling ${embedder.model}...`)
+      const [embedding] = await embedder.embed([embeddingText])
+      console.log(`  - Got embedding (${embedding.length} dimensions)`)
 
-    const embedding = response.data[0].embedding
-    console.log(`  - Got embedding (${embedding.length} dimensions)`)
+      row.embedding = embedding
+      row.content_hash = hash
+      row.embedding_model = embedder.model
+      row.embedded_at = new Date().toISOString()
+    }
 
     // Upsert to Supabase
     console.log(`  - Upserting to Supabase...`)
     const result = await supabase
       .from('help_documents')
-      .upsert(
-        {
-          doc_id: doc.id,
-          title: doc.title,
-          category: doc.category,
-          content: doc.content,
-          embedding,
-          roles: doc.roles,
-          pages: doc.pages,
-          keywords: doc.keywords,
-          related_docs: doc.related || [],
-          steps: doc.steps || null,
-          screenshots: doc.screenshots || [],
-        },
-        {
-          onConflict: 'doc_id',
-        }
-      )
+      .upsert(row, {
+        onConflict: 'doc_id',
+      })
 
     console.log(`  - Result status:`, result.status, result.statusText)
     
@@ -92,7 +118,8 @@ async function embedDocument(doc: Document) {
       throw new Error(`Failed to embed ${doc.id}: ${result.error.message || result.statusText || JSON.stringify(result.error)}`)
     }
 
-    console.log(`✓ Embedded: ${doc.title}`)
+    console.log(`✓ ${unchanged ? 'Updated' : 'Embedded'}: ${doc.title}`)
+    return !unchanged
   } catch (err) {
     console.error(`Exception in embedDocument:`, err)
     throw err
@@ -107,21 +134,26 @@ async function loadDocuments(): Promise<Document[]> {
 }
 
 async function main() {
-  console.log('🚀 Starting documentation embedding...\n')
+  console.log(`🚀 Starting ${incremental ? 'incremental ' : ''}documentation embedding...\n`)
 
   try {
     // Load documents
     const documents = await loadDocuments()
     console.log(`Found ${documents.length} documents to embed\n`)
 
+    const stored = incremental ? await loadStoredEmbeddings() : new Map<string, StoredEmbedding>()
+
     // Embed each document
+    let embedded = 0
     for (const doc of documents) {
-      await embedDocument(doc)
-      // Small delay to avoid rate limits
-      await new Promise((resolve) => setTimeout(resolve, 100))
+      if (await embedDocument(doc, stored.get(doc.id))) {
+        embedded++
+        // Small delay to avoid rate limits
+        await new Promise((resolve) => setTimeout(resolve, 100))
+      }
     }
 
-    console.log(`\n✅ Successfully embedded ${documents.length} documents!`)
+    console.log(`\n✅ Successfully embedded ${embedded} documents${incremental ? ` (${documents.length - embedded} unchanged)` : ''}!`)
 
     // Query to verify
     const { count, error } = await supabase
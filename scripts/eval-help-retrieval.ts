@@ -0,0 +1,90 @@
+#!/usr/bin/env tsx
+/**
+ * Replays help questions against a help retriever and reports recall
+ *
+ * Usage:
+ *   npm run eval-help
+ *   npm run eval-help -- --retriever bm25 --k 5 --labels docs/help-eval-labels.json
+ *   npm run eval-help -- --questions questions.json
+ *
+ * Questions come from help_low_confidence_questions unless --questions points
+ * at a JSON array of { question, context?, expectedDocIds? }. --labels is a
+ * JSON object mapping a question to the doc ids that should be retrieved for
+ * it; only labelled questions count towards recall.
+ *
+ * --retriever overrides HELP_RETRIEVER (guide, pgvector or bm25). Without
+ * Supabase credentials the bm25 retriever reads the docs JSON files.
+ *
+ * Environment variables:
+ *   - NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY (to read questions and help_documents)
+ *   - OPENAI_API_KEY (pgvector only)
+ */
+
+import { config } from 'dotenv'
+import { createClient } from '@supabase/supabase-js'
+import fs from 'fs/promises'
+import { createHelpRetriever } from '../src/lib/help/factory'
+import {
+  buildEvalQuestions,
+  evaluateRetriever,
+  formatEvaluationReport,
+  type HelpEvalQuestion,
+} from '../src/lib/help/evaluation'
+
+config()
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+async function readJson(file: string): Promise<any> {
+  return JSON.parse(await fs.readFile(file, 'utf-8'))
+}
+
+async function main() {
+  const k = Number(argValue('--k') || 5)
+  const labelsPath = argValue('--labels')
+  const questionsPath = argValue('--questions')
+  const retrieverName = argValue('--retriever')
+
+  const supabase = process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+    ? createClient(process.env.NEXT_PUBLIC_SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY)
+    : null
+
+  const labels: Record<string, string[]> = labelsPath ? await readJson(labelsPath) : {}
+
+  let questions: HelpEvalQuestion[]
+  if (questionsPath) {
+    questions = buildEvalQuestions(await readJson(questionsPath), labels)
+  } else {
+    if (!supabase) {
+      throw new Error('Supabase credentials are required to read help_low_confidence_questions; pass --questions to run offline')
+    }
+    const { data, error } = await supabase
+      .from('help_low_confidence_questions')
+      .select('question, context')
+    if (error) throw new Error(`Failed to load low-confidence questions: ${error.message}`)
+    questions = buildEvalQuestions(data || [], labels)
+  }
+
+  if (questions.length === 0) {
+    console.log('No questions to evaluate')
+    return
+  }
+
+  const retriever = createHelpRetriever(supabase, {
+    ...process.env,
+    HELP_RETRIEVER: retrieverName || process.env.HELP_RETRIEVER,
+  })
+
+  console.log(`Evaluating ${questions.length} questions with ${retriever.name}...\n`)
+  const report = await evaluateRetriever(retriever, questions, k)
+  console.log(formatEvaluationReport(report))
+}
+
+main().catch((error) => {
+  console.error('❌ Help retrieval evaluation failed:')
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,65 @@
+#!/usr/bin/env tsx
+/**
+ * Generates migration SQL for the data integration schema registry
+ *
+ * Usage:
+ *   npm run generate-data-integration-migration
+ *   npm run generate-data-integration-migration -- --drift
+ *   npm run generate-data-integration-migration -- --drift --out supabase/migrations/20260201000000_data_integration_drift.sql
+ *
+ * Without --drift the whole registry is emitted. With --drift the live schema
+ * is read and only the missing tables, columns, functions and triggers are
+ * emitted. SQL goes to stdout unless --out names a file.
+ *
+ * Environment variables:
+ *   - NEXT_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY (--drift only)
+ */
+
+import { config } from 'dotenv'
+import { createClient } from '@supabase/supabase-js'
+import fs from 'fs/promises'
+import { generateMigrationSql } from '../src/lib/data-integration/schema/MigrationSql'
+import { checkSchemaDrift } from '../src/lib/data-integration/schema/SchemaDrift'
+import { DATA_INTEGRATION_SCHEMA } from '../src/lib/data-integration/schema/SchemaRegistry'
+
+config()
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name)
+  return index >= 0 ? process.argv[index + 1] : undefined
+}
+
+async function main() {
+  const outPath = argValue('--out')
+  let sql: string
+
+  if (process.argv.includes('--drift')) {
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('--drift needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY')
+    }
+
+    const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY)
+    const report = await checkSchemaDrift(supabase, DATA_INTEGRATION_SCHEMA)
+    if (report.status === 'error') {
+      throw new Error(report.error)
+    }
+
+    console.error(`Found ${report.drift.length} drifted objects`)
+    sql = generateMigrationSql(DATA_INTEGRATION_SCHEMA, { drift: report.drift })
+  } else {
+    sql = generateMigrationSql(DATA_INTEGRATION_SCHEMA)
+  }
+
+  if (outPath) {
+    await fs.writeFile(outPath, sql)
+    console.error(`Wrote ${outPath}`)
+  } else {
+    process.stdout.write(sql)
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Data integration migration generation failed:')
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -89,6 +89,18 @@ const RoleHierarchyManager = lazyWithErrorLogging(
   () => import("@/components/admin/RoleHierarchyManager").then(m => ({ default: m.RoleHierarchyManager })),
   "RoleHierarchyManager"
 )
+const FieldPermissionsMatrix = lazyWithErrorLogging(
+  () => import("@/components/admin/FieldPermissionsMatrix").then(m => ({ default: m.FieldPermissionsMatrix })),
+  "FieldPermissionsMatrix"
+)
+const DataQualityRulesManager = lazyWithErrorLogging(
+  () => import("@/components/admin/DataQualityRulesManager").then(m => ({ default: m.DataQualityRulesManager })),
+  "DataQualityRulesManager"
+)
+const RatingAlertRulesManager = lazyWithErrorLogging(
+  () => import("@/components/admin/RatingAlertRulesManager").then(m => ({ default: m.RatingAlertRulesManager })),
+  "RatingAlertRulesManager"
+)
 const OrganiserScopeManager = lazyWithErrorLogging(
   () => import("@/components/admin/OrganiserScopeManager").then(m => ({ default: m.OrganiserScopeManager })),
   "OrganiserScopeManager"
@@ -141,6 +153,10 @@ const SystemHealthDashboard = lazyWithErrorLogging(
   () => import("@/components/admin/SystemHealthDashboard").then(m => ({ default: m.SystemHealthDashboard })),
   "SystemHealthDashboard"
 )
+const ScraperJobControlPanel = lazyWithErrorLogging(
+  () => import("@/components/admin/ScraperJobControlPanel").then(m => ({ default: m.ScraperJobControlPanel })),
+  "ScraperJobControlPanel"
+)
 const CanonicalPromotionConsole = lazyWithErrorLogging(
   () => import("@/components/admin/CanonicalPromotionConsole"),
   "CanonicalPromotionConsole"
@@ -217,6 +233,8 @@ export default function AdminPage() {
         'pending': 'data-integrity',
         'alias-analytics': 'data-integrity',
         'canonical-names': 'data-integrity',
+        'data-quality': 'data-integrity',
+        'rating-alerts': 'data-integrity',
         'patches': 'patch-management',
         'spatial': 'patch-management',
         'scoping': 'patch-management',
@@ -443,6 +461,22 @@ export default function AdminPage() {
                     </CollapsibleContent>
                   </Collapsible>
                 )}
+
+                {isAdmin && (
+                  <Collapsible>
+                    <CollapsibleTrigger asChild>
+                      <Button variant="outline" className="w-full justify-between">
+                        Field Permissions
+                        <ChevronDown className="h-4 w-4" />
+                      </Button>
+                    </CollapsibleTrigger>
+                    <CollapsibleContent>
+                      <div className="mt-3">
+                        <FieldPermissionsMatrix users={users} />
+                      </div>
+                    </CollapsibleContent>
+                  </Collapsible>
+                )}
               </div>
             </div>
 
@@ -484,6 +518,38 @@ export default function AdminPage() {
                   </Collapsible>
                 )}
 
+                {isAdmin && (
+                  <Collapsible>
+                    <CollapsibleTrigger asChild>
+                      <Button variant="outline" className="w-full justify-between">
+                        Data Quality Rules
+                        <ChevronDown className="h-4 w-4" />
+                      </Button>
+                    </CollapsibleTrigger>
+                    <CollapsibleContent>
+                      <div className="mt-3">
+                        <DataQualityRulesManager users={users} />
+                      </div>
+                    </CollapsibleContent>
+                  </Collapsible>
+                )}
+
+                {isAdmin && (
+                  <Collapsible>
+                    <CollapsibleTrigger asChild>
+                      <Button variant="outline" className="w-full justify-between">
+                        Rating Alert Rules
+                        <ChevronDown className="h-4 w-4" />
+                      </Button>
+                    </CollapsibleTrigger>
+                    <CollapsibleContent>
+                      <div className="mt-3">
+                        <RatingAlertRulesManager />
+                      </div>
+                    </CollapsibleContent>
+                  </Collapsible>
+                )}
+
                 <Collapsible defaultOpen>
                   <CollapsibleTrigger asChild>
                     <Button variant="outline" className="w-full justify-between">
@@ -668,6 +734,20 @@ export default function AdminPage() {
                         </div>
                       </CollapsibleContent>
                     </Collapsible>
+
+                    <Collapsible>
+                      <CollapsibleTrigger asChild>
+                        <Button variant="outline" className="w-full justify-between">
+                          Scraper Jobs
+                          <ChevronDown className="h-4 w-4" />
+                        </Button>
+                      </CollapsibleTrigger>
+                      <CollapsibleContent>
+                        <div className="mt-3">
+                          <ScraperJobControlPanel />
+                        </div>
+                      </CollapsibleContent>
+                    </Collapsible>
                   </>
                 )}
               </div>
@@ -761,6 +841,12 @@ export default function AdminPage() {
                   <RoleHierarchyManager users={users} />
                 </div>
               )}
+              {isAdmin && (
+                <div>
+                  <h3 className="text-lg font-semibold mb-4">Field Permissions</h3>
+                  <FieldPermissionsMatrix users={users} />
+                </div>
+              )}
             </Suspense>
           </TabsContent>
 
@@ -779,6 +865,18 @@ export default function AdminPage() {
                   <CanonicalPromotionConsole />
                 </div>
               )}
+              {isAdmin && (
+                <div>
+                  <h3 className="text-lg font-semibold mb-4">Data Quality Rules</h3>
+                  <DataQualityRulesManager users={users} />
+                </div>
+              )}
+              {isAdmin && (
+                <div>
+                  <h3 className="text-lg font-semibold mb-4">Rating Alert Rules</h3>
+                  <RatingAlertRulesManager />
+                </div>
+              )}
               <div>
                 <div className="flex items-center gap-2 mb-4">
                   <h3 className="text-lg font-semibold">Pending Approvals</h3>
@@ -897,9 +995,10 @@ export default function AdminPage() {
                   <NavigationVisibilityManager />
                 </Suspense>
               </TabsContent>
-              <TabsContent value="system-health">
+              <TabsContent value="system-health" className="space-y-8">
                 <Suspense fallback={<TabLoadingState />}>
                   <SystemHealthDashboard />
+                  <ScraperJobControlPanel />
                 </Suspense>
               </TabsContent>
             </>
@@ -0,0 +1,78 @@
+"use client"
+export const dynamic = 'force-dynamic'
+
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { useQuery } from "@tanstack/react-query"
+import { format } from "date-fns"
+import { ArrowLeft } from "lucide-react"
+import { supabase } from "@/integrations/supabase/client"
+import { Button } from "@/components/ui/button"
+import { LoadingSpinner } from "@/components/ui/LoadingSpinner"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useUserRole } from "@/hooks/useUserRole"
+import { CampaignScoreboard } from "@/components/campaigns/CampaignScoreboard"
+import { CampaignKpiSetup } from "@/components/campaigns/CampaignKpiSetup"
+
+export default function CampaignDetailPage() {
+  const params = useParams()
+  const campaignId = params?.campaignId as string
+  const { role } = useUserRole()
+  const canManage = role === "admin" || role === "lead_organiser"
+
+  const { data: campaign, isLoading } = useQuery({
+    queryKey: ["campaign", campaignId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("campaigns")
+        .select("id, name, type, start_date, end_date, status")
+        .eq("id", campaignId)
+        .maybeSingle()
+      if (error) throw error
+      return data
+    },
+    enabled: !!campaignId,
+  })
+
+  if (isLoading) {
+    return (
+      <p className="p-6 text-sm text-muted-foreground flex items-center gap-2"><LoadingSpinner /> Loading…</p>
+    )
+  }
+
+  if (!campaign) {
+    return <p className="p-6 text-sm text-muted-foreground">Campaign not found.</p>
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="space-y-1">
+        <Button asChild variant="ghost" size="sm" className="-ml-2">
+          <Link href="/campaigns">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Campaigns
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-semibold">{campaign.name}</h1>
+        <p className="text-sm text-muted-foreground">
+          {format(new Date(campaign.start_date), "dd/MM/yyyy")} → {format(new Date(campaign.end_date), "dd/MM/yyyy")} · {campaign.status}
+        </p>
+      </div>
+
+      <Tabs defaultValue="scoreboard">
+        <TabsList>
+          <TabsTrigger value="scoreboard">Scoreboard</TabsTrigger>
+          {canManage && <TabsTrigger value="setup">KPIs &amp; Targets</TabsTrigger>}
+        </TabsList>
+        <TabsContent value="scoreboard" className="mt-4">
+          <CampaignScoreboard campaignId={campaign.id} />
+        </TabsContent>
+        {canManage && (
+          <TabsContent value="setup" className="mt-4">
+            <CampaignKpiSetup campaignId={campaign.id} endDate={campaign.end_date} />
+          </TabsContent>
+        )}
+      </Tabs>
+    </div>
+  )
+}
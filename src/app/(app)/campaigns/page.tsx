@@ -14,6 +14,7 @@ import RoleGuard from "@/components/guards/RoleGuard"
 import { Dialog, DialogContent, DialogFooter, DialogHeader as UIDialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import CampaignActivityList from "@/components/activities/CampaignActivityList"
 import CampaignActivityBuilder from "@/components/activities/CampaignActivityBuilder"
+import Link from "next/link"
 
 type Campaign = {
   id: string
@@ -189,6 +190,9 @@ export default function CampaignsPage() {
                   <div>Dates: {format(new Date(c.start_date), 'dd/MM/yyyy')} → {format(new Date(c.end_date), 'dd/MM/yyyy')}</div>
                   <div>Status: {c.status}</div>
                 </div>
+                <Button asChild variant="outline" size="sm" className="mt-3">
+                  <Link href={`/campaigns/${c.id}`}>KPI scoreboard</Link>
+                </Button>
                 <div className="mt-4 space-y-3">
                   {/* Campaign activities UI lives in a helper component declared below */}
                   <CampaignActivities campaignId={c.id} />
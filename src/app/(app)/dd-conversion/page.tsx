@@ -0,0 +1,11 @@
+"use client";
+
+import { DdConversionFunnelReport } from "@/components/dd-conversion/DdConversionFunnelReport";
+
+export default function DdConversionPage() {
+  return (
+    <div className="container mx-auto p-4 sm:p-6 space-y-6">
+      <DdConversionFunnelReport />
+    </div>
+  );
+}
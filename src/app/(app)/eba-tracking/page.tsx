@@ -13,6 +13,7 @@ import { getEbaStatusInfo } from "@/components/employers/ebaHelpers"
 import { EmployerDetailModal } from "@/components/employers/EmployerDetailModal"
 import { Button } from "@/components/ui/button"
 import { useEbaTrackingServerSideCompatible } from "@/hooks/useEbaTrackingServerSide"
+import { EbaChangeDigest } from "@/components/eba-employers/EbaChangeDigest"
 
 export default function EbaTrackingPage() {
 	const [query, setQuery] = useState("")
@@ -108,6 +109,7 @@ export default function EbaTrackingPage() {
 					</div>
 				)}
 			</div>
+			<EbaChangeDigest onOpenEmployer={setSelectedEmployerId} />
 			<Card>
 				<CardHeader>
 					<CardTitle>Employers</CardTitle>
@@ -18,7 +18,7 @@ import { PatchProjectsTable } from "@/components/patch/PatchProjectsTable"
 import { PatchScansTable } from "@/components/patch/PatchScansTable"
 import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { Loader2, MapPin } from "lucide-react"
+import { FileDown, Loader2, MapPin } from "lucide-react"
 import Link from "next/link"
 import { EmployerDetailModal } from "@/components/employers/EmployerDetailModal"
 import { useIsMobile } from "@/hooks/use-mobile"
@@ -442,7 +442,17 @@ export default function PatchPage() {
 
             <div className="space-y-4">
               <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
-                <h2 className="text-lg sm:text-xl font-semibold">Projects in patch</h2>
+                <div className="flex items-center gap-3">
+                  <h2 className="text-lg sm:text-xl font-semibold">Projects in patch</h2>
+                  {selectedPatchId && (
+                    <Button asChild variant="outline" size="sm" className="min-h-[44px] gap-2">
+                      <a href={`/api/patches/${selectedPatchId}/mapping-sheets-pdf`}>
+                        <FileDown className="h-4 w-4" />
+                        Print mapping sheets
+                      </a>
+                    </Button>
+                  )}
+                </div>
                 {pagination && pagination.totalPages > 1 && (
                   <div className="flex items-center gap-2">
                     <span className="text-xs sm:text-sm text-muted-foreground">
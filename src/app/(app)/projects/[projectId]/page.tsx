@@ -68,6 +68,7 @@ import { MappingSheetPage1 } from "@/components/projects/mapping/MappingSheetPag
 import { MappingSubcontractorsTable } from "@/components/projects/mapping/MappingSubcontractorsTable"
 import { MappingSubcontractorsMobileView } from "@/components/projects/mapping/MappingSubcontractorsMobileView"
 import { ProjectSiteVisits } from "@/components/siteVisits/ProjectSiteVisits"
+import { OpenWhsBreaches } from "@/components/whs-breaches/OpenWhsBreaches"
 
 function SiteContactsSummary({ projectId, siteIds }: { projectId: string; siteIds: string[] }) {
   const [delegates, setDelegates] = useState<string[]>([])
@@ -1141,12 +1142,13 @@ export default function ProjectDetailPage() {
           </Card>
         </TabsContent>
 
-        <TabsContent value="site-visits" className="mt-0">
+        <TabsContent value="site-visits" className="mt-0 space-y-4">
           <ProjectSiteVisits
             projectId={projectId}
             projectName={project?.name ?? ''}
             autoCreate={false}
           />
+          <OpenWhsBreaches projectId={projectId} />
         </TabsContent>
 
         <TabsContent value="eba-search" className="mt-0">
@@ -122,6 +122,9 @@ export default function ProjectPrintPage() {
       {/* Screen toolbar (hidden on print) */}
       <div className="no-print flex items-center justify-end gap-2 p-2 border-b">
         <Button variant="outline" onClick={() => { try { window.print(); } catch {} }}>Print</Button>
+        <Button variant="outline" asChild>
+          <a href={`/api/projects/${projectId}/mapping-sheet-pdf`} target="_blank" rel="noopener noreferrer">Download PDF</a>
+        </Button>
         <Button variant="outline" onClick={() => { try { window.close(); } catch {} }}>Close</Button>
       </div>
 
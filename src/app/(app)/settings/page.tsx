@@ -7,6 +7,7 @@ import { getSupabaseBrowserClient } from "@/lib/supabase/client"
 import { useAuth } from "@/hooks/useAuth"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { GeofencingSetup } from "@/components/siteVisits/GeofencingSetup"
+import { RatingAlertSubscriptions } from "@/components/ratings/RatingAlertSubscriptions"
 import { Badge } from "@/components/ui/badge"
 import { User, Bell, Shield, LayoutDashboard } from "lucide-react"
 import { Separator } from "@/components/ui/separator"
@@ -17,6 +18,7 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Input } from "@/components/ui/input"
 import { Slider } from "@/components/ui/slider"
 import { Button } from "@/components/ui/button"
+import { Switch } from "@/components/ui/switch"
 import { useToast } from "@/hooks/use-toast"
 
 const AGENT_DEBUG_INGEST_URL =
@@ -73,7 +75,7 @@ export default function SettingsPage() {
       
       const { data: profile, error: profileError } = await supabase
         .from("profiles")
-        .select("id, full_name, email, apple_email, role")
+        .select("id, full_name, email, apple_email, role, email_digest_enabled, email_digest_frequency")
         .eq("id", auth.user.id)
         .single()
 
@@ -264,6 +266,38 @@ export default function SettingsPage() {
 
           <GeofencingSetup />
 
+          {(currentUser.role === "organiser" || currentUser.role === "lead_organiser") && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Email Digest</CardTitle>
+                <CardDescription>
+                  A summary of new projects, expiring EBAs, unsubmitted delegated tasks, projects due a visit and
+                  rating changes in your patches, plus any rating alerts you receive by digest.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <EmailDigestPreferences
+                  userId={currentUser.id}
+                  enabled={currentUser.email_digest_enabled ?? false}
+                  frequency={currentUser.email_digest_frequency ?? "weekly"}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Rating Alerts</CardTitle>
+              <CardDescription>
+                Get alerted when an employer&apos;s rating drops, loses confidence, has conflicting project and
+                expertise ratings, or expires. Subscribe to your patches or to individual employers.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RatingAlertSubscriptions />
+            </CardContent>
+          </Card>
+
           {/* Geofencing Info - role-specific context */}
           {currentUser.role === "admin" && (
             <Card className="bg-blue-50 dark:bg-blue-950 border-blue-200 dark:border-blue-800">
@@ -564,6 +598,80 @@ function AuditTargetSelector() {
   )
 }
 
+function EmailDigestPreferences({
+  userId,
+  enabled,
+  frequency,
+}: {
+  userId?: string
+  enabled: boolean
+  frequency: "daily" | "weekly"
+}) {
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+
+  const savePreference = async (update: { email_digest_enabled?: boolean; email_digest_frequency?: "daily" | "weekly" }) => {
+    if (!userId) return
+
+    setIsSaving(true)
+    try {
+      const { error } = await supabase
+        .from("profiles")
+        .update(update)
+        .eq("id", userId)
+
+      if (error) throw error
+
+      toast({ title: "Email digest preferences saved" })
+      queryClient.invalidateQueries({ queryKey: ["settings-current-user"] })
+    } catch (error: any) {
+      console.error("Error saving email digest preferences:", error)
+      toast({
+        title: "Failed to save",
+        description: error.message || "An error occurred while saving your email digest preferences",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="email-digest-enabled" className="font-normal">
+          Send me the organiser email digest
+        </Label>
+        <Switch
+          id="email-digest-enabled"
+          checked={enabled}
+          disabled={isSaving || !userId}
+          onCheckedChange={(checked) => savePreference({ email_digest_enabled: checked })}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <Label className="text-sm font-medium">Frequency</Label>
+        <RadioGroup
+          value={frequency}
+          onValueChange={(value) => savePreference({ email_digest_frequency: value as "daily" | "weekly" })}
+          disabled={isSaving || !enabled}
+        >
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="daily" id="email-digest-daily" />
+            <Label htmlFor="email-digest-daily" className="font-normal cursor-pointer">Daily</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="weekly" id="email-digest-weekly" />
+            <Label htmlFor="email-digest-weekly" className="font-normal cursor-pointer">Weekly</Label>
+          </div>
+        </RadioGroup>
+      </div>
+    </div>
+  )
+}
+
 function AppleEmailManager({ userId, currentAppleEmail }: { userId?: string; currentAppleEmail?: string | null }) {
   const [appleEmail, setAppleEmail] = useState(currentAppleEmail || "")
   const [isEditing, setIsEditing] = useState(false)
@@ -0,0 +1,24 @@
+"use client";
+
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { TrainingDueList } from "@/components/training/TrainingDueList";
+import { TrainingCourseCatalogue } from "@/components/training/TrainingCourseCatalogue";
+
+export default function TrainingPage() {
+  return (
+    <div className="container mx-auto p-4 sm:p-6 space-y-6">
+      <Tabs defaultValue="due">
+        <TabsList>
+          <TabsTrigger value="due">Training Due</TabsTrigger>
+          <TabsTrigger value="courses">Courses</TabsTrigger>
+        </TabsList>
+        <TabsContent value="due" className="mt-4">
+          <TrainingDueList />
+        </TabsContent>
+        <TabsContent value="courses" className="mt-4">
+          <TrainingCourseCatalogue />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import {
+  validateQualityRuleParameters,
+  type QualityRuleParameters,
+  type QualityRulePreview,
+} from '@/lib/data-integration/monitoring/QualityRuleDefinitions';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_SAMPLE_SIZE = 10;
+
+// POST - Count the rows an unsaved rule would flag, with a sample
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabase();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (profile?.role !== 'admin') {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const body: { table?: string; parameters?: QualityRuleParameters; sampleSize?: number } =
+      await request.json().catch(() => ({}));
+    const errors = validateQualityRuleParameters(body.table ?? '', body.parameters);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid rule', details: errors }, { status: 400 });
+    }
+
+    const { data, error } = await supabase.rpc('preview_data_quality_rule', {
+      p_table: body.table as string,
+      p_parameters: body.parameters as any,
+      p_sample_size: body.sampleSize ?? DEFAULT_SAMPLE_SIZE,
+    });
+
+    if (error) {
+      // Usually a column that doesn't exist on the table
+      console.error('Error previewing data quality rule:', error);
+      return NextResponse.json({ error: 'Rule could not be evaluated', details: [error.message] }, { status: 400 });
+    }
+
+    return NextResponse.json({ preview: data as unknown as QualityRulePreview });
+  } catch (error) {
+    console.error('Data quality preview API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import type { Database } from '@/types/database';
+import type { DataQualityRuleRequest } from '../route';
+import {
+  qualityRuleFromRow,
+  ruleFieldForCheck,
+  ruleTypeForCheck,
+  validateQualityRuleParameters,
+} from '@/lib/data-integration/monitoring/QualityRuleDefinitions';
+
+export const dynamic = 'force-dynamic';
+
+const SEVERITIES = ['low', 'medium', 'high', 'critical'];
+
+type ServerSupabase = Awaited<ReturnType<typeof createServerSupabase>>;
+type DataQualityRuleUpdate = Database['public']['Tables']['data_quality_rules']['Update'];
+
+async function requireAdmin(supabase: ServerSupabase) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) };
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.role !== 'admin') {
+    return { error: NextResponse.json({ error: 'Admin access required' }, { status: 403 }) };
+  }
+
+  return { user };
+}
+
+// PATCH - Enable, tune or redefine a rule
+export async function PATCH(request: NextRequest, { params }: { params: { ruleId: string } }) {
+  try {
+    const supabase = await createServerSupabase();
+    const auth = await requireAdmin(supabase);
+    if (auth.error) return auth.error;
+
+    const body: DataQualityRuleRequest = await request.json().catch(() => ({}));
+    const update: DataQualityRuleUpdate = { updated_at: new Date().toISOString() };
+    const errors: string[] = [];
+
+    if (body.name !== undefined) {
+      if (!body.name.trim()) errors.push('A rule needs a name');
+      update.name = body.name.trim();
+    }
+    if (body.description !== undefined) update.description = body.description.trim();
+    if (body.enabled !== undefined) update.enabled = body.enabled;
+    if (body.severity !== undefined) {
+      if (!SEVERITIES.includes(body.severity)) errors.push('Unknown severity');
+      update.severity = body.severity;
+    }
+    if (body.threshold !== undefined) {
+      if (!(body.threshold >= 0 && body.threshold <= 100)) errors.push('Threshold must be between 0 and 100');
+      update.threshold = body.threshold;
+    }
+    if (body.weight !== undefined) {
+      if (!(body.weight >= 0)) errors.push('Weight must be zero or more');
+      update.weight = body.weight;
+    }
+
+    // The definition is replaced as a whole so the table and check always agree
+    if (body.parameters !== undefined || body.table !== undefined) {
+      if (body.parameters === undefined || body.table === undefined) {
+        errors.push('Send the table and parameters together');
+      } else {
+        errors.push(...validateQualityRuleParameters(body.table, body.parameters));
+        if (body.parameters?.check) {
+          update.table_name = body.table;
+          update.parameters = body.parameters as any;
+          update.rule_type = ruleTypeForCheck(body.parameters.check);
+          update.field_name = ruleFieldForCheck(body.parameters.check) ?? null;
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid rule', details: errors }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('data_quality_rules')
+      .update(update)
+      .eq('id', params.ruleId)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating data quality rule:', error);
+      return NextResponse.json({ error: 'Failed to update rule' }, { status: 500 });
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ rule: qualityRuleFromRow(data) });
+  } catch (error) {
+    console.error('Data quality rule API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a rule and the issues it raised
+export async function DELETE(_request: NextRequest, { params }: { params: { ruleId: string } }) {
+  try {
+    const supabase = await createServerSupabase();
+    const auth = await requireAdmin(supabase);
+    if (auth.error) return auth.error;
+
+    const { error: issuesError } = await supabase
+      .from('data_quality_issues')
+      .delete()
+      .eq('rule_id', params.ruleId);
+
+    if (issuesError) {
+      console.error('Error deleting data quality rule issues:', issuesError);
+      return NextResponse.json({ error: 'Failed to delete rule issues' }, { status: 500 });
+    }
+
+    const { error } = await supabase
+      .from('data_quality_rules')
+      .delete()
+      .eq('id', params.ruleId);
+
+    if (error) {
+      console.error('Error deleting data quality rule:', error);
+      return NextResponse.json({ error: 'Failed to delete rule' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Data quality rule API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import type { QualityRuleRunResult } from '@/lib/data-integration/monitoring/QualityRuleDefinitions';
+
+export const dynamic = 'force-dynamic';
+
+// POST - Evaluate a rule now, opening issues for failing records and resolving fixed ones
+export async function POST(_request: NextRequest, { params }: { params: { ruleId: string } }) {
+  try {
+    const supabase = await createServerSupabase();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (profile?.role !== 'admin') {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { data, error } = await supabase.rpc('run_data_quality_rule', { p_rule_id: params.ruleId });
+
+    if (error) {
+      console.error('Error running data quality rule:', error);
+      const status = error.code === 'P0002' ? 404 : 400;
+      return NextResponse.json({ error: 'Failed to run rule', details: error.message }, { status });
+    }
+
+    return NextResponse.json({ result: data as unknown as QualityRuleRunResult });
+  } catch (error) {
+    console.error('Data quality rule run API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
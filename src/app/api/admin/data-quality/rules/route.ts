@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import type { Database } from '@/types/database';
+import type { DataQualityRule } from '@/lib/data-integration/monitoring/DataQualityMonitor';
+import {
+  qualityRuleFromRow,
+  qualityRuleToRow,
+  ruleFieldForCheck,
+  ruleTypeForCheck,
+  validateQualityRuleParameters,
+  type QualityRuleParameters,
+} from '@/lib/data-integration/monitoring/QualityRuleDefinitions';
+
+export const dynamic = 'force-dynamic';
+
+const SEVERITIES: DataQualityRule['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+export interface DataQualityRuleRequest {
+  name?: string;
+  description?: string;
+  table?: string;
+  severity?: DataQualityRule['severity'];
+  enabled?: boolean;
+  threshold?: number;
+  weight?: number;
+  parameters?: QualityRuleParameters;
+}
+
+export interface DataQualityRuleSummary extends DataQualityRule {
+  openIssues: number;
+}
+
+type ServerSupabase = Awaited<ReturnType<typeof createServerSupabase>>;
+type DataQualityRuleRow = Database['public']['Tables']['data_quality_rules']['Row'];
+
+async function requireAdmin(supabase: ServerSupabase) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) };
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.role !== 'admin') {
+    return { error: NextResponse.json({ error: 'Admin access required' }, { status: 403 }) };
+  }
+
+  return { user };
+}
+
+// GET - Every quality rule with its open issue count
+export async function GET() {
+  try {
+    const supabase = await createServerSupabase();
+    const auth = await requireAdmin(supabase);
+    if (auth.error) return auth.error;
+
+    const [rulesResult, issuesResult] = await Promise.all([
+      supabase.from('data_quality_rules').select('*').order('table_name').order('name'),
+      supabase
+        .from('data_quality_issues')
+        .select('rule_id')
+        .in('status', ['open', 'investigating'])
+        .not('rule_id', 'is', null),
+    ]);
+
+    if (rulesResult.error || issuesResult.error) {
+      console.error('Error loading data quality rules:', rulesResult.error ?? issuesResult.error);
+      return NextResponse.json({ error: 'Failed to load data quality rules' }, { status: 500 });
+    }
+
+    const openIssues = new Map<string, number>();
+    for (const issue of (issuesResult.data ?? []) as Array<{ rule_id: string | null }>) {
+      if (issue.rule_id) openIssues.set(issue.rule_id, (openIssues.get(issue.rule_id) ?? 0) + 1);
+    }
+
+    const rules: DataQualityRuleSummary[] = ((rulesResult.data ?? []) as DataQualityRuleRow[]).map((row) => ({
+      ...qualityRuleFromRow(row),
+      openIssues: openIssues.get(row.id) ?? 0,
+    }));
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('Data quality rules API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Create a rule authored in the admin UI
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabase();
+    const auth = await requireAdmin(supabase);
+    if (auth.error) return auth.error;
+
+    const body: DataQualityRuleRequest = await request.json().catch(() => ({}));
+    const name = body.name?.trim();
+    const table = body.table ?? '';
+    const errors = validateQualityRuleParameters(table, body.parameters);
+
+    if (!name) errors.unshift('A rule needs a name');
+    if (body.severity && !SEVERITIES.includes(body.severity)) errors.push('Unknown severity');
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid rule', details: errors }, { status: 400 });
+    }
+
+    const parameters = body.parameters as QualityRuleParameters;
+    const { data, error } = await supabase
+      .from('data_quality_rules')
+      .insert(qualityRuleToRow({
+        name: name as string,
+        description: body.description?.trim() ?? '',
+        table,
+        field: ruleFieldForCheck(parameters.check),
+        ruleType: ruleTypeForCheck(parameters.check),
+        severity: body.severity ?? 'medium',
+        enabled: body.enabled ?? true,
+        parameters,
+        threshold: body.threshold ?? 95,
+        weight: body.weight ?? 1,
+      }))
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error creating data quality rule:', error);
+      return NextResponse.json({ error: 'Failed to create rule' }, { status: 500 });
+    }
+
+    return NextResponse.json({ rule: { ...qualityRuleFromRow(data), openIssues: 0 } }, { status: 201 });
+  } catch (error) {
+    console.error('Data quality rules API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
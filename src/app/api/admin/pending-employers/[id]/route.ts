@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase } from '@/lib/supabase/server';
+import { INVALID_ABN_MESSAGE, isBlankOrValidAbn, normalizeAbn } from '@/lib/employers/abn';
 
 export const dynamic = 'force-dynamic';
 
@@ -82,6 +83,15 @@ export async function PATCH(
       }
     }
 
+    if ('abn' in filteredUpdates) {
+      if (!isBlankOrValidAbn(filteredUpdates.abn)) {
+        return NextResponse.json({ 
+          error: INVALID_ABN_MESSAGE 
+        }, { status: 400 });
+      }
+      filteredUpdates.abn = normalizeAbn(filteredUpdates.abn);
+    }
+
     // Add review tracking
     filteredUpdates.last_reviewed_at = new Date().toISOString();
     filteredUpdates.last_reviewed_by = user.id;
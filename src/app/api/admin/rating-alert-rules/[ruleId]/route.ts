@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import type { Database } from '@/types/database';
+import type { RatingAlertRuleRequest } from '../route';
+import {
+  RATING_ALERT_LEVELS,
+  ratingAlertRuleFromRow,
+  validateRatingAlertRuleParameters,
+} from '@/lib/rating-alerts/alertRules';
+
+export const dynamic = 'force-dynamic';
+
+type ServerSupabase = Awaited<ReturnType<typeof createServerSupabase>>;
+type RatingAlertRuleUpdate = Database['public']['Tables']['rating_alert_rules']['Update'];
+
+async function requireAdmin(supabase: ServerSupabase) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) };
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.role !== 'admin') {
+    return { error: NextResponse.json({ error: 'Admin access required' }, { status: 403 }) };
+  }
+
+  return { user };
+}
+
+// PATCH - Enable, rename or tune a rule. The rule type is fixed once created so its
+// open alerts keep meaning the same thing.
+export async function PATCH(request: NextRequest, { params }: { params: { ruleId: string } }) {
+  try {
+    const supabase = await createServerSupabase();
+    const auth = await requireAdmin(supabase);
+    if (auth.error) return auth.error;
+
+    const { data: existing, error: loadError } = await supabase
+      .from('rating_alert_rules')
+      .select('rule_type')
+      .eq('id', params.ruleId)
+      .maybeSingle();
+
+    if (loadError) {
+      console.error('Error loading rating alert rule:', loadError);
+      return NextResponse.json({ error: 'Failed to load rule' }, { status: 500 });
+    }
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const body: RatingAlertRuleRequest = await request.json().catch(() => ({}));
+    const update: RatingAlertRuleUpdate = {};
+    const errors: string[] = [];
+
+    if (body.ruleType !== undefined && body.ruleType !== existing.rule_type) {
+      errors.push('The rule type cannot be changed; create a new rule instead');
+    }
+    if (body.name !== undefined) {
+      if (!body.name.trim()) errors.push('A rule needs a name');
+      update.name = body.name.trim();
+    }
+    if (body.description !== undefined) update.description = body.description?.trim() || null;
+    if (body.enabled !== undefined) update.enabled = body.enabled;
+    if (body.alertLevel !== undefined) {
+      if (!RATING_ALERT_LEVELS.includes(body.alertLevel)) errors.push('Unknown alert level');
+      update.alert_level = body.alertLevel;
+    }
+    if (body.parameters !== undefined) {
+      errors.push(...validateRatingAlertRuleParameters(existing.rule_type, body.parameters));
+      update.parameters = body.parameters as RatingAlertRuleUpdate['parameters'];
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid rule', details: errors }, { status: 400 });
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('rating_alert_rules')
+      .update(update)
+      .eq('id', params.ruleId)
+      .select('*')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'A rule with that name already exists' }, { status: 409 });
+      }
+      console.error('Error updating rating alert rule:', error);
+      return NextResponse.json({ error: 'Failed to update rule' }, { status: 500 });
+    }
+
+    return NextResponse.json({ rule: ratingAlertRuleFromRow(data) });
+  } catch (error) {
+    console.error('Rating alert rule API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a rule. Alerts it already raised are kept, unlinked from the rule.
+export async function DELETE(_request: NextRequest, { params }: { params: { ruleId: string } }) {
+  try {
+    const supabase = await createServerSupabase();
+    const auth = await requireAdmin(supabase);
+    if (auth.error) return auth.error;
+
+    const { error } = await supabase
+      .from('rating_alert_rules')
+      .delete()
+      .eq('id', params.ruleId);
+
+    if (error) {
+      console.error('Error deleting rating alert rule:', error);
+      return NextResponse.json({ error: 'Failed to delete rule' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Rating alert rule API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
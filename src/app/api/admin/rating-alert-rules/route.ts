@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import type { Database } from '@/types/database';
+import {
+  defaultRatingAlertRuleParameters,
+  RATING_ALERT_LEVELS,
+  ratingAlertRuleFromRow,
+  validateRatingAlertRuleParameters,
+  type RatingAlertLevel,
+  type RatingAlertRule,
+  type RatingAlertRuleParameters,
+  type RatingAlertRuleType,
+} from '@/lib/rating-alerts/alertRules';
+
+export const dynamic = 'force-dynamic';
+
+export interface RatingAlertRuleRequest {
+  name?: string;
+  description?: string | null;
+  ruleType?: RatingAlertRuleType;
+  parameters?: RatingAlertRuleParameters;
+  alertLevel?: RatingAlertLevel;
+  enabled?: boolean;
+}
+
+export interface RatingAlertRuleSummary extends RatingAlertRule {
+  openAlerts: number;
+}
+
+type ServerSupabase = Awaited<ReturnType<typeof createServerSupabase>>;
+type RatingAlertRuleRow = Database['public']['Tables']['rating_alert_rules']['Row'];
+
+async function requireAdmin(supabase: ServerSupabase) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) };
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.role !== 'admin') {
+    return { error: NextResponse.json({ error: 'Admin access required' }, { status: 403 }) };
+  }
+
+  return { user };
+}
+
+// GET - Every rating alert rule with its count of open alerts
+export async function GET() {
+  try {
+    const supabase = await createServerSupabase();
+    const auth = await requireAdmin(supabase);
+    if (auth.error) return auth.error;
+
+    const [rulesResult, alertsResult] = await Promise.all([
+      supabase.from('rating_alert_rules').select('*').order('created_at'),
+      supabase
+        .from('rating_alerts')
+        .select('alert_rule_id')
+        .eq('is_active', true)
+        .eq('resolved', false)
+        .not('alert_rule_id', 'is', null),
+    ]);
+
+    if (rulesResult.error || alertsResult.error) {
+      console.error('Error loading rating alert rules:', rulesResult.error ?? alertsResult.error);
+      return NextResponse.json({ error: 'Failed to load rating alert rules' }, { status: 500 });
+    }
+
+    const openAlerts = new Map<string, number>();
+    for (const alert of alertsResult.data ?? []) {
+      if (alert.alert_rule_id) openAlerts.set(alert.alert_rule_id, (openAlerts.get(alert.alert_rule_id) ?? 0) + 1);
+    }
+
+    const rules: RatingAlertRuleSummary[] = ((rulesResult.data ?? []) as RatingAlertRuleRow[]).map((row) => ({
+      ...ratingAlertRuleFromRow(row),
+      openAlerts: openAlerts.get(row.id) ?? 0,
+    }));
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('Rating alert rules API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Add a rule. It applies from the next rating calculation onwards.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabase();
+    const auth = await requireAdmin(supabase);
+    if (auth.error) return auth.error;
+
+    const body: RatingAlertRuleRequest = await request.json().catch(() => ({}));
+    const name = body.name?.trim();
+    const ruleType = body.ruleType ?? ('' as RatingAlertRuleType);
+    const parameters = body.parameters ?? (ruleType ? defaultRatingAlertRuleParameters(ruleType) : undefined);
+    const errors = validateRatingAlertRuleParameters(ruleType, parameters);
+
+    if (!name) errors.unshift('A rule needs a name');
+    if (body.alertLevel && !RATING_ALERT_LEVELS.includes(body.alertLevel)) errors.push('Unknown alert level');
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid rule', details: errors }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('rating_alert_rules')
+      .insert({
+        name: name as string,
+        description: body.description?.trim() || null,
+        rule_type: ruleType,
+        parameters: parameters as Database['public']['Tables']['rating_alert_rules']['Insert']['parameters'],
+        alert_level: body.alertLevel ?? 'warning',
+        enabled: body.enabled ?? true,
+        created_by: auth.user.id,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'A rule with that name already exists' }, { status: 409 });
+      }
+      console.error('Error creating rating alert rule:', error);
+      return NextResponse.json({ error: 'Failed to create rule' }, { status: 500 });
+    }
+
+    return NextResponse.json({ rule: { ...ratingAlertRuleFromRow(data), openAlerts: 0 } }, { status: 201 });
+  } catch (error) {
+    console.error('Rating alert rules API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
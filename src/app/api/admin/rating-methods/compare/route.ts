@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import { MethodComparison, MethodComparisonError } from '@/lib/rating-engine/core/MethodComparison';
+import { defaultMethodRegistry } from '@/lib/rating-engine/core/CalculationMethodRegistry';
+import { DEFAULT_CALCULATION_CONFIG, DEFAULT_LOOKBACK_DAYS } from '@/lib/rating-engine/core/DefaultConfig';
+import { SupabaseRatingDataSource } from '@/lib/rating-engine/utils/SupabaseDataSource';
+import type { CalculationInput } from '@/lib/rating-engine/types/CalculationTypes';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_SAMPLE_SIZE = 25;
+const MAX_SAMPLE_SIZE = 100;
+
+export interface MethodComparisonRequest {
+  employer_ids?: string[];
+  sample_size?: number;
+  baseline_method?: string;
+}
+
+// POST - Run every registered calculation method over a sample of employers
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabase();
+    const body: MethodComparisonRequest = await request.json().catch(() => ({}));
+
+    // Get current user and verify admin role
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (profile?.role !== 'admin') {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const dataSource = new SupabaseRatingDataSource(supabase);
+
+    // Compare against the method currently configured on the weighting template
+    const baselineMethod = body.baseline_method || await dataSource.loadConfiguredCalculationMethod();
+    if (!defaultMethodRegistry.has(baselineMethod)) {
+      return NextResponse.json({ error: `Unknown calculation method: ${baselineMethod}` }, { status: 400 });
+    }
+
+    const sampleSize = Math.min(
+      Math.max(1, Number(body.sample_size) || DEFAULT_SAMPLE_SIZE),
+      MAX_SAMPLE_SIZE
+    );
+
+    // Sample employers: explicit ids, otherwise the most recently rated employers
+    let employerIds: string[];
+    if (Array.isArray(body.employer_ids) && body.employer_ids.length > 0) {
+      employerIds = body.employer_ids.slice(0, MAX_SAMPLE_SIZE);
+    } else {
+      const { data: ratedEmployers, error: sampleError } = await supabase
+        .from('employer_final_ratings')
+        .select('employer_id')
+        .eq('is_active', true)
+        .order('rating_date', { ascending: false })
+        .limit(sampleSize);
+
+      if (sampleError) {
+        console.error('Error sampling employers for method comparison:', sampleError);
+        return NextResponse.json({ error: 'Failed to sample employers' }, { status: 500 });
+      }
+
+      employerIds = Array.from(new Set(((ratedEmployers || []) as Array<{ employer_id: string }>).map(row => row.employer_id)));
+    }
+
+    if (employerIds.length === 0) {
+      return NextResponse.json({ error: 'No employers available to compare' }, { status: 404 });
+    }
+
+    const { data: employers, error: employerError } = await supabase
+      .from('employers')
+      .select('id, name')
+      .in('id', employerIds);
+
+    if (employerError) {
+      console.error('Error loading employers for method comparison:', employerError);
+      return NextResponse.json({ error: 'Failed to load employers' }, { status: 500 });
+    }
+
+    const employerNames = ((employers || []) as Array<{ id: string; name: string }>).reduce((acc, employer) => {
+      acc[employer.id] = employer.name;
+      return acc;
+    }, {} as Record<string, string>);
+
+    // Load inputs sequentially to keep the query load predictable
+    const calculationDate = new Date();
+    const weights = await dataSource.loadConfiguredWeights();
+    const inputs: CalculationInput[] = [];
+
+    for (const employerId of employerIds.filter(id => employerNames[id] !== undefined)) {
+      inputs.push(await dataSource.loadCalculationInput({
+        employer_id: employerId,
+        calculation_date: calculationDate,
+        lookback_days: DEFAULT_LOOKBACK_DAYS,
+        weights,
+        method: baselineMethod,
+        force_recalculate: true,
+        debug_mode: false,
+        user_id: user.id
+      }));
+    }
+
+    const comparison = new MethodComparison(DEFAULT_CALCULATION_CONFIG);
+    const report = await comparison.compare(inputs, { baselineMethod, employerNames });
+
+    return NextResponse.json(report);
+  } catch (error) {
+    if (error instanceof MethodComparisonError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 400 });
+    }
+    console.error('Error in POST /api/admin/rating-methods/compare:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
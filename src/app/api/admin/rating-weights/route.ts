@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase } from '@/lib/supabase/server';
+import { defaultMethodRegistry } from '@/lib/rating-engine/core/CalculationMethodRegistry';
 
 // GET - Fetch current weights and weight history
 export async function GET(request: NextRequest) {
@@ -65,7 +66,8 @@ export async function GET(request: NextRequest) {
           organiser_expertise: organiserWeights,
           project_data: projectWeights
         },
-        configurations: configs
+        configurations: configs,
+        available_methods: defaultMethodRegistry.list()
       });
     }
   } catch (error) {
@@ -129,4 +131,74 @@ export async function POST(request: NextRequest) {
     console.error('Error in POST /api/admin/rating-weights:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
+
+// PATCH - Choose the calculation method for a weighting template
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabase();
+    const body = await request.json();
+
+    // Get current user and verify admin role
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    // Check if user is admin
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (profile?.role !== 'admin') {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    // Validate required fields
+    const { config_id, calculation_method } = body;
+    if (!config_id || !calculation_method) {
+      return NextResponse.json(
+        { error: 'Missing required fields: config_id, calculation_method' },
+        { status: 400 }
+      );
+    }
+
+    if (!defaultMethodRegistry.has(calculation_method)) {
+      return NextResponse.json(
+        { error: `Unknown calculation method: ${calculation_method}`, available: defaultMethodRegistry.ids() },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('rating_weight_configs')
+      .update({
+        calculation_method,
+        updated_by: user.id,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', config_id)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating calculation method:', error);
+      return NextResponse.json({ error: 'Failed to update calculation method', details: error.message }, { status: 500 });
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: 'Weight configuration not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Calculation method updated successfully',
+      data
+    });
+  } catch (error) {
+    console.error('Error in PATCH /api/admin/rating-weights:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import {
+  buildCancelControl,
+  buildReprioritiseControl,
+  buildRetryControl,
+  ControllableScraperJob,
+  SCRAPER_JOB_ACTIONS,
+  ScraperJobAction,
+  ScraperJobControlError,
+  ScraperJobControlResult,
+} from '@/lib/scraper-jobs/jobControl';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_EVENT_LIMIT = 200;
+const MAX_EVENT_LIMIT = 1000;
+
+export interface ScraperJobControlRequest {
+  action?: ScraperJobAction;
+  priority?: number;
+}
+
+type ServerSupabase = Awaited<ReturnType<typeof createServerSupabase>>;
+
+async function requireAdmin(supabase: ServerSupabase) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return { error: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) };
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (profile?.role !== 'admin') {
+    return { error: NextResponse.json({ error: 'Admin access required' }, { status: 403 }) };
+  }
+
+  return { user };
+}
+
+// GET - Job details with its event timeline, optionally filtered by event_type (comma separated)
+export async function GET(request: NextRequest, { params }: { params: { jobId: string } }) {
+  try {
+    const supabase = await createServerSupabase();
+    const auth = await requireAdmin(supabase);
+    if (auth.error) return auth.error;
+
+    const searchParams = request.nextUrl.searchParams;
+    const eventTypes = (searchParams.get('eventType') ?? '')
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean);
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || DEFAULT_EVENT_LIMIT, 1), MAX_EVENT_LIMIT);
+
+    const { data: job, error: jobError } = await supabase
+      .from('scraper_jobs')
+      .select('*')
+      .eq('id', params.jobId)
+      .maybeSingle();
+
+    if (jobError) {
+      console.error('Error loading scraper job:', jobError);
+      return NextResponse.json({ error: 'Failed to load scraper job' }, { status: 500 });
+    }
+
+    if (!job) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    let eventsQuery = supabase
+      .from('scraper_job_events')
+      .select('*')
+      .eq('job_id', params.jobId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (eventTypes.length > 0) {
+      eventsQuery = eventsQuery.in('event_type', eventTypes);
+    }
+
+    // Every event type on the job, so the filter can offer types outside the current page
+    const [eventsResult, typesResult] = await Promise.all([
+      eventsQuery,
+      supabase.from('scraper_job_events').select('event_type').eq('job_id', params.jobId),
+    ]);
+
+    if (eventsResult.error || typesResult.error) {
+      console.error('Error loading scraper job events:', eventsResult.error ?? typesResult.error);
+      return NextResponse.json({ error: 'Failed to load job events' }, { status: 500 });
+    }
+
+    const availableEventTypes = Array.from(
+      new Set((typesResult.data ?? []).map((row: { event_type: string }) => row.event_type))
+    ).sort();
+
+    return NextResponse.json({
+      job,
+      events: eventsResult.data ?? [],
+      eventTypes: availableEventTypes,
+    });
+  } catch (error) {
+    console.error('Scraper job admin API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH - Cancel, retry or reprioritise a job
+export async function PATCH(request: NextRequest, { params }: { params: { jobId: string } }) {
+  try {
+    const supabase = await createServerSupabase();
+    const auth = await requireAdmin(supabase);
+    if (auth.error) return auth.error;
+
+    const body: ScraperJobControlRequest = await request.json().catch(() => ({}));
+    if (!body.action || !SCRAPER_JOB_ACTIONS.includes(body.action)) {
+      return NextResponse.json({ error: 'Unsupported action' }, { status: 400 });
+    }
+
+    const { data: job, error: jobError } = await supabase
+      .from('scraper_jobs')
+      .select('*')
+      .eq('id', params.jobId)
+      .maybeSingle();
+
+    if (jobError) {
+      console.error('Error loading scraper job:', jobError);
+      return NextResponse.json({ error: 'Failed to load scraper job' }, { status: 500 });
+    }
+
+    if (!job) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const controllable = job as unknown as ControllableScraperJob;
+    let control: ScraperJobControlResult;
+    try {
+      control =
+        body.action === 'cancel'
+          ? buildCancelControl(controllable, auth.user.id)
+          : body.action === 'retry'
+            ? buildRetryControl(controllable, auth.user.id)
+            : buildReprioritiseControl(controllable, body.priority, auth.user.id);
+    } catch (error) {
+      if (error instanceof ScraperJobControlError) {
+        const status = error.code === 'INVALID_STATE' ? 409 : 400;
+        return NextResponse.json({ error: error.message, code: error.code }, { status });
+      }
+      throw error;
+    }
+
+    // Guard on the status we validated so a worker finishing the job in between is not overwritten
+    const { data: updated, error: updateError } = await supabase
+      .from('scraper_jobs')
+      .update(control.update)
+      .eq('id', params.jobId)
+      .eq('status', controllable.status)
+      .select()
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('Error updating scraper job:', updateError);
+      return NextResponse.json({ error: 'Failed to update scraper job' }, { status: 500 });
+    }
+
+    if (!updated) {
+      return NextResponse.json({ error: 'Job changed while the request was processed; reload and try again' }, { status: 409 });
+    }
+
+    const { error: eventError } = await supabase.from('scraper_job_events').insert({
+      job_id: params.jobId,
+      event_type: control.event.event_type,
+      payload: control.event.payload,
+    });
+
+    if (eventError) {
+      console.error('Error recording scraper job event:', eventError);
+    }
+
+    return NextResponse.json({ job: updated });
+  } catch (error) {
+    console.error('Scraper job admin API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// GET - List scraper jobs across all users for the job control panel
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabase();
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (profile?.role !== 'admin') {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get('status');
+    const jobType = searchParams.get('jobType');
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    let query = supabase
+      .from('scraper_jobs')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (status) {
+      query = query.in('status', status.split(','));
+    }
+
+    if (jobType) {
+      query = query.eq('job_type', jobType);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error loading scraper jobs:', error);
+      return NextResponse.json({ error: 'Failed to load scraper jobs' }, { status: 500 });
+    }
+
+    return NextResponse.json({ jobs: data ?? [] });
+  } catch (error) {
+    console.error('Scraper jobs admin API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+
+export const dynamic = 'force-dynamic';
+
+export interface SharedAbnEmployer {
+  id: string;
+  name: string;
+  created_at: string | null;
+  abn_legal_name: string | null;
+}
+
+export interface SharedAbnGroup {
+  abn: string;
+  abnValid: boolean;
+  employerIds: string[];
+  employers: SharedAbnEmployer[];
+}
+
+// GET /api/admin/shared-abn-employers - Employers that share an ABN
+export async function GET() {
+  try {
+    const supabase = await createServerSupabase();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: userProfile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (!userProfile || !['admin', 'lead_organiser'].includes(userProfile.role)) {
+      return NextResponse.json({
+        error: 'Forbidden - admin or lead_organiser access required'
+      }, { status: 403 });
+    }
+
+    const { data, error: rpcError } = await supabase.rpc('find_employers_sharing_abn');
+
+    if (rpcError) {
+      console.error('[shared-abn-employers] RPC error:', rpcError);
+      return NextResponse.json({
+        error: 'Failed to load shared ABN report',
+        details: rpcError.message,
+      }, { status: 500 });
+    }
+
+    const rows = (data || []) as Array<{ abn: string; abn_valid: boolean; employers: unknown }>;
+    const groups: SharedAbnGroup[] = rows.map((row) => {
+      const employers = (row.employers as SharedAbnEmployer[]) || [];
+      return {
+        abn: row.abn,
+        abnValid: row.abn_valid,
+        employerIds: employers.map((employer) => employer.id),
+        employers,
+      };
+    });
+
+    return NextResponse.json({
+      groups,
+      totalGroups: groups.length,
+      totalEmployers: groups.reduce((sum, group) => sum + group.employers.length, 0),
+    });
+  } catch (error) {
+    console.error('Shared ABN report error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Report failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,231 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import {
+  buildBurnUp,
+  eventMatchesTarget,
+  getProgress,
+  getTargetScope,
+  sumEvents,
+  type BurnUpPoint,
+  type KpiEventRow,
+  type KpiTargetRow,
+  type KpiTargetScope,
+} from '@/lib/campaigns/kpiScoreboard';
+
+const ALLOWED_ROLES = ['organiser', 'lead_organiser', 'admin'] as const;
+type AllowedRole = typeof ALLOWED_ROLES[number];
+const ROLE_SET = new Set<AllowedRole>(ALLOWED_ROLES);
+
+export const dynamic = 'force-dynamic';
+
+export interface CampaignScoreboardTarget {
+  id: string;
+  scope: KpiTargetScope;
+  label: string;
+  organiser_id: string | null;
+  patch_id: string | null;
+  job_site_id: string | null;
+  target_value: number;
+  due_date: string;
+  actual: number;
+  progress: number;
+}
+
+export interface CampaignScoreboardKpi {
+  kpi_id: string;
+  code: string;
+  label: string;
+  unit: string;
+  required: boolean;
+  actual: number;
+  target_total: number;
+  progress: number;
+  targets: CampaignScoreboardTarget[];
+  burn_up: BurnUpPoint[];
+}
+
+export interface CampaignScoreboardResponse {
+  campaign: {
+    id: string;
+    name: string;
+    start_date: string;
+    end_date: string;
+    status: string;
+  };
+  kpis: CampaignScoreboardKpi[];
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { campaignId: string } }
+) {
+  try {
+    const supabase = await createServerSupabase();
+    const { campaignId } = params;
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (profileError) {
+      console.error('Campaign scoreboard API failed to load profile:', profileError);
+      return NextResponse.json({ error: 'Unable to load user profile' }, { status: 500 });
+    }
+
+    const role = profile?.role as AllowedRole | undefined;
+    if (!role || !ROLE_SET.has(role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { data: campaign, error: campaignError } = await supabase
+      .from('campaigns')
+      .select('id, name, start_date, end_date, status')
+      .eq('id', campaignId)
+      .maybeSingle();
+
+    if (campaignError) {
+      console.error('Campaign scoreboard API failed to load campaign:', campaignError);
+      return NextResponse.json({ error: 'Failed to load campaign' }, { status: 500 });
+    }
+    if (!campaign) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+    }
+
+    const [kpisResult, targetsResult, eventsResult] = await Promise.all([
+      supabase
+        .from('campaign_kpis')
+        .select('kpi_id, required, kpi_definitions(id, code, label, unit)')
+        .eq('campaign_id', campaignId),
+      supabase
+        .from('kpi_targets')
+        .select('id, kpi_id, organiser_id, patch_id, job_site_id, target_value, due_date')
+        .eq('campaign_id', campaignId),
+      supabase
+        .from('kpi_events')
+        .select('kpi_id, organiser_id, job_site_id, value, occurred_at')
+        .eq('campaign_id', campaignId),
+    ]);
+
+    const failed = [kpisResult, targetsResult, eventsResult].find((result) => result.error);
+    if (failed?.error) {
+      console.error('Campaign scoreboard API query error:', failed.error);
+      return NextResponse.json({ error: 'Failed to load campaign KPIs' }, { status: 500 });
+    }
+
+    const targets = (targetsResult.data || []).map((row: any) => ({
+      ...row,
+      target_value: Number(row.target_value),
+    })) as KpiTargetRow[];
+    const events = (eventsResult.data || []).map((row: any) => ({
+      ...row,
+      value: Number(row.value),
+    })) as KpiEventRow[];
+
+    const organiserIds = Array.from(new Set(targets.map((t) => t.organiser_id).filter(Boolean))) as string[];
+    const patchIds = Array.from(new Set(targets.map((t) => t.patch_id).filter(Boolean))) as string[];
+    const jobSiteIds = Array.from(new Set(targets.map((t) => t.job_site_id).filter(Boolean))) as string[];
+
+    const [organisersResult, patchesResult, sitesResult, patchSitesResult] = await Promise.all([
+      organiserIds.length > 0
+        ? supabase.from('profiles').select('id, full_name').in('id', organiserIds)
+        : Promise.resolve({ data: [], error: null }),
+      patchIds.length > 0
+        ? supabase.from('patches').select('id, name').in('id', patchIds)
+        : Promise.resolve({ data: [], error: null }),
+      jobSiteIds.length > 0
+        ? supabase.from('job_sites').select('id, name').in('id', jobSiteIds)
+        : Promise.resolve({ data: [], error: null }),
+      patchIds.length > 0
+        ? supabase.from('v_patch_sites_current').select('patch_id, job_site_id').in('patch_id', patchIds)
+        : Promise.resolve({ data: [], error: null }),
+    ]);
+
+    const lookupFailed = [organisersResult, patchesResult, sitesResult, patchSitesResult].find(
+      (result) => result.error
+    );
+    if (lookupFailed?.error) {
+      console.error('Campaign scoreboard API failed to load target scopes:', lookupFailed.error);
+      return NextResponse.json({ error: 'Failed to load target scopes' }, { status: 500 });
+    }
+
+    const organiserNames = new Map<string, string>(
+      (organisersResult.data || []).map((row: any) => [row.id, row.full_name || 'Unnamed organiser'])
+    );
+    const patchNames = new Map<string, string>((patchesResult.data || []).map((row: any) => [row.id, row.name]));
+    const siteNames = new Map<string, string>((sitesResult.data || []).map((row: any) => [row.id, row.name]));
+
+    const patchIdsBySite = new Map<string, string[]>();
+    (patchSitesResult.data || []).forEach((row: any) => {
+      if (!row.job_site_id || !row.patch_id) return;
+      const existing = patchIdsBySite.get(row.job_site_id) ?? [];
+      existing.push(row.patch_id);
+      patchIdsBySite.set(row.job_site_id, existing);
+    });
+
+    const describeTarget = (target: KpiTargetRow) => {
+      const parts: string[] = [];
+      if (target.organiser_id) parts.push(organiserNames.get(target.organiser_id) ?? 'Unknown organiser');
+      if (target.patch_id) parts.push(patchNames.get(target.patch_id) ?? 'Unknown patch');
+      if (target.job_site_id) parts.push(siteNames.get(target.job_site_id) ?? 'Unknown site');
+      return parts.join(' · ');
+    };
+
+    const kpis: CampaignScoreboardKpi[] = (kpisResult.data || [])
+      .map((row: any) => {
+        const definition = row.kpi_definitions;
+        const kpiEvents = events.filter((event) => event.kpi_id === row.kpi_id);
+        const kpiTargets = targets
+          .filter((target) => target.kpi_id === row.kpi_id)
+          .map((target) => {
+            const actual = sumEvents(kpiEvents.filter((event) => eventMatchesTarget(event, target, patchIdsBySite)));
+            return {
+              id: target.id,
+              scope: getTargetScope(target),
+              label: describeTarget(target),
+              organiser_id: target.organiser_id,
+              patch_id: target.patch_id,
+              job_site_id: target.job_site_id,
+              target_value: target.target_value,
+              due_date: target.due_date,
+              actual,
+              progress: getProgress(actual, target.target_value),
+            };
+          })
+          .sort((a, b) => a.progress - b.progress);
+
+        const actual = sumEvents(kpiEvents);
+        const targetTotal = kpiTargets.reduce((total, target) => total + target.target_value, 0);
+
+        return {
+          kpi_id: row.kpi_id,
+          code: definition?.code ?? '',
+          label: definition?.label ?? 'Unknown KPI',
+          unit: definition?.unit ?? 'count',
+          required: row.required,
+          actual,
+          target_total: targetTotal,
+          progress: getProgress(actual, targetTotal),
+          targets: kpiTargets,
+          burn_up: buildBurnUp(kpiEvents, campaign.start_date, campaign.end_date, targetTotal),
+        };
+      })
+      .sort((a: CampaignScoreboardKpi, b: CampaignScoreboardKpi) => a.label.localeCompare(b.label));
+
+    const response: CampaignScoreboardResponse = { campaign, kpis };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Campaign scoreboard API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
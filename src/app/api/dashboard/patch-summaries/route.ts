@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabase } from '@/lib/supabase/server'
-import { mergeOrganiserNameLists, PENDING_USER_DASHBOARD_STATUSES } from '@/utils/organiserDisplay'
+import { fetchPatchSummaries, type PatchSummaryData } from '@/lib/patchSummaries'
+
+export type { PatchSummaryData }
 
 const ALLOWED_ROLES = ['organiser', 'lead_organiser', 'admin'] as const
 type AllowedRole = typeof ALLOWED_ROLES[number]
@@ -20,20 +22,6 @@ export interface PatchSummariesRequest {
   }
 }
 
-export interface PatchSummaryData {
-  patchId: string
-  patchName: string
-  organiserNames: string[]
-  projectCount: number
-  ebaProjectsCount: number
-  ebaProjectsPercentage: number
-  knownBuilderCount: number
-  knownBuilderPercentage: number
-  keyContractorCoverage: number
-  keyContractorEbaPercentage: number
-  lastUpdated: string
-}
-
 export interface PatchSummariesResponse {
   summaries: PatchSummaryData[]
   aggregatedMetrics?: {
@@ -147,22 +135,21 @@ export async function GET(request: NextRequest) {
     }
     
     // Use optimized RPC function for patch summaries
-    const { data: summariesData, error } = await supabase.rpc('get_patch_summaries_for_user', {
-      p_user_id: effectiveUserId,
-      p_user_role: effectiveRole,
-      p_lead_organiser_id: leadOrganizerId || null,
-      p_filters: Object.keys(filters).some(key => filters[key as keyof typeof filters]) 
-        ? filters 
-        : null
-    })
-
-    if (error) {
+    let summaries: PatchSummaryData[]
+    try {
+      summaries = await fetchPatchSummaries(supabase, {
+        userId: effectiveUserId,
+        userRole: effectiveRole,
+        leadOrganizerId,
+        filters,
+      })
+    } catch (error: any) {
       console.error('Patch summaries API error:', error)
-      const message = error.message || error.toString()
-      if (error.code === '42501') {
+      const message = error?.message || String(error)
+      if (error?.code === '42501') {
         return NextResponse.json({ error: message }, { status: 403 })
       }
-      if (error.code === '22023') {
+      if (error?.code === '22023') {
         return NextResponse.json({ error: message }, { status: 400 })
       }
       return NextResponse.json(
@@ -171,52 +158,6 @@ export async function GET(request: NextRequest) {
       )
     }
     
-    // Transform data to match client interface
-    let summaries: PatchSummaryData[] = (summariesData || []).map((row: any) => ({
-      patchId: row.patch_id,
-      patchName: row.patch_name,
-      organiserNames: row.organiser_names || [],
-      projectCount: row.project_count || 0,
-      ebaProjectsCount: row.eba_projects_count || 0,
-      ebaProjectsPercentage: row.eba_projects_percentage || 0,
-      knownBuilderCount: row.known_builder_count || 0,
-      knownBuilderPercentage: row.known_builder_percentage || 0,
-      keyContractorCoverage: row.key_contractor_coverage || 0,
-      keyContractorEbaPercentage: row.key_contractor_eba_percentage || 0,
-      lastUpdated: row.last_updated || new Date().toISOString()
-    }))
-
-    if (summaries.length > 0) {
-      const patchIdSet = new Set(summaries.map((summary) => summary.patchId))
-      const { data: pendingRows, error: pendingError } = await supabase
-        .from('pending_users')
-        .select('full_name, email, role, status, assigned_patch_ids')
-        .in('status', Array.from(PENDING_USER_DASHBOARD_STATUSES))
-
-      if (pendingError) {
-        console.error('Failed to load pending organisers for summaries:', pendingError)
-      } else if (pendingRows && pendingRows.length > 0) {
-        const pendingByPatch = new Map<string, any[]>()
-        pendingRows.forEach((row: any) => {
-          const assigned: any[] = Array.isArray(row.assigned_patch_ids) ? row.assigned_patch_ids : []
-          assigned.forEach((pidRaw) => {
-            const pid = String(pidRaw)
-            if (!patchIdSet.has(pid)) return
-            if (!pendingByPatch.has(pid)) pendingByPatch.set(pid, [])
-            pendingByPatch.get(pid)!.push(row)
-          })
-        })
-
-        summaries = summaries.map((summary) => {
-          const pendingForPatch = pendingByPatch.get(summary.patchId) || []
-          return {
-            ...summary,
-            organiserNames: mergeOrganiserNameLists(summary.organiserNames, pendingForPatch)
-          }
-        })
-      }
-    }
-    
     // Calculate aggregated metrics
     let aggregatedMetrics = undefined
     if (summaries.length > 0) {
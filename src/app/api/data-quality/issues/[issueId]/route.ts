@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import type { Database } from '@/types/database';
+
+export const dynamic = 'force-dynamic';
+
+const STATUSES = ['open', 'investigating', 'resolved', 'false_positive'];
+const CLOSED_STATUSES = ['resolved', 'false_positive'];
+
+type DataQualityIssueUpdate = Database['public']['Tables']['data_quality_issues']['Update'];
+
+export interface DataQualityIssueRequest {
+  /** Profile to fix the record, or null to unassign. Admin only. */
+  assignedTo?: string | null;
+  status?: string;
+  resolution?: string;
+}
+
+// PATCH - Assign an issue (admins) or update its status (admins and the assignee)
+export async function PATCH(request: NextRequest, { params }: { params: { issueId: string } }) {
+  try {
+    const supabase = await createServerSupabase();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const [{ data: profile }, { data: issue, error: issueError }] = await Promise.all([
+      supabase.from('profiles').select('role').eq('id', user.id).single(),
+      supabase.from('data_quality_issues').select('id, assigned_to').eq('id', params.issueId).maybeSingle(),
+    ]);
+
+    if (issueError) {
+      console.error('Error loading data quality issue:', issueError);
+      return NextResponse.json({ error: 'Failed to load issue' }, { status: 500 });
+    }
+
+    if (!issue) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const isAdmin = profile?.role === 'admin';
+    const body: DataQualityIssueRequest = await request.json().catch(() => ({}));
+
+    if (!isAdmin && (issue.assigned_to !== user.id || body.assignedTo !== undefined)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const now = new Date().toISOString();
+    const update: DataQualityIssueUpdate = {};
+
+    if (body.assignedTo !== undefined) {
+      update.assigned_to = body.assignedTo;
+      update.assigned_by = body.assignedTo ? user.id : null;
+      update.assigned_at = body.assignedTo ? now : null;
+    }
+
+    if (body.status !== undefined) {
+      if (!STATUSES.includes(body.status)) {
+        return NextResponse.json({ error: 'Unknown status' }, { status: 400 });
+      }
+      const closed = CLOSED_STATUSES.includes(body.status);
+      update.status = body.status;
+      update.resolved_at = closed ? now : null;
+      update.resolved_by = closed ? user.id : null;
+      update.resolution = closed ? body.resolution?.trim() || null : null;
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('data_quality_issues')
+      .update(update)
+      .eq('id', params.issueId)
+      .select('id, status, assigned_to, assigned_at, resolved_at')
+      .single();
+
+    if (error) {
+      console.error('Error updating data quality issue:', error);
+      return NextResponse.json({ error: 'Failed to update issue' }, { status: 500 });
+    }
+
+    return NextResponse.json({ issue: data });
+  } catch (error) {
+    console.error('Data quality issue API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
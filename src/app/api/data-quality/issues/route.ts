@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import type { Database } from '@/types/database';
+import { dataQualityRecordLink } from '@/lib/data-integration/monitoring/QualityRuleDefinitions';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+const ACTIVE_STATUSES = ['open', 'investigating'];
+
+type DataQualityIssueRow = Database['public']['Tables']['data_quality_issues']['Row'] & {
+  assignee: { id: string; full_name: string | null; email: string | null } | null;
+};
+
+export interface DataQualityIssueItem {
+  id: string;
+  table: string;
+  recordId: string | null;
+  recordLabel: string | null;
+  link: string | null;
+  field: string | null;
+  ruleId: string | null;
+  ruleName: string;
+  severity: string;
+  description: string;
+  currentValue: unknown;
+  status: string;
+  detectedAt: string | null;
+  assignedTo: { id: string; name: string } | null;
+  assignedAt: string | null;
+}
+
+// GET - Data quality issues. Admins see every issue; others only the fixes assigned to them.
+// Filters: ruleId, status (comma separated, default open,investigating), assigned=me, limit
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabase();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    const searchParams = request.nextUrl.searchParams;
+    const statuses = (searchParams.get('status') ?? ACTIVE_STATUSES.join(','))
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean);
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const ruleId = searchParams.get('ruleId');
+    const onlyMine = profile?.role !== 'admin' || searchParams.get('assigned') === 'me';
+
+    let query = supabase
+      .from('data_quality_issues')
+      .select('*, assignee:profiles!data_quality_issues_assigned_to_fkey(id, full_name, email)')
+      .in('status', statuses)
+      .order('detected_at', { ascending: false })
+      .limit(limit);
+
+    if (onlyMine) query = query.eq('assigned_to', user.id);
+    if (ruleId) query = query.eq('rule_id', ruleId);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error loading data quality issues:', error);
+      return NextResponse.json({ error: 'Failed to load data quality issues' }, { status: 500 });
+    }
+
+    const issues: DataQualityIssueItem[] = ((data ?? []) as unknown as DataQualityIssueRow[]).map((row) => {
+      const context = (row.record_context as { project_id?: string } | null) ?? {};
+      const assignee = row.assignee;
+      return {
+        id: row.id,
+        table: row.table_name,
+        recordId: row.record_id,
+        recordLabel: row.record_label,
+        link: dataQualityRecordLink(row.table_name, row.record_id, {
+          label: row.record_label,
+          projectId: context.project_id,
+        }),
+        field: row.field_name,
+        ruleId: row.rule_id,
+        ruleName: row.rule_name,
+        severity: row.severity,
+        description: row.description,
+        currentValue: row.current_value,
+        status: row.status ?? 'open',
+        detectedAt: row.detected_at,
+        assignedTo: assignee ? { id: assignee.id, name: assignee.full_name || assignee.email || assignee.id } : null,
+        assignedAt: row.assigned_at,
+      };
+    });
+
+    return NextResponse.json({ issues });
+  } catch (error) {
+    console.error('Data quality issues API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
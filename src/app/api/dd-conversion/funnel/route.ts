@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import {
+  buildConversionFunnel,
+  UNASSIGNED_GROUP,
+  type ConversionFunnelCounts,
+  type DdConversionAttemptRow,
+  type FunnelGroupBy,
+} from '@/lib/dd-conversion/funnel';
+
+const ALLOWED_ROLES = ['organiser', 'lead_organiser', 'admin'] as const;
+type AllowedRole = typeof ALLOWED_ROLES[number];
+const ROLE_SET = new Set<AllowedRole>(ALLOWED_ROLES);
+
+const GROUP_BY_OPTIONS: readonly FunnelGroupBy[] = ['organiser', 'patch', 'campaign'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const dynamic = 'force-dynamic';
+
+export interface DdConversionFunnelGroup extends ConversionFunnelCounts {
+  key: string;
+  label: string;
+}
+
+export interface DdConversionFunnelResponse {
+  groupBy: FunnelGroupBy;
+  from: string | null;
+  to: string | null;
+  groups: DdConversionFunnelGroup[];
+  totals: ConversionFunnelCounts;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabase();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (profileError) {
+      console.error('DD conversion funnel API failed to load profile:', profileError);
+      return NextResponse.json({ error: 'Unable to load user profile' }, { status: 500 });
+    }
+
+    const role = profile?.role as AllowedRole | undefined;
+    if (!role || !ROLE_SET.has(role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const groupByParam = searchParams.get('groupBy') ?? 'organiser';
+    if (!(GROUP_BY_OPTIONS as readonly string[]).includes(groupByParam)) {
+      return NextResponse.json(
+        { error: `groupBy must be one of ${GROUP_BY_OPTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const groupBy = groupByParam as FunnelGroupBy;
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return NextResponse.json({ error: 'from and to must be YYYY-MM-DD dates' }, { status: 400 });
+    }
+
+    // Visit dates are timestamps; compare whole days
+    let query = supabase
+      .from('v_dd_conversion_attempts')
+      .select('worker_id, method_code, outcome_code, created_at, organiser_id, patch_ids, campaign_ids');
+
+    if (from) {
+      query = query.gte('visit_date', from);
+    }
+    if (to) {
+      query = query.lt('visit_date', nextDay(to));
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('DD conversion funnel API query error:', error);
+      return NextResponse.json({ error: 'Failed to load conversion attempts' }, { status: 500 });
+    }
+
+    const funnel = buildConversionFunnel((data || []) as DdConversionAttemptRow[], groupBy);
+    const keys = funnel.groups.map((group) => group.key).filter((key) => key !== UNASSIGNED_GROUP);
+    const labels = new Map<string, string>();
+
+    if (keys.length > 0) {
+      const { data: labelRows, error: labelError } =
+        groupBy === 'organiser'
+          ? await supabase.from('profiles').select('id, full_name').in('id', keys)
+          : groupBy === 'patch'
+            ? await supabase.from('patches').select('id, name').in('id', keys)
+            : await supabase.from('campaigns').select('id, name').in('id', keys);
+
+      if (labelError) {
+        console.error('DD conversion funnel API failed to load group names:', labelError);
+        return NextResponse.json({ error: 'Failed to load group names' }, { status: 500 });
+      }
+
+      (labelRows || []).forEach((row: any) => {
+        labels.set(row.id, row.full_name ?? row.name ?? row.id);
+      });
+    }
+
+    const unassignedLabel =
+      groupBy === 'organiser' ? 'No organiser' : groupBy === 'patch' ? 'No patch' : 'No campaign';
+
+    const response: DdConversionFunnelResponse = {
+      groupBy,
+      from,
+      to,
+      groups: funnel.groups.map((group) => ({
+        ...group,
+        label: group.key === UNASSIGNED_GROUP ? unassignedLabel : labels.get(group.key) ?? 'Unknown',
+      })),
+      totals: funnel.totals,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('DD conversion funnel API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+function nextDay(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+}
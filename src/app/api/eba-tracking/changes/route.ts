@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+
+const ALLOWED_ROLES = ['organiser', 'lead_organiser', 'admin'] as const;
+type AllowedRole = typeof ALLOWED_ROLES[number];
+const ROLE_SET = new Set<AllowedRole>(ALLOWED_ROLES);
+
+const CHANGE_TYPES = ['new_agreement', 'agreement_approved', 'agreement_expired', 'expiry_date_changed'] as const;
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+export const dynamic = 'force-dynamic';
+
+export type EbaChangeType = typeof CHANGE_TYPES[number];
+
+export interface EbaAgreementSnapshot {
+  title: string | null;
+  status: string | null;
+  lodgementNumber: string | null;
+  approvedDate: string | null;
+  expiryDate: string | null;
+}
+
+export interface EbaChangeDigestEntry {
+  id: string;
+  employerId: string;
+  employerName: string | null;
+  changeType: EbaChangeType;
+  previous: EbaAgreementSnapshot | null;
+  current: EbaAgreementSnapshot | null;
+  detectedAt: string;
+}
+
+export interface EbaChangeDigestResponse {
+  since: string;
+  days: number;
+  counts: Record<EbaChangeType, number>;
+  changes: EbaChangeDigestEntry[];
+}
+
+interface EbaChangeEventRow {
+  id: string;
+  employer_id: string;
+  change_type: EbaChangeType;
+  previous: EbaAgreementSnapshot | null;
+  current: EbaAgreementSnapshot | null;
+  detected_at: string;
+  employers: { name: string | null } | null;
+}
+
+// GET - Changes detected by FWC re-verification over the last `days` days
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const supabase = await createServerSupabase();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('id, role')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (profileError) {
+      console.error('EBA change digest API failed to load profile:', profileError);
+      return NextResponse.json({ error: 'Unable to load user profile' }, { status: 500 });
+    }
+
+    const role = profile?.role as AllowedRole | undefined;
+    if (!role || !ROLE_SET.has(role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const days = Math.min(Math.max(Number(searchParams.get('days')) || DEFAULT_DAYS, 1), MAX_DAYS);
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    // Counts cover the whole window; the list is capped at `limit` most recent changes
+    const [changesResult, ...countResults] = await Promise.all([
+      supabase
+        .from('eba_change_events')
+        .select('id, employer_id, change_type, previous, current, detected_at, employers(name)')
+        .gte('detected_at', since)
+        .order('detected_at', { ascending: false })
+        .limit(limit),
+      ...CHANGE_TYPES.map((changeType) =>
+        supabase
+          .from('eba_change_events')
+          .select('id', { count: 'exact', head: true })
+          .eq('change_type', changeType)
+          .gte('detected_at', since)
+      ),
+    ]);
+
+    const failed = [changesResult, ...countResults].find((result) => result.error);
+    if (failed?.error) {
+      console.error('EBA change digest API failed to load changes:', failed.error);
+      return NextResponse.json({ error: 'Failed to load EBA changes' }, { status: 500 });
+    }
+
+    const counts = CHANGE_TYPES.reduce((acc, changeType, index) => {
+      acc[changeType] = countResults[index].count ?? 0;
+      return acc;
+    }, {} as Record<EbaChangeType, number>);
+
+    const changes: EbaChangeDigestEntry[] = ((changesResult.data ?? []) as unknown as EbaChangeEventRow[]).map((row) => ({
+      id: row.id,
+      employerId: row.employer_id,
+      employerName: row.employers?.name ?? null,
+      changeType: row.change_type,
+      previous: row.previous,
+      current: row.current,
+      detectedAt: row.detected_at,
+    }));
+
+    const response: EbaChangeDigestResponse = { since, days, counts, changes };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('EBA change digest API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
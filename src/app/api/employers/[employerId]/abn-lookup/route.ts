@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabase } from '@/lib/supabase/server'
+import { isValidAbn } from '@/lib/employers/abn'
+import { applyAbnDetails } from '@/lib/employers/abnEnrichment'
+import { createAbnLookupClient } from '@/lib/employers/abnLookup'
+
+const ALLOWED_ROLES = new Set(['organiser', 'lead_organiser', 'admin'])
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/employers/[employerId]/abn-lookup - Check the employer ABN on the
+// register, record its details and add its trading names as aliases
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: { employerId: string } }
+) {
+  try {
+    const supabase = await createServerSupabase()
+    const { employerId } = params
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (!profile?.role || !ALLOWED_ROLES.has(profile.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { data: employer, error: employerError } = await supabase
+      .from('employers')
+      .select('id, name, abn')
+      .eq('id', employerId)
+      .single()
+
+    if (employerError || !employer) {
+      return NextResponse.json({ error: 'Employer not found' }, { status: 404 })
+    }
+
+    if (!employer.abn || !isValidAbn(employer.abn)) {
+      return NextResponse.json({ error: 'Employer does not have a valid ABN' }, { status: 400 })
+    }
+
+    const client = createAbnLookupClient()
+    const details = await client.lookup(employer.abn)
+    if (!details) {
+      return NextResponse.json(
+        { error: `ABN ${employer.abn} was not found on the register`, provider: client.name },
+        { status: 404 }
+      )
+    }
+
+    const result = await applyAbnDetails(supabase, employer, details, user.id)
+
+    return NextResponse.json({ ...result, provider: client.name })
+  } catch (error) {
+    console.error('ABN lookup error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'ABN lookup failed' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import {
+  PersistedRatingDiff,
+  PersistedRatingSnapshot,
+  RatingSimulator,
+  RatingSimulationError,
+  RatingSimulationOverrides,
+  RatingSimulationResult
+} from '@/lib/rating-engine/core/RatingSimulator';
+import { DEFAULT_CALCULATION_CONFIG, DEFAULT_LOOKBACK_DAYS } from '@/lib/rating-engine/core/DefaultConfig';
+import { SupabaseRatingDataSource } from '@/lib/rating-engine/utils/SupabaseDataSource';
+import { defaultMethodRegistry } from '@/lib/rating-engine/core/CalculationMethodRegistry';
+import type { CalculationContext } from '@/lib/rating-engine/types/CalculationTypes';
+
+// Role-based access control
+const ALLOWED_ROLES = ['organiser', 'lead_organiser', 'admin'] as const;
+type AllowedRole = typeof ALLOWED_ROLES[number];
+const ROLE_SET = new Set<AllowedRole>(ALLOWED_ROLES);
+
+export const dynamic = 'force-dynamic';
+
+// TypeScript types
+export interface RatingSimulationRequest {
+  calculation_date?: string;
+  overrides?: RatingSimulationOverrides;
+}
+
+// `diff` compares against a baseline recalculated from today's inputs; `live_diff` compares
+// against the saved employer_final_ratings row and is null when nothing has been saved
+export interface RatingSimulationResponse extends RatingSimulationResult {
+  live_rating: PersistedRatingSnapshot | null;
+  live_diff: PersistedRatingDiff | null;
+  inputs: {
+    project_assessments: Array<{
+      id: string;
+      assessment_type: string;
+      score: number | null;
+      assessment_date: string;
+    }>;
+    expertise_assessments: Array<{
+      id: string;
+      organiser_id: string;
+      overall_score: number | null;
+      assessment_date: string;
+      expires_date: string | null;
+    }>;
+    eba_record_count: number;
+  };
+}
+
+// POST handler - Simulate a rating with hypothetical overrides (never persisted)
+export async function POST(request: NextRequest, { params }: { params: { employerId: string } }) {
+  try {
+    const { employerId } = params;
+    const supabase = await createServerSupabase();
+
+    // Authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Authorization
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('id, role')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (profileError || !profile) {
+      return NextResponse.json({ error: 'Unable to load user profile' }, { status: 500 });
+    }
+
+    const role = profile.role as AllowedRole;
+    if (!role || !ROLE_SET.has(role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // Parse request body
+    const body: RatingSimulationRequest = await request.json().catch(() => ({}));
+    const overrides = parseOverrides(body.overrides || {}, user.id);
+
+    if (overrides.method && !defaultMethodRegistry.has(overrides.method)) {
+      return NextResponse.json({ error: `Invalid calculation method: ${overrides.method}` }, { status: 400 });
+    }
+
+    const calculationDate = body.calculation_date ? new Date(body.calculation_date) : new Date();
+    if (isNaN(calculationDate.getTime())) {
+      return NextResponse.json({ error: 'Invalid calculation_date' }, { status: 400 });
+    }
+
+    // Validate employer exists
+    const { data: employer, error: employerError } = await supabase
+      .from('employers')
+      .select('id, name')
+      .eq('id', employerId)
+      .single();
+
+    if (employerError || !employer) {
+      return NextResponse.json({ error: 'Employer not found' }, { status: 404 });
+    }
+
+    // Load the live inputs
+    const dataSource = new SupabaseRatingDataSource(supabase);
+    const [configuredMethod, configuredWeights] = await Promise.all([
+      dataSource.loadConfiguredCalculationMethod(),
+      dataSource.loadConfiguredWeights()
+    ]);
+
+    const context: CalculationContext = {
+      employer_id: employerId,
+      calculation_date: calculationDate,
+      lookback_days: DEFAULT_LOOKBACK_DAYS,
+      weights: configuredWeights,
+      method: configuredMethod,
+      force_recalculate: true,
+      debug_mode: false,
+      user_id: user.id
+    };
+
+    const input = await dataSource.loadCalculationInput(context);
+
+    // Run the simulation in memory
+    const simulator = new RatingSimulator(DEFAULT_CALCULATION_CONFIG);
+    const result = await simulator.simulate(input, overrides);
+
+    // Current persisted rating, which the simulation is also diffed against
+    const { data: liveRating } = await supabase
+      .from('employer_final_ratings')
+      .select('final_rating, final_score, overall_confidence, project_based_rating, project_based_score, expertise_based_rating, expertise_based_score, eba_status, rating_date')
+      .eq('employer_id', employerId)
+      .eq('is_active', true)
+      .order('rating_date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const response: RatingSimulationResponse = {
+      ...result,
+      live_rating: (liveRating as PersistedRatingSnapshot | null) ?? null,
+      live_diff: liveRating
+        ? simulator.diffAgainstPersisted(liveRating as PersistedRatingSnapshot, result.simulated)
+        : null,
+      inputs: {
+        project_assessments: input.project_assessments.map(a => ({
+          id: a.id,
+          assessment_type: a.assessment_type,
+          score: a.score,
+          assessment_date: a.assessment_date.toISOString(),
+        })),
+        expertise_assessments: input.expertise_assessments.map(a => ({
+          id: a.id,
+          organiser_id: a.organiser_id,
+          overall_score: a.overall_score,
+          assessment_date: a.assessment_date.toISOString(),
+          expires_date: a.expires_date ? a.expires_date.toISOString() : null,
+        })),
+        eba_record_count: input.eba_records.length,
+      },
+    };
+
+    return NextResponse.json(response, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+
+  } catch (error) {
+    if (error instanceof RatingSimulationError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: 400 });
+    }
+    console.error('Rating simulation API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Helper function to convert JSON date strings in overrides back into Dates
+// Simulated expertise assessments default to the requesting organiser
+function parseOverrides(raw: RatingSimulationOverrides, userId: string): RatingSimulationOverrides {
+  const toDate = (value: unknown) => (value ? new Date(value as string) : undefined);
+
+  return {
+    ...raw,
+    add_project_assessments: raw.add_project_assessments?.map(a => ({
+      ...a,
+      score: Number(a.score),
+      assessment_date: toDate(a.assessment_date),
+    })),
+    add_expertise_assessments: raw.add_expertise_assessments?.map(a => ({
+      ...a,
+      organiser_id: a.organiser_id || userId,
+      overall_score: Number(a.overall_score),
+      assessment_date: toDate(a.assessment_date),
+    })),
+  };
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabase } from '@/lib/supabase/server'
+import { getFieldPermissions, redactFields } from '@/lib/auth/fieldPermissions'
 
 export const dynamic = 'force-dynamic'
 
@@ -48,7 +49,8 @@ export async function GET(
       return NextResponse.json({ error: 'Employer not found' }, { status: 404 })
     }
 
-    return NextResponse.json(data)
+    const fieldPermissions = await getFieldPermissions(supabase, ['employers'])
+    return NextResponse.json(redactFields(data as Record<string, any>, fieldPermissions, 'employers'))
   } catch (error: any) {
     console.error('[employers-api] Unexpected error:', error)
     return NextResponse.json(
@@ -4,6 +4,7 @@ import type { Database } from '@/types/database';
 import { withRateLimit } from '@/lib/rateLimit';
 import { parseBooleanParam } from '@/lib/api/paramUtils';
 import { getEmployersByPatches } from '@/lib/employers/patchFiltering';
+import { getFieldPermissions, redactRecords } from '@/lib/auth/fieldPermissions';
 
 // Helper function to escape ILIKE special characters (%, _, \)
 function escapeLikePattern(str: string): string {
@@ -351,6 +352,8 @@ async function getEmployersHandler(request: NextRequest) {
     if (!role || !ROLE_SET.has(role)) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
+
+    const fieldPermissions = await getFieldPermissions(supabase, ['employers']);
     
     // Parse parameters with exact same defaults as client-side
     const page = parseInt(searchParams.get('page') || '1');
@@ -942,7 +945,7 @@ async function getEmployersHandler(request: NextRequest) {
     const queryTime = Date.now() - startTime;
 
     const response: EmployersResponse = {
-      employers,
+      employers: redactRecords(employers, fieldPermissions, 'employers'),
       pagination: paginationMeta,
       debug: {
         queryTime,
@@ -967,10 +970,10 @@ async function getEmployersHandler(request: NextRequest) {
       }
     };
 
-    // Add cache headers for CDN/browser caching
+    // Browser-only caching: the response is redacted per user
     // Reduce cache time to help with new employer visibility
     const headers = {
-      'Cache-Control': 'public, s-maxage=30, stale-while-revalidate=60', // 30sec cache, 1min stale
+      'Cache-Control': 'private, max-age=30, stale-while-revalidate=60', // 30sec cache, 1min stale
       'Content-Type': 'application/json',
       'X-Employer-Count': employers.length.toString(),
       'X-Total-Rows-Processed': (data?.length || 0).toString()
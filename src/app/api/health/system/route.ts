@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase } from '@/lib/supabase/server';
+import { checkSchemaDrift } from '@/lib/data-integration/schema/SchemaDrift';
+import type { SchemaDrift } from '@/lib/data-integration/types/SchemaTypes';
 
 export const dynamic = 'force-dynamic';
 
@@ -23,6 +25,12 @@ interface SystemHealthMetrics {
     responseTime?: number;
     error?: string;
   };
+  schema: {
+    status: 'ok' | 'drift' | 'error';
+    checkedAt: string;
+    drift: SchemaDrift[];
+    error?: string;
+  };
   environment: {
     nodeEnv: string;
     nextjsVersion: string;
@@ -73,6 +81,11 @@ export async function GET(request: NextRequest) {
       workers: {
         status: 'disabled',
       },
+      schema: {
+        status: 'ok',
+        checkedAt: new Date().toISOString(),
+        drift: [],
+      },
       environment: {
         nodeEnv: process.env.NODE_ENV || 'unknown',
         nextjsVersion: process.env.npm_package_version || 'unknown',
@@ -199,10 +212,13 @@ export async function GET(request: NextRequest) {
       };
     }
 
+    // Check data integration tables, functions and triggers against the schema registry
+    metrics.schema = await checkSchemaDrift(supabase);
+
     // Calculate overall system status
     const overallStatus = 
       metrics.database.status === 'error' || metrics.api.status === 'error' ? 'error' :
-      metrics.database.status === 'unhealthy' || metrics.api.status === 'unhealthy' || metrics.workers.status === 'unhealthy' ? 'unhealthy' :
+      metrics.database.status === 'unhealthy' || metrics.api.status === 'unhealthy' || metrics.workers.status === 'unhealthy' || metrics.schema.status !== 'ok' ? 'unhealthy' :
       'healthy';
 
     const totalResponseTime = Date.now() - startTime;
@@ -1,13 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
-import Anthropic from '@anthropic-ai/sdk'
 import { createServerSupabase } from '@/lib/supabase/server'
+import { getSectionsForRoute } from '@/lib/helpGuide'
+import { createHelpGenerator, createHelpRetriever } from '@/lib/help/factory'
+import { createHelpToolRunner, HELP_TOOLS, HELP_TOOL_ROLES, type HelpToolContext } from '@/lib/help/tools'
+import type { HelpPassage } from '@/lib/help/types'
 
 export const dynamic = 'force-dynamic'
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY!,
-})
-
 interface HelpContext {
   page: string
   role?: string
@@ -75,14 +74,30 @@ export async function POST(request: NextRequest) {
     const userRole = context.role || profile?.role || 'viewer'
 const isMobile = context.isMobile || false
 
-    // 4. Search for relevant documents using enhanced help system
-    const { searchGuide, getSectionsForRoute } = await import('@/lib/helpGuide')
+    // 4. Search for relevant documents using the configured retriever
+    const retriever = createHelpRetriever(supabase as any)
+    const generator = createHelpGenerator()
+
+    // Data lookups are offered to the roles the underlying data routes allow,
+    // using the profile role rather than the client-supplied context
+    const toolRunner = generator.supportsTools && profile?.role && HELP_TOOL_ROLES.has(profile.role)
+      ? createHelpToolRunner({
+          supabase,
+          userId: user.id,
+          role: profile.role as HelpToolContext['role'],
+        })
+      : null
 
     // Get route-specific sections first
-    const routeSections = getSectionsForRoute(context.page, userRole, isMobile)
+    const routeSections: HelpPassage[] = getSectionsForRoute(context.page, userRole, isMobile)
+      .map((section) => ({ ...section, score: 1 }))
 
     // Then search for additional relevant content
-    const searchResults = searchGuide(message, userRole, isMobile, context.documentType)
+    const searchResults = await retriever.retrieve(message, {
+      role: userRole,
+      isMobile,
+      documentType: context.documentType,
+    })
 
     // Combine and deduplicate results
     const allSections = [...routeSections, ...searchResults]
@@ -104,8 +119,8 @@ const isMobile = context.isMobile || false
     else if (hasRouteMatch || hasSearchMatch) confidence = 0.6
     else confidence = 0.3
 
-    // 6. If confidence too low, return fallback
-    if (confidence < 0.5) {
+    // 6. If confidence too low and the question can't be answered from data, return fallback
+    if (confidence < 0.5 && !toolRunner) {
       const fallbackAnswer = "I don't have enough information to answer that question accurately. Please refer to the user guide at /guide or contact support for assistance."
 
       // Log low-confidence interaction via RPC
@@ -116,7 +131,7 @@ const isMobile = context.isMobile || false
         p_confidence: confidence,
         p_context: context as any,
         p_sources: [],
-        p_ai_provider: 'claude',
+        p_ai_provider: generator.provider,
         p_tokens_used: null,
         p_response_time_ms: Date.now() - startTime,
       })
@@ -188,10 +203,16 @@ Current User Context:
 Available Documentation:
 ${documentContext}
 
-Remember: Only answer based on the documentation above. If you're not sure, say you don't have that information.`
+Remember: Only answer based on the documentation above. If you're not sure, say you don't have that information.${toolRunner ? `
+
+Live Data Tools:
+For questions about specific projects, employers, EBA status, patches or ratings, use the tools provided instead of the documentation. These rules override rules 1-3 for data questions:
+- Only state facts and figures the tools returned; if a tool returns nothing, say no matching records were found
+- The tools only return records this user is allowed to see, so never speculate about anything else
+- Cite every record you mention as a markdown link using the "link" value the tool returned, e.g. [Project name](/projects/123)` : ''}`
 
     // 10. Build conversation messages
-    const messages: Anthropic.MessageParam[] = [
+    const messages = [
       // Include recent conversation history (last 3 turns)
       ...conversationHistory.slice(-6).map((msg) => ({
         role: msg.role as 'user' | 'assistant',
@@ -204,23 +225,40 @@ Remember: Only answer based on the documentation above. If you're not sure, say
       },
     ]
 
-    // 11. Call Claude API with timeout
-    const claudeResponse = await Promise.race([
-      anthropic.messages.create({
-        model: "claude-sonnet-4-5-20250929",
-        max_tokens: 800, // Reduced from 1024 for faster responses
-        temperature: 0.1, // Low temperature for factual, consistent responses
+    // 11. Generate the answer
+    let generation: Awaited<ReturnType<typeof generator.generate>>
+    try {
+      generation = await generator.generate({
         system: systemPrompt,
-        messages: messages,
-      }),
-      new Promise((_, reject) =>
-        setTimeout(() => reject(new Error('Claude API timeout after 30s')), 30000)
-      )
-    ]) as Anthropic.Message
+        messages,
+        passages: uniqueSections,
+        maxTokens: 800, // Reduced from 1024 for faster responses
+        temperature: 0.1, // Low temperature for factual, consistent responses
+        ...(toolRunner ? { tools: HELP_TOOLS, runTool: toolRunner.run } : {}),
+      })
+    } catch (error) {
+      // Tool calls made before the failure still need an audit record
+      if (toolRunner && toolRunner.invocations.length > 0) {
+        await supabase.rpc('log_help_interaction', {
+          p_user_id: user.id,
+          p_question: message,
+          p_answer: `[failed] ${error instanceof Error ? error.message : 'Unknown error'}`,
+          p_confidence: 0,
+          p_context: context as any,
+          p_sources: [],
+          p_ai_provider: generator.provider,
+          p_tokens_used: null,
+          p_response_time_ms: Date.now() - startTime,
+          p_tool_calls: toolRunner.invocations as any,
+        })
+      }
+      throw error
+    }
+    const { text: answer, tokensUsed } = generation
 
-    const answer = claudeResponse.content[0].type === 'text' 
-      ? claudeResponse.content[0].text 
-      : 'Unable to generate response'
+    // Records the tools returned, shown as deep links under the answer
+    const records = toolRunner?.records() ?? []
+    if (records.length > 0) confidence = Math.max(confidence, 0.8)
 
     // 11. Build enhanced sources with metadata
     const sources: Source[] = uniqueSections.map((section) => ({
@@ -239,16 +277,17 @@ Remember: Only answer based on the documentation above. If you're not sure, say
     const suggestedActions = extractSuggestedActions(context, uniqueSections)
 
     // 14. Log interaction via RPC
-    await supabase.rpc('log_help_interaction', {
+    const { data: logged } = await supabase.rpc('log_help_interaction', {
       p_user_id: user.id,
       p_question: message,
       p_answer: answer,
       p_confidence: confidence,
       p_context: context as any,
       p_sources: sources as any,
-      p_ai_provider: 'claude',
-      p_tokens_used: claudeResponse.usage.input_tokens + claudeResponse.usage.output_tokens,
+      p_ai_provider: generator.provider,
+      p_tokens_used: tokensUsed,
       p_response_time_ms: Date.now() - startTime,
+      p_tool_calls: (toolRunner?.invocations ?? []) as any,
     })
 
     // 15. Return response
@@ -256,7 +295,9 @@ Remember: Only answer based on the documentation above. If you're not sure, say
       answer,
       confidence,
       sources,
+      records,
       suggestedActions,
+      interactionId: (logged as any)?.id,
       responseTime: Date.now() - startTime,
     })
 
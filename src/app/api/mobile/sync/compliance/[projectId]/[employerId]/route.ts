@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import { readComplianceFields } from '@/lib/mobile/conflicts';
+
+const ALLOWED_ROLES = ['organiser', 'lead_organiser', 'admin'] as const;
+type AllowedRole = typeof ALLOWED_ROLES[number];
+const ROLE_SET = new Set<AllowedRole>(ALLOWED_ROLES);
+
+export const dynamic = 'force-dynamic';
+
+export interface OfflineComplianceCheckPayload {
+  /** Current check the edit started from; null when there was none */
+  base_check_id: string | null;
+  [field: string]: unknown;
+}
+
+/**
+ * Applies an employer compliance edit captured offline as a new current check.
+ * Each change inserts a new check, so a current check other than the one the
+ * edit started from means someone else changed it: 409 with that check, unless
+ * X-Force-Update.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { projectId: string; employerId: string } }
+) {
+  try {
+    const supabase = await createServerSupabase();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('id, role')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (profileError) {
+      console.error('Compliance sync failed to load profile:', profileError);
+      return NextResponse.json({ error: 'Unable to load user profile' }, { status: 500 });
+    }
+
+    const role = profile?.role as AllowedRole | undefined;
+    if (!role || !ROLE_SET.has(role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = (await request.json().catch(() => null)) as OfflineComplianceCheckPayload | null;
+    if (!body) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const { projectId, employerId } = params;
+
+    const { data: current, error: currentError } = await supabase
+      .from('employer_compliance_checks')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('employer_id', employerId)
+      .eq('is_current', true)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (currentError) {
+      console.error('Compliance sync failed to load current check:', currentError);
+      return NextResponse.json({ error: 'Failed to load compliance check' }, { status: 500 });
+    }
+
+    const force = request.headers.get('X-Force-Update') === 'true';
+    if (!force && (current?.id ?? null) !== (body.base_check_id ?? null)) {
+      return NextResponse.json(current ?? { id: null }, { status: 409 });
+    }
+
+    // Carry the current check forward so a partial edit doesn't clear other fields
+    const { data: inserted, error: insertError } = await (supabase as any)
+      .from('employer_compliance_checks')
+      .insert({
+        ...readComplianceFields(current),
+        ...readComplianceFields(body),
+        project_id: projectId,
+        employer_id: employerId,
+        updated_by: user.id,
+        is_current: true,
+      })
+      .select('id')
+      .single();
+
+    if (insertError) {
+      console.error('Compliance sync failed to save check:', insertError);
+      return NextResponse.json({ error: 'Failed to save compliance check' }, { status: 500 });
+    }
+
+    return NextResponse.json({ id: inserted.id });
+  } catch (error) {
+    console.error('Compliance sync error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
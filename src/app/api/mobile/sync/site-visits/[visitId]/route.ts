@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+
+const ALLOWED_ROLES = ['organiser', 'lead_organiser', 'admin'] as const;
+type AllowedRole = typeof ALLOWED_ROLES[number];
+const ROLE_SET = new Set<AllowedRole>(ALLOWED_ROLES);
+
+// Fields an offline edit may change on an existing visit
+const UPDATABLE_FIELDS = ['date', 'notes', 'actions_taken', 'visit_status'] as const;
+
+export const dynamic = 'force-dynamic';
+
+export interface OfflineSiteVisitPayload {
+  date: string;
+  project_id: string;
+  job_site_id: string;
+  employer_ids?: string[];
+  notes?: string | null;
+  actions_taken?: string | null;
+  visit_status?: 'draft' | 'completed';
+  reasons?: Array<{ reason_definition_id: string; notes: string | null }>;
+  /** Version of the visit the edit started from; absent for visits created offline */
+  row_version?: number | null;
+}
+
+export interface OfflineSiteVisitSyncResponse {
+  id: string;
+  row_version: number;
+}
+
+/**
+ * Upserts a site visit captured offline under its client-generated id.
+ *
+ * - Unknown id: the visit is created (one row per employer, the first keeping the id).
+ * - Known id without row_version: a replayed create that already landed.
+ * - Known id with a stale row_version: 409 with the server copy, unless X-Force-Update.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { visitId: string } }
+) {
+  try {
+    const supabase = await createServerSupabase();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('id, role')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (profileError) {
+      console.error('Site visit sync failed to load profile:', profileError);
+      return NextResponse.json({ error: 'Unable to load user profile' }, { status: 500 });
+    }
+
+    const role = profile?.role as AllowedRole | undefined;
+    if (!role || !ROLE_SET.has(role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const visitId = params.visitId;
+    const body = (await request.json().catch(() => null)) as OfflineSiteVisitPayload | null;
+    if (!body) {
+      return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+    }
+
+    const { data: existing, error: existingError } = await (supabase as any)
+      .from('site_visit')
+      .select('id, date, notes, actions_taken, visit_status, row_version')
+      .eq('id', visitId)
+      .maybeSingle();
+
+    if (existingError) {
+      console.error('Site visit sync failed to load visit:', existingError);
+      return NextResponse.json({ error: 'Failed to load site visit' }, { status: 500 });
+    }
+
+    const now = new Date().toISOString();
+
+    if (!existing) {
+      if (!body.date || !body.project_id || !body.job_site_id) {
+        return NextResponse.json({ error: 'date, project_id and job_site_id are required' }, { status: 400 });
+      }
+
+      const visitRow = {
+        date: body.date,
+        organiser_id: user.id,
+        project_id: body.project_id,
+        job_site_id: body.job_site_id,
+        notes: body.notes ?? null,
+        actions_taken: body.actions_taken ?? null,
+        visit_status: body.visit_status ?? 'completed',
+        offline_created: true,
+        synced_at: now,
+        created_by: user.id,
+        updated_by: user.id,
+      };
+      const employerIds = body.employer_ids?.length ? body.employer_ids : [null];
+      const rows = employerIds.map((employerId, index) => ({
+        ...visitRow,
+        ...(index === 0 ? { id: visitId } : {}),
+        employer_id: employerId,
+      }));
+
+      const { error: insertError } = await (supabase as any).from('site_visit').insert(rows);
+
+      if (insertError) {
+        // Another attempt of the same create got there first
+        if (insertError.code === '23505') {
+          return NextResponse.json<OfflineSiteVisitSyncResponse>({ id: visitId, row_version: 1 });
+        }
+        console.error('Site visit sync failed to create visit:', insertError);
+        return NextResponse.json({ error: 'Failed to create site visit' }, { status: 500 });
+      }
+
+      if (body.reasons?.length) {
+        const { error: reasonError } = await (supabase as any).from('site_visit_reasons').insert(
+          body.reasons.map((reason) => ({
+            visit_id: visitId,
+            reason_definition_id: reason.reason_definition_id,
+            notes: reason.notes,
+          }))
+        );
+        if (reasonError) {
+          console.error('Site visit sync failed to save visit reasons:', reasonError);
+        }
+      }
+
+      return NextResponse.json<OfflineSiteVisitSyncResponse>({ id: visitId, row_version: 1 }, { status: 201 });
+    }
+
+    if (body.row_version == null) {
+      return NextResponse.json<OfflineSiteVisitSyncResponse>({ id: visitId, row_version: existing.row_version });
+    }
+
+    const force = request.headers.get('X-Force-Update') === 'true';
+    if (!force && body.row_version !== existing.row_version) {
+      return NextResponse.json(existing, { status: 409 });
+    }
+
+    const patch: Record<string, unknown> = { updated_by: user.id, synced_at: now };
+    for (const field of UPDATABLE_FIELDS) {
+      if (body[field] !== undefined) patch[field] = body[field];
+    }
+
+    const { data: updated, error: updateError } = await (supabase as any)
+      .from('site_visit')
+      .update(patch)
+      .eq('id', visitId)
+      .select('id, row_version')
+      .single();
+
+    if (updateError) {
+      console.error('Site visit sync failed to update visit:', updateError);
+      return NextResponse.json({ error: 'Failed to update site visit' }, { status: 500 });
+    }
+
+    return NextResponse.json<OfflineSiteVisitSyncResponse>(updated);
+  } catch (error) {
+    console.error('Site visit sync error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServerSupabase } from "@/lib/supabase/server"
+import { fetchMappingSheetPrintData, type MappingSheetPrintData } from "@/lib/mappingSheetData"
+import { generateMappingSheetPdf, mappingSheetFileName, mappingSheetScanUrl } from "@/lib/pdf/mappingSheetPdf"
+import { getBaseUrl } from "@/lib/share-links"
+
+export const dynamic = "force-dynamic"
+export const maxDuration = 60
+
+const ALLOWED_ROLES = new Set(["organiser", "lead_organiser", "admin"])
+
+// Keeps a single request within the function time limit
+const MAX_PROJECTS = 150
+
+/**
+ * GET /api/patches/[patchId]/mapping-sheets-pdf
+ *
+ * One PDF with a pre-filled MappingSheets form for every project currently
+ * in the patch, ordered by project name
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { patchId: string } }
+) {
+  const supabase = await createServerSupabase()
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .maybeSingle()
+
+  if (!profile || !ALLOWED_ROLES.has(profile.role)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+  }
+
+  try {
+    const { data: patch } = await supabase
+      .from("patches")
+      .select("id, name")
+      .eq("id", params.patchId)
+      .maybeSingle()
+
+    if (!patch) {
+      return NextResponse.json({ error: "Patch not found" }, { status: 404 })
+    }
+
+    const { data: links, error: linksError } = await (supabase as any)
+      .from("v_patch_projects_current")
+      .select("project_id")
+      .eq("patch_id", params.patchId)
+
+    if (linksError) throw linksError
+
+    const projectIds = Array.from(new Set<string>((links || []).map((link: any) => String(link.project_id))))
+    if (projectIds.length === 0) {
+      return NextResponse.json({ error: "No projects in this patch" }, { status: 404 })
+    }
+    if (projectIds.length > MAX_PROJECTS) {
+      return NextResponse.json(
+        { error: `Patch has ${projectIds.length} projects; at most ${MAX_PROJECTS} can be printed at once` },
+        { status: 400 }
+      )
+    }
+
+    const sheets: MappingSheetPrintData[] = []
+    for (const projectId of projectIds) {
+      try {
+        sheets.push(await fetchMappingSheetPrintData(supabase, projectId))
+      } catch (error) {
+        // Projects the user can't read are left out rather than failing the batch
+        console.warn(`Skipping project ${projectId} in patch mapping sheets:`, error)
+      }
+    }
+    if (sheets.length === 0) {
+      return NextResponse.json({ error: "No projects in this patch" }, { status: 404 })
+    }
+    sheets.sort((a, b) => a.project.name.localeCompare(b.project.name))
+
+    const baseUrl = getBaseUrl()
+    const pdf = await generateMappingSheetPdf(
+      sheets.map((data) => ({ data, scanUrl: mappingSheetScanUrl(baseUrl, data.project.id) }))
+    )
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${mappingSheetFileName(patch.name)}"`,
+        "Cache-Control": "no-store",
+        "X-Project-Count": String(sheets.length),
+      },
+    })
+  } catch (error) {
+    console.error("Failed to generate patch mapping sheets PDF:", error)
+    return NextResponse.json({ error: "Failed to generate mapping sheets PDF" }, { status: 500 })
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createServerSupabase } from "@/lib/supabase/server"
+import { fetchMappingSheetPrintData } from "@/lib/mappingSheetData"
+import { generateMappingSheetPdf, mappingSheetFileName, mappingSheetScanUrl } from "@/lib/pdf/mappingSheetPdf"
+import { getBaseUrl } from "@/lib/share-links"
+
+export const dynamic = "force-dynamic"
+
+const ALLOWED_ROLES = new Set(["organiser", "lead_organiser", "admin"])
+
+/**
+ * GET /api/projects/[projectId]/mapping-sheet-pdf
+ *
+ * Pre-filled two-page MappingSheets PDF for a project, for printing and
+ * taking to site
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  const supabase = await createServerSupabase()
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .maybeSingle()
+
+  if (!profile || !ALLOWED_ROLES.has(profile.role)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+  }
+
+  try {
+    const data = await fetchMappingSheetPrintData(supabase, params.projectId)
+    const pdf = await generateMappingSheetPdf([
+      { data, scanUrl: mappingSheetScanUrl(getBaseUrl(), params.projectId) },
+    ])
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${mappingSheetFileName(data.project.name)}"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    if (error instanceof Error && error.message === "Project not found") {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 })
+    }
+    console.error("Failed to generate mapping sheet PDF:", error)
+    return NextResponse.json({ error: "Failed to generate mapping sheet PDF" }, { status: 500 })
+  }
+}
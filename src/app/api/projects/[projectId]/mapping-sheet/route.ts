@@ -75,7 +75,7 @@ async function ensureUserAccess(projectId: string) {
   const { data: project, error: projectError } = await supabase
     .from("projects")
     .select(
-      "id, name, value, tier, proposed_start_date, proposed_finish_date, roe_email, project_type, state_funding, federal_funding, main_job_site_id"
+      "id, name, value, tier, proposed_start_date, proposed_finish_date, roe_email, project_type, state_funding, federal_funding, main_job_site_id, row_version"
     )
     .eq("id", projectId)
     .maybeSingle()
@@ -184,16 +184,7 @@ export async function POST(
 
   try {
     const submission: MappingSheetSubmission = await request.json()
-
-    await handleProjectUpdates(supabase, projectId, submission.projectUpdates)
-    await handleAddressUpdate(supabase, project.main_job_site_id, submission.addressUpdate)
-    await handleSiteContacts(
-      supabase,
-      project.main_job_site_id,
-      submission.siteContactUpdates || []
-    )
-    await handleContractorRoles(supabase, projectId, submission.contractorRoleUpdates || [])
-    await handleTradeContractors(supabase, projectId, submission.tradeContractorUpdates || [])
+    await applySubmission(supabase, projectId, project.main_job_site_id, submission)
 
     return NextResponse.json({ success: true })
   } catch (error) {
@@ -205,6 +196,71 @@ export async function POST(
   }
 }
 
+/**
+ * Replays an edit captured offline. The submission carries the project
+ * row_version it was based on; if the project has changed since, the current
+ * project fields come back as a 409 for field-by-field review on the device.
+ * X-Force-Update skips the check.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { projectId: string } }
+) {
+  const projectId = params.projectId
+  const access = await ensureUserAccess(projectId)
+  if ("error" in access) return access.error
+
+  const { supabase, project, address } = access
+
+  try {
+    const submission: MappingSheetSubmission & { row_version?: number } = await request.json()
+    const force = request.headers.get("X-Force-Update") === "true"
+
+    if (!force && submission.row_version !== project.row_version) {
+      return NextResponse.json(
+        {
+          row_version: project.row_version,
+          projectUpdates: {
+            name: project.name,
+            value: project.value,
+            proposed_start_date: project.proposed_start_date,
+            proposed_finish_date: project.proposed_finish_date,
+            project_type: project.project_type,
+            state_funding: project.state_funding,
+            federal_funding: project.federal_funding,
+            roe_email: project.roe_email,
+          },
+          addressUpdate: address,
+        },
+        { status: 409 }
+      )
+    }
+
+    await applySubmission(supabase, projectId, project.main_job_site_id, submission)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Failed to sync offline mapping sheet edit:", error)
+    return NextResponse.json(
+      { error: "Failed to sync mapping sheet edit" },
+      { status: 500 }
+    )
+  }
+}
+
+async function applySubmission(
+  supabase: Awaited<ReturnType<typeof createServerSupabase>>,
+  projectId: string,
+  mainJobSiteId: string | null,
+  submission: MappingSheetSubmission
+) {
+  await handleProjectUpdates(supabase, projectId, submission.projectUpdates)
+  await handleAddressUpdate(supabase, mainJobSiteId, submission.addressUpdate)
+  await handleSiteContacts(supabase, mainJobSiteId, submission.siteContactUpdates || [])
+  await handleContractorRoles(supabase, projectId, submission.contractorRoleUpdates || [])
+  await handleTradeContractors(supabase, projectId, submission.tradeContractorUpdates || [])
+}
+
 async function handleProjectUpdates(
   supabase: Awaited<ReturnType<typeof createServerSupabase>>,
   projectId: string,
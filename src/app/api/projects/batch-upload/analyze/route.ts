@@ -4,6 +4,13 @@ import { createServerSupabase } from '@/lib/supabase/server'
 export const dynamic = 'force-dynamic'
 import Anthropic from '@anthropic-ai/sdk'
 import { validatePdfSignature } from '@/lib/validation/fileSignature'
+import {
+  detectProjectBoundaries,
+  LAYOUT_CONFIDENCE_THRESHOLD,
+  type BoundaryAnalysis,
+  type BoundaryDetectionResult,
+} from '@/lib/pdf/boundaryDetection'
+import { extractPdfPageTexts } from '@/lib/pdf/pageText'
 
 const ANALYSIS_SYSTEM_PROMPT = `You are an expert at analyzing CFMEU NSW MappingSheets forms. These are standardized construction project forms.
 
@@ -101,24 +108,27 @@ Rules:
 - projectAddress must be extracted text from the document, or null if not found
 - If no name found, use exactly "Unnamed Project" (this helps distinguish from placeholder names)`
 
-interface AnalysisResult {
-  projects: Array<{
-    startPage: number
-    endPage: number
-    projectName: string
-    projectAddress?: string | null
-    confidence: number
-    reasoning?: string
-  }>
-  totalPages: number
-  detectionMethod: string
-  notes?: string[]
+async function detectFromLayout(buffer: Buffer): Promise<BoundaryDetectionResult> {
+  try {
+    return detectProjectBoundaries(await extractPdfPageTexts(new Uint8Array(buffer)))
+  } catch (error) {
+    console.warn('[analyze] Could not read PDF text layer:', error)
+    return {
+      projects: [],
+      totalPages: 0,
+      detectionMethod: 'layout_anchors',
+      confidence: 0,
+      notes: ['PDF text layer could not be read'],
+    }
+  }
 }
 
 /**
  * POST /api/projects/batch-upload/analyze
  *
- * Analyzes a PDF to detect project boundaries and extract project names using Claude AI
+ * Detects project boundaries and names in a batch PDF. The MappingSheets form
+ * layout is matched first; the PDF is only sent to Claude when that match is
+ * low confidence and the `allowAi` form field isn't "false".
  */
 export async function POST(request: NextRequest) {
   try {
@@ -165,8 +175,38 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Initialize Anthropic client
+    const allowAi = formData.get('allowAi') !== 'false'
+
+    // Layout detection first: free, deterministic and works offline
+    const layoutStart = Date.now()
+    const layout = await detectFromLayout(buffer)
+    const layoutMetadata = {
+      processingTimeMs: Date.now() - layoutStart,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: 0,
+      model: null,
+      layoutConfidence: layout.confidence,
+    }
+    console.log(`[analyze] Layout detection: ${layout.projects.length} projects, confidence ${layout.confidence}`)
+
     const anthropicApiKey = process.env.ANTHROPIC_API_KEY
+    const layoutUsable = layout.projects.length > 0
+    if (layoutUsable && (layout.confidence >= LAYOUT_CONFIDENCE_THRESHOLD || !allowAi || !anthropicApiKey)) {
+      if (layout.confidence < LAYOUT_CONFIDENCE_THRESHOLD) {
+        layout.notes.push(allowAi ? 'AI analysis unavailable; review boundaries carefully' : 'Low confidence layout match; review boundaries carefully')
+      }
+      return NextResponse.json({ success: true, analysis: layout, metadata: layoutMetadata })
+    }
+
+    if (!allowAi) {
+      return NextResponse.json(
+        { error: 'Could not detect project boundaries from the form layout', details: layout.notes.join('. ') },
+        { status: 422 }
+      )
+    }
+
+    // Fall back to Claude
     if (!anthropicApiKey) {
       console.error('ANTHROPIC_API_KEY not configured')
       return NextResponse.json(
@@ -233,7 +273,7 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    let analysis: AnalysisResult
+    let analysis: BoundaryAnalysis
     try {
       analysis = JSON.parse(jsonText)
       console.log('[analyze] Parsed analysis:', JSON.stringify(analysis, null, 2))
@@ -284,6 +324,7 @@ export async function POST(request: NextRequest) {
         outputTokens,
         costUsd: parseFloat(costUsd.toFixed(4)),
         model: 'claude-sonnet-4-5-20250929',
+        layoutConfidence: layout.confidence,
       },
     })
   } catch (error) {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabase } from '@/lib/supabase/server'
 import { generateBatchIdempotencyKey, generateJobIdempotencyKey, isUniqueViolationError } from '@/lib/idempotency'
+import { measureBoundaryAccuracy } from '@/lib/pdf/boundaryDetection'
 
 export const dynamic = 'force-dynamic'
 
@@ -21,6 +22,8 @@ export async function POST(request: NextRequest) {
       totalPages,
       projectDefinitions,
       uploadedScans,  // Array of { fileUrl, fileName, fileSize, pageCount, definition }
+      boundaryDetection,  // { method, confidence, projects: [{ startPage, endPage }] } when boundaries were detected
+      confirmedBoundaries,  // Every reviewed page range, including skipped ones
     } = body
 
     if (!batchId || !projectDefinitions || !uploadedScans) {
@@ -125,6 +128,29 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Record how well the suggested boundaries matched what the uploader confirmed
+    if (boundaryDetection && Array.isArray(boundaryDetection.projects)) {
+      const accuracy = measureBoundaryAccuracy(
+        boundaryDetection.projects,
+        Array.isArray(confirmedBoundaries) ? confirmedBoundaries : projectDefinitions
+      )
+      const { error: accuracyError } = await supabase
+        .from('batch_uploads')
+        .update({
+          boundary_detection_method: boundaryDetection.method,
+          boundary_detection_confidence: boundaryDetection.confidence ?? null,
+          boundary_detected_count: accuracy.detectedCount,
+          boundary_matched_count: accuracy.matchedCount,
+          boundary_accuracy: accuracy.accuracy,
+        })
+        .eq('id', result.batchId)
+
+      if (accuracyError) {
+        // Not worth failing the upload over
+        console.warn('Failed to record boundary detection accuracy:', accuracyError)
+      }
+    }
+
     // Enqueue worker jobs for each scan with full context
     const scanIds = result.scanIds as string[]
 
@@ -11,6 +11,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase } from '@/lib/supabase/server';
 import type { Database } from '@/types/database';
 import { TRADE_OPTIONS, TRADE_STAGE_MAPPING } from '@/constants/trades';
+import {
+  blockedWritesMessage,
+  findBlockedWrites,
+  getFieldPermissions,
+  lockedFields,
+  readOnlyFieldKeys,
+  redactFields,
+  redactRecords,
+  type FieldEntityType,
+} from '@/lib/auth/fieldPermissions';
 
 export const dynamic = 'force-dynamic'
 
@@ -30,6 +40,7 @@ export interface PublicFormData {
   keyTrades?: Array<{ trade_type: string; label: string; stage: string }>;
   expiresAt: string;
   allowedActions: string[];
+  readOnlyFields?: string[];
 }
 
 export interface PublicFormSubmission {
@@ -40,6 +51,10 @@ export interface PublicFormSubmission {
   tradeContractorUpdates?: any[];
 }
 
+// Entities whose fields the mapping sheet form shows, checked against the
+// 'public_form' field permissions
+const PUBLIC_FORM_ENTITIES: FieldEntityType[] = ['projects', 'site_contacts', 'employers'];
+
 const redactToken = (token: string) => {
   if (!token) return "unknown";
   if (token.length <= 8) return token;
@@ -122,6 +137,8 @@ export async function GET(
     const { data: refData } = await supabase
       .rpc('get_public_form_reference_data', { p_token: token });
 
+    const fieldPermissions = await getFieldPermissions(supabase, PUBLIC_FORM_ENTITIES, { publicForm: true });
+
     // Fetch key trades from database
     const { data: keyTradesData, error: keyTradesError } = await supabase
       .from('key_contractor_trades')
@@ -144,11 +161,14 @@ export async function GET(
     // Assemble complete response
     const formData: PublicFormData = {
       ...baseData,
+      project: baseData.project && redactFields(baseData.project, fieldPermissions, 'projects'),
+      siteContacts: redactRecords(baseData.siteContacts || [], fieldPermissions, 'site_contacts'),
+      readOnlyFields: readOnlyFieldKeys(fieldPermissions, PUBLIC_FORM_ENTITIES),
       mappingSheetData: {
         contractorRoles: contractorRoles || [],
         tradeContractors: tradeContractors || [],
       },
-      employers: refData?.employers || [],
+      employers: redactRecords(refData?.employers || [], fieldPermissions, 'employers'),
       contractorRoleTypes: refData?.contractorRoleTypes || [],
       keyTrades: keyTrades,
       tradeOptions: [
@@ -228,11 +248,44 @@ export async function POST(
       return NextResponse.json(auditResult);
     }
 
+    const fieldPermissions = await getFieldPermissions(supabase, PUBLIC_FORM_ENTITIES, { publicForm: true });
+    const blocked = Array.from(new Set([
+      ...findBlockedWrites(submission.projectUpdates, fieldPermissions, 'projects'),
+      ...(submission.siteContactUpdates || []).flatMap(contact =>
+        findBlockedWrites(contact, fieldPermissions, 'site_contacts')
+      ),
+    ]));
+
+    if (blocked.length > 0) {
+      return NextResponse.json({ error: blockedWritesMessage(blocked) }, { status: 403 });
+    }
+
+    // submit_public_form overwrites every column of an existing contact, so
+    // carry over the stored values of fields the form wasn't allowed to send
+    let siteContactUpdates = submission.siteContactUpdates;
+    const lockedContactFields = lockedFields(fieldPermissions, 'site_contacts');
+    if (siteContactUpdates?.length && lockedContactFields.length > 0) {
+      const { data: currentData } = await supabase
+        .rpc('get_public_form_data', { p_token: token });
+      const storedContacts = new Map<string, any>(
+        (currentData?.siteContacts || []).map((contact: any) => [contact.id, contact])
+      );
+
+      siteContactUpdates = siteContactUpdates.map(contact => {
+        const stored = contact.id ? storedContacts.get(contact.id) : undefined;
+        if (!stored) return contact;
+        return {
+          ...contact,
+          ...Object.fromEntries(lockedContactFields.map(field => [field, stored[field]])),
+        };
+      });
+    }
+
     // Submit basic form data (project, address, contacts) via RPC
     const { data: submitResult, error: submitError } = await supabase
       .rpc('submit_public_form', {
         p_token: token,
-        p_submission: submission as any
+        p_submission: { ...submission, siteContactUpdates } as any
       });
 
     if (submitError || submitResult?.error) {
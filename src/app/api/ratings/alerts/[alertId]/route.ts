@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import type { Database } from '@/types/database';
+import { snoozeUntil } from '@/lib/rating-alerts/alertRules';
+
+export const dynamic = 'force-dynamic';
+
+type RatingAlertRecipientUpdate = Database['public']['Tables']['rating_alert_recipients']['Update'];
+
+export interface RatingAlertActionRequest {
+  action?: 'acknowledge' | 'unacknowledge' | 'snooze' | 'unsnooze';
+  /** Snooze length for action=snooze, 1-90 days. Defaults to 7. */
+  days?: number;
+}
+
+// PATCH - Acknowledge or snooze an alert for the current user only
+export async function PATCH(request: NextRequest, { params }: { params: { alertId: string } }) {
+  try {
+    const supabase = await createServerSupabase();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const body: RatingAlertActionRequest = await request.json().catch(() => ({}));
+    const update: RatingAlertRecipientUpdate = {};
+
+    switch (body.action) {
+      case 'acknowledge':
+        update.acknowledged_at = new Date().toISOString();
+        break;
+      case 'unacknowledge':
+        update.acknowledged_at = null;
+        break;
+      case 'snooze':
+        update.snoozed_until = snoozeUntil(body.days ?? 7);
+        break;
+      case 'unsnooze':
+        update.snoozed_until = null;
+        break;
+      default:
+        return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('rating_alert_recipients')
+      .update(update)
+      .eq('alert_id', params.alertId)
+      .eq('user_id', user.id)
+      .select('alert_id, acknowledged_at, snoozed_until')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error updating rating alert:', error);
+      return NextResponse.json({ error: 'Failed to update alert' }, { status: 500 });
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ alert: data });
+  } catch (error) {
+    console.error('Rating alert API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
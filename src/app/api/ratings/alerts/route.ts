@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase } from '@/lib/supabase/server';
 import { withRateLimit, RATE_LIMIT_PRESETS } from '@/lib/rateLimit';
+import { alertDisplayType } from '@/lib/rating-alerts/alertRules';
 
 export const dynamic = 'force-dynamic';
 
@@ -14,42 +15,86 @@ export interface RatingAlert {
   employer_name: string;
   timestamp: string;
   acknowledged: boolean;
+  acknowledged_at: string | null;
+  snoozed_until: string | null;
+  rule_type: string | null;
 }
 
-// GET handler - Get rating alerts
+type RatingAlertRecipientRow = {
+  acknowledged_at: string | null;
+  snoozed_until: string | null;
+  created_at: string;
+  rating_alerts: {
+    id: string;
+    alert_level: string;
+    alert_title: string;
+    alert_message: string;
+    employer_id: string;
+    employers: { name: string } | null;
+    rating_alert_rules: { rule_type: string } | null;
+  };
+};
+
+// GET handler - Rating alerts delivered in-app to the current user, with their own
+// acknowledgement and snooze. Snoozed alerts are hidden unless include_snoozed=true.
 async function getAlertsHandler(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const supabase = await createServerSupabase();
 
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
     // Parse query parameters
     const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 100);
     const acknowledged = searchParams.get('acknowledged');
+    const includeSnoozed = searchParams.get('include_snoozed') === 'true';
     const alertType = searchParams.get('type');
     const employerId = searchParams.get('employer_id');
 
     // Build query
     let query = supabase
-      .from('rating_alerts')
+      .from('rating_alert_recipients')
       .select(`
-        *,
-        employers!employer_id(name)
+        acknowledged_at,
+        snoozed_until,
+        created_at,
+        rating_alerts!inner(
+          id,
+          alert_level,
+          alert_title,
+          alert_message,
+          employer_id,
+          employers!employer_id(name),
+          rating_alert_rules(rule_type)
+        )
       `)
-      .eq('is_active', true)
+      .eq('user_id', user.id)
+      .eq('in_app', true)
+      .eq('rating_alerts.is_active', true)
+      .eq('rating_alerts.resolved', false)
       .order('created_at', { ascending: false })
       .limit(limit);
 
     // Apply filters
     if (acknowledged !== null) {
-      query = query.eq('acknowledged', acknowledged === 'true');
+      query = acknowledged === 'true'
+        ? query.not('acknowledged_at', 'is', null)
+        : query.is('acknowledged_at', null);
+    }
+
+    if (!includeSnoozed) {
+      query = query.or(`snoozed_until.is.null,snoozed_until.lte.${new Date().toISOString()}`);
     }
 
     if (alertType) {
-      query = query.eq('alert_level', alertType);
+      query = query.eq('rating_alerts.alert_level', alertType);
     }
 
     if (employerId) {
-      query = query.eq('employer_id', employerId);
+      query = query.eq('rating_alerts.employer_id', employerId);
     }
 
     const { data, error } = await query;
@@ -60,30 +105,26 @@ async function getAlertsHandler(request: NextRequest) {
     }
 
     // Transform data to match expected format
-    const alerts: RatingAlert[] = (data || []).map((alert: any) => {
-      // Map alert_level to type
-      let alertType: "info" | "warning" | "error" = "info";
-      if (alert.alert_level === 'critical' || alert.alert_level === 'error') {
-        alertType = "error";
-      } else if (alert.alert_level === 'warning') {
-        alertType = "warning";
-      }
-
+    const alerts: RatingAlert[] = ((data || []) as unknown as RatingAlertRecipientRow[]).map((row) => {
+      const alert = row.rating_alerts;
       return {
         id: alert.id,
-        type: alertType,
+        type: alertDisplayType(alert.alert_level),
         title: alert.alert_title || 'Rating Alert',
         message: alert.alert_message || 'An alert has been generated for this rating.',
         employer_id: alert.employer_id || '',
         employer_name: alert.employers?.name || 'Unknown Employer',
-        timestamp: alert.created_at,
-        acknowledged: alert.acknowledged || false,
+        timestamp: row.created_at,
+        acknowledged: row.acknowledged_at !== null,
+        acknowledged_at: row.acknowledged_at,
+        snoozed_until: row.snoozed_until,
+        rule_type: alert.rating_alert_rules?.rule_type ?? null,
       };
     });
 
-    // Add cache headers
+    // Alerts are per user, so only the browser may cache them
     const headers = {
-      'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300', // 1min cache for alerts
+      'Cache-Control': 'private, max-age=60',
       'Content-Type': 'application/json',
     };
 
@@ -114,7 +155,7 @@ async function createAlertHandler(request: NextRequest) {
     const body = await request.json();
 
     // Validate required fields
-    const { employer_id, alert_title, alert_message, alert_level } = body;
+    const { employer_id, alert_title, alert_message, alert_level, alert_type } = body;
     if (!employer_id || !alert_title || !alert_message || !alert_level) {
       return NextResponse.json(
         { error: 'Missing required fields: employer_id, alert_title, alert_message, alert_level' },
@@ -130,9 +171,8 @@ async function createAlertHandler(request: NextRequest) {
         alert_title,
         alert_message,
         alert_level,
-        alert_type: 'system_generated', // Default type
+        alert_type: alert_type || 'review_required',
         is_active: true,
-        acknowledged: false,
         created_at: new Date().toISOString(),
       })
       .select()
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import type { Database } from '@/types/database';
+
+export const dynamic = 'force-dynamic';
+
+type RatingAlertSubscriptionUpdate = Database['public']['Tables']['rating_alert_subscriptions']['Update'];
+
+export interface RatingAlertDeliveryRequest {
+  inApp?: boolean;
+  digest?: boolean;
+}
+
+// PATCH - Change how a subscription's alerts are delivered
+export async function PATCH(request: NextRequest, { params }: { params: { subscriptionId: string } }) {
+  try {
+    const supabase = await createServerSupabase();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const body: RatingAlertDeliveryRequest = await request.json().catch(() => ({}));
+    const update: RatingAlertSubscriptionUpdate = {};
+    if (typeof body.inApp === 'boolean') update.in_app = body.inApp;
+    if (typeof body.digest === 'boolean') update.digest = body.digest;
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const { data: current } = await supabase
+      .from('rating_alert_subscriptions')
+      .select('in_app, digest')
+      .eq('id', params.subscriptionId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!current) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    if (!(update.in_app ?? current.in_app) && !(update.digest ?? current.digest)) {
+      return NextResponse.json({ error: 'Choose in-app or digest delivery' }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('rating_alert_subscriptions')
+      .update(update)
+      .eq('id', params.subscriptionId)
+      .eq('user_id', user.id)
+      .select('id, in_app, digest')
+      .single();
+
+    if (error) {
+      console.error('Error updating rating alert subscription:', error);
+      return NextResponse.json({ error: 'Failed to update subscription' }, { status: 500 });
+    }
+
+    return NextResponse.json({ subscription: { id: data.id, inApp: data.in_app, digest: data.digest } });
+  } catch (error) {
+    console.error('Rating alert subscription API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Unsubscribe. Alerts already delivered stay in the user's list.
+export async function DELETE(_request: NextRequest, { params }: { params: { subscriptionId: string } }) {
+  try {
+    const supabase = await createServerSupabase();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { data, error } = await supabase
+      .from('rating_alert_subscriptions')
+      .delete()
+      .eq('id', params.subscriptionId)
+      .eq('user_id', user.id)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting rating alert subscription:', error);
+      return NextResponse.json({ error: 'Failed to unsubscribe' }, { status: 500 });
+    }
+
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Rating alert subscription API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import type { Database } from '@/types/database';
+
+export const dynamic = 'force-dynamic';
+
+type RatingAlertSubscriptionRow = Database['public']['Tables']['rating_alert_subscriptions']['Row'] & {
+  patches: { name: string | null } | null;
+  employers: { name: string } | null;
+};
+
+export interface RatingAlertSubscription {
+  id: string;
+  patchId: string | null;
+  employerId: string | null;
+  name: string;
+  inApp: boolean;
+  digest: boolean;
+  createdAt: string;
+}
+
+export interface RatingAlertSubscriptionRequest {
+  patchId?: string;
+  employerId?: string;
+  inApp?: boolean;
+  digest?: boolean;
+}
+
+function toRatingAlertSubscription(row: RatingAlertSubscriptionRow): RatingAlertSubscription {
+  return {
+    id: row.id,
+    patchId: row.patch_id,
+    employerId: row.employer_id,
+    name: (row.patch_id ? row.patches?.name : row.employers?.name) || 'Unknown',
+    inApp: row.in_app,
+    digest: row.digest,
+    createdAt: row.created_at,
+  };
+}
+
+const SUBSCRIPTION_SELECT = '*, patches(name), employers(name)';
+
+// GET - The current user's rating alert subscriptions, plus the patches they can subscribe to
+// (their current patch assignments; every patch for admins)
+export async function GET() {
+  try {
+    const supabase = await createServerSupabase();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    let patchQuery = supabase.from('patches').select('id, name').order('name');
+    if (profile?.role !== 'admin') {
+      const assignments = profile?.role === 'lead_organiser'
+        ? await supabase
+          .from('lead_organiser_patch_assignments')
+          .select('patch_id')
+          .eq('lead_organiser_id', user.id)
+          .is('effective_to', null)
+        : await supabase
+          .from('organiser_patch_assignments')
+          .select('patch_id')
+          .eq('organiser_id', user.id)
+          .is('effective_to', null);
+      patchQuery = patchQuery.in('id', (assignments.data ?? []).map((row: { patch_id: string }) => row.patch_id));
+    }
+
+    const [subscriptionsResult, patchesResult] = await Promise.all([
+      supabase
+        .from('rating_alert_subscriptions')
+        .select(SUBSCRIPTION_SELECT)
+        .eq('user_id', user.id)
+        .order('created_at'),
+      patchQuery,
+    ]);
+
+    if (subscriptionsResult.error || patchesResult.error) {
+      console.error('Error loading rating alert subscriptions:', subscriptionsResult.error ?? patchesResult.error);
+      return NextResponse.json({ error: 'Failed to load subscriptions' }, { status: 500 });
+    }
+
+    const subscriptions = ((subscriptionsResult.data ?? []) as unknown as RatingAlertSubscriptionRow[])
+      .map(toRatingAlertSubscription);
+
+    return NextResponse.json({ subscriptions, patches: patchesResult.data ?? [] });
+  } catch (error) {
+    console.error('Rating alert subscriptions API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Subscribe to a patch or a single employer
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabase();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const body: RatingAlertSubscriptionRequest = await request.json().catch(() => ({}));
+    const inApp = body.inApp ?? true;
+    const digest = body.digest ?? true;
+
+    if (Boolean(body.patchId) === Boolean(body.employerId)) {
+      return NextResponse.json({ error: 'Subscribe to either a patch or an employer' }, { status: 400 });
+    }
+    if (!inApp && !digest) {
+      return NextResponse.json({ error: 'Choose in-app or digest delivery' }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('rating_alert_subscriptions')
+      .insert({
+        user_id: user.id,
+        patch_id: body.patchId ?? null,
+        employer_id: body.employerId ?? null,
+        in_app: inApp,
+        digest,
+      })
+      .select(SUBSCRIPTION_SELECT)
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'Already subscribed' }, { status: 409 });
+      }
+      console.error('Error creating rating alert subscription:', error);
+      return NextResponse.json({ error: 'Failed to subscribe' }, { status: 500 });
+    }
+
+    return NextResponse.json(
+      { subscription: toRatingAlertSubscription(data as unknown as RatingAlertSubscriptionRow) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Rating alert subscriptions API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import { createEmployerRatingCalculator } from '@/lib/rating-engine/core/EmployerRatingCalculator';
+import { RatingNarrative, RatingNarrativeBuilder } from '@/lib/rating-engine/core/RatingNarrative';
+import { SupabaseRatingDataSource } from '@/lib/rating-engine/utils/SupabaseDataSource';
+
+export const dynamic = 'force-dynamic';
+
+// Role-based access control
+const ALLOWED_ROLES = ['organiser', 'lead_organiser', 'admin'] as const;
+type AllowedRole = typeof ALLOWED_ROLES[number];
+const ROLE_SET = new Set<AllowedRole>(ALLOWED_ROLES);
+
+// TypeScript types
+export interface RatingNarrativeResponse {
+  employer_id: string;
+  final_rating: 'green' | 'amber' | 'red' | 'unknown';
+  final_score: number;
+  calculated_at: string;
+  narrative: RatingNarrative;
+}
+
+// GET handler - Plain-English explanation of the employer's current calculated rating
+export async function GET(_request: NextRequest, { params }: { params: { employerId: string } }) {
+  try {
+    const { employerId } = params;
+    const supabase = await createServerSupabase();
+
+    // Authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Authorization
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('id, role')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (profileError || !profile) {
+      return NextResponse.json({ error: 'Unable to load user profile' }, { status: 500 });
+    }
+
+    const role = profile.role as AllowedRole;
+    if (!role || !ROLE_SET.has(role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // Validate employer exists
+    const { data: employer, error: employerError } = await supabase
+      .from('employers')
+      .select('id')
+      .eq('id', employerId)
+      .single();
+
+    if (employerError || !employer) {
+      return NextResponse.json({ error: 'Employer not found' }, { status: 404 });
+    }
+
+    const calculationMethod = await new SupabaseRatingDataSource(supabase).loadConfiguredCalculationMethod();
+    const calculator = createEmployerRatingCalculator(supabase);
+    const result = await calculator.calculateFinalRating({
+      employer_id: employerId,
+      calculation_method: calculationMethod,
+      force_recalculate: true
+    });
+
+    const response: RatingNarrativeResponse = {
+      employer_id: employerId,
+      final_rating: result.final_rating,
+      final_score: result.final_score,
+      calculated_at: new Date(result.calculation_date).toISOString(),
+      narrative: new RatingNarrativeBuilder().build(result)
+    };
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'private, max-age=300',
+        'X-Employer-ID': employerId
+      }
+    });
+  } catch (error) {
+    console.error('Rating narrative API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,9 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase } from '@/lib/supabase/server';
 import { featureFlags } from '@/lib/feature-flags';
+import { createEmployerRatingCalculator } from '@/lib/rating-engine/core/EmployerRatingCalculator';
+import { SupabaseRatingDataSource } from '@/lib/rating-engine/utils/SupabaseDataSource';
+import { RatingCalculationError } from '@/lib/rating-engine/core/RatingCalculator';
 
 export const dynamic = 'force-dynamic';
 
+// Role-based access control for historical replay
+const ALLOWED_ROLES = ['organiser', 'lead_organiser', 'admin'] as const;
+type AllowedRole = typeof ALLOWED_ROLES[number];
+const ROLE_SET = new Set<AllowedRole>(ALLOWED_ROLES);
+
 // TypeScript interface for the expected frontend format
 export interface EmployerRatingResponse {
   rating_history: Array<{
@@ -35,6 +43,41 @@ export interface EmployerRatingResponse {
   } | null;
 }
 
+// Response for ?asAt= requests - the rating recomputed from data that existed at that date
+export interface EmployerRatingAsAtResponse {
+  employer_id: string;
+  as_at: string;
+  final_rating: 'green' | 'amber' | 'red' | 'unknown';
+  final_score: number;
+  overall_confidence: 'high' | 'medium' | 'low' | 'very_low';
+  project_data_rating: {
+    rating: 'green' | 'amber' | 'red' | 'unknown';
+    score: number | null;
+    assessments_included: number;
+  };
+  organiser_expertise_rating: {
+    rating: 'green' | 'amber' | 'red' | 'unknown';
+    score: number | null;
+    assessments_included: number;
+  };
+  eba: {
+    eba_status: 'green' | 'amber' | 'red' | 'unknown';
+    eba_score: number;
+    has_active_eba: boolean;
+  };
+  inputs: {
+    project_assessments: number;
+    expertise_assessments: number;
+    eba_records: number;
+    site_visits: number;
+  };
+  recorded_rating: {
+    final_rating: 'green' | 'amber' | 'red' | 'unknown';
+    final_score: number | null;
+    rating_date: string;
+  } | null;
+}
+
 // Transform the real ratings data to match the expected frontend format
 function transformRatingsData(realData: any): EmployerRatingResponse {
   // Transform rating history
@@ -115,6 +158,12 @@ export async function GET(request: NextRequest, { params }: { params: { employer
       });
     }
 
+    // Historical replay: recompute the rating as at a past date
+    const asAtParam = request.nextUrl.searchParams.get('asAt');
+    if (asAtParam) {
+      return await handleAsAtRequest(employerId, asAtParam);
+    }
+
     // Try to call the real ratings endpoint
     try {
       // Make an internal API call to the real endpoint
@@ -214,6 +263,126 @@ export async function GET(request: NextRequest, { params }: { params: { employer
   }
 }
 
+// Helper function to replay an employer's rating using only data that existed at the given date
+async function handleAsAtRequest(employerId: string, asAtParam: string): Promise<NextResponse> {
+  const asAt = new Date(asAtParam);
+  if (isNaN(asAt.getTime())) {
+    return NextResponse.json({ error: 'Invalid asAt date' }, { status: 400 });
+  }
+  if (asAt > new Date()) {
+    return NextResponse.json({ error: 'asAt cannot be in the future' }, { status: 400 });
+  }
+
+  try {
+    const supabase = await createServerSupabase();
+
+    // Authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Authorization
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('id, role')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (profileError || !profile) {
+      return NextResponse.json({ error: 'Unable to load user profile' }, { status: 500 });
+    }
+
+    const role = profile.role as AllowedRole;
+    if (!role || !ROLE_SET.has(role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // Validate employer exists
+    const { data: employer, error: employerError } = await supabase
+      .from('employers')
+      .select('id')
+      .eq('id', employerId)
+      .single();
+
+    if (employerError || !employer) {
+      return NextResponse.json({ error: 'Employer not found' }, { status: 404 });
+    }
+
+    // Use the configured method and weights, as a live calculation would
+    const dataSource = new SupabaseRatingDataSource(supabase);
+    const [calculationMethod, weights] = await Promise.all([
+      dataSource.loadConfiguredCalculationMethod(),
+      dataSource.loadConfiguredWeights()
+    ]);
+    const calculator = createEmployerRatingCalculator(supabase);
+    const result = await calculator.calculateFinalRating({
+      employer_id: employerId,
+      as_at: asAt,
+      calculation_method: calculationMethod,
+      project_weight: weights.project,
+      expertise_weight: weights.expertise,
+      eba_weight: weights.eba,
+      force_recalculate: true
+    });
+
+    // The rating that was actually recorded at the time, for comparison
+    const { data: recorded } = await supabase
+      .from('employer_final_ratings')
+      .select('final_rating, final_score, rating_date')
+      .eq('employer_id', employerId)
+      .lte('rating_date', asAt.toISOString().split('T')[0])
+      .order('rating_date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const response: EmployerRatingAsAtResponse = {
+      employer_id: employerId,
+      as_at: asAt.toISOString(),
+      final_rating: result.final_rating,
+      final_score: result.final_score,
+      overall_confidence: result.overall_confidence,
+      project_data_rating: {
+        rating: result.project_data.rating,
+        score: result.project_data.score,
+        assessments_included: result.project_data.assessment_count
+      },
+      organiser_expertise_rating: {
+        rating: result.expertise_data.rating,
+        score: result.expertise_data.score,
+        assessments_included: result.expertise_data.assessment_count
+      },
+      eba: {
+        eba_status: result.eba_data.eba_status,
+        eba_score: result.eba_data.eba_score,
+        has_active_eba: result.eba_data.has_active_eba
+      },
+      inputs: {
+        project_assessments: result.replay?.project_assessments_included ?? 0,
+        expertise_assessments: result.replay?.expertise_assessments_included ?? 0,
+        eba_records: result.replay?.eba_records_included ?? 0,
+        site_visits: result.replay?.site_visits_included ?? 0
+      },
+      recorded_rating: recorded as EmployerRatingAsAtResponse['recorded_rating']
+    };
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Cache-Control': 'private, max-age=300',
+        'X-Data-Source': 'as-at-replay',
+        'X-Employer-ID': employerId
+      }
+    });
+  } catch (error) {
+    if (error instanceof RatingCalculationError && error.code === 'VALIDATION_ERROR') {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: 400 });
+    }
+    console.error('Rating as-at replay API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
 export async function HEAD(request: NextRequest, { params }: { params: { employerId: string } }) {
   try {
     const { employerId } = params;
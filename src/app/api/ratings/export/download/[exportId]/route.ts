@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import { RATING_EXPORT_BUCKET, RATING_EXPORT_CONTENT_TYPES } from '@/lib/rating-engine/core/RatingExport';
+import type { ExportJobRow } from '../../route';
+
+export const dynamic = 'force-dynamic';
+
+// Role-based access control
+const ALLOWED_ROLES = ['organiser', 'lead_organiser', 'admin'] as const;
+type AllowedRole = typeof ALLOWED_ROLES[number];
+const ROLE_SET = new Set<AllowedRole>(ALLOWED_ROLES);
+
+// GET handler - Download a completed rating export until it expires
+export async function GET(_request: NextRequest, { params }: { params: { exportId: string } }) {
+  try {
+    const { exportId } = params;
+    const supabase = await createServerSupabase();
+
+    // Authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Authorization
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('id, role')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (profileError || !profile) {
+      return NextResponse.json({ error: 'Unable to load user profile' }, { status: 500 });
+    }
+
+    const role = profile.role as AllowedRole;
+    if (!role || !ROLE_SET.has(role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { data: exportJob, error: exportError } = await supabase
+      .from('rating_export_jobs')
+      .select('*')
+      .eq('id', exportId)
+      .maybeSingle();
+
+    if (exportError || !exportJob) {
+      return NextResponse.json({ error: 'Export job not found' }, { status: 404 });
+    }
+
+    const job = exportJob as ExportJobRow;
+
+    // Files live in the requester's storage folder
+    if (job.requested_by !== user.id) {
+      return NextResponse.json({ error: 'Forbidden - you can only download your own exports' }, { status: 403 });
+    }
+
+    if (job.status === 'expired' || (job.expires_at && new Date(job.expires_at) <= new Date())) {
+      return NextResponse.json({ error: 'Export has expired' }, { status: 410 });
+    }
+
+    if (job.status !== 'completed' || !job.file_path) {
+      return NextResponse.json({ error: 'Export is not ready', status: job.status }, { status: 409 });
+    }
+
+    const { data: file, error: downloadError } = await supabase.storage
+      .from(RATING_EXPORT_BUCKET)
+      .download(job.file_path);
+
+    if (downloadError || !file) {
+      console.error('Rating export download error:', downloadError);
+      return NextResponse.json({ error: 'Export file not found' }, { status: 404 });
+    }
+
+    const fileName = `rating-export-${job.completed_at?.slice(0, 10) ?? exportId}.${job.format}`;
+
+    return new NextResponse(await file.arrayBuffer(), {
+      status: 200,
+      headers: {
+        'Content-Type': RATING_EXPORT_CONTENT_TYPES[job.format],
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'private, no-store',
+        'X-Export-Expires-At': job.expires_at ?? ''
+      }
+    });
+  } catch (error) {
+    console.error('Rating export download API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
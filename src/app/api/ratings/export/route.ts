@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase } from '@/lib/supabase/server';
 import { withRateLimit, RATE_LIMIT_PRESETS } from '@/lib/rateLimit';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { RatingNarrativeBuilder, StoredRatingRow } from '@/lib/rating-engine/core/RatingNarrative';
+import {
+  RatingExportBuilder,
+  RatingExportError,
+  StoredExportRow,
+  RATING_EXPORT_BUCKET,
+  RATING_EXPORT_CONTENT_TYPES
+} from '@/lib/rating-engine/core/RatingExport';
 
 // Role-based access control
 const ALLOWED_ROLES = ['organiser', 'lead_organiser', 'admin'] as const;
@@ -9,6 +18,11 @@ const ROLE_SET = new Set<AllowedRole>(ALLOWED_ROLES);
 
 export const dynamic = 'force-dynamic';
 
+// Exports are stored as expiring files and built a chunk at a time on each status poll,
+// so patch-wide exports never have to finish inside a single request
+const EXPORT_CHUNK_SIZE = 500;
+const EXPORT_EXPIRY_HOURS = 24;
+
 // TypeScript types
 export interface ExportRequest {
   format: 'csv' | 'xlsx' | 'json';
@@ -31,8 +45,10 @@ export interface ExportRequest {
 
 export interface ExportResponse {
   export_id: string;
-  status: 'processing' | 'completed' | 'failed';
+  status: 'processing' | 'completed' | 'failed' | 'expired';
   format: string;
+  rows_processed?: number;
+  error_message?: string;
   file_size_bytes?: number;
   download_url?: string;
   expires_at?: string;
@@ -100,83 +116,36 @@ async function exportRatingDataHandler(request: NextRequest) {
       }
     }
 
-    // Generate export ID
-    const exportId = crypto.randomUUID();
-
     // Get client IP for audit trail
     const ipAddress = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
                      request.headers.get('x-real-ip') ||
                      'unknown';
 
-    // Create export job record
-    const { error: exportError } = await supabase
+    // Create export job record; the file is built as the client polls for status
+    const { data: exportJob, error: exportError } = await supabase
       .from('rating_export_jobs')
       .insert({
-        id: exportId,
         requested_by: user.id,
         format: body.format,
         parameters: body,
         status: 'processing',
         ip_address: ipAddress,
         created_at: new Date().toISOString(),
-      });
+      })
+      .select('*')
+      .single();
 
-    if (exportError) {
+    if (exportError || !exportJob) {
       console.error('Failed to create export job record:', exportError);
       return NextResponse.json({ error: 'Failed to create export job' }, { status: 500 });
     }
 
-    // Process export asynchronously (in a real implementation, this would be a background job)
-    // For now, we'll do it synchronously with proper error handling
-    try {
-      const exportData = await generateExportData(supabase, body);
-      const fileBuffer = await formatExportData(exportData, body.format);
-
-      // In a real implementation, you would upload this to a storage service
-      // For now, we'll return a mock response
-      const fileSize = fileBuffer.length;
-      const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours from now
-
-      // Update export job record
-      await supabase
-        .from('rating_export_jobs')
-        .update({
-          status: 'completed',
-          file_size_bytes: fileSize,
-          record_count: exportData.length,
-          completed_at: new Date().toISOString(),
-        })
-        .eq('id', exportId);
-
-      const response: ExportResponse = {
-        export_id: exportId,
-        status: 'completed',
-        format: body.format,
-        file_size_bytes: fileSize,
-        download_url: `/api/ratings/export/download/${exportId}`, // Mock URL
-        expires_at: expiresAt.toISOString(),
-        record_count: exportData.length,
-        generated_at: new Date().toISOString(),
-        expires_in_hours: 24,
-      };
-
-      return NextResponse.json(response, { status: 200 });
-
-    } catch (error) {
-      console.error('Export processing error:', error);
-
-      // Update export job record with error
-      await supabase
-        .from('rating_export_jobs')
-        .update({
-          status: 'failed',
-          error_message: error instanceof Error ? error.message : 'Unknown error',
-          completed_at: new Date().toISOString(),
-        })
-        .eq('id', exportId);
-
-      return NextResponse.json({ error: 'Export processing failed' }, { status: 500 });
-    }
+    return NextResponse.json(toExportResponse(exportJob as ExportJobRow), {
+      status: 202,
+      headers: {
+        'Location': `/api/ratings/export?export_id=${exportJob.id}`
+      }
+    });
 
   } catch (error) {
     console.error('Export rating data API unexpected error:', error);
@@ -188,10 +157,10 @@ async function exportRatingDataHandler(request: NextRequest) {
 async function getExportStatusHandler(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const exportId = searchParams.get('exportId');
+    const exportId = searchParams.get('export_id') || searchParams.get('exportId');
 
     if (!exportId) {
-      return NextResponse.json({ error: 'exportId parameter is required' }, { status: 400 });
+      return NextResponse.json({ error: 'export_id parameter is required' }, { status: 400 });
     }
 
     const supabase = await createServerSupabase();
@@ -234,20 +203,18 @@ async function getExportStatusHandler(request: NextRequest) {
       return NextResponse.json({ error: 'Forbidden - you can only access your own exports' }, { status: 403 });
     }
 
-    const response: ExportResponse = {
-      export_id: exportJob.id,
-      status: exportJob.status,
-      format: exportJob.format,
-      file_size_bytes: exportJob.file_size_bytes,
-      download_url: exportJob.status === 'completed' ? `/api/ratings/export/download/${exportId}` : undefined,
-      expires_at: exportJob.completed_at ?
-        new Date(new Date(exportJob.completed_at).getTime() + 24 * 60 * 60 * 1000).toISOString() :
-        undefined,
-      record_count: exportJob.record_count,
-      generated_at: exportJob.completed_at,
-      expires_in_hours: 24,
-    };
+    let job = exportJob as ExportJobRow;
+
+    // Only the requester can advance or expire the job: the files live in their storage folder
+    if (job.requested_by === user.id) {
+      if (job.status === 'processing') {
+        job = await advanceExportJob(supabase, job);
+      } else if (job.status === 'completed' && job.expires_at && new Date(job.expires_at) <= new Date()) {
+        job = await expireExportJob(supabase, job);
+      }
+    }
 
+    const response = toExportResponse(job);
     return NextResponse.json(response);
 
   } catch (error) {
@@ -257,136 +224,272 @@ async function getExportStatusHandler(request: NextRequest) {
 }
 
 // Helper functions
-async function generateExportData(supabase: Awaited<ReturnType<typeof createServerSupabase>>, request: ExportRequest): Promise<any[]> {
+export interface ExportJobRow {
+  id: string;
+  requested_by: string;
+  format: ExportRequest['format'];
+  parameters: ExportRequest;
+  status: ExportResponse['status'];
+  rows_processed: number;
+  parts_written: number;
+  file_path: string | null;
+  file_size_bytes: number | null;
+  record_count: number | null;
+  error_message: string | null;
+  completed_at: string | null;
+  expires_at: string | null;
+}
+
+function toExportResponse(job: ExportJobRow): ExportResponse {
+  return {
+    export_id: job.id,
+    status: job.status,
+    format: job.format,
+    rows_processed: job.rows_processed,
+    error_message: job.error_message ?? undefined,
+    file_size_bytes: job.file_size_bytes ?? undefined,
+    download_url: job.status === 'completed' ? `/api/ratings/export/download/${job.id}` : undefined,
+    expires_at: job.expires_at ?? undefined,
+    record_count: job.record_count ?? undefined,
+    generated_at: job.completed_at ?? undefined,
+    expires_in_hours: EXPORT_EXPIRY_HOURS,
+  };
+}
+
+function exportFolder(job: ExportJobRow): string {
+  return `${job.requested_by}/${job.id}`;
+}
+
+// Process the next chunk of ratings; the last (short) chunk assembles the finished file
+async function advanceExportJob(supabase: SupabaseClient, job: ExportJobRow): Promise<ExportJobRow> {
   try {
-    let query = supabase
-      .from('employer_final_ratings')
-      .select(`
-        id,
-        employer_id,
-        rating_date,
-        final_rating,
-        final_score,
-        project_based_rating,
-        project_based_score,
-        expertise_based_rating,
-        expertise_based_score,
-        eba_status,
-        overall_confidence,
-        data_completeness_score,
-        rating_status,
-        review_required,
-        expiry_date,
-        created_at,
-        updated_at,
-        employers!employer_id(name, abn, employer_type),
-        profiles!calculated_by(first_name, surname)
-      `);
-
-    // Apply filters
-    if (request.employer_ids && request.employer_ids.length > 0) {
-      query = query.in('employer_id', request.employer_ids);
+    const rows = await generateExportData(supabase, job.parameters, job.rows_processed, EXPORT_CHUNK_SIZE);
+    let partsWritten = job.parts_written;
+
+    if (rows.length > 0) {
+      const { error: partError } = await supabase.storage
+        .from(RATING_EXPORT_BUCKET)
+        .upload(`${exportFolder(job)}/part-${partsWritten}.json`, JSON.stringify(rows), {
+          contentType: 'application/json',
+          upsert: true,
+        });
+      if (partError) throw partError;
+      partsWritten++;
     }
 
-    if (request.date_range) {
-      query = query.gte('rating_date', request.date_range.from);
-      query = query.lte('rating_date', request.date_range.to);
-    }
+    if (rows.length === EXPORT_CHUNK_SIZE) {
+      // Conditional on the old cursor so overlapping polls cannot skip a chunk
+      const { data: updated, error: updateError } = await supabase
+        .from('rating_export_jobs')
+        .update({
+          rows_processed: job.rows_processed + rows.length,
+          parts_written: partsWritten,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', job.id)
+        .eq('rows_processed', job.rows_processed)
+        .select('*')
+        .maybeSingle();
 
-    if (request.rating_status && request.rating_status.length > 0) {
-      query = query.in('rating_status', request.rating_status);
+      if (updateError) throw updateError;
+      return (updated as ExportJobRow | null) ?? job;
     }
 
-    if (request.filters) {
-      if (request.filters.min_score !== undefined) {
-        query = query.gte('final_score', request.filters.min_score);
-      }
-      if (request.filters.max_score !== undefined) {
-        query = query.lte('final_score', request.filters.max_score);
-      }
-      if (request.filters.rating_categories && request.filters.rating_categories.length > 0) {
-        query = query.in('final_rating', request.filters.rating_categories);
-      }
-    }
+    return await completeExportJob(supabase, job, partsWritten);
+  } catch (error) {
+    console.error('Export processing error:', error);
 
-    const { data, error } = await query;
+    const { data: failed } = await supabase
+      .from('rating_export_jobs')
+      .update({
+        status: 'failed',
+        error_message: error instanceof Error ? error.message : 'Unknown error',
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', job.id)
+      .select('*')
+      .maybeSingle();
 
-    if (error) throw error;
+    return (failed as ExportJobRow | null) ?? { ...job, status: 'failed' };
+  }
+}
 
-    return data || [];
+async function completeExportJob(supabase: SupabaseClient, job: ExportJobRow, partsWritten: number): Promise<ExportJobRow> {
+  const folder = exportFolder(job);
+  const partPaths = Array.from({ length: partsWritten }, (_, index) => `${folder}/part-${index}.json`);
+  const rows: any[] = [];
 
-  } catch (error) {
-    console.error('Error generating export data:', error);
-    return [];
+  for (const partPath of partPaths) {
+    const { data: part, error: partError } = await supabase.storage.from(RATING_EXPORT_BUCKET).download(partPath);
+    if (partError || !part) {
+      throw new RatingExportError('PART_MISSING', `Export part ${partPath} could not be read`, { path: partPath });
+    }
+    rows.push(...JSON.parse(await part.text()));
   }
-}
 
-async function formatExportData(data: any[], format: string): Promise<Buffer> {
-  switch (format) {
-    case 'json':
-      return Buffer.from(JSON.stringify(data, null, 2), 'utf-8');
+  const fileBuffer = formatExportData(rows, job.parameters);
+  const filePath = `${folder}/ratings-export.${job.format}`;
 
-    case 'csv':
-      return formatAsCSV(data);
+  const { error: uploadError } = await supabase.storage
+    .from(RATING_EXPORT_BUCKET)
+    .upload(filePath, fileBuffer, {
+      contentType: RATING_EXPORT_CONTENT_TYPES[job.format],
+      upsert: true,
+    });
+  if (uploadError) throw uploadError;
 
-    case 'xlsx':
-      // In a real implementation, you would use a library like xlsx
-      return formatAsCSV(data); // Fallback to CSV for now
+  if (partPaths.length > 0) {
+    await supabase.storage.from(RATING_EXPORT_BUCKET).remove(partPaths);
+  }
 
-    default:
-      throw new Error(`Unsupported format: ${format}`);
+  const completedAt = new Date();
+  const expiresAt = new Date(completedAt.getTime() + EXPORT_EXPIRY_HOURS * 60 * 60 * 1000);
+
+  const { data: completed, error: updateError } = await supabase
+    .from('rating_export_jobs')
+    .update({
+      status: 'completed',
+      rows_processed: rows.length,
+      parts_written: partsWritten,
+      file_path: filePath,
+      file_size_bytes: fileBuffer.length,
+      record_count: rows.length,
+      completed_at: completedAt.toISOString(),
+      expires_at: expiresAt.toISOString(),
+      updated_at: completedAt.toISOString(),
+    })
+    .eq('id', job.id)
+    .select('*')
+    .single();
+
+  if (updateError) throw updateError;
+  return completed as ExportJobRow;
+}
+
+async function expireExportJob(supabase: SupabaseClient, job: ExportJobRow): Promise<ExportJobRow> {
+  if (job.file_path) {
+    const { error: removeError } = await supabase.storage.from(RATING_EXPORT_BUCKET).remove([job.file_path]);
+    if (removeError) {
+      console.error('Failed to remove expired export file:', removeError);
+    }
   }
+
+  const { data: expired } = await supabase
+    .from('rating_export_jobs')
+    .update({ status: 'expired', file_path: null, updated_at: new Date().toISOString() })
+    .eq('id', job.id)
+    .select('*')
+    .maybeSingle();
+
+  return (expired as ExportJobRow | null) ?? { ...job, status: 'expired' };
 }
 
-function formatAsCSV(data: any[]): Buffer {
-  if (data.length === 0) {
-    return Buffer.from('', 'utf-8');
+async function generateExportData(
+  supabase: SupabaseClient,
+  request: ExportRequest,
+  offset: number,
+  limit: number
+): Promise<any[]> {
+  let query = supabase
+    .from('employer_final_ratings')
+    .select(`
+      id,
+      employer_id,
+      rating_date,
+      final_rating,
+      final_score,
+      project_based_rating,
+      project_based_score,
+      project_data_age_days,
+      projects_included,
+      latest_project_date,
+      expertise_based_rating,
+      expertise_based_score,
+      expertise_data_age_days,
+      expertise_assessments_included,
+      latest_expertise_date,
+      rating_discrepancy,
+      discrepancy_level,
+      project_weight,
+      expertise_weight,
+      eba_weight,
+      eba_status,
+      overall_confidence,
+      data_completeness_score,
+      rating_status,
+      review_required,
+      expiry_date,
+      created_at,
+      updated_at,
+      employers!employer_id(name, abn, employer_type),
+      profiles!calculated_by(first_name, surname)
+    `);
+
+  // Apply filters
+  if (request.employer_ids && request.employer_ids.length > 0) {
+    query = query.in('employer_id', request.employer_ids);
   }
 
-  // Flatten the data for CSV
-  const flattenedData = data.map((row: any) => ({
-    id: row.id,
-    employer_id: row.employer_id,
-    employer_name: row.employers?.name || '',
-    employer_abn: row.employers?.abn || '',
-    employer_type: row.employers?.employer_type || '',
-    rating_date: row.rating_date,
-    final_rating: row.final_rating,
-    final_score: row.final_score || '',
-    project_based_rating: row.project_based_rating || '',
-    project_based_score: row.project_based_score || '',
-    expertise_based_rating: row.expertise_based_rating || '',
-    expertise_based_score: row.expertise_based_score || '',
-    eba_status: row.eba_status || '',
-    overall_confidence: row.overall_confidence,
-    data_completeness_score: row.data_completeness_score || '',
-    rating_status: row.rating_status,
-    review_required: row.review_required,
-    expiry_date: row.expiry_date || '',
-    created_at: row.created_at,
-    updated_at: row.updated_at,
-    calculated_by: row.profiles_calculated_by ?
-      `${row.profiles_calculated_by.first_name} ${row.profiles_calculated_by.surname}`.trim() : '',
+  if (request.date_range) {
+    query = query.gte('rating_date', request.date_range.from);
+    query = query.lte('rating_date', request.date_range.to);
+  }
+
+  if (request.rating_status && request.rating_status.length > 0) {
+    query = query.in('rating_status', request.rating_status);
+  }
+
+  if (request.filters) {
+    if (request.filters.min_score !== undefined) {
+      query = query.gte('final_score', request.filters.min_score);
+    }
+    if (request.filters.max_score !== undefined) {
+      query = query.lte('final_score', request.filters.max_score);
+    }
+    if (request.filters.rating_categories && request.filters.rating_categories.length > 0) {
+      query = query.in('final_rating', request.filters.rating_categories);
+    }
+  }
+
+  // Stable ordering so each chunk continues where the previous one stopped
+  const { data, error } = await query
+    .order('id', { ascending: true })
+    .range(offset, offset + limit - 1);
+
+  if (error) throw error;
+
+  // Attach the plain-English explanation of each stored rating
+  const narrativeBuilder = new RatingNarrativeBuilder();
+  return (data || []).map((row: any) => ({
+    ...row,
+    narrative: narrativeBuilder.buildFromStoredRating(row as StoredRatingRow)
   }));
+}
 
-  // Generate CSV headers
-  const headers = Object.keys(flattenedData[0]);
-  const csvHeaders = headers.join(',');
-
-  // Generate CSV rows
-  const csvRows = flattenedData.map(row => {
-    return headers.map(header => {
-      const value = row[header];
-      if (value === null || value === undefined) return '';
-      if (typeof value === 'string' && (value.includes(',') || value.includes('"') || value.includes('\n'))) {
-        return `"${value.replace(/"/g, '""')}"`;
-      }
-      return value.toString();
-    }).join(',');
+function formatExportData(data: any[], request: ExportRequest): Buffer {
+  if (request.format === 'json') {
+    return Buffer.from(JSON.stringify(data, null, 2), 'utf-8');
+  }
+
+  const builder = new RatingExportBuilder();
+  const records = data.map(row => RatingExportBuilder.recordFromStoredRating(row as StoredExportRow));
+  const sheets = builder.buildSheets(records, {
+    include_components: request.include_components,
+    include_history: request.include_history,
   });
 
-  const csvContent = [csvHeaders, ...csvRows].join('\n');
-  return Buffer.from(csvContent, 'utf-8');
+  switch (request.format) {
+    case 'csv':
+      // CSV carries the ratings sheet; the other sheets are only in the workbook
+      return Buffer.from(builder.toCSV(sheets[0]), 'utf-8');
+
+    case 'xlsx':
+      return builder.toWorkbook(sheets);
+
+    default:
+      throw new RatingExportError('UNSUPPORTED_FORMAT', `Unsupported format: ${request.format}`);
+  }
 }
 
 // Export handlers with rate limiting
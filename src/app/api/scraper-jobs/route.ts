@@ -1,21 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabase } from '@/lib/supabase/server'
 import * as Sentry from '@sentry/nextjs'
+import { normalizePriority } from '@/lib/scraper-jobs/jobControl'
 
 export const dynamic = 'force-dynamic'
 
 const SUPPORTED_JOB_TYPES = ['fwc_lookup', 'incolink_sync'] as const
 const DEFAULT_MAX_ATTEMPTS = 5
-const DEFAULT_PRIORITY = 5
 
 type SupportedJobType = typeof SUPPORTED_JOB_TYPES[number]
 
-function normalizePriority(priority: unknown) {
-  const value = Number(priority)
-  if (!Number.isFinite(value)) return DEFAULT_PRIORITY
-  return Math.min(Math.max(Math.trunc(value), 1), 10)
-}
-
 export async function POST(request: NextRequest) {
   const debugEnabled = request.cookies.get('__agent_debug')?.value === '1'
   const sbCookieCount = request.cookies.getAll().filter((c) => c.name.startsWith('sb-')).length
@@ -110,13 +104,14 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Invalid payload' }, { status: 400 })
   }
 
-  const { jobType, payload, priority, runAt, maxAttempts, progressTotal } = body as {
+  const { jobType, payload, priority, runAt, maxAttempts, progressTotal, dependsOn } = body as {
     jobType?: string
     payload?: unknown
     priority?: number
     runAt?: string
     maxAttempts?: number
     progressTotal?: number
+    dependsOn?: unknown
   }
 
   if (!jobType || !SUPPORTED_JOB_TYPES.includes(jobType as SupportedJobType)) {
@@ -171,6 +166,10 @@ export async function POST(request: NextRequest) {
     runAtValue = runDate.toISOString()
   }
 
+  if (dependsOn !== undefined && (!Array.isArray(dependsOn) || dependsOn.some((value) => typeof value !== 'string'))) {
+    return NextResponse.json({ error: 'dependsOn must be an array of job IDs' }, { status: 400 })
+  }
+
   const insertPayload: Record<string, unknown> = {
     job_type: jobType,
     payload,
@@ -184,6 +183,11 @@ export async function POST(request: NextRequest) {
     insertPayload.run_at = runAtValue
   }
 
+  // The worker only starts this job once every listed job has succeeded
+  if (Array.isArray(dependsOn) && dependsOn.length > 0) {
+    insertPayload.depends_on = dependsOn
+  }
+
   if (Number.isInteger(progressTotal)) {
     insertPayload.progress_total = Math.max(0, progressTotal as number)
   }
@@ -395,7 +399,7 @@ export async function PATCH(request: NextRequest) {
     return NextResponse.json({ error: 'Not found' }, { status: 404 })
   }
 
-  if (job.status === 'succeeded' || job.status === 'failed' || job.status === 'cancelled') {
+  if (job.status === 'succeeded' || job.status === 'failed' || job.status === 'cancelled' || job.status === 'dead_letter') {
     return NextResponse.json({ job })
   }
 
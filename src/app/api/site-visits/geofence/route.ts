@@ -0,0 +1,259 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import {
+  DEFAULT_GEOFENCE_RADIUS_METERS,
+  MAX_POSITION_ACCURACY_METERS,
+  getDwellConfig,
+  planDwellUpdate,
+  type OpenDwellSession,
+} from '@/lib/geofencing/dwell';
+
+const ALLOWED_ROLES = ['organiser', 'lead_organiser', 'admin'] as const;
+type AllowedRole = typeof ALLOWED_ROLES[number];
+const ROLE_SET = new Set<AllowedRole>(ALLOWED_ROLES);
+
+// Queued reports older than this say nothing useful about a current stay
+const MAX_REPORT_AGE_MS = 60 * 60 * 1000;
+// A manual visit logged this close to the start of a stay already covers it
+const EXISTING_VISIT_WINDOW_MS = 2 * 60 * 60 * 1000;
+
+export const dynamic = 'force-dynamic';
+
+export interface GeofencePositionRequest {
+  latitude: number;
+  longitude: number;
+  accuracy?: number | null;
+  recordedAt?: string | null;
+}
+
+export interface GeofenceSiteMatch {
+  job_site_id: string;
+  job_site_name: string;
+  project_id: string | null;
+  project_name: string | null;
+  distance_m: number;
+}
+
+export interface GeofenceDraftVisit {
+  id: string;
+  job_site_id: string;
+  project_id: string | null;
+  project_name: string | null;
+}
+
+export interface GeofencePositionResponse {
+  inside: GeofenceSiteMatch[];
+  draftVisits: GeofenceDraftVisit[];
+  ignored?: 'low_accuracy' | 'stale_report';
+}
+
+interface DwellSessionRow extends OpenDwellSession {
+  project_id: string | null;
+}
+
+function isCoordinate(value: unknown, limit: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabase();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('id, role')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (profileError) {
+      console.error('Geofence API failed to load profile:', profileError);
+      return NextResponse.json({ error: 'Unable to load user profile' }, { status: 500 });
+    }
+
+    const role = profile?.role as AllowedRole | undefined;
+    if (!role || !ROLE_SET.has(role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = (await request.json().catch(() => null)) as GeofencePositionRequest | null;
+    if (!body || !isCoordinate(body.latitude, 90) || !isCoordinate(body.longitude, 180)) {
+      return NextResponse.json({ error: 'latitude and longitude are required' }, { status: 400 });
+    }
+
+    const now = new Date();
+    const recordedAt = body.recordedAt ? new Date(body.recordedAt) : now;
+    const at = Number.isNaN(recordedAt.getTime()) || recordedAt > now ? now : recordedAt;
+
+    // Nothing is stored for reports we can't trust
+    if (now.getTime() - at.getTime() > MAX_REPORT_AGE_MS) {
+      return NextResponse.json<GeofencePositionResponse>({ inside: [], draftVisits: [], ignored: 'stale_report' });
+    }
+    if (typeof body.accuracy === 'number' && body.accuracy > MAX_POSITION_ACCURACY_METERS) {
+      return NextResponse.json<GeofencePositionResponse>({ inside: [], draftVisits: [], ignored: 'low_accuracy' });
+    }
+
+    const { data: fenceRows, error: fenceError } = await (supabase as any).rpc('get_geofences_at_point', {
+      p_latitude: body.latitude,
+      p_longitude: body.longitude,
+      p_default_radius_m: DEFAULT_GEOFENCE_RADIUS_METERS,
+    });
+
+    if (fenceError) {
+      console.error('Geofence lookup failed:', fenceError);
+      return NextResponse.json({ error: 'Failed to check geofences' }, { status: 500 });
+    }
+
+    const inside = (fenceRows ?? []) as GeofenceSiteMatch[];
+
+    const { data: sessionRows, error: sessionError } = await (supabase as any)
+      .from('geofence_dwell_sessions')
+      .select('id, job_site_id, project_id, entered_at, last_seen_at, draft_created_at')
+      .eq('user_id', user.id)
+      .is('exited_at', null);
+
+    if (sessionError) {
+      console.error('Failed to load dwell sessions:', sessionError);
+      return NextResponse.json({ error: 'Failed to load dwell sessions' }, { status: 500 });
+    }
+
+    const openSessions = (sessionRows ?? []) as DwellSessionRow[];
+    if (inside.length === 0 && openSessions.length === 0) {
+      return NextResponse.json<GeofencePositionResponse>({ inside: [], draftVisits: [] });
+    }
+
+    const plan = planDwellUpdate(
+      openSessions,
+      inside.map((site) => site.job_site_id),
+      at,
+      getDwellConfig()
+    );
+    const atIso = at.toISOString();
+
+    // Close before starting: a site re-entered after a long gap gets a fresh session
+    for (const closed of plan.close) {
+      await (supabase as any)
+        .from('geofence_dwell_sessions')
+        .update({ exited_at: closed.exitedAt })
+        .eq('id', closed.id);
+    }
+
+    if (plan.extend.length > 0) {
+      await (supabase as any)
+        .from('geofence_dwell_sessions')
+        .update({ last_seen_at: atIso })
+        .in('id', plan.extend);
+    }
+
+    const sessionsBySite = new Map<string, DwellSessionRow>(
+      openSessions
+        .filter((session) => plan.extend.includes(session.id))
+        .map((session) => [session.job_site_id, session])
+    );
+
+    if (plan.start.length > 0) {
+      const { data: started, error: startError } = await (supabase as any)
+        .from('geofence_dwell_sessions')
+        .insert(
+          plan.start.map((siteId) => ({
+            user_id: user.id,
+            job_site_id: siteId,
+            project_id: inside.find((site) => site.job_site_id === siteId)?.project_id ?? null,
+            entered_at: atIso,
+            last_seen_at: atIso,
+          }))
+        )
+        .select('id, job_site_id, project_id, entered_at, last_seen_at, draft_created_at');
+
+      if (startError) {
+        console.error('Failed to start dwell sessions:', startError);
+      }
+      for (const session of (started ?? []) as DwellSessionRow[]) {
+        sessionsBySite.set(session.job_site_id, session);
+      }
+    }
+
+    const draftVisits: GeofenceDraftVisit[] = [];
+    for (const sessionId of plan.createDraft) {
+      const session = openSessions.find((candidate) => candidate.id === sessionId);
+      if (!session) continue;
+
+      const windowStart = new Date(new Date(session.entered_at).getTime() - EXISTING_VISIT_WINDOW_MS).toISOString();
+      const { data: existingVisit } = await supabase
+        .from('site_visit')
+        .select('id')
+        .eq('organiser_id', user.id)
+        .eq('job_site_id', session.job_site_id)
+        .gte('date', windowStart)
+        .limit(1)
+        .maybeSingle();
+
+      let visitId = (existingVisit as { id: string } | null)?.id ?? null;
+
+      if (!visitId) {
+        const { data: visit, error: visitError } = await (supabase as any)
+          .from('site_visit')
+          .insert({
+            job_site_id: session.job_site_id,
+            project_id: session.project_id,
+            organiser_id: user.id,
+            date: session.entered_at,
+            visit_status: 'draft',
+            detection_source: 'geofence',
+            created_by: user.id,
+          })
+          .select('id')
+          .single();
+
+        if (visitError) {
+          console.error('Failed to create draft site visit:', visitError);
+          continue;
+        }
+
+        visitId = visit.id as string;
+        const site = inside.find((candidate) => candidate.job_site_id === session.job_site_id);
+        draftVisits.push({
+          id: visitId,
+          job_site_id: session.job_site_id,
+          project_id: session.project_id,
+          project_name: site?.project_name ?? null,
+        });
+      }
+
+      await (supabase as any)
+        .from('geofence_dwell_sessions')
+        .update({ draft_created_at: atIso, site_visit_id: visitId })
+        .eq('id', session.id);
+    }
+
+    // Only positions inside a fence are kept, against the closest site's session
+    const nearestSession = inside.length > 0 ? sessionsBySite.get(inside[0].job_site_id) : undefined;
+    if (nearestSession) {
+      const { error: positionError } = await (supabase as any).from('geofence_positions').insert({
+        user_id: user.id,
+        dwell_session_id: nearestSession.id,
+        latitude: body.latitude,
+        longitude: body.longitude,
+        accuracy_m: typeof body.accuracy === 'number' ? body.accuracy : null,
+        recorded_at: atIso,
+      });
+
+      if (positionError) {
+        console.warn('Failed to store geofence position:', positionError);
+      }
+    }
+
+    return NextResponse.json<GeofencePositionResponse>({ inside, draftVisits });
+  } catch (error) {
+    console.error('Geofence API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+
+const ALLOWED_ROLES = ['organiser', 'lead_organiser', 'admin'] as const;
+type AllowedRole = typeof ALLOWED_ROLES[number];
+const ROLE_SET = new Set<AllowedRole>(ALLOWED_ROLES);
+
+const DUE_STATUSES = ['overdue', 'due_soon', 'never_trained'] as const;
+const ALL_STATUSES = [...DUE_STATUSES, 'current'] as const;
+type TrainingStatusFilter = typeof ALL_STATUSES[number];
+
+export const dynamic = 'force-dynamic';
+
+export interface TrainingDueRow {
+  union_role_id: string;
+  worker_id: string;
+  first_name: string | null;
+  surname: string | null;
+  union_role: string;
+  job_site_id: string | null;
+  job_site_name: string | null;
+  project_id: string | null;
+  project_name: string | null;
+  course_id: string;
+  course_code: string;
+  course_name: string;
+  last_completed_on: string | null;
+  due_on: string | null;
+  status: TrainingStatusFilter;
+}
+
+export interface TrainingDueResponse {
+  rows: TrainingDueRow[];
+  summary: Record<TrainingStatusFilter, number>;
+}
+
+// Lapsed reps first, then whoever is due soonest
+const STATUS_ORDER: Record<TrainingStatusFilter, number> = {
+  overdue: 0,
+  never_trained: 1,
+  due_soon: 2,
+  current: 3,
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabase();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (profileError) {
+      console.error('Training due API failed to load profile:', profileError);
+      return NextResponse.json({ error: 'Unable to load user profile' }, { status: 500 });
+    }
+
+    const role = profile?.role as AllowedRole | undefined;
+    if (!role || !ROLE_SET.has(role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const patchIds = searchParams.get('patchIds')?.split(',').filter(Boolean) ?? [];
+    const jobSiteId = searchParams.get('jobSiteId');
+    const projectId = searchParams.get('projectId');
+    const statusParam = searchParams.get('status');
+
+    const statuses: readonly TrainingStatusFilter[] =
+      statusParam === 'all'
+        ? ALL_STATUSES
+        : statusParam && (ALL_STATUSES as readonly string[]).includes(statusParam)
+          ? [statusParam as TrainingStatusFilter]
+          : DUE_STATUSES;
+
+    let jobSiteIds: string[] | null = null;
+    if (patchIds.length > 0) {
+      const { data: patchSites, error: patchSitesError } = await supabase
+        .from('v_patch_sites_current')
+        .select('job_site_id')
+        .in('patch_id', patchIds);
+
+      if (patchSitesError) {
+        console.error('Training due API failed to load patch sites:', patchSitesError);
+        return NextResponse.json({ error: 'Failed to load patch sites' }, { status: 500 });
+      }
+
+      jobSiteIds = Array.from(
+        new Set((patchSites || []).map((row: any) => row.job_site_id).filter(Boolean))
+      );
+    }
+
+    if (jobSiteId) {
+      jobSiteIds = jobSiteIds ? jobSiteIds.filter((id) => id === jobSiteId) : [jobSiteId];
+    }
+
+    const emptySummary: Record<TrainingStatusFilter, number> = {
+      overdue: 0,
+      due_soon: 0,
+      never_trained: 0,
+      current: 0,
+    };
+
+    if (jobSiteIds && jobSiteIds.length === 0) {
+      const empty: TrainingDueResponse = { rows: [], summary: emptySummary };
+      return NextResponse.json(empty);
+    }
+
+    let query = supabase
+      .from('v_worker_training_status')
+      .select('*');
+
+    if (jobSiteIds) {
+      query = query.in('job_site_id', jobSiteIds);
+    }
+    if (projectId) {
+      query = query.eq('project_id', projectId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Training due API query error:', error);
+      return NextResponse.json({ error: 'Failed to load training status' }, { status: 500 });
+    }
+
+    const allRows = (data || []) as TrainingDueRow[];
+    const summary = { ...emptySummary };
+    allRows.forEach((row) => {
+      summary[row.status] = (summary[row.status] ?? 0) + 1;
+    });
+
+    const rows = allRows
+      .filter((row) => statuses.includes(row.status))
+      .sort((a, b) => {
+        const byStatus = STATUS_ORDER[a.status] - STATUS_ORDER[b.status];
+        if (byStatus !== 0) return byStatus;
+        return (a.due_on ?? '').localeCompare(b.due_on ?? '');
+      });
+
+    const response: TrainingDueResponse = { rows, summary };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Training due API unexpected error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase } from '@/lib/supabase/server';
 import { withRateLimit, RATE_LIMIT_PRESETS } from '@/lib/rateLimit';
+import { getFieldPermissions, redactRecords } from '@/lib/auth/fieldPermissions';
 
 // Helper function to escape ILIKE special characters (%, _, \)
 function escapeLikePattern(str: string): string {
@@ -36,6 +37,7 @@ export interface WorkerRecord {
   has_incolink_id: boolean;
   has_active_eba: boolean;
   has_active_project: boolean;
+  lapsed_training_courses: string[];
   active_project_names: string[];
   active_project_count: number;
   employer_names: string[];
@@ -99,6 +101,8 @@ async function getWorkersHandler(request: NextRequest) {
     if (!role || !ROLE_SET.has(role)) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
+
+    const fieldPermissions = await getFieldPermissions(supabase, ['workers']);
     
     // Parse parameters with defaults matching client-side
     const page = parseInt(searchParams.get('page') || '1');
@@ -239,7 +243,7 @@ async function getWorkersHandler(request: NextRequest) {
         };
 
         const headers = {
-          'Cache-Control': 'public, s-maxage=120, stale-while-revalidate=300',
+          'Cache-Control': 'private, max-age=120, stale-while-revalidate=300',
           'Content-Type': 'application/json'
         };
 
@@ -303,9 +307,10 @@ async function getWorkersHandler(request: NextRequest) {
 
     let incolinkRows: { id: string; incolink_member_id: string | null }[] = [];
     let placementRows: any[] = [];
+    let trainingRows: { worker_id: string | null; course_name: string | null }[] = [];
 
     if (workerIds.length > 0) {
-      const [incolinkQuery, placementsQuery] = await Promise.all([
+      const [incolinkQuery, placementsQuery, trainingQuery] = await Promise.all([
         supabase
           .from('workers')
           .select('id, incolink_member_id')
@@ -335,7 +340,12 @@ async function getWorkersHandler(request: NextRequest) {
               )
             )
           `)
+          .in('worker_id', workerIds),
+        supabase
+          .from('v_worker_training_status')
+          .select('worker_id, course_name')
           .in('worker_id', workerIds)
+          .in('status', ['overdue', 'never_trained'])
       ]);
 
       if (incolinkQuery.error) {
@@ -349,6 +359,12 @@ async function getWorkersHandler(request: NextRequest) {
       } else {
         placementRows = placementsQuery.data || [];
       }
+
+      if (trainingQuery.error) {
+        console.error('Workers API failed to load training status:', trainingQuery.error);
+      } else {
+        trainingRows = trainingQuery.data || [];
+      }
     }
 
     const incolinkMap = new Map<string, string | null>();
@@ -356,6 +372,16 @@ async function getWorkersHandler(request: NextRequest) {
       incolinkMap.set(row.id, row.incolink_member_id || null);
     });
 
+    // Delegates and HSRs whose required training has lapsed or was never done
+    const lapsedTrainingMap = new Map<string, Set<string>>();
+    trainingRows.forEach((row) => {
+      if (!row.worker_id || !row.course_name) return;
+      if (!lapsedTrainingMap.has(row.worker_id)) {
+        lapsedTrainingMap.set(row.worker_id, new Set<string>());
+      }
+      lapsedTrainingMap.get(row.worker_id)!.add(row.course_name);
+    });
+
     type WorkerAggregates = {
       hasActiveEba: boolean;
       hasActiveProject: boolean;
@@ -516,7 +542,7 @@ async function getWorkersHandler(request: NextRequest) {
     });
 
     // Transform data to match client expectations
-    const workers: WorkerRecord[] = rawWorkers.map((row: any) => {
+    const workerRecords: WorkerRecord[] = rawWorkers.map((row: any) => {
       const extra = aggregates.get(row.id) || {
         hasActiveEba: false,
         hasActiveProject: false,
@@ -559,6 +585,7 @@ async function getWorkersHandler(request: NextRequest) {
         has_incolink_id: Boolean(incolinkMember),
         has_active_eba: extra.hasActiveEba,
         has_active_project: extra.hasActiveProject,
+        lapsed_training_courses: Array.from(lapsedTrainingMap.get(row.id) ?? []),
         active_project_names: Array.from(extra.activeProjectNames),
         active_project_count: extra.activeProjectNames.size,
         employer_names: Array.from(extra.employerNames),
@@ -571,6 +598,8 @@ async function getWorkersHandler(request: NextRequest) {
       };
     });
 
+    const workers = redactRecords(workerRecords, fieldPermissions, 'workers');
+
     const totalCount = count || 0;
     const totalPages = Math.ceil(totalCount / pageSize);
     const queryTime = Date.now() - startTime;
@@ -598,9 +627,9 @@ async function getWorkersHandler(request: NextRequest) {
       }
     };
 
-    // Add cache headers
+    // Private: the response is redacted per user
     const headers = {
-      'Cache-Control': 'public, s-maxage=120, stale-while-revalidate=300',
+      'Cache-Control': 'private, max-age=120, stale-while-revalidate=300',
       'Content-Type': 'application/json'
     };
 
@@ -31,7 +31,7 @@ import {
   SidebarTrigger,
   SidebarInput,
 } from "@/components/ui/sidebar"
-import { LogOut, Users, Building, FolderOpen, FileCheck, Shield, BarChart3, Settings, Home, MapPin, Crown, QrCode, Search as SearchIcon, HelpCircle, AlertTriangle, ClipboardList, RotateCcw } from "lucide-react"
+import { LogOut, Users, Building, FolderOpen, FileCheck, Shield, BarChart3, Settings, Home, MapPin, Crown, QrCode, Search as SearchIcon, HelpCircle, AlertTriangle, ClipboardList, RotateCcw, GraduationCap, CreditCard } from "lucide-react"
 import AdminPatchSelector from "@/components/admin/AdminPatchSelector"
 import { useNavigationVisibility } from "@/hooks/useNavigationVisibility"
 import { useNavigationLoading } from "@/hooks/useNavigationLoading"
@@ -113,6 +113,16 @@ function useVisibleNavItems(userRole: string | null, isLoadingRole: boolean, cac
     if ((effectiveRole === "organiser" || effectiveRole === "lead_organiser" || effectiveRole === "admin")) {
       items.push({ path: "/delegated-tasks", label: "Delegated Tasks", icon: ClipboardList, description: "Track webform links and submissions" })
     }
+
+    // Training - show for organiser+ roles
+    if ((effectiveRole === "organiser" || effectiveRole === "lead_organiser" || effectiveRole === "admin")) {
+      items.push({ path: "/training", label: "Training", icon: GraduationCap, description: "Delegate and HSR training due" })
+    }
+
+    // DD conversion - show for organiser+ roles
+    if ((effectiveRole === "organiser" || effectiveRole === "lead_organiser" || effectiveRole === "admin")) {
+      items.push({ path: "/dd-conversion", label: "DD Conversion", icon: CreditCard, description: "Direct debit conversion funnel" })
+    }
   }
   
   // User Guide - always show
@@ -13,7 +13,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import {
-  Menu, LogOut, Users, Building, MapPin, BarChart3, FolderOpen, FileCheck, Shield, AlertTriangle, QrCode, HelpCircle, Crown, Settings, TrendingUp, ArrowLeft, Home, Search, ClipboardList, RotateCcw
+  Menu, LogOut, Users, Building, MapPin, BarChart3, FolderOpen, FileCheck, Shield, AlertTriangle, QrCode, HelpCircle, Crown, Settings, ArrowLeft, Home, Search, ClipboardList, RotateCcw, GraduationCap, CreditCard
 } from "lucide-react";
 import { WizardFloatingButton } from "@/components/siteVisitWizard/WizardFloatingButton";
 import Link from "next/link";
@@ -270,6 +270,16 @@ const Layout = ({ children, onRefresh }: LayoutProps) => {
     if (!isLoadingRole && userRole && (userRole === "organiser" || userRole === "lead_organiser" || userRole === "admin")) {
       items.push({ path: "/delegated-tasks", label: "Delegated Tasks", icon: ClipboardList });
     }
+
+    // Training - show for organiser+ roles
+    if (!isLoadingRole && userRole && (userRole === "organiser" || userRole === "lead_organiser" || userRole === "admin")) {
+      items.push({ path: "/training", label: "Training", icon: GraduationCap });
+    }
+
+    // DD conversion - show for organiser+ roles
+    if (!isLoadingRole && userRole && (userRole === "organiser" || userRole === "lead_organiser" || userRole === "admin")) {
+      items.push({ path: "/dd-conversion", label: "DD Conversion", icon: CreditCard });
+    }
     
     // Workers - check visibility
     if (visibility.workers) {
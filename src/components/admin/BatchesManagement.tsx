@@ -19,6 +19,8 @@ interface Batch {
   created_at: string
   processing_started_at: string | null
   processing_completed_at: string | null
+  boundary_detection_method: string | null
+  boundary_accuracy: number | null
 }
 
 export function BatchesManagement() {
@@ -52,7 +54,9 @@ export function BatchesManagement() {
             error_message,
             created_at,
             processing_started_at,
-            processing_completed_at
+            processing_completed_at,
+            boundary_detection_method,
+            boundary_accuracy
           `
           )
           .order('created_at', { ascending: false })
@@ -0,0 +1,873 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import Link from "next/link"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { format } from "date-fns"
+import { toast } from "sonner"
+import { ExternalLink, Loader2, Pencil, Play, Plus, Trash2 } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { DataQualityRule } from "@/lib/data-integration/monitoring/DataQualityMonitor"
+import {
+  QUALITY_RULE_TABLES,
+  QUALITY_RULE_TEMPLATES,
+  dataQualityRecordLink,
+  isAuthoredRule,
+  type QualityRuleParameters,
+  type QualityRulePreview,
+  type QualityRuleRunResult,
+  type QualityRuleTable,
+  type RuleCheck,
+  type RuleCondition,
+  type RuleConditionOperator,
+} from "@/lib/data-integration/monitoring/QualityRuleDefinitions"
+import type { DataQualityRuleSummary } from "@/app/api/admin/data-quality/rules/route"
+import type { DataQualityIssueItem } from "@/app/api/data-quality/issues/route"
+
+const SEVERITIES: DataQualityRule["severity"][] = ["low", "medium", "high", "critical"]
+
+const SEVERITY_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  low: "outline",
+  medium: "secondary",
+  high: "default",
+  critical: "destructive",
+}
+
+const OPERATOR_LABELS: Record<RuleConditionOperator, string> = {
+  eq: "equals",
+  neq: "does not equal",
+  in: "is one of",
+  blank: "is blank",
+  not_blank: "is not blank",
+}
+
+const CHECK_LABELS: Record<RuleCheck["kind"], string> = {
+  required: "Fields are filled in",
+  allowed_values: "Field is one of a list",
+  pattern: "Field matches a pattern",
+  unique: "Field is unique",
+  has_related: "Has a related record",
+}
+
+const ISSUE_STATUSES = [
+  { value: "open", label: "Open" },
+  { value: "investigating", label: "Investigating" },
+  { value: "resolved", label: "Resolved" },
+  { value: "false_positive", label: "False positive" },
+]
+
+const ALL = "all"
+const UNASSIGNED = "unassigned"
+
+interface ConditionDraft {
+  field: string
+  operator: RuleConditionOperator
+  value: string
+}
+
+// Lists are edited as comma separated text and parsed when the rule is built
+interface RuleDraft {
+  id?: string
+  name: string
+  description: string
+  table: QualityRuleTable
+  severity: DataQualityRule["severity"]
+  threshold: string
+  weight: string
+  scope: ConditionDraft[]
+  checkKind: RuleCheck["kind"]
+  checkField: string
+  checkFields: string
+  checkValues: string
+  checkPattern: string
+  relatedTable: string
+  relatedForeignKey: string
+  relatedConditions: ConditionDraft[]
+}
+
+interface DataQualityRulesManagerProps {
+  users: Array<{ id: string; full_name: string | null; email: string | null; role: string | null }>
+}
+
+const splitList = (value: string) => value.split(",").map((item) => item.trim()).filter(Boolean)
+
+const toConditionDraft = (condition: RuleCondition): ConditionDraft => ({
+  field: condition.field,
+  operator: condition.operator,
+  value: Array.isArray(condition.value) ? condition.value.join(", ") : condition.value ?? "",
+})
+
+const fromConditionDraft = (condition: ConditionDraft): RuleCondition => ({
+  field: condition.field.trim(),
+  operator: condition.operator,
+  ...(condition.operator === "in"
+    ? { value: splitList(condition.value) }
+    : condition.operator === "eq" || condition.operator === "neq"
+      ? { value: condition.value }
+      : {}),
+})
+
+function toDraft(
+  source: Pick<DataQualityRule, "name" | "description" | "severity"> & {
+    id?: string
+    table: string
+    parameters: QualityRuleParameters
+    threshold?: number
+    weight?: number
+  }
+): RuleDraft {
+  const check = source.parameters.check
+  return {
+    id: source.id,
+    name: source.name,
+    description: source.description,
+    table: source.table as QualityRuleTable,
+    severity: source.severity,
+    threshold: String(source.threshold ?? 95),
+    weight: String(source.weight ?? 1),
+    scope: (source.parameters.scope || []).map(toConditionDraft),
+    checkKind: check.kind,
+    checkField: "field" in check ? check.field : "",
+    checkFields: check.kind === "required" ? check.fields.join(", ") : "",
+    checkValues: check.kind === "allowed_values" ? check.values.join(", ") : "",
+    checkPattern: check.kind === "pattern" ? check.pattern : "",
+    relatedTable: check.kind === "has_related" ? check.table : "",
+    relatedForeignKey: check.kind === "has_related" ? check.foreignKey : "",
+    relatedConditions: check.kind === "has_related" ? (check.conditions || []).map(toConditionDraft) : [],
+  }
+}
+
+function buildParameters(draft: RuleDraft): QualityRuleParameters {
+  const field = draft.checkField.trim()
+  let check: RuleCheck
+  switch (draft.checkKind) {
+    case "required":
+      check = { kind: "required", fields: splitList(draft.checkFields) }
+      break
+    case "allowed_values":
+      check = { kind: "allowed_values", field, values: splitList(draft.checkValues) }
+      break
+    case "pattern":
+      check = { kind: "pattern", field, pattern: draft.checkPattern }
+      break
+    case "unique":
+      check = { kind: "unique", field }
+      break
+    case "has_related":
+      check = {
+        kind: "has_related",
+        table: draft.relatedTable.trim(),
+        foreignKey: draft.relatedForeignKey.trim(),
+        conditions: draft.relatedConditions.map(fromConditionDraft),
+      }
+      break
+  }
+  return { scope: draft.scope.map(fromConditionDraft), check }
+}
+
+const EMPTY_DRAFT = toDraft({
+  name: "",
+  description: "",
+  severity: "medium",
+  table: "projects",
+  parameters: { check: { kind: "required", fields: [] } },
+})
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    const details = Array.isArray(data.details) ? `: ${data.details.join("; ")}` : ""
+    throw new Error(`${data.error || `Request failed (${response.status})`}${details}`)
+  }
+  return data as T
+}
+
+function ConditionsEditor({
+  conditions,
+  onChange,
+  addLabel,
+}: {
+  conditions: ConditionDraft[]
+  onChange: (conditions: ConditionDraft[]) => void
+  addLabel: string
+}) {
+  const update = (index: number, patch: Partial<ConditionDraft>) =>
+    onChange(conditions.map((condition, i) => (i === index ? { ...condition, ...patch } : condition)))
+
+  return (
+    <div className="space-y-2">
+      {conditions.map((condition, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2">
+          <Input
+            className="h-8 w-40"
+            placeholder="column"
+            value={condition.field}
+            onChange={(e) => update(index, { field: e.target.value })}
+          />
+          <Select
+            value={condition.operator}
+            onValueChange={(value) => update(index, { operator: value as RuleConditionOperator })}
+          >
+            <SelectTrigger className="h-8 w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(OPERATOR_LABELS) as RuleConditionOperator[]).map((operator) => (
+                <SelectItem key={operator} value={operator}>{OPERATOR_LABELS[operator]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {condition.operator !== "blank" && condition.operator !== "not_blank" && (
+            <Input
+              className="h-8 w-48"
+              placeholder={condition.operator === "in" ? "values, comma separated" : "value"}
+              value={condition.value}
+              onChange={(e) => update(index, { value: e.target.value })}
+            />
+          )}
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => onChange(conditions.filter((_, i) => i !== index))}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...conditions, { field: "", operator: "eq", value: "" }])}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        {addLabel}
+      </Button>
+    </div>
+  )
+}
+
+export function DataQualityRulesManager({ users }: DataQualityRulesManagerProps) {
+  const queryClient = useQueryClient()
+  const [draft, setDraft] = useState<RuleDraft | null>(null)
+  const [preview, setPreview] = useState<QualityRulePreview | null>(null)
+  const [issueRuleFilter, setIssueRuleFilter] = useState(ALL)
+
+  const rulesQuery = useQuery<DataQualityRuleSummary[]>({
+    queryKey: ["admin-data-quality-rules"],
+    queryFn: async () => {
+      const data = await readJson<{ rules: DataQualityRuleSummary[] }>(await fetch("/api/admin/data-quality/rules"))
+      return data.rules
+    },
+  })
+
+  const issuesQuery = useQuery<DataQualityIssueItem[]>({
+    queryKey: ["data-quality-issues", issueRuleFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams()
+      if (issueRuleFilter !== ALL) params.set("ruleId", issueRuleFilter)
+      const data = await readJson<{ issues: DataQualityIssueItem[] }>(await fetch(`/api/data-quality/issues?${params}`))
+      return data.issues
+    },
+  })
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["admin-data-quality-rules"] })
+    queryClient.invalidateQueries({ queryKey: ["data-quality-issues"] })
+  }
+
+  const updateRule = useMutation({
+    mutationFn: async ({ id, ...changes }: { id: string } & Record<string, unknown>) =>
+      readJson(await fetch(`/api/admin/data-quality/rules/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      })),
+    onSuccess: invalidate,
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const deleteRule = useMutation({
+    mutationFn: async (id: string) =>
+      readJson(await fetch(`/api/admin/data-quality/rules/${id}`, { method: "DELETE" })),
+    onSuccess: () => {
+      toast.success("Rule deleted")
+      setIssueRuleFilter(ALL)
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const runRule = useMutation({
+    mutationFn: async (id: string) =>
+      readJson<{ result: QualityRuleRunResult }>(await fetch(`/api/admin/data-quality/rules/${id}/run`, { method: "POST" })),
+    onSuccess: ({ result }) => {
+      toast.success(
+        `${result.offending} of ${result.total} rows fail (score ${result.score}). ` +
+        `${result.created} new issues, ${result.resolved} resolved.`
+      )
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const previewRule = useMutation({
+    mutationFn: async (value: RuleDraft) =>
+      readJson<{ preview: QualityRulePreview }>(await fetch("/api/admin/data-quality/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ table: value.table, parameters: buildParameters(value) }),
+      })),
+    onSuccess: ({ preview }) => setPreview(preview),
+    onError: (error: Error) => {
+      setPreview(null)
+      toast.error(error.message)
+    },
+  })
+
+  const saveRule = useMutation({
+    mutationFn: async (value: RuleDraft) => {
+      const body = {
+        name: value.name,
+        description: value.description,
+        table: value.table,
+        severity: value.severity,
+        threshold: Number(value.threshold),
+        weight: Number(value.weight),
+        parameters: buildParameters(value),
+      }
+      return readJson(await fetch(
+        value.id ? `/api/admin/data-quality/rules/${value.id}` : "/api/admin/data-quality/rules",
+        {
+          method: value.id ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        }
+      ))
+    },
+    onSuccess: () => {
+      toast.success("Rule saved")
+      closeEditor()
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const updateIssue = useMutation({
+    mutationFn: async ({ id, ...changes }: { id: string; assignedTo?: string | null; status?: string }) =>
+      readJson(await fetch(`/api/data-quality/issues/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      })),
+    onSuccess: invalidate,
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const organisers = useMemo(
+    () => users.filter((u) => u.role === "organiser" || u.role === "lead_organiser" || u.role === "admin"),
+    [users]
+  )
+
+  const editDraft = (patch: Partial<RuleDraft>) => {
+    setDraft((current) => (current ? { ...current, ...patch } : current))
+    setPreview(null)
+  }
+
+  const closeEditor = () => {
+    setDraft(null)
+    setPreview(null)
+  }
+
+  const rules = rulesQuery.data ?? []
+  const issues = issuesQuery.data ?? []
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Data Quality Rules</CardTitle>
+            <CardDescription>
+              Rules flag records that break a data standard. Running a rule opens an issue for each failing record
+              and resolves issues whose records have been fixed. Enabled rules also run with the quality monitor.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => setDraft(EMPTY_DRAFT)}>
+            <Plus className="h-4 w-4 mr-1" />
+            New rule
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {rulesQuery.isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No rules yet. Start from a template with New rule.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rule</TableHead>
+                    <TableHead>Table</TableHead>
+                    <TableHead>Severity</TableHead>
+                    <TableHead>Enabled</TableHead>
+                    <TableHead className="w-24">Threshold</TableHead>
+                    <TableHead className="w-24">Weight</TableHead>
+                    <TableHead>Open issues</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map((rule) => {
+                    const authored = isAuthoredRule(rule.parameters)
+                    return (
+                      <TableRow key={rule.id}>
+                        <TableCell>
+                          <div className="font-medium">{rule.name}</div>
+                          {rule.description && (
+                            <div className="text-xs text-muted-foreground">{rule.description}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{QUALITY_RULE_TABLES[rule.table as QualityRuleTable] || rule.table}</TableCell>
+                        <TableCell>
+                          <Badge variant={SEVERITY_VARIANTS[rule.severity]}>{rule.severity}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={rule.enabled}
+                            disabled={updateRule.isPending}
+                            onCheckedChange={(enabled) => updateRule.mutate({ id: rule.id, enabled })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            key={`${rule.id}-threshold-${rule.threshold}`}
+                            type="number"
+                            min={0}
+                            max={100}
+                            className="h-8"
+                            defaultValue={rule.threshold}
+                            onBlur={(e) => {
+                              const threshold = Number(e.target.value)
+                              if (threshold !== rule.threshold) updateRule.mutate({ id: rule.id, threshold })
+                            }}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            key={`${rule.id}-weight-${rule.weight}`}
+                            type="number"
+                            min={0}
+                            step={0.1}
+                            className="h-8"
+                            defaultValue={rule.weight}
+                            onBlur={(e) => {
+                              const weight = Number(e.target.value)
+                              if (weight !== rule.weight) updateRule.mutate({ id: rule.id, weight })
+                            }}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button variant="link" className="h-auto p-0" onClick={() => setIssueRuleFilter(rule.id)}>
+                            {rule.openIssues}
+                          </Button>
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {authored && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Run now"
+                                disabled={runRule.isPending}
+                                onClick={() => runRule.mutate(rule.id)}
+                              >
+                                {runRule.isPending && runRule.variables === rule.id
+                                  ? <Loader2 className="h-4 w-4 animate-spin" />
+                                  : <Play className="h-4 w-4" />}
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Edit"
+                                onClick={() => setDraft(toDraft({ ...rule, parameters: rule.parameters as QualityRuleParameters }))}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Delete"
+                            disabled={deleteRule.isPending}
+                            onClick={() => {
+                              if (window.confirm(`Delete "${rule.name}" and its issues?`)) deleteRule.mutate(rule.id)
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Open Issues</CardTitle>
+            <CardDescription>
+              Assign a fix to an organiser. Assigned issues show on their dashboard with a link to the record.
+            </CardDescription>
+          </div>
+          <Select value={issueRuleFilter} onValueChange={setIssueRuleFilter}>
+            <SelectTrigger className="w-[260px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All rules</SelectItem>
+              {rules.map((rule) => (
+                <SelectItem key={rule.id} value={rule.id}>{rule.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {issuesQuery.isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : issues.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No open issues.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Record</TableHead>
+                    <TableHead>Rule</TableHead>
+                    <TableHead>Detected</TableHead>
+                    <TableHead>Assigned to</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {issues.map((issue) => (
+                    <TableRow key={issue.id}>
+                      <TableCell>
+                        {issue.link ? (
+                          <Link href={issue.link} className="inline-flex items-center gap-1 font-medium hover:underline">
+                            {issue.recordLabel || issue.recordId}
+                            <ExternalLink className="h-3 w-3" />
+                          </Link>
+                        ) : (
+                          <span className="font-medium">{issue.recordLabel || issue.recordId}</span>
+                        )}
+                        <div className="text-xs text-muted-foreground">
+                          {QUALITY_RULE_TABLES[issue.table as QualityRuleTable] || issue.table}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Badge variant={SEVERITY_VARIANTS[issue.severity]}>{issue.severity}</Badge>
+                          <span>{issue.ruleName}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {issue.detectedAt ? format(new Date(issue.detectedAt), "dd MMM yyyy") : "—"}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={issue.assignedTo?.id ?? UNASSIGNED}
+                          disabled={updateIssue.isPending}
+                          onValueChange={(value) =>
+                            updateIssue.mutate({ id: issue.id, assignedTo: value === UNASSIGNED ? null : value })
+                          }
+                        >
+                          <SelectTrigger className="h-8 w-[200px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                            {organisers.map((user) => (
+                              <SelectItem key={user.id} value={user.id}>
+                                {user.full_name || user.email || user.id}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={issue.status}
+                          disabled={updateIssue.isPending}
+                          onValueChange={(status) => updateIssue.mutate({ id: issue.id, status })}
+                        >
+                          <SelectTrigger className="h-8 w-[150px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ISSUE_STATUSES.map((status) => (
+                              <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && closeEditor()}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit rule" : "New rule"}</DialogTitle>
+            <DialogDescription>
+              Columns are the database column names on the table. Preview to check how many records fail before saving.
+            </DialogDescription>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-4">
+              {!draft.id && (
+                <div className="space-y-1">
+                  <Label>Start from a template</Label>
+                  <Select
+                    onValueChange={(key) => {
+                      const template = QUALITY_RULE_TEMPLATES.find((t) => t.key === key)
+                      if (template) {
+                        setDraft(toDraft(template))
+                        setPreview(null)
+                      }
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a template" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {QUALITY_RULE_TEMPLATES.map((template) => (
+                        <SelectItem key={template.key} value={template.key}>{template.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-1">
+                  <Label htmlFor="dq-rule-name">Name</Label>
+                  <Input id="dq-rule-name" value={draft.name} onChange={(e) => editDraft({ name: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label>Table</Label>
+                  <Select value={draft.table} onValueChange={(value) => editDraft({ table: value as QualityRuleTable })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(QUALITY_RULE_TABLES) as QualityRuleTable[]).map((table) => (
+                        <SelectItem key={table} value={table}>{QUALITY_RULE_TABLES[table]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="dq-rule-description">Description</Label>
+                <Textarea
+                  id="dq-rule-description"
+                  rows={2}
+                  value={draft.description}
+                  onChange={(e) => editDraft({ description: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Applies to records where</Label>
+                <ConditionsEditor
+                  conditions={draft.scope}
+                  onChange={(scope) => editDraft({ scope })}
+                  addLabel="Add condition"
+                />
+                {draft.scope.length === 0 && (
+                  <p className="text-xs text-muted-foreground">No conditions: the rule applies to every record.</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Check</Label>
+                <Select value={draft.checkKind} onValueChange={(value) => editDraft({ checkKind: value as RuleCheck["kind"] })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CHECK_LABELS) as RuleCheck["kind"][]).map((kind) => (
+                      <SelectItem key={kind} value={kind}>{CHECK_LABELS[kind]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                {draft.checkKind === "required" && (
+                  <Input
+                    placeholder="columns, comma separated"
+                    value={draft.checkFields}
+                    onChange={(e) => editDraft({ checkFields: e.target.value })}
+                  />
+                )}
+                {(draft.checkKind === "allowed_values" || draft.checkKind === "pattern" || draft.checkKind === "unique") && (
+                  <Input
+                    placeholder="column"
+                    value={draft.checkField}
+                    onChange={(e) => editDraft({ checkField: e.target.value })}
+                  />
+                )}
+                {draft.checkKind === "allowed_values" && (
+                  <Input
+                    placeholder="allowed values, comma separated"
+                    value={draft.checkValues}
+                    onChange={(e) => editDraft({ checkValues: e.target.value })}
+                  />
+                )}
+                {draft.checkKind === "pattern" && (
+                  <Input
+                    placeholder="regular expression"
+                    value={draft.checkPattern}
+                    onChange={(e) => editDraft({ checkPattern: e.target.value })}
+                  />
+                )}
+                {draft.checkKind === "has_related" && (
+                  <div className="space-y-2">
+                    <div className="grid gap-2 md:grid-cols-2">
+                      <Input
+                        placeholder="related table or view"
+                        value={draft.relatedTable}
+                        onChange={(e) => editDraft({ relatedTable: e.target.value })}
+                      />
+                      <Input
+                        placeholder="column pointing at this record"
+                        value={draft.relatedForeignKey}
+                        onChange={(e) => editDraft({ relatedForeignKey: e.target.value })}
+                      />
+                    </div>
+                    <ConditionsEditor
+                      conditions={draft.relatedConditions}
+                      onChange={(relatedConditions) => editDraft({ relatedConditions })}
+                      addLabel="Add related condition"
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-1">
+                  <Label>Severity</Label>
+                  <Select
+                    value={draft.severity}
+                    onValueChange={(value) => editDraft({ severity: value as DataQualityRule["severity"] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SEVERITIES.map((severity) => (
+                        <SelectItem key={severity} value={severity}>{severity}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="dq-rule-threshold">Pass threshold (%)</Label>
+                  <Input
+                    id="dq-rule-threshold"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={draft.threshold}
+                    onChange={(e) => editDraft({ threshold: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="dq-rule-weight">Weight</Label>
+                  <Input
+                    id="dq-rule-weight"
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={draft.weight}
+                    onChange={(e) => editDraft({ weight: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              {preview && (
+                <div className="rounded-md border p-3 text-sm space-y-2">
+                  <div className="font-medium">
+                    {preview.offending} of {preview.total} records fail this rule
+                  </div>
+                  {preview.sample.length > 0 && (
+                    <ul className="space-y-1">
+                      {preview.sample.map((row) => {
+                        const link = draft.table === "job_sites"
+                          ? null
+                          : dataQualityRecordLink(draft.table, row.recordId, { label: row.label })
+                        return (
+                          <li key={row.recordId}>
+                            {link ? (
+                              <Link href={link} target="_blank" className="hover:underline">{row.label || row.recordId}</Link>
+                            ) : (
+                              row.label || row.recordId
+                            )}
+                          </li>
+                        )
+                      })}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              disabled={!draft || previewRule.isPending}
+              onClick={() => draft && previewRule.mutate(draft)}
+            >
+              {previewRule.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Preview
+            </Button>
+            <Button disabled={!draft || saveRule.isPending} onClick={() => draft && saveRule.mutate(draft)}>
+              {saveRule.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Save rule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -14,6 +14,7 @@ import { Label } from '@/components/ui/label'
 import { useToast } from '@/hooks/use-toast'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Badge } from '@/components/ui/badge'
+import { formatAbn } from '@/lib/employers/abn'
 
 interface EmployerRecord {
   id: string;
@@ -49,6 +50,13 @@ interface DuplicateGroup {
   mergeDecision?: 'merge' | 'keep_separate' | 'delete_duplicates';
   confidence: 'high' | 'medium' | 'low';
   isManual?: boolean;
+  sharedAbn?: string;
+}
+
+interface SharedAbnGroup {
+  abn: string;
+  abnValid: boolean;
+  employerIds: string[];
 }
 
 interface MergeResult {
@@ -317,6 +325,34 @@ export default function DuplicateEmployerManager() {
     };
   };
 
+  // Suggest primary based on data richness, or older records as tiebreaker
+  const pickSuggestedPrimary = (candidates: EmployerRecord[]): EmployerRecord => {
+    return candidates.reduce((best, current) => {
+      const bestScore = (best.worker_count || 0) + (best.project_count || 0) + (best.eba_records_count || 0);
+      const currentScore = (current.worker_count || 0) + (current.project_count || 0) + (current.eba_records_count || 0);
+
+      if (currentScore > bestScore) return current;
+      if (currentScore === bestScore && new Date(current.created_at) < new Date(best.created_at)) return current;
+      return best;
+    });
+  };
+
+  // Employers sharing an ABN, from the admin report. Non-fatal if unavailable.
+  const loadSharedAbnGroups = async (): Promise<SharedAbnGroup[]> => {
+    try {
+      const response = await fetch('/api/admin/shared-abn-employers');
+      if (!response.ok) {
+        console.warn('Shared ABN report unavailable:', await response.text());
+        return [];
+      }
+      const report = await response.json();
+      return report.groups || [];
+    } catch (error) {
+      console.warn('Shared ABN report failed (non-fatal):', error);
+      return [];
+    }
+  };
+
   // Scan for duplicates
   const scanForDuplicates = async () => {
     setIsScanning(true);
@@ -325,6 +361,27 @@ export default function DuplicateEmployerManager() {
       const processedPairs = new Set<string>();
       const processedEmployers = new Set<string>();
 
+      // Employers registered under the same ABN are grouped before any name comparison
+      const employersById = new Map(employers.map(emp => [emp.id, emp]));
+      const sharedAbnGroups = await loadSharedAbnGroups();
+      for (const sharedAbn of sharedAbnGroups) {
+        const sharedEmployers = sharedAbn.employerIds
+          .map(id => employersById.get(id))
+          .filter((emp): emp is EmployerRecord => Boolean(emp) && !processedEmployers.has(emp!.id));
+        if (sharedEmployers.length < 2) continue;
+
+        groups.push({
+          id: `group-${groups.length}`,
+          employers: sharedEmployers,
+          similarity: 1,
+          suggestedPrimary: pickSuggestedPrimary(sharedEmployers),
+          confidence: sharedAbn.abnValid ? 'high' : 'medium',
+          sharedAbn: sharedAbn.abn
+        });
+        sharedEmployers.forEach(emp => processedEmployers.add(emp.id));
+      }
+      const sharedAbnGroupCount = groups.length;
+
       for (let i = 0; i < employers.length; i++) {
         const employer1 = employers[i];
         if (processedEmployers.has(employer1.id)) continue;
@@ -333,6 +390,7 @@ export default function DuplicateEmployerManager() {
 
         for (let j = i + 1; j < employers.length; j++) {
           const employer2 = employers[j];
+          if (processedEmployers.has(employer2.id)) continue;
           const pairKey = `${employer1.id}:${employer2.id}`;
           if (processedPairs.has(pairKey)) continue;
 
@@ -378,16 +436,7 @@ export default function DuplicateEmployerManager() {
 
         // Only create groups with 2+ employers
         if (similarEmployers.length > 1) {
-          // Suggest primary based on data richness
-          const suggestedPrimary = similarEmployers.reduce((best, current) => {
-            const bestScore = (best.worker_count || 0) + (best.project_count || 0) + (best.eba_records_count || 0);
-            const currentScore = (current.worker_count || 0) + (current.project_count || 0) + (current.eba_records_count || 0);
-            
-            // Prefer employers with more data, or older records as tiebreaker
-            if (currentScore > bestScore) return current;
-            if (currentScore === bestScore && new Date(current.created_at) < new Date(best.created_at)) return current;
-            return best;
-          });
+          const suggestedPrimary = pickSuggestedPrimary(similarEmployers);
 
           const maxSimilarity = Math.max(
             ...similarEmployers.slice(1).map(emp => 
@@ -420,7 +469,9 @@ export default function DuplicateEmployerManager() {
       
       toast({
         title: 'Duplicate scan complete',
-        description: `Found ${groups.length} potential duplicate groups`
+        description: sharedAbnGroupCount > 0
+          ? `Found ${groups.length} potential duplicate groups, ${sharedAbnGroupCount} sharing an ABN`
+          : `Found ${groups.length} potential duplicate groups`
       });
     } catch (error) {
       console.error('Error scanning for duplicates:', error);
@@ -562,6 +613,7 @@ export default function DuplicateEmployerManager() {
     if (!searchTerm) return duplicateGroups;
     const term = searchTerm.toLowerCase();
     return duplicateGroups.filter(group =>
+      group.sharedAbn?.includes(term.replace(/\s/g, '')) ||
       group.employers.some(emp => 
         emp.name.toLowerCase().includes(term) ||
         emp.address_line_1?.toLowerCase().includes(term)
@@ -777,7 +829,7 @@ export default function DuplicateEmployerManager() {
               <Label htmlFor="search">Search Employers</Label>
               <Input
                 id="search"
-                placeholder="Search by company name, address..."
+                placeholder="Search by company name, address, shared ABN..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
               />
@@ -962,9 +1014,15 @@ export default function DuplicateEmployerManager() {
                       <Badge variant={group.confidence === 'high' ? 'destructive' : group.confidence === 'medium' ? 'secondary' : 'outline'}>
                         {group.confidence} confidence
                       </Badge>
-                      <Badge variant="outline">
-                        {Math.round(group.similarity * 100)}% similar
-                      </Badge>
+                      {group.sharedAbn ? (
+                        <Badge variant="outline">
+                          Shared ABN {formatAbn(group.sharedAbn)}
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline">
+                          {Math.round(group.similarity * 100)}% similar
+                        </Badge>
+                      )}
                       <span className="text-sm text-gray-600">
                         {group.employers.length} employers
                       </span>
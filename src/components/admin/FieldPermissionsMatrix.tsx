@@ -0,0 +1,320 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { accessFlags, toFieldAccess, type FieldAccess } from "@/lib/auth/fieldPermissions"
+
+const MATRIX_ROLES = [
+  { value: "lead_organiser", label: "Co-ordinator" },
+  { value: "organiser", label: "Organiser" },
+  { value: "delegate", label: "Delegate" },
+  { value: "viewer", label: "Viewer" },
+  { value: "public_form", label: "Public form" },
+] as const
+
+type MatrixRole = typeof MATRIX_ROLES[number]["value"]
+
+const ENTITY_LABELS: Record<string, string> = {
+  workers: "Workers",
+  worker_memberships: "Worker dues",
+  employers: "Employers",
+  projects: "Projects",
+  site_contacts: "Site contacts",
+  job_sites: "Job sites",
+  company_eba_records: "EBA records",
+  union_activities: "Union activities",
+}
+
+const ACCESS_LABELS: Record<FieldAccess, string> = {
+  edit: "Edit",
+  view: "View only",
+  hidden: "Hidden",
+}
+
+// Select value for "no row": the role default, or the delegate's role permission
+const UNSET = "unset"
+
+interface EntityField {
+  id: string
+  entity_type: string
+  field_name: string
+  field_label: string
+  is_sensitive: boolean
+  default_viewable: boolean
+  default_editable: boolean
+}
+
+interface FieldPermissionRow {
+  entity_field_id: string
+  role: string
+  can_view: boolean
+  can_edit: boolean
+}
+
+interface DelegateOverrideRow {
+  entity_field_id: string
+  can_view: boolean
+  can_edit: boolean
+}
+
+interface FieldPermissionsMatrixProps {
+  users: Array<{ id: string; full_name: string | null; email: string | null; role: string | null }>
+}
+
+export function FieldPermissionsMatrix({ users }: FieldPermissionsMatrixProps) {
+  const queryClient = useQueryClient()
+  const [organiserId, setOrganiserId] = useState<string>("")
+
+  const { data: fields = [], isLoading: fieldsLoading } = useQuery({
+    queryKey: ["admin-entity-fields"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("entity_fields")
+        .select("id, entity_type, field_name, field_label, is_sensitive, default_viewable, default_editable")
+        .order("entity_type")
+        .order("field_label")
+      if (error) throw error
+      return (data || []) as EntityField[]
+    },
+  })
+
+  const { data: rolePermissions = [], isLoading: permissionsLoading } = useQuery({
+    queryKey: ["admin-field-permissions"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("field_permissions")
+        .select("entity_field_id, role, can_view, can_edit")
+      if (error) throw error
+      return (data || []) as FieldPermissionRow[]
+    },
+  })
+
+  const { data: delegateOverrides = [] } = useQuery({
+    queryKey: ["admin-delegate-field-permissions", organiserId],
+    enabled: !!organiserId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("delegate_field_permissions")
+        .select("entity_field_id, can_view, can_edit")
+        .eq("organiser_id", organiserId)
+      if (error) throw error
+      return (data || []) as DelegateOverrideRow[]
+    },
+  })
+
+  const setRoleAccess = useMutation({
+    mutationFn: async ({ fieldId, role, value }: { fieldId: string; role: MatrixRole; value: string }) => {
+      const { error } = value === UNSET
+        ? await supabase.from("field_permissions").delete().eq("entity_field_id", fieldId).eq("role", role)
+        : await supabase
+            .from("field_permissions")
+            .upsert(
+              { entity_field_id: fieldId, role, ...accessFlags(value as FieldAccess) },
+              { onConflict: "entity_field_id,role" }
+            )
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-field-permissions"] })
+      queryClient.invalidateQueries({ queryKey: ["field-permissions"] })
+    },
+    onError: (error) => {
+      console.error("Failed to update field permission:", error)
+      toast.error("Failed to update field permission")
+    },
+  })
+
+  const setDelegateAccess = useMutation({
+    mutationFn: async ({ fieldId, value }: { fieldId: string; value: string }) => {
+      const { error } = value === UNSET
+        ? await supabase
+            .from("delegate_field_permissions")
+            .delete()
+            .eq("organiser_id", organiserId)
+            .eq("entity_field_id", fieldId)
+        : await supabase
+            .from("delegate_field_permissions")
+            .upsert(
+              { organiser_id: organiserId, entity_field_id: fieldId, ...accessFlags(value as FieldAccess) },
+              { onConflict: "organiser_id,entity_field_id" }
+            )
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-delegate-field-permissions", organiserId] })
+    },
+    onError: (error) => {
+      console.error("Failed to update delegate field permission:", error)
+      toast.error("Failed to update delegate override")
+    },
+  })
+
+  const roleAccess = useMemo(() => {
+    const map = new Map<string, FieldAccess>()
+    rolePermissions.forEach((row) => map.set(`${row.entity_field_id}:${row.role}`, toFieldAccess(row.can_view, row.can_edit)))
+    return map
+  }, [rolePermissions])
+
+  const overrideAccess = useMemo(() => {
+    const map = new Map<string, FieldAccess>()
+    delegateOverrides.forEach((row) => map.set(row.entity_field_id, toFieldAccess(row.can_view, row.can_edit)))
+    return map
+  }, [delegateOverrides])
+
+  const fieldsByEntity = useMemo(() => {
+    const groups = new Map<string, EntityField[]>()
+    fields.forEach((field) => {
+      groups.set(field.entity_type, [...(groups.get(field.entity_type) || []), field])
+    })
+    return Array.from(groups.entries())
+  }, [fields])
+
+  const organisers = useMemo(
+    () => users.filter((u) => u.role === "organiser" || u.role === "lead_organiser"),
+    [users]
+  )
+
+  const defaultAccess = (field: EntityField) => toFieldAccess(field.default_viewable, field.default_editable)
+  const isSaving = setRoleAccess.isPending || setDelegateAccess.isPending
+
+  if (fieldsLoading || permissionsLoading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const accessSelect = (value: string, unsetLabel: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange} disabled={isSaving}>
+      <SelectTrigger className="h-8 w-[150px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNSET}>{unsetLabel}</SelectItem>
+        {(Object.keys(ACCESS_LABELS) as FieldAccess[]).map((access) => (
+          <SelectItem key={access} value={access}>{ACCESS_LABELS[access]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Field Permissions</CardTitle>
+          <CardDescription>
+            Hide fields or make them view-only per role. Admins can always view and edit every field.
+            Hidden fields are blanked in API responses and writes to locked fields are rejected.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {fieldsByEntity.length === 0 && (
+            <p className="text-sm text-muted-foreground">No fields are registered in entity_fields.</p>
+          )}
+          {fieldsByEntity.map(([entityType, entityFields]) => (
+            <div key={entityType} className="overflow-x-auto">
+              <h4 className="text-base font-semibold mb-2">{ENTITY_LABELS[entityType] || entityType}</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-56">Field</TableHead>
+                    {MATRIX_ROLES.map((role) => (
+                      <TableHead key={role.value}>{role.label}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entityFields.map((field) => (
+                    <TableRow key={field.id}>
+                      <TableCell>
+                        <div className="font-medium">{field.field_label}</div>
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                          <code>{field.field_name}</code>
+                          {field.is_sensitive && <Badge variant="outline">Sensitive</Badge>}
+                        </div>
+                      </TableCell>
+                      {MATRIX_ROLES.map((role) => (
+                        <TableCell key={role.value}>
+                          {accessSelect(
+                            roleAccess.get(`${field.id}:${role.value}`) || UNSET,
+                            `Default (${ACCESS_LABELS[defaultAccess(field)]})`,
+                            (value) => setRoleAccess.mutate({ fieldId: field.id, role: role.value, value })
+                          )}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Delegate Overrides</CardTitle>
+          <CardDescription>
+            Override the delegate permissions for delegates reporting to one organiser. Where a delegate reports to
+            several organisers, the most permissive override applies.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Select value={organiserId} onValueChange={setOrganiserId}>
+            <SelectTrigger className="w-full md:w-[320px]">
+              <SelectValue placeholder="Select an organiser" />
+            </SelectTrigger>
+            <SelectContent>
+              {organisers.map((user) => (
+                <SelectItem key={user.id} value={user.id}>
+                  {user.full_name || user.email || user.id}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {organiserId && (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Field</TableHead>
+                    <TableHead className="w-[170px]">Delegates</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {fields.map((field) => (
+                    <TableRow key={field.id}>
+                      <TableCell>
+                        <span className="text-muted-foreground">{ENTITY_LABELS[field.entity_type] || field.entity_type}:</span>{" "}
+                        {field.field_label}
+                      </TableCell>
+                      <TableCell>
+                        {accessSelect(
+                          overrideAccess.get(field.id) || UNSET,
+                          "Delegate role",
+                          (value) => setDelegateAccess.mutate({ fieldId: field.id, value })
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
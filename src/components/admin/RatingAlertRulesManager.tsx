@@ -0,0 +1,407 @@
+"use client"
+
+import { useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Textarea } from "@/components/ui/textarea"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { ConfidenceLevel } from "@/types/rating-api"
+import {
+  CONFIDENCE_LEVELS,
+  MAX_DIVERGENCE_LEVELS,
+  RATED_TRAFFIC_LIGHTS,
+  RATING_ALERT_LEVELS,
+  RATING_ALERT_RULE_LABELS,
+  RATING_ALERT_RULE_TYPES,
+  defaultRatingAlertRuleParameters,
+  describeRatingAlertRule,
+  type RatedTrafficLight,
+  type RatingAlertLevel,
+  type RatingAlertRuleParameters,
+  type RatingAlertRuleType,
+} from "@/lib/rating-alerts/alertRules"
+import type { RatingAlertRuleSummary } from "@/app/api/admin/rating-alert-rules/route"
+
+// Every parameter is kept in the draft so switching rule type doesn't lose edits
+interface RuleDraft {
+  id?: string
+  name: string
+  description: string
+  ruleType: RatingAlertRuleType
+  alertLevel: RatingAlertLevel
+  from: RatedTrafficLight[]
+  to: RatedTrafficLight[]
+  minimum: ConfidenceLevel
+  levels: number
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: "",
+  description: "",
+  ruleType: "rating_drop",
+  alertLevel: "warning",
+  from: ["green"],
+  to: ["red"],
+  minimum: "medium",
+  levels: MAX_DIVERGENCE_LEVELS,
+}
+
+function toDraft(rule: RatingAlertRuleSummary): RuleDraft {
+  const parameters = { ...defaultRatingAlertRuleParameters(rule.ruleType), ...rule.parameters }
+  return {
+    ...EMPTY_DRAFT,
+    ...parameters,
+    id: rule.id,
+    name: rule.name,
+    description: rule.description ?? "",
+    ruleType: rule.ruleType,
+    alertLevel: rule.alertLevel,
+  }
+}
+
+function buildParameters(draft: RuleDraft): RatingAlertRuleParameters {
+  switch (draft.ruleType) {
+    case "rating_drop":
+      return { from: draft.from, to: draft.to }
+    case "confidence_below":
+      return { minimum: draft.minimum }
+    case "track_divergence":
+      return { levels: draft.levels }
+    case "rating_expired":
+      return {}
+  }
+}
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    const details = Array.isArray(data.details) ? `: ${data.details.join("; ")}` : ""
+    throw new Error(`${data.error || `Request failed (${response.status})`}${details}`)
+  }
+  return data as T
+}
+
+function RatingChoices({
+  label,
+  value,
+  onChange,
+}: {
+  label: string
+  value: RatedTrafficLight[]
+  onChange: (value: RatedTrafficLight[]) => void
+}) {
+  return (
+    <div className="space-y-1">
+      <Label>{label}</Label>
+      <div className="flex gap-4">
+        {RATED_TRAFFIC_LIGHTS.map((rating) => (
+          <label key={rating} className="flex items-center gap-2 text-sm capitalize">
+            <Checkbox
+              checked={value.includes(rating)}
+              onCheckedChange={(checked) =>
+                onChange(checked ? [...value, rating] : value.filter((r) => r !== rating))
+              }
+            />
+            {rating}
+          </label>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Admin editor for the rules that raise rating alerts when a final rating is calculated.
+ */
+export function RatingAlertRulesManager() {
+  const queryClient = useQueryClient()
+  const [draft, setDraft] = useState<RuleDraft | null>(null)
+
+  const rulesQuery = useQuery<RatingAlertRuleSummary[]>({
+    queryKey: ["admin-rating-alert-rules"],
+    queryFn: async () => {
+      const data = await readJson<{ rules: RatingAlertRuleSummary[] }>(await fetch("/api/admin/rating-alert-rules"))
+      return data.rules
+    },
+  })
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["admin-rating-alert-rules"] })
+
+  const updateRule = useMutation({
+    mutationFn: async ({ id, ...changes }: { id: string } & Record<string, unknown>) =>
+      readJson(await fetch(`/api/admin/rating-alert-rules/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      })),
+    onSuccess: invalidate,
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const deleteRule = useMutation({
+    mutationFn: async (id: string) =>
+      readJson(await fetch(`/api/admin/rating-alert-rules/${id}`, { method: "DELETE" })),
+    onSuccess: () => {
+      toast.success("Rule deleted")
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const saveRule = useMutation({
+    mutationFn: async (value: RuleDraft) => {
+      const body = {
+        name: value.name,
+        description: value.description,
+        alertLevel: value.alertLevel,
+        parameters: buildParameters(value),
+        ...(value.id ? {} : { ruleType: value.ruleType }),
+      }
+      return readJson(await fetch(value.id ? `/api/admin/rating-alert-rules/${value.id}` : "/api/admin/rating-alert-rules", {
+        method: value.id ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      }))
+    },
+    onSuccess: () => {
+      toast.success("Rule saved")
+      setDraft(null)
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const editDraft = (patch: Partial<RuleDraft>) =>
+    setDraft((current) => (current ? { ...current, ...patch } : current))
+
+  const rules = rulesQuery.data ?? []
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Rating Alert Rules</CardTitle>
+            <CardDescription>
+              Rules are checked every time an employer&apos;s final rating is calculated, and expiry is checked daily.
+              Alerts go to organisers subscribed to the employer or one of its patches.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => setDraft(EMPTY_DRAFT)}>
+            <Plus className="h-4 w-4 mr-1" />
+            New rule
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {rulesQuery.isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No rules yet. Ratings will not raise alerts.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rule</TableHead>
+                    <TableHead>Fires when</TableHead>
+                    <TableHead className="w-36">Level</TableHead>
+                    <TableHead>Enabled</TableHead>
+                    <TableHead>Open alerts</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map((rule) => (
+                    <TableRow key={rule.id}>
+                      <TableCell>
+                        <div className="font-medium">{rule.name}</div>
+                        {rule.description && (
+                          <div className="text-xs text-muted-foreground">{rule.description}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{describeRatingAlertRule(rule.ruleType, rule.parameters)}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={rule.alertLevel}
+                          disabled={updateRule.isPending}
+                          onValueChange={(alertLevel) => updateRule.mutate({ id: rule.id, alertLevel })}
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {RATING_ALERT_LEVELS.map((level) => (
+                              <SelectItem key={level} value={level} className="capitalize">{level}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={rule.enabled}
+                          disabled={updateRule.isPending}
+                          onCheckedChange={(enabled) => updateRule.mutate({ id: rule.id, enabled })}
+                        />
+                      </TableCell>
+                      <TableCell>{rule.openAlerts}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="icon" title="Edit" onClick={() => setDraft(toDraft(rule))}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Delete"
+                          disabled={deleteRule.isPending}
+                          onClick={() => {
+                            if (window.confirm(`Delete "${rule.name}"? Alerts it raised are kept.`)) deleteRule.mutate(rule.id)
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit rule" : "New rule"}</DialogTitle>
+            <DialogDescription>
+              Changes apply from the next rating calculation. Existing alerts are not re-evaluated.
+            </DialogDescription>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="rating-alert-rule-name">Name</Label>
+                <Input
+                  id="rating-alert-rule-name"
+                  value={draft.name}
+                  onChange={(e) => editDraft({ name: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="rating-alert-rule-description">Description</Label>
+                <Textarea
+                  id="rating-alert-rule-description"
+                  rows={2}
+                  value={draft.description}
+                  onChange={(e) => editDraft({ description: e.target.value })}
+                />
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-1">
+                  <Label>Type</Label>
+                  <Select
+                    value={draft.ruleType}
+                    disabled={!!draft.id}
+                    onValueChange={(value) => editDraft({ ruleType: value as RatingAlertRuleType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RATING_ALERT_RULE_TYPES.map((ruleType) => (
+                        <SelectItem key={ruleType} value={ruleType}>{RATING_ALERT_RULE_LABELS[ruleType]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Level</Label>
+                  <Select
+                    value={draft.alertLevel}
+                    onValueChange={(value) => editDraft({ alertLevel: value as RatingAlertLevel })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RATING_ALERT_LEVELS.map((level) => (
+                        <SelectItem key={level} value={level} className="capitalize">{level}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {draft.ruleType === "rating_drop" && (
+                <div className="space-y-3">
+                  <RatingChoices label="Previous rating" value={draft.from} onChange={(from) => editDraft({ from })} />
+                  <RatingChoices label="New rating" value={draft.to} onChange={(to) => editDraft({ to })} />
+                </div>
+              )}
+
+              {draft.ruleType === "confidence_below" && (
+                <div className="space-y-1">
+                  <Label>Alert when confidence is below</Label>
+                  <Select
+                    value={draft.minimum}
+                    onValueChange={(value) => editDraft({ minimum: value as ConfidenceLevel })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CONFIDENCE_LEVELS.filter((level) => level !== "very_low").map((level) => (
+                        <SelectItem key={level} value={level} className="capitalize">{level.replace("_", " ")}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {draft.ruleType === "track_divergence" && (
+                <div className="space-y-1">
+                  <Label htmlFor="rating-alert-rule-levels">Levels apart (1 = green vs amber, 2 = green vs red)</Label>
+                  <Input
+                    id="rating-alert-rule-levels"
+                    type="number"
+                    min={1}
+                    max={MAX_DIVERGENCE_LEVELS}
+                    value={draft.levels}
+                    onChange={(e) => editDraft({ levels: Number(e.target.value) })}
+                  />
+                </div>
+              )}
+
+              {draft.ruleType === "rating_expired" && (
+                <p className="text-sm text-muted-foreground">
+                  Fires once a rating passes its expiry date, and clears when the rating is recalculated.
+                </p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button disabled={!draft || saveRule.isPending} onClick={() => draft && saveRule.mutate(draft)}>
+              {saveRule.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Save rule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
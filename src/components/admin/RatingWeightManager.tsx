@@ -42,10 +42,14 @@ import {
   AlertTriangle,
   CheckCircle,
   Info,
-  Plus
+  GitCompare
 } from "lucide-react";
+import type { CalculationMethodSummary } from "@/lib/rating-engine/core/CalculationMethodRegistry";
+import type { MethodComparisonReport } from "@/lib/rating-engine/core/MethodComparison";
 
 interface WeightConfig {
+  id: string;
+  calculation_method: string;
   track: 'organiser_expertise' | 'project_data';
   weights: {
     union_respect: number;
@@ -94,6 +98,11 @@ export function RatingWeightManager() {
     compliance: 0 // EBA is gating factor, not part of weights
   });
 
+  const [availableMethods, setAvailableMethods] = useState<CalculationMethodSummary[]>([]);
+  const [updatingMethodFor, setUpdatingMethodFor] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<MethodComparisonReport | null>(null);
+  const [comparing, setComparing] = useState(false);
+
   const [formData, setFormData] = useState({
     name: '',
     description: ''
@@ -107,6 +116,7 @@ export function RatingWeightManager() {
 
       if (response.ok) {
         setConfigs(data.configurations || []);
+        setAvailableMethods(data.available_methods || []);
 
         // Set current weights
         if (data.current_weights) {
@@ -210,6 +220,80 @@ export function RatingWeightManager() {
     }
   };
 
+  // Choose the calculation method for a weighting template
+  const updateCalculationMethod = async (config: WeightConfig, calculationMethod: string) => {
+    setUpdatingMethodFor(config.id);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch('/api/admin/rating-weights', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          config_id: config.id,
+          calculation_method: calculationMethod
+        })
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setSuccess(`Calculation method for ${config.name} updated`);
+        setConfigs(prev => prev.map(c => c.id === config.id ? { ...c, calculation_method: calculationMethod } : c));
+      } else {
+        setError(data.error || 'Failed to update calculation method');
+      }
+    } catch {
+      setError('Failed to update calculation method');
+    } finally {
+      setUpdatingMethodFor(null);
+    }
+  };
+
+  // Run every registered method over a sample of employers
+  const runComparison = async () => {
+    setComparing(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/rating-methods/compare', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ sample_size: 25 })
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setComparison(data);
+      } else {
+        setError(data.error || 'Failed to compare calculation methods');
+      }
+    } catch {
+      setError('Failed to compare calculation methods');
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const ratingBadgeClass = (rating: string) => {
+    switch (rating) {
+      case 'green':
+        return 'bg-green-100 text-green-800';
+      case 'amber':
+        return 'bg-amber-100 text-amber-800';
+      case 'red':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
   // Reset to defaults
   const resetToDefaults = (track: 'organiser_expertise' | 'project_data') => {
     if (track === 'organiser_expertise') {
@@ -496,6 +580,146 @@ export function RatingWeightManager() {
         </TabsContent>
       </Tabs>
 
+      {/* Calculation Method */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Calculation Method</CardTitle>
+          <CardDescription>
+            Choose how each weighting template combines project, expertise and EBA scores into the final rating
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {configs.map((config) => {
+            const selected = availableMethods.find(m => m.id === config.calculation_method);
+            return (
+              <div key={config.id} className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{config.name}</span>
+                    <Badge variant="outline">{config.track.replace('_', ' ')}</Badge>
+                  </div>
+                  {selected && (
+                    <p className="text-sm text-muted-foreground">{selected.description}</p>
+                  )}
+                </div>
+                <Select
+                  value={config.calculation_method}
+                  onValueChange={(value) => updateCalculationMethod(config, value)}
+                  disabled={updatingMethodFor === config.id}
+                >
+                  <SelectTrigger className="w-full md:w-56">
+                    <SelectValue placeholder="Select method" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableMethods.map((method) => (
+                      <SelectItem key={method.id} value={method.id}>
+                        {method.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          })}
+          {configs.length === 0 && (
+            <p className="text-sm text-muted-foreground">No active weighting templates</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Method Comparison */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5" />
+            Compare Calculation Methods
+          </CardTitle>
+          <CardDescription>
+            Run every registered method over a sample of recently rated employers. Nothing is saved.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Button onClick={runComparison} disabled={comparing}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${comparing ? 'animate-spin' : ''}`} />
+            {comparing ? 'Comparing...' : 'Run Comparison'}
+          </Button>
+
+          {comparison && (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Method</TableHead>
+                    <TableHead>Mean Score</TableHead>
+                    <TableHead>Green / Amber / Red</TableHead>
+                    <TableHead>Changed vs {comparison.baseline_method.replace('_', ' ')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {comparison.summary.map((summary) => (
+                    <TableRow key={summary.method}>
+                      <TableCell className="font-medium">{summary.name}</TableCell>
+                      <TableCell className="font-mono">
+                        {summary.mean_score !== null ? summary.mean_score.toFixed(1) : '—'}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {summary.rating_distribution.green} / {summary.rating_distribution.amber} / {summary.rating_distribution.red}
+                      </TableCell>
+                      <TableCell>
+                        {summary.changed_from_baseline} of {comparison.sample_size}
+                        {summary.errors > 0 && (
+                          <Badge variant="destructive" className="ml-2">{summary.errors} failed</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Employer</TableHead>
+                    {comparison.methods.map((method) => (
+                      <TableHead key={method.id}>{method.name}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {comparison.rows.map((row) => (
+                    <TableRow key={row.employer_id} className={row.ratings_differ ? 'bg-amber-50' : undefined}>
+                      <TableCell>{row.employer_name || row.employer_id}</TableCell>
+                      {comparison.methods.map((method) => {
+                        const cell = row.results[method.id];
+                        return (
+                          <TableCell key={method.id}>
+                            {cell && !cell.error ? (
+                              <div className="flex items-center gap-2">
+                                <Badge className={ratingBadgeClass(cell.final_rating)}>{cell.final_rating}</Badge>
+                                <span className="font-mono text-xs">{cell.final_score?.toFixed(1)}</span>
+                              </div>
+                            ) : (
+                              <span className="text-xs text-destructive">{cell?.error || 'Not calculated'}</span>
+                            )}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                  {comparison.rows.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={comparison.methods.length + 1} className="text-center py-4 text-muted-foreground">
+                        No employers in sample
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Weight History */}
       <Card>
         <CardHeader>
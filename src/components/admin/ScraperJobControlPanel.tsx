@@ -0,0 +1,345 @@
+"use client"
+
+import { useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { format } from "date-fns"
+import { toast } from "sonner"
+import { Ban, ListRestart, Loader2, RefreshCw, RotateCcw } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  CANCELLABLE_STATUSES,
+  MAX_PRIORITY,
+  MIN_PRIORITY,
+  RETRYABLE_STATUSES,
+  type ScraperJobAction,
+  type ScraperJobControlStatus,
+} from "@/lib/scraper-jobs/jobControl"
+
+interface AdminScraperJob {
+  id: string
+  job_type: string
+  status: ScraperJobControlStatus
+  priority: number
+  attempts: number
+  max_attempts: number
+  progress_completed: number | null
+  progress_total: number | null
+  last_error: string | null
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+}
+
+interface AdminScraperJobEvent {
+  id: number
+  event_type: string
+  payload: Record<string, unknown> | null
+  created_at: string
+}
+
+interface JobDetailResponse {
+  job: AdminScraperJob
+  events: AdminScraperJobEvent[]
+  eventTypes: string[]
+}
+
+const ALL = "all"
+
+const STATUS_FILTERS: { value: string; label: string }[] = [
+  { value: ALL, label: "All statuses" },
+  { value: "queued", label: "Queued" },
+  { value: "running,processing", label: "Running" },
+  { value: "failed,dead_letter", label: "Failed" },
+  { value: "cancelled", label: "Cancelled" },
+  { value: "succeeded", label: "Succeeded" },
+]
+
+const JOB_TYPE_FILTERS: { value: string; label: string }[] = [
+  { value: ALL, label: "All job types" },
+  { value: "fwc_lookup", label: "FWC lookup" },
+  { value: "incolink_sync", label: "Incolink sync" },
+  { value: "mapping_sheet_scan", label: "Mapping sheet scan" },
+]
+
+const STATUS_VARIANTS: Record<ScraperJobControlStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  running: "default",
+  processing: "default",
+  succeeded: "secondary",
+  failed: "destructive",
+  dead_letter: "destructive",
+  cancelled: "outline",
+}
+
+const formatTimestamp = (value: string | null) => (value ? format(new Date(value), "dd MMM HH:mm:ss") : "—")
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed (${response.status})`)
+  }
+  return data as T
+}
+
+export function ScraperJobControlPanel() {
+  const queryClient = useQueryClient()
+  const [statusFilter, setStatusFilter] = useState(ALL)
+  const [jobTypeFilter, setJobTypeFilter] = useState(ALL)
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null)
+  const [eventTypeFilter, setEventTypeFilter] = useState(ALL)
+  const [priorityInput, setPriorityInput] = useState("")
+
+  const jobsQuery = useQuery<AdminScraperJob[]>({
+    queryKey: ["admin-scraper-jobs", statusFilter, jobTypeFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams()
+      if (statusFilter !== ALL) params.set("status", statusFilter)
+      if (jobTypeFilter !== ALL) params.set("jobType", jobTypeFilter)
+      const data = await readJson<{ jobs: AdminScraperJob[] }>(await fetch(`/api/admin/scraper-jobs?${params}`))
+      return data.jobs
+    },
+    refetchInterval: 10000,
+  })
+
+  const detailQuery = useQuery<JobDetailResponse>({
+    queryKey: ["admin-scraper-job", selectedJobId, eventTypeFilter],
+    enabled: !!selectedJobId,
+    queryFn: async () => {
+      const params = new URLSearchParams()
+      if (eventTypeFilter !== ALL) params.set("eventType", eventTypeFilter)
+      return readJson<JobDetailResponse>(await fetch(`/api/admin/scraper-jobs/${selectedJobId}?${params}`))
+    },
+    refetchInterval: 5000,
+  })
+
+  const controlMutation = useMutation({
+    mutationFn: async ({ action, priority }: { action: ScraperJobAction; priority?: number }) => {
+      const response = await fetch(`/api/admin/scraper-jobs/${selectedJobId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, priority }),
+      })
+      return readJson<{ job: AdminScraperJob }>(response)
+    },
+    onSuccess: (_data, { action }) => {
+      const messages: Record<ScraperJobAction, string> = {
+        cancel: "Job cancelled. A running worker stops after the current employer.",
+        retry: "Job re-queued from the last completed employer.",
+        reprioritise: "Job priority updated.",
+      }
+      toast.success(messages[action])
+      setPriorityInput("")
+      queryClient.invalidateQueries({ queryKey: ["admin-scraper-jobs"] })
+      queryClient.invalidateQueries({ queryKey: ["admin-scraper-job", selectedJobId] })
+    },
+    onError: (error: Error) => {
+      toast.error(error.message)
+    },
+  })
+
+  const selectJob = (jobId: string) => {
+    setSelectedJobId(jobId)
+    setEventTypeFilter(ALL)
+    setPriorityInput("")
+  }
+
+  const jobs = jobsQuery.data ?? []
+  const detail = detailQuery.data
+  const selectedJob = detail?.job ?? jobs.find((job) => job.id === selectedJobId) ?? null
+  const requestedPriority = Number(priorityInput)
+  const priorityValid =
+    priorityInput !== "" &&
+    Number.isInteger(requestedPriority) &&
+    requestedPriority >= MIN_PRIORITY &&
+    requestedPriority <= MAX_PRIORITY
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Scraper Jobs</CardTitle>
+          <CardDescription>
+            Cancel, retry and reprioritise FWC, Incolink and mapping sheet jobs, and inspect their event timelines.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => jobsQuery.refetch()} disabled={jobsQuery.isFetching}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${jobsQuery.isFetching ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap gap-3">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STATUS_FILTERS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={jobTypeFilter} onValueChange={setJobTypeFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {JOB_TYPE_FILTERS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {jobsQuery.error ? (
+          <p className="text-sm text-destructive">{(jobsQuery.error as Error).message}</p>
+        ) : jobsQuery.isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" /> Loading jobs…
+          </div>
+        ) : jobs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No jobs match these filters.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Created</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Priority</TableHead>
+                <TableHead className="text-right">Progress</TableHead>
+                <TableHead className="text-right">Attempts</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.map((job) => (
+                <TableRow
+                  key={job.id}
+                  className={`cursor-pointer ${job.id === selectedJobId ? "bg-muted" : ""}`}
+                  onClick={() => selectJob(job.id)}
+                >
+                  <TableCell>{formatTimestamp(job.created_at)}</TableCell>
+                  <TableCell>{job.job_type}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[job.status] ?? "outline"}>{job.status}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{job.priority}</TableCell>
+                  <TableCell className="text-right">
+                    {job.progress_completed ?? 0}/{job.progress_total ?? 0}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {job.attempts}/{job.max_attempts}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {selectedJob && (
+          <div className="space-y-4 rounded-md border p-4">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div className="space-y-1">
+                <p className="font-mono text-xs text-muted-foreground">{selectedJob.id}</p>
+                <p className="text-sm">
+                  {selectedJob.job_type} · <Badge variant={STATUS_VARIANTS[selectedJob.status] ?? "outline"}>{selectedJob.status}</Badge>{" "}
+                  · updated {formatTimestamp(selectedJob.updated_at)}
+                </p>
+                {selectedJob.last_error && <p className="text-sm text-destructive">{selectedJob.last_error}</p>}
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  disabled={!CANCELLABLE_STATUSES.includes(selectedJob.status) || controlMutation.isPending}
+                  onClick={() => controlMutation.mutate({ action: "cancel" })}
+                >
+                  <Ban className="h-4 w-4 mr-2" />
+                  Cancel
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!RETRYABLE_STATUSES.includes(selectedJob.status) || controlMutation.isPending}
+                  onClick={() => controlMutation.mutate({ action: "retry" })}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Retry from last employer
+                </Button>
+                <Input
+                  type="number"
+                  min={MIN_PRIORITY}
+                  max={MAX_PRIORITY}
+                  placeholder={`Priority (${MIN_PRIORITY}-${MAX_PRIORITY})`}
+                  value={priorityInput}
+                  onChange={(event) => setPriorityInput(event.target.value)}
+                  className="w-36 h-9"
+                  disabled={selectedJob.status !== "queued"}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={selectedJob.status !== "queued" || !priorityValid || controlMutation.isPending}
+                  onClick={() => controlMutation.mutate({ action: "reprioritise", priority: requestedPriority })}
+                >
+                  <ListRestart className="h-4 w-4 mr-2" />
+                  Set priority
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-3">
+              <h4 className="text-sm font-semibold">Event timeline</h4>
+              <Select value={eventTypeFilter} onValueChange={setEventTypeFilter}>
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All event types</SelectItem>
+                  {(detail?.eventTypes ?? []).map((eventType) => (
+                    <SelectItem key={eventType} value={eventType}>
+                      {eventType}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {detailQuery.isLoading ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" /> Loading events…
+              </div>
+            ) : (detail?.events ?? []).length === 0 ? (
+              <p className="text-sm text-muted-foreground">No events recorded.</p>
+            ) : (
+              <ul className="max-h-96 space-y-2 overflow-y-auto">
+                {detail!.events.map((event) => (
+                  <li key={event.id} className="rounded border px-3 py-2 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">{event.event_type}</span>
+                      <span className="text-xs text-muted-foreground">{formatTimestamp(event.created_at)}</span>
+                    </div>
+                    {event.payload && Object.keys(event.payload).length > 0 && (
+                      <pre className="mt-1 whitespace-pre-wrap break-all text-xs text-muted-foreground">
+                        {JSON.stringify(event.payload, null, 2)}
+                      </pre>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
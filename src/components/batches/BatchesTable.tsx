@@ -27,6 +27,8 @@ interface Batch {
   created_at: string
   processing_started_at: string | null
   processing_completed_at: string | null
+  boundary_detection_method?: string | null
+  boundary_accuracy?: number | null
 }
 
 interface BatchesTableProps {
@@ -68,6 +70,7 @@ export function BatchesTable({ batches }: BatchesTableProps) {
               <TableHead>Status</TableHead>
               <TableHead>Progress</TableHead>
               <TableHead>Pages</TableHead>
+              <TableHead>Boundaries</TableHead>
               <TableHead>Uploaded</TableHead>
               <TableHead>Actions</TableHead>
             </TableRow>
@@ -104,6 +107,22 @@ export function BatchesTable({ batches }: BatchesTableProps) {
                   <TableCell>
                     <span className="text-sm text-muted-foreground">{batch.total_pages}</span>
                   </TableCell>
+                  <TableCell>
+                    {batch.boundary_detection_method ? (
+                      <div className="text-sm">
+                        <div>
+                          {batch.boundary_accuracy != null
+                            ? `${Math.round(batch.boundary_accuracy * 100)}% kept`
+                            : '—'}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {batch.boundary_detection_method === 'layout_anchors' ? 'Form layout' : 'AI'}
+                        </div>
+                      </div>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">Manual</span>
+                    )}
+                  </TableCell>
                   <TableCell>
                     <div className="text-sm">
                       <div>{format(new Date(batch.created_at), 'MMM d, yyyy')}</div>
@@ -0,0 +1,297 @@
+"use client"
+
+import { useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { format } from "date-fns"
+import { Trash2 } from "lucide-react"
+import { supabase } from "@/integrations/supabase/client"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import DateInput from "@/components/ui/date-input"
+import { useToast } from "@/hooks/use-toast"
+
+type TargetScope = "organiser" | "patch"
+
+interface CampaignKpiSetupProps {
+  campaignId: string
+  endDate: string
+}
+
+async function getUserId() {
+  const { data } = await supabase.auth.getUser()
+  if (!data.user?.id) throw new Error("Not authenticated")
+  return data.user.id
+}
+
+function AddTargetRow({
+  campaignId,
+  kpiId,
+  endDate,
+  organisers,
+  patches,
+  onSaved,
+}: {
+  campaignId: string
+  kpiId: string
+  endDate: string
+  organisers: { id: string; full_name: string | null }[]
+  patches: { id: string; name: string | null }[]
+  onSaved: () => void
+}) {
+  const { toast } = useToast()
+  const [scope, setScope] = useState<TargetScope>("organiser")
+  const [scopeId, setScopeId] = useState("")
+  const [value, setValue] = useState("")
+  const [dueDate, setDueDate] = useState(endDate)
+
+  const addTarget = useMutation({
+    mutationFn: async () => {
+      const targetValue = Number(value)
+      if (!scopeId || !Number.isFinite(targetValue) || targetValue <= 0 || !dueDate) {
+        throw new Error("Choose who the target is for, a positive value and a due date")
+      }
+      const { error } = await supabase.from("kpi_targets").insert({
+        campaign_id: campaignId,
+        kpi_id: kpiId,
+        organiser_id: scope === "organiser" ? scopeId : null,
+        patch_id: scope === "patch" ? scopeId : null,
+        target_value: targetValue,
+        due_date: dueDate,
+        created_by: await getUserId(),
+      })
+      if (error) throw error
+    },
+    onSuccess: () => {
+      setScopeId("")
+      setValue("")
+      onSaved()
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to add target",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      })
+    },
+  })
+
+  const options = scope === "organiser"
+    ? organisers.map((o) => ({ id: o.id, label: o.full_name || "Unnamed organiser" }))
+    : patches.map((p) => ({ id: p.id, label: p.name || "Unnamed patch" }))
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[1fr_2fr_1fr_1.2fr_auto] gap-2">
+      <Select
+        value={scope}
+        onValueChange={(v: string) => {
+          setScope(v as TargetScope)
+          setScopeId("")
+        }}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="organiser">Organiser</SelectItem>
+          <SelectItem value="patch">Patch</SelectItem>
+        </SelectContent>
+      </Select>
+      <Select value={scopeId || undefined} onValueChange={setScopeId}>
+        <SelectTrigger>
+          <SelectValue placeholder={scope === "organiser" ? "Select organiser" : "Select patch"} />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input type="number" min={1} placeholder="Target" value={value} onChange={(e) => setValue(e.target.value)} />
+      <DateInput value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+      <Button onClick={() => addTarget.mutate()} disabled={addTarget.isPending}>Add</Button>
+    </div>
+  )
+}
+
+export function CampaignKpiSetup({ campaignId, endDate }: CampaignKpiSetupProps) {
+  const qc = useQueryClient()
+  const { toast } = useToast()
+
+  const { data: definitions = [] } = useQuery({
+    queryKey: ["kpi-definitions"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("kpi_definitions")
+        .select("id, code, label, description, source")
+        .order("label")
+      if (error) throw error
+      return data || []
+    },
+  })
+
+  const { data: attached = [] } = useQuery({
+    queryKey: ["campaign-kpis", campaignId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("campaign_kpis")
+        .select("id, kpi_id, required")
+        .eq("campaign_id", campaignId)
+      if (error) throw error
+      return data || []
+    },
+  })
+
+  const { data: targets = [] } = useQuery({
+    queryKey: ["campaign-kpi-targets", campaignId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("kpi_targets")
+        .select("id, kpi_id, target_value, due_date, organiser_id, patch_id, job_site_id, profiles:organiser_id(full_name), patches:patch_id(name), job_sites:job_site_id(name)")
+        .eq("campaign_id", campaignId)
+        .order("created_at")
+      if (error) throw error
+      return (data || []) as any[]
+    },
+  })
+
+  const { data: organisers = [] } = useQuery({
+    queryKey: ["campaign-target-organisers"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("id, full_name")
+        .in("role", ["organiser", "lead_organiser"])
+        .order("full_name")
+      if (error) throw error
+      return data || []
+    },
+  })
+
+  const { data: patches = [] } = useQuery({
+    queryKey: ["campaign-target-patches"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("patches")
+        .select("id, name")
+        .order("name")
+      if (error) throw error
+      return data || []
+    },
+  })
+
+  const refresh = () => {
+    qc.invalidateQueries({ queryKey: ["campaign-kpis", campaignId] })
+    qc.invalidateQueries({ queryKey: ["campaign-kpi-targets", campaignId] })
+    qc.invalidateQueries({ queryKey: ["campaign-scoreboard", campaignId] })
+  }
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An error occurred",
+      variant: "destructive",
+    })
+  }
+
+  const toggleKpi = useMutation({
+    mutationFn: async ({ kpiId, attach }: { kpiId: string; attach: boolean }) => {
+      if (attach) {
+        const { error } = await supabase
+          .from("campaign_kpis")
+          .insert({ campaign_id: campaignId, kpi_id: kpiId, created_by: await getUserId() })
+        if (error) throw error
+      } else {
+        const { error } = await supabase
+          .from("campaign_kpis")
+          .delete()
+          .eq("campaign_id", campaignId)
+          .eq("kpi_id", kpiId)
+        if (error) throw error
+      }
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to update KPIs"),
+  })
+
+  const deleteTarget = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("kpi_targets").delete().eq("id", id)
+      if (error) throw error
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to remove target"),
+  })
+
+  const attachedIds = new Set(attached.map((row) => row.kpi_id))
+  const attachedDefinitions = definitions.filter((definition) => attachedIds.has(definition.id))
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">KPIs</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {definitions.map((definition) => (
+            <label key={definition.id} className="flex items-start gap-3 cursor-pointer">
+              <Checkbox
+                checked={attachedIds.has(definition.id)}
+                disabled={toggleKpi.isPending}
+                onCheckedChange={(checked) => toggleKpi.mutate({ kpiId: definition.id, attach: checked === true })}
+              />
+              <div>
+                <div className="text-sm font-medium">{definition.label}</div>
+                <div className="text-xs text-muted-foreground">
+                  {definition.description || definition.code}
+                  {definition.source === "derived" && " · recorded automatically"}
+                </div>
+              </div>
+            </label>
+          ))}
+        </CardContent>
+      </Card>
+
+      {attachedDefinitions.map((definition) => {
+        const kpiTargets = targets.filter((target) => target.kpi_id === definition.id)
+        return (
+          <Card key={definition.id}>
+            <CardHeader>
+              <CardTitle className="text-base">{definition.label} targets</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {kpiTargets.length === 0 && (
+                <p className="text-sm text-muted-foreground">No targets yet.</p>
+              )}
+              {kpiTargets.map((target) => (
+                <div key={target.id} className="flex items-center justify-between gap-2 text-sm border rounded-md p-2">
+                  <div>
+                    <span className="font-medium">
+                      {[target.profiles?.full_name, target.patches?.name, target.job_sites?.name].filter(Boolean).join(" · ") || "Unknown"}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {" "}· {Number(target.target_value)} by {format(new Date(target.due_date), "dd/MM/yyyy")}
+                    </span>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => deleteTarget.mutate(target.id)} disabled={deleteTarget.isPending}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <AddTargetRow
+                campaignId={campaignId}
+                kpiId={definition.id}
+                endDate={endDate}
+                organisers={organisers}
+                patches={patches}
+                onSaved={refresh}
+              />
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
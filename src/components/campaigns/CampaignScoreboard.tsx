@@ -0,0 +1,132 @@
+"use client"
+
+import { format } from "date-fns"
+import { Loader2 } from "lucide-react"
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useCampaignScoreboard, type CampaignScoreboardKpi } from "@/hooks/useCampaignScoreboard"
+
+const SCOPE_LABELS = {
+  organiser: "Organiser",
+  patch: "Patch",
+  job_site: "Site",
+} as const
+
+function formatPercent(progress: number) {
+  return `${Math.round(progress * 100)}%`
+}
+
+function KpiScoreCard({ kpi }: { kpi: CampaignScoreboardKpi }) {
+  const chartData = kpi.burn_up.map((point) => ({
+    ...point,
+    label: format(new Date(`${point.date}T00:00:00`), "dd/MM"),
+  }))
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base">{kpi.label}</CardTitle>
+          {!kpi.required && <Badge variant="outline">Optional</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <div className="flex items-baseline justify-between text-sm">
+            <span className="text-2xl font-semibold">{kpi.actual}</span>
+            <span className="text-muted-foreground">
+              {kpi.target_total > 0 ? `of ${kpi.target_total} · ${formatPercent(kpi.progress)}` : "No targets set"}
+            </span>
+          </div>
+          {kpi.target_total > 0 && <Progress value={kpi.progress * 100} />}
+        </div>
+
+        {chartData.length > 0 && (
+          <ChartContainer
+            config={{
+              actual: { label: "Actual", color: "#2563eb" },
+              target: { label: "Target path", color: "#9ca3af" },
+            }}
+            className="w-full h-[180px]"
+          >
+            <LineChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" tick={{ fontSize: 10 }} minTickGap={16} />
+              <YAxis tick={{ fontSize: 10 }} allowDecimals={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              {kpi.target_total > 0 && (
+                <Line type="linear" dataKey="target" stroke="var(--color-target)" strokeDasharray="4 4" dot={false} />
+              )}
+              <Line type="stepAfter" dataKey="actual" stroke="var(--color-actual)" strokeWidth={2} dot={false} connectNulls={false} />
+            </LineChart>
+          </ChartContainer>
+        )}
+
+        {kpi.targets.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Target</TableHead>
+                <TableHead className="text-right">Progress</TableHead>
+                <TableHead className="text-right">Due</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {kpi.targets.map((target) => (
+                <TableRow key={target.id}>
+                  <TableCell>
+                    <div className="font-medium">{target.label}</div>
+                    <div className="text-xs text-muted-foreground">{SCOPE_LABELS[target.scope]}</div>
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {target.actual} / {target.target_value}
+                    <span className="ml-2 text-xs text-muted-foreground">{formatPercent(target.progress)}</span>
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {format(new Date(target.due_date), "dd/MM/yyyy")}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export function CampaignScoreboard({ campaignId }: { campaignId: string }) {
+  const { data, isLoading, error } = useCampaignScoreboard(campaignId)
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <p className="text-sm text-destructive">
+        Failed to load scoreboard: {error instanceof Error ? error.message : "Unknown error"}
+      </p>
+    )
+  }
+
+  if (!data || data.kpis.length === 0) {
+    return <p className="text-sm text-muted-foreground">No KPIs attached to this campaign yet.</p>
+  }
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      {data.kpis.map((kpi) => (
+        <KpiScoreCard key={kpi.kpi_id} kpi={kpi} />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Check, Wrench } from "lucide-react"
+import { toast } from "sonner"
+import type { DataQualityIssueItem } from "@/app/api/data-quality/issues/route"
+
+/**
+ * Data quality issues an admin has assigned to the signed-in user to fix.
+ * Hidden when there are none.
+ */
+export function DataQualityFixesCard() {
+  const router = useRouter()
+  const queryClient = useQueryClient()
+
+  const { data: issues = [], isLoading } = useQuery<DataQualityIssueItem[]>({
+    queryKey: ["data-quality-issues", "mine"],
+    queryFn: async () => {
+      const response = await fetch("/api/data-quality/issues?assigned=me&limit=50")
+      if (!response.ok) return []
+      const data = await response.json()
+      return data.issues || []
+    },
+    staleTime: 60 * 1000,
+  })
+
+  const resolveIssue = useMutation({
+    mutationFn: async (issueId: string) => {
+      const response = await fetch(`/api/data-quality/issues/${issueId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: "resolved", resolution: "Fixed by assignee" }),
+      })
+      if (!response.ok) throw new Error("Failed to update issue")
+    },
+    onSuccess: () => {
+      toast.success("Marked as fixed")
+      queryClient.invalidateQueries({ queryKey: ["data-quality-issues"] })
+    },
+    onError: () => toast.error("Failed to update issue"),
+  })
+
+  if (isLoading || issues.length === 0) {
+    return null
+  }
+
+  return (
+    <Card className="border-blue-200 bg-blue-50/50 lg:bg-blue-50">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Wrench className="h-5 w-5 text-blue-600" />
+          Data Fixes Assigned to You
+          <Badge variant="secondary">{issues.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ScrollArea className="max-h-[200px] pr-4">
+          <div className="space-y-3">
+            {issues.map((issue) => (
+              <div
+                key={issue.id}
+                className="flex items-start justify-between p-3 bg-white rounded-lg border cursor-pointer hover:bg-gray-50 transition-colors"
+                onClick={() => issue.link && router.push(issue.link)}
+              >
+                <div className="space-y-1 flex-1">
+                  <p className="text-sm font-medium">{issue.recordLabel || issue.recordId}</p>
+                  <p className="text-xs text-muted-foreground">{issue.description}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  disabled={resolveIssue.isPending}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    resolveIssue.mutate(issue.id)
+                  }}
+                >
+                  <Check className="h-3 w-3 mr-1" />
+                  Fixed
+                </Button>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  )
+}
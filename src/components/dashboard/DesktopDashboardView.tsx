@@ -5,6 +5,8 @@ import { useSearchParams } from "next/navigation"
 import { useNewDashboardData } from "@/hooks/useNewDashboardData"
 import { AlertTriangle } from "lucide-react"
 import { ComplianceAlertsCard } from "@/components/dashboard/ComplianceAlertsCard"
+import { DataQualityFixesCard } from "@/components/dashboard/DataQualityFixesCard"
+import { RatingAlertsCard } from "@/components/dashboard/RatingAlertsCard"
 import { ProjectMetricsSection } from "@/components/dashboard/ProjectMetricsSection"
 import { PreConstructionMetricsComponent } from "@/components/dashboard/PreConstructionMetrics"
 import { DashboardDebugInfo } from "@/components/dashboard/DashboardDebugInfo"
@@ -68,6 +70,8 @@ export function DesktopDashboardView() {
 
       {/* Compliance Alerts */}
       <ComplianceAlertsCard />
+      <DataQualityFixesCard />
+      <RatingAlertsCard />
 
       {/* EBA Coverage - Moved to top for visibility */}
       <EbaCoverageSection />
@@ -5,6 +5,8 @@ import { useSearchParams } from "next/navigation"
 import { useNewDashboardData } from "@/hooks/useNewDashboardData"
 import { AlertTriangle } from "lucide-react"
 import { ComplianceAlertsCard } from "@/components/dashboard/ComplianceAlertsCard"
+import { DataQualityFixesCard } from "@/components/dashboard/DataQualityFixesCard"
+import { RatingAlertsCard } from "@/components/dashboard/RatingAlertsCard"
 import { ProjectMetricsSection } from "@/components/dashboard/ProjectMetricsSection"
 import { PreConstructionMetricsComponent } from "@/components/dashboard/PreConstructionMetrics"
 import { RoleBasedDashboard } from "@/components/dashboard/RoleBasedDashboard"
@@ -53,6 +55,8 @@ export function MobileDashboardView() {
 
       {/* Compliance Alerts */}
       <ComplianceAlertsCard />
+      <DataQualityFixesCard />
+      <RatingAlertsCard />
 
       {/* EBA Coverage - Added for mobile */}
       <EbaCoverageSection />
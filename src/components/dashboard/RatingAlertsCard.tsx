@@ -0,0 +1,123 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { formatDistanceToNow } from "date-fns"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { AlertCircle, AlertTriangle, BellOff, Check, Info, TrendingDown } from "lucide-react"
+import { toast } from "sonner"
+import type { RatingAlert } from "@/app/api/ratings/alerts/route"
+
+const SNOOZE_DAYS = 7
+
+const ALERT_ICONS: Record<RatingAlert["type"], JSX.Element> = {
+  error: <AlertCircle className="h-4 w-4 text-red-600" />,
+  warning: <AlertTriangle className="h-4 w-4 text-yellow-600" />,
+  info: <Info className="h-4 w-4 text-blue-600" />,
+}
+
+/**
+ * Unacknowledged rating alerts for the patches and employers the signed-in user
+ * subscribes to. Hidden when there are none.
+ */
+export function RatingAlertsCard() {
+  const router = useRouter()
+  const queryClient = useQueryClient()
+
+  const { data: alerts = [], isLoading } = useQuery<RatingAlert[]>({
+    queryKey: ["rating-alerts", "unacknowledged"],
+    queryFn: async () => {
+      const response = await fetch("/api/ratings/alerts?acknowledged=false&limit=20")
+      if (!response.ok) return []
+      return response.json()
+    },
+    staleTime: 60 * 1000,
+  })
+
+  const updateAlert = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "acknowledge" | "snooze" }) => {
+      const response = await fetch(`/api/ratings/alerts/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, days: SNOOZE_DAYS }),
+      })
+      if (!response.ok) throw new Error("Failed to update alert")
+    },
+    onSuccess: (_data, { action }) => {
+      toast.success(action === "acknowledge" ? "Alert acknowledged" : `Snoozed for ${SNOOZE_DAYS} days`)
+      queryClient.invalidateQueries({ queryKey: ["rating-alerts"] })
+    },
+    onError: () => toast.error("Failed to update alert"),
+  })
+
+  if (isLoading || alerts.length === 0) {
+    return null
+  }
+
+  return (
+    <Card className="border-red-200 bg-red-50/50 lg:bg-red-50">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <TrendingDown className="h-5 w-5 text-red-600" />
+          Rating Alerts
+          <Badge variant="secondary">{alerts.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ScrollArea className="max-h-[240px] pr-4">
+          <div className="space-y-3">
+            {alerts.map((alert) => (
+              <div
+                key={alert.id}
+                className="flex items-start justify-between gap-2 p-3 bg-white rounded-lg border cursor-pointer hover:bg-gray-50 transition-colors"
+                onClick={() => router.push(`/employers?q=${encodeURIComponent(alert.employer_name)}`)}
+              >
+                <div className="flex gap-2 flex-1">
+                  <div className="pt-0.5">{ALERT_ICONS[alert.type]}</div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">{alert.title}</p>
+                    <p className="text-xs text-muted-foreground">{alert.message}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(alert.timestamp), { addSuffix: true })}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex flex-col gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    disabled={updateAlert.isPending}
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      updateAlert.mutate({ id: alert.id, action: "acknowledge" })
+                    }}
+                  >
+                    <Check className="h-3 w-3 mr-1" />
+                    Acknowledge
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    disabled={updateAlert.isPending}
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      updateAlert.mutate({ id: alert.id, action: "snooze" })
+                    }}
+                  >
+                    <BellOff className="h-3 w-3 mr-1" />
+                    Snooze
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  )
+}
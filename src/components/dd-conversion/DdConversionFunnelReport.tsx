@@ -0,0 +1,164 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useDdConversionFunnel } from "@/hooks/useDdConversionFunnel";
+import { DD_METHODS } from "@/lib/dd-conversion/codes";
+import type { ConversionFunnelCounts, FunnelGroupBy } from "@/lib/dd-conversion/funnel";
+
+const GROUP_LABELS: Record<FunnelGroupBy, string> = {
+  organiser: "Organiser",
+  patch: "Patch",
+  campaign: "Campaign",
+};
+
+function formatRate(rate: number) {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function FunnelStages({ counts }: { counts: ConversionFunnelCounts }) {
+  const stages = [
+    { label: "Approached", value: counts.approached },
+    { label: "Interested", value: counts.interested },
+    { label: "Converted", value: counts.converted },
+  ];
+
+  return (
+    <div className="space-y-2">
+      {stages.map((stage) => (
+        <div key={stage.label} className="flex items-center gap-3">
+          <span className="w-24 text-sm text-muted-foreground">{stage.label}</span>
+          <div className="flex-1 h-6 rounded bg-muted overflow-hidden">
+            <div
+              className="h-full bg-primary"
+              style={{ width: counts.approached > 0 ? `${(stage.value / counts.approached) * 100}%` : "0%" }}
+            />
+          </div>
+          <span className="w-10 text-right text-sm font-semibold">{stage.value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function DdConversionFunnelReport() {
+  const [groupBy, setGroupBy] = useState<FunnelGroupBy>("organiser");
+  const [from, setFrom] = useState<string>("");
+  const [to, setTo] = useState<string>("");
+
+  const { data, isLoading, error } = useDdConversionFunnel({
+    groupBy,
+    from: from || null,
+    to: to || null,
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Direct Debit Conversion</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="flex-1">
+              <label className="text-sm font-medium mb-2 block">Group by</label>
+              <Select value={groupBy} onValueChange={(value) => setGroupBy(value as FunnelGroupBy)}>
+                <SelectTrigger className="min-h-[44px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(GROUP_LABELS) as FunnelGroupBy[]).map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {GROUP_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex-1">
+              <label className="text-sm font-medium mb-2 block">Visits from</label>
+              <Input type="date" className="min-h-[44px]" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="flex-1">
+              <label className="text-sm font-medium mb-2 block">Visits to</label>
+              <Input type="date" className="min-h-[44px]" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+
+          {data && (
+            <div className="grid gap-4 md:grid-cols-[2fr_1fr]">
+              <FunnelStages counts={data.totals} />
+              <div className="rounded-md border p-3 text-sm space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Attempts</span>
+                  <span className="font-semibold">{data.totals.attempts}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Conversion rate</span>
+                  <span className="font-semibold">{formatRate(data.totals.conversionRate)}</span>
+                </div>
+                {DD_METHODS.map((method) => (
+                  <div key={method.code} className="flex justify-between">
+                    <span className="text-muted-foreground">Converted by {method.label.toLowerCase()}</span>
+                    <span className="font-semibold">{data.totals.convertedByMethod[method.code] ?? 0}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <p className="p-6 text-sm text-destructive">
+              Failed to load conversion funnel: {error instanceof Error ? error.message : "Unknown error"}
+            </p>
+          ) : !data || data.groups.length === 0 ? (
+            <p className="p-6 text-sm text-muted-foreground">No direct debit attempts recorded for these dates.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{GROUP_LABELS[groupBy]}</TableHead>
+                  <TableHead className="text-right">Attempts</TableHead>
+                  <TableHead className="text-right">Approached</TableHead>
+                  <TableHead className="text-right">Interested</TableHead>
+                  <TableHead className="text-right">Converted</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.groups.map((group) => (
+                  <TableRow key={group.key}>
+                    <TableCell className="font-medium">{group.label}</TableCell>
+                    <TableCell className="text-right">{group.attempts}</TableCell>
+                    <TableCell className="text-right">{group.approached}</TableCell>
+                    <TableCell className="text-right">{group.interested}</TableCell>
+                    <TableCell className="text-right">{group.converted}</TableCell>
+                    <TableCell className="text-right">{formatRate(group.conversionRate)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {groupBy !== "organiser" && (
+        <p className="text-xs text-muted-foreground">
+          Sites in more than one {groupBy} count towards each, so rows can add up to more than the totals.
+        </p>
+      )}
+    </div>
+  );
+}
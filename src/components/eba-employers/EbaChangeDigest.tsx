@@ -0,0 +1,120 @@
+"use client"
+
+import { useState } from "react"
+import { format, formatDistanceToNow } from "date-fns"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  EbaChangeDigestEntry,
+  EbaChangeType,
+  useEbaChangeDigest,
+} from "@/hooks/useEbaChangeDigest"
+
+const CHANGE_TYPE_LABELS: Record<EbaChangeType, string> = {
+  new_agreement: "New agreement",
+  agreement_approved: "Agreement approved",
+  agreement_expired: "Agreement expired",
+  expiry_date_changed: "Expiry date changed",
+}
+
+const CHANGE_TYPE_VARIANTS: Record<EbaChangeType, "default" | "secondary" | "destructive" | "outline"> = {
+  new_agreement: "default",
+  agreement_approved: "secondary",
+  agreement_expired: "destructive",
+  expiry_date_changed: "outline",
+}
+
+const PERIOD_OPTIONS = [7, 30, 90]
+
+function formatDate(value: string | null | undefined) {
+  if (!value) return "—"
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? value : format(date, "d MMM yyyy")
+}
+
+function describeChange(change: EbaChangeDigestEntry) {
+  const current = change.current
+  switch (change.changeType) {
+    case "new_agreement":
+      return `${current?.title ?? "Agreement"}${current?.lodgementNumber ? ` (${current.lodgementNumber})` : ""}`
+    case "agreement_approved":
+      return `Approved ${formatDate(current?.approvedDate)}`
+    case "agreement_expired":
+      return `${current?.status ?? "Expired"}, nominal expiry ${formatDate(current?.expiryDate)}`
+    case "expiry_date_changed":
+      return `${formatDate(change.previous?.expiryDate)} → ${formatDate(current?.expiryDate)}`
+  }
+}
+
+interface EbaChangeDigestProps {
+  onOpenEmployer?: (employerId: string) => void
+}
+
+/**
+ * Recent EBA changes found by the scheduled FWC re-verification
+ */
+export function EbaChangeDigest({ onOpenEmployer }: EbaChangeDigestProps) {
+  const [days, setDays] = useState(30)
+  const { data, isLoading, error } = useEbaChangeDigest(days)
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>FWC changes</CardTitle>
+        <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIOD_OPTIONS.map((option) => (
+              <SelectItem key={option} value={String(option)}>Last {option} days</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error ? (
+          <p className="text-sm text-destructive">Unable to load EBA changes.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {(Object.keys(CHANGE_TYPE_LABELS) as EbaChangeType[]).map((changeType) => (
+                <div key={changeType} className="rounded-md border p-3">
+                  <div className="text-xs text-muted-foreground">{CHANGE_TYPE_LABELS[changeType]}</div>
+                  <div className="text-2xl font-semibold">{isLoading ? "…" : data?.counts[changeType] ?? 0}</div>
+                </div>
+              ))}
+            </div>
+
+            {data && data.changes.length > 0 ? (
+              <ul className="divide-y rounded-md border">
+                {data.changes.map((change) => (
+                  <li key={change.id} className="flex flex-wrap items-center gap-2 px-3 py-2 text-sm">
+                    <Badge variant={CHANGE_TYPE_VARIANTS[change.changeType]}>{CHANGE_TYPE_LABELS[change.changeType]}</Badge>
+                    {onOpenEmployer ? (
+                      <Button variant="link" className="h-auto p-0 font-medium" onClick={() => onOpenEmployer(change.employerId)}>
+                        {change.employerName ?? "Unknown employer"}
+                      </Button>
+                    ) : (
+                      <span className="font-medium">{change.employerName ?? "Unknown employer"}</span>
+                    )}
+                    <span className="text-muted-foreground">{describeChange(change)}</span>
+                    <span className="ml-auto text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(change.detectedAt), { addSuffix: true })}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              !isLoading && (
+                <p className="text-sm text-muted-foreground">No EBA changes detected in the last {days} days.</p>
+              )
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
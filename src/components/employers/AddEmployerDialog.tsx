@@ -12,6 +12,7 @@ import { supabase } from "@/integrations/supabase/client"
 import { Loader2 } from "lucide-react"
 import { Checkbox } from "@/components/ui/checkbox"
 import { TradeCapabilitiesSelector } from "./TradeCapabilitiesSelector"
+import { INVALID_ABN_MESSAGE, isBlankOrValidAbn, normalizeAbn } from "@/lib/employers/abn"
 
 type EmployerType = "builder" | "principal_contractor" | "large_contractor" | "small_contractor" | "individual"
 type RoleTag = "builder" | "head_contractor"
@@ -77,6 +78,15 @@ export function AddEmployerDialog({ isOpen, onClose, onEmployerCreated }: AddEmp
       return
     }
 
+    if (!isBlankOrValidAbn(formData.abn)) {
+      toast({
+        title: "Validation error",
+        description: INVALID_ABN_MESSAGE,
+        variant: "destructive"
+      })
+      return
+    }
+
     setIsCreating(true)
 
     try {
@@ -86,7 +96,8 @@ export function AddEmployerDialog({ isOpen, onClose, onEmployerCreated }: AddEmp
       }
 
       // Add optional fields only if they have values
-      if (formData.abn.trim()) insertData.abn = formData.abn.trim()
+      const abn = normalizeAbn(formData.abn)
+      if (abn) insertData.abn = abn
       if (formData.website.trim()) insertData.website = formData.website.trim()
       if (formData.email.trim()) insertData.email = formData.email.trim()
       if (formData.phone.trim()) insertData.phone = formData.phone.trim()
@@ -146,6 +157,19 @@ export function AddEmployerDialog({ isOpen, onClose, onEmployerCreated }: AddEmp
         }
       }
 
+      // Pull the register details and trading names for the new ABN
+      if (insertData.abn && data) {
+        try {
+          const response = await fetch(`/api/employers/${data.id}/abn-lookup`, { method: 'POST' })
+          if (!response.ok) {
+            console.error('ABN lookup failed:', await response.text())
+          }
+        } catch (error) {
+          console.error('ABN lookup failed:', error)
+          // The employer is saved; the lookup can be re-run from the edit form
+        }
+      }
+
       toast({
         title: "Success",
         description: `${formData.name} has been created successfully`,
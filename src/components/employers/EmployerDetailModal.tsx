@@ -45,6 +45,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { TrafficLightRatingTab } from "./TrafficLightRatingTab";
 import { TrafficLightRatingDisplay } from "./TrafficLightRatingDisplay";
+import { OpenWhsBreaches } from "@/components/whs-breaches/OpenWhsBreaches";
 import { useRouter } from "next/navigation";
 import { useNavigationLoading } from "@/hooks/useNavigationLoading";
 
@@ -1019,6 +1020,8 @@ export const EmployerDetailModal = ({
                     </CardContent>
                   </Card>
                 )}
+
+                {employerId && <OpenWhsBreaches employerId={employerId} />}
               </TabsContent>
 
               <TabsContent value="eba" className="space-y-4">
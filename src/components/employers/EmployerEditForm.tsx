@@ -15,6 +15,7 @@ import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { TRADE_OPTIONS } from "@/constants/trades";
 import { GoogleAddressInput, GoogleAddress, AddressValidationError } from "@/components/projects/GoogleAddressInput";
 import { IncolinkActionModal } from "./IncolinkActionModal";
+import { INVALID_ABN_MESSAGE, isBlankOrValidAbn, normalizeAbn } from "@/lib/employers/abn";
 import { Plus } from "lucide-react";
 
 const employerTypeOptions = [
@@ -38,7 +39,7 @@ const FormSchema = z.object({
     "small_contractor",
     "individual",
   ] as [EmployerType, ...EmployerType[]]),
-  abn: z.string().optional().nullable(),
+  abn: z.string().optional().nullable().refine(isBlankOrValidAbn, INVALID_ABN_MESSAGE),
   primary_contact_name: z.string().optional().nullable(),
   phone: z.string().optional().nullable(),
   email: z.string().email("Invalid email").optional().nullable(),
@@ -252,7 +253,7 @@ const onSubmit = useCallback(async (values: z.input<typeof FormSchema>) => {
   const updatePayload = {
     name: parsed.name.trim(),
     employer_type: parsed.employer_type,
-    abn: toNull(parsed.abn),
+    abn: normalizeAbn(parsed.abn),
     primary_contact_name: toNull(parsed.primary_contact_name),
     phone: toNull(parsed.phone),
     email: toNull(parsed.email),
@@ -318,6 +319,23 @@ const onSubmit = useCallback(async (values: z.input<typeof FormSchema>) => {
   ]);
 
   toast({ title: 'Employer updated', description: 'Changes saved successfully.' });
+
+  // A new ABN pulls its register details and adds its trading names as aliases
+  if (updatePayload.abn && updatePayload.abn !== normalizeAbn(stableEmployer.abn)) {
+    try {
+      const response = await fetch(`/api/employers/${stableEmployer.id}/abn-lookup`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        toast({ title: 'ABN lookup failed', description: result.error || 'The ABN could not be checked.', variant: 'destructive' });
+      } else if (result.aliasesAdded?.length > 0) {
+        toast({ title: 'Trading names added', description: `Added ${result.aliasesAdded.join(', ')} as aliases.` });
+      }
+      await queryClient.invalidateQueries({ queryKey: ["employer-detail", stableEmployer.id] });
+    } catch (lookupError) {
+      console.error('[EmployerEditForm] ABN lookup error', lookupError);
+    }
+  }
+
   const updatedEmployer = { id: stableEmployer.id, name: updatedRow.name, employer_type: updatedRow.employer_type };
   onSaved(updatedEmployer as { id: string; name: string; employer_type: string });
 }, [stableEmployer, desiredTags, desiredTrades, queryClient, toast, onSaved]);
@@ -11,7 +11,7 @@ import { Progress } from "@/components/ui/progress"
 import { deriveStepIndexForJob, FWC_JOB_STEPS } from "@/utils/scraperJobSteps"
 import { useScraperJobRealtime } from "@/hooks/useScraperJobRealtime"
 
-type ScraperJobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled"
+type ScraperJobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled" | "dead_letter"
 
 type ScraperJob = {
   id: string
@@ -67,7 +67,7 @@ export function FwcEbaSearchModal({ isOpen, onClose, employerId, employerName, o
 
         if (jobData.status === "succeeded") {
           setErrorMessage(null)
-        } else if (jobData.status === "failed") {
+        } else if (jobData.status === "failed" || jobData.status === "dead_letter") {
           toast({
             title: "FWC lookup failed",
             description: "Check the job timeline for details and try again.",
@@ -1,18 +1,24 @@
 "use client";
 
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Slider } from "@/components/ui/slider";
 import {
   TrendingUp,
   TrendingDown,
   Minus,
   Calendar,
   BarChart3,
-  Target
+  Target,
+  History
 } from "lucide-react";
 import { TrafficLightRatingDisplay } from "./TrafficLightRatingDisplay";
-import { format } from "date-fns";
+import { format, subDays, differenceInCalendarDays, startOfDay } from "date-fns";
+import { cn } from "@/lib/utils";
+import type { EmployerRatingAsAtResponse } from "@/app/api/ratings/employers/[employerId]/route";
 
 interface RatingHistoryEntry {
   date: string;
@@ -26,14 +32,151 @@ interface RatingHistoryEntry {
 
 interface RatingHistoryChartProps {
   history: RatingHistoryEntry[];
+  employerId?: string;
 }
 
-export function RatingHistoryChart({ history }: RatingHistoryChartProps) {
+const DEFAULT_SCRUBBER_DAYS = 365;
+
+const replayRatingClasses: Record<EmployerRatingAsAtResponse['final_rating'], string> = {
+  green: "bg-green-100 text-green-800 border-green-200",
+  amber: "bg-amber-100 text-amber-800 border-amber-200",
+  red: "bg-red-100 text-red-800 border-red-200",
+  unknown: "bg-gray-100 text-gray-800 border-gray-200",
+};
+
+function RatingTimelineScrubber({ employerId, history }: { employerId: string; history: RatingHistoryEntry[] }) {
+  const today = startOfDay(new Date());
+  const earliestHistory = history.length > 0
+    ? startOfDay(new Date(Math.min(...history.map(h => new Date(h.date).getTime()))))
+    : subDays(today, DEFAULT_SCRUBBER_DAYS);
+  const totalDays = Math.max(differenceInCalendarDays(today, earliestHistory), 1);
+
+  // Slider value is the number of days back from today
+  const [daysBack, setDaysBack] = useState(0);
+  const [committedDaysBack, setCommittedDaysBack] = useState<number | null>(null);
+
+  const previewDate = subDays(today, daysBack);
+  const asAt = committedDaysBack === null ? null : format(subDays(today, committedDaysBack), 'yyyy-MM-dd');
+
+  const { data: replay, isFetching, error } = useQuery<EmployerRatingAsAtResponse>({
+    queryKey: ["employer-rating-as-at", employerId, asAt],
+    queryFn: async () => {
+      const response = await fetch(`/api/ratings/employers/${employerId}?asAt=${asAt}`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || 'Failed to replay rating');
+      }
+      return response.json();
+    },
+    enabled: asAt !== null,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Rating As At
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Slider
+            min={0}
+            max={totalDays}
+            step={1}
+            // Reverse so that dragging right moves forward in time
+            value={[totalDays - daysBack]}
+            onValueChange={([value]) => setDaysBack(totalDays - value)}
+            onValueCommit={([value]) => setCommittedDaysBack(totalDays - value)}
+          />
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>{format(earliestHistory, 'dd MMM yyyy')}</span>
+            <span className="font-medium text-foreground">{format(previewDate, 'dd MMM yyyy')}</span>
+            <span>Today</span>
+          </div>
+        </div>
+
+        {asAt === null && (
+          <p className="text-sm text-muted-foreground">
+            Drag the slider to see how this employer was rated on a past date, using only the assessments,
+            EBA records and site visits that existed then.
+          </p>
+        )}
+
+        {isFetching && (
+          <div className="flex items-center text-sm text-muted-foreground">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></div>
+            Replaying rating...
+          </div>
+        )}
+
+        {error instanceof Error && !isFetching && (
+          <p className="text-sm text-red-600">{error.message}</p>
+        )}
+
+        {replay && !isFetching && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-3">
+              <Badge variant="outline" className={cn("capitalize", replayRatingClasses[replay.final_rating])}>
+                {replay.final_rating}
+              </Badge>
+              <span className="text-sm">
+                Score {replay.final_score.toFixed(1)} • {replay.overall_confidence.replace('_', ' ')} confidence
+              </span>
+              <span className="text-xs text-muted-foreground">
+                as at {format(new Date(replay.as_at), 'dd MMM yyyy')}
+              </span>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+              <div className="rounded-md border p-3">
+                <div className="text-xs text-muted-foreground">Project data</div>
+                <div className="capitalize">{replay.project_data_rating.rating}</div>
+                <div className="text-xs text-muted-foreground">
+                  {replay.project_data_rating.assessments_included} assessments
+                </div>
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-xs text-muted-foreground">Organiser expertise</div>
+                <div className="capitalize">{replay.organiser_expertise_rating.rating}</div>
+                <div className="text-xs text-muted-foreground">
+                  {replay.organiser_expertise_rating.assessments_included} assessments
+                </div>
+              </div>
+              <div className="rounded-md border p-3">
+                <div className="text-xs text-muted-foreground">EBA</div>
+                <div className="capitalize">{replay.eba.eba_status}</div>
+                <div className="text-xs text-muted-foreground">
+                  {replay.eba.has_active_eba ? 'Active EBA' : 'No active EBA'}
+                </div>
+              </div>
+            </div>
+
+            <div className="text-xs text-muted-foreground">
+              Based on {replay.inputs.project_assessments} project assessments, {replay.inputs.expertise_assessments} expertise
+              assessments, {replay.inputs.eba_records} EBA records and {replay.inputs.site_visits} site visits.
+              {replay.recorded_rating && (
+                <> Rating recorded at the time: <span className="capitalize">{replay.recorded_rating.final_rating}</span> ({format(new Date(replay.recorded_rating.rating_date), 'dd MMM yyyy')}).</>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function RatingHistoryChart({ history, employerId }: RatingHistoryChartProps) {
   if (history.length === 0) {
     return (
-      <div className="text-center py-8 text-muted-foreground">
-        <BarChart3 className="h-12 w-12 mx-auto mb-4 opacity-50" />
-        <p>No rating history available</p>
+      <div className="space-y-6">
+        {employerId && <RatingTimelineScrubber employerId={employerId} history={history} />}
+        <div className="text-center py-8 text-muted-foreground">
+          <BarChart3 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>No rating history available</p>
+        </div>
       </div>
     );
   }
@@ -93,6 +236,9 @@ export function RatingHistoryChart({ history }: RatingHistoryChartProps) {
 
   return (
     <div className="space-y-6">
+      {/* Historical replay */}
+      {employerId && <RatingTimelineScrubber employerId={employerId} history={history} />}
+
       {/* Trend Summary */}
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
         <Card>
@@ -0,0 +1,374 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowRight, FlaskConical, Info, Plus, RotateCcw, X } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import type { RatingSimulationResponse } from "@/app/api/employers/[employerId]/ratings/simulate/route";
+
+type Rating = 'green' | 'amber' | 'red' | 'unknown';
+type EbaOverride = 'unchanged' | 'active' | 'expired' | 'none';
+
+const ratingBadgeClasses: Record<Rating, string> = {
+  green: "bg-green-100 text-green-800 border-green-200",
+  amber: "bg-amber-100 text-amber-800 border-amber-200",
+  red: "bg-red-100 text-red-800 border-red-200",
+  unknown: "bg-gray-100 text-gray-800 border-gray-200",
+};
+
+const ASSESSMENT_TYPES = [
+  { value: 'cbus_status', label: 'CBUS status' },
+  { value: 'incolink_status', label: 'Incolink status' },
+  { value: 'site_visit_report', label: 'Site visit report' },
+  { value: 'delegate_report', label: 'Delegate report' },
+  { value: 'organiser_verbal_report', label: 'Organiser verbal report' },
+  { value: 'organiser_written_report', label: 'Organiser written report' },
+  { value: 'eca_status', label: 'ECA status' },
+  { value: 'safety_incidents', label: 'Safety incidents' },
+  { value: 'industrial_disputes', label: 'Industrial disputes' },
+  { value: 'payment_issues', label: 'Payment issues' },
+];
+
+interface HypotheticalAssessment {
+  assessment_type: string;
+  score: number;
+}
+
+interface RatingSimulatorPanelProps {
+  employerId: string;
+}
+
+function RatingPill({ rating }: { rating: Rating }) {
+  return (
+    <Badge variant="outline" className={cn("capitalize", ratingBadgeClasses[rating])}>
+      {rating}
+    </Badge>
+  );
+}
+
+function formatDelta(delta: number | null) {
+  if (delta === null) return "–";
+  if (delta === 0) return "0";
+  return `${delta > 0 ? "+" : ""}${delta.toFixed(1)}`;
+}
+
+async function runSimulation(employerId: string, overrides: Record<string, unknown>): Promise<RatingSimulationResponse> {
+  const response = await fetch(`/api/employers/${employerId}/ratings/simulate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ overrides }),
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || 'Failed to run rating simulation');
+  }
+  return response.json();
+}
+
+export function RatingSimulatorPanel({ employerId }: RatingSimulatorPanelProps) {
+  const { toast } = useToast();
+  const [removedProjectIds, setRemovedProjectIds] = useState<string[]>([]);
+  const [removedExpertiseIds, setRemovedExpertiseIds] = useState<string[]>([]);
+  const [dropExpired, setDropExpired] = useState(false);
+  const [ebaOverride, setEbaOverride] = useState<EbaOverride>('unchanged');
+  const [added, setAdded] = useState<HypotheticalAssessment[]>([]);
+  const [newType, setNewType] = useState<string>('safety_incidents');
+  const [newScore, setNewScore] = useState<string>('80');
+
+  // Baseline run with no overrides loads the live inputs
+  const { data: baseline, isLoading, error } = useQuery({
+    queryKey: ["employer-rating-simulation-baseline", employerId],
+    queryFn: () => runSimulation(employerId, {}),
+    enabled: !!employerId,
+  });
+
+  const simulation = useMutation({
+    mutationFn: () => runSimulation(employerId, {
+      remove_project_assessment_ids: removedProjectIds,
+      remove_expertise_assessment_ids: removedExpertiseIds,
+      drop_expired_assessments: dropExpired,
+      eba_status: ebaOverride === 'unchanged' ? undefined : ebaOverride,
+      add_project_assessments: added,
+    }),
+    onError: (err: Error) => {
+      toast({
+        title: "Simulation failed",
+        description: err.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleId = (ids: string[], id: string, setIds: (ids: string[]) => void) => {
+    setIds(ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id]);
+  };
+
+  const handleAddAssessment = () => {
+    const score = Number(newScore);
+    if (isNaN(score) || score < -100 || score > 100) {
+      toast({
+        title: "Invalid score",
+        description: "Scores must be between -100 and 100.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setAdded([...added, { assessment_type: newType, score }]);
+  };
+
+  const handleReset = () => {
+    setRemovedProjectIds([]);
+    setRemovedExpertiseIds([]);
+    setDropExpired(false);
+    setEbaOverride('unchanged');
+    setAdded([]);
+    simulation.reset();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-2">Loading rating inputs...</span>
+      </div>
+    );
+  }
+
+  if (error || !baseline) {
+    return (
+      <Alert>
+        <Info className="h-4 w-4" />
+        <AlertDescription>
+          Unable to load rating inputs for simulation.
+          {error instanceof Error && <div className="mt-1 text-xs text-muted-foreground">{error.message}</div>}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const result = simulation.data;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="h-5 w-5" />
+          What-if Simulator
+        </CardTitle>
+        <CardDescription>
+          Try hypothetical changes to see how the rating would move. Nothing here is saved.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Current inputs */}
+        <div className="space-y-3">
+          <div className="text-sm font-medium">Project assessments</div>
+          {baseline.inputs.project_assessments.length === 0 ? (
+            <div className="text-sm text-muted-foreground">No project assessments in the lookback window</div>
+          ) : (
+            baseline.inputs.project_assessments.map(assessment => (
+              <label key={assessment.id} className="flex items-center gap-3 text-sm">
+                <Checkbox
+                  checked={!removedProjectIds.includes(assessment.id)}
+                  onCheckedChange={() => toggleId(removedProjectIds, assessment.id, setRemovedProjectIds)}
+                />
+                <span className="capitalize">{assessment.assessment_type.replace(/_/g, ' ')}</span>
+                <span className="text-muted-foreground">
+                  {assessment.score ?? '–'} • {format(new Date(assessment.assessment_date), 'dd/MM/yyyy')}
+                </span>
+              </label>
+            ))
+          )}
+
+          <div className="text-sm font-medium pt-2">Expertise assessments</div>
+          {baseline.inputs.expertise_assessments.length === 0 ? (
+            <div className="text-sm text-muted-foreground">No expertise assessments in the lookback window</div>
+          ) : (
+            baseline.inputs.expertise_assessments.map(assessment => (
+              <label key={assessment.id} className="flex items-center gap-3 text-sm">
+                <Checkbox
+                  checked={!removedExpertiseIds.includes(assessment.id)}
+                  onCheckedChange={() => toggleId(removedExpertiseIds, assessment.id, setRemovedExpertiseIds)}
+                />
+                <span>Score {assessment.overall_score ?? '–'}</span>
+                <span className="text-muted-foreground">
+                  {format(new Date(assessment.assessment_date), 'dd/MM/yyyy')}
+                  {assessment.expires_date && ` • expires ${format(new Date(assessment.expires_date), 'dd/MM/yyyy')}`}
+                </span>
+              </label>
+            ))
+          )}
+
+          <div className="flex items-center gap-2 pt-2">
+            <Switch id="drop-expired" checked={dropExpired} onCheckedChange={setDropExpired} />
+            <Label htmlFor="drop-expired" className="text-sm">Drop expired assessments</Label>
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Hypothetical changes */}
+        <div className="space-y-3">
+          <div className="text-sm font-medium">Add a hypothetical project assessment</div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={newType} onValueChange={setNewType}>
+              <SelectTrigger className="sm:w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ASSESSMENT_TYPES.map(type => (
+                  <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min={-100}
+              max={100}
+              value={newScore}
+              onChange={(e) => setNewScore(e.target.value)}
+              className="sm:w-28"
+            />
+            <Button variant="outline" size="sm" onClick={handleAddAssessment}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+          {added.map((assessment, index) => (
+            <div key={index} className="flex items-center gap-2 text-sm">
+              <Badge variant="secondary" className="capitalize">
+                {assessment.assessment_type.replace(/_/g, ' ')}: {assessment.score}
+              </Badge>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setAdded(added.filter((_, i) => i !== index))}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="text-sm font-medium pt-2">EBA status</div>
+          <Select value={ebaOverride} onValueChange={(value) => setEbaOverride(value as EbaOverride)}>
+            <SelectTrigger className="sm:w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="unchanged">Unchanged ({baseline.baseline.eba_data.eba_status})</SelectItem>
+              <SelectItem value="active">Active EBA</SelectItem>
+              <SelectItem value="expired">Expired EBA</SelectItem>
+              <SelectItem value="none">No EBA</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex gap-2">
+          <Button onClick={() => simulation.mutate()} disabled={simulation.isPending}>
+            <FlaskConical className="h-4 w-4 mr-1" />
+            {simulation.isPending ? 'Simulating...' : 'Run simulation'}
+          </Button>
+          <Button variant="outline" onClick={handleReset}>
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Reset
+          </Button>
+        </div>
+
+        {/* Results */}
+        {result && (
+          <>
+            <Separator />
+            <div className="space-y-4">
+              {result.live_diff && (
+                <div className="space-y-1">
+                  <div className="text-xs font-medium text-muted-foreground">
+                    Against the saved rating ({format(new Date(result.live_diff.rating_date), 'dd/MM/yyyy')})
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <RatingPill rating={result.live_diff.from_rating} />
+                    <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                    <RatingPill rating={result.live_diff.to_rating} />
+                    <span className="text-sm text-muted-foreground">
+                      Score {result.live_diff.from_score === null ? '–' : result.live_diff.from_score.toFixed(1)} → {result.live_diff.to_score.toFixed(1)} ({formatDelta(result.live_diff.score_delta)})
+                    </span>
+                  </div>
+                </div>
+              )}
+
+              <div className="text-xs font-medium text-muted-foreground">
+                Against a recalculation from current data
+              </div>
+              <div className="flex items-center gap-3">
+                <RatingPill rating={result.diff.from_rating} />
+                <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                <RatingPill rating={result.diff.to_rating} />
+                <span className="text-sm text-muted-foreground">
+                  Score {result.diff.from_score.toFixed(1)} → {result.diff.to_score.toFixed(1)} ({formatDelta(result.diff.score_delta)})
+                </span>
+              </div>
+              <div className="text-sm">
+                {result.diff.rating_changed
+                  ? `These changes would move the rating from ${result.diff.from_rating} to ${result.diff.to_rating}.`
+                  : `These changes would not change the ${result.diff.to_rating} rating.`}
+                {result.diff.confidence_changed &&
+                  ` Confidence would change from ${result.diff.from_confidence.replace('_', ' ')} to ${result.diff.to_confidence.replace('_', ' ')}.`}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                {([
+                  ['Project data', result.diff.components.project],
+                  ['Organiser expertise', result.diff.components.expertise],
+                  ['EBA', result.diff.components.eba],
+                ] as const).map(([label, component]) => (
+                  <div key={label} className="rounded-md border p-3 space-y-1">
+                    <div className="text-xs font-medium text-muted-foreground">{label}</div>
+                    <div className="flex items-center gap-2">
+                      <RatingPill rating={component.from_rating} />
+                      <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                      <RatingPill rating={component.to_rating} />
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      Score change: {formatDelta(component.score_delta)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {result.applied_overrides.length > 0 && (
+                <ul className="list-disc list-inside text-xs text-muted-foreground space-y-1">
+                  {result.applied_overrides.map((override, index) => (
+                    <li key={index}>{override}</li>
+                  ))}
+                </ul>
+              )}
+
+              {!result.live_rating && (
+                <div className="text-xs text-muted-foreground">
+                  This employer has no saved rating to compare against.
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
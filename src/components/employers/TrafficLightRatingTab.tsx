@@ -34,6 +34,7 @@ import { ExpertiseAssessmentList } from "./ExpertiseAssessmentList";
 import { RatingHistoryChart } from "./RatingHistoryChart";
 import { AssessmentDetailModal } from "./AssessmentDetailModal";
 import { RatingWizardModal } from "./RatingWizardModal";
+import { RatingSimulatorPanel } from "./RatingSimulatorPanel";
 import { ProjectCountIndicator } from "./ProjectCountIndicator";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
@@ -260,7 +261,7 @@ export function TrafficLightRatingTab({ employerId, employerName }: TrafficLight
 
       {/* Detailed Assessment Tabs */}
       <Tabs defaultValue="projects" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-3 h-auto">
+        <TabsList className="grid w-full grid-cols-4 h-auto">
           <TabsTrigger value="projects" className="text-xs sm:text-sm py-2">
             Project<br className="sm:hidden" />
             <span className="hidden sm:inline"> </span>Assessments
@@ -273,6 +274,10 @@ export function TrafficLightRatingTab({ employerId, employerName }: TrafficLight
             Rating<br className="sm:hidden" />
             <span className="hidden sm:inline"> </span>History
           </TabsTrigger>
+          <TabsTrigger value="simulate" className="text-xs sm:text-sm py-2">
+            What-if<br className="sm:hidden" />
+            <span className="hidden sm:inline"> </span>Simulator
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="projects" className="space-y-4">
@@ -351,7 +356,7 @@ export function TrafficLightRatingTab({ employerId, employerName }: TrafficLight
             </CardHeader>
             <CardContent>
               {rating_history && rating_history.length > 0 ? (
-                <RatingHistoryChart history={rating_history} />
+                <RatingHistoryChart history={rating_history} employerId={employerId} />
               ) : (
                 <div className="text-center py-8 text-muted-foreground">
                   <TrendingUp className="h-12 w-12 mx-auto mb-4 opacity-50" />
@@ -362,6 +367,10 @@ export function TrafficLightRatingTab({ employerId, employerName }: TrafficLight
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="simulate" className="space-y-4">
+          <RatingSimulatorPanel employerId={employerId} />
+        </TabsContent>
       </Tabs>
 
       {/* Assessment Detail Modal */}
@@ -15,6 +15,7 @@ interface Message {
   role: 'user' | 'assistant'
   content: string
   sources?: Source[]
+  records?: RecordLink[]
   actions?: SuggestedAction[]
   confidence?: number
   interactionId?: string
@@ -27,6 +28,13 @@ interface Source {
   similarity: number
 }
 
+interface RecordLink {
+  type: 'project' | 'employer' | 'patch'
+  id: string
+  label: string
+  url: string
+}
+
 interface SuggestedAction {
   label: string
   path: string
@@ -86,6 +94,7 @@ export function AiHelpDialog({ open, onOpenChange }: AiHelpDialogProps) {
         role: 'assistant',
         content: data.answer,
         sources: data.sources,
+        records: data.records,
         actions: data.suggestedActions,
         confidence: data.confidence,
         interactionId: data.interactionId,
@@ -141,7 +150,7 @@ export function AiHelpDialog({ open, onOpenChange }: AiHelpDialogProps) {
   const quickQuestions = [
     'How do I register a delegate?',
     'How do I create a new project?',
-    'How do I import BCI data?',
+    'Which projects in my patch have no EBA builder?',
     'What are the user roles?',
   ]
 
@@ -168,7 +177,7 @@ export function AiHelpDialog({ open, onOpenChange }: AiHelpDialogProps) {
               <MessageSquare className="w-16 h-16 mx-auto mb-4 text-muted-foreground/50" />
               <h3 className="text-lg font-semibold mb-2">How can I help you today?</h3>
               <p className="text-sm text-muted-foreground mb-6">
-                Ask me about any feature or workflow in the platform
+                Ask me about any feature or workflow in the platform, or about the projects and employers in your patch
               </p>
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-w-2xl mx-auto">
                 {quickQuestions.map((question, i) => (
@@ -231,6 +240,31 @@ export function AiHelpDialog({ open, onOpenChange }: AiHelpDialogProps) {
                   </div>
                 )}
 
+                {/* Records looked up to answer a data question */}
+                {msg.records && msg.records.length > 0 && (
+                  <div className="mt-3 pt-3 border-t border-border/50">
+                    <p className="text-xs font-medium mb-2 opacity-80">Records used:</p>
+                    <div className="flex flex-wrap gap-1">
+                      {msg.records.map((record) => (
+                        <Button
+                          key={`${record.type}:${record.id}`}
+                          variant="outline"
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => {
+                            router.push(record.url)
+                            onOpenChange(false)
+                          }}
+                        >
+                          <span className="capitalize opacity-70 mr-1">{record.type}:</span>
+                          {record.label}
+                          <ExternalLink className="w-3 h-3 ml-1" />
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Suggested Actions */}
                 {msg.actions && msg.actions.length > 0 && (
                   <div className="mt-3 pt-3 border-t border-border/50 space-y-2">
@@ -330,7 +364,7 @@ export function AiHelpDialog({ open, onOpenChange }: AiHelpDialogProps) {
             </Button>
           </div>
           <p className="text-xs text-muted-foreground mt-2">
-            AI responses are based on platform documentation. Always verify critical information.
+            AI responses are based on platform documentation and the records you can access. Always verify critical information.
           </p>
         </div>
       </DialogContent>
@@ -8,6 +8,7 @@ import { Progress } from '@/components/ui/progress'
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { useHapticFeedback } from '@/components/mobile/shared/HapticFeedback'
+import { SyncStatusIndicator } from '@/components/mobile/shared/SyncStatusIndicator'
 import {
   MapPin,
   Users,
@@ -240,6 +241,9 @@ export function MobileDashboard({
             </Button>
           </div>
 
+          {/* Background sync of offline work */}
+          <SyncStatusIndicator className="mb-3" />
+
           {/* Search */}
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
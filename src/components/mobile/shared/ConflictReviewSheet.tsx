@@ -0,0 +1,141 @@
+"use client"
+
+import { useState, useEffect, useMemo } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { cn } from '@/lib/utils'
+import { formatFieldValue, getFieldConflicts, type FieldChoice, type OfflineEntity } from '@/lib/mobile/conflicts'
+import type { SyncConflict } from '@/hooks/mobile/useBackgroundSync'
+import { Smartphone, Server } from 'lucide-react'
+
+const ENTITY_LABELS: Record<OfflineEntity, string> = {
+  site_visit: 'Site visit',
+  compliance_check: 'Compliance check',
+  mapping_sheet: 'Mapping sheet',
+}
+
+interface ConflictReviewSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  conflicts: SyncConflict[]
+  onResolve: (
+    conflict: SyncConflict,
+    resolution: 'local' | 'server' | 'merge',
+    choices?: Record<string, FieldChoice>
+  ) => Promise<void>
+}
+
+/**
+ * Walks through changes made offline that clash with edits made on the server
+ * since. Each differing field shows both values so the organiser can pick per
+ * field, or keep one side wholesale.
+ */
+export function ConflictReviewSheet({ open, onOpenChange, conflicts, onResolve }: ConflictReviewSheetProps) {
+  const [choices, setChoices] = useState<Record<string, FieldChoice>>({})
+  const [resolving, setResolving] = useState(false)
+
+  const current = conflicts[0]
+  const fields = useMemo(
+    () =>
+      current
+        ? getFieldConflicts(
+            current.entity,
+            current.operation.data,
+            current.operation.conflict?.serverData,
+            current.operation.baseData
+          )
+        : [],
+    [current]
+  )
+
+  useEffect(() => {
+    if (open && conflicts.length === 0) onOpenChange(false)
+  }, [open, conflicts.length, onOpenChange])
+
+  const resolve = async (resolution: 'local' | 'server' | 'merge') => {
+    if (!current) return
+    setResolving(true)
+    try {
+      await onResolve(current, resolution, choices)
+      setChoices({})
+    } finally {
+      setResolving(false)
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="h-[80vh] flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Review sync conflicts</SheetTitle>
+          <SheetDescription>
+            {conflicts.length === 1
+              ? 'This change was edited by someone else while you were offline.'
+              : `${conflicts.length} changes were edited by someone else while you were offline.`}
+          </SheetDescription>
+        </SheetHeader>
+
+        {current && (
+          <>
+            <div className="mt-4 flex items-center gap-2">
+              <Badge variant="outline">{ENTITY_LABELS[current.entity]}</Badge>
+              <span className="text-sm font-medium truncate">{current.operation.label}</span>
+            </div>
+
+            <ScrollArea className="flex-1 mt-4">
+              <div className="space-y-4 pr-2">
+                {fields.map((field) => (
+                  <div key={field.field} className="space-y-2">
+                    <p className="text-sm font-medium text-gray-900">{field.label}</p>
+                    <div className="grid grid-cols-2 gap-2">
+                      {(['local', 'server'] as const).map((side) => {
+                        // Fields start on "your change" until the organiser picks otherwise
+                        const selected = (choices[field.field] ?? 'local') === side
+                        const Icon = side === 'local' ? Smartphone : Server
+                        return (
+                          <button
+                            key={side}
+                            type="button"
+                            onClick={() => setChoices((prev) => ({ ...prev, [field.field]: side }))}
+                            className={cn(
+                              'rounded-lg border p-3 text-left transition-colors',
+                              selected ? 'border-blue-500 bg-blue-50 ring-1 ring-blue-500' : 'border-gray-200 bg-white'
+                            )}
+                          >
+                            <span className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+                              <Icon className="h-3 w-3" />
+                              {side === 'local' ? 'Your change' : 'On server'}
+                            </span>
+                            <span className="block text-sm break-words">
+                              {formatFieldValue(side === 'local' ? field.localValue : field.serverValue)}
+                            </span>
+                          </button>
+                        )
+                      })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="mt-4 space-y-2">
+              <Button className="w-full" disabled={resolving} onClick={() => resolve('merge')}>
+                Apply selected values
+              </Button>
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant="outline" disabled={resolving} onClick={() => resolve('local')}>
+                  Keep all mine
+                </Button>
+                <Button variant="outline" disabled={resolving} onClick={() => resolve('server')}>
+                  Discard mine
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
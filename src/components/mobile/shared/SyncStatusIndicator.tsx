@@ -0,0 +1,62 @@
+"use client"
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { useBackgroundSync } from '@/hooks/mobile/useBackgroundSync'
+import { ConflictReviewSheet } from './ConflictReviewSheet'
+import { AlertTriangle, CheckCircle, CloudOff, RefreshCw } from 'lucide-react'
+
+/**
+ * Compact status for work captured offline: pending changes, background sync
+ * progress and conflicts awaiting review. Tapping it syncs now, or opens the
+ * conflict review when there is something to resolve.
+ */
+export function SyncStatusIndicator({ className }: { className?: string }) {
+  const { isOnline, syncing, pendingCount, conflicts, syncNow, resolveConflict } = useBackgroundSync()
+  const [reviewOpen, setReviewOpen] = useState(false)
+
+  let Icon = CheckCircle
+  let label = 'All changes synced'
+  let tone = 'text-green-700 border-green-200 bg-green-50'
+
+  if (conflicts.length > 0) {
+    Icon = AlertTriangle
+    label = conflicts.length === 1 ? '1 conflict to review' : `${conflicts.length} conflicts to review`
+    tone = 'text-amber-800 border-amber-300 bg-amber-50'
+  } else if (syncing) {
+    Icon = RefreshCw
+    label = 'Syncing…'
+    tone = 'text-blue-700 border-blue-200 bg-blue-50'
+  } else if (!isOnline) {
+    Icon = CloudOff
+    label = pendingCount > 0 ? `Offline · ${pendingCount} waiting to sync` : 'Offline'
+    tone = 'text-gray-700 border-gray-300 bg-gray-50'
+  } else if (pendingCount > 0) {
+    Icon = RefreshCw
+    label = `${pendingCount} waiting to sync`
+    tone = 'text-blue-700 border-blue-200 bg-blue-50'
+  }
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className={cn('h-8 gap-1.5 rounded-full text-xs font-medium', tone, className)}
+        onClick={() => (conflicts.length > 0 ? setReviewOpen(true) : syncNow())}
+        disabled={syncing && conflicts.length === 0}
+      >
+        <Icon className={cn('h-3.5 w-3.5', syncing && conflicts.length === 0 && 'animate-spin')} />
+        {label}
+      </Button>
+
+      <ConflictReviewSheet
+        open={reviewOpen}
+        onOpenChange={setReviewOpen}
+        conflicts={conflicts}
+        onResolve={resolveConflict}
+      />
+    </>
+  )
+}
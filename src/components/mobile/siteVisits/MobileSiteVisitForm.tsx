@@ -23,6 +23,7 @@ import { MapPin, Calendar, Building, Users, FileText, CheckCircle } from "lucide
 import { useSiteVisitReasonDefinitions } from "@/hooks/useSiteVisitReasons"
 import DateInput from "@/components/ui/date-input"
 import { ios } from "@/utils/iosIntegrations"
+import { createOfflineRecordId, isOffline, queueSiteVisit } from "@/lib/mobile/offline-capture"
 
 interface MobileSiteVisitFormProps {
   initialData?: {
@@ -207,9 +208,33 @@ export function MobileSiteVisitForm({ initialData }: MobileSiteVisitFormProps) {
 
   // Save mutation
   const saveMutation = useMutation({
-    mutationFn: async (data: any) => {
+    mutationFn: async (data: any): Promise<{ visitId: string; queued: boolean }> => {
       const userId = userScope?.userId
-      
+
+      // Offline: keep the visit on the device and let background sync create it
+      if (isOffline()) {
+        const visitId = createOfflineRecordId()
+        const selectedReasons: string[] = data.reasons?.selected_reasons || []
+        const projectName = projects.find((p: any) => p.id === data.basic.project_id)?.name
+        await queueSiteVisit(
+          {
+            id: visitId,
+            date: data.basic.date,
+            project_id: data.basic.project_id,
+            job_site_id: data.basic.job_site_id,
+            employer_ids: data.employers?.selected_employers || [],
+            notes: data.notes?.notes || null,
+            visit_status: "completed",
+            reasons: selectedReasons.map((reasonId) => ({
+              reason_definition_id: reasonId,
+              notes: data.reasons?.reason_notes?.[reasonId] || null,
+            })),
+          },
+          `Visit to ${projectName || "project"} on ${data.basic.date}`
+        )
+        return { visitId, queued: true }
+      }
+
       const visitPayload = {
         date: data.basic.date,
         organiser_id: userId,
@@ -249,11 +274,11 @@ export function MobileSiteVisitForm({ initialData }: MobileSiteVisitFormProps) {
         if (reasonError) throw reasonError
       }
 
-      return visitId
+      return { visitId, queued: false }
     },
-    onSuccess: () => {
+    onSuccess: ({ queued }) => {
       queryClient.invalidateQueries({ queryKey: ["site-visits"] })
-      toast.success("Site visit recorded successfully")
+      toast.success(queued ? "Site visit saved on this device. It will sync when you're back online." : "Site visit recorded successfully")
       router.push("/site-visits")
     },
     onError: (error) => {
@@ -75,6 +75,7 @@ interface AnalysisResult {
   }>
   totalPages: number
   detectionMethod: string
+  confidence?: number  // Overall confidence, set by layout detection
   notes?: string[]
 }
 
@@ -310,18 +311,19 @@ export function BulkUploadDialog({ open, onOpenChange }: BulkUploadDialogProps)
     maxFiles: 1,
   })
 
-  // AI Analysis
-  const analyzeWithAI = async () => {
+  // Boundary detection: form layout first, AI only when the layout match is low confidence
+  const analyzeProjects = async () => {
     if (!file) return
 
     setStep('analyze')
     setIsProcessing(true)
-    setProcessingStatus('Analyzing PDF with AI...')
-    announceToScreenReader('Starting AI analysis. This may take 10-20 seconds.')
+    setProcessingStatus('Detecting projects...')
+    announceToScreenReader('Detecting projects. This may take a few seconds.')
 
     try {
       const formData = new FormData()
       formData.append('file', file)
+      formData.append('allowAi', useAI ? 'true' : 'false')
 
       const response = await fetch('/api/projects/batch-upload/analyze', {
         method: 'POST',
@@ -349,15 +351,18 @@ export function BulkUploadDialog({ open, onOpenChange }: BulkUploadDialogProps)
 
       setProjectDefinitions(definitions)
 
+      const projectCount = `${definitions.length} project${definitions.length !== 1 ? 's' : ''}`
       toast.success(
-        `AI detected ${definitions.length} project${definitions.length !== 1 ? 's' : ''} (cost: $${data.metadata.costUsd})`
+        data.analysis.detectionMethod === 'layout_anchors'
+          ? `Detected ${projectCount} from the form layout`
+          : `AI detected ${projectCount} (cost: $${data.metadata.costUsd})`
       )
 
       setStep('define')
-      announceToScreenReader(`AI analysis complete. Found ${definitions.length} project${definitions.length !== 1 ? 's' : ''}. Please review and configure each project.`)
+      announceToScreenReader(`Detection complete. Found ${projectCount}. Please review and configure each project.`)
     } catch (err) {
-      console.error('AI analysis failed:', err)
-      toast.error('AI analysis failed. Using manual mode.')
+      console.error('Project detection failed:', err)
+      toast.error('Project detection failed. Using manual mode.')
       // Fallback to manual mode
       autoSegmentProjects()
     } finally {
@@ -396,11 +401,7 @@ export function BulkUploadDialog({ open, onOpenChange }: BulkUploadDialogProps)
 
   // Proceed from upload step
   const handleProceedFromUpload = () => {
-    if (useAI) {
-      analyzeWithAI()
-    } else {
-      autoSegmentProjects()
-    }
+    analyzeProjects()
   }
 
   // Add new project definition
@@ -696,6 +697,15 @@ export function BulkUploadDialog({ open, onOpenChange }: BulkUploadDialogProps)
           totalPages: initData.totalPages,
           projectDefinitions: definitions,
           uploadedScans,
+          boundaryDetection: aiAnalysis
+            ? {
+                method: aiAnalysis.detectionMethod,
+                confidence: aiAnalysis.confidence
+                  ?? Math.min(...aiAnalysis.projects.map((p) => p.confidence)),
+                projects: aiAnalysis.projects.map(({ startPage, endPage }) => ({ startPage, endPage })),
+              }
+            : null,
+          confirmedBoundaries: projectDefinitions.map(({ startPage, endPage }) => ({ startPage, endPage })),
         }),
       })
 
@@ -1007,9 +1017,9 @@ export function BulkUploadDialog({ open, onOpenChange }: BulkUploadDialogProps)
                     <div className="flex items-center gap-3">
                       <Brain className="h-5 w-5 text-primary" />
                       <div>
-                        <p className="font-medium">AI-Assisted Detection</p>
+                        <p className="font-medium">AI Fallback</p>
                         <p className="text-sm text-muted-foreground">
-                          Automatically detect projects and extract names
+                          Use AI when projects can't be detected from the form layout
                         </p>
                       </div>
                     </div>
@@ -1043,14 +1053,8 @@ export function BulkUploadDialog({ open, onOpenChange }: BulkUploadDialogProps)
                   Cancel
                 </Button>
                 <Button onClick={handleProceedFromUpload} disabled={!file || !totalPages}>
-                  {useAI ? (
-                    <>
-                      <Sparkles className="h-4 w-4 mr-2" />
-                      Analyze with AI
-                    </>
-                  ) : (
-                    'Next: Define Projects'
-                  )}
+                  <Sparkles className="h-4 w-4 mr-2" />
+                  Detect Projects
                 </Button>
               </div>
             </div>
@@ -1084,7 +1088,7 @@ export function BulkUploadDialog({ open, onOpenChange }: BulkUploadDialogProps)
                 {aiAnalysis && (
                   <p className="text-sm flex items-center gap-2 mt-1">
                     <Sparkles className="h-4 w-4 text-primary" />
-                    <strong>AI Detection:</strong> {aiAnalysis.detectionMethod}
+                    <strong>Detection:</strong> {aiAnalysis.detectionMethod}
                   </p>
                 )}
               </div>
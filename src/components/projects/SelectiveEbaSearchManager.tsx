@@ -95,7 +95,7 @@ export interface SelectiveEbaSearchManagerProps {
   onClose?: () => void;
 }
 
-type ScraperJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+type ScraperJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled' | 'dead_letter'
 
 type ScraperJob = {
   id: string
@@ -377,7 +377,7 @@ export default function SelectiveEbaSearchManager({ projectId, onClose }: Select
       const title =
         job.status === 'succeeded'
           ? 'EBA Search Complete'
-          : job.status === 'failed'
+          : job.status === 'failed' || job.status === 'dead_letter'
             ? 'EBA Search Failed'
             : 'EBA Search Cancelled';
 
@@ -404,6 +404,7 @@ export default function SelectiveEbaSearchManager({ projectId, onClose }: Select
     succeeded: 'Completed',
     failed: 'Failed',
     cancelled: 'Cancelled',
+    dead_letter: 'Failed (retries exhausted)',
   }
 
   // Event-based step derivation for better UX
@@ -1098,7 +1099,7 @@ export default function SelectiveEbaSearchManager({ projectId, onClose }: Select
                   {currentJob.status === 'running' && <Clock className="h-5 w-5 animate-spin" />}
                   {currentJob.status === 'queued' && <Clock className="h-5 w-5" />}
                   {currentJob.status === 'succeeded' && <CheckCircle className="h-5 w-5 text-green-600" />}
-                  {currentJob.status === 'failed' && <AlertTriangle className="h-5 w-5 text-red-600" />}
+                  {(currentJob.status === 'failed' || currentJob.status === 'dead_letter') && <AlertTriangle className="h-5 w-5 text-red-600" />}
                   {currentJob.status === 'cancelled' && <AlertTriangle className="h-5 w-5 text-amber-600" />}
                   EBA Search Progress
                 </CardTitle>
@@ -2,6 +2,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { EmployerComplianceCheck } from "@/types/compliance";
 import { toast } from "sonner";
+import { isOffline, queueComplianceCheck } from "@/lib/mobile/offline-capture";
 
 export function useEmployerCompliance(projectId: string, employerId?: string) {
   return useQuery({
@@ -41,6 +42,23 @@ export function useUpsertEmployerCompliance(projectId: string) {
       employerId: string; 
       updates: Partial<EmployerComplianceCheck> 
     }) => {
+      // Offline: queue against the last current check we loaded for this employer
+      if (isOffline()) {
+        const cached = queryClient
+          .getQueriesData<EmployerComplianceCheck[]>({ queryKey: ["employer-compliance", projectId] })
+          .flatMap(([, checks]) => checks ?? []);
+        const baseCheck = cached.find((check) => check.employer_id === employerId) ?? null;
+
+        await queueComplianceCheck({
+          projectId,
+          employerId,
+          baseCheck,
+          updates,
+          label: `Compliance for ${(baseCheck as any)?.employers?.name ?? "employer"}`,
+        });
+        return { ...baseCheck, ...updates, queued: true };
+      }
+
       // Get current user
       const { data: { user } } = await supabase.auth.getUser();
       
@@ -100,9 +118,13 @@ export function useUpsertEmployerCompliance(projectId: string) {
         return data;
       }
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ["employer-compliance", projectId] });
-      toast.success("Employer compliance updated");
+      toast.success(
+        result && "queued" in result
+          ? "Compliance saved on this device. It will sync when you're back online."
+          : "Employer compliance updated"
+      );
     },
     onError: (error) => {
       console.error("Error updating employer compliance:", error);
@@ -17,6 +17,7 @@ import DateInput from '@/components/ui/date-input';
 import { EmployerSearch } from '@/components/ui/EmployerSearch';
 import { PublicAuditComplianceForm } from '@/components/public/PublicAuditComplianceForm';
 import { Checkbox } from '@/components/ui/checkbox';
+import { isOffline, queueMappingSheetEdit } from '@/lib/mobile/offline-capture';
 
 interface PublicFormData {
   token: string | null;
@@ -35,6 +36,7 @@ interface PublicFormData {
     federal_funding: number;
     address: string | null;
     main_job_site_id: string | null;
+    row_version?: number;
   };
   siteContacts?: Array<{
     id?: string;
@@ -97,6 +99,8 @@ interface PublicFormData {
   }>;
   expiresAt: string | null;
   allowedActions: string[];
+  // Fields this form may show but not change, as `entity.field`
+  readOnlyFields?: string[];
 }
 
 interface FormData {
@@ -197,6 +201,11 @@ export function MappingSheetEditor({
     },
   });
 
+  const readOnlyFields = new Set(publicData?.readOnlyFields ?? []);
+  const isReadOnly = (field: string) => readOnlyFields.has(field);
+  const withoutReadOnly = <T extends Record<string, unknown>>(entityType: string, values: T) =>
+    Object.fromEntries(Object.entries(values).filter(([field]) => !isReadOnly(`${entityType}.${field}`)));
+
   const isEmbedded = variant === 'embedded';
   const containerClass = isEmbedded ? 'bg-gray-50' : 'min-h-screen bg-gray-50';
   const centeredClass = isEmbedded
@@ -243,6 +252,31 @@ export function MappingSheetEditor({
   // Submit form mutation
   const submitMutation = useMutation({
     mutationFn: async (submission: any) => {
+      // Offline edits to a project's sheet sync later against the version loaded here
+      if (dataSource.type === 'project' && publicData?.project && isOffline()) {
+        const project = publicData.project;
+        await queueMappingSheetEdit({
+          projectId: dataSource.projectId,
+          rowVersion: project.row_version ?? null,
+          base: {
+            projectUpdates: {
+              name: project.name,
+              value: project.value,
+              proposed_start_date: project.proposed_start_date,
+              proposed_finish_date: project.proposed_finish_date,
+              project_type: project.project_type,
+              state_funding: project.state_funding,
+              federal_funding: project.federal_funding,
+              roe_email: project.roe_email,
+            },
+            addressUpdate: project.address,
+          },
+          submission,
+          label: `Mapping sheet for ${project.name}`,
+        });
+        return { queued: true };
+      }
+
       const response = await fetch(submitUrl, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -256,7 +290,11 @@ export function MappingSheetEditor({
 
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
+      if (result?.queued) {
+        toast.success("Saved on this device. It will sync when you're back online.");
+        return;
+      }
       toast.success('Form submitted successfully!');
       queryClient.invalidateQueries({ queryKey: ['mapping-sheet-form', dataSource.type, dataKey] });
     },
@@ -266,7 +304,7 @@ export function MappingSheetEditor({
   });
 
   const handleSubmit = () => {
-    const projectUpdates = {
+    const projectUpdates = withoutReadOnly('projects', {
       name: formData.name,
       value: formData.value ? Number(formData.value) : null,
       proposed_start_date: formData.proposed_start_date || null,
@@ -275,11 +313,11 @@ export function MappingSheetEditor({
       state_funding: formData.state_funding ? Number(formData.state_funding) : 0,
       federal_funding: formData.federal_funding ? Number(formData.federal_funding) : 0,
       roe_email: formData.roe_email || null,
-    };
+    });
 
     const siteContactUpdates = Object.values(formData.siteContacts)
       .filter(contact => contact.name?.trim())
-      .map(contact => ({
+      .map(contact => withoutReadOnly('site_contacts', {
         id: contact.id,
         role: contact.role,
         name: contact.name?.trim() || '',
@@ -599,6 +637,7 @@ export function MappingSheetEditor({
                   type="number"
                   value={formData.value}
                   onChange={(e) => setFormData(prev => ({ ...prev, value: e.target.value }))}
+                  disabled={isReadOnly('projects.value')}
                   placeholder="Enter project value"
                   className="h-11 text-base"
                 />
@@ -661,6 +700,7 @@ export function MappingSheetEditor({
                   type="number"
                   value={formData.state_funding}
                   onChange={(e) => setFormData(prev => ({ ...prev, state_funding: e.target.value }))}
+                  disabled={isReadOnly('projects.state_funding')}
                   placeholder="0"
                   className="h-11 text-base"
                 />
@@ -672,6 +712,7 @@ export function MappingSheetEditor({
                   type="number"
                   value={formData.federal_funding}
                   onChange={(e) => setFormData(prev => ({ ...prev, federal_funding: e.target.value }))}
+                  disabled={isReadOnly('projects.federal_funding')}
                   placeholder="0"
                   className="h-11 text-base"
                 />
@@ -683,6 +724,7 @@ export function MappingSheetEditor({
                   type="email"
                   value={formData.roe_email}
                   onChange={(e) => setFormData(prev => ({ ...prev, roe_email: e.target.value }))}
+                  disabled={isReadOnly('projects.roe_email')}
                   placeholder="Enter contact email"
                   className="h-11 text-base"
                 />
@@ -727,6 +769,7 @@ export function MappingSheetEditor({
                                 [role.value]: { ...prev.siteContacts[role.value], name: e.target.value }
                               }
                             }))}
+                            disabled={isReadOnly('site_contacts.name')}
                             placeholder="Full name"
                           />
                         </TableCell>
@@ -741,6 +784,7 @@ export function MappingSheetEditor({
                                 [role.value]: { ...prev.siteContacts[role.value], email: e.target.value }
                               }
                             }))}
+                            disabled={isReadOnly('site_contacts.email')}
                             placeholder="email@example.com"
                           />
                         </TableCell>
@@ -754,6 +798,7 @@ export function MappingSheetEditor({
                                 [role.value]: { ...prev.siteContacts[role.value], phone: e.target.value }
                               }
                             }))}
+                            disabled={isReadOnly('site_contacts.phone')}
                             placeholder="Phone"
                           />
                         </TableCell>
@@ -784,6 +829,7 @@ export function MappingSheetEditor({
                               [role.value]: { ...prev.siteContacts[role.value], name: e.target.value }
                             }
                           }))}
+                          disabled={isReadOnly('site_contacts.name')}
                           placeholder="Full name"
                           className="h-11 text-base"
                         />
@@ -801,6 +847,7 @@ export function MappingSheetEditor({
                               [role.value]: { ...prev.siteContacts[role.value], email: e.target.value }
                             }
                           }))}
+                          disabled={isReadOnly('site_contacts.email')}
                           placeholder="email@example.com"
                           className="h-11 text-base"
                         />
@@ -818,6 +865,7 @@ export function MappingSheetEditor({
                               [role.value]: { ...prev.siteContacts[role.value], phone: e.target.value }
                             }
                           }))}
+                          disabled={isReadOnly('site_contacts.phone')}
                           placeholder="Phone"
                           className="h-11 text-base"
                         />
@@ -1,6 +1,7 @@
 "use client"
 
 import { useRef, useState } from "react";
+import { useSearchParams } from "next/navigation";
 import { supabase } from "@/integrations/supabase/client";
 import { Input } from "@/components/ui/input";
 import { formatCurrency, parseCurrencyInput } from "@/utils/formatCurrency";
@@ -15,7 +16,7 @@ import { useMappingSheetData } from "@/hooks/useMappingSheetData";
 import { AutoMatchIndicator } from "@/components/projects/mapping/AutoMatchIndicator";
 import { ShareLinkGenerator } from "./ShareLinkGenerator";
 import { UploadMappingSheetDialog } from "./UploadMappingSheetDialog";
-import { Upload, Check, X, RefreshCw, Search } from "lucide-react";
+import { Upload, Check, X, RefreshCw, Search, FileDown } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useNavigationLoading } from "@/hooks/useNavigationLoading";
 import { useRouter } from "next/navigation";
@@ -71,7 +72,9 @@ export function MappingSheetPage1({ projectData, onProjectUpdate, onAddressUpdat
   const [saveStatus, setSaveStatus] = useState<'idle' | 'dirty' | 'saving' | 'saved'>('idle');
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const savedMessageTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const [showUploadDialog, setShowUploadDialog] = useState(false);
+  const searchParams = useSearchParams();
+  // The QR code on printed mapping sheets links here with upload=scan
+  const [showUploadDialog, setShowUploadDialog] = useState(() => searchParams?.get("upload") === "scan");
   const [selectedEmployerId, setSelectedEmployerId] = useState<string | null>(null);
   const [isEmployerDetailOpen, setIsEmployerDetailOpen] = useState(false);
   const [changingRoleId, setChangingRoleId] = useState<string | null>(null);
@@ -292,6 +295,17 @@ export function MappingSheetPage1({ projectData, onProjectUpdate, onAddressUpdat
               <Upload className="h-4 w-4 flex-shrink-0" />
               {isMobile ? 'Upload' : 'Upload Scanned Sheet'}
             </Button>
+            <Button
+              asChild
+              variant="outline"
+              size="sm"
+              className={`gap-2 ${isMobile ? 'min-h-[44px] text-xs px-3' : ''}`}
+            >
+              <a href={`/api/projects/${projectData.id}/mapping-sheet-pdf`} target="_blank" rel="noopener noreferrer">
+                <FileDown className="h-4 w-4 flex-shrink-0" />
+                {isMobile ? 'PDF' : 'Pre-filled PDF'}
+              </a>
+            </Button>
             <ShareLinkGenerator projectId={projectData.id} projectName={projectData.name} />
           </div>
           {!isMobile && (
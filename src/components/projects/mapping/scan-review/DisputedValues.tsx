@@ -0,0 +1,84 @@
+import { AlertTriangle } from 'lucide-react'
+import type { ExtractionDisputes, ProviderValues, ScanAiProvider } from '@/types/mappingSheetScan'
+
+export const AI_PROVIDER_LABELS: Record<ScanAiProvider, string> = {
+  claude: 'Claude',
+  openai: 'OpenAI',
+}
+
+export interface DisputeCounts {
+  project: number
+  site_contacts: number
+  subcontractors: number
+  total: number
+}
+
+export function countExtractionDisputes(disputes?: ExtractionDisputes): DisputeCounts {
+  const project = Object.keys(disputes?.project ?? {}).length
+  const siteContacts = Object.keys(disputes?.site_contacts ?? {}).length
+  const subcontractors = Object.keys(disputes?.subcontractors ?? {}).length
+  return {
+    project,
+    site_contacts: siteContacts,
+    subcontractors,
+    total: project + siteContacts + subcontractors,
+  }
+}
+
+/**
+ * Reorder extracted rows so the ones the AI providers disagreed on come first,
+ * keeping their confidence scores and disputes aligned with the new order.
+ */
+export function orderDisputedRowsFirst<T>(
+  rows: T[],
+  confidence: number[],
+  disputes?: Record<number, Record<string, ProviderValues>>
+) {
+  const order = rows
+    .map((_, index) => index)
+    .sort((a, b) => Number(!!disputes?.[b]) - Number(!!disputes?.[a]))
+  const reorderedDisputes: Record<number, Record<string, ProviderValues>> = {}
+  order.forEach((originalIndex, newIndex) => {
+    if (disputes?.[originalIndex]) reorderedDisputes[newIndex] = disputes[originalIndex]
+  })
+
+  return {
+    rows: order.map((index) => rows[index]),
+    confidence: order.map((index) => confidence[index] ?? 0),
+    disputes: reorderedDisputes,
+  }
+}
+
+function formatProviderValue(value: unknown) {
+  if (value === null || value === undefined || value === '') return '—'
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (typeof value === 'number') return value.toLocaleString()
+  return String(value)
+}
+
+interface DisputedValuesProps {
+  values: ProviderValues
+  label?: string
+}
+
+/**
+ * Shows each AI provider's reading of a field they disagreed on
+ */
+export function DisputedValues({ values, label }: DisputedValuesProps) {
+  return (
+    <div className="rounded border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-900">
+      <div className="flex items-center gap-1 font-medium">
+        <AlertTriangle className="h-3 w-3" />
+        {label ? `AI readings disagree on ${label}` : 'AI readings disagree'}
+      </div>
+      <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1">
+        {(Object.keys(values) as ScanAiProvider[]).map((provider) => (
+          <span key={provider}>
+            <span className="text-amber-700">{AI_PROVIDER_LABELS[provider] ?? provider}:</span>{' '}
+            {formatProviderValue(values[provider])}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
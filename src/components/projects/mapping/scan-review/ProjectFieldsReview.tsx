@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -10,6 +10,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Button } from '@/components/ui/button'
 import { AlertCircle, TrendingUp, TrendingDown, Minus, Search, FileSearch, Building2 } from 'lucide-react'
 import { ConfidenceIndicator } from './ConfidenceIndicator'
+import { DisputedValues } from './DisputedValues'
 import { EmployerMatchDialog } from './EmployerMatchDialog'
 import { FwcEbaSearchModal } from '@/components/employers/FwcEbaSearchModal'
 import { supabase } from '@/integrations/supabase/client'
@@ -22,11 +23,14 @@ import {
   normalizeProjectType,
   ProjectTypeValue,
 } from '@/utils/projectType'
+import type { ProviderValues } from '@/types/mappingSheetScan'
 
 interface ProjectFieldsReviewProps {
   extractedData: Record<string, any>
   existingData: Record<string, any>
   confidence: Record<string, number>
+  // Fields the AI providers disagreed on (consensus extraction), keyed by extracted field
+  disputes?: Record<string, ProviderValues>
   onDecisionsChange: (decisions: Record<string, any>) => void
   allowProjectCreation?: boolean
 }
@@ -135,6 +139,7 @@ export function ProjectFieldsReview({
   extractedData,
   existingData,
   confidence,
+  disputes,
   onDecisionsChange,
   allowProjectCreation = false,
 }: ProjectFieldsReviewProps) {
@@ -144,6 +149,14 @@ export function ProjectFieldsReview({
     error?: string
   }>>({})
 
+  // Disputed fields are reviewed first
+  const orderedFieldConfigs = useMemo(
+    () => [...FIELD_CONFIGS].sort(
+      (a, b) => Number(!!disputes?.[b.extractedKey]) - Number(!!disputes?.[a.extractedKey])
+    ),
+    [disputes]
+  )
+
   // Builder matching dialog state
   const [builderMatchOpen, setBuilderMatchOpen] = useState(false)
   const [allEmployers, setAllEmployers] = useState<any[]>([])
@@ -400,6 +413,7 @@ export function ProjectFieldsReview({
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
+          {disputes?.project_type && <DisputedValues values={disputes.project_type} />}
           <div className="grid gap-4 md:grid-cols-2">
             <div>
               <div className="text-xs text-gray-500 mb-1">Existing Value</div>
@@ -459,6 +473,7 @@ export function ProjectFieldsReview({
     
     const decision = decisions[config.existingKey]
     const fieldConfidence = confidence[config.extractedKey] || 0
+    const fieldDispute = disputes?.[config.extractedKey]
 
     const hasExtracted = extracted !== null && extracted !== undefined && extracted !== ''
     const hasExisting = existing !== null && existing !== undefined && existing !== ''
@@ -473,11 +488,14 @@ export function ProjectFieldsReview({
     }
 
     return (
-      <Card key={config.existingKey} className={decision?.error ? 'border-red-300' : ''}>
+      <Card key={config.existingKey} className={decision?.error ? 'border-red-300' : fieldDispute ? 'border-amber-300' : ''}>
         <CardHeader className="pb-3">
           <div className="flex items-center justify-between">
             <CardTitle className="text-sm font-medium">{config.label}</CardTitle>
-            {hasExtracted && <ConfidenceIndicator confidence={fieldConfidence} size="sm" />}
+            <div className="flex items-center gap-2">
+              {fieldDispute && <Badge variant="outline" className="border-amber-300 text-amber-800">Disputed</Badge>}
+              {hasExtracted && <ConfidenceIndicator confidence={fieldConfidence} size="sm" />}
+            </div>
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -519,6 +537,8 @@ export function ProjectFieldsReview({
             </div>
           </div>
 
+          {fieldDispute && <DisputedValues values={fieldDispute} />}
+
           {/* Show difference indicator */}
           {hasDifference && config.existingKey === 'value' && (
             <Alert>
@@ -738,7 +758,7 @@ export function ProjectFieldsReview({
 
       <div className="grid gap-4">
         {renderProjectTypeSelector()}
-        {FIELD_CONFIGS.map(renderFieldComparison)}
+        {orderedFieldConfigs.map(renderFieldComparison)}
       </div>
 
       {/* Builder Matching Dialog */}
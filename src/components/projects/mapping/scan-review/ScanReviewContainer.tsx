@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
@@ -24,6 +24,7 @@ import { SiteContactsReview } from './SiteContactsReview'
 import { SubcontractorsReview } from './SubcontractorsReview'
 import { ConfidenceIndicator } from './ConfidenceIndicator'
 import { DuplicateProjectWarning } from './DuplicateProjectWarning'
+import { AI_PROVIDER_LABELS, countExtractionDisputes, orderDisputedRowsFirst } from './DisputedValues'
 import type { ExtractedMappingSheetData } from '@/types/mappingSheetScan'
 import { useNavigationLoading } from '@/hooks/useNavigationLoading'
 import { normalizeSiteContactRole } from '@/utils/siteContactRole'
@@ -426,6 +427,23 @@ export function ScanReviewContainer({
   const overallConfidence = extractedData?.confidence?.overall || 0
   const extractedDataMissing = !scanData.extracted_data
 
+  // Consensus scans: rows the AI providers disagreed on are listed first in each tab
+  const disputes = extractedData.confidence?.disputes
+  const disputeCounts = countExtractionDisputes(disputes)
+  const orderedSubcontractors = useMemo(
+    () => orderDisputedRowsFirst(
+      extractedData.subcontractors || [],
+      extractedData.confidence?.subcontractors || [],
+      disputes?.subcontractors
+    ),
+    // extractedData is rebuilt each render; the scan's extracted_data is the stable source
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [scanData.extracted_data]
+  )
+  const providerLabel = scanData.ai_provider === 'consensus'
+    ? (extractedData.confidence?.providers ?? ['claude', 'openai']).map((provider) => AI_PROVIDER_LABELS[provider]).join(' + ')
+    : scanData.ai_provider === 'claude' ? 'Claude AI' : 'OpenAI'
+
   return (
     <div className="min-h-screen bg-gray-50 pb-20">
       {/* Header */}
@@ -447,8 +465,8 @@ export function ScanReviewContainer({
             </div>
             <div className="flex items-center gap-3">
               <ConfidenceIndicator confidence={overallConfidence} showLabel />
-              <Badge variant={scanData.ai_provider === 'claude' ? 'default' : 'secondary'}>
-                {scanData.ai_provider === 'claude' ? 'Claude AI' : 'OpenAI'}
+              <Badge variant={scanData.ai_provider === 'openai' ? 'secondary' : 'default'}>
+                {providerLabel}
               </Badge>
             </div>
           </div>
@@ -472,6 +490,20 @@ export function ScanReviewContainer({
     </div>
   )}
 
+      {disputeCounts.total > 0 && (
+        <div className="max-w-7xl mx-auto px-4 pt-4">
+          <Alert className="border-amber-300 bg-amber-50">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              <strong>The AI providers disagreed on part of this sheet.</strong> Disputed fields are listed first in each tab with both readings shown.
+              {disputeCounts.project > 0 && ` • Project Details: ${disputeCounts.project}`}
+              {disputeCounts.site_contacts > 0 && ` • Site Contacts: ${disputeCounts.site_contacts}`}
+              {disputeCounts.subcontractors > 0 && ` • Subcontractors: ${disputeCounts.subcontractors}`}
+            </AlertDescription>
+          </Alert>
+        </div>
+      )}
+
       {extractedDataMissing && (
         <div className="max-w-7xl mx-auto px-4 pt-4">
           <Alert>
@@ -539,6 +571,7 @@ export function ScanReviewContainer({
               extractedData={extractedData.project || {}}
               existingData={projectData}
               confidence={extractedData.confidence?.project || {}}
+              disputes={disputes?.project}
               onDecisionsChange={setProjectDecisions}
               allowProjectCreation={allowProjectCreation}
             />
@@ -549,15 +582,17 @@ export function ScanReviewContainer({
               extractedContacts={extractedData.site_contacts || []}
               existingContacts={existingContacts}
               confidence={extractedData.confidence?.site_contacts || []}
+              disputes={disputes?.site_contacts}
               onDecisionsChange={setContactsDecisions}
             />
           </TabsContent>
 
           <TabsContent value="subcontractors" className="mt-6">
             <SubcontractorsReview
-              extractedSubcontractors={extractedData.subcontractors || []}
+              extractedSubcontractors={orderedSubcontractors.rows}
               projectId={projectData.id}
-              confidence={extractedData.confidence?.subcontractors || []}
+              confidence={orderedSubcontractors.confidence}
+              disputes={orderedSubcontractors.disputes}
               onDecisionsChange={setSubcontractorDecisions}
               allowProjectCreation={allowProjectCreation}
             />
@@ -9,8 +9,10 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Badge } from '@/components/ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { ConfidenceIndicator } from './ConfidenceIndicator'
+import { DisputedValues } from './DisputedValues'
 import { Plus, Edit2, X } from 'lucide-react'
 import { SITE_CONTACT_ROLES } from '@/utils/siteContactRole'
+import type { ProviderValues } from '@/types/mappingSheetScan'
 
 interface SiteContactsReviewProps {
   extractedContacts: Array<{
@@ -27,6 +29,8 @@ interface SiteContactsReviewProps {
     phone?: string
   }>
   confidence: number[]
+  // Fields the AI providers disagreed on (consensus extraction), keyed by extracted contact index
+  disputes?: Record<number, Record<string, ProviderValues>>
   onDecisionsChange: (decisions: any[]) => void
   allowProjectCreation?: boolean
 }
@@ -46,6 +50,7 @@ type ContactDecision = {
   phone: string
   existingId: string | null
   confidence: number
+  disputedFields?: Record<string, ProviderValues>
   isEditing: boolean
   isNew?: boolean
 }
@@ -54,6 +59,7 @@ export function SiteContactsReview({
   extractedContacts,
   existingContacts,
   confidence,
+  disputes,
   onDecisionsChange,
   allowProjectCreation = false,
 }: SiteContactsReviewProps) {
@@ -89,13 +95,17 @@ export function SiteContactsReview({
         phone: shouldUpdate ? (extracted?.phone ?? '') : (existing?.phone ?? ''),
         existingId: existing?.id || null,
         confidence: extractedIndex >= 0 ? (confidence[extractedIndex] || 0) : 0,
+        disputedFields: extractedIndex >= 0 ? disputes?.[extractedIndex] : undefined,
         isEditing: false,
         isNew: false,
       }
     })
+
+    // Contacts the AI providers disagreed on are reviewed first
+    initial.sort((a, b) => Number(!!b.disputedFields) - Number(!!a.disputedFields))
     
     setDecisions(initial)
-  }, [extractedContacts, existingContacts, confidence])
+  }, [extractedContacts, existingContacts, confidence, disputes])
 
   // Notify parent of all decisions that should be applied (update or edit actions)
   useEffect(() => {
@@ -338,9 +348,14 @@ export function SiteContactsReview({
                     )}
                   </TableCell>
                   <TableCell>
-                    {decision.confidence > 0 && (
-                      <ConfidenceIndicator confidence={decision.confidence} size="sm" />
-                    )}
+                    <div className="space-y-2">
+                      {decision.confidence > 0 && (
+                        <ConfidenceIndicator confidence={decision.confidence} size="sm" />
+                      )}
+                      {decision.disputedFields && Object.entries(decision.disputedFields).map(([field, values]) => (
+                        <DisputedValues key={field} values={values} label={field} />
+                      ))}
+                    </div>
                   </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-2">
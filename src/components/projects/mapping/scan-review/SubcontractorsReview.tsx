@@ -17,6 +17,7 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/component
 import { Building2, AlertCircle, Plus, Search, X, FileSearch, Tags, Users, Keyboard, HelpCircle, Zap, ChevronDown, Info, ArrowRight, Lightbulb, ChevronUp, ChevronLeft, ChevronRight, CheckCircle2, Check } from 'lucide-react'
 import { supabase } from '@/integrations/supabase/client'
 import { ConfidenceIndicator } from './ConfidenceIndicator'
+import { DisputedValues } from './DisputedValues'
 import { EmployerMatchDialog } from './EmployerMatchDialog'
 import { FwcEbaSearchModal } from '@/components/employers/FwcEbaSearchModal'
 import { BatchEbaSearchModal } from './BatchEbaSearchModal'
@@ -27,6 +28,7 @@ import { useMappingSheetData } from '@/hooks/useMappingSheetData'
 import { toast } from 'sonner'
 import { StatusSelectSimple } from '@/components/ui/StatusSelect'
 import { TradeStatus } from '@/components/ui/StatusBadge'
+import type { ProviderValues } from '@/types/mappingSheetScan'
 import { EbaEmployerQuickList } from './EbaEmployerQuickList'
 import { useKeyContractorTradesSet } from '@/hooks/useKeyContractorTrades'
 import { useIsMobile } from '@/hooks/use-mobile'
@@ -40,6 +42,8 @@ interface SubcontractorsReviewProps {
   }>
   projectId?: string
   confidence: number[]
+  // Fields the AI providers disagreed on (consensus extraction), keyed by extracted row index
+  disputes?: Record<number, Record<string, ProviderValues>>
   onDecisionsChange: (decisions: any[]) => void
   allowProjectCreation?: boolean
 }
@@ -96,6 +100,7 @@ export function SubcontractorsReview({
   extractedSubcontractors,
   projectId,
   confidence,
+  disputes,
   onDecisionsChange,
   allowProjectCreation = false,
 }: SubcontractorsReviewProps) {
@@ -203,6 +208,7 @@ export function SubcontractorsReview({
           matchedEmployer: null,
           matchConfidence: 0,
           confidence: confidence[index] || 0,
+          disputedFields: disputes?.[index],
           status: 'unknown' as TradeStatus, // Default for empty companies
           existingEmployers: existingAssignments.map(ea => ({
             id: ea.employerId,
@@ -221,7 +227,8 @@ export function SubcontractorsReview({
         matchedEmployer: match || null,
         matchConfidence: match ? (match.confidence === 'exact' ? 1.0 : match.confidence === 'high' ? 0.8 : 0.6) : 0,
         confidence: confidence[index] || 0,
-        needsReview: !match || match.confidence !== 'exact',
+        disputedFields: disputes?.[index],
+        needsReview: !match || match.confidence !== 'exact' || !!disputes?.[index],
         status: 'active' as TradeStatus, // Default for companies with names
         existingEmployers: existingAssignments.map(ea => ({
           id: ea.employerId,
@@ -1801,7 +1808,12 @@ export function SubcontractorsReview({
                     
                     {/* Confidence */}
                     <TableCell>
-                      <ConfidenceIndicator confidence={decision.confidence} size="sm" />
+                      <div className="space-y-2">
+                        <ConfidenceIndicator confidence={decision.confidence} size="sm" />
+                        {decision.disputedFields && Object.entries(decision.disputedFields as Record<string, ProviderValues>).map(([field, values]) => (
+                          <DisputedValues key={field} values={values} label={field} />
+                        ))}
+                      </div>
                     </TableCell>
                     
                     {/* Actions */}
@@ -1,6 +1,7 @@
 "use client"
 
 import { useState, useCallback, useMemo } from "react"
+import { useQuery } from "@tanstack/react-query"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -22,7 +23,8 @@ import {
   Eye,
   Edit,
   MoreHorizontal,
-  Activity
+  Activity,
+  MessageSquareText
 } from "lucide-react"
 import {
   FourPointRatingDisplay,
@@ -40,6 +42,7 @@ import {
   Safety4PointAssessment,
   EmployerRole
 } from "@/types/assessments"
+import type { RatingNarrativeResponse } from "@/app/api/ratings/employers/[employerId]/narrative/route"
 
 interface EnhancedEmployerRatingCardProps {
   employerId: string
@@ -59,6 +62,7 @@ interface EnhancedEmployerRatingCardProps {
   compact?: boolean
   showTrends?: boolean
   showActions?: boolean
+  showNarrative?: boolean
   className?: string
 }
 
@@ -90,10 +94,12 @@ export function EnhancedEmployerRatingCard({
   compact = false,
   showTrends = true,
   showActions = true,
+  showNarrative = true,
   className
 }: EnhancedEmployerRatingCardProps) {
   const { trigger } = useHapticFeedback()
   const [isExpanded, setIsExpanded] = useState(false)
+  const [isNarrativeOpen, setIsNarrativeOpen] = useState(false)
 
   const handleClick = useCallback(() => {
     trigger('selection')
@@ -420,6 +426,25 @@ export function EnhancedEmployerRatingCard({
           )}
         </div>
 
+        {/* Rating Narrative */}
+        {showNarrative && (
+          <div className="space-y-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="px-0"
+              onClick={(e) => {
+                e.stopPropagation()
+                setIsNarrativeOpen(!isNarrativeOpen)
+              }}
+            >
+              <MessageSquareText className="h-4 w-4 mr-1" />
+              {isNarrativeOpen ? 'Hide explanation' : 'Why this rating?'}
+            </Button>
+            {isNarrativeOpen && <RatingNarrativeSummary employerId={employerId} />}
+          </div>
+        )}
+
         {/* Action Buttons */}
         {showActions && (
           <div className="flex gap-2 pt-2 border-t">
@@ -447,6 +472,76 @@ export function EnhancedEmployerRatingCard({
   )
 }
 
+// Plain-English explanation of the employer's calculated traffic light rating
+function RatingNarrativeSummary({ employerId }: { employerId: string }) {
+  const { data, isLoading, error } = useQuery<RatingNarrativeResponse>({
+    queryKey: ["employer-rating-narrative", employerId],
+    queryFn: async () => {
+      const response = await fetch(`/api/ratings/employers/${employerId}/narrative`)
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}))
+        throw new Error(body.error || 'Failed to load rating explanation')
+      }
+      return response.json()
+    },
+    staleTime: 5 * 60 * 1000,
+  })
+
+  if (isLoading) {
+    return <div className="text-xs text-muted-foreground">Loading explanation...</div>
+  }
+
+  if (error || !data) {
+    return (
+      <div className="text-xs text-red-600">
+        {error instanceof Error ? error.message : 'Failed to load rating explanation'}
+      </div>
+    )
+  }
+
+  const { narrative } = data
+
+  return (
+    <div className="space-y-2 rounded-lg border bg-muted/40 p-3 text-sm" onClick={(e) => e.stopPropagation()}>
+      <p className="font-medium">{narrative.headline}</p>
+      <ul className="list-disc space-y-1 pl-4 text-muted-foreground">
+        {narrative.drivers.map((driver) => (
+          <li key={driver}>{driver}</li>
+        ))}
+      </ul>
+      {narrative.discrepancy && (
+        <div className="flex items-start gap-1 text-amber-700">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>{narrative.discrepancy}</span>
+        </div>
+      )}
+      {narrative.stale_data.length > 0 && (
+        <div className="space-y-1">
+          <div className="flex items-center gap-1 text-muted-foreground">
+            <Clock className="h-4 w-4" />
+            <span>{narrative.stale_data[0]}</span>
+          </div>
+          <ul className="list-disc space-y-1 pl-4 text-xs text-muted-foreground">
+            {narrative.stale_data.slice(1).map((item) => (
+              <li key={item}>{item}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {narrative.what_would_change.length > 0 && (
+        <div className="space-y-1">
+          <div className="font-medium">What would change the rating</div>
+          <ul className="list-disc space-y-1 pl-4 text-muted-foreground">
+            {narrative.what_would_change.map((item) => (
+              <li key={item}>{item}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
 // Enhanced version with detailed breakdown
 export function DetailedEmployerRatingCard({
   employerId,
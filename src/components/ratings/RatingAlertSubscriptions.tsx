@@ -0,0 +1,205 @@
+"use client"
+
+import { useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+import { Loader2, Trash2 } from "lucide-react"
+import { getSupabaseBrowserClient } from "@/lib/supabase/client"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { RatingAlertSubscription } from "@/app/api/ratings/alerts/subscriptions/route"
+
+interface SubscriptionsResponse {
+  subscriptions: RatingAlertSubscription[]
+  patches: Array<{ id: string; name: string | null }>
+}
+
+const EMPLOYER_SEARCH_LIMIT = 8
+
+async function readJson<T>(response: Response): Promise<T> {
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) throw new Error(data.error || `Request failed (${response.status})`)
+  return data as T
+}
+
+/**
+ * Patches and employers the user gets rating alerts for, and whether each arrives
+ * in-app, in the email digest, or both.
+ */
+export function RatingAlertSubscriptions() {
+  const queryClient = useQueryClient()
+  const [employerSearch, setEmployerSearch] = useState("")
+
+  const { data, isLoading } = useQuery<SubscriptionsResponse>({
+    queryKey: ["rating-alert-subscriptions"],
+    queryFn: async () => readJson<SubscriptionsResponse>(await fetch("/api/ratings/alerts/subscriptions")),
+  })
+
+  const { data: employerMatches = [] } = useQuery<Array<{ id: string; name: string }>>({
+    queryKey: ["rating-alert-employer-search", employerSearch],
+    enabled: employerSearch.trim().length >= 2,
+    queryFn: async () => {
+      const supabase = getSupabaseBrowserClient()
+      const { data: employers, error } = await supabase
+        .from("employers")
+        .select("id, name")
+        .ilike("name", `%${employerSearch.trim()}%`)
+        .order("name")
+        .limit(EMPLOYER_SEARCH_LIMIT)
+      if (error) throw error
+      return employers ?? []
+    },
+  })
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["rating-alert-subscriptions"] })
+
+  const subscribe = useMutation({
+    mutationFn: async (target: { patchId?: string; employerId?: string }) =>
+      readJson(await fetch("/api/ratings/alerts/subscriptions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(target),
+      })),
+    onSuccess: () => {
+      toast.success("Subscribed to rating alerts")
+      setEmployerSearch("")
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const updateDelivery = useMutation({
+    mutationFn: async ({ id, ...changes }: { id: string; inApp?: boolean; digest?: boolean }) =>
+      readJson(await fetch(`/api/ratings/alerts/subscriptions/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      })),
+    onSuccess: invalidate,
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const unsubscribe = useMutation({
+    mutationFn: async (id: string) =>
+      readJson(await fetch(`/api/ratings/alerts/subscriptions/${id}`, { method: "DELETE" })),
+    onSuccess: invalidate,
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const subscriptions = data?.subscriptions ?? []
+  const subscribedPatches = new Set(subscriptions.map((s) => s.patchId).filter(Boolean))
+  const subscribedEmployers = new Set(subscriptions.map((s) => s.employerId).filter(Boolean))
+  const availablePatches = (data?.patches ?? []).filter((patch) => !subscribedPatches.has(patch.id))
+
+  return (
+    <div className="space-y-4">
+      {subscriptions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">You are not subscribed to any rating alerts.</p>
+      ) : (
+        <div className="space-y-2">
+          {subscriptions.map((subscription) => (
+            <div key={subscription.id} className="flex flex-wrap items-center justify-between gap-3 rounded-md border p-3">
+              <div>
+                <p className="text-sm font-medium">{subscription.name}</p>
+                <p className="text-xs text-muted-foreground">{subscription.patchId ? "Patch" : "Employer"}</p>
+              </div>
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`rating-alert-in-app-${subscription.id}`}
+                    checked={subscription.inApp}
+                    disabled={updateDelivery.isPending || (subscription.inApp && !subscription.digest)}
+                    onCheckedChange={(inApp) => updateDelivery.mutate({ id: subscription.id, inApp })}
+                  />
+                  <Label htmlFor={`rating-alert-in-app-${subscription.id}`} className="text-xs font-normal">In-app</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`rating-alert-digest-${subscription.id}`}
+                    checked={subscription.digest}
+                    disabled={updateDelivery.isPending || (subscription.digest && !subscription.inApp)}
+                    onCheckedChange={(digest) => updateDelivery.mutate({ id: subscription.id, digest })}
+                  />
+                  <Label htmlFor={`rating-alert-digest-${subscription.id}`} className="text-xs font-normal">Digest</Label>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  title="Unsubscribe"
+                  disabled={unsubscribe.isPending}
+                  onClick={() => unsubscribe.mutate(subscription.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Digest alerts are included in your organiser email digest when it is turned on.
+      </p>
+
+      {availablePatches.length > 0 && (
+        <div className="space-y-1">
+          <Label>Add a patch</Label>
+          <Select value="" onValueChange={(patchId) => subscribe.mutate({ patchId })} disabled={subscribe.isPending}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose one of your patches" />
+            </SelectTrigger>
+            <SelectContent>
+              {availablePatches.map((patch) => (
+                <SelectItem key={patch.id} value={patch.id}>{patch.name || "Unnamed patch"}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <Label htmlFor="rating-alert-employer-search">Add an employer</Label>
+        <Input
+          id="rating-alert-employer-search"
+          placeholder="Search employers by name"
+          value={employerSearch}
+          onChange={(e) => setEmployerSearch(e.target.value)}
+        />
+        {employerSearch.trim().length >= 2 && (
+          <div className="rounded-md border divide-y">
+            {employerMatches.length === 0 ? (
+              <p className="p-2 text-sm text-muted-foreground">No employers found</p>
+            ) : (
+              employerMatches.map((employer) => (
+                <button
+                  key={employer.id}
+                  type="button"
+                  className="w-full p-2 text-left text-sm hover:bg-muted disabled:opacity-50"
+                  disabled={subscribe.isPending || subscribedEmployers.has(employer.id)}
+                  onClick={() => subscribe.mutate({ employerId: employer.id })}
+                >
+                  {employer.name}
+                  {subscribedEmployers.has(employer.id) && (
+                    <span className="ml-2 text-xs text-muted-foreground">Subscribed</span>
+                  )}
+                </button>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
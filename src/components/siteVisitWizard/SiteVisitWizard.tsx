@@ -11,12 +11,14 @@ import { AddProjectOptions } from './phases/AddProjectOptions'
 import { BCIImportPanel } from './phases/BCIImportPanel'
 import { BCIProjectSelector } from './phases/BCIProjectSelector'
 import { MobileManualProjectForm } from './phases/MobileManualProjectForm'
+import { DetectedVisits } from './phases/DetectedVisits'
 import { MobileBCIImport } from '@/components/upload/MobileBCIImport'
 import { ContactsView } from './views/ContactsView'
 import { MappingView } from './views/MappingView'
 import { RatingsView } from './views/RatingsView'
 import { EbaView } from './views/EbaView'
 import { IncolinkView } from './views/IncolinkView'
+import { DirectDebitView } from './views/DirectDebitView'
 import { ProjectDetailsView } from './views/ProjectDetailsView'
 import { toast } from 'sonner'
 
@@ -31,6 +33,7 @@ export function SiteVisitWizard() {
     goToBCIProjectSelect,
     goToBCIImporting,
     goToManualCreate,
+    selectProject,
     openView,
     closeView,
     showExitDialog,
@@ -125,6 +128,7 @@ export function SiteVisitWizard() {
         ratings: 'Employer Ratings',
         eba: 'EBA Status',
         incolink: 'Incolink',
+        'direct-debit': 'Direct Debit',
         'project-details': 'Project Details',
       }
       return {
@@ -226,6 +230,15 @@ export function SiteVisitWizard() {
             projectName={state.selectedProject.name}
           />
         )
+      case 'direct-debit':
+        return (
+          <DirectDebitView
+            projectId={state.selectedProject.id}
+            mainJobSiteId={state.selectedProject.mainJobSiteId}
+            draftVisitId={state.selectedProject.draftVisitId}
+            onDraftVisitCreated={(visitId) => selectProject({ ...state.selectedProject!, draftVisitId: visitId })}
+          />
+        )
       case 'project-details':
         return (
           <ProjectDetailsView 
@@ -254,10 +267,13 @@ export function SiteVisitWizard() {
         {state.view ? (
           renderView()
         ) : state.phase === 'project-selection' ? (
-          <ProjectSelector 
-            onProjectSelected={handleProjectSelected}
-            onAddNewProject={goToAddProjectOptions}
-          />
+          <>
+            <DetectedVisits onConfirm={goToActionMenu} />
+            <ProjectSelector 
+              onProjectSelected={handleProjectSelected}
+              onAddNewProject={goToAddProjectOptions}
+            />
+          </>
         ) : state.phase === 'add-project-options' ? (
           <AddProjectOptions
             onSelectBCIImport={goToBCIImport}
@@ -315,6 +331,7 @@ export function SiteVisitWizard() {
           projectId={state.selectedProject.id}
           projectName={state.selectedProject.name}
           mainJobSiteId={state.selectedProject.mainJobSiteId}
+          draftVisitId={state.selectedProject.draftVisitId}
           onComplete={handleSiteVisitComplete}
           onSkip={handleSiteVisitSkip}
           preSelectedReasonNames={getPreSelectedReasonNames()}
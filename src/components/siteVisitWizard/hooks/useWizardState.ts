@@ -19,6 +19,7 @@ export type WizardView =
   | 'ratings' 
   | 'eba' 
   | 'incolink' 
+  | 'direct-debit'
   | 'project-details' 
   | null
 
@@ -28,6 +29,8 @@ export interface SelectedProject {
   address?: string | null
   builderName?: string | null
   mainJobSiteId?: string | null
+  // Draft visit from geofence dwell detection that this wizard session confirms
+  draftVisitId?: string | null
 }
 
 // BCI import data types
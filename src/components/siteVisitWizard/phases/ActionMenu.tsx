@@ -2,6 +2,7 @@
 
 import { type WizardView, type SelectedProject } from '../hooks/useWizardState'
 import { WizardButton } from '../shared/WizardButton'
+import { SiteRepTrainingAlert } from '../shared/SiteRepTrainingAlert'
 import { cn } from '@/lib/utils'
 import { 
   Users, 
@@ -9,6 +10,7 @@ import {
   Star, 
   FileCheck, 
   Link2, 
+  CreditCard,
   Building,
   ArrowLeftRight,
   LogOut
@@ -65,6 +67,13 @@ const menuItems: ActionMenuItem[] = [
     description: 'Incolink payment status',
     color: 'bg-emerald-500',
   },
+  {
+    id: 'direct-debit',
+    label: 'Direct Debit',
+    icon: <CreditCard className="h-8 w-8" />,
+    description: 'Record DD conversion attempts',
+    color: 'bg-teal-500',
+  },
   {
     id: 'project-details',
     label: 'Project Details',
@@ -105,6 +114,8 @@ export function ActionMenu({
           </div>
         </div>
       </div>
+
+      <SiteRepTrainingAlert projectId={project.id} />
       
       {/* Action buttons grid */}
       <div className="grid grid-cols-2 gap-3">
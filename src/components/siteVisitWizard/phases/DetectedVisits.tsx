@@ -0,0 +1,128 @@
+"use client"
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/integrations/supabase/client'
+import { useAuth } from '@/hooks/useAuth'
+import { toast } from 'sonner'
+import { WizardButton } from '../shared/WizardButton'
+import { type SelectedProject } from '../hooks/useWizardState'
+import { MapPin, Check, X } from 'lucide-react'
+
+interface DetectedVisitsProps {
+  onConfirm: (project: SelectedProject) => void
+}
+
+interface DetectedVisit {
+  id: string
+  date: string
+  job_site_id: string
+  project_id: string | null
+  job_sites: { name: string | null; full_address: string | null } | null
+  projects: { id: string; name: string } | null
+}
+
+export const DETECTED_VISITS_QUERY_KEY = 'site-visit-wizard-detected-visits'
+
+/**
+ * Draft visits created by geofence dwell detection. Confirming one carries the
+ * draft into the wizard so the visit dialog on exit completes it rather than
+ * logging a second visit; discarding deletes it.
+ */
+export function DetectedVisits({ onConfirm }: DetectedVisitsProps) {
+  const { user } = useAuth()
+  const queryClient = useQueryClient()
+
+  const { data: visits = [] } = useQuery({
+    queryKey: [DETECTED_VISITS_QUERY_KEY, user?.id],
+    queryFn: async () => {
+      const { data, error } = await (supabase as any)
+        .from('site_visit')
+        .select('id, date, job_site_id, project_id, job_sites(name, full_address), projects(id, name)')
+        .eq('organiser_id', user!.id)
+        .eq('visit_status', 'draft')
+        .eq('detection_source', 'geofence')
+        .order('date', { ascending: false })
+        .limit(5)
+
+      if (error) throw error
+      return (data || []) as DetectedVisit[]
+    },
+    enabled: !!user?.id,
+    staleTime: 60 * 1000,
+  })
+
+  const discardMutation = useMutation({
+    mutationFn: async (visitId: string) => {
+      const { error } = await supabase.from('site_visit').delete().eq('id', visitId)
+      if (error) throw error
+    },
+    onSuccess: () => {
+      toast.success('Detected visit discarded')
+      queryClient.invalidateQueries({ queryKey: [DETECTED_VISITS_QUERY_KEY] })
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to discard visit')
+    },
+  })
+
+  if (visits.length === 0) return null
+
+  return (
+    <div className="px-4 pt-4 space-y-3">
+      <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide">Detected visits</h2>
+      {visits.map((visit) => {
+        const projectName = visit.projects?.name ?? visit.job_sites?.name ?? 'Unknown site'
+        const detectedAt = new Date(visit.date).toLocaleString('en-AU', {
+          weekday: 'short',
+          day: 'numeric',
+          month: 'short',
+          hour: '2-digit',
+          minute: '2-digit',
+        })
+
+        return (
+          <div key={visit.id} className="bg-white rounded-2xl border-2 border-blue-200 p-4 space-y-3">
+            <div className="flex items-start gap-3">
+              <MapPin className="h-5 w-5 text-blue-600 mt-0.5 shrink-0" />
+              <div className="min-w-0">
+                <p className="font-semibold text-gray-900 truncate">{projectName}</p>
+                <p className="text-sm text-gray-500">You were on site from {detectedAt}</p>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <WizardButton
+                variant="primary"
+                size="sm"
+                fullWidth
+                icon={<Check className="h-4 w-4" />}
+                disabled={!visit.projects}
+                onClick={() => {
+                  if (!visit.projects) return
+                  onConfirm({
+                    id: visit.projects.id,
+                    name: visit.projects.name,
+                    address: visit.job_sites?.full_address ?? null,
+                    mainJobSiteId: visit.job_site_id,
+                    draftVisitId: visit.id,
+                  })
+                }}
+              >
+                Confirm
+              </WizardButton>
+              <WizardButton
+                variant="outline"
+                size="sm"
+                fullWidth
+                icon={<X className="h-4 w-4" />}
+                loading={discardMutation.isPending && discardMutation.variables === visit.id}
+                onClick={() => discardMutation.mutate(visit.id)}
+              >
+                Discard
+              </WizardButton>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+"use client"
+
+import { GraduationCap } from 'lucide-react'
+import { useTrainingDue } from '@/hooks/useTrainingDue'
+import { TRAINED_ROLE_LABELS, TRAINING_STATUS_LABELS, isTrainingLapsed } from '@/lib/training/refresher'
+
+interface SiteRepTrainingAlertProps {
+  projectId: string
+}
+
+/**
+ * Delegates and HSRs on the project's sites whose required training has
+ * lapsed or was never done, so the organiser can raise it while on site
+ */
+export function SiteRepTrainingAlert({ projectId }: SiteRepTrainingAlertProps) {
+  const { data } = useTrainingDue({ projectId })
+
+  const lapsed = (data?.rows ?? []).filter((row) => isTrainingLapsed(row.status))
+  if (lapsed.length === 0) return null
+
+  return (
+    <div className="bg-rose-50 border border-rose-200 rounded-2xl p-4">
+      <div className="flex items-center gap-2 text-rose-800 font-semibold">
+        <GraduationCap className="h-5 w-5" />
+        <span>
+          {lapsed.length === 1 ? '1 rep needs training' : `${lapsed.length} reps need training`}
+        </span>
+      </div>
+      <ul className="mt-2 space-y-1 text-sm text-rose-900">
+        {lapsed.map((row) => (
+          <li key={`${row.union_role_id}:${row.course_id}`}>
+            <span className="font-medium">
+              {[row.first_name, row.surname].filter(Boolean).join(' ') || 'Unnamed worker'}
+            </span>
+            {' · '}
+            {TRAINED_ROLE_LABELS[row.union_role] ?? row.union_role}
+            {' · '}
+            {row.course_name} {TRAINING_STATUS_LABELS[row.status].toLowerCase()}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
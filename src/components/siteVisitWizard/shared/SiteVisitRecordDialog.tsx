@@ -7,6 +7,7 @@ import { useAuth } from '@/hooks/useAuth'
 import { useToast } from '@/hooks/use-toast'
 import { cn } from '@/lib/utils'
 import { WizardButton } from './WizardButton'
+import { DETECTED_VISITS_QUERY_KEY } from '../phases/DetectedVisits'
 import { 
   Dialog, 
   DialogContent, 
@@ -24,6 +25,8 @@ interface SiteVisitRecordDialogProps {
   projectId: string
   projectName: string
   mainJobSiteId?: string | null
+  // Geofence-detected draft to complete instead of inserting a new visit
+  draftVisitId?: string | null
   onComplete?: () => void
   onSkip?: () => void
   // Pre-selected reason names based on visited views
@@ -44,6 +47,7 @@ export function SiteVisitRecordDialog({
   projectId,
   projectName,
   mainJobSiteId,
+  draftVisitId,
   onComplete,
   onSkip,
   preSelectedReasonNames = [],
@@ -100,6 +104,33 @@ export function SiteVisitRecordDialog({
     mutationFn: async () => {
       if (!user?.id) throw new Error('User not authenticated')
       
+      // A detected visit already has its site and arrival time; just complete it
+      if (draftVisitId) {
+        const { data: visit, error: visitError } = await (supabase as any)
+          .from('site_visit')
+          .update({
+            notes: notes || null,
+            visit_status: 'completed',
+            updated_by: user.id,
+          })
+          .eq('id', draftVisitId)
+          .select('id')
+          .single()
+        
+        if (visitError) throw visitError
+        
+        if (selectedReasons.length > 0 && visit?.id) {
+          await (supabase as any)
+            .from('site_visit_reasons')
+            .insert(selectedReasons.map(reasonId => ({
+              visit_id: visit.id,
+              reason_definition_id: reasonId,
+            })))
+        }
+        
+        return visit
+      }
+      
       // First, get the job site ID for this project
       let jobSiteId = mainJobSiteId
       
@@ -156,6 +187,7 @@ export function SiteVisitRecordDialog({
       })
       queryClient.invalidateQueries({ queryKey: ['project-site-visits', projectId] })
       queryClient.invalidateQueries({ queryKey: ['v_project_last_visit'] })
+      queryClient.invalidateQueries({ queryKey: [DETECTED_VISITS_QUERY_KEY] })
       onComplete?.()
       onOpenChange(false)
     },
@@ -0,0 +1,145 @@
+"use client"
+
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/integrations/supabase/client'
+import { useAuth } from '@/hooks/useAuth'
+import { useToast } from '@/hooks/use-toast'
+import { WizardButton } from '../shared/WizardButton'
+import { DdConversionCapture } from '@/components/siteVisits/DdConversionCapture'
+import { saveDdConversionAttempts, type DdConversionDraft } from '@/lib/dd-conversion/attempts'
+import { CreditCard, Loader2, Save } from 'lucide-react'
+
+interface DirectDebitViewProps {
+  projectId: string
+  mainJobSiteId?: string | null
+  draftVisitId?: string | null
+  // Called when attempts needed a visit to hang off and one was started
+  onDraftVisitCreated: (visitId: string) => void
+}
+
+export function DirectDebitView({
+  projectId,
+  mainJobSiteId,
+  draftVisitId,
+  onDraftVisitCreated,
+}: DirectDebitViewProps) {
+  const { user } = useAuth()
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const [drafts, setDrafts] = useState<DdConversionDraft[]>([])
+
+  // Get effective site ID
+  const { data: effectiveSiteId, isLoading: isLoadingSite } = useQuery({
+    queryKey: ['wizard-effective-site', projectId, mainJobSiteId],
+    queryFn: async () => {
+      if (mainJobSiteId) return mainJobSiteId
+
+      const { data } = await supabase
+        .from('job_sites')
+        .select('id')
+        .eq('project_id', projectId)
+        .limit(1)
+        .maybeSingle()
+
+      return data?.id || null
+    },
+  })
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error('Not authenticated')
+      if (!effectiveSiteId) throw new Error('No job site found for this project')
+
+      // Attempts belong to a visit; start a draft that the exit dialog completes
+      let visitId = draftVisitId
+      if (!visitId) {
+        const { data: visit, error } = await (supabase as any)
+          .from('site_visit')
+          .insert({
+            job_site_id: effectiveSiteId,
+            project_id: projectId,
+            organiser_id: user.id,
+            date: new Date().toISOString(),
+            visit_status: 'draft',
+            created_by: user.id,
+          })
+          .select('id')
+          .single()
+
+        if (error) throw error
+        visitId = visit.id as string
+        onDraftVisitCreated(visitId)
+      }
+
+      await saveDdConversionAttempts(visitId, drafts)
+      return drafts.filter((draft) => draft.outcomeCode === 'converted').length
+    },
+    onSuccess: (convertedCount) => {
+      toast({
+        title: 'DD attempts saved',
+        description: convertedCount > 0
+          ? `${convertedCount} worker${convertedCount === 1 ? '' : 's'} moved to direct debit.`
+          : 'Attempts recorded against this visit.',
+      })
+      setDrafts([])
+      queryClient.invalidateQueries({ queryKey: ['dd-conversion-attempts'] })
+      queryClient.invalidateQueries({ queryKey: ['dd-site-workers'] })
+      queryClient.invalidateQueries({ queryKey: ['dd-conversion-funnel'] })
+    },
+    onError: (error) => {
+      toast({
+        title: 'Failed to save',
+        description: error instanceof Error ? error.message : 'An error occurred',
+        variant: 'destructive',
+      })
+    },
+  })
+
+  const canSave = drafts.length > 0 && drafts.every((draft) => draft.workerId)
+
+  if (isLoadingSite) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-4 space-y-4 pb-safe-bottom">
+      <div className="bg-white rounded-2xl border border-gray-200 p-5">
+        <div className="flex items-start gap-4 mb-4">
+          <div className="w-12 h-12 bg-teal-100 rounded-xl flex items-center justify-center flex-shrink-0">
+            <CreditCard className="h-6 w-6 text-teal-600" />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Direct Debit Conversion</h3>
+            <p className="text-sm text-gray-600 mt-0.5">
+              Record each worker you asked to move their dues to direct debit.
+            </p>
+          </div>
+        </div>
+
+        <DdConversionCapture
+          jobSiteIds={effectiveSiteId ? [effectiveSiteId] : []}
+          visitId={draftVisitId}
+          drafts={drafts}
+          onChange={setDrafts}
+        />
+      </div>
+
+      <WizardButton
+        variant="primary"
+        size="lg"
+        fullWidth
+        onClick={() => saveMutation.mutate()}
+        loading={saveMutation.isPending}
+        disabled={!canSave}
+        icon={<Save className="h-5 w-5" />}
+      >
+        Save Attempts
+      </WizardButton>
+    </div>
+  )
+}
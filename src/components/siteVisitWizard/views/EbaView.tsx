@@ -43,7 +43,7 @@ interface BuilderEbaStatus {
   nominalExpiryDate: string | null
 }
 
-type ScraperJobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled"
+type ScraperJobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled" | "dead_letter"
 
 type ScraperJob = {
   id: string
@@ -177,7 +177,7 @@ export function EbaView({ projectId, projectName }: EbaViewProps) {
           setTimeout(() => {
             refetch()
           }, 1000)
-        } else if (jobData.status === "failed") {
+        } else if (jobData.status === "failed" || jobData.status === "dead_letter") {
           toast({
             title: "FWC lookup failed",
             description: "The search encountered an error. Please try again.",
@@ -483,7 +483,7 @@ export function EbaView({ projectId, projectName }: EbaViewProps) {
                         No EBA agreements found for this builder.
                       </div>
                     )}
-                    {job.status === 'failed' && (
+                    {(job.status === 'failed' || job.status === 'dead_letter') && (
                       <div className="mt-2 text-sm text-red-600">
                         The search failed. Please try again.
                       </div>
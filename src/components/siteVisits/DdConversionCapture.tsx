@@ -0,0 +1,182 @@
+"use client"
+
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Plus, X } from "lucide-react"
+import { DD_METHODS, DD_OUTCOMES, getDdMethodLabel, getDdOutcomeLabel, type DdMethodCode, type DdOutcomeCode } from "@/lib/dd-conversion/codes"
+import { createDdConversionDraft, type DdConversionDraft } from "@/lib/dd-conversion/attempts"
+
+type SiteWorker = {
+  id: string
+  name: string
+  paymentMethod: string | null
+}
+
+const paymentMethodLabels: Record<string, string> = {
+  direct_debit: "Direct debit",
+  payroll_deduction: "Payroll",
+  cash: "Cash",
+  card: "Card",
+}
+
+/**
+ * Current workers at the given sites with their dues payment method
+ */
+export function useSiteWorkersForDd(jobSiteIds: string[]) {
+  return useQuery({
+    queryKey: ["dd-site-workers", jobSiteIds.join(",")],
+    queryFn: async (): Promise<SiteWorker[]> => {
+      const today = new Date().toISOString().slice(0, 10)
+      const { data, error } = await supabase
+        .from("worker_placements")
+        .select("worker_id, workers(id, first_name, surname, worker_memberships(payment_method))")
+        .in("job_site_id", jobSiteIds)
+        .or(`end_date.is.null,end_date.gte.${today}`)
+      if (error) throw error
+
+      const workers = new Map<string, SiteWorker>()
+      ;(data || []).forEach((row: any) => {
+        const worker = row.workers
+        if (!worker?.id || workers.has(worker.id)) return
+        const membership = Array.isArray(worker.worker_memberships) ? worker.worker_memberships[0] : worker.worker_memberships
+        workers.set(worker.id, {
+          id: worker.id,
+          name: [worker.first_name, worker.surname].filter(Boolean).join(" ") || "Unnamed worker",
+          paymentMethod: membership?.payment_method ?? null,
+        })
+      })
+      return Array.from(workers.values()).sort((a, b) => a.name.localeCompare(b.name))
+    },
+    enabled: jobSiteIds.length > 0,
+  })
+}
+
+export function DdConversionCapture({
+  jobSiteIds,
+  visitId,
+  drafts,
+  onChange,
+}: {
+  jobSiteIds: string[]
+  visitId?: string | null
+  drafts: DdConversionDraft[]
+  onChange: (drafts: DdConversionDraft[]) => void
+}) {
+  const { data: workers = [], isLoading } = useSiteWorkersForDd(jobSiteIds)
+
+  // Attempts already saved against this visit
+  const { data: recorded = [] } = useQuery({
+    queryKey: ["dd-conversion-attempts", visitId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("dd_conversion_attempt")
+        .select("id, method_code, outcome_code, workers(first_name, surname)")
+        .eq("site_visit_id", visitId!)
+        .order("created_at")
+      if (error) throw error
+      return data as any[]
+    },
+    enabled: !!visitId,
+  })
+
+  const updateDraft = (clientId: string, changes: Partial<DdConversionDraft>) => {
+    onChange(drafts.map((draft) => (draft.clientId === clientId ? { ...draft, ...changes } : draft)))
+  }
+
+  const addDraft = () => onChange([...drafts, createDdConversionDraft("")])
+
+  const removeDraft = (clientId: string) => onChange(drafts.filter((draft) => draft.clientId !== clientId))
+
+  return (
+    <div className="space-y-3">
+      {recorded.length > 0 && (
+        <div className="space-y-1">
+          {recorded.map((attempt) => (
+            <div key={attempt.id} className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium">
+                {[attempt.workers?.first_name, attempt.workers?.surname].filter(Boolean).join(" ") || "Unnamed worker"}
+              </span>
+              <Badge variant={attempt.outcome_code === "converted" ? "default" : "secondary"}>
+                {getDdOutcomeLabel(attempt.outcome_code)}
+              </Badge>
+              <span className="text-muted-foreground">{getDdMethodLabel(attempt.method_code)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {drafts.map((draft) => (
+        <div key={draft.clientId} className="grid grid-cols-1 md:grid-cols-[2fr_1.5fr_1.5fr_auto] gap-2 items-end border rounded-md p-2">
+          <div>
+            <Label className="text-xs">Worker</Label>
+            <Select value={draft.workerId || undefined} onValueChange={(v: string) => updateDraft(draft.clientId, { workerId: v })}>
+              <SelectTrigger>
+                <SelectValue placeholder={isLoading ? "Loading workers..." : "Select worker"} />
+              </SelectTrigger>
+              <SelectContent>
+                {workers.length === 0 && !isLoading && (
+                  <div className="px-2 py-1.5 text-sm text-muted-foreground">No workers recorded at this site</div>
+                )}
+                {workers.map((worker) => (
+                  <SelectItem key={worker.id} value={worker.id}>
+                    {worker.name}
+                    {worker.paymentMethod && paymentMethodLabels[worker.paymentMethod] && ` (${paymentMethodLabels[worker.paymentMethod]})`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs">Method</Label>
+            <Select value={draft.methodCode} onValueChange={(v: string) => updateDraft(draft.clientId, { methodCode: v as DdMethodCode })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DD_METHODS.map((method) => (
+                  <SelectItem key={method.code} value={method.code}>{method.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs">Outcome</Label>
+            <Select value={draft.outcomeCode} onValueChange={(v: string) => updateDraft(draft.clientId, { outcomeCode: v as DdOutcomeCode })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DD_OUTCOMES.map((outcome) => (
+                  <SelectItem key={outcome.code} value={outcome.code}>{outcome.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={() => removeDraft(draft.clientId)}>
+            <X className="h-4 w-4" />
+          </Button>
+          <div className="md:col-span-4">
+            <Input
+              placeholder="Notes (optional)"
+              value={draft.notes}
+              onChange={(e) => updateDraft(draft.clientId, { notes: e.target.value })}
+            />
+          </div>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" onClick={addDraft} disabled={jobSiteIds.length === 0}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add DD attempt
+      </Button>
+      {jobSiteIds.length === 0 && (
+        <p className="text-xs text-muted-foreground">Select a site to record direct debit conversions.</p>
+      )}
+    </div>
+  )
+}
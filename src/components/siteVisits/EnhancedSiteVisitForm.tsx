@@ -46,6 +46,10 @@ import { ScrollArea } from "@/components/ui/scroll-area"
 import { Badge } from "@/components/ui/badge"
 import { ios } from "@/utils/iosIntegrations"
 import { ContactCardActions } from "@/components/ui/ContactActions"
+import { DdConversionCapture } from "@/components/siteVisits/DdConversionCapture"
+import { saveDdConversionAttempts, type DdConversionDraft } from "@/lib/dd-conversion/attempts"
+import { WhsBreachCapture } from "@/components/siteVisits/WhsBreachCapture"
+import { saveWhsBreaches, type WhsBreachDraft } from "@/lib/whs-breaches/breaches"
 
 type SiteVisit = {
   id?: string
@@ -99,6 +103,12 @@ export function EnhancedSiteVisitForm({
   const [followUpActions, setFollowUpActions] = useState<FollowUpAction[]>([])
   const [newFollowUpDescription, setNewFollowUpDescription] = useState("")
   const [newFollowUpDueDate, setNewFollowUpDueDate] = useState("")
+
+  // Direct debit conversion attempts
+  const [ddDrafts, setDdDrafts] = useState<DdConversionDraft[]>([])
+
+  // WHS breaches logged on this visit
+  const [breachDrafts, setBreachDrafts] = useState<WhsBreachDraft[]>([])
   
   // UI state
   const [isSavingDraft, setIsSavingDraft] = useState(false)
@@ -458,8 +468,10 @@ export function EnhancedSiteVisitForm({
     if (!visitDate || !projectId || !siteId) return true
     if (!organiserId && userScope?.role !== "organiser") return true
     if (!isSiteValidForProject) return true
+    if (ddDrafts.some(draft => !draft.workerId)) return true
+    if (breachDrafts.some(draft => !draft.employerId || !draft.title.trim())) return true
     return false
-  }, [visitDate, projectId, siteId, organiserId, userScope?.role, isSiteValidForProject])
+  }, [visitDate, projectId, siteId, organiserId, userScope?.role, isSiteValidForProject, ddDrafts, breachDrafts])
 
   // Toggle visit reason
   const toggleReason = (reasonId: string) => {
@@ -600,9 +612,21 @@ export function EnhancedSiteVisitForm({
           .insert(followUpRows)
         if (followUpError) throw followUpError
       }
+
+      // Save direct debit conversion attempts
+      await saveDdConversionAttempts(visitId, ddDrafts)
+
+      // Save WHS breaches
+      await saveWhsBreaches({ visitId, projectId, jobSiteId: siteId, visitDate }, breachDrafts)
     },
     onSuccess: (_, status) => {
+      setDdDrafts([])
+      setBreachDrafts([])
       qc.invalidateQueries({ queryKey: ["site-visits"] })
+      qc.invalidateQueries({ queryKey: ["dd-conversion-attempts"] })
+      qc.invalidateQueries({ queryKey: ["dd-site-workers"] })
+      qc.invalidateQueries({ queryKey: ["dd-conversion-funnel"] })
+      qc.invalidateQueries({ queryKey: ["whs-breaches"] })
       qc.invalidateQueries({ queryKey: ["project-last-visit"] })
       qc.invalidateQueries({ queryKey: ["v_project_visit_frequency"] })
       toast.success(status === "draft" ? "Draft saved" : "Site visit recorded successfully")
@@ -951,6 +975,36 @@ export function EnhancedSiteVisitForm({
               </CardContent>
             </Card>
 
+            {/* Direct Debit Conversion Section */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Direct Debit Conversion</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <DdConversionCapture
+                  jobSiteIds={siteId ? [siteId] : []}
+                  visitId={initial?.id}
+                  drafts={ddDrafts}
+                  onChange={setDdDrafts}
+                />
+              </CardContent>
+            </Card>
+
+            {/* WHS Breaches Section */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">WHS Breaches</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <WhsBreachCapture
+                  jobSiteIds={siteId ? [siteId] : []}
+                  visitId={initial?.id}
+                  drafts={breachDrafts}
+                  onChange={setBreachDrafts}
+                />
+              </CardContent>
+            </Card>
+
             {/* Context-Aware Actions */}
             {projectId && (
               <Card>
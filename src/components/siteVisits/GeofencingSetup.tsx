@@ -34,6 +34,7 @@ export function GeofencingSetup() {
     currentPosition,
     nearbySites,
     lastNotification,
+    lastDetectedVisit,
     requestLocationAccess,
     permissionChecked,
   } = useGeofencing(enabled)
@@ -95,6 +96,22 @@ export function GeofencingSetup() {
     )
   }, [enabled, lastNotification])
 
+  useEffect(() => {
+    if (!enabled || !lastDetectedVisit) return
+
+    toast(
+      `Visit logged${lastDetectedVisit.project_name ? ` at ${lastDetectedVisit.project_name}` : ""}`,
+      {
+        description: "Saved as a draft. Confirm or discard it in the site visit wizard.",
+        action: {
+          label: "Review",
+          onClick: () => router.push("/site-visit-wizard"),
+        },
+        duration: 10000,
+      }
+    )
+  }, [enabled, lastDetectedVisit, router])
+
   // Save enabled state to localStorage
   const handleToggle = async (checked: boolean) => {
     if (checked) {
@@ -168,7 +185,8 @@ export function GeofencingSetup() {
         </CardTitle>
         <CardDescription>
           Keep the CFMEU mobile app or installed PWA open and we’ll surface nearby sites so you can start a visit in a
-          single tap.
+          single tap. If you stay on a site for a while we’ll log a draft visit for you to confirm or discard. Your
+          location is only stored while you’re inside a site’s fence, and is deleted after 14 days.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -177,7 +195,7 @@ export function GeofencingSetup() {
           <div className="space-y-0.5">
             <Label className="text-base">Enable Geofencing</Label>
             <p className="text-sm text-muted-foreground">
-              See in-app reminders when you are within 100m of a job site (app must stay open)
+              See in-app reminders when you are at a job site (app must stay open)
             </p>
           </div>
           <div className="flex items-center gap-3">
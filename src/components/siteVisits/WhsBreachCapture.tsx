@@ -0,0 +1,212 @@
+"use client"
+
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Camera, Plus, X } from "lucide-react"
+import {
+  SERIOUS_SEVERITIES,
+  WHS_BREACH_CATEGORIES,
+  WHS_BREACH_SEVERITIES,
+  getWhsBreachCategoryLabel,
+  getWhsBreachSeverityLabel,
+  getWhsBreachStatusLabel,
+  type WhsBreachCategory,
+  type WhsBreachSeverity,
+} from "@/lib/whs-breaches/codes"
+import { createWhsBreachDraft, type WhsBreachDraft } from "@/lib/whs-breaches/breaches"
+
+/**
+ * Employers with trades on the given sites
+ */
+function useSiteEmployersForBreaches(jobSiteIds: string[]) {
+  return useQuery({
+    queryKey: ["whs-breach-site-employers", jobSiteIds.join(",")],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("site_contractor_trades")
+        .select("employer_id, employers(id, name)")
+        .in("job_site_id", jobSiteIds)
+      if (error) throw error
+
+      const employers = new Map<string, { id: string; name: string }>()
+      ;(data || []).forEach((row: any) => {
+        const employer = row.employers
+        if (employer?.id) employers.set(employer.id, { id: employer.id, name: employer.name || "Unnamed employer" })
+      })
+      return Array.from(employers.values()).sort((a, b) => a.name.localeCompare(b.name))
+    },
+    enabled: jobSiteIds.length > 0,
+  })
+}
+
+export function WhsBreachCapture({
+  jobSiteIds,
+  visitId,
+  drafts,
+  onChange,
+}: {
+  jobSiteIds: string[]
+  visitId?: string | null
+  drafts: WhsBreachDraft[]
+  onChange: (drafts: WhsBreachDraft[]) => void
+}) {
+  const { data: employers = [], isLoading } = useSiteEmployersForBreaches(jobSiteIds)
+
+  // Breaches already logged against this visit
+  const { data: recorded = [] } = useQuery({
+    queryKey: ["whs-breaches", "visit", visitId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("whs_breach")
+        .select("id, title, category, severity, status, employers(name)")
+        .eq("site_visit_id", visitId!)
+        .order("created_at")
+      if (error) throw error
+      return data as any[]
+    },
+    enabled: !!visitId,
+  })
+
+  const updateDraft = (clientId: string, changes: Partial<WhsBreachDraft>) => {
+    onChange(drafts.map((draft) => (draft.clientId === clientId ? { ...draft, ...changes } : draft)))
+  }
+
+  const addDraft = () => onChange([...drafts, createWhsBreachDraft(employers.length === 1 ? employers[0].id : "")])
+
+  const removeDraft = (clientId: string) => onChange(drafts.filter((draft) => draft.clientId !== clientId))
+
+  return (
+    <div className="space-y-3">
+      {recorded.length > 0 && (
+        <div className="space-y-1">
+          {recorded.map((breach) => (
+            <div key={breach.id} className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium">{breach.title}</span>
+              <Badge variant={SERIOUS_SEVERITIES.has(breach.severity) ? "destructive" : "secondary"}>
+                {getWhsBreachSeverityLabel(breach.severity)}
+              </Badge>
+              <Badge variant="outline">{getWhsBreachStatusLabel(breach.status)}</Badge>
+              <span className="text-muted-foreground">
+                {getWhsBreachCategoryLabel(breach.category)}
+                {breach.employers?.name && ` · ${breach.employers.name}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {drafts.map((draft) => (
+        <div key={draft.clientId} className="grid grid-cols-1 md:grid-cols-[2fr_1.5fr_1fr_auto] gap-2 items-end border rounded-md p-2">
+          <div>
+            <Label className="text-xs">Employer</Label>
+            <Select value={draft.employerId || undefined} onValueChange={(v: string) => updateDraft(draft.clientId, { employerId: v })}>
+              <SelectTrigger>
+                <SelectValue placeholder={isLoading ? "Loading employers..." : "Select employer"} />
+              </SelectTrigger>
+              <SelectContent>
+                {employers.length === 0 && !isLoading && (
+                  <div className="px-2 py-1.5 text-sm text-muted-foreground">No employers linked to this site</div>
+                )}
+                {employers.map((employer) => (
+                  <SelectItem key={employer.id} value={employer.id}>{employer.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs">Category</Label>
+            <Select value={draft.category} onValueChange={(v: string) => updateDraft(draft.clientId, { category: v as WhsBreachCategory })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WHS_BREACH_CATEGORIES.map((category) => (
+                  <SelectItem key={category.code} value={category.code}>{category.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs">Severity</Label>
+            <Select value={draft.severity} onValueChange={(v: string) => updateDraft(draft.clientId, { severity: v as WhsBreachSeverity })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WHS_BREACH_SEVERITIES.map((severity) => (
+                  <SelectItem key={severity.code} value={severity.code}>{severity.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={() => removeDraft(draft.clientId)}>
+            <X className="h-4 w-4" />
+          </Button>
+          <div className="md:col-span-2">
+            <Input
+              placeholder="What was the breach?"
+              value={draft.title}
+              onChange={(e) => updateDraft(draft.clientId, { title: e.target.value })}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <Input
+              placeholder="SafeWork notice ref (optional)"
+              value={draft.safeworkNoticeRef}
+              onChange={(e) => updateDraft(draft.clientId, { safeworkNoticeRef: e.target.value })}
+            />
+          </div>
+          <div className="md:col-span-4">
+            <Textarea
+              placeholder="Details (optional)"
+              rows={2}
+              value={draft.notes}
+              onChange={(e) => updateDraft(draft.clientId, { notes: e.target.value })}
+            />
+          </div>
+          <div className="md:col-span-4 flex items-center gap-2">
+            <Label
+              htmlFor={`breach-photos-${draft.clientId}`}
+              className="inline-flex items-center gap-1 text-xs cursor-pointer border rounded-md px-2 py-1"
+            >
+              <Camera className="h-4 w-4" />
+              Add photos
+            </Label>
+            <input
+              id={`breach-photos-${draft.clientId}`}
+              type="file"
+              accept="image/*"
+              capture="environment"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files || [])
+                updateDraft(draft.clientId, { photos: [...draft.photos, ...files] })
+                e.target.value = ""
+              }}
+            />
+            {draft.photos.length > 0 && (
+              <span className="text-xs text-muted-foreground">
+                {draft.photos.length} photo{draft.photos.length === 1 ? "" : "s"} attached
+              </span>
+            )}
+          </div>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" onClick={addDraft} disabled={jobSiteIds.length === 0}>
+        <Plus className="h-4 w-4 mr-1" />
+        Log breach
+      </Button>
+      {jobSiteIds.length === 0 && (
+        <p className="text-xs text-muted-foreground">Select a site to log WHS breaches.</p>
+      )}
+    </div>
+  )
+}
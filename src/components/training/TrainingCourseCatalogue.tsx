@@ -0,0 +1,314 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Pencil, Plus } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useUserRole } from "@/hooks/useUserRole";
+import { TRAINED_ROLE_LABELS } from "@/lib/training/refresher";
+import type { Database } from "@/types/database";
+
+type TrainingCourse = Database["public"]["Tables"]["training_courses"]["Row"];
+
+interface CourseDraft {
+  id?: string;
+  code: string;
+  name: string;
+  description: string;
+  provider: string;
+  required_for_roles: string[];
+  validity_months: string;
+  refresher_course_id: string;
+  is_active: boolean;
+}
+
+const emptyDraft: CourseDraft = {
+  code: "",
+  name: "",
+  description: "",
+  provider: "",
+  required_for_roles: [],
+  validity_months: "",
+  refresher_course_id: "",
+  is_active: true,
+};
+
+function toDraft(course: TrainingCourse): CourseDraft {
+  return {
+    id: course.id,
+    code: course.code,
+    name: course.name,
+    description: course.description ?? "",
+    provider: course.provider ?? "",
+    required_for_roles: course.required_for_roles ?? [],
+    validity_months: course.validity_months != null ? String(course.validity_months) : "",
+    refresher_course_id: course.refresher_course_id ?? "",
+    is_active: course.is_active,
+  };
+}
+
+export function TrainingCourseCatalogue() {
+  const { role } = useUserRole();
+  const isAdmin = role === "admin";
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<CourseDraft | null>(null);
+
+  const { data: courses = [], isLoading } = useQuery({
+    queryKey: ["training-courses"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("training_courses").select("*").order("name");
+      if (error) throw error;
+      return data as TrainingCourse[];
+    },
+  });
+
+  const courseNames = new Map(courses.map((course) => [course.id, course.name]));
+
+  const saveCourse = useMutation({
+    mutationFn: async (values: CourseDraft) => {
+      const validity = values.validity_months.trim() ? Number(values.validity_months) : null;
+      if (validity !== null && (!Number.isInteger(validity) || validity <= 0)) {
+        throw new Error("Validity must be a whole number of months");
+      }
+
+      const payload = {
+        code: values.code.trim(),
+        name: values.name.trim(),
+        description: values.description.trim() || null,
+        provider: values.provider.trim() || null,
+        required_for_roles: values.required_for_roles,
+        validity_months: validity,
+        refresher_course_id: values.refresher_course_id || null,
+        is_active: values.is_active,
+      };
+
+      const { error } = values.id
+        ? await supabase.from("training_courses").update(payload).eq("id", values.id)
+        : await supabase.from("training_courses").insert(payload);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast({ title: "Course saved" });
+      queryClient.invalidateQueries({ queryKey: ["training-courses"] });
+      queryClient.invalidateQueries({ queryKey: ["training-due"] });
+      setDraft(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save course",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleRole = (roleName: string, checked: boolean) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      required_for_roles: checked
+        ? [...draft.required_for_roles, roleName]
+        : draft.required_for_roles.filter((r) => r !== roleName),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Course Catalogue</CardTitle>
+        {isAdmin && (
+          <Button onClick={() => setDraft({ ...emptyDraft })}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Course
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Course</TableHead>
+                <TableHead>Required for</TableHead>
+                <TableHead>Valid for</TableHead>
+                <TableHead>Refresher</TableHead>
+                <TableHead>Status</TableHead>
+                {isAdmin && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {courses.map((course) => (
+                <TableRow key={course.id}>
+                  <TableCell>
+                    <div className="font-medium">{course.name}</div>
+                    {course.description && <div className="text-xs text-muted-foreground">{course.description}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {course.required_for_roles.length === 0
+                        ? "—"
+                        : course.required_for_roles.map((roleName) => (
+                            <Badge key={roleName} variant="secondary">
+                              {TRAINED_ROLE_LABELS[roleName] ?? roleName}
+                            </Badge>
+                          ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>{course.validity_months ? `${course.validity_months} months` : "No expiry"}</TableCell>
+                  <TableCell>{course.refresher_course_id ? courseNames.get(course.refresher_course_id) ?? "—" : "—"}</TableCell>
+                  <TableCell>
+                    <Badge variant={course.is_active ? "outline" : "secondary"}>
+                      {course.is_active ? "Active" : "Inactive"}
+                    </Badge>
+                  </TableCell>
+                  {isAdmin && (
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => setDraft(toDraft(course))}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit Course" : "Add Course"}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <form
+              className="space-y-4"
+              onSubmit={(event) => {
+                event.preventDefault();
+                saveCourse.mutate(draft);
+              }}
+            >
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="course-name">Name</Label>
+                  <Input
+                    id="course-name"
+                    required
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="course-code">Code</Label>
+                  <Input
+                    id="course-code"
+                    required
+                    value={draft.code}
+                    onChange={(e) => setDraft({ ...draft, code: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="course-description">Description</Label>
+                <Textarea
+                  id="course-description"
+                  rows={2}
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="course-provider">Provider</Label>
+                  <Input
+                    id="course-provider"
+                    value={draft.provider}
+                    onChange={(e) => setDraft({ ...draft, provider: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="course-validity">Valid for (months)</Label>
+                  <Input
+                    id="course-validity"
+                    inputMode="numeric"
+                    placeholder="No expiry"
+                    value={draft.validity_months}
+                    onChange={(e) => setDraft({ ...draft, validity_months: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Required for</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {Object.entries(TRAINED_ROLE_LABELS).map(([roleName, label]) => (
+                    <label key={roleName} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={draft.required_for_roles.includes(roleName)}
+                        onCheckedChange={(checked) => toggleRole(roleName, checked === true)}
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Refresher course</Label>
+                <Select
+                  value={draft.refresher_course_id || "none"}
+                  onValueChange={(value) => setDraft({ ...draft, refresher_course_id: value === "none" ? "" : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No refresher</SelectItem>
+                    {courses
+                      .filter((course) => course.id !== draft.id)
+                      .map((course) => (
+                        <SelectItem key={course.id} value={course.id}>
+                          {course.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="course-active"
+                  checked={draft.is_active}
+                  onCheckedChange={(checked) => setDraft({ ...draft, is_active: checked })}
+                />
+                <Label htmlFor="course-active">Active</Label>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setDraft(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveCourse.isPending}>
+                  Save
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
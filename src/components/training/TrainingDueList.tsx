@@ -0,0 +1,189 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { WorkerDetailModal } from "@/components/workers/WorkerDetailModal";
+import { useAccessiblePatches } from "@/hooks/useAccessiblePatches";
+import { useTrainingDue, type TrainingDueParams } from "@/hooks/useTrainingDue";
+import { TRAINED_ROLE_LABELS, TRAINING_STATUS_LABELS, type TrainingStatus } from "@/lib/training/refresher";
+import { TrainingStatusBadge } from "./TrainingStatusBadge";
+
+type StatusFilter = NonNullable<TrainingDueParams["status"]>;
+
+const SUMMARY_STATUSES: TrainingStatus[] = ["overdue", "never_trained", "due_soon"];
+
+export function TrainingDueList() {
+  const { patches, role, isLoading: patchesLoading } = useAccessiblePatches();
+  const [patchId, setPatchId] = useState<string>("all");
+  const [jobSiteId, setJobSiteId] = useState<string>("all");
+  const [status, setStatus] = useState<StatusFilter>("due");
+  const [selectedWorkerId, setSelectedWorkerId] = useState<string | null>(null);
+
+  // Admins see every site; everyone else is scoped to the patches they can access
+  const patchIds = useMemo(() => {
+    if (patchId !== "all") return [patchId];
+    return role === "admin" ? [] : patches.map((patch) => patch.id);
+  }, [patchId, patches, role]);
+
+  const { data, isLoading, error } = useTrainingDue(
+    { patchIds, status },
+    { enabled: !patchesLoading }
+  );
+
+  const rows = useMemo(() => data?.rows ?? [], [data]);
+
+  const jobSites = useMemo(() => {
+    const sites = new Map<string, string>();
+    rows.forEach((row) => {
+      if (row.job_site_id) sites.set(row.job_site_id, row.job_site_name || row.project_name || "Unnamed site");
+    });
+    return Array.from(sites.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [rows]);
+
+  const visibleRows = jobSiteId === "all" ? rows : rows.filter((row) => row.job_site_id === jobSiteId);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Training Due</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="flex-1">
+              <label className="text-sm font-medium mb-2 block">Patch</label>
+              <Select
+                value={patchId}
+                onValueChange={(value) => {
+                  setPatchId(value);
+                  setJobSiteId("all");
+                }}
+              >
+                <SelectTrigger className="min-h-[44px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{role === "admin" ? "All patches" : "All my patches"}</SelectItem>
+                  {patches.map((patch) => (
+                    <SelectItem key={patch.id} value={patch.id}>
+                      {patch.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex-1">
+              <label className="text-sm font-medium mb-2 block">Job Site</label>
+              <Select value={jobSiteId} onValueChange={setJobSiteId}>
+                <SelectTrigger className="min-h-[44px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All sites</SelectItem>
+                  {jobSites.map(([id, name]) => (
+                    <SelectItem key={id} value={id}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex-1">
+              <label className="text-sm font-medium mb-2 block">Status</label>
+              <Select value={status} onValueChange={(value) => setStatus(value as StatusFilter)}>
+                <SelectTrigger className="min-h-[44px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="due">Needs training</SelectItem>
+                  <SelectItem value="overdue">{TRAINING_STATUS_LABELS.overdue}</SelectItem>
+                  <SelectItem value="never_trained">{TRAINING_STATUS_LABELS.never_trained}</SelectItem>
+                  <SelectItem value="due_soon">{TRAINING_STATUS_LABELS.due_soon}</SelectItem>
+                  <SelectItem value="all">All reps</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {data && (
+            <div className="flex flex-wrap gap-2">
+              {SUMMARY_STATUSES.map((summaryStatus) => (
+                <div key={summaryStatus} className="flex items-center gap-2 rounded-md border px-3 py-2 text-sm">
+                  <TrainingStatusBadge status={summaryStatus} />
+                  <span className="font-semibold">{data.summary[summaryStatus]}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading || patchesLoading ? (
+            <div className="flex items-center justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <p className="p-6 text-sm text-destructive">
+              Failed to load training status: {error instanceof Error ? error.message : "Unknown error"}
+            </p>
+          ) : visibleRows.length === 0 ? (
+            <p className="p-6 text-sm text-muted-foreground">No delegates or HSRs need training for these filters.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rep</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Site</TableHead>
+                  <TableHead>Course</TableHead>
+                  <TableHead>Last completed</TableHead>
+                  <TableHead>Refresher due</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleRows.map((row) => (
+                  <TableRow
+                    key={`${row.union_role_id}:${row.course_id}`}
+                    onClick={() => setSelectedWorkerId(row.worker_id)}
+                    className="cursor-pointer transition hover:bg-muted/60"
+                  >
+                    <TableCell className="font-medium">
+                      {[row.first_name, row.surname].filter(Boolean).join(" ") || "Unnamed worker"}
+                    </TableCell>
+                    <TableCell>{TRAINED_ROLE_LABELS[row.union_role] ?? row.union_role}</TableCell>
+                    <TableCell>
+                      <div>{row.job_site_name || "—"}</div>
+                      {row.project_name && row.project_name !== row.job_site_name && (
+                        <div className="text-xs text-muted-foreground">{row.project_name}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{row.course_name}</TableCell>
+                    <TableCell>{row.last_completed_on ? format(new Date(row.last_completed_on), "dd/MM/yyyy") : "—"}</TableCell>
+                    <TableCell>{row.due_on ? format(new Date(row.due_on), "dd/MM/yyyy") : "—"}</TableCell>
+                    <TableCell>
+                      <TrainingStatusBadge status={row.status} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <WorkerDetailModal
+        workerId={selectedWorkerId}
+        isOpen={!!selectedWorkerId}
+        onClose={() => setSelectedWorkerId(null)}
+        initialTab="training"
+      />
+    </div>
+  );
+}
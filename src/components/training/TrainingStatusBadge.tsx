@@ -0,0 +1,20 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { TRAINING_STATUS_LABELS, type TrainingStatus } from "@/lib/training/refresher";
+
+const statusClasses: Record<TrainingStatus, string> = {
+  overdue: "border-rose-400 text-rose-700 bg-rose-50",
+  never_trained: "border-rose-300 text-rose-700 bg-white",
+  due_soon: "border-amber-400 text-amber-700 bg-amber-50",
+  current: "border-emerald-400 text-emerald-700 bg-emerald-50",
+};
+
+export function TrainingStatusBadge({ status, className }: { status: TrainingStatus; className?: string }) {
+  return (
+    <Badge variant="outline" className={cn("border", statusClasses[status], className)}>
+      {TRAINING_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
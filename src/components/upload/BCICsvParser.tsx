@@ -81,6 +81,7 @@ interface BCICsvRow {
   roleGroupOnProject?: string;
   companyId?: string;
   companyName: string;
+  companyAbn?: string;
   companyStreet: string;
   companyTown: string;
   companyState: string;
@@ -208,6 +209,7 @@ export default function BCICsvParser({ onDataParsed, onError, onModeChange, allo
           roleGroupOnProject: get(row, 'Role Group on Project', ['Role Group', 'Role Group on Project', 'Role Group on project']),
           companyId: get(row, 'Company ID', ['CompanyID', 'Company_ID', 'CID']),
           companyName: get(row, 'Company Name', ['Company']),
+          companyAbn: get(row, 'Company ABN', ['ABN']) || undefined,
           companyStreet: get(row, 'Company Street Name', ['Company Street']),
           companyTown: get(row, 'Company Town / Suburb', ['Company Town', 'Company Suburb']),
           companyState: get(row, 'Company State / Province', ['Company State', 'Company Province']),
@@ -15,6 +15,7 @@ import { getSupabaseBrowserClient } from '@/lib/supabase/client';
 import { inferTradeTypeFromCompanyName, inferTradeTypeFromCsvRole, getTradeTypeLabel, TradeType, getTradeTypeCategories } from '@/utils/bciTradeTypeInference';
 import { findBestEmployerMatch } from '@/utils/workerDataProcessor';
 import { normalizeEmployerName } from '@/lib/employers/normalize';
+import { isValidAbn, normalizeAbn } from '@/lib/employers/abn';
 import { mapBciStageToStageClass, defaultOrganisingUniverseFor } from '@/utils/stageClassification';
 // Removed unused and missing imports
 import { useToast } from '@/components/ui/use-toast';
@@ -48,6 +49,7 @@ interface BCICsvRow {
   roleGroupOnProject?: string;
   companyId?: string;
   companyName: string;
+  companyAbn?: string;
   companyStreet: string;
   companyTown: string;
   companyState: string;
@@ -70,6 +72,7 @@ interface BCICsvRow {
 
 interface CompanyClassification {
   companyName: string;
+  companyAbn?: string;
   csvRole: string;
   ourRole: 'builder' | 'head_contractor' | 'subcontractor' | 'skip';
   roleCode?: string; // contractor_role_types.code when applicable
@@ -291,7 +294,7 @@ const BCIProjectImport: React.FC<BCIProjectImportProps> = ({ csvData, mode, onIm
       }
 
       const project = projectMap.get(row.projectId)!;
-      const classification = classifyCompany(row.roleOnProject, row.companyName);
+      const classification = { ...classifyCompany(row.roleOnProject, row.companyName), companyAbn: row.companyAbn };
       
       if (classification.shouldImport) {
         project.companies.push(classification);
@@ -610,10 +613,34 @@ const BCIProjectImport: React.FC<BCIProjectImportProps> = ({ csvData, mode, onIm
   const matchEmployer = async (
     companyName: string,
     csvRole: string,
-    preloadedEmployers?: Array<{ id: string; name: string }>
+    preloadedEmployers?: Array<{ id: string; name: string }>,
+    companyAbn?: string
   ): Promise<EmployerMatchResult> => {
     try {
       const supabase = getSupabaseBrowserClient();
+      // 0. An employer registered under the same ABN outranks any name match
+      if (isValidAbn(companyAbn)) {
+        const { data: abnHit } = await supabase
+          .from('employers')
+          .select('id, name')
+          .eq('abn', normalizeAbn(companyAbn) as string)
+          .limit(1)
+          .maybeSingle();
+        if (abnHit) {
+          return {
+            companyName,
+            csvRole,
+            matchedEmployerId: (abnHit as any).id,
+            matchedEmployerName: (abnHit as any).name,
+            confidence: 'exact',
+            numericConfidence: 1.0,
+            suggestedMatches: [],
+            action: 'confirm_match',
+            userConfirmed: true,
+            tradeTypeConfirmed: false
+          };
+        }
+      }
       // 0a. Alias lookup by normalized alias first
       try {
         const normalized = normalizeEmployerName(companyName).normalized;
@@ -1312,7 +1339,7 @@ const BCIProjectImport: React.FC<BCIProjectImportProps> = ({ csvData, mode, onIm
               for (const project of processed) {
           for (const company of project.companies) {
             if (company.shouldImport) {
-              const matchResult = await matchEmployer(company.companyName, company.csvRole, employerListLocal);
+              const matchResult = await matchEmployer(company.companyName, company.csvRole, employerListLocal, company.companyAbn);
               const matchKey = `${project.projectId}-${company.companyName}-${company.csvRole}`;
               // Auto-confirm exact matches so they count as finalized and appear in confirmed list
               matches[matchKey] = {
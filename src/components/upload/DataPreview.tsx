@@ -8,6 +8,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ArrowLeft, Eye, AlertTriangle, CheckCircle, XCircle, Upload } from "lucide-react";
+import { INVALID_ABN_MESSAGE, isValidAbn } from "@/lib/employers/abn";
 type ParsedCSV = {
   headers: string[];
   rows: Array<Record<string, any>>;
@@ -162,6 +163,15 @@ const DataPreview = ({
                 value
               });
             }
+          } else if (mapping.dbColumn === 'abn') {
+            if (!isValidAbn(value.toString())) {
+              errors.push({
+                row: rowNum,
+                column: mapping.csvColumn,
+                message: INVALID_ABN_MESSAGE,
+                value
+              });
+            }
           }
         }
         
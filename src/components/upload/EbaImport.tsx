@@ -276,11 +276,14 @@ export function EbaImport({ csvData, onImportComplete, onBack }: EbaImportProps)
 
       // Step 2: Batch match employers
       const companyNames = processedWithIndex.map(record => record.company_name);
+      const abnsByCompanyName = Object.fromEntries(
+        processedWithIndex.map(record => [record.company_name, record.abn])
+      );
       const matchResults = await batchMatchEmployers(companyNames, {
         confidenceThreshold: importSettings.confidenceThreshold,
         allowFuzzyMatching: true,
         requireUserConfirmation: false
-      });
+      }, true, abnsByCompanyName);
 
       setMatchingResults(matchResults);
 
@@ -26,6 +26,7 @@ interface IncolinkImportProps {
 interface ProcessedIncolinkData {
   employer_name: string
   incolink_id: string
+  abn?: string
   row_index: number
   original_data: Record<string, any>
 }
@@ -88,6 +89,7 @@ export function IncolinkImport({ csvData, onImportComplete, onBack }: IncolinkIm
     return csvData.map((row, index) => ({
       employer_name: row.employer_name || row['company name'] || row.name || '',
       incolink_id: row.incolink_id || row['incolink_id'] || row.incolink_employer_id || '',
+      abn: String(row.abn || row['ABN'] || row['company abn'] || '').trim() || undefined,
       row_index: index,
       original_data: row
     })).filter(data => data.employer_name && data.incolink_id)
@@ -146,11 +148,14 @@ export function IncolinkImport({ csvData, onImportComplete, onBack }: IncolinkIm
 
     try {
       const companyNames = processedIncolinkData.map(data => data.employer_name)
+      const abnsByCompanyName = Object.fromEntries(
+        processedIncolinkData.map(data => [data.employer_name, data.abn])
+      )
       const matchResults = await batchMatchEmployers(companyNames, {
         confidenceThreshold: 0.70,
         allowFuzzyMatching: true,
         requireUserConfirmation: importSettings.requireManualConfirmation
-      })
+      }, true, abnsByCompanyName)
 
       setMatchingResults(matchResults)
       
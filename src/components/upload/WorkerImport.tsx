@@ -47,7 +47,7 @@ export default function WorkerImport({ csvData, selectedEmployer, onImportComple
   const [isProcessing, setIsProcessing] = useState(false);
   const [previewData, setPreviewData] = useState<WorkerWithEmployer[]>([]);
   const [isProcessed, setIsProcessed] = useState(false);
-  const [existingEmployers, setExistingEmployers] = useState<Array<{id: string, name: string}>>([]);
+  const [existingEmployers, setExistingEmployers] = useState<Array<{id: string, name: string, abn: string | null}>>([]);
   const [existingOrganisers, setExistingOrganisers] = useState<Array<{id: string, first_name: string, last_name: string}>>([]);
   const { toast } = useToast();
 
@@ -81,7 +81,7 @@ export default function WorkerImport({ csvData, selectedEmployer, onImportComple
     try {
       const { data, error } = await supabase
         .from('employers')
-        .select('id, name');
+        .select('id, name, abn');
       
       if (error) throw error;
       setExistingEmployers(data || []);
@@ -145,7 +145,7 @@ export default function WorkerImport({ csvData, selectedEmployer, onImportComple
       } else {
         // Match workers to existing employers and organisers
         const workersWithEmployers: WorkerWithEmployer[] = processed.map(worker => {
-          const employerMatch = findBestEmployerMatch(worker.company_name, existingEmployers) || undefined;
+          const employerMatch = findBestEmployerMatch(worker.company_name, existingEmployers, worker.company_abn) || undefined;
           
           // Find organiser match if organiser info is available
           let organiserMatch: OrganiserMatch | undefined;
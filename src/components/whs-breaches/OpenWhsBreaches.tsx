@@ -0,0 +1,168 @@
+"use client"
+
+import { useState } from "react"
+import Image from "next/image"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { format } from "date-fns"
+import { AlertTriangle, Image as ImageIcon, Loader2 } from "lucide-react"
+import { supabase } from "@/integrations/supabase/client"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { useUserRole } from "@/hooks/useUserRole"
+import {
+  SERIOUS_SEVERITIES,
+  UNRESOLVED_STATUSES,
+  getNextWhsBreachStatuses,
+  getWhsBreachCategoryLabel,
+  getWhsBreachSeverityLabel,
+  getWhsBreachStatusLabel,
+  type WhsBreachStatus,
+} from "@/lib/whs-breaches/codes"
+import { WHS_BREACH_PHOTO_BUCKET, updateWhsBreachStatus } from "@/lib/whs-breaches/breaches"
+
+const MANAGE_ROLES = new Set(["admin", "lead_organiser", "organiser"])
+
+function BreachPhotos({ paths }: { paths: string[] }) {
+  const [open, setOpen] = useState(false)
+
+  const { data: urls = [], isLoading } = useQuery({
+    queryKey: ["whs-breach-photos", paths.join(",")],
+    queryFn: async () => {
+      const { data, error } = await supabase.storage.from(WHS_BREACH_PHOTO_BUCKET).createSignedUrls(paths, 60 * 60)
+      if (error) throw error
+      return (data || []).map((entry) => entry.signedUrl).filter(Boolean) as string[]
+    },
+    enabled: open,
+    staleTime: 30 * 60 * 1000,
+  })
+
+  if (!open) {
+    return (
+      <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setOpen(true)}>
+        <ImageIcon className="h-3.5 w-3.5 mr-1" />
+        {paths.length} photo{paths.length === 1 ? "" : "s"}
+      </Button>
+    )
+  }
+
+  if (isLoading) return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {urls.map((url) => (
+        <a key={url} href={url} target="_blank" rel="noreferrer">
+          <Image src={url} alt="Breach photo" width={64} height={64} unoptimized className="h-16 w-16 rounded object-cover border" />
+        </a>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Open and notified WHS breaches for a project or an employer, with the
+ * option to move each one on through its lifecycle
+ */
+export function OpenWhsBreaches({ projectId, employerId }: { projectId?: string; employerId?: string }) {
+  const qc = useQueryClient()
+  const { toast } = useToast()
+  const { role } = useUserRole()
+  const canManage = !!role && MANAGE_ROLES.has(role)
+
+  const { data: breaches = [], isLoading } = useQuery({
+    queryKey: ["whs-breaches", "open", projectId ?? null, employerId ?? null],
+    queryFn: async () => {
+      let query = supabase
+        .from("whs_breach")
+        .select("id, title, notes, category, severity, status, safework_notice_ref, photo_paths, identified_at, employers(name), projects(name)")
+        .in("status", [...UNRESOLVED_STATUSES])
+        .order("identified_at", { ascending: false })
+      if (projectId) query = query.eq("project_id", projectId)
+      if (employerId) query = query.eq("employer_id", employerId)
+      const { data, error } = await query
+      if (error) throw error
+      return data as any[]
+    },
+    enabled: !!projectId || !!employerId,
+  })
+
+  const advance = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: WhsBreachStatus }) => updateWhsBreachStatus(id, status),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["whs-breaches"] })
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update breach",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      })
+    },
+  })
+
+  const seriousCount = breaches.filter((breach) => SERIOUS_SEVERITIES.has(breach.severity)).length
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5" />
+          Open WHS Breaches
+          {breaches.length > 0 && <Badge variant="secondary">{breaches.length}</Badge>}
+          {seriousCount > 0 && <Badge variant="destructive">{seriousCount} serious</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+        {!isLoading && breaches.length === 0 && (
+          <p className="text-sm text-muted-foreground">No open breaches.</p>
+        )}
+        {breaches.map((breach) => {
+          const nextStatuses = getNextWhsBreachStatuses(breach.status)
+          return (
+            <div key={breach.id} className="border rounded-md p-3 space-y-2">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium text-sm">{breach.title}</span>
+                    <Badge variant={SERIOUS_SEVERITIES.has(breach.severity) ? "destructive" : "secondary"}>
+                      {getWhsBreachSeverityLabel(breach.severity)}
+                    </Badge>
+                    <Badge variant="outline">{getWhsBreachStatusLabel(breach.status)}</Badge>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {getWhsBreachCategoryLabel(breach.category)}
+                    {" · "}{format(new Date(breach.identified_at), "dd/MM/yyyy")}
+                    {!employerId && breach.employers?.name && ` · ${breach.employers.name}`}
+                    {!projectId && breach.projects?.name && ` · ${breach.projects.name}`}
+                    {breach.safework_notice_ref && ` · SafeWork ${breach.safework_notice_ref}`}
+                  </div>
+                </div>
+                {canManage && nextStatuses.length > 0 && (
+                  <Select
+                    value=""
+                    onValueChange={(v: string) => advance.mutate({ id: breach.id, status: v as WhsBreachStatus })}
+                    disabled={advance.isPending}
+                  >
+                    <SelectTrigger className="w-[150px] h-8 text-xs">
+                      <SelectValue placeholder="Update status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {nextStatuses.map((status) => (
+                        <SelectItem key={status} value={status}>Mark {getWhsBreachStatusLabel(status).toLowerCase()}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              {breach.notes && <p className="text-sm">{breach.notes}</p>}
+              {breach.photo_paths?.length > 0 && <BreachPhotos paths={breach.photo_paths} />}
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,7 +1,7 @@
 "use client"
 
 import { Badge } from "@/components/ui/badge"
-import { ShieldCheck, Building2 } from "lucide-react"
+import { ShieldCheck, Building2, GraduationCap } from "lucide-react"
 import { cn } from "@/lib/utils"
 
 type BadgeSize = "sm" | "md"
@@ -35,3 +35,16 @@ export function ActiveProjectBadge({ className, size = "sm", count }: { classNam
     </Badge>
   )
 }
+
+export function TrainingLapsedBadge({ className, size = "sm", title }: { className?: string; size?: BadgeSize; title?: string }) {
+  return (
+    <Badge
+      variant="outline"
+      title={title}
+      className={cn("inline-flex items-center border border-rose-400 text-rose-700 bg-rose-50", sizeClasses[size], className)}
+    >
+      <GraduationCap className="h-3.5 w-3.5" />
+      <span>Training lapsed</span>
+    </Badge>
+  )
+}
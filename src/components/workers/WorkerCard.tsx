@@ -4,7 +4,7 @@ import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Mail, Phone, MapPin, Building, User } from "lucide-react"
 import { CfmeuEbaBadge } from "@/components/ui/CfmeuEbaBadge"
-import { IncolinkBadge, ActiveProjectBadge } from "./WorkerBadges"
+import { IncolinkBadge, ActiveProjectBadge, TrainingLapsedBadge } from "./WorkerBadges"
 import { Badge } from "@/components/ui/badge"
 import { getWorkerColorCoding } from "@/utils/workerColorCoding"
 import { cn } from "@/lib/utils"
@@ -101,6 +101,9 @@ export function WorkerCard({ worker, onSelect, onViewDetail }: WorkerCardProps)
               {worker.has_active_project && (
                 <ActiveProjectBadge count={worker.active_project_count} />
               )}
+              {worker.lapsed_training_courses && worker.lapsed_training_courses.length > 0 && (
+                <TrainingLapsedBadge title={worker.lapsed_training_courses.join(", ")} />
+              )}
             </div>
 
         <div className="grid gap-3 text-sm text-muted-foreground">
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
@@ -8,6 +8,7 @@ import { WorkerPlacementsTab } from "./WorkerPlacementsTab";
 import { WorkerUnionRolesTab } from "./WorkerUnionRolesTab";
 import { WorkerActivitiesTab } from "./WorkerActivitiesTab";
 import { WorkerRatingsTab } from "./WorkerRatingsTab";
+import { WorkerTrainingTab } from "./WorkerTrainingTab";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Mail, Phone, MapPin } from "lucide-react";
@@ -20,10 +21,15 @@ interface WorkerDetailModalProps {
   isOpen: boolean;
   onClose: () => void;
   onUpdate?: () => void;
+  initialTab?: string;
 }
 
-export const WorkerDetailModal = ({ workerId, isOpen, onClose, onUpdate }: WorkerDetailModalProps) => {
-  const [activeTab, setActiveTab] = useState("personal");
+export const WorkerDetailModal = ({ workerId, isOpen, onClose, onUpdate, initialTab }: WorkerDetailModalProps) => {
+  const [activeTab, setActiveTab] = useState(initialTab ?? "personal");
+
+  useEffect(() => {
+    if (isOpen && initialTab) setActiveTab(initialTab);
+  }, [isOpen, initialTab, workerId]);
   const queryClient = useQueryClient();
 
   const { data: worker, isLoading } = useQuery({
@@ -207,6 +213,7 @@ export const WorkerDetailModal = ({ workerId, isOpen, onClose, onUpdate }: Worke
               <TabsTrigger value="personal">Personal</TabsTrigger>
               <TabsTrigger value="placements">Placements</TabsTrigger>
               <TabsTrigger value="roles">Union Roles</TabsTrigger>
+              <TabsTrigger value="training">Training</TabsTrigger>
               <TabsTrigger value="activity">Activity</TabsTrigger>
               <TabsTrigger value="ratings">Ratings</TabsTrigger>
             </TabsList>
@@ -220,6 +227,9 @@ export const WorkerDetailModal = ({ workerId, isOpen, onClose, onUpdate }: Worke
             <TabsContent value="roles" className="p-2">
               <WorkerUnionRolesTab workerId={safeWorkerId} onUpdate={handleWorkerUpdate} />
             </TabsContent>
+            <TabsContent value="training" className="p-2">
+              <WorkerTrainingTab workerId={safeWorkerId} onUpdate={handleWorkerUpdate} />
+            </TabsContent>
             <TabsContent value="activity" className="p-2">
               <WorkerActivitiesTab workerId={safeWorkerId} onUpdate={handleWorkerUpdate} />
             </TabsContent>
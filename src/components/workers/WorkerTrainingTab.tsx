@@ -0,0 +1,439 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Trash2, GraduationCap } from "lucide-react";
+import { format } from "date-fns";
+import DateInput from "@/components/ui/date-input";
+import { TrainingStatusBadge } from "@/components/training/TrainingStatusBadge";
+import { TRAINED_ROLE_LABELS, calculateRefresherDue, type TrainingStatus } from "@/lib/training/refresher";
+
+const participationSchema = z.object({
+  course_id: z.string().min(1, "Select a course"),
+  date: z.string().min(1, "Enter the training date"),
+  status: z.enum(["completed", "in_progress", "cancelled", "no_show"]),
+  union_role_id: z.string().optional(),
+  location: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+type ParticipationFormData = z.infer<typeof participationSchema>;
+
+interface WorkerTrainingTabProps {
+  workerId: string | null;
+  onUpdate: () => void;
+}
+
+const participationStatusLabels: Record<ParticipationFormData["status"], string> = {
+  completed: "Completed",
+  in_progress: "In progress",
+  cancelled: "Cancelled",
+  no_show: "No show",
+};
+
+export const WorkerTrainingTab = ({ workerId, onUpdate }: WorkerTrainingTabProps) => {
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: courses = [] } = useQuery({
+    queryKey: ["training-courses"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("training_courses")
+        .select("id, code, name, validity_months, is_active")
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: trainingStatus = [] } = useQuery({
+    queryKey: ["worker-training-status", workerId],
+    queryFn: async () => {
+      if (!workerId) return [];
+      const { data, error } = await supabase
+        .from("v_worker_training_status")
+        .select("union_role_id, union_role, job_site_name, course_id, course_name, last_completed_on, due_on, status")
+        .eq("worker_id", workerId);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!workerId,
+  });
+
+  const { data: participation = [], isLoading } = useQuery({
+    queryKey: ["worker-training", workerId],
+    queryFn: async () => {
+      if (!workerId) return [];
+      const { data, error } = await supabase
+        .from("training_participation")
+        .select(`
+          id,
+          date,
+          status,
+          training_type,
+          location,
+          notes,
+          refresher_due_on,
+          training_courses ( id, name ),
+          union_roles ( id, name, job_sites ( name ) )
+        `)
+        .eq("worker_id", workerId)
+        .order("date", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!workerId,
+  });
+
+  const { data: activeRoles = [] } = useQuery({
+    queryKey: ["worker-active-union-roles", workerId],
+    queryFn: async () => {
+      if (!workerId) return [];
+      const today = new Date().toISOString().slice(0, 10);
+      const { data, error } = await supabase
+        .from("union_roles")
+        .select("id, name, job_sites ( name )")
+        .eq("worker_id", workerId)
+        .or(`end_date.is.null,end_date.gt.${today}`);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!workerId,
+  });
+
+  const form = useForm<ParticipationFormData>({
+    resolver: zodResolver(participationSchema),
+    defaultValues: {
+      course_id: "",
+      date: "",
+      status: "completed",
+      union_role_id: "",
+      location: "",
+      notes: "",
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["worker-training", workerId] });
+    queryClient.invalidateQueries({ queryKey: ["worker-training-status", workerId] });
+    queryClient.invalidateQueries({ queryKey: ["training-due"] });
+    queryClient.invalidateQueries({ queryKey: ["workers-server-side"] });
+  };
+
+  const recordTraining = useMutation({
+    mutationFn: async (values: ParticipationFormData) => {
+      if (!workerId) return;
+      const course = courses.find((c) => c.id === values.course_id);
+      const { data: { user } } = await supabase.auth.getUser();
+
+      // training_type and refresher_due_on are filled in from the course by trigger
+      const { error } = await supabase
+        .from("training_participation")
+        .insert({
+          worker_id: workerId,
+          course_id: values.course_id,
+          training_type: course?.code ?? "",
+          date: values.date,
+          status: values.status,
+          union_role_id: values.union_role_id || null,
+          location: values.location?.trim() || null,
+          notes: values.notes?.trim() || null,
+          recorded_by: user?.id ?? null,
+        });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast({ title: "Training recorded", description: "The training record has been saved." });
+      invalidate();
+      setShowAddDialog(false);
+      form.reset();
+      onUpdate();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record training",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteRecord = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("training_participation").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast({ title: "Training record deleted" });
+      invalidate();
+      onUpdate();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete training record",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectedCourse = courses.find((c) => c.id === form.watch("course_id"));
+  const selectedDate = form.watch("date");
+  const previewDue =
+    selectedCourse && selectedDate && form.watch("status") === "completed"
+      ? calculateRefresherDue(selectedDate, selectedCourse.validity_months)
+      : null;
+
+  return (
+    <div className="space-y-4 max-h-[60vh] overflow-auto pr-1">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Training</h3>
+        <Button onClick={() => setShowAddDialog(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Record Training
+        </Button>
+      </div>
+
+      {trainingStatus.length > 0 && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">Required Training</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {trainingStatus.map((row) => (
+              <div
+                key={`${row.union_role_id}:${row.course_id}`}
+                className="flex flex-wrap items-center justify-between gap-2 text-sm"
+              >
+                <div>
+                  <div className="font-medium">{row.course_name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {TRAINED_ROLE_LABELS[row.union_role ?? ""] ?? row.union_role}
+                    {row.job_site_name && ` · ${row.job_site_name}`}
+                    {row.due_on && ` · Refresher due ${format(new Date(row.due_on), "dd/MM/yyyy")}`}
+                  </div>
+                </div>
+                <TrainingStatusBadge status={row.status as TrainingStatus} />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {isLoading ? (
+        <div className="text-sm text-muted-foreground">Loading training records…</div>
+      ) : participation.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <GraduationCap className="h-8 w-8 mx-auto mb-2" />
+          No training recorded for this worker.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {participation.map((record) => (
+            <Card key={record.id}>
+              <CardContent className="p-3 flex items-start justify-between gap-2">
+                <div className="space-y-1 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{record.training_courses?.name ?? record.training_type}</span>
+                    {record.status && record.status !== "completed" && (
+                      <Badge variant="secondary">
+                        {participationStatusLabels[record.status as ParticipationFormData["status"]] ?? record.status}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {format(new Date(record.date), "dd/MM/yyyy")}
+                    {record.location && ` · ${record.location}`}
+                    {record.union_roles && ` · ${TRAINED_ROLE_LABELS[record.union_roles.name] ?? record.union_roles.name}`}
+                    {record.union_roles?.job_sites?.name && ` at ${record.union_roles.job_sites.name}`}
+                  </div>
+                  {record.refresher_due_on && (
+                    <div className="text-xs text-muted-foreground">
+                      Refresher due {format(new Date(record.refresher_due_on), "dd/MM/yyyy")}
+                    </div>
+                  )}
+                  {record.notes && <div className="text-xs">{record.notes}</div>}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteRecord.mutate(record.id)}
+                  disabled={deleteRecord.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog
+        open={showAddDialog}
+        onOpenChange={(open) => {
+          if (!open) {
+            setShowAddDialog(false);
+            form.reset();
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Training</DialogTitle>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((values) => recordTraining.mutate(values))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="course_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Course</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select course" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {courses.filter((course) => course.is_active).map((course) => (
+                          <SelectItem key={course.id} value={course.id}>
+                            {course.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Date</FormLabel>
+                      <FormControl>
+                        <DateInput value={field.value || ""} onChange={field.onChange} name={field.name} onBlur={field.onBlur} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="status"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Status</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(participationStatusLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {activeRoles.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="union_role_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>For Role (Optional)</FormLabel>
+                      <Select onValueChange={(v) => field.onChange(v === "none" ? "" : v)} value={field.value || "none"}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">Not linked to a role</SelectItem>
+                          {activeRoles.map((role) => (
+                            <SelectItem key={role.id} value={role.id}>
+                              {TRAINED_ROLE_LABELS[role.name] ?? role.name}
+                              {role.job_sites?.name && ` - ${role.job_sites.name}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="location"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Location (Optional)</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes (Optional)</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} rows={2} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              {previewDue && (
+                <p className="text-sm text-muted-foreground">
+                  Refresher due {format(new Date(previewDue), "dd/MM/yyyy")}
+                </p>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setShowAddDialog(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={recordTraining.isPending}>
+                  Save
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
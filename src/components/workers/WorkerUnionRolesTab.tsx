@@ -14,6 +14,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
+import { useFieldPermissions } from "@/hooks/useFieldPermissions";
 import { Plus, Edit, Trash2, Award, Calendar, MapPin } from "lucide-react";
 import { format } from "date-fns";
 import { Label } from "@/components/ui/label";
@@ -69,6 +70,7 @@ export const WorkerUnionRolesTab = ({ workerId, onUpdate }: WorkerUnionRolesTabP
   const [editingRole, setEditingRole] = useState<any>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { canView, canEdit } = useFieldPermissions(["worker_memberships"]);
 
   const { data: unionRoles = [], isLoading } = useQuery({
     queryKey: ["worker-union-roles", workerId],
@@ -427,12 +429,13 @@ export const WorkerUnionRolesTab = ({ workerId, onUpdate }: WorkerUnionRolesTabP
               </Select>
             </div>
 
-            {selectedStatus === "member" && (
+            {selectedStatus === "member" && canView("worker_memberships", "payment_method") && (
               <div>
                 <Label className="text-xs text-muted-foreground">Payment Method</Label>
                 <Select
                   value={duesForm.getValues("payment_method") as any}
                   onValueChange={(v) => duesForm.setValue("payment_method", v as any)}
+                  disabled={!canEdit("worker_memberships", "payment_method")}
                 >
                   <SelectTrigger className="w-[220px]">
                     <SelectValue />
@@ -480,7 +483,7 @@ export const WorkerUnionRolesTab = ({ workerId, onUpdate }: WorkerUnionRolesTabP
         <CardContent>
           <Form {...duesForm}>
             <form onSubmit={duesForm.handleSubmit((values) => saveDues.mutate(values))} className="space-y-4">
-              {duesForm.watch("payment_method") === "direct_debit" && (
+              {duesForm.watch("payment_method") === "direct_debit" && canView("worker_memberships", "dd_status") && (
                 <div className="grid grid-cols-2 gap-4">
                   <FormField
                     control={duesForm.control}
@@ -488,7 +491,11 @@ export const WorkerUnionRolesTab = ({ workerId, onUpdate }: WorkerUnionRolesTabP
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Direct Debit Status</FormLabel>
-                        <Select onValueChange={field.onChange} value={field.value}>
+                        <Select
+                          onValueChange={field.onChange}
+                          value={field.value}
+                          disabled={!canEdit("worker_memberships", "dd_status")}
+                        >
                           <FormControl>
                             <SelectTrigger>
                               <SelectValue />
@@ -508,21 +515,29 @@ export const WorkerUnionRolesTab = ({ workerId, onUpdate }: WorkerUnionRolesTabP
                 </div>
               )}
 
-              <div className="grid grid-cols-2 gap-4">
-                <FormField
-                  control={duesForm.control}
-                  name="arrears_amount"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Arrears Amount</FormLabel>
-                      <FormControl>
-                        <Input type="number" step="0.01" {...field} placeholder="0.00" />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-              </div>
+              {canView("worker_memberships", "arrears_amount") && (
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={duesForm.control}
+                    name="arrears_amount"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Arrears Amount</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            {...field}
+                            placeholder="0.00"
+                            disabled={!canEdit("worker_memberships", "arrears_amount")}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
 
               <div className="grid grid-cols-2 gap-4">
                 <FormField
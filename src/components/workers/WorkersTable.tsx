@@ -3,7 +3,7 @@
 import { WorkerRecord } from "@/hooks/useWorkersServerSide"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { CfmeuEbaBadge } from "@/components/ui/CfmeuEbaBadge"
-import { IncolinkBadge, ActiveProjectBadge } from "./WorkerBadges"
+import { IncolinkBadge, ActiveProjectBadge, TrainingLapsedBadge } from "./WorkerBadges"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { getWorkerColorCoding } from "@/utils/workerColorCoding"
@@ -77,6 +77,9 @@ export function WorkersTable({ workers, onSelect, onViewDetail }: WorkersTablePr
                       <CfmeuEbaBadge hasActiveEba={Boolean(worker.has_active_eba)} size="sm" showText />
                       {hasIncolink && <IncolinkBadge />}
                       {worker.has_active_project && <ActiveProjectBadge count={worker.active_project_count} />}
+                      {worker.lapsed_training_courses.length > 0 && (
+                        <TrainingLapsedBadge title={worker.lapsed_training_courses.join(", ")} />
+                      )}
                     </div>
                   </div>
                 </TableCell>
@@ -0,0 +1,159 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef } from "react"
+import { OFFLINE_SYNC_QUEUES } from "@/lib/mobile/offline-capture"
+import { getFieldConflicts, resolveFieldConflicts, type FieldChoice, type OfflineEntity } from "@/lib/mobile/conflicts"
+import type { SyncOperation } from "@/lib/mobile/offline-storage"
+
+const ENTITIES = Object.keys(OFFLINE_SYNC_QUEUES) as OfflineEntity[]
+
+export interface SyncConflict {
+  operation: SyncOperation
+  entity: OfflineEntity
+}
+
+interface UseBackgroundSyncOptions {
+  syncInterval?: number
+}
+
+interface UseBackgroundSyncReturn {
+  isOnline: boolean
+  syncing: boolean
+  pendingCount: number
+  conflicts: SyncConflict[]
+  lastSyncedAt: Date | null
+  syncNow: () => Promise<void>
+  resolveConflict: (conflict: SyncConflict, resolution: 'local' | 'server' | 'merge', choices?: Record<string, FieldChoice>) => Promise<void>
+}
+
+/**
+ * Drives the offline sync queues in the background: syncs when the device
+ * comes back online and on an interval, and surfaces pending work and parked
+ * conflicts. Conflicts with no field both sides changed are resolved without
+ * asking.
+ */
+export function useBackgroundSync(options: UseBackgroundSyncOptions = {}): UseBackgroundSyncReturn {
+  const { syncInterval = 60000 } = options
+
+  const [isOnline, setIsOnline] = useState(
+    typeof navigator !== "undefined" ? navigator.onLine : true
+  )
+  const [syncing, setSyncing] = useState(false)
+  const [pendingCount, setPendingCount] = useState(0)
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([])
+  const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(null)
+  const syncingRef = useRef(false)
+
+  const refresh = useCallback(async () => {
+    if (typeof indexedDB === "undefined") return
+
+    const counts = await Promise.all(ENTITIES.map((entity) => OFFLINE_SYNC_QUEUES[entity].getPendingCount()))
+    const parked = await Promise.all(
+      ENTITIES.map(async (entity) => {
+        const operations = await OFFLINE_SYNC_QUEUES[entity].getConflicts()
+        return operations.map((operation) => ({ operation, entity }))
+      })
+    )
+
+    const needsReview: SyncConflict[] = []
+    for (const conflict of parked.flat()) {
+      const { operation, entity } = conflict
+      const serverData = operation.conflict?.serverData
+      if (getFieldConflicts(entity, operation.data, serverData, operation.baseData).length > 0) {
+        needsReview.push(conflict)
+        continue
+      }
+      // Nothing to choose between: take the server's version stamp and resend
+      await OFFLINE_SYNC_QUEUES[entity].resolveConflict(
+        operation.id,
+        "merge",
+        resolveFieldConflicts(entity, operation.data, serverData, operation.baseData, {})
+      )
+    }
+
+    setPendingCount(counts.reduce((sum, count) => sum + count, 0))
+    setConflicts(needsReview)
+  }, [])
+
+  const syncNow = useCallback(async () => {
+    if (syncingRef.current || typeof indexedDB === "undefined") return
+    if (typeof navigator !== "undefined" && !navigator.onLine) {
+      await refresh()
+      return
+    }
+
+    syncingRef.current = true
+    setSyncing(true)
+    try {
+      for (const entity of ENTITIES) {
+        await OFFLINE_SYNC_QUEUES[entity].processQueue()
+      }
+      setLastSyncedAt(new Date())
+    } catch (error) {
+      console.error("Background sync failed:", error)
+    } finally {
+      syncingRef.current = false
+      setSyncing(false)
+      await refresh()
+    }
+  }, [refresh])
+
+  const resolveConflict = useCallback(async (
+    conflict: SyncConflict,
+    resolution: 'local' | 'server' | 'merge',
+    choices: Record<string, FieldChoice> = {}
+  ) => {
+    const { operation, entity } = conflict
+    const serverData = operation.conflict?.serverData
+
+    if (resolution === "server") {
+      await OFFLINE_SYNC_QUEUES[entity].resolveConflict(operation.id, "server")
+    } else {
+      const fieldChoices = resolution === "local"
+        ? Object.fromEntries(
+            getFieldConflicts(entity, operation.data, serverData, operation.baseData).map((field) => [field.field, "local" as const])
+          )
+        : choices
+      await OFFLINE_SYNC_QUEUES[entity].resolveConflict(
+        operation.id,
+        resolution,
+        resolveFieldConflicts(entity, operation.data, serverData, operation.baseData, fieldChoices)
+      )
+    }
+
+    await refresh()
+  }, [refresh])
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true)
+      syncNow()
+    }
+    const handleOffline = () => setIsOnline(false)
+
+    window.addEventListener("online", handleOnline)
+    window.addEventListener("offline", handleOffline)
+    syncNow()
+
+    return () => {
+      window.removeEventListener("online", handleOnline)
+      window.removeEventListener("offline", handleOffline)
+    }
+  }, [syncNow])
+
+  useEffect(() => {
+    if (!isOnline) return
+    const interval = setInterval(syncNow, syncInterval)
+    return () => clearInterval(interval)
+  }, [isOnline, syncInterval, syncNow])
+
+  return {
+    isOnline,
+    syncing,
+    pendingCount,
+    conflicts,
+    lastSyncedAt,
+    syncNow,
+    resolveConflict,
+  }
+}
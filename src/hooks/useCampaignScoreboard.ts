@@ -0,0 +1,62 @@
+import { useQuery } from '@tanstack/react-query';
+import type { BurnUpPoint, KpiTargetScope } from '@/lib/campaigns/kpiScoreboard';
+
+// Types matching /api/campaigns/[campaignId]/scoreboard
+export interface CampaignScoreboardTarget {
+  id: string;
+  scope: KpiTargetScope;
+  label: string;
+  organiser_id: string | null;
+  patch_id: string | null;
+  job_site_id: string | null;
+  target_value: number;
+  due_date: string;
+  actual: number;
+  progress: number;
+}
+
+export interface CampaignScoreboardKpi {
+  kpi_id: string;
+  code: string;
+  label: string;
+  unit: string;
+  required: boolean;
+  actual: number;
+  target_total: number;
+  progress: number;
+  targets: CampaignScoreboardTarget[];
+  burn_up: BurnUpPoint[];
+}
+
+export interface CampaignScoreboardResponse {
+  campaign: {
+    id: string;
+    name: string;
+    start_date: string;
+    end_date: string;
+    status: string;
+  };
+  kpis: CampaignScoreboardKpi[];
+}
+
+/**
+ * KPI progress against targets for one campaign
+ */
+export function useCampaignScoreboard(campaignId: string | null) {
+  return useQuery<CampaignScoreboardResponse>({
+    queryKey: ['campaign-scoreboard', campaignId],
+    queryFn: async () => {
+      const response = await fetch(`/api/campaigns/${campaignId}/scoreboard`);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to fetch campaign scoreboard: ${response.status} ${errorText}`);
+      }
+
+      return response.json();
+    },
+    enabled: !!campaignId,
+    staleTime: 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
@@ -0,0 +1,49 @@
+import { useQuery } from '@tanstack/react-query';
+import type { ConversionFunnelCounts, FunnelGroupBy } from '@/lib/dd-conversion/funnel';
+
+// Types matching /api/dd-conversion/funnel
+export interface DdConversionFunnelGroup extends ConversionFunnelCounts {
+  key: string;
+  label: string;
+}
+
+export interface DdConversionFunnelResponse {
+  groupBy: FunnelGroupBy;
+  from: string | null;
+  to: string | null;
+  groups: DdConversionFunnelGroup[];
+  totals: ConversionFunnelCounts;
+}
+
+export interface DdConversionFunnelParams {
+  groupBy?: FunnelGroupBy;
+  from?: string | null;
+  to?: string | null;
+}
+
+/**
+ * Direct-debit conversion funnel grouped by organiser, patch or campaign
+ */
+export function useDdConversionFunnel(params: DdConversionFunnelParams = {}) {
+  const { groupBy = 'organiser', from = null, to = null } = params;
+
+  return useQuery<DdConversionFunnelResponse>({
+    queryKey: ['dd-conversion-funnel', groupBy, from, to],
+    queryFn: async () => {
+      const searchParams = new URLSearchParams({ groupBy });
+      if (from) searchParams.set('from', from);
+      if (to) searchParams.set('to', to);
+
+      const response = await fetch(`/api/dd-conversion/funnel?${searchParams.toString()}`);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to fetch DD conversion funnel: ${response.status} ${errorText}`);
+      }
+
+      return response.json();
+    },
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
@@ -0,0 +1,50 @@
+import { useQuery } from '@tanstack/react-query';
+
+// Types matching /api/eba-tracking/changes
+export type EbaChangeType = 'new_agreement' | 'agreement_approved' | 'agreement_expired' | 'expiry_date_changed';
+
+export interface EbaAgreementSnapshot {
+  title: string | null;
+  status: string | null;
+  lodgementNumber: string | null;
+  approvedDate: string | null;
+  expiryDate: string | null;
+}
+
+export interface EbaChangeDigestEntry {
+  id: string;
+  employerId: string;
+  employerName: string | null;
+  changeType: EbaChangeType;
+  previous: EbaAgreementSnapshot | null;
+  current: EbaAgreementSnapshot | null;
+  detectedAt: string;
+}
+
+export interface EbaChangeDigestResponse {
+  since: string;
+  days: number;
+  counts: Record<EbaChangeType, number>;
+  changes: EbaChangeDigestEntry[];
+}
+
+/**
+ * Digest of EBA changes found by the scheduled FWC re-verification
+ */
+export function useEbaChangeDigest(days = 30) {
+  return useQuery<EbaChangeDigestResponse>({
+    queryKey: ['eba-change-digest', days],
+    queryFn: async () => {
+      const response = await fetch(`/api/eba-tracking/changes?days=${days}`);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to fetch EBA change digest: ${response.status} ${errorText}`);
+      }
+
+      return response.json();
+    },
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
@@ -0,0 +1,33 @@
+import { useQuery } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import {
+  fieldAccess,
+  getFieldPermissions,
+  type FieldAccess,
+  type FieldEntityType,
+  type FieldPermissionMap,
+} from "@/lib/auth/fieldPermissions"
+
+/**
+ * The signed-in user's field permissions, for screens that read tables
+ * directly rather than through a redacting API route. Fields are editable
+ * until the permissions have loaded; the database still rejects blocked writes.
+ */
+export function useFieldPermissions(entityTypes: FieldEntityType[]) {
+  const { data: permissions = {} as FieldPermissionMap, isLoading } = useQuery({
+    queryKey: ["field-permissions", [...entityTypes].sort()],
+    queryFn: () => getFieldPermissions(supabase, entityTypes),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+
+  const access = (entityType: FieldEntityType, fieldName: string): FieldAccess =>
+    fieldAccess(permissions, entityType, fieldName)
+
+  return {
+    permissions,
+    isLoading,
+    access,
+    canView: (entityType: FieldEntityType, fieldName: string) => access(entityType, fieldName) !== "hidden",
+    canEdit: (entityType: FieldEntityType, fieldName: string) => access(entityType, fieldName) === "edit",
+  }
+}
@@ -2,9 +2,11 @@ import { useEffect, useState, useCallback, useRef } from "react"
 import { useQuery } from "@tanstack/react-query"
 import { supabase } from "@/integrations/supabase/client"
 import * as Sentry from "@sentry/nextjs"
+import { DEFAULT_GEOFENCE_RADIUS_METERS } from "@/lib/geofencing/dwell"
 
-const GEOFENCE_RADIUS_METERS = 100 // 100 meters
+const GEOFENCE_RADIUS_METERS = DEFAULT_GEOFENCE_RADIUS_METERS // Used when a site has no custom radius
 const POSITION_CHECK_INTERVAL = 60000 // Check every 60 seconds
+const POSITION_REPORT_INTERVAL = 60000 // Report to the server for dwell detection at most once a minute
 const NOTIFICATION_COOLDOWN = 3600000 // 1 hour cooldown per site
 
 interface JobSiteLocation {
@@ -14,6 +16,19 @@ interface JobSiteLocation {
   project_name: string
   latitude: number
   longitude: number
+  geofence_radius_m?: number | null
+}
+
+// Draft visit created by dwell detection (see /api/site-visits/geofence)
+export interface GeofenceDraftVisit {
+  id: string
+  job_site_id: string
+  project_id: string | null
+  project_name: string | null
+}
+
+interface GeofencePositionResponse {
+  draftVisits: GeofenceDraftVisit[]
 }
 
 interface GeofenceNotification {
@@ -32,7 +47,9 @@ export function useGeofencing(enabled: boolean = false) {
   const [permissionChecked, setPermissionChecked] = useState(false)
   const [nearbySites, setNearbySites] = useState<JobSiteLocation[]>([])
   const [lastNotification, setLastNotification] = useState<GeofenceNotification | null>(null)
+  const [lastDetectedVisit, setLastDetectedVisit] = useState<GeofenceDraftVisit | null>(null)
   const watchIdRef = useRef<number | null>(null)
+  const lastReportRef = useRef<number>(0)
   const notificationCooldownRef = useRef<Map<string, number>>(new Map())
   const mockSites: JobSiteLocation[] | null =
     typeof window !== "undefined" && Array.isArray((window as any).__GEOFENCE_TEST_SITES)
@@ -276,6 +293,7 @@ export function useGeofencing(enabled: boolean = false) {
             name,
             latitude,
             longitude,
+            geofence_radius_m,
             project_id,
             projects (
               id,
@@ -294,6 +312,7 @@ export function useGeofencing(enabled: boolean = false) {
           project_name: site.projects?.name || "Unknown Project",
           latitude: site.latitude,
           longitude: site.longitude,
+          geofence_radius_m: site.geofence_radius_m ?? null,
         })) as JobSiteLocation[]
       }
 
@@ -320,6 +339,7 @@ export function useGeofencing(enabled: boolean = false) {
           name,
           latitude,
           longitude,
+          geofence_radius_m,
           project_id,
           projects (
             id,
@@ -339,6 +359,7 @@ export function useGeofencing(enabled: boolean = false) {
         project_name: site.projects?.name || "Unknown Project",
         latitude: site.latitude,
         longitude: site.longitude,
+        geofence_radius_m: site.geofence_radius_m ?? null,
       })) as JobSiteLocation[]
     },
     enabled: enabled && isSupported && !!userPatchScope && !useMockSites,
@@ -523,7 +544,7 @@ export function useGeofencing(enabled: boolean = false) {
         site.latitude,
         site.longitude
       )
-      return distance <= GEOFENCE_RADIUS_METERS
+      return distance <= (site.geofence_radius_m ?? GEOFENCE_RADIUS_METERS)
     })
 
     setNearbySites(nearby)
@@ -542,6 +563,44 @@ export function useGeofencing(enabled: boolean = false) {
     }
   }, [jobSites, calculateDistance, recordNearbySite])
 
+  // Send the position to the server, which tracks how long we've been inside each
+  // site's fence (including custom radii and polygons) and creates a draft visit
+  // once we've stayed long enough. Positions outside every fence aren't stored.
+  const reportPosition = useCallback(async (position: GeolocationPosition) => {
+    if (useMockSites) return
+    const now = Date.now()
+    if (now - lastReportRef.current < POSITION_REPORT_INTERVAL) return
+    lastReportRef.current = now
+
+    try {
+      const response = await fetch("/api/site-visits/geofence", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+          recordedAt: new Date(position.timestamp).toISOString(),
+        }),
+      })
+      if (!response.ok) return
+
+      const result = (await response.json()) as GeofencePositionResponse
+      if (result.draftVisits.length > 0) {
+        setLastDetectedVisit(result.draftVisits[0])
+      }
+    } catch (error) {
+      if (geoDebugEnabled()) {
+        console.warn("[Geofencing] Position report failed:", error)
+      }
+    }
+  }, [useMockSites, geoDebugEnabled])
+
+  const reportPositionRef = useRef(reportPosition)
+  useEffect(() => {
+    reportPositionRef.current = reportPosition
+  }, [reportPosition])
+
   // Store checkNearbySites in a ref to avoid dependency issues
   const checkNearbySitesRef = useRef(checkNearbySites)
   useEffect(() => {
@@ -557,6 +616,7 @@ export function useGeofencing(enabled: boolean = false) {
     const successCallback = (position: GeolocationPosition) => {
       setCurrentPosition(position)
       checkNearbySitesRef.current(position)
+      void reportPositionRef.current(position)
     }
 
     const errorCallback = (error: GeolocationPositionError) => {
@@ -603,6 +663,7 @@ export function useGeofencing(enabled: boolean = false) {
     currentPosition,
     nearbySites,
     lastNotification,
+    lastDetectedVisit,
     requestLocationAccess,
     startWatching,
     stopWatching,
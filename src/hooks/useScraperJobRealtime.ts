@@ -2,7 +2,7 @@ import { useEffect, useRef, useState, useCallback } from 'react'
 import { supabase } from '@/integrations/supabase/client'
 import type { RealtimeChannel } from '@supabase/supabase-js'
 
-export type ScraperJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+export type ScraperJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled' | 'dead_letter'
 
 export type ScraperJob = {
   id: string
@@ -121,7 +121,7 @@ export function useScraperJobRealtime(
       onJobUpdate?.(data.job)
 
       // Check if job is complete - only fire callback once per job
-      const terminalStatuses: ScraperJobStatus[] = ['succeeded', 'failed', 'cancelled']
+      const terminalStatuses: ScraperJobStatus[] = ['succeeded', 'failed', 'cancelled', 'dead_letter']
       if (terminalStatuses.includes(data.job.status)) {
         if (completedCallbackFiredRef.current !== data.job.id) {
           completedCallbackFiredRef.current = data.job.id
@@ -194,7 +194,7 @@ export function useScraperJobRealtime(
           onJobUpdate?.(updatedJob)
 
           // Check if job is complete - only fire callback once per job
-          const terminalStatuses: ScraperJobStatus[] = ['succeeded', 'failed', 'cancelled']
+          const terminalStatuses: ScraperJobStatus[] = ['succeeded', 'failed', 'cancelled', 'dead_letter']
           if (terminalStatuses.includes(updatedJob.status)) {
             if (completedCallbackFiredRef.current !== updatedJob.id) {
               completedCallbackFiredRef.current = updatedJob.id
@@ -0,0 +1,63 @@
+import { useQuery } from '@tanstack/react-query';
+import type { TrainingStatus } from '@/lib/training/refresher';
+
+// Types matching /api/training/due
+export interface TrainingDueRow {
+  union_role_id: string;
+  worker_id: string;
+  first_name: string | null;
+  surname: string | null;
+  union_role: string;
+  job_site_id: string | null;
+  job_site_name: string | null;
+  project_id: string | null;
+  project_name: string | null;
+  course_id: string;
+  course_code: string;
+  course_name: string;
+  last_completed_on: string | null;
+  due_on: string | null;
+  status: TrainingStatus;
+}
+
+export interface TrainingDueResponse {
+  rows: TrainingDueRow[];
+  summary: Record<TrainingStatus, number>;
+}
+
+export interface TrainingDueParams {
+  patchIds?: string[];
+  jobSiteId?: string | null;
+  projectId?: string | null;
+  status?: TrainingStatus | 'due' | 'all';
+}
+
+/**
+ * Delegates and HSRs whose required training is due, overdue or missing
+ */
+export function useTrainingDue(params: TrainingDueParams = {}, options: { enabled?: boolean } = {}) {
+  const { patchIds = [], jobSiteId = null, projectId = null, status = 'due' } = params;
+
+  return useQuery<TrainingDueResponse>({
+    queryKey: ['training-due', patchIds, jobSiteId, projectId, status],
+    queryFn: async () => {
+      const searchParams = new URLSearchParams();
+      if (patchIds.length > 0) searchParams.set('patchIds', patchIds.join(','));
+      if (jobSiteId) searchParams.set('jobSiteId', jobSiteId);
+      if (projectId) searchParams.set('projectId', projectId);
+      if (status !== 'due') searchParams.set('status', status);
+
+      const response = await fetch(`/api/training/due?${searchParams.toString()}`);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to fetch training due list: ${response.status} ${errorText}`);
+      }
+
+      return response.json();
+    },
+    enabled: options.enabled ?? true,
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
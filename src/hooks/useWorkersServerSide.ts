@@ -26,6 +26,7 @@ export interface WorkerRecord {
   has_incolink_id: boolean;
   has_active_eba: boolean;
   has_active_project: boolean;
+  lapsed_training_courses: string[];
   active_project_names: string[];
   active_project_count: number;
   employer_names: string[];
@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for field-level permission redaction and write checks
+ *
+ * Run with: npm test src/lib/auth/__tests__/fieldPermissions.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  buildFieldPermissionMap,
+  fieldAccess,
+  findBlockedWrites,
+  getFieldPermissions,
+  readOnlyFieldKeys,
+  redactFields,
+  redactRecords,
+} from '../fieldPermissions'
+
+const permissions = buildFieldPermissionMap([
+  { entity_type: 'workers', field_name: 'email', can_view: false, can_edit: false },
+  { entity_type: 'workers', field_name: 'member_number', can_view: true, can_edit: false },
+  { entity_type: 'workers', field_name: 'nickname', can_view: true, can_edit: true },
+  { entity_type: 'projects', field_name: 'value', can_view: true, can_edit: false },
+])
+
+describe('buildFieldPermissionMap', () => {
+  it('resolves each row to hidden, view or edit', () => {
+    expect(permissions.workers).toEqual({ email: 'hidden', member_number: 'view', nickname: 'edit' })
+  })
+
+  it('treats fields without an entity_fields row as editable', () => {
+    expect(fieldAccess(permissions, 'workers', 'first_name')).toBe('edit')
+    expect(fieldAccess(permissions, 'employers', 'abn')).toBe('edit')
+  })
+})
+
+describe('redactFields', () => {
+  it('nulls hidden fields and leaves the rest', () => {
+    const worker = { id: 'w1', email: 'a@example.com', member_number: '123' }
+    expect(redactFields(worker, permissions, 'workers')).toEqual({ id: 'w1', email: null, member_number: '123' })
+    expect(worker.email).toBe('a@example.com')
+  })
+
+  it('does not add hidden fields the record lacks', () => {
+    expect(redactFields({ id: 'w1' }, permissions, 'workers')).toEqual({ id: 'w1' })
+  })
+
+  it('returns records untouched when nothing is hidden', () => {
+    const projects = [{ id: 'p1', value: 100 }]
+    expect(redactRecords(projects, permissions, 'projects')).toBe(projects)
+  })
+})
+
+describe('findBlockedWrites', () => {
+  it('lists hidden and view-only fields in the payload', () => {
+    expect(findBlockedWrites({ email: 'x', member_number: '1', nickname: 'Bo', first_name: 'A' }, permissions, 'workers'))
+      .toEqual(['workers.email', 'workers.member_number'])
+  })
+
+  it('allows empty payloads', () => {
+    expect(findBlockedWrites(undefined, permissions, 'workers')).toEqual([])
+  })
+})
+
+describe('readOnlyFieldKeys', () => {
+  it('lists hidden and view-only fields for each entity', () => {
+    expect(readOnlyFieldKeys(permissions, ['workers', 'projects', 'employers']))
+      .toEqual(['workers.email', 'workers.member_number', 'projects.value'])
+  })
+})
+
+describe('getFieldPermissions', () => {
+  it('asks for the public form role when requested', async () => {
+    const calls: any[] = []
+    const supabase: any = {
+      rpc: async (name: string, args: any) => {
+        calls.push([name, args])
+        return { data: [{ entity_type: 'projects', field_name: 'value', can_view: false, can_edit: false }], error: null }
+      },
+    }
+
+    const result = await getFieldPermissions(supabase, ['projects'], { publicForm: true })
+
+    expect(calls).toEqual([['get_field_permissions', { p_entity_types: ['projects'], p_public_form: true }]])
+    expect(result).toEqual({ projects: { value: 'hidden' } })
+  })
+
+  it('throws when permissions cannot be loaded', async () => {
+    const supabase: any = { rpc: async () => ({ data: null, error: { message: 'boom' } }) }
+    await expect(getFieldPermissions(supabase, ['workers'])).rejects.toThrow('Failed to load field permissions: boom')
+  })
+})
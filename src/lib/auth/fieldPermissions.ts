@@ -0,0 +1,154 @@
+/**
+ * Field-level permissions from entity_fields / field_permissions /
+ * delegate_field_permissions, resolved for the caller by the
+ * `get_field_permissions` RPC. API routes use these helpers to redact fields
+ * the caller can't view and to reject writes to fields they can't edit.
+ *
+ * Fields without an entity_fields row are unrestricted.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+
+export type FieldEntityType =
+  | 'workers'
+  | 'worker_memberships'
+  | 'employers'
+  | 'projects'
+  | 'site_contacts'
+
+export type FieldAccess = 'hidden' | 'view' | 'edit'
+
+/** entity_type -> field_name -> resolved access */
+export type FieldPermissionMap = Partial<Record<FieldEntityType, Record<string, FieldAccess>>>
+
+export interface FieldPermissionRow {
+  entity_type: string
+  field_name: string
+  can_view: boolean
+  can_edit: boolean
+}
+
+export function toFieldAccess(canView: boolean, canEdit: boolean): FieldAccess {
+  if (!canView) return 'hidden'
+  return canEdit ? 'edit' : 'view'
+}
+
+export function accessFlags(access: FieldAccess): { can_view: boolean; can_edit: boolean } {
+  return { can_view: access !== 'hidden', can_edit: access === 'edit' }
+}
+
+export function buildFieldPermissionMap(rows: FieldPermissionRow[]): FieldPermissionMap {
+  const map: FieldPermissionMap = {}
+  for (const row of rows) {
+    const entity = row.entity_type as FieldEntityType
+    const fields = map[entity] ?? (map[entity] = {})
+    fields[row.field_name] = toFieldAccess(row.can_view, row.can_edit)
+  }
+  return map
+}
+
+/**
+ * Loads the caller's permissions. `publicForm` resolves the 'public_form'
+ * role for token-based public forms instead of the signed-in user's role.
+ * Throws when the permissions can't be read so routes fail closed.
+ */
+export async function getFieldPermissions(
+  supabase: SupabaseClient<Database>,
+  entityTypes: FieldEntityType[],
+  options: { publicForm?: boolean } = {}
+): Promise<FieldPermissionMap> {
+  const { data, error } = await supabase.rpc('get_field_permissions', {
+    p_entity_types: entityTypes,
+    p_public_form: options.publicForm ?? false,
+  })
+
+  if (error) {
+    throw new Error(`Failed to load field permissions: ${error.message}`)
+  }
+
+  return buildFieldPermissionMap(data ?? [])
+}
+
+export function fieldAccess(
+  permissions: FieldPermissionMap,
+  entityType: FieldEntityType,
+  fieldName: string
+): FieldAccess {
+  return permissions[entityType]?.[fieldName] ?? 'edit'
+}
+
+export function fieldsWithAccess(
+  permissions: FieldPermissionMap,
+  entityType: FieldEntityType,
+  access: FieldAccess
+): string[] {
+  return Object.entries(permissions[entityType] ?? {})
+    .filter(([, value]) => value === access)
+    .map(([field]) => field)
+}
+
+/**
+ * Fields the caller can't edit (hidden or view-only)
+ */
+export function lockedFields(permissions: FieldPermissionMap, entityType: FieldEntityType): string[] {
+  return Object.entries(permissions[entityType] ?? {})
+    .filter(([, value]) => value !== 'edit')
+    .map(([field]) => field)
+}
+
+/**
+ * Locked fields across entities as `entity.field`, for clients that need to
+ * disable inputs and leave those fields out of their payloads
+ */
+export function readOnlyFieldKeys(permissions: FieldPermissionMap, entityTypes: FieldEntityType[]): string[] {
+  return entityTypes.flatMap((entityType) =>
+    lockedFields(permissions, entityType).map((field) => `${entityType}.${field}`)
+  )
+}
+
+/**
+ * Copy of the record with hidden fields set to null. Fields are nulled rather
+ * than dropped so responses keep the shape clients already expect.
+ */
+export function redactFields<T extends Record<string, any>>(
+  record: T,
+  permissions: FieldPermissionMap,
+  entityType: FieldEntityType
+): T {
+  const hidden = fieldsWithAccess(permissions, entityType, 'hidden').filter((field) => field in record)
+  if (hidden.length === 0) return record
+
+  const redacted: Record<string, any> = { ...record }
+  for (const field of hidden) {
+    redacted[field] = null
+  }
+  return redacted as T
+}
+
+export function redactRecords<T extends Record<string, any>>(
+  records: T[],
+  permissions: FieldPermissionMap,
+  entityType: FieldEntityType
+): T[] {
+  if (fieldsWithAccess(permissions, entityType, 'hidden').length === 0) return records
+  return records.map((record) => redactFields(record, permissions, entityType))
+}
+
+/**
+ * Fields in a write payload the caller can't edit, as `entity.field`
+ */
+export function findBlockedWrites(
+  payload: Record<string, unknown> | null | undefined,
+  permissions: FieldPermissionMap,
+  entityType: FieldEntityType
+): string[] {
+  if (!payload) return []
+  return Object.keys(payload)
+    .filter((field) => fieldAccess(permissions, entityType, field) !== 'edit')
+    .map((field) => `${entityType}.${field}`)
+}
+
+export function blockedWritesMessage(blocked: string[]): string {
+  return `You do not have permission to edit: ${blocked.join(', ')}`
+}
@@ -0,0 +1,94 @@
+/**
+ * Tests for campaign KPI target matching and burn-up series
+ *
+ * Run with: npm test src/lib/campaigns/__tests__/kpiScoreboard.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  buildBurnUp,
+  eventMatchesTarget,
+  getProgress,
+  getTargetScope,
+  type KpiEventRow,
+  type KpiTargetRow,
+} from '../kpiScoreboard'
+
+const target = (overrides: Partial<KpiTargetRow>): KpiTargetRow => ({
+  id: 't1',
+  kpi_id: 'kpi-visits',
+  organiser_id: null,
+  patch_id: null,
+  job_site_id: null,
+  target_value: 10,
+  due_date: '2026-03-31',
+  ...overrides,
+})
+
+const event = (overrides: Partial<KpiEventRow>): KpiEventRow => ({
+  kpi_id: 'kpi-visits',
+  organiser_id: 'org-1',
+  job_site_id: 'site-1',
+  value: 1,
+  occurred_at: '2026-03-02T09:00:00Z',
+  ...overrides,
+})
+
+describe('eventMatchesTarget', () => {
+  const patchIdsBySite = new Map([
+    ['site-1', ['patch-north']],
+    ['site-2', ['patch-north', 'patch-city']],
+  ])
+
+  it('should match organiser targets on the organiser only', () => {
+    const organiserTarget = target({ organiser_id: 'org-1' })
+    expect(eventMatchesTarget(event({}), organiserTarget, patchIdsBySite)).toBe(true)
+    expect(eventMatchesTarget(event({ organiser_id: 'org-2' }), organiserTarget, patchIdsBySite)).toBe(false)
+    expect(eventMatchesTarget(event({ kpi_id: 'kpi-dd' }), organiserTarget, patchIdsBySite)).toBe(false)
+  })
+
+  it('should match patch targets on any site in the patch', () => {
+    const patchTarget = target({ patch_id: 'patch-city' })
+    expect(eventMatchesTarget(event({ job_site_id: 'site-2' }), patchTarget, patchIdsBySite)).toBe(true)
+    expect(eventMatchesTarget(event({ job_site_id: 'site-1' }), patchTarget, patchIdsBySite)).toBe(false)
+    expect(eventMatchesTarget(event({ job_site_id: null }), patchTarget, patchIdsBySite)).toBe(false)
+  })
+
+  it('should require every scope a target sets', () => {
+    const both = target({ organiser_id: 'org-1', patch_id: 'patch-north' })
+    expect(eventMatchesTarget(event({}), both, patchIdsBySite)).toBe(true)
+    expect(eventMatchesTarget(event({ organiser_id: 'org-2' }), both, patchIdsBySite)).toBe(false)
+    expect(getTargetScope(both)).toBe('patch')
+  })
+})
+
+describe('getProgress', () => {
+  it('should cap progress at the target', () => {
+    expect(getProgress(5, 10)).toBe(0.5)
+    expect(getProgress(14, 10)).toBe(1)
+    expect(getProgress(0, 0)).toBe(0)
+  })
+})
+
+describe('buildBurnUp', () => {
+  it('should accumulate daily progress and stop at today', () => {
+    const points = buildBurnUp(
+      [
+        event({ occurred_at: '2026-03-01T22:00:00Z' }),
+        event({ occurred_at: '2026-03-03T08:00:00Z', value: 2 }),
+        event({ occurred_at: '2026-03-03T10:00:00Z' }),
+      ],
+      '2026-03-01',
+      '2026-03-04',
+      8,
+      new Date('2026-03-03T12:00:00Z')
+    )
+
+    expect(points.map((point) => point.actual)).toEqual([1, 1, 4, null])
+    expect(points.map((point) => point.target)).toEqual([2, 4, 6, 8])
+  })
+
+  it('should return nothing for an inverted window', () => {
+    expect(buildBurnUp([], '2026-03-04', '2026-03-01', 8)).toEqual([])
+  })
+})
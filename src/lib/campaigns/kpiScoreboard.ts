@@ -0,0 +1,110 @@
+/**
+ * Campaign KPI scoreboard
+ *
+ * Targets are scoped to an organiser, a patch or a job site (or a mix). An
+ * event counts towards a target when it matches every scope the target sets;
+ * patch targets match events on any site currently in the patch.
+ */
+
+export type KpiTargetScope = 'organiser' | 'patch' | 'job_site'
+
+export interface KpiEventRow {
+  kpi_id: string
+  organiser_id: string | null
+  job_site_id: string | null
+  value: number
+  occurred_at: string
+}
+
+export interface KpiTargetRow {
+  id: string
+  kpi_id: string
+  organiser_id: string | null
+  patch_id: string | null
+  job_site_id: string | null
+  target_value: number
+  due_date: string
+}
+
+export interface BurnUpPoint {
+  date: string
+  /** Cumulative progress; null for days that have not happened yet */
+  actual: number | null
+  /** Straight line from zero at the start to the target on the last day */
+  target: number
+}
+
+/** The narrowest scope a target sets, used to label it */
+export function getTargetScope(target: KpiTargetRow): KpiTargetScope {
+  if (target.job_site_id) return 'job_site'
+  if (target.patch_id) return 'patch'
+  return 'organiser'
+}
+
+export function eventMatchesTarget(
+  event: KpiEventRow,
+  target: KpiTargetRow,
+  patchIdsBySite: Map<string, string[]>
+): boolean {
+  if (event.kpi_id !== target.kpi_id) return false
+  if (target.organiser_id && event.organiser_id !== target.organiser_id) return false
+  if (target.job_site_id && event.job_site_id !== target.job_site_id) return false
+  if (target.patch_id) {
+    const patchIds = event.job_site_id ? patchIdsBySite.get(event.job_site_id) ?? [] : []
+    if (!patchIds.includes(target.patch_id)) return false
+  }
+  return true
+}
+
+export function sumEvents(events: KpiEventRow[]): number {
+  return events.reduce((total, event) => total + Number(event.value || 0), 0)
+}
+
+/** Progress as a fraction of the target, capped at 1 */
+export function getProgress(actual: number, target: number): number {
+  if (target <= 0) return actual > 0 ? 1 : 0
+  return Math.min(actual / target, 1)
+}
+
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`)
+  next.setUTCDate(next.getUTCDate() + days)
+  return next.toISOString().slice(0, 10)
+}
+
+/**
+ * Daily cumulative progress across the campaign window, alongside the
+ * straight-line path to the target.
+ */
+export function buildBurnUp(
+  events: KpiEventRow[],
+  startDate: string,
+  endDate: string,
+  targetTotal: number,
+  today: Date = new Date()
+): BurnUpPoint[] {
+  if (endDate < startDate) return []
+
+  const byDay = new Map<string, number>()
+  events.forEach((event) => {
+    const day = event.occurred_at.slice(0, 10)
+    byDay.set(day, (byDay.get(day) ?? 0) + Number(event.value || 0))
+  })
+
+  const todayKey = today.toISOString().slice(0, 10)
+  const dayCount = Math.round((Date.parse(endDate) - Date.parse(startDate)) / 86_400_000) + 1
+  const points: BurnUpPoint[] = []
+
+  let cumulative = 0
+  let index = 0
+  for (let day = startDate; day <= endDate; day = addDays(day, 1)) {
+    cumulative += byDay.get(day) ?? 0
+    index += 1
+    points.push({
+      date: day,
+      actual: day <= todayKey ? cumulative : null,
+      target: Math.round((targetTotal * index) / dayCount * 100) / 100,
+    })
+  }
+  return points
+}
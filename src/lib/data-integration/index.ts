@@ -65,12 +65,25 @@
  * 🛠️ **Developer-Friendly**: Comprehensive APIs and TypeScript support
  */
 
+import { supabase } from '@/integrations/supabase/client';
+import { runStartupSchemaCheck } from './schema/SchemaDrift';
+import type { SchemaDriftReport } from './types/SchemaTypes';
+
 // ============================================================================
 // Core Types and Interfaces
 // ============================================================================
 
 export * from './types/IntegrationTypes';
 export * from './types/MigrationTypes';
+export * from './types/SchemaTypes';
+
+// ============================================================================
+// Schema Registry
+// ============================================================================
+
+export { DATA_INTEGRATION_SCHEMA, getComponentSchema } from './schema/SchemaRegistry';
+export { checkSchemaDrift, detectSchemaDrift, runStartupSchemaCheck } from './schema/SchemaDrift';
+export { generateMigrationSql } from './schema/MigrationSql';
 
 // ============================================================================
 // Data Integration Services
@@ -117,6 +130,7 @@ export class DataIntegrationManager {
   private static instance: DataIntegrationManager;
 
   private isInitialized = false;
+  private schemaReport: SchemaDriftReport | null = null;
 
   /**
    * Get singleton instance
@@ -140,6 +154,9 @@ export class DataIntegrationManager {
     console.log('🚀 Initializing CFMEU Data Integration System...');
 
     try {
+      // Check the live schema against the registry before components use it
+      this.schemaReport = await runStartupSchemaCheck(supabase);
+
       // Initialize core services
       await Promise.all([
         dataSynchronizer.initialize(),
@@ -179,7 +196,8 @@ export class DataIntegrationManager {
       syncHealth.systemHealth,
       metricsHealth.overallStatus,
       qualityHealth.overview.overallScore >= 80 ? 'healthy' :
-      qualityHealth.overview.overallScore >= 60 ? 'degraded' : 'unhealthy'
+      qualityHealth.overview.overallScore >= 60 ? 'degraded' : 'unhealthy',
+      this.schemaReport && this.schemaReport.status !== 'ok' ? 'degraded' : 'healthy'
     ];
 
     const status = overallStatuses.includes('critical') ? 'critical' :
@@ -191,7 +209,8 @@ export class DataIntegrationManager {
       components: {
         synchronization: syncHealth,
         metrics: metricsHealth,
-        quality: qualityHealth
+        quality: qualityHealth,
+        schema: this.schemaReport
       },
       lastUpdate: new Date().toISOString()
     };
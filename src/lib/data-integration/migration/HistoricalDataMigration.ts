@@ -4,6 +4,7 @@
  */
 
 import { supabase } from '@/integrations/supabase/client';
+import { verifyComponentSchema } from '../schema/SchemaDrift';
 import { dataSynchronizer } from '../sync/DataSynchronizer';
 import { employerDataService } from '../services/EmployerDataService';
 import { projectDataService } from '../services/ProjectDataService';
@@ -111,8 +112,8 @@ export class HistoricalDataMigration {
     console.log('Initializing Historical Data Migration system...');
 
     try {
-      // Create migration tables
-      await this.createMigrationTables();
+      // Check migration tables against the schema registry
+      await verifyComponentSchema(supabase, 'historicalDataMigration');
 
       // Load existing migration pipelines
       await this.loadMigrationPipelines();
@@ -950,88 +951,6 @@ export class HistoricalDataMigration {
   // Helper Methods
   // ============================================================================
 
-  private async createMigrationTables(): Promise<void> {
-    const tables = [
-      // Migration pipelines
-      `
-        CREATE TABLE IF NOT EXISTS migration_pipelines (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          name TEXT NOT NULL,
-          description TEXT,
-          status TEXT NOT NULL,
-          phases JSONB NOT NULL,
-          current_phase INTEGER DEFAULT 0,
-          started_at TIMESTAMP WITH TIME ZONE,
-          completed_at TIMESTAMP WITH TIME ZONE,
-          total_records INTEGER DEFAULT 0,
-          processed_records INTEGER DEFAULT 0,
-          error_count INTEGER DEFAULT 0,
-          rollback_available BOOLEAN DEFAULT FALSE
-        );
-      `,
-      // Migration discovery results
-      `
-        CREATE TABLE IF NOT EXISTS migration_discovery_results (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          pipeline_id TEXT NOT NULL,
-          phase_id TEXT NOT NULL,
-          table_name TEXT NOT NULL,
-          estimated_records INTEGER,
-          actual_records INTEGER,
-          discovery_date TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-        );
-      `,
-      // Migration validation reports
-      `
-        CREATE TABLE IF NOT EXISTS migration_validation_reports (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          pipeline_id TEXT NOT NULL,
-          phase_id TEXT NOT NULL,
-          table_name TEXT NOT NULL,
-          total_records INTEGER,
-          valid_records INTEGER,
-          invalid_records INTEGER,
-          validation_details JSONB,
-          validated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-        );
-      `,
-      // Migration transformed data
-      `
-        CREATE TABLE IF NOT EXISTS migration_transformed_data (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          pipeline_id TEXT NOT NULL,
-          phase_id TEXT NOT NULL,
-          source_table TEXT NOT NULL,
-          source_record_id TEXT NOT NULL,
-          transformed_data JSONB NOT NULL,
-          transformed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-        );
-      `,
-      // Migration audit log
-      `
-        CREATE TABLE IF NOT EXISTS migration_audit_log (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          pipeline_id TEXT NOT NULL,
-          action TEXT NOT NULL,
-          actor TEXT NOT NULL,
-          object_type TEXT NOT NULL,
-          object_id TEXT NOT NULL,
-          old_values JSONB,
-          new_values JSONB,
-          timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-        );
-      `
-    ];
-
-    for (const tableSql of tables) {
-      try {
-        await supabase.rpc('execute_sql', { sql: tableSql });
-      } catch (error) {
-        console.error('Error creating migration table:', error);
-      }
-    }
-  }
-
   private async loadMigrationPipelines(): Promise<void> {
     // Implementation would load existing migration configurations
     console.log('Loading migration pipelines...');
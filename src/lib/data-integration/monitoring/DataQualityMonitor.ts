@@ -4,6 +4,13 @@
  */
 
 import { supabase } from '@/integrations/supabase/client';
+import { verifyComponentSchema } from '../schema/SchemaDrift';
+import {
+  isAuthoredRule,
+  qualityRuleFromRow,
+  qualityRuleToRow,
+  type QualityRuleRunResult
+} from './QualityRuleDefinitions';
 import { DataQualityMetrics } from '../types/IntegrationTypes';
 
 export interface DataQualityRule {
@@ -103,8 +110,8 @@ export class DataQualityMonitor {
     console.log('Initializing Data Quality Monitor...');
 
     try {
-      // Create monitoring tables
-      await this.createQualityTables();
+      // Check monitoring tables against the schema registry
+      await verifyComponentSchema(supabase, 'dataQualityMonitor');
 
       // Load default quality rules
       await this.loadDefaultQualityRules();
@@ -274,7 +281,11 @@ export class DataQualityMonitor {
         severity: string;
       }> = [];
 
-      switch (rule.ruleType) {
+      switch (isAuthoredRule(rule.parameters) ? 'authored' : rule.ruleType) {
+        case 'authored':
+          ({ score } = await this.assessAuthoredRule(rule));
+          break;
+
         case 'completeness':
           ({ score, issues } = await this.assessCompleteness(table, rule, recordCount));
           break;
@@ -319,6 +330,20 @@ export class DataQualityMonitor {
     }
   }
 
+  /**
+   * Assess a rule authored in the admin UI. The database opens and resolves
+   * its issues, so none are returned for identifyQualityIssues to record.
+   */
+  private async assessAuthoredRule(rule: DataQualityRule): Promise<{ score: number }> {
+    const { data, error } = await supabase.rpc('run_data_quality_rule', { p_rule_id: rule.id });
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const result = data as unknown as QualityRuleRunResult;
+    return { score: Number(result.score) };
+  }
+
   /**
    * Assess data completeness
    */
@@ -919,102 +944,6 @@ export class DataQualityMonitor {
   // Private Helper Methods
   // ============================================================================
 
-  private async createQualityTables(): Promise<void> {
-    const tables = [
-      // Data quality assessments
-      `
-        CREATE TABLE IF NOT EXISTS data_quality_assessments (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          table_name TEXT NOT NULL,
-          record_count INTEGER DEFAULT 0,
-          assessment_date TIMESTAMP WITH TIME ZONE NOT NULL,
-          overall_score NUMERIC NOT NULL,
-          dimension_scores JSONB NOT NULL,
-          rule_results JSONB NOT NULL,
-          trends JSONB,
-          recommendations TEXT[],
-          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-        );
-
-        CREATE INDEX IF NOT EXISTS idx_quality_assessments_table_date
-          ON data_quality_assessments(table_name, assessment_date);
-        CREATE INDEX IF NOT EXISTS idx_quality_assessments_score
-          ON data_quality_assessments(overall_score);
-      `,
-      // Data quality rules
-      `
-        CREATE TABLE IF NOT EXISTS data_quality_rules (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          name TEXT NOT NULL,
-          description TEXT,
-          table_name TEXT NOT NULL,
-          field_name TEXT,
-          rule_type TEXT NOT NULL,
-          severity TEXT NOT NULL,
-          enabled BOOLEAN DEFAULT TRUE,
-          parameters JSONB NOT NULL,
-          threshold NUMERIC DEFAULT 80,
-          weight NUMERIC DEFAULT 1.0,
-          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-        );
-
-        CREATE INDEX IF NOT EXISTS idx_quality_rules_table_enabled
-          ON data_quality_rules(table_name, enabled);
-      `,
-      // Data quality issues
-      `
-        CREATE TABLE IF NOT EXISTS data_quality_issues (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          table_name TEXT NOT NULL,
-          record_id TEXT,
-          field_name TEXT,
-          rule_id UUID REFERENCES data_quality_rules(id),
-          rule_name TEXT NOT NULL,
-          issue_type TEXT NOT NULL,
-          severity TEXT NOT NULL,
-          description TEXT NOT NULL,
-          current_value JSONB,
-          expected_value JSONB,
-          detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-          status TEXT DEFAULT 'open',
-          resolved_at TIMESTAMP WITH TIME ZONE,
-          resolved_by TEXT,
-          resolution TEXT
-        );
-
-        CREATE INDEX IF NOT EXISTS idx_quality_issues_table_severity
-          ON data_quality_issues(table_name, severity, detected_at);
-        CREATE INDEX IF NOT EXISTS idx_quality_issues_status
-          ON data_quality_issues(status, detected_at);
-      `,
-      // Data quality trends
-      `
-        CREATE TABLE IF NOT EXISTS data_quality_trends (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          table_name TEXT NOT NULL,
-          assessment_date TIMESTAMP WITH TIME ZONE NOT NULL,
-          overall_score NUMERIC NOT NULL,
-          dimension_scores JSONB NOT NULL,
-          issue_count INTEGER DEFAULT 0,
-          record_count INTEGER DEFAULT 0,
-          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-        );
-
-        CREATE INDEX IF NOT EXISTS idx_quality_trends_table_date
-          ON data_quality_trends(table_name, assessment_date);
-      `
-    ];
-
-    for (const tableSql of tables) {
-      try {
-        await supabase.rpc('execute_sql', { sql: tableSql });
-      } catch (error) {
-        console.error('Error creating quality table:', error);
-      }
-    }
-  }
-
   private async loadDefaultQualityRules(): Promise<void> {
     const defaultRules: Omit<DataQualityRule, 'id'>[] = [
       // Employer table rules
@@ -1098,27 +1027,30 @@ export class DataQualityMonitor {
 
     for (const rule of defaultRules) {
       try {
-        const { data } = await supabase
+        // Keep an existing rule so admin edits to the defaults survive restarts
+        const { data: existing } = await supabase
           .from('data_quality_rules')
-          .insert(rule)
-          .select('id')
-          .single();
+          .select('*')
+          .eq('name', rule.name)
+          .limit(1)
+          .maybeSingle();
 
-        if (data) {
-          this.qualityRules.set(data.id, { ...rule, id: data.id });
+        if (existing) {
+          this.qualityRules.set(existing.id, qualityRuleFromRow(existing));
+          continue;
         }
 
-      } catch (error) {
-        // Rule might already exist, try to load it
-        const { data } = await supabase
+        const { data, error } = await supabase
           .from('data_quality_rules')
+          .insert(qualityRuleToRow(rule))
           .select('*')
-          .eq('name', rule.name)
           .single();
 
-        if (data) {
-          this.qualityRules.set(data.id, data);
-        }
+        if (error) throw error;
+        this.qualityRules.set(data.id, qualityRuleFromRow(data));
+
+      } catch (error) {
+        console.error(`Failed to load default quality rule ${rule.name}:`, error);
       }
     }
 
@@ -1153,7 +1085,7 @@ export class DataQualityMonitor {
 
     if (rules) {
       for (const rule of rules) {
-        this.qualityRules.set(rule.id, rule);
+        this.qualityRules.set(rule.id, qualityRuleFromRow(rule));
       }
     }
 
@@ -0,0 +1,280 @@
+/**
+ * Quality Rule Definitions
+ * Rules authored in the admin UI, stored in data_quality_rules.parameters and
+ * evaluated in the database by the preview_data_quality_rule and
+ * run_data_quality_rule functions
+ */
+
+import type { Database, Json } from '@/types/database';
+import type { DataQualityRule } from './DataQualityMonitor';
+
+type DataQualityRuleRow = Database['public']['Tables']['data_quality_rules']['Row'];
+type DataQualityRuleInsert = Database['public']['Tables']['data_quality_rules']['Insert'];
+
+export type QualityRuleTable = 'projects' | 'job_sites' | 'employers' | 'workers';
+
+export const QUALITY_RULE_TABLES: Record<QualityRuleTable, string> = {
+  projects: 'Projects',
+  job_sites: 'Job sites',
+  employers: 'Employers',
+  workers: 'Workers'
+};
+
+export type RuleConditionOperator = 'eq' | 'neq' | 'in' | 'blank' | 'not_blank';
+
+export interface RuleCondition {
+  field: string;
+  operator: RuleConditionOperator;
+  /** A string for eq/neq, a list for in, unused for blank/not_blank */
+  value?: string | string[];
+}
+
+export type RuleCheck =
+  | { kind: 'required'; fields: string[] }
+  | { kind: 'allowed_values'; field: string; values: string[] }
+  | { kind: 'pattern'; field: string; pattern: string }
+  | { kind: 'unique'; field: string }
+  | { kind: 'has_related'; table: string; foreignKey: string; conditions?: RuleCondition[] };
+
+export interface QualityRuleParameters {
+  /** Rows the rule applies to; every row when empty */
+  scope?: RuleCondition[];
+  check: RuleCheck;
+}
+
+export interface QualityRulePreview {
+  total: number;
+  offending: number;
+  sample: Array<{ recordId: string; label: string | null }>;
+}
+
+export interface QualityRuleRunResult {
+  total: number;
+  offending: number;
+  created: number;
+  resolved: number;
+  score: number;
+}
+
+export interface QualityRuleTemplate {
+  key: string;
+  name: string;
+  description: string;
+  table: QualityRuleTable;
+  severity: DataQualityRule['severity'];
+  parameters: QualityRuleParameters;
+}
+
+export const QUALITY_RULE_TEMPLATES: QualityRuleTemplate[] = [
+  {
+    key: 'construction_builder',
+    name: 'Projects in construction have a builder',
+    description: 'Projects in the construction stage must have a builder assigned',
+    table: 'projects',
+    severity: 'high',
+    parameters: {
+      scope: [{ field: 'stage_class', operator: 'eq', value: 'construction' }],
+      check: {
+        kind: 'has_related',
+        table: 'v_employer_contractor_categories',
+        foreignKey: 'project_id',
+        conditions: [
+          { field: 'category_type', operator: 'eq', value: 'contractor_role' },
+          { field: 'category_code', operator: 'eq', value: 'builder' }
+        ]
+      }
+    }
+  },
+  {
+    key: 'job_site_coordinates',
+    name: 'Job sites have coordinates',
+    description: 'Job sites need a latitude and longitude to appear on maps and patches',
+    table: 'job_sites',
+    severity: 'medium',
+    parameters: { check: { kind: 'required', fields: ['latitude', 'longitude'] } }
+  },
+  {
+    key: 'employer_abn',
+    name: 'Employers have an ABN',
+    description: 'Active employers should have an ABN recorded',
+    table: 'employers',
+    severity: 'medium',
+    parameters: { check: { kind: 'required', fields: ['abn'] } }
+  },
+  {
+    key: 'worker_mobile',
+    name: 'Worker mobile numbers look valid',
+    description: 'Mobile numbers should be Australian mobile numbers',
+    table: 'workers',
+    severity: 'low',
+    parameters: { check: { kind: 'pattern', field: 'mobile_phone', pattern: '^(\\+?61|0)4[0-9 ]{8,11}$' } }
+  }
+];
+
+const IDENTIFIER = /^[a-z_][a-z0-9_]*$/;
+const OPERATORS: RuleConditionOperator[] = ['eq', 'neq', 'in', 'blank', 'not_blank'];
+
+function conditionErrors(condition: RuleCondition, label: string): string[] {
+  const errors: string[] = [];
+  if (!condition || !IDENTIFIER.test(condition.field || '')) {
+    errors.push(`${label} needs a column name`);
+    return errors;
+  }
+  if (!OPERATORS.includes(condition.operator)) {
+    errors.push(`${label} has an unknown operator`);
+  } else if (condition.operator === 'in' && (!Array.isArray(condition.value) || condition.value.length === 0)) {
+    errors.push(`${label} needs at least one value`);
+  } else if ((condition.operator === 'eq' || condition.operator === 'neq') && typeof condition.value !== 'string') {
+    errors.push(`${label} needs a value`);
+  }
+  return errors;
+}
+
+/**
+ * Problems with a rule definition, empty when it is valid. The database
+ * quotes every identifier and value itself; this catches mistakes before a
+ * preview or save rather than as SQL errors.
+ */
+export function validateQualityRuleParameters(table: string, parameters: unknown): string[] {
+  const errors: string[] = [];
+  if (!(table in QUALITY_RULE_TABLES)) {
+    errors.push(`Rules can't target ${table || 'an empty table'}`);
+  }
+
+  const params = parameters as QualityRuleParameters | null;
+  if (!params || typeof params !== 'object' || !params.check) {
+    return [...errors, 'A rule needs a check'];
+  }
+
+  (params.scope || []).forEach((condition, index) => {
+    errors.push(...conditionErrors(condition, `Scope condition ${index + 1}`));
+  });
+
+  const check = params.check;
+  switch (check.kind) {
+    case 'required':
+      if (!Array.isArray(check.fields) || check.fields.length === 0) {
+        errors.push('Pick at least one required field');
+      } else if (!check.fields.every(field => IDENTIFIER.test(field))) {
+        errors.push('Required fields must be column names');
+      }
+      break;
+
+    case 'allowed_values':
+      if (!IDENTIFIER.test(check.field || '')) errors.push('The check needs a column name');
+      if (!Array.isArray(check.values) || check.values.length === 0) errors.push('List at least one allowed value');
+      break;
+
+    case 'pattern':
+      if (!IDENTIFIER.test(check.field || '')) errors.push('The check needs a column name');
+      try {
+        new RegExp(check.pattern);
+      } catch {
+        errors.push('The pattern is not a valid regular expression');
+      }
+      if (!check.pattern) errors.push('The check needs a pattern');
+      break;
+
+    case 'unique':
+      if (!IDENTIFIER.test(check.field || '')) errors.push('The check needs a column name');
+      break;
+
+    case 'has_related':
+      if (!IDENTIFIER.test(check.table || '')) errors.push('The check needs a related table');
+      if (!IDENTIFIER.test(check.foreignKey || '')) errors.push('The check needs the related column that points at this record');
+      (check.conditions || []).forEach((condition, index) => {
+        errors.push(...conditionErrors(condition, `Related condition ${index + 1}`));
+      });
+      break;
+
+    default:
+      errors.push('Unknown check');
+  }
+
+  return errors;
+}
+
+/**
+ * Whether a rule was authored with a scope/check definition, as opposed to
+ * the monitor's built-in rules
+ */
+export function isAuthoredRule(parameters: unknown): parameters is QualityRuleParameters {
+  return !!parameters && typeof parameters === 'object' && 'check' in parameters;
+}
+
+export function ruleTypeForCheck(check: RuleCheck): DataQualityRule['ruleType'] {
+  switch (check.kind) {
+    case 'required':
+      return 'completeness';
+    case 'unique':
+      return 'uniqueness';
+    case 'has_related':
+      return 'referential';
+    default:
+      return 'validity';
+  }
+}
+
+/** Field the rule is about, for issue lists; undefined when it spans several */
+export function ruleFieldForCheck(check: RuleCheck): string | undefined {
+  if (check.kind === 'required') return check.fields.length === 1 ? check.fields[0] : undefined;
+  if (check.kind === 'has_related') return undefined;
+  return check.field;
+}
+
+export function qualityRuleFromRow(row: DataQualityRuleRow): DataQualityRule {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || '',
+    table: row.table_name,
+    field: row.field_name || undefined,
+    ruleType: row.rule_type as DataQualityRule['ruleType'],
+    severity: row.severity as DataQualityRule['severity'],
+    enabled: row.enabled ?? true,
+    parameters: (row.parameters as Record<string, any>) || {},
+    threshold: Number(row.threshold ?? 80),
+    weight: Number(row.weight ?? 1)
+  };
+}
+
+export function qualityRuleToRow(rule: Omit<DataQualityRule, 'id'>): DataQualityRuleInsert {
+  return {
+    name: rule.name,
+    description: rule.description,
+    table_name: rule.table,
+    field_name: rule.field ?? null,
+    rule_type: rule.ruleType,
+    severity: rule.severity,
+    enabled: rule.enabled,
+    parameters: rule.parameters as Json,
+    threshold: rule.threshold,
+    weight: rule.weight
+  };
+}
+
+/**
+ * Where to fix a failing record. Employers and workers have no detail page,
+ * so their lists are opened filtered to the record; job sites open their
+ * project.
+ */
+export function dataQualityRecordLink(
+  table: string,
+  recordId: string | null,
+  context: { label?: string | null; projectId?: string | null } = {}
+): string | null {
+  if (!recordId) return null;
+
+  switch (table) {
+    case 'projects':
+      return `/projects/${recordId}`;
+    case 'job_sites':
+      return context.projectId ? `/projects/${context.projectId}` : null;
+    case 'employers':
+      return `/employers?q=${encodeURIComponent(context.label || recordId)}`;
+    case 'workers':
+      return `/workers?q=${encodeURIComponent(context.label || recordId)}`;
+    default:
+      return null;
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { supabase } from '@/integrations/supabase/client';
+import { verifyComponentSchema } from '../schema/SchemaDrift';
 import {
   SyncMetrics,
   PerformanceMetrics,
@@ -113,8 +114,8 @@ export class SyncMetricsCollector {
     console.log('Initializing Sync Metrics Collector...');
 
     try {
-      // Create metrics tables
-      await this.createMetricsTables();
+      // Check metrics tables against the schema registry
+      await verifyComponentSchema(supabase, 'syncMetrics');
 
       // Setup metric collection intervals
       this.setupMetricCollectionIntervals();
@@ -396,105 +397,6 @@ export class SyncMetricsCollector {
   // Private Helper Methods
   // ============================================================================
 
-  private async createMetricsTables(): Promise<void> {
-    const tables = [
-      // Sync metrics table
-      `
-        CREATE TABLE IF NOT EXISTS sync_metrics (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          source_table TEXT NOT NULL,
-          sync_date TIMESTAMP WITH TIME ZONE NOT NULL,
-          total_records INTEGER DEFAULT 0,
-          successful_syncs INTEGER DEFAULT 0,
-          failed_syncs INTEGER DEFAULT 0,
-          average_processing_time NUMERIC DEFAULT 0,
-          data_quality_score NUMERIC DEFAULT 0,
-          conflict_count INTEGER DEFAULT 0,
-          resolution_time NUMERIC DEFAULT 0,
-          recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-        );
-
-        CREATE INDEX IF NOT EXISTS idx_sync_metrics_source_date
-          ON sync_metrics(source_table, sync_date);
-        CREATE INDEX IF NOT EXISTS idx_sync_metrics_recorded_at
-          ON sync_metrics(recorded_at);
-      `,
-      // Performance metrics table
-      `
-        CREATE TABLE IF NOT EXISTS performance_metrics (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          operation TEXT NOT NULL,
-          execution_time NUMERIC NOT NULL,
-          memory_usage NUMERIC DEFAULT 0,
-          cpu_usage NUMERIC DEFAULT 0,
-          records_processed INTEGER DEFAULT 0,
-          throughput NUMERIC DEFAULT 0,
-          timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
-          error_rate NUMERIC DEFAULT 0,
-          dimensions JSONB,
-          recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-        );
-
-        CREATE INDEX IF NOT EXISTS idx_performance_metrics_operation
-          ON performance_metrics(operation, timestamp);
-        CREATE INDEX IF NOT EXISTS idx_performance_metrics_timestamp
-          ON performance_metrics(timestamp);
-      `,
-      // Data quality metrics table
-      `
-        CREATE TABLE IF NOT EXISTS data_quality_metrics (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          table_name TEXT NOT NULL,
-          record_count INTEGER DEFAULT 0,
-          completeness_score NUMERIC DEFAULT 0,
-          accuracy_score NUMERIC DEFAULT 0,
-          consistency_score NUMERIC DEFAULT 0,
-          validity_score NUMERIC DEFAULT 0,
-          last_assessed TIMESTAMP WITH TIME ZONE NOT NULL,
-          issues JSONB,
-          recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
-        );
-
-        CREATE INDEX IF NOT EXISTS idx_data_quality_table_assessed
-          ON data_quality_metrics(table_name, last_assessed);
-        CREATE INDEX IF NOT EXISTS idx_data_quality_score
-          ON data_quality_metrics(completeness_score, accuracy_score);
-      `,
-      // Alerts table
-      `
-        CREATE TABLE IF NOT EXISTS metrics_alerts (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          alert_type TEXT NOT NULL,
-          severity TEXT NOT NULL CHECK (severity IN ('info', 'warning', 'error', 'critical')),
-          component TEXT NOT NULL,
-          message TEXT NOT NULL,
-          metric_name TEXT,
-          actual_value JSONB,
-          threshold_value JSONB,
-          triggered_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-          acknowledged BOOLEAN DEFAULT FALSE,
-          acknowledged_by TEXT,
-          acknowledged_at TIMESTAMP WITH TIME ZONE,
-          resolved BOOLEAN DEFAULT FALSE,
-          resolved_at TIMESTAMP WITH TIME ZONE
-        );
-
-        CREATE INDEX IF NOT EXISTS idx_metrics_alerts_severity
-          ON metrics_alerts(severity, triggered_at);
-        CREATE INDEX IF NOT EXISTS idx_metrics_alerts_component
-          ON metrics_alerts(component, triggered_at);
-      `
-    ];
-
-    for (const tableSql of tables) {
-      try {
-        await supabase.rpc('execute_sql', { sql: tableSql });
-      } catch (error) {
-        console.error('Error creating metrics table:', error);
-      }
-    }
-  }
-
   private setupMetricCollectionIntervals(): void {
     // Collect system metrics every 5 minutes
     setInterval(async () => {
@@ -0,0 +1,219 @@
+/**
+ * Migration SQL Generation
+ * Turns the schema registry, or just the parts the live schema is missing,
+ * into a migration for supabase/migrations
+ */
+
+import type {
+  ColumnDefinition,
+  ComponentSchema,
+  FunctionDefinition,
+  IndexDefinition,
+  SchemaDrift,
+  SchemaTriggerDefinition,
+  TableDefinition
+} from '../types/SchemaTypes';
+
+export interface MigrationSqlOptions {
+  /** Only emit objects reported missing; without it the whole registry is emitted */
+  drift?: SchemaDrift[];
+}
+
+const RULE = '-- ============================================================================';
+const SECTION_RULE = '-- ----------------------------------------------------------------------------';
+
+function literal(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function columnSql(column: ColumnDefinition): string {
+  const parts = [column.name, column.type];
+  if (column.primaryKey) {
+    parts.push('PRIMARY KEY');
+  } else if (column.nullable === false) {
+    parts.push('NOT NULL');
+  }
+  if (column.default) parts.push(`DEFAULT ${column.default}`);
+  if (column.unique) parts.push('UNIQUE');
+  if (column.references) parts.push(`REFERENCES public.${column.references}(id)`);
+  if (column.check) parts.push(`CHECK (${column.check})`);
+  return parts.join(' ');
+}
+
+function indexSql(table: TableDefinition, index: IndexDefinition): string {
+  return `CREATE INDEX IF NOT EXISTS ${index.name} ON public.${table.name} (${index.columns.join(', ')});`;
+}
+
+function tableSql(table: TableDefinition): string {
+  const lines = [
+    `CREATE TABLE IF NOT EXISTS public.${table.name} (`,
+    table.columns.map(column => `    ${columnSql(column)}`).join(',\n'),
+    ');',
+    '',
+    `COMMENT ON TABLE public.${table.name} IS ${literal(table.description)};`
+  ];
+
+  for (const index of table.indexes || []) {
+    lines.push(indexSql(table, index));
+  }
+
+  lines.push(
+    '',
+    `ALTER TABLE public.${table.name} ENABLE ROW LEVEL SECURITY;`,
+    `DROP POLICY IF EXISTS ${table.name}_authenticated_access ON public.${table.name};`,
+    `CREATE POLICY ${table.name}_authenticated_access ON public.${table.name}`,
+    '    FOR ALL TO authenticated USING (true) WITH CHECK (true);'
+  );
+
+  return lines.join('\n');
+}
+
+/** Argument types only, as COMMENT ON and GRANT need them */
+function argumentTypes(args: string): string {
+  return args
+    .split(',')
+    .map(arg => arg.trim().split(/\s+/).slice(1).join(' '))
+    .filter(Boolean)
+    .join(', ');
+}
+
+function functionSql(fn: FunctionDefinition): string {
+  const signature = `public.${fn.name}(${argumentTypes(fn.arguments)})`;
+  const lines = [
+    `CREATE OR REPLACE FUNCTION public.${fn.name}(${fn.arguments})`,
+    `RETURNS ${fn.returns}`,
+    `LANGUAGE ${fn.language}`
+  ];
+  if (fn.securityDefiner) {
+    lines.push('SECURITY DEFINER', 'SET search_path = public');
+  }
+  lines.push(`AS $$${fn.body}$$;`, '', `COMMENT ON FUNCTION ${signature} IS ${literal(fn.description)};`);
+  if (fn.callable) {
+    lines.push(`GRANT EXECUTE ON FUNCTION ${signature} TO authenticated;`);
+  } else if (fn.returns !== 'trigger') {
+    lines.push(`REVOKE EXECUTE ON FUNCTION ${signature} FROM PUBLIC, anon, authenticated;`);
+  }
+  return lines.join('\n');
+}
+
+function triggerSql(trigger: SchemaTriggerDefinition): string {
+  const lines = [
+    `DROP TRIGGER IF EXISTS ${trigger.name} ON public.${trigger.table};`,
+    `CREATE TRIGGER ${trigger.name}`,
+    `    ${trigger.timing} ${trigger.events.join(' OR ')} ON public.${trigger.table}`,
+    '    FOR EACH ROW'
+  ];
+  if (trigger.when) lines.push(`    WHEN (${trigger.when})`);
+  lines.push(`    EXECUTE FUNCTION public.${trigger.functionName}();`);
+  if (!trigger.enabled) {
+    lines.push(`ALTER TABLE public.${trigger.table} DISABLE TRIGGER ${trigger.name};`);
+  }
+  return lines.join('\n');
+}
+
+function triggerRegistrySql(triggers: SchemaTriggerDefinition[]): string {
+  const rows = triggers.map(trigger => `    (${[
+    literal(trigger.name),
+    literal(trigger.table),
+    `ARRAY[${trigger.events.map(literal).join(', ')}]`,
+    literal(trigger.functionName),
+    String(trigger.enabled),
+    String(trigger.priority),
+    trigger.when ? literal(trigger.when) : 'NULL'
+  ].join(', ')})`);
+
+  return [
+    'INSERT INTO public.database_triggers (name, table_name, events, function_name, enabled, priority, conditions)',
+    'VALUES',
+    rows.join(',\n'),
+    'ON CONFLICT (name) DO UPDATE SET',
+    '    table_name = EXCLUDED.table_name,',
+    '    events = EXCLUDED.events,',
+    '    function_name = EXCLUDED.function_name,',
+    '    enabled = EXCLUDED.enabled,',
+    '    priority = EXCLUDED.priority,',
+    '    conditions = EXCLUDED.conditions,',
+    '    updated_at = now();'
+  ].join('\n');
+}
+
+/**
+ * Migration SQL that removes a sync trigger and its database_triggers row
+ */
+export function dropTriggerSql(trigger: Pick<SchemaTriggerDefinition, 'name' | 'table'>): string {
+  return [
+    `DROP TRIGGER IF EXISTS ${trigger.name} ON public.${trigger.table};`,
+    `DELETE FROM public.database_triggers WHERE name = ${literal(trigger.name)};`,
+    ''
+  ].join('\n');
+}
+
+function section(title: string, statements: string[]): string[] {
+  return statements.length ? [SECTION_RULE, `-- ${title}`, SECTION_RULE, '', statements.join('\n\n'), ''] : [];
+}
+
+/**
+ * Migration SQL for the registry. With drift, only the missing tables,
+ * columns, functions and triggers are emitted; column type mismatches are
+ * listed as comments because converting data needs a hand-written migration.
+ */
+export function generateMigrationSql(registry: ComponentSchema[], options: MigrationSqlOptions = {}): string {
+  const { drift } = options;
+  const missing = (kind: SchemaDrift['kind'], object: string) =>
+    !drift || drift.some(entry => entry.kind === kind && entry.object === object);
+
+  const tables: string[] = [];
+  const functions: string[] = [];
+  const triggers: SchemaTriggerDefinition[] = [];
+
+  for (const schema of registry) {
+    for (const table of schema.tables) {
+      if (missing('missing_table', table.name)) {
+        tables.push(tableSql(table));
+        continue;
+      }
+      const added = new Set<string>();
+      for (const column of table.columns) {
+        if (drift && missing('missing_column', `${table.name}.${column.name}`)) {
+          tables.push(`ALTER TABLE public.${table.name} ADD COLUMN IF NOT EXISTS ${columnSql(column)};`);
+          added.add(column.name);
+        }
+      }
+      // Indexes on added columns can't exist yet either
+      for (const index of table.indexes || []) {
+        if (index.columns.some(column => added.has(column))) {
+          tables.push(indexSql(table, index));
+        }
+      }
+    }
+    functions.push(...schema.functions.filter(fn => missing('missing_function', fn.name)).map(functionSql));
+    triggers.push(...schema.triggers.filter(trigger => missing('missing_trigger', trigger.name)));
+  }
+
+  const typeMismatches = (drift || [])
+    .filter(entry => entry.kind === 'column_type')
+    .map(entry => `-- public.${entry.object} is ${entry.actual}; the registry expects ${entry.expected}`);
+
+  const header = [
+    RULE,
+    drift ? '-- Data integration schema drift' : '-- Data integration schema',
+    RULE,
+    '-- Generated from src/lib/data-integration/schema/SchemaRegistry.ts with',
+    `-- npm run generate-data-integration-migration${drift ? ' -- --drift' : ''}.`,
+    '-- Change the registry and regenerate rather than editing the SQL by hand.',
+    RULE,
+    ''
+  ];
+
+  if (drift && !tables.length && !functions.length && !triggers.length && !typeMismatches.length) {
+    return [...header, '-- The live schema matches the registry; nothing to migrate.', ''].join('\n');
+  }
+
+  return [
+    ...header,
+    ...section('Tables', tables),
+    ...section('Functions', functions),
+    ...section('Triggers', triggers.length ? [...triggers.map(triggerSql), triggerRegistrySql(triggers)] : []),
+    ...section('Column types that need a hand-written conversion', typeMismatches.length ? [typeMismatches.join('\n')] : [])
+  ].join('\n');
+}
@@ -0,0 +1,172 @@
+/**
+ * Schema Drift Detection
+ * Compares the schema registry with what exists in the database
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/database';
+import type {
+  ColumnType,
+  ComponentSchema,
+  SchemaComponent,
+  SchemaDrift,
+  SchemaDriftReport,
+  SchemaSnapshot
+} from '../types/SchemaTypes';
+import { DATA_INTEGRATION_SCHEMA } from './SchemaRegistry';
+
+/** information_schema.columns.udt_name for each registry column type */
+const UDT_NAMES: Record<ColumnType, string> = {
+  uuid: 'uuid',
+  text: 'text',
+  'text[]': '_text',
+  integer: 'int4',
+  numeric: 'numeric',
+  boolean: 'bool',
+  jsonb: 'jsonb',
+  timestamptz: 'timestamptz'
+};
+
+export function registryObjectNames(registry: ComponentSchema[]): {
+  tables: string[];
+  functions: string[];
+  triggers: string[];
+} {
+  return {
+    tables: registry.flatMap(schema => schema.tables.map(table => table.name)),
+    functions: registry.flatMap(schema => schema.functions.map(fn => fn.name)),
+    triggers: registry.flatMap(schema => schema.triggers.map(trigger => trigger.name))
+  };
+}
+
+/**
+ * Everything the registry declares that the snapshot lacks or types
+ * differently. Extra columns and disabled triggers are not drift.
+ */
+export function detectSchemaDrift(registry: ComponentSchema[], snapshot: SchemaSnapshot): SchemaDrift[] {
+  const drift: SchemaDrift[] = [];
+  const functions = new Set(snapshot.functions);
+  const triggers = new Set(snapshot.triggers.map(trigger => `${trigger.table}.${trigger.name}`));
+
+  for (const { component, tables, functions: fns, triggers: triggerDefs } of registry) {
+    for (const table of tables) {
+      const columns = snapshot.tables[table.name];
+      if (!columns) {
+        drift.push({ component, kind: 'missing_table', object: table.name });
+        continue;
+      }
+
+      for (const column of table.columns) {
+        const object = `${table.name}.${column.name}`;
+        const expected = UDT_NAMES[column.type];
+        const actual = columns[column.name];
+        if (!actual) {
+          drift.push({ component, kind: 'missing_column', object, expected });
+        } else if (actual !== expected) {
+          drift.push({ component, kind: 'column_type', object, expected, actual });
+        }
+      }
+    }
+
+    for (const fn of fns) {
+      if (!functions.has(fn.name)) {
+        drift.push({ component, kind: 'missing_function', object: fn.name });
+      }
+    }
+
+    for (const trigger of triggerDefs) {
+      if (!triggers.has(`${trigger.table}.${trigger.name}`)) {
+        drift.push({ component, kind: 'missing_trigger', object: trigger.name });
+      }
+    }
+  }
+
+  return drift;
+}
+
+export async function fetchSchemaSnapshot(
+  client: SupabaseClient<Database>,
+  registry: ComponentSchema[] = DATA_INTEGRATION_SCHEMA
+): Promise<SchemaSnapshot> {
+  const names = registryObjectNames(registry);
+  const { data, error } = await client.rpc('get_data_integration_schema_snapshot', {
+    p_tables: names.tables,
+    p_functions: names.functions,
+    p_triggers: names.triggers
+  });
+
+  if (error) {
+    throw new Error(`Could not read the data integration schema: ${error.message}`);
+  }
+
+  const snapshot = (data || {}) as Partial<SchemaSnapshot>;
+  return {
+    tables: snapshot.tables || {},
+    functions: snapshot.functions || [],
+    triggers: snapshot.triggers || []
+  };
+}
+
+export async function checkSchemaDrift(
+  client: SupabaseClient<Database>,
+  registry: ComponentSchema[] = DATA_INTEGRATION_SCHEMA
+): Promise<SchemaDriftReport> {
+  const checkedAt = new Date().toISOString();
+
+  try {
+    const drift = detectSchemaDrift(registry, await fetchSchemaSnapshot(client, registry));
+    return { checkedAt, status: drift.length ? 'drift' : 'ok', drift };
+  } catch (error) {
+    return {
+      checkedAt,
+      status: 'error',
+      drift: [],
+      error: error instanceof Error ? error.message : 'Schema check failed'
+    };
+  }
+}
+
+// ============================================================================
+// Startup Check
+// ============================================================================
+
+let startupCheck: Promise<SchemaDriftReport> | null = null;
+
+/**
+ * Checks the live schema once per process; components share the result
+ */
+export function runStartupSchemaCheck(client: SupabaseClient<Database>): Promise<SchemaDriftReport> {
+  if (!startupCheck) {
+    startupCheck = checkSchemaDrift(client).then(report => {
+      if (report.status === 'error') {
+        console.warn(`Data integration schema check failed: ${report.error}`);
+      } else if (report.status === 'drift') {
+        console.warn(
+          `Data integration schema has drifted from the registry (${report.drift.length} objects). ` +
+          'Generate a migration with: npm run generate-data-integration-migration -- --drift'
+        );
+      }
+      return report;
+    });
+  }
+  return startupCheck;
+}
+
+/**
+ * Drift affecting one component, from the startup check. Components keep
+ * running against a drifted schema; the affected features fail until the
+ * migration is applied.
+ */
+export async function verifyComponentSchema(
+  client: SupabaseClient<Database>,
+  component: SchemaComponent
+): Promise<SchemaDrift[]> {
+  const report = await runStartupSchemaCheck(client);
+  const drift = report.drift.filter(entry => entry.component === component);
+
+  for (const entry of drift) {
+    console.warn(`[${component}] schema drift: ${entry.kind} ${entry.object}`);
+  }
+
+  return drift;
+}
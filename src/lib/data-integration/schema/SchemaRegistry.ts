@@ -0,0 +1,890 @@
+/**
+ * Data Integration Schema Registry
+ * Declares the tables, functions and triggers each data integration component
+ * needs. Migrations are generated from these definitions and the live schema is
+ * checked against them on startup; components never run DDL themselves.
+ */
+
+import type {
+  ColumnDefinition,
+  ComponentSchema,
+  FunctionDefinition,
+  SchemaComponent,
+  SchemaTriggerDefinition,
+  TableDefinition
+} from '../types/SchemaTypes';
+
+const id: ColumnDefinition = { name: 'id', type: 'uuid', primaryKey: true, default: 'gen_random_uuid()' };
+
+function timestamp(name: string, nullable = true): ColumnDefinition {
+  return nullable
+    ? { name, type: 'timestamptz', default: 'now()' }
+    : { name, type: 'timestamptz', nullable: false };
+}
+
+// ============================================================================
+// Schema Registry
+// ============================================================================
+
+const schemaRegistryFunctions: FunctionDefinition[] = [
+  {
+    name: 'get_data_integration_schema_snapshot',
+    description: 'Columns, functions and triggers that exist for the named data integration objects, for drift checks',
+    arguments: 'p_tables text[], p_functions text[], p_triggers text[]',
+    returns: 'jsonb',
+    language: 'sql',
+    securityDefiner: true,
+    callable: true,
+    body: `
+  SELECT jsonb_build_object(
+    'tables', COALESCE((
+      SELECT jsonb_object_agg(t.table_name, t.columns)
+      FROM (
+        SELECT c.table_name, jsonb_object_agg(c.column_name, c.udt_name) AS columns
+        FROM information_schema.columns c
+        WHERE c.table_schema = 'public'
+          AND c.table_name = ANY (p_tables)
+        GROUP BY c.table_name
+      ) t
+    ), '{}'::jsonb),
+    'functions', COALESCE((
+      SELECT jsonb_agg(DISTINCT p.proname)
+      FROM pg_proc p
+      JOIN pg_namespace n ON n.oid = p.pronamespace
+      WHERE n.nspname = 'public'
+        AND p.proname = ANY (p_functions)
+    ), '[]'::jsonb),
+    'triggers', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', tg.tgname,
+        'table', cl.relname,
+        'enabled', tg.tgenabled <> 'D'
+      ))
+      FROM pg_trigger tg
+      JOIN pg_class cl ON cl.oid = tg.tgrelid
+      JOIN pg_namespace n ON n.oid = cl.relnamespace
+      WHERE n.nspname = 'public'
+        AND NOT tg.tgisinternal
+        AND tg.tgname = ANY (p_triggers)
+    ), '[]'::jsonb)
+  );
+`
+  }
+];
+
+// ============================================================================
+// Data Quality Monitor
+// ============================================================================
+
+const dataQualityTables: TableDefinition[] = [
+  {
+    name: 'data_quality_assessments',
+    description: 'Scored data quality assessments per table',
+    columns: [
+      id,
+      { name: 'table_name', type: 'text', nullable: false },
+      { name: 'record_count', type: 'integer', default: '0' },
+      timestamp('assessment_date', false),
+      { name: 'overall_score', type: 'numeric', nullable: false },
+      { name: 'dimension_scores', type: 'jsonb', nullable: false },
+      { name: 'rule_results', type: 'jsonb', nullable: false },
+      { name: 'trends', type: 'jsonb' },
+      { name: 'recommendations', type: 'text[]' },
+      timestamp('created_at')
+    ],
+    indexes: [
+      { name: 'idx_quality_assessments_table_date', columns: ['table_name', 'assessment_date'] },
+      { name: 'idx_quality_assessments_score', columns: ['overall_score'] }
+    ]
+  },
+  {
+    name: 'data_quality_rules',
+    description: 'Configurable data quality rules evaluated by the quality monitor',
+    columns: [
+      id,
+      { name: 'name', type: 'text', nullable: false },
+      { name: 'description', type: 'text' },
+      { name: 'table_name', type: 'text', nullable: false },
+      { name: 'field_name', type: 'text' },
+      { name: 'rule_type', type: 'text', nullable: false },
+      { name: 'severity', type: 'text', nullable: false },
+      { name: 'enabled', type: 'boolean', default: 'true' },
+      { name: 'parameters', type: 'jsonb', nullable: false },
+      { name: 'threshold', type: 'numeric', default: '80' },
+      { name: 'weight', type: 'numeric', default: '1.0' },
+      timestamp('created_at'),
+      timestamp('updated_at')
+    ],
+    indexes: [
+      { name: 'idx_quality_rules_table_enabled', columns: ['table_name', 'enabled'] }
+    ]
+  },
+  {
+    name: 'data_quality_issues',
+    description: 'Individual records that failed a data quality rule',
+    columns: [
+      id,
+      { name: 'table_name', type: 'text', nullable: false },
+      { name: 'record_id', type: 'text' },
+      { name: 'field_name', type: 'text' },
+      { name: 'rule_id', type: 'uuid', references: 'data_quality_rules' },
+      { name: 'rule_name', type: 'text', nullable: false },
+      { name: 'issue_type', type: 'text', nullable: false },
+      { name: 'severity', type: 'text', nullable: false },
+      { name: 'description', type: 'text', nullable: false },
+      { name: 'current_value', type: 'jsonb' },
+      { name: 'expected_value', type: 'jsonb' },
+      timestamp('detected_at'),
+      { name: 'status', type: 'text', default: "'open'" },
+      { name: 'resolved_at', type: 'timestamptz' },
+      { name: 'resolved_by', type: 'text' },
+      { name: 'resolution', type: 'text' },
+      { name: 'record_label', type: 'text' },
+      { name: 'record_context', type: 'jsonb' },
+      { name: 'assigned_to', type: 'uuid', references: 'profiles' },
+      { name: 'assigned_by', type: 'uuid', references: 'profiles' },
+      { name: 'assigned_at', type: 'timestamptz' }
+    ],
+    indexes: [
+      { name: 'idx_quality_issues_table_severity', columns: ['table_name', 'severity', 'detected_at'] },
+      { name: 'idx_quality_issues_status', columns: ['status', 'detected_at'] },
+      { name: 'idx_quality_issues_assigned_to', columns: ['assigned_to', 'status'] }
+    ]
+  },
+  {
+    name: 'data_quality_trends',
+    description: 'Quality score history used for trend analysis',
+    columns: [
+      id,
+      { name: 'table_name', type: 'text', nullable: false },
+      timestamp('assessment_date', false),
+      { name: 'overall_score', type: 'numeric', nullable: false },
+      { name: 'dimension_scores', type: 'jsonb', nullable: false },
+      { name: 'issue_count', type: 'integer', default: '0' },
+      { name: 'record_count', type: 'integer', default: '0' },
+      timestamp('created_at')
+    ],
+    indexes: [
+      { name: 'idx_quality_trends_table_date', columns: ['table_name', 'assessment_date'] }
+    ]
+  }
+];
+
+// Rules authored in the admin UI are stored as data: a scope (which rows the
+// rule applies to) and a check. These functions turn them into SQL with every
+// identifier and value quoted by format(), so rule definitions never reach the
+// database as raw SQL.
+const dataQualityFunctions: FunctionDefinition[] = [
+  {
+    name: 'data_quality_condition_sql',
+    description: 'SQL predicate for one data quality rule condition on the given table alias',
+    arguments: 'p_alias text, p_condition jsonb',
+    returns: 'text',
+    language: 'plpgsql',
+    body: `
+DECLARE
+  v_column text;
+  v_values text[];
+BEGIN
+  IF COALESCE(p_condition ->> 'field', '') = '' THEN
+    RAISE EXCEPTION 'Data quality conditions need a field'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  v_column := format('%I.%I', p_alias, p_condition ->> 'field');
+
+  CASE p_condition ->> 'operator'
+    WHEN 'eq' THEN
+      RETURN format('%s::text = %L', v_column, p_condition ->> 'value');
+    WHEN 'neq' THEN
+      RETURN format('%s::text IS DISTINCT FROM %L', v_column, p_condition ->> 'value');
+    WHEN 'in' THEN
+      SELECT array_agg(value) INTO v_values
+      FROM jsonb_array_elements_text(COALESCE(p_condition -> 'value', '[]'::jsonb)) AS value;
+      RETURN format('%s::text = ANY (%L::text[])', v_column, COALESCE(v_values, ARRAY[]::text[]));
+    WHEN 'blank' THEN
+      RETURN format('NULLIF(btrim(%s::text), '''') IS NULL', v_column);
+    WHEN 'not_blank' THEN
+      RETURN format('NULLIF(btrim(%s::text), '''') IS NOT NULL', v_column);
+    ELSE
+      RAISE EXCEPTION 'Unknown data quality condition operator: %', p_condition ->> 'operator'
+        USING ERRCODE = 'invalid_parameter_value';
+  END CASE;
+END;
+`
+  },
+  {
+    name: 'build_data_quality_rule_query',
+    description: 'Query returning record_id and record for rows in the rule scope, or only the rows failing its check',
+    arguments: 'p_table text, p_parameters jsonb, p_violations_only boolean',
+    returns: 'text',
+    language: 'plpgsql',
+    body: `
+DECLARE
+  v_check jsonb := p_parameters -> 'check';
+  v_field text := p_parameters -> 'check' ->> 'field';
+  v_where text[] := ARRAY['true'];
+  v_related text[];
+  v_condition jsonb;
+  v_violation text;
+BEGIN
+  IF to_regclass(format('public.%I', p_table)) IS NULL THEN
+    RAISE EXCEPTION 'Unknown table: %', p_table
+      USING ERRCODE = 'undefined_table';
+  END IF;
+
+  FOR v_condition IN
+    SELECT * FROM jsonb_array_elements(COALESCE(p_parameters -> 'scope', '[]'::jsonb))
+  LOOP
+    v_where := v_where || public.data_quality_condition_sql('t', v_condition);
+  END LOOP;
+
+  IF p_violations_only THEN
+    IF v_check ->> 'kind' IN ('allowed_values', 'pattern', 'unique') AND COALESCE(v_field, '') = '' THEN
+      RAISE EXCEPTION 'The % check needs a field', v_check ->> 'kind'
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    CASE v_check ->> 'kind'
+      WHEN 'required' THEN
+        SELECT string_agg(
+          public.data_quality_condition_sql('t', jsonb_build_object('field', field, 'operator', 'blank')),
+          ' OR '
+        ) INTO v_violation
+        FROM jsonb_array_elements_text(COALESCE(v_check -> 'fields', '[]'::jsonb)) AS field;
+      WHEN 'allowed_values' THEN
+        v_violation := format(
+          't.%I IS NOT NULL AND NOT (%s)',
+          v_field,
+          public.data_quality_condition_sql('t', jsonb_build_object('field', v_field, 'operator', 'in', 'value', v_check -> 'values'))
+        );
+      WHEN 'pattern' THEN
+        v_violation := format(
+          'NULLIF(btrim(t.%I::text), '''') IS NOT NULL AND t.%I::text !~ %L',
+          v_field, v_field, v_check ->> 'pattern'
+        );
+      WHEN 'unique' THEN
+        v_violation := format(
+          't.%I IS NOT NULL AND EXISTS (SELECT 1 FROM public.%I d WHERE d.%I = t.%I AND d.id <> t.id)',
+          v_field, p_table, v_field, v_field
+        );
+      WHEN 'has_related' THEN
+        IF to_regclass(format('public.%I', v_check ->> 'table')) IS NULL
+          OR COALESCE(v_check ->> 'foreignKey', '') = '' THEN
+          RAISE EXCEPTION 'The has_related check needs a known table and foreign key'
+            USING ERRCODE = 'invalid_parameter_value';
+        END IF;
+
+        v_related := ARRAY[format('r.%I = t.id', v_check ->> 'foreignKey')];
+        FOR v_condition IN
+          SELECT * FROM jsonb_array_elements(COALESCE(v_check -> 'conditions', '[]'::jsonb))
+        LOOP
+          v_related := v_related || public.data_quality_condition_sql('r', v_condition);
+        END LOOP;
+
+        v_violation := format(
+          'NOT EXISTS (SELECT 1 FROM public.%I r WHERE %s)',
+          v_check ->> 'table',
+          array_to_string(v_related, ' AND ')
+        );
+      ELSE
+        RAISE EXCEPTION 'Unknown data quality check: %', v_check ->> 'kind'
+          USING ERRCODE = 'invalid_parameter_value';
+    END CASE;
+
+    IF v_violation IS NULL THEN
+      RAISE EXCEPTION 'The % check has nothing to test', v_check ->> 'kind'
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    v_where := v_where || format('(%s)', v_violation);
+  END IF;
+
+  RETURN format(
+    'SELECT t.id::text AS record_id, to_jsonb(t) AS record FROM public.%I t WHERE %s',
+    p_table,
+    array_to_string(v_where, ' AND ')
+  );
+END;
+`
+  },
+  {
+    name: 'data_quality_record_label',
+    description: 'Human readable label for a record returned by a data quality rule',
+    arguments: 'p_record jsonb',
+    returns: 'text',
+    language: 'sql',
+    body: `
+  SELECT COALESCE(
+    NULLIF(p_record ->> 'name', ''),
+    NULLIF(concat_ws(' ', p_record ->> 'first_name', p_record ->> 'surname'), ''),
+    NULLIF(p_record ->> 'full_name', ''),
+    NULLIF(p_record ->> 'location', ''),
+    p_record ->> 'id'
+  );
+`
+  },
+  {
+    name: 'preview_data_quality_rule',
+    description: 'Counts rows in scope and rows failing an unsaved data quality rule, with a sample. Admin only',
+    arguments: 'p_table text, p_parameters jsonb, p_sample_size integer',
+    returns: 'jsonb',
+    language: 'plpgsql',
+    securityDefiner: true,
+    callable: true,
+    body: `
+DECLARE
+  v_total bigint;
+  v_offending bigint;
+  v_sample jsonb;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - admin role required'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  EXECUTE format('SELECT count(*) FROM (%s) q', public.build_data_quality_rule_query(p_table, p_parameters, false))
+    INTO v_total;
+  EXECUTE format('SELECT count(*) FROM (%s) q', public.build_data_quality_rule_query(p_table, p_parameters, true))
+    INTO v_offending;
+  EXECUTE format(
+    'SELECT COALESCE(jsonb_agg(jsonb_build_object(''recordId'', q.record_id, ''label'', public.data_quality_record_label(q.record))), ''[]''::jsonb)
+     FROM (%s LIMIT %s) q',
+    public.build_data_quality_rule_query(p_table, p_parameters, true),
+    GREATEST(0, LEAST(COALESCE(p_sample_size, 10), 50))
+  ) INTO v_sample;
+
+  RETURN jsonb_build_object('total', v_total, 'offending', v_offending, 'sample', v_sample);
+END;
+`
+  },
+  {
+    name: 'run_data_quality_rule',
+    description: 'Evaluates a saved data quality rule, opening an issue per failing record and resolving issues that now pass. Admin or service role only',
+    arguments: 'p_rule_id uuid',
+    returns: 'jsonb',
+    language: 'plpgsql',
+    securityDefiner: true,
+    callable: true,
+    body: `
+DECLARE
+  v_rule public.data_quality_rules%ROWTYPE;
+  v_query text;
+  v_fields text[];
+  v_total bigint;
+  v_offending bigint;
+  v_created bigint;
+  v_resolved integer;
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - admin role required'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_rule FROM public.data_quality_rules WHERE id = p_rule_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Data quality rule % not found', p_rule_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  v_query := public.build_data_quality_rule_query(v_rule.table_name, v_rule.parameters, true);
+
+  SELECT array_agg(DISTINCT field) INTO v_fields
+  FROM (
+    SELECT jsonb_array_elements_text(COALESCE(v_rule.parameters -> 'check' -> 'fields', '[]'::jsonb)) AS field
+    UNION ALL SELECT v_rule.parameters -> 'check' ->> 'field'
+    UNION ALL SELECT v_rule.field_name
+  ) checked
+  WHERE field IS NOT NULL;
+
+  EXECUTE format('SELECT count(*) FROM (%s) q', public.build_data_quality_rule_query(v_rule.table_name, v_rule.parameters, true))
+    INTO v_offending;
+  EXECUTE format('SELECT count(*) FROM (%s) q', public.build_data_quality_rule_query(v_rule.table_name, v_rule.parameters, false))
+    INTO v_total;
+
+  EXECUTE format($run$
+    WITH inserted AS (
+      INSERT INTO public.data_quality_issues (
+        table_name, record_id, record_label, record_context, field_name, rule_id, rule_name,
+        issue_type, severity, description, current_value, status
+      )
+      SELECT
+        $1, v.record_id, public.data_quality_record_label(v.record),
+        jsonb_strip_nulls(jsonb_build_object('project_id', v.record -> 'project_id')),
+        $2, $3, $4, 'quality_rule_violation', $5, $6,
+        (SELECT jsonb_object_agg(f.field, v.record -> f.field) FROM unnest($7::text[]) AS f(field)),
+        'open'
+      FROM (%s) v
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.data_quality_issues i
+        WHERE i.rule_id = $3
+          AND i.record_id = v.record_id
+          AND i.status IN ('open', 'investigating')
+      )
+      RETURNING 1
+    )
+    SELECT count(*) FROM inserted
+  $run$, v_query)
+  INTO v_created
+  USING v_rule.table_name, v_rule.field_name, v_rule.id, v_rule.name, v_rule.severity,
+        COALESCE(v_rule.description, v_rule.name), COALESCE(v_fields, ARRAY[]::text[]);
+
+  EXECUTE format($run$
+    UPDATE public.data_quality_issues i
+    SET status = 'resolved',
+        resolved_at = now(),
+        resolution = 'No longer fails the rule'
+    WHERE i.rule_id = $1
+      AND i.status IN ('open', 'investigating')
+      AND NOT EXISTS (SELECT 1 FROM (%s) v WHERE v.record_id = i.record_id)
+  $run$, v_query)
+  USING v_rule.id;
+  GET DIAGNOSTICS v_resolved = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'total', v_total,
+    'offending', v_offending,
+    'created', v_created,
+    'resolved', v_resolved,
+    'score', CASE WHEN v_total > 0 THEN round(100.0 * (v_total - v_offending) / v_total, 2) ELSE 100 END
+  );
+END;
+`
+  }
+];
+
+// ============================================================================
+// Sync Metrics
+// ============================================================================
+
+const syncMetricsTables: TableDefinition[] = [
+  {
+    name: 'sync_metrics',
+    description: 'Per-table synchronisation throughput and error counts',
+    columns: [
+      id,
+      { name: 'source_table', type: 'text', nullable: false },
+      timestamp('sync_date', false),
+      { name: 'total_records', type: 'integer', default: '0' },
+      { name: 'successful_syncs', type: 'integer', default: '0' },
+      { name: 'failed_syncs', type: 'integer', default: '0' },
+      { name: 'average_processing_time', type: 'numeric', default: '0' },
+      { name: 'data_quality_score', type: 'numeric', default: '0' },
+      { name: 'conflict_count', type: 'integer', default: '0' },
+      { name: 'resolution_time', type: 'numeric', default: '0' },
+      timestamp('recorded_at')
+    ],
+    indexes: [
+      { name: 'idx_sync_metrics_source_date', columns: ['source_table', 'sync_date'] },
+      { name: 'idx_sync_metrics_recorded_at', columns: ['recorded_at'] }
+    ]
+  },
+  {
+    name: 'performance_metrics',
+    description: 'Timing and resource usage of data integration operations',
+    columns: [
+      id,
+      { name: 'operation', type: 'text', nullable: false },
+      { name: 'execution_time', type: 'numeric', nullable: false },
+      { name: 'memory_usage', type: 'numeric', default: '0' },
+      { name: 'cpu_usage', type: 'numeric', default: '0' },
+      { name: 'records_processed', type: 'integer', default: '0' },
+      { name: 'throughput', type: 'numeric', default: '0' },
+      timestamp('timestamp', false),
+      { name: 'error_rate', type: 'numeric', default: '0' },
+      { name: 'dimensions', type: 'jsonb' },
+      timestamp('recorded_at')
+    ],
+    indexes: [
+      { name: 'idx_performance_metrics_operation', columns: ['operation', 'timestamp'] },
+      { name: 'idx_performance_metrics_timestamp', columns: ['timestamp'] }
+    ]
+  },
+  {
+    name: 'data_quality_metrics',
+    description: 'Quality dimension scores recorded alongside sync metrics',
+    columns: [
+      id,
+      { name: 'table_name', type: 'text', nullable: false },
+      { name: 'record_count', type: 'integer', default: '0' },
+      { name: 'completeness_score', type: 'numeric', default: '0' },
+      { name: 'accuracy_score', type: 'numeric', default: '0' },
+      { name: 'consistency_score', type: 'numeric', default: '0' },
+      { name: 'validity_score', type: 'numeric', default: '0' },
+      timestamp('last_assessed', false),
+      { name: 'issues', type: 'jsonb' },
+      timestamp('recorded_at')
+    ],
+    indexes: [
+      { name: 'idx_data_quality_table_assessed', columns: ['table_name', 'last_assessed'] },
+      { name: 'idx_data_quality_score', columns: ['completeness_score', 'accuracy_score'] }
+    ]
+  },
+  {
+    name: 'metrics_alerts',
+    description: 'Alerts raised when sync or performance metrics cross their thresholds',
+    columns: [
+      id,
+      { name: 'alert_type', type: 'text', nullable: false },
+      {
+        name: 'severity',
+        type: 'text',
+        nullable: false,
+        check: "severity IN ('info', 'warning', 'error', 'critical')"
+      },
+      { name: 'component', type: 'text', nullable: false },
+      { name: 'message', type: 'text', nullable: false },
+      { name: 'metric_name', type: 'text' },
+      { name: 'actual_value', type: 'jsonb' },
+      { name: 'threshold_value', type: 'jsonb' },
+      timestamp('triggered_at'),
+      { name: 'acknowledged', type: 'boolean', default: 'false' },
+      { name: 'acknowledged_by', type: 'text' },
+      { name: 'acknowledged_at', type: 'timestamptz' },
+      { name: 'resolved', type: 'boolean', default: 'false' },
+      { name: 'resolved_at', type: 'timestamptz' }
+    ],
+    indexes: [
+      { name: 'idx_metrics_alerts_severity', columns: ['severity', 'triggered_at'] },
+      { name: 'idx_metrics_alerts_component', columns: ['component', 'triggered_at'] }
+    ]
+  }
+];
+
+// ============================================================================
+// Real-time Triggers
+// ============================================================================
+
+const realtimeTriggerTables: TableDefinition[] = [
+  {
+    name: 'sync_events',
+    description: 'Row changes captured by the sync triggers for incremental sync',
+    columns: [
+      id,
+      { name: 'event_id', type: 'text', nullable: false, unique: true },
+      { name: 'table_name', type: 'text', nullable: false },
+      {
+        name: 'operation',
+        type: 'text',
+        nullable: false,
+        check: "operation IN ('INSERT', 'UPDATE', 'DELETE')"
+      },
+      { name: 'record_id', type: 'text', nullable: false },
+      { name: 'old_data', type: 'jsonb' },
+      { name: 'new_data', type: 'jsonb' },
+      { name: 'changed_fields', type: 'text[]' },
+      timestamp('event_timestamp'),
+      { name: 'processed', type: 'boolean', default: 'false' },
+      { name: 'processed_at', type: 'timestamptz' },
+      { name: 'error', type: 'text' }
+    ],
+    indexes: [
+      { name: 'idx_sync_events_table_processed', columns: ['table_name', 'processed', 'event_timestamp'] },
+      { name: 'idx_sync_events_record', columns: ['table_name', 'record_id'] }
+    ]
+  },
+  {
+    name: 'sync_errors',
+    description: 'Changes the sync triggers failed to record',
+    columns: [
+      id,
+      { name: 'error_id', type: 'text', nullable: false, unique: true },
+      { name: 'table_name', type: 'text', nullable: false },
+      { name: 'record_id', type: 'text', nullable: false },
+      { name: 'operation', type: 'text', nullable: false },
+      { name: 'error_message', type: 'text', nullable: false },
+      { name: 'error_details', type: 'jsonb' },
+      timestamp('error_timestamp'),
+      { name: 'resolved', type: 'boolean', default: 'false' },
+      { name: 'resolved_at', type: 'timestamptz' }
+    ],
+    indexes: [
+      { name: 'idx_sync_errors_table_resolved', columns: ['table_name', 'resolved', 'error_timestamp'] }
+    ]
+  },
+  {
+    name: 'database_triggers',
+    description: 'Registered sync triggers and whether each is enabled',
+    columns: [
+      id,
+      { name: 'name', type: 'text', nullable: false, unique: true },
+      { name: 'table_name', type: 'text', nullable: false },
+      { name: 'events', type: 'text[]', nullable: false },
+      { name: 'function_name', type: 'text', nullable: false },
+      { name: 'enabled', type: 'boolean', default: 'true' },
+      { name: 'priority', type: 'integer', default: '0' },
+      { name: 'conditions', type: 'text' },
+      timestamp('created_at'),
+      timestamp('updated_at')
+    ],
+    indexes: [
+      { name: 'idx_database_triggers_table_enabled', columns: ['table_name', 'enabled'] }
+    ]
+  }
+];
+
+const realtimeTriggerFunctions: FunctionDefinition[] = [
+  {
+    name: 'log_sync_event',
+    description: 'Records one row change in sync_events, or in sync_errors if it cannot be recorded',
+    arguments: 'p_table_name text, p_operation text, p_record_id text, p_old_data jsonb, p_new_data jsonb',
+    returns: 'void',
+    language: 'plpgsql',
+    securityDefiner: true,
+    body: `
+DECLARE
+  v_changed_fields text[];
+  v_event_id text := 'sync_event_' || EXTRACT(EPOCH FROM clock_timestamp())::text || '_' || substr(md5(random()::text), 1, 8);
+BEGIN
+  IF p_operation = 'UPDATE' AND p_old_data IS NOT NULL AND p_new_data IS NOT NULL THEN
+    SELECT ARRAY_AGG(key) INTO v_changed_fields
+    FROM jsonb_object_keys(p_new_data) AS key
+    WHERE p_new_data -> key IS DISTINCT FROM p_old_data -> key;
+  END IF;
+
+  INSERT INTO public.sync_events (
+    event_id, table_name, operation, record_id, old_data, new_data, changed_fields, event_timestamp, processed
+  ) VALUES (
+    v_event_id, p_table_name, p_operation, p_record_id, p_old_data, p_new_data,
+    COALESCE(v_changed_fields, ARRAY[]::text[]), now(), false
+  );
+EXCEPTION WHEN OTHERS THEN
+  -- Never fail the write that fired the trigger
+  INSERT INTO public.sync_errors (
+    error_id, table_name, record_id, operation, error_message, error_timestamp
+  ) VALUES (
+    'error_' || v_event_id, p_table_name, COALESCE(p_record_id, ''), p_operation, SQLERRM, now()
+  );
+END;
+`
+  },
+  {
+    name: 'capture_sync_event',
+    description: 'Trigger function shared by the sync triggers; passes the changed row to log_sync_event',
+    arguments: '',
+    returns: 'trigger',
+    language: 'plpgsql',
+    securityDefiner: true,
+    body: `
+DECLARE
+  v_old jsonb := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  v_new jsonb := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+BEGIN
+  PERFORM public.log_sync_event(
+    TG_TABLE_NAME,
+    TG_OP,
+    COALESCE(v_new ->> 'id', v_old ->> 'id'),
+    v_old,
+    v_new
+  );
+  RETURN NULL;
+END;
+`
+  },
+  {
+    name: 'set_sync_trigger_enabled',
+    description: 'Enables or disables a registered sync trigger. Admin only',
+    arguments: 'p_trigger_name text, p_enabled boolean',
+    returns: 'void',
+    language: 'plpgsql',
+    securityDefiner: true,
+    callable: true,
+    body: `
+DECLARE
+  v_table_name text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - admin role required'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT table_name INTO v_table_name
+  FROM public.database_triggers
+  WHERE name = p_trigger_name;
+
+  IF v_table_name IS NULL THEN
+    RAISE EXCEPTION 'Trigger % is not a registered sync trigger', p_trigger_name
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  EXECUTE format(
+    'ALTER TABLE public.%I %s TRIGGER %I',
+    v_table_name,
+    CASE WHEN p_enabled THEN 'ENABLE' ELSE 'DISABLE' END,
+    p_trigger_name
+  );
+
+  UPDATE public.database_triggers
+  SET enabled = p_enabled,
+      updated_at = now()
+  WHERE name = p_trigger_name;
+END;
+`
+  }
+];
+
+const syncTrigger = (
+  table: string,
+  events: SchemaTriggerDefinition['events'],
+  priority: number
+): SchemaTriggerDefinition => ({
+  name: `${table}_trigger`,
+  table,
+  timing: 'AFTER',
+  events,
+  functionName: 'capture_sync_event',
+  // Each trigger adds a write to every change on a core table, so admins
+  // switch them on once incremental sync is consuming sync_events
+  enabled: false,
+  priority
+});
+
+const realtimeTriggerDefinitions: SchemaTriggerDefinition[] = [
+  syncTrigger('employers', ['INSERT', 'UPDATE', 'DELETE'], 100),
+  syncTrigger('projects', ['INSERT', 'UPDATE', 'DELETE'], 90),
+  syncTrigger('project_assignments', ['INSERT', 'UPDATE', 'DELETE'], 85),
+  syncTrigger('employer_compliance_checks', ['INSERT', 'UPDATE'], 80),
+  syncTrigger('site_visit', ['INSERT', 'UPDATE'], 75),
+  syncTrigger('company_eba_records', ['INSERT', 'UPDATE', 'DELETE'], 70)
+];
+
+// ============================================================================
+// Historical Data Migration
+// ============================================================================
+
+const historicalMigrationTables: TableDefinition[] = [
+  {
+    name: 'migration_pipelines',
+    description: 'Historical data migration pipelines and their progress',
+    columns: [
+      id,
+      { name: 'name', type: 'text', nullable: false },
+      { name: 'description', type: 'text' },
+      { name: 'status', type: 'text', nullable: false },
+      { name: 'phases', type: 'jsonb', nullable: false },
+      { name: 'current_phase', type: 'integer', default: '0' },
+      { name: 'started_at', type: 'timestamptz' },
+      { name: 'completed_at', type: 'timestamptz' },
+      { name: 'total_records', type: 'integer', default: '0' },
+      { name: 'processed_records', type: 'integer', default: '0' },
+      { name: 'error_count', type: 'integer', default: '0' },
+      { name: 'rollback_available', type: 'boolean', default: 'false' }
+    ]
+  },
+  {
+    name: 'migration_discovery_results',
+    description: 'Record counts found while discovering source tables for a migration phase',
+    columns: [
+      id,
+      { name: 'pipeline_id', type: 'text', nullable: false },
+      { name: 'phase_id', type: 'text', nullable: false },
+      { name: 'table_name', type: 'text', nullable: false },
+      { name: 'estimated_records', type: 'integer' },
+      { name: 'actual_records', type: 'integer' },
+      timestamp('discovery_date')
+    ]
+  },
+  {
+    name: 'migration_validation_reports',
+    description: 'Validation results for migrated records per phase and table',
+    columns: [
+      id,
+      { name: 'pipeline_id', type: 'text', nullable: false },
+      { name: 'phase_id', type: 'text', nullable: false },
+      { name: 'table_name', type: 'text', nullable: false },
+      { name: 'total_records', type: 'integer' },
+      { name: 'valid_records', type: 'integer' },
+      { name: 'invalid_records', type: 'integer' },
+      { name: 'validation_details', type: 'jsonb' },
+      timestamp('validated_at')
+    ]
+  },
+  {
+    name: 'migration_transformed_data',
+    description: 'Transformed records staged between migration phases',
+    columns: [
+      id,
+      { name: 'pipeline_id', type: 'text', nullable: false },
+      { name: 'phase_id', type: 'text', nullable: false },
+      { name: 'source_table', type: 'text', nullable: false },
+      { name: 'source_record_id', type: 'text', nullable: false },
+      { name: 'transformed_data', type: 'jsonb', nullable: false },
+      timestamp('transformed_at')
+    ]
+  },
+  {
+    name: 'migration_audit_log',
+    description: 'Audit trail of actions taken by migration pipelines',
+    columns: [
+      id,
+      { name: 'pipeline_id', type: 'text', nullable: false },
+      { name: 'action', type: 'text', nullable: false },
+      { name: 'actor', type: 'text', nullable: false },
+      { name: 'object_type', type: 'text', nullable: false },
+      { name: 'object_id', type: 'text', nullable: false },
+      { name: 'old_values', type: 'jsonb' },
+      { name: 'new_values', type: 'jsonb' },
+      timestamp('timestamp')
+    ]
+  }
+];
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export const DATA_INTEGRATION_SCHEMA: ComponentSchema[] = [
+  {
+    component: 'schemaRegistry',
+    tables: [],
+    functions: schemaRegistryFunctions,
+    triggers: []
+  },
+  {
+    component: 'dataQualityMonitor',
+    tables: dataQualityTables,
+    functions: dataQualityFunctions,
+    triggers: []
+  },
+  {
+    component: 'syncMetrics',
+    tables: syncMetricsTables,
+    functions: [],
+    triggers: []
+  },
+  {
+    component: 'realtimeTriggers',
+    tables: realtimeTriggerTables,
+    functions: realtimeTriggerFunctions,
+    triggers: realtimeTriggerDefinitions
+  },
+  {
+    component: 'historicalDataMigration',
+    tables: historicalMigrationTables,
+    functions: [],
+    triggers: []
+  }
+];
+
+export function getComponentSchema(
+  component: SchemaComponent,
+  registry: ComponentSchema[] = DATA_INTEGRATION_SCHEMA
+): ComponentSchema {
+  const schema = registry.find(entry => entry.component === component);
+  if (!schema) {
+    throw new Error(`No schema registered for component: ${component}`);
+  }
+  return schema;
+}
@@ -5,6 +5,7 @@
  */
 
 import { supabase } from '@/integrations/supabase/client';
+import { isValidAbn } from '@/lib/employers/abn';
 import {
   LegacyEmployer,
   EmployerRatingData,
@@ -361,7 +362,7 @@ export class EmployerDataService {
       }
 
       if (data.employer.abn && !this.isValidABN(data.employer.abn)) {
-        errors.push('Invalid ABN format');
+        errors.push('Invalid ABN - fails the ATO checksum');
       }
 
       // Validate rating data
@@ -721,9 +722,8 @@ export class EmployerDataService {
   }
 
   private isValidABN(abn: string): boolean {
-    // Basic ABN validation - 11 digits
-    const abnRegex = /^(\d{11})$/;
-    return abnRegex.test(abn.replace(/\s/g, ''));
+    // Same ATO checksum the employers table enforces on write
+    return isValidAbn(abn);
   }
 
   private generateRatingId(legacyId: string): string {
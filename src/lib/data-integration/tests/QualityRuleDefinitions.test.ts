@@ -0,0 +1,105 @@
+/**
+ * Tests for admin-authored data quality rule definitions
+ *
+ * Run with: npm test src/lib/data-integration/tests/QualityRuleDefinitions.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  QUALITY_RULE_TEMPLATES,
+  dataQualityRecordLink,
+  isAuthoredRule,
+  qualityRuleFromRow,
+  ruleFieldForCheck,
+  ruleTypeForCheck,
+  validateQualityRuleParameters
+} from '../monitoring/QualityRuleDefinitions';
+
+describe('validateQualityRuleParameters', () => {
+  it('accepts every template', () => {
+    for (const template of QUALITY_RULE_TEMPLATES) {
+      expect(validateQualityRuleParameters(template.table, template.parameters)).toEqual([]);
+    }
+  });
+
+  it('rejects tables rules cannot target', () => {
+    expect(validateQualityRuleParameters('profiles', { check: { kind: 'required', fields: ['email'] } }))
+      .toEqual(["Rules can't target profiles"]);
+  });
+
+  it('rejects column names that are not plain identifiers', () => {
+    expect(validateQualityRuleParameters('projects', {
+      scope: [{ field: 'stage_class; drop table projects', operator: 'eq', value: 'construction' }],
+      check: { kind: 'required', fields: ['builder_id'] }
+    })).toEqual(['Scope condition 1 needs a column name']);
+  });
+
+  it('requires values for comparisons and a valid pattern', () => {
+    expect(validateQualityRuleParameters('workers', {
+      scope: [{ field: 'union_membership_status', operator: 'in', value: [] }],
+      check: { kind: 'pattern', field: 'mobile_phone', pattern: '([' }
+    })).toEqual(['Scope condition 1 needs at least one value', 'The pattern is not a valid regular expression']);
+  });
+
+  it('requires a check', () => {
+    expect(validateQualityRuleParameters('projects', { scope: [] })).toEqual(['A rule needs a check']);
+  });
+});
+
+describe('rule metadata', () => {
+  it('maps checks to quality dimensions and fields', () => {
+    expect(ruleTypeForCheck({ kind: 'required', fields: ['latitude', 'longitude'] })).toBe('completeness');
+    expect(ruleTypeForCheck({ kind: 'has_related', table: 'project_assignments', foreignKey: 'project_id' })).toBe('referential');
+    expect(ruleTypeForCheck({ kind: 'allowed_values', field: 'stage_class', values: ['future'] })).toBe('validity');
+    expect(ruleFieldForCheck({ kind: 'required', fields: ['abn'] })).toBe('abn');
+    expect(ruleFieldForCheck({ kind: 'required', fields: ['latitude', 'longitude'] })).toBeUndefined();
+  });
+
+  it('tells authored rules from built-in ones', () => {
+    expect(isAuthoredRule({ check: { kind: 'unique', field: 'abn' } })).toBe(true);
+    expect(isAuthoredRule({ requiredFields: ['name'] })).toBe(false);
+  });
+
+  it('maps snake_case rows to rules', () => {
+    expect(qualityRuleFromRow({
+      id: 'r1',
+      name: 'Job sites have coordinates',
+      description: null,
+      table_name: 'job_sites',
+      field_name: null,
+      rule_type: 'completeness',
+      severity: 'medium',
+      enabled: null,
+      parameters: { check: { kind: 'required', fields: ['latitude'] } },
+      threshold: 95,
+      weight: null,
+      created_at: null,
+      updated_at: null
+    })).toEqual({
+      id: 'r1',
+      name: 'Job sites have coordinates',
+      description: '',
+      table: 'job_sites',
+      field: undefined,
+      ruleType: 'completeness',
+      severity: 'medium',
+      enabled: true,
+      parameters: { check: { kind: 'required', fields: ['latitude'] } },
+      threshold: 95,
+      weight: 1
+    });
+  });
+});
+
+describe('dataQualityRecordLink', () => {
+  it('links projects directly and job sites through their project', () => {
+    expect(dataQualityRecordLink('projects', 'p1')).toBe('/projects/p1');
+    expect(dataQualityRecordLink('job_sites', 's1', { projectId: 'p1' })).toBe('/projects/p1');
+    expect(dataQualityRecordLink('job_sites', 's1')).toBeNull();
+  });
+
+  it('searches lists for records without a detail page', () => {
+    expect(dataQualityRecordLink('employers', 'e1', { label: 'Acme & Sons' })).toBe('/employers?q=Acme%20%26%20Sons');
+    expect(dataQualityRecordLink('workers', 'w1')).toBe('/workers?q=w1');
+  });
+});
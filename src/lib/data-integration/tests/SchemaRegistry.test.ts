@@ -0,0 +1,150 @@
+/**
+ * Tests for the data integration schema registry, drift detection and
+ * migration SQL generation
+ *
+ * Run with: npm test src/lib/data-integration/tests/SchemaRegistry.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { generateMigrationSql } from '../schema/MigrationSql';
+import { detectSchemaDrift, registryObjectNames } from '../schema/SchemaDrift';
+import { DATA_INTEGRATION_SCHEMA, getComponentSchema } from '../schema/SchemaRegistry';
+import type { SchemaSnapshot } from '../types/SchemaTypes';
+
+const UDT_NAMES: Record<string, string> = {
+  uuid: 'uuid',
+  text: 'text',
+  'text[]': '_text',
+  integer: 'int4',
+  numeric: 'numeric',
+  boolean: 'bool',
+  jsonb: 'jsonb',
+  timestamptz: 'timestamptz'
+};
+
+function fullSnapshot(): SchemaSnapshot {
+  const tables: SchemaSnapshot['tables'] = {};
+  for (const schema of DATA_INTEGRATION_SCHEMA) {
+    for (const table of schema.tables) {
+      tables[table.name] = Object.fromEntries(table.columns.map(column => [column.name, UDT_NAMES[column.type]]));
+    }
+  }
+
+  return {
+    tables,
+    functions: registryObjectNames(DATA_INTEGRATION_SCHEMA).functions,
+    triggers: DATA_INTEGRATION_SCHEMA.flatMap(schema =>
+      schema.triggers.map(trigger => ({ name: trigger.name, table: trigger.table, enabled: false }))
+    )
+  };
+}
+
+describe('schema registry', () => {
+  it('declares every object once and only references registered trigger functions', () => {
+    const names = registryObjectNames(DATA_INTEGRATION_SCHEMA);
+    expect(new Set(names.tables).size).toBe(names.tables.length);
+    expect(new Set(names.functions).size).toBe(names.functions.length);
+    expect(new Set(names.triggers).size).toBe(names.triggers.length);
+
+    for (const trigger of getComponentSchema('realtimeTriggers').triggers) {
+      expect(names.functions).toContain(trigger.functionName);
+    }
+  });
+
+  it('throws for an unregistered component', () => {
+    expect(() => getComponentSchema('syncMetrics', [])).toThrow('No schema registered for component: syncMetrics');
+  });
+});
+
+describe('detectSchemaDrift', () => {
+  it('reports nothing when the live schema matches', () => {
+    expect(detectSchemaDrift(DATA_INTEGRATION_SCHEMA, fullSnapshot())).toEqual([]);
+  });
+
+  it('reports missing objects and column type changes by component', () => {
+    const snapshot = fullSnapshot();
+    delete snapshot.tables.metrics_alerts;
+    delete snapshot.tables.sync_events.changed_fields;
+    snapshot.tables.migration_pipelines.current_phase = 'text';
+    snapshot.functions = snapshot.functions.filter(name => name !== 'log_sync_event');
+    snapshot.triggers = snapshot.triggers.filter(trigger => trigger.name !== 'site_visit_trigger');
+
+    expect(detectSchemaDrift(DATA_INTEGRATION_SCHEMA, snapshot)).toEqual([
+      { component: 'syncMetrics', kind: 'missing_table', object: 'metrics_alerts' },
+      { component: 'realtimeTriggers', kind: 'missing_column', object: 'sync_events.changed_fields', expected: '_text' },
+      { component: 'realtimeTriggers', kind: 'missing_function', object: 'log_sync_event' },
+      { component: 'realtimeTriggers', kind: 'missing_trigger', object: 'site_visit_trigger' },
+      {
+        component: 'historicalDataMigration',
+        kind: 'column_type',
+        object: 'migration_pipelines.current_phase',
+        expected: 'int4',
+        actual: 'text'
+      }
+    ]);
+  });
+
+  it('does not count disabled triggers or extra columns as drift', () => {
+    const snapshot = fullSnapshot();
+    snapshot.tables.sync_metrics.extra_column = 'text';
+
+    expect(detectSchemaDrift(DATA_INTEGRATION_SCHEMA, snapshot)).toEqual([]);
+  });
+});
+
+describe('generateMigrationSql', () => {
+  it('emits every registered object with sync triggers disabled', () => {
+    const sql = generateMigrationSql(DATA_INTEGRATION_SCHEMA);
+
+    for (const name of registryObjectNames(DATA_INTEGRATION_SCHEMA).tables) {
+      expect(sql).toContain(`CREATE TABLE IF NOT EXISTS public.${name} (`);
+    }
+    expect(sql).toContain('rule_id uuid REFERENCES public.data_quality_rules(id)');
+    expect(sql).toContain("severity text NOT NULL CHECK (severity IN ('info', 'warning', 'error', 'critical'))");
+    expect(sql).toContain('CREATE OR REPLACE FUNCTION public.capture_sync_event()');
+    expect(sql).toContain('REVOKE EXECUTE ON FUNCTION public.log_sync_event(text, text, text, jsonb, jsonb) FROM PUBLIC, anon, authenticated;');
+    expect(sql).toContain('GRANT EXECUTE ON FUNCTION public.set_sync_trigger_enabled(text, boolean) TO authenticated;');
+    expect(sql).toContain('AFTER INSERT OR UPDATE ON public.employer_compliance_checks');
+    expect(sql).toContain('ALTER TABLE public.employers DISABLE TRIGGER employers_trigger;');
+    expect(sql).not.toContain('execute_sql');
+  });
+
+  it('emits only drifted objects when given drift', () => {
+    const sql = generateMigrationSql(DATA_INTEGRATION_SCHEMA, {
+      drift: [
+        { component: 'realtimeTriggers', kind: 'missing_column', object: 'sync_events.changed_fields', expected: '_text' },
+        { component: 'realtimeTriggers', kind: 'missing_trigger', object: 'site_visit_trigger' },
+        {
+          component: 'historicalDataMigration',
+          kind: 'column_type',
+          object: 'migration_pipelines.current_phase',
+          expected: 'int4',
+          actual: 'text'
+        }
+      ]
+    });
+
+    expect(sql).toContain('ALTER TABLE public.sync_events ADD COLUMN IF NOT EXISTS changed_fields text[];');
+    expect(sql).toContain('CREATE TRIGGER site_visit_trigger');
+    expect(sql).toContain("('site_visit_trigger', 'site_visit', ARRAY['INSERT', 'UPDATE'], 'capture_sync_event', false, 75, NULL)");
+    expect(sql).toContain('-- public.migration_pipelines.current_phase is text; the registry expects int4');
+    expect(sql).not.toContain('CREATE TABLE');
+    expect(sql).not.toContain('CREATE OR REPLACE FUNCTION');
+    expect(sql).not.toContain('CREATE TRIGGER employers_trigger');
+  });
+
+  it('adds indexes on columns added to existing tables', () => {
+    const sql = generateMigrationSql(DATA_INTEGRATION_SCHEMA, {
+      drift: [{ component: 'dataQualityMonitor', kind: 'missing_column', object: 'data_quality_issues.assigned_to', expected: 'uuid' }]
+    });
+
+    expect(sql).toContain('ADD COLUMN IF NOT EXISTS assigned_to uuid REFERENCES public.profiles(id);');
+    expect(sql).toContain('CREATE INDEX IF NOT EXISTS idx_quality_issues_assigned_to ON public.data_quality_issues (assigned_to, status);');
+    expect(sql).not.toContain('idx_quality_issues_status ');
+  });
+
+  it('says there is nothing to migrate when nothing drifted', () => {
+    expect(generateMigrationSql(DATA_INTEGRATION_SCHEMA, { drift: [] }))
+      .toContain('The live schema matches the registry; nothing to migrate.');
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Types for the declarative registry of database objects the data
+ * integration components depend on
+ */
+
+// ============================================================================
+// Object Definitions
+// ============================================================================
+
+export type SchemaComponent =
+  | 'schemaRegistry'
+  | 'dataQualityMonitor'
+  | 'syncMetrics'
+  | 'realtimeTriggers'
+  | 'historicalDataMigration';
+
+export type ColumnType =
+  | 'uuid'
+  | 'text'
+  | 'text[]'
+  | 'integer'
+  | 'numeric'
+  | 'boolean'
+  | 'jsonb'
+  | 'timestamptz';
+
+export interface ColumnDefinition {
+  name: string;
+  type: ColumnType;
+  /** Columns are nullable unless this is false or the column is the primary key */
+  nullable?: boolean;
+  /** SQL default expression */
+  default?: string;
+  primaryKey?: boolean;
+  unique?: boolean;
+  /** Referenced table; the reference is to its id column */
+  references?: string;
+  check?: string;
+}
+
+export interface IndexDefinition {
+  name: string;
+  columns: string[];
+}
+
+export interface TableDefinition {
+  name: string;
+  description: string;
+  columns: ColumnDefinition[];
+  indexes?: IndexDefinition[];
+}
+
+export interface FunctionDefinition {
+  name: string;
+  description: string;
+  /** Argument list as it appears in the signature, e.g. `p_id text, p_op text` */
+  arguments: string;
+  returns: string;
+  language: 'sql' | 'plpgsql';
+  securityDefiner?: boolean;
+  /** Whether signed-in users may call it through RPC */
+  callable?: boolean;
+  body: string;
+}
+
+export interface SchemaTriggerDefinition {
+  name: string;
+  table: string;
+  timing: 'BEFORE' | 'AFTER';
+  events: Array<'INSERT' | 'UPDATE' | 'DELETE'>;
+  /** Function returning trigger, called without arguments */
+  functionName: string;
+  /** Condition placed in the WHEN clause */
+  when?: string;
+  /** Whether the migration leaves the trigger enabled */
+  enabled: boolean;
+  /** Ordering hint kept in database_triggers */
+  priority: number;
+}
+
+export interface ComponentSchema {
+  component: SchemaComponent;
+  tables: TableDefinition[];
+  functions: FunctionDefinition[];
+  triggers: SchemaTriggerDefinition[];
+}
+
+// ============================================================================
+// Live Schema and Drift
+// ============================================================================
+
+/**
+ * What get_data_integration_schema_snapshot reports for the registered objects
+ */
+export interface SchemaSnapshot {
+  /** Table name to column name to Postgres udt_name */
+  tables: Record<string, Record<string, string>>;
+  functions: string[];
+  triggers: Array<{ name: string; table: string; enabled: boolean }>;
+}
+
+export type SchemaDriftKind =
+  | 'missing_table'
+  | 'missing_column'
+  | 'column_type'
+  | 'missing_function'
+  | 'missing_trigger';
+
+export interface SchemaDrift {
+  component: SchemaComponent;
+  kind: SchemaDriftKind;
+  /** `table`, `table.column`, function or trigger name */
+  object: string;
+  expected?: string;
+  actual?: string;
+}
+
+export interface SchemaDriftReport {
+  checkedAt: string;
+  status: 'ok' | 'drift' | 'error';
+  drift: SchemaDrift[];
+  error?: string;
+}
@@ -0,0 +1,86 @@
+/**
+ * Tests for the direct-debit conversion funnel
+ *
+ * Run with: npm test src/lib/dd-conversion/__tests__/funnel.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { buildConversionFunnel, UNASSIGNED_GROUP, type DdConversionAttemptRow } from '../funnel'
+
+function attempt(overrides: Partial<DdConversionAttemptRow>): DdConversionAttemptRow {
+  return {
+    worker_id: 'w1',
+    method_code: 'paper_form',
+    outcome_code: 'declined',
+    created_at: '2026-01-10T00:00:00Z',
+    organiser_id: 'o1',
+    patch_ids: ['p1'],
+    campaign_ids: [],
+    ...overrides,
+  }
+}
+
+describe('buildConversionFunnel', () => {
+  it('should count each worker once at their furthest stage', () => {
+    const { totals } = buildConversionFunnel(
+      [
+        attempt({ worker_id: 'w1', outcome_code: 'declined', created_at: '2026-01-01T00:00:00Z' }),
+        attempt({ worker_id: 'w1', outcome_code: 'follow_up', created_at: '2026-01-05T00:00:00Z' }),
+        attempt({ worker_id: 'w1', outcome_code: 'converted', method_code: 'qr_code', created_at: '2026-01-09T00:00:00Z' }),
+        attempt({ worker_id: 'w2', outcome_code: 'follow_up' }),
+        attempt({ worker_id: 'w3', outcome_code: 'declined' }),
+      ],
+      'organiser'
+    )
+
+    expect(totals).toEqual({
+      attempts: 5,
+      approached: 3,
+      interested: 2,
+      converted: 1,
+      conversionRate: 1 / 3,
+      convertedByMethod: { qr_code: 1 },
+    })
+  })
+
+  it('should leave out workers already on direct debit or not eligible', () => {
+    const { totals } = buildConversionFunnel(
+      [
+        attempt({ worker_id: 'w1', outcome_code: 'already_direct_debit' }),
+        attempt({ worker_id: 'w2', outcome_code: 'not_eligible' }),
+        attempt({ worker_id: 'w3', outcome_code: 'converted' }),
+      ],
+      'organiser'
+    )
+
+    expect(totals.approached).toBe(1)
+    expect(totals.conversionRate).toBe(1)
+  })
+
+  it('should count an attempt towards every patch its site is in', () => {
+    const { groups } = buildConversionFunnel(
+      [
+        attempt({ worker_id: 'w1', outcome_code: 'converted', patch_ids: ['p1', 'p2'] }),
+        attempt({ worker_id: 'w2', outcome_code: 'declined', patch_ids: ['p2'] }),
+      ],
+      'patch'
+    )
+
+    expect(groups.map((group) => [group.key, group.approached, group.converted])).toEqual([
+      ['p2', 2, 1],
+      ['p1', 1, 1],
+    ])
+  })
+
+  it('should group attempts outside any campaign as unassigned', () => {
+    const { groups } = buildConversionFunnel(
+      [
+        attempt({ worker_id: 'w1', campaign_ids: ['c1'] }),
+        attempt({ worker_id: 'w2', campaign_ids: null }),
+      ],
+      'campaign'
+    )
+
+    expect(groups.map((group) => group.key).sort()).toEqual(['c1', UNASSIGNED_GROUP])
+  })
+})
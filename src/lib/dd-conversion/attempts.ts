@@ -0,0 +1,48 @@
+/**
+ * Recording direct-debit conversion attempts against a site visit
+ */
+
+import { supabase } from '@/integrations/supabase/client'
+import type { DdMethodCode, DdOutcomeCode } from './codes'
+
+export interface DdConversionDraft {
+  /** Stored as client_generated_id so saving twice records the attempt once */
+  clientId: string
+  workerId: string
+  methodCode: DdMethodCode
+  outcomeCode: DdOutcomeCode
+  notes: string
+}
+
+export function createDdConversionDraft(workerId: string): DdConversionDraft {
+  return {
+    clientId: crypto.randomUUID(),
+    workerId,
+    methodCode: 'paper_form',
+    outcomeCode: 'converted',
+    notes: '',
+  }
+}
+
+/**
+ * Save attempts for a visit. Converted workers are moved to direct debit by
+ * a trigger on dd_conversion_attempt.
+ */
+export async function saveDdConversionAttempts(visitId: string, drafts: DdConversionDraft[]): Promise<void> {
+  if (drafts.length === 0) return
+
+  const rows = drafts.map((draft) => ({
+    site_visit_id: visitId,
+    worker_id: draft.workerId,
+    method_code: draft.methodCode,
+    outcome_code: draft.outcomeCode,
+    notes: draft.notes.trim() || null,
+    client_generated_id: draft.clientId,
+  }))
+
+  const { error } = await supabase
+    .from('dd_conversion_attempt')
+    .upsert(rows, { onConflict: 'client_generated_id', ignoreDuplicates: true })
+
+  if (error) throw error
+}
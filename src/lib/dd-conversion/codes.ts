@@ -0,0 +1,34 @@
+/**
+ * Direct-debit conversion method and outcome codes
+ *
+ * Must match the CHECK constraints on dd_conversion_attempt.
+ */
+
+export const DD_METHODS = [
+  { code: 'paper_form', label: 'Paper form on site' },
+  { code: 'online_link', label: 'Online sign-up link' },
+  { code: 'qr_code', label: 'QR code' },
+  { code: 'phone_follow_up', label: 'Phone follow-up' },
+] as const
+
+export const DD_OUTCOMES = [
+  { code: 'converted', label: 'Converted to direct debit' },
+  { code: 'follow_up', label: 'Interested, follow up' },
+  { code: 'declined', label: 'Declined' },
+  { code: 'already_direct_debit', label: 'Already on direct debit' },
+  { code: 'not_eligible', label: 'Not eligible' },
+] as const
+
+export type DdMethodCode = typeof DD_METHODS[number]['code']
+export type DdOutcomeCode = typeof DD_OUTCOMES[number]['code']
+
+// Outcomes that take a worker out of the funnel rather than counting as a miss
+export const EXCLUDED_OUTCOMES: ReadonlySet<string> = new Set(['already_direct_debit', 'not_eligible'])
+
+export function getDdMethodLabel(code: string): string {
+  return DD_METHODS.find((method) => method.code === code)?.label ?? code
+}
+
+export function getDdOutcomeLabel(code: string): string {
+  return DD_OUTCOMES.find((outcome) => outcome.code === code)?.label ?? code
+}
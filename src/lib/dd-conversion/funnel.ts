@@ -0,0 +1,122 @@
+/**
+ * Direct-debit conversion funnel
+ *
+ * Counts workers rather than attempts: a worker approached on three visits
+ * who converted on the last counts once, at their furthest stage. Workers who
+ * were already on direct debit or not eligible drop out of the funnel.
+ *
+ *   approached  workers asked at least once
+ *   interested  workers who converted or asked to be followed up
+ *   converted   workers who signed up to direct debit
+ */
+
+import { EXCLUDED_OUTCOMES } from './codes'
+
+export type FunnelGroupBy = 'organiser' | 'patch' | 'campaign'
+
+export const UNASSIGNED_GROUP = 'unassigned'
+
+export interface DdConversionAttemptRow {
+  worker_id: string
+  method_code: string
+  outcome_code: string
+  created_at: string
+  organiser_id: string | null
+  patch_ids: string[] | null
+  campaign_ids: string[] | null
+}
+
+export interface ConversionFunnelCounts {
+  attempts: number
+  approached: number
+  interested: number
+  converted: number
+  /** converted / approached, 0 when nobody was approached */
+  conversionRate: number
+  /** Converted workers by the method of their converting attempt */
+  convertedByMethod: Record<string, number>
+}
+
+export interface ConversionFunnelGroup extends ConversionFunnelCounts {
+  key: string
+}
+
+const OUTCOME_RANK: Record<string, number> = {
+  converted: 3,
+  follow_up: 2,
+  declined: 1,
+}
+
+// Excluded and unknown outcomes rank below any real stage
+function rankOf(row: DdConversionAttemptRow): number {
+  return EXCLUDED_OUTCOMES.has(row.outcome_code) ? 0 : OUTCOME_RANK[row.outcome_code] ?? 0
+}
+
+function groupKeys(row: DdConversionAttemptRow, groupBy: FunnelGroupBy): string[] {
+  const keys =
+    groupBy === 'organiser'
+      ? [row.organiser_id]
+      : groupBy === 'patch'
+        ? row.patch_ids ?? []
+        : row.campaign_ids ?? []
+  const present = keys.filter((key): key is string => Boolean(key))
+  return present.length > 0 ? present : [UNASSIGNED_GROUP]
+}
+
+function countFunnel(rows: DdConversionAttemptRow[]): ConversionFunnelCounts {
+  // Furthest attempt per worker; ties go to the earliest so the method that converted them is kept
+  const furthest = new Map<string, DdConversionAttemptRow>()
+  const ordered = [...rows].sort((a, b) => a.created_at.localeCompare(b.created_at))
+  for (const row of ordered) {
+    const current = furthest.get(row.worker_id)
+    if (!current || rankOf(row) > rankOf(current)) furthest.set(row.worker_id, row)
+  }
+
+  let approached = 0
+  let interested = 0
+  let converted = 0
+  const convertedByMethod: Record<string, number> = {}
+
+  furthest.forEach((row) => {
+    if (rankOf(row) === 0) return
+    approached += 1
+    if (row.outcome_code === 'follow_up' || row.outcome_code === 'converted') interested += 1
+    if (row.outcome_code === 'converted') {
+      converted += 1
+      convertedByMethod[row.method_code] = (convertedByMethod[row.method_code] ?? 0) + 1
+    }
+  })
+
+  return {
+    attempts: rows.length,
+    approached,
+    interested,
+    converted,
+    conversionRate: approached > 0 ? converted / approached : 0,
+    convertedByMethod,
+  }
+}
+
+/**
+ * Funnel per organiser, patch or campaign, plus totals across all attempts.
+ * An attempt on a site in two patches counts towards both, so group counts
+ * can add up to more than the totals.
+ */
+export function buildConversionFunnel(
+  rows: DdConversionAttemptRow[],
+  groupBy: FunnelGroupBy
+): { groups: ConversionFunnelGroup[]; totals: ConversionFunnelCounts } {
+  const byGroup = new Map<string, DdConversionAttemptRow[]>()
+  for (const row of rows) {
+    for (const key of groupKeys(row, groupBy)) {
+      if (!byGroup.has(key)) byGroup.set(key, [])
+      byGroup.get(key)!.push(row)
+    }
+  }
+
+  const groups = Array.from(byGroup.entries())
+    .map(([key, groupRows]) => ({ key, ...countFunnel(groupRows) }))
+    .sort((a, b) => b.converted - a.converted || b.approached - a.approached)
+
+  return { groups, totals: countFunnel(rows) }
+}
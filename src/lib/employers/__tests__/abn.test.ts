@@ -0,0 +1,111 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for ABN validation, lookup clients and trading-name aliases
+ *
+ * Run with: npm test src/lib/employers/__tests__/abn.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { formatAbn, isBlankOrValidAbn, isValidAbn, normalizeAbn } from '../abn'
+import { abnAliasCandidates } from '../abnEnrichment'
+import { createAbnLookupClient, createAbrLookupClient, createFixtureAbnLookupClient } from '../abnLookup'
+
+describe('isValidAbn', () => {
+  it('accepts ABNs that pass the ATO checksum however they are spaced', () => {
+    expect(isValidAbn('51824753556')).toBe(true)
+    expect(isValidAbn('51 824 753 556')).toBe(true)
+    expect(isValidAbn('53-004-085-616')).toBe(true)
+  })
+
+  it('rejects wrong lengths, letters and failed checksums', () => {
+    expect(isValidAbn('51824753557')).toBe(false)
+    expect(isValidAbn('5182475355')).toBe(false)
+    expect(isValidAbn('5182475355A')).toBe(false)
+    expect(isValidAbn('00000000000')).toBe(false)
+    expect(isValidAbn('')).toBe(false)
+    expect(isValidAbn(null)).toBe(false)
+  })
+
+  it('treats blank optional fields as valid', () => {
+    expect(isBlankOrValidAbn('  ')).toBe(true)
+    expect(isBlankOrValidAbn(undefined)).toBe(true)
+    expect(isBlankOrValidAbn('12 345 678 901')).toBe(false)
+  })
+})
+
+describe('normalizeAbn and formatAbn', () => {
+  it('stores bare digits and displays the register grouping', () => {
+    expect(normalizeAbn(' 51 824 753 556 ')).toBe('51824753556')
+    expect(normalizeAbn('')).toBeNull()
+    expect(formatAbn('51824753556')).toBe('51 824 753 556')
+    expect(formatAbn('not an abn')).toBe('not an abn')
+  })
+})
+
+describe('ABN lookup clients', () => {
+  it('serves fixtures when no ABR GUID is configured', async () => {
+    const client = createAbnLookupClient({})
+    expect(client.name).toBe('fixture')
+
+    const details = await client.lookup('90 551 661 605')
+    expect(details?.legalName).toBe('Harbourside Formwork Pty Ltd')
+    expect(details?.tradingNames).toEqual(['Harbourside Forming', 'HSF Concrete'])
+    expect(details?.gstRegistered).toBe(true)
+    expect(await client.lookup('51824753556')).toBeNull()
+  })
+
+  it('requires a GUID for the ABR provider', () => {
+    expect(() => createAbnLookupClient({ ABN_LOOKUP_PROVIDER: 'abr' })).toThrow('ABR_GUID is not configured')
+    expect(createAbnLookupClient({ ABR_GUID: 'guid' }).name).toBe('abr')
+  })
+
+  it('reads the ABR JSONP response', async () => {
+    const requests: string[] = []
+    const fakeFetch = (async (url: string) => {
+      requests.push(url)
+      const body = url.includes('abn=51824753556')
+        ? {
+            Abn: '51824753556',
+            AbnStatus: 'Active',
+            EntityName: 'AUSTRALIAN TAXATION OFFICE ',
+            EntityTypeName: 'Commonwealth Government Entity',
+            BusinessName: ['ATO'],
+            Gst: '2000-07-01',
+            AddressState: 'ACT',
+            AddressPostcode: '2600',
+            Message: '',
+          }
+        : { Abn: '', BusinessName: [], Message: 'Search text is not a valid ABN or ACN' }
+      return new Response(`abnCallback(${JSON.stringify(body)})`)
+    }) as unknown as typeof fetch
+
+    const client = createAbrLookupClient('test-guid', fakeFetch)
+    const details = await client.lookup('51 824 753 556')
+
+    expect(requests[0]).toContain('guid=test-guid')
+    expect(details).toMatchObject({
+      abn: '51824753556',
+      legalName: 'AUSTRALIAN TAXATION OFFICE',
+      tradingNames: ['ATO'],
+      gstRegistered: true,
+      gstRegisteredFrom: '2000-07-01',
+      status: 'active',
+    })
+    expect(await client.lookup('53004085616')).toBeNull()
+  })
+})
+
+describe('abnAliasCandidates', () => {
+  it('keeps trading and legal names that differ from the employer name', async () => {
+    const details = await createFixtureAbnLookupClient().lookup('28322761077')
+
+    expect(abnAliasCandidates('Nguyen Tiling Pty Ltd', details!).map(({ alias }) => alias)).toEqual([
+      'The Trustee for J & M Nguyen Family Trust',
+    ])
+    expect(abnAliasCandidates('JM Nguyen', details!).map(({ alias }) => alias)).toEqual([
+      'Nguyen Tiling',
+      'The Trustee for J & M Nguyen Family Trust',
+    ])
+  })
+})
@@ -0,0 +1,51 @@
+/**
+ * Australian Business Number checks shared by every employer write path.
+ * The database enforces the same checksum in `public.is_valid_abn`.
+ */
+
+const ABN_WEIGHTS = [10, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19]
+
+export const INVALID_ABN_MESSAGE = 'ABN is not valid - check the 11 digits'
+
+/**
+ * Strips the spaces and punctuation people type into ABNs. Returns null for
+ * blank input so optional ABN fields can be written straight to the column.
+ */
+export function normalizeAbn(value: string | null | undefined): string | null {
+  if (!value) return null
+  const digits = value.replace(/[\s\-.]/g, '')
+  return digits.length > 0 ? digits : null
+}
+
+/**
+ * ATO checksum: subtract 1 from the first digit, weight each digit and the
+ * total must divide by 89.
+ */
+export function isValidAbn(value: string | null | undefined): boolean {
+  const abn = normalizeAbn(value)
+  if (!abn || !/^\d{11}$/.test(abn)) return false
+  if (abn[0] === '0') return false
+
+  const sum = ABN_WEIGHTS.reduce((total, weight, index) => {
+    const digit = Number(abn[index]) - (index === 0 ? 1 : 0)
+    return total + digit * weight
+  }, 0)
+
+  return sum % 89 === 0
+}
+
+/**
+ * True for blank values as well as valid ABNs, for optional form fields
+ */
+export function isBlankOrValidAbn(value: string | null | undefined): boolean {
+  return normalizeAbn(value) === null || isValidAbn(value)
+}
+
+/**
+ * The `51 824 753 556` grouping the ABR uses on screen
+ */
+export function formatAbn(value: string | null | undefined): string {
+  const abn = normalizeAbn(value)
+  if (!abn || !/^\d{11}$/.test(abn)) return value ?? ''
+  return `${abn.slice(0, 2)} ${abn.slice(2, 5)} ${abn.slice(5, 8)} ${abn.slice(8)}`
+}
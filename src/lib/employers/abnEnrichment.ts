@@ -0,0 +1,87 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AbnDetails } from './abnLookup'
+import { normalizeEmployerName } from './normalize'
+
+export const ABR_ALIAS_SOURCE = 'abr'
+
+export interface AbnEnrichmentResult {
+  details: AbnDetails
+  aliasesAdded: string[]
+}
+
+/**
+ * Register names worth keeping as aliases: the trading names plus the legal
+ * name, minus anything that normalises to the employer's own name or to
+ * another candidate
+ */
+export function abnAliasCandidates(employerName: string, details: AbnDetails): Array<{ alias: string; normalized: string }> {
+  const seen = new Set([normalizeEmployerName(employerName).normalized])
+  const candidates: Array<{ alias: string; normalized: string }> = []
+
+  for (const alias of [...details.tradingNames, details.legalName]) {
+    const normalized = normalizeEmployerName(alias).normalized
+    if (!normalized || seen.has(normalized)) continue
+    seen.add(normalized)
+    candidates.push({ alias: alias.trim(), normalized })
+  }
+
+  return candidates
+}
+
+/**
+ * Records the register details on the employer and adds its trading names as
+ * authoritative `employer_aliases`. Aliases the employer already has are left
+ * untouched so manually curated provenance survives a re-check.
+ */
+export async function applyAbnDetails(
+  supabase: SupabaseClient,
+  employer: { id: string; name: string },
+  details: AbnDetails,
+  userId: string | null
+): Promise<AbnEnrichmentResult> {
+  const checkedAt = new Date().toISOString()
+
+  const { error: updateError } = await supabase
+    .from('employers')
+    .update({
+      abn_legal_name: details.legalName,
+      abn_gst_registered: details.gstRegistered,
+      abn_status: details.status,
+      abn_checked_at: checkedAt,
+    })
+    .eq('id', employer.id)
+
+  if (updateError) {
+    throw new Error(`Failed to record ABN details: ${updateError.message}`)
+  }
+
+  const candidates = abnAliasCandidates(employer.name, details)
+  if (candidates.length === 0) {
+    return { details, aliasesAdded: [] }
+  }
+
+  const { data, error: aliasError } = await supabase
+    .from('employer_aliases')
+    .upsert(
+      candidates.map(({ alias, normalized }) => ({
+        alias,
+        alias_normalized: normalized,
+        employer_id: employer.id,
+        source_system: ABR_ALIAS_SOURCE,
+        source_identifier: details.abn,
+        collected_at: checkedAt,
+        collected_by: userId,
+        created_by: userId,
+        is_authoritative: true,
+        notes: alias === details.legalName ? 'ABR legal name' : 'ABR business name',
+      })),
+      { onConflict: 'employer_id,alias_normalized', ignoreDuplicates: true }
+    )
+    .select('alias')
+
+  if (aliasError) {
+    throw new Error(`Failed to add ABN trading names as aliases: ${aliasError.message}`)
+  }
+
+  return { details, aliasesAdded: (data || []).map((row: { alias: string }) => row.alias) }
+}
@@ -0,0 +1,166 @@
+/**
+ * ABN lookups against the Australian Business Register, behind an interface
+ * so employer enrichment can run against local fixtures in development and
+ * tests.
+ *
+ *   ABN_LOOKUP_PROVIDER  abr | fixture
+ *   ABR_GUID             authentication GUID issued for the ABR web services
+ *
+ * The provider defaults to abr when ABR_GUID is set and fixture otherwise.
+ */
+
+import { normalizeAbn } from './abn'
+
+type Env = Record<string, string | undefined>
+
+export interface AbnDetails {
+  abn: string
+  legalName: string
+  /** Registered business names the entity trades under */
+  tradingNames: string[]
+  gstRegistered: boolean
+  gstRegisteredFrom: string | null
+  status: 'active' | 'cancelled'
+  entityType: string | null
+  state: string | null
+  postcode: string | null
+}
+
+export interface AbnLookupClient {
+  name: string
+  /** Resolves to null when the register has no entity for the ABN */
+  lookup(abn: string): Promise<AbnDetails | null>
+}
+
+const ABR_JSON_URL = 'https://abr.business.gov.au/json/AbnDetails.aspx'
+const ABR_CALLBACK = 'abnCallback'
+
+interface AbrAbnDetailsResponse {
+  Abn: string
+  AbnStatus: string
+  EntityName: string
+  EntityTypeName: string
+  BusinessName: string[]
+  Gst: string | null
+  AddressState: string
+  AddressPostcode: string
+  Message: string
+}
+
+function unwrapJsonp(body: string): unknown {
+  const start = body.indexOf('(')
+  const end = body.lastIndexOf(')')
+  if (start === -1 || end <= start) {
+    throw new Error('Unexpected ABR response')
+  }
+  return JSON.parse(body.slice(start + 1, end))
+}
+
+export function createAbrLookupClient(guid: string, fetchImpl: typeof fetch = fetch): AbnLookupClient {
+  return {
+    name: 'abr',
+    async lookup(abn) {
+      const params = new URLSearchParams({
+        abn: normalizeAbn(abn) ?? '',
+        callback: ABR_CALLBACK,
+        guid,
+      })
+      const response = await fetchImpl(`${ABR_JSON_URL}?${params.toString()}`)
+      if (!response.ok) {
+        throw new Error(`ABR lookup failed with status ${response.status}`)
+      }
+
+      const details = unwrapJsonp(await response.text()) as AbrAbnDetailsResponse
+      if (!details.Abn) {
+        if (details.Message && !/not a valid|no records/i.test(details.Message)) {
+          throw new Error(`ABR lookup failed: ${details.Message}`)
+        }
+        return null
+      }
+
+      return {
+        abn: details.Abn,
+        legalName: details.EntityName.trim(),
+        tradingNames: (details.BusinessName || []).map((name) => name.trim()).filter(Boolean),
+        gstRegistered: Boolean(details.Gst),
+        gstRegisteredFrom: details.Gst || null,
+        status: details.AbnStatus === 'Active' ? 'active' : 'cancelled',
+        entityType: details.EntityTypeName || null,
+        state: details.AddressState || null,
+        postcode: details.AddressPostcode || null,
+      }
+    },
+  }
+}
+
+/**
+ * Made-up entities with checksum-valid ABNs, for local development without
+ * an ABR GUID
+ */
+export const ABN_LOOKUP_FIXTURES: AbnDetails[] = [
+  {
+    abn: '90551661605',
+    legalName: 'Harbourside Formwork Pty Ltd',
+    tradingNames: ['Harbourside Forming', 'HSF Concrete'],
+    gstRegistered: true,
+    gstRegisteredFrom: '2011-07-01',
+    status: 'active',
+    entityType: 'Australian Private Company',
+    state: 'NSW',
+    postcode: '2000',
+  },
+  {
+    abn: '87192327523',
+    legalName: 'Westline Scaffolding Holdings Pty Ltd',
+    tradingNames: ['Westline Scaffolds'],
+    gstRegistered: true,
+    gstRegisteredFrom: '2015-03-12',
+    status: 'active',
+    entityType: 'Australian Private Company',
+    state: 'NSW',
+    postcode: '2148',
+  },
+  {
+    abn: '28322761077',
+    legalName: 'The Trustee for J & M Nguyen Family Trust',
+    tradingNames: ['Nguyen Tiling'],
+    gstRegistered: false,
+    gstRegisteredFrom: null,
+    status: 'active',
+    entityType: 'Discretionary Trading Trust',
+    state: 'NSW',
+    postcode: '2200',
+  },
+  {
+    abn: '50893268002',
+    legalName: 'Coastal Cranes Pty Ltd',
+    tradingNames: [],
+    gstRegistered: false,
+    gstRegisteredFrom: null,
+    status: 'cancelled',
+    entityType: 'Australian Private Company',
+    state: 'NSW',
+    postcode: '2500',
+  },
+]
+
+export function createFixtureAbnLookupClient(fixtures: AbnDetails[] = ABN_LOOKUP_FIXTURES): AbnLookupClient {
+  const byAbn = new Map(fixtures.map((details) => [details.abn, details]))
+
+  return {
+    name: 'fixture',
+    async lookup(abn) {
+      const details = byAbn.get(normalizeAbn(abn) ?? '')
+      return details ? { ...details, tradingNames: [...details.tradingNames] } : null
+    },
+  }
+}
+
+export function createAbnLookupClient(env: Env = process.env): AbnLookupClient {
+  const provider = env.ABN_LOOKUP_PROVIDER || (env.ABR_GUID ? 'abr' : 'fixture')
+  if (provider === 'abr') {
+    if (!env.ABR_GUID) throw new Error('ABR_GUID is not configured')
+    return createAbrLookupClient(env.ABR_GUID)
+  }
+  return createFixtureAbnLookupClient()
+}
@@ -0,0 +1,108 @@
+/**
+ * Tests for geofence dwell detection
+ *
+ * Run with: npm test src/lib/geofencing/__tests__/dwell.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { getDwellConfig, planDwellUpdate, type OpenDwellSession } from '../dwell'
+
+const CONFIG = { dwellMs: 10 * 60_000, exitGraceMs: 5 * 60_000 }
+const T0 = new Date('2026-01-22T09:00:00.000Z')
+
+function minutesAfterStart(minutes: number) {
+  return new Date(T0.getTime() + minutes * 60_000)
+}
+
+function session(overrides: Partial<OpenDwellSession> = {}): OpenDwellSession {
+  return {
+    id: 'session-1',
+    job_site_id: 'site-a',
+    entered_at: T0.toISOString(),
+    last_seen_at: T0.toISOString(),
+    draft_created_at: null,
+    ...overrides,
+  }
+}
+
+describe('planDwellUpdate', () => {
+  it('should start a session on entering a fence', () => {
+    const plan = planDwellUpdate([], ['site-a'], T0, CONFIG)
+    expect(plan).toEqual({ start: ['site-a'], extend: [], close: [], createDraft: [] })
+  })
+
+  it('should extend without a draft before the dwell threshold', () => {
+    const plan = planDwellUpdate(
+      [session({ last_seen_at: minutesAfterStart(8).toISOString() })],
+      ['site-a'],
+      minutesAfterStart(9),
+      CONFIG
+    )
+    expect(plan.extend).toEqual(['session-1'])
+    expect(plan.createDraft).toEqual([])
+  })
+
+  it('should create one draft once the dwell threshold is reached', () => {
+    const reached = planDwellUpdate(
+      [session({ last_seen_at: minutesAfterStart(9).toISOString() })],
+      ['site-a'],
+      minutesAfterStart(10),
+      CONFIG
+    )
+    expect(reached.createDraft).toEqual(['session-1'])
+
+    const alreadyDrafted = planDwellUpdate(
+      [session({ last_seen_at: minutesAfterStart(10).toISOString(), draft_created_at: minutesAfterStart(10).toISOString() })],
+      ['site-a'],
+      minutesAfterStart(11),
+      CONFIG
+    )
+    expect(alreadyDrafted.createDraft).toEqual([])
+  })
+
+  it('should keep a session open through a brief excursion outside the fence', () => {
+    const plan = planDwellUpdate(
+      [session({ last_seen_at: minutesAfterStart(6).toISOString() })],
+      [],
+      minutesAfterStart(8),
+      CONFIG
+    )
+    expect(plan).toEqual({ start: [], extend: [], close: [], createDraft: [] })
+  })
+
+  it('should close a session at the last time seen once the grace period passes', () => {
+    const plan = planDwellUpdate(
+      [session({ last_seen_at: minutesAfterStart(6).toISOString() })],
+      ['site-b'],
+      minutesAfterStart(12),
+      CONFIG
+    )
+    expect(plan.close).toEqual([{ id: 'session-1', exitedAt: minutesAfterStart(6).toISOString() }])
+    expect(plan.start).toEqual(['site-b'])
+  })
+
+  it('should treat a return after a long silence as a new stay', () => {
+    const plan = planDwellUpdate(
+      [session({ last_seen_at: minutesAfterStart(2).toISOString() })],
+      ['site-a'],
+      minutesAfterStart(60),
+      CONFIG
+    )
+    expect(plan.close).toEqual([{ id: 'session-1', exitedAt: minutesAfterStart(2).toISOString() }])
+    expect(plan.start).toEqual(['site-a'])
+    expect(plan.createDraft).toEqual([])
+  })
+})
+
+describe('getDwellConfig', () => {
+  it('should read minutes from the environment and fall back on invalid values', () => {
+    expect(getDwellConfig({ GEOFENCE_DWELL_MINUTES: '15', GEOFENCE_EXIT_GRACE_MINUTES: '2' })).toEqual({
+      dwellMs: 15 * 60_000,
+      exitGraceMs: 2 * 60_000,
+    })
+    expect(getDwellConfig({ GEOFENCE_DWELL_MINUTES: '0', GEOFENCE_EXIT_GRACE_MINUTES: 'soon' })).toEqual({
+      dwellMs: 10 * 60_000,
+      exitGraceMs: 5 * 60_000,
+    })
+  })
+})
@@ -0,0 +1,90 @@
+/**
+ * Dwell detection for geofenced site visits
+ *
+ * Each position report is reduced to the set of job site fences the device is
+ * inside. A dwell session opens on entry, is extended while the device stays
+ * inside, and closes once it has been outside (or silent) for longer than the
+ * exit grace period, which absorbs GPS jitter at the fence edge. A session that
+ * lasts at least the dwell threshold produces one draft visit.
+ */
+
+export const DEFAULT_GEOFENCE_RADIUS_METERS = 100
+export const DEFAULT_DWELL_MINUTES = 10
+export const DEFAULT_EXIT_GRACE_MINUTES = 5
+// Reports less accurate than this can't tell inside from outside a typical fence
+export const MAX_POSITION_ACCURACY_METERS = 150
+
+export interface DwellConfig {
+  dwellMs: number
+  exitGraceMs: number
+}
+
+export interface OpenDwellSession {
+  id: string
+  job_site_id: string
+  entered_at: string
+  last_seen_at: string
+  draft_created_at: string | null
+}
+
+export interface DwellPlan {
+  /** Sites entered with this report */
+  start: string[]
+  /** Open sessions the device is still inside */
+  extend: string[]
+  /** Sessions the device has left, closed at the last time it was seen inside */
+  close: { id: string; exitedAt: string }[]
+  /** Sessions (including ones started or extended now) that just reached the dwell threshold */
+  createDraft: string[]
+}
+
+export function getDwellConfig(env: Record<string, string | undefined> = process.env): DwellConfig {
+  const dwellMinutes = Number(env.GEOFENCE_DWELL_MINUTES ?? DEFAULT_DWELL_MINUTES)
+  const graceMinutes = Number(env.GEOFENCE_EXIT_GRACE_MINUTES ?? DEFAULT_EXIT_GRACE_MINUTES)
+  return {
+    dwellMs: (Number.isFinite(dwellMinutes) && dwellMinutes > 0 ? dwellMinutes : DEFAULT_DWELL_MINUTES) * 60_000,
+    exitGraceMs: (Number.isFinite(graceMinutes) && graceMinutes >= 0 ? graceMinutes : DEFAULT_EXIT_GRACE_MINUTES) * 60_000,
+  }
+}
+
+/**
+ * Work out what a position report at `at` does to the user's open sessions.
+ * Pure so the route can apply it however it stores sessions.
+ */
+export function planDwellUpdate(
+  openSessions: OpenDwellSession[],
+  insideSiteIds: string[],
+  at: Date,
+  config: DwellConfig
+): DwellPlan {
+  const plan: DwellPlan = { start: [], extend: [], close: [], createDraft: [] }
+  const now = at.getTime()
+  const inside = new Set(insideSiteIds)
+  const continuing = new Set<string>()
+
+  for (const session of openSessions) {
+    const lastSeen = new Date(session.last_seen_at).getTime()
+    const silentTooLong = now - lastSeen > config.exitGraceMs
+
+    if (inside.has(session.job_site_id) && !silentTooLong) {
+      plan.extend.push(session.id)
+      continuing.add(session.job_site_id)
+      if (!session.draft_created_at && now - new Date(session.entered_at).getTime() >= config.dwellMs) {
+        plan.createDraft.push(session.id)
+      }
+      continue
+    }
+
+    if (silentTooLong) {
+      // Left the fence, or stopped reporting long enough that any return is a new stay
+      plan.close.push({ id: session.id, exitedAt: session.last_seen_at })
+    }
+    // Otherwise: briefly outside; keep the session open in case it's jitter
+  }
+
+  for (const siteId of inside) {
+    if (!continuing.has(siteId)) plan.start.push(siteId)
+  }
+
+  return plan
+}
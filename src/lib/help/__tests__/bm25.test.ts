@@ -0,0 +1,95 @@
+/**
+ * Tests for the local BM25 help retriever
+ *
+ * Run with: npm test src/lib/help/__tests__/bm25.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { Bm25Index, createBm25HelpRetriever, matchesHelpAudience, tokenize } from '../bm25'
+import type { HelpDocumentRecord } from '../types'
+
+function doc(overrides: Partial<HelpDocumentRecord>): HelpDocumentRecord {
+  return {
+    doc_id: 'doc',
+    title: '',
+    category: 'core-features',
+    content: '',
+    keywords: [],
+    roles: ['all'],
+    pages: ['all'],
+    ...overrides,
+  }
+}
+
+const documents = [
+  doc({ doc_id: 'site-visits', title: 'Recording a site visit', content: 'Open the project and add a site visit with the date and reasons.', keywords: ['visit'] }),
+  doc({ doc_id: 'ratings', title: 'Employer ratings', content: 'Ratings combine compliance assessments and organiser input.', keywords: ['rating', 'traffic light'] }),
+  doc({ doc_id: 'admin-users', title: 'Managing users', content: 'Admins can invite users and change roles.', roles: ['admin'], pages: ['/admin'] }),
+]
+
+describe('tokenize', () => {
+  it('lowercases, splits on punctuation and drops stop words', () => {
+    expect(tokenize('How do I add a Site-Visit?')).toEqual(['add', 'site', 'visit'])
+  })
+})
+
+describe('Bm25Index', () => {
+  it('ranks the document matching the query terms first', () => {
+    const results = new Bm25Index(documents).search('how are employer ratings calculated')
+    expect(results[0].record.doc_id).toBe('ratings')
+  })
+
+  it('weights title matches above body matches', () => {
+    const index = new Bm25Index([
+      doc({ doc_id: 'body', title: 'Overview', content: 'This page mentions delegates once among many other words about projects.' }),
+      doc({ doc_id: 'title', title: 'Delegates', content: 'Who they are and what they do on site for members.' }),
+    ])
+    expect(index.search('delegates')[0].record.doc_id).toBe('title')
+  })
+
+  it('returns nothing for queries with no indexed terms', () => {
+    expect(new Bm25Index(documents).search('what is the')).toEqual([])
+    expect(new Bm25Index(documents).search('zebra')).toEqual([])
+  })
+})
+
+describe('matchesHelpAudience', () => {
+  it('applies the same role and page rules as match_help_documents', () => {
+    const adminDoc = documents[2]
+    expect(matchesHelpAudience(adminDoc, { role: 'admin', page: '/admin' })).toBe(true)
+    expect(matchesHelpAudience(adminDoc, { role: 'organiser' })).toBe(false)
+    expect(matchesHelpAudience(adminDoc, { role: 'admin', page: '/projects' })).toBe(false)
+    expect(matchesHelpAudience(documents[0], { role: 'viewer', page: '/projects' })).toBe(true)
+  })
+})
+
+describe('createBm25HelpRetriever', () => {
+  it('filters by role, normalises scores and loads documents once', async () => {
+    let loads = 0
+    const retriever = createBm25HelpRetriever(async () => {
+      loads++
+      return documents
+    })
+
+    const forOrganiser = await retriever.retrieve('invite users', { role: 'organiser' })
+    expect(forOrganiser).toEqual([])
+
+    const forAdmin = await retriever.retrieve('invite users', { role: 'admin' })
+    expect(forAdmin[0].id).toBe('admin-users')
+    expect(forAdmin[0].score).toBe(1)
+    expect(loads).toBe(1)
+  })
+
+  it('retries loading after a failure', async () => {
+    let attempts = 0
+    const retriever = createBm25HelpRetriever(async () => {
+      attempts++
+      if (attempts === 1) throw new Error('offline')
+      return documents
+    })
+
+    await expect(retriever.retrieve('site visit')).rejects.toThrow('offline')
+    const results = await retriever.retrieve('site visit')
+    expect(results[0].id).toBe('site-visits')
+  })
+})
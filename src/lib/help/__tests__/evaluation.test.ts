@@ -0,0 +1,78 @@
+/**
+ * Tests for the help retrieval evaluation harness
+ *
+ * Run with: npm test src/lib/help/__tests__/evaluation.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { buildEvalQuestions, evaluateRetriever } from '../evaluation'
+import type { HelpRetriever } from '../types'
+
+function fixedRetriever(answers: Record<string, string[]>): HelpRetriever {
+  return {
+    name: 'fixed',
+    async retrieve(query) {
+      return (answers[query] || []).map((id, index) => ({
+        id,
+        title: id,
+        content: '',
+        keywords: [],
+        score: 1 - index / 10,
+      }))
+    },
+  }
+}
+
+describe('buildEvalQuestions', () => {
+  it('dedupes questions and attaches labels by normalised question', () => {
+    const questions = buildEvalQuestions(
+      [
+        { question: 'How do I add a site visit?', context: { role: 'organiser', page: '/projects' } },
+        { question: '  how do I add a  SITE visit? ', context: { role: 'admin' } },
+        { question: 'What is a rating?' },
+      ],
+      { 'how do i add a site visit?': ['site-visits'] }
+    )
+
+    expect(questions).toHaveLength(2)
+    expect(questions[0]).toEqual({
+      question: 'How do I add a site visit?',
+      context: { role: 'organiser', isMobile: undefined, documentType: undefined },
+      expectedDocIds: ['site-visits'],
+    })
+    expect(questions[1].expectedDocIds).toBeUndefined()
+  })
+})
+
+describe('evaluateRetriever', () => {
+  it('reports recall@k over labelled questions and coverage over all', async () => {
+    const retriever = fixedRetriever({
+      a: ['x', 'y', 'z'],
+      b: ['q', 'r'],
+      c: [],
+    })
+
+    const report = await evaluateRetriever(
+      retriever,
+      [
+        { question: 'a', expectedDocIds: ['x', 'z'] },
+        { question: 'b', expectedDocIds: ['s'] },
+        { question: 'c' },
+      ],
+      2
+    )
+
+    // a finds x but z is outside the top 2; b finds nothing
+    expect(report.results.map((result) => result.recall)).toEqual([0.5, 0, null])
+    expect(report.labelledCount).toBe(2)
+    expect(report.recallAtK).toBeCloseTo(0.25)
+    expect(report.hitRate).toBeCloseTo(0.5)
+    expect(report.coverage).toBeCloseTo(2 / 3)
+  })
+
+  it('reports n/a recall when nothing is labelled', async () => {
+    const report = await evaluateRetriever(fixedRetriever({ a: ['x'] }), [{ question: 'a' }])
+    expect(report.recallAtK).toBeNull()
+    expect(report.coverage).toBe(1)
+  })
+})
@@ -0,0 +1,57 @@
+/**
+ * Tests for the help assistant tool runner
+ *
+ * Run with: npm test src/lib/help/__tests__/tools.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { createHelpToolRunner, executeHelpTool, type HelpToolContext, type HelpToolResult } from '../tools'
+
+const context: HelpToolContext = { supabase: {}, userId: 'u1', role: 'organiser' }
+
+describe('executeHelpTool', () => {
+  it('rejects unknown tools', async () => {
+    await expect(executeHelpTool(context, 'delete_everything', {})).rejects.toThrow('Unknown tool: delete_everything')
+  })
+
+  it('requires a filter before listing employers by EBA status', async () => {
+    await expect(executeHelpTool(context, 'employer_eba', { status: 'non_eba' })).rejects.toThrow(
+      'Provide an employer name, contractor role or trade'
+    )
+  })
+})
+
+describe('createHelpToolRunner', () => {
+  it('records every invocation and dedupes the records returned', async () => {
+    const results: Record<string, HelpToolResult> = {
+      search_projects: {
+        data: { projects: [{ id: 'p1' }] },
+        records: [{ type: 'project', id: 'p1', label: 'Tower A', url: '/projects/p1' }],
+      },
+      employer_eba: {
+        data: { employers: [] },
+        records: [
+          { type: 'employer', id: 'e1', label: 'Acme', url: '/employers?q=Acme' },
+          { type: 'project', id: 'p1', label: 'Tower A', url: '/projects/p1' },
+        ],
+      },
+    }
+    const runner = createHelpToolRunner(context, async (_context, name) => {
+      if (name === 'patch_summary') throw new Error('permission denied')
+      return results[name]
+    })
+
+    await expect(runner.run('search_projects', { query: 'tower' })).resolves.toEqual({ projects: [{ id: 'p1' }] })
+    await runner.run('employer_eba', { employer_name: 'acme' })
+    await expect(runner.run('patch_summary', {})).rejects.toThrow('permission denied')
+
+    expect(runner.invocations.map(({ tool, status, record_count }) => ({ tool, status, record_count }))).toEqual([
+      { tool: 'search_projects', status: 'ok', record_count: 1 },
+      { tool: 'employer_eba', status: 'ok', record_count: 2 },
+      { tool: 'patch_summary', status: 'error', record_count: 0 },
+    ])
+    expect(runner.invocations[0].input).toEqual({ query: 'tower' })
+    expect(runner.invocations[2].error).toBe('permission denied')
+    expect(runner.records().map((record) => `${record.type}:${record.id}`)).toEqual(['project:p1', 'employer:e1'])
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * Local BM25 retriever over help_documents
+ *
+ * Used when embeddings are unavailable (no OpenAI key, offline development,
+ * tests) and as the fallback when the pgvector search fails.
+ */
+
+import type { HelpDocumentRecord, HelpPassage, HelpRetrievalOptions, HelpRetriever } from './types'
+
+const K1 = 1.2
+const B = 0.75
+
+// Title and keyword terms are repeated so a match there outweighs one in the body
+const TITLE_BOOST = 3
+const KEYWORD_BOOST = 2
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how',
+  'i', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'the', 'to', 'what', 'when', 'where',
+  'which', 'who', 'why', 'with', 'you', 'your',
+])
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/g)
+    .filter((term) => term.length > 1 && !STOP_WORDS.has(term))
+}
+
+interface IndexedDocument {
+  record: HelpDocumentRecord
+  termFrequencies: Map<string, number>
+  length: number
+}
+
+export class Bm25Index {
+  private documents: IndexedDocument[]
+  private documentFrequencies = new Map<string, number>()
+  private averageLength: number
+
+  constructor(records: HelpDocumentRecord[]) {
+    this.documents = records.map((record) => {
+      const terms = [
+        ...Array(TITLE_BOOST).fill(tokenize(record.title)).flat(),
+        ...Array(KEYWORD_BOOST).fill(record.keywords.flatMap(tokenize)).flat(),
+        ...tokenize(record.content),
+      ]
+      const termFrequencies = new Map<string, number>()
+      terms.forEach((term) => termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1))
+      return { record, termFrequencies, length: terms.length }
+    })
+
+    this.documents.forEach((document) => {
+      document.termFrequencies.forEach((_, term) => {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1)
+      })
+    })
+
+    const totalLength = this.documents.reduce((sum, document) => sum + document.length, 0)
+    this.averageLength = this.documents.length > 0 ? totalLength / this.documents.length : 0
+  }
+
+  get size(): number {
+    return this.documents.length
+  }
+
+  /**
+   * Documents scoring above zero for the query, best first
+   */
+  search(query: string, filter?: (record: HelpDocumentRecord) => boolean): Array<{ record: HelpDocumentRecord; score: number }> {
+    const queryTerms = Array.from(new Set(tokenize(query)))
+    if (queryTerms.length === 0) return []
+
+    const total = this.documents.length
+    const results: Array<{ record: HelpDocumentRecord; score: number }> = []
+
+    for (const document of this.documents) {
+      if (filter && !filter(document.record)) continue
+
+      let score = 0
+      for (const term of queryTerms) {
+        const frequency = document.termFrequencies.get(term)
+        if (!frequency) continue
+        const documentFrequency = this.documentFrequencies.get(term) || 0
+        const idf = Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5))
+        const lengthNorm = 1 - B + B * (document.length / (this.averageLength || 1))
+        score += idf * ((frequency * (K1 + 1)) / (frequency + K1 * lengthNorm))
+      }
+
+      if (score > 0) results.push({ record: document.record, score })
+    }
+
+    return results.sort((a, b) => b.score - a.score)
+  }
+}
+
+/**
+ * Same role and page rules as match_help_documents: a document applies when it
+ * lists the role (or 'all') and the page (or 'all')
+ */
+export function matchesHelpAudience(record: HelpDocumentRecord, options: HelpRetrievalOptions = {}): boolean {
+  const roleMatches = !options.role || record.roles.includes('all') || record.roles.includes(options.role)
+  const pageMatches = !options.page || record.pages.includes('all') || record.pages.includes(options.page)
+  return roleMatches && pageMatches
+}
+
+export function createBm25HelpRetriever(
+  loadDocuments: () => Promise<HelpDocumentRecord[]>
+): HelpRetriever {
+  let index: Promise<Bm25Index> | null = null
+
+  return {
+    name: 'bm25',
+    async retrieve(query, options = {}) {
+      if (!index) {
+        index = loadDocuments().then((records) => new Bm25Index(records))
+        // Let a failed load be retried on the next question
+        index.catch(() => { index = null })
+      }
+      const results = (await index).search(query, (record) => matchesHelpAudience(record, options))
+      const topScore = results[0]?.score || 1
+
+      return results.slice(0, options.limit ?? 5).map(({ record, score }): HelpPassage => ({
+        id: record.doc_id,
+        title: record.title,
+        content: record.content,
+        keywords: record.keywords,
+        // Normalised against the best match so scores sit in 0..1 like similarities
+        score: score / topScore,
+        documentId: record.category,
+      }))
+    },
+  }
+}
@@ -0,0 +1,57 @@
+import fs from 'fs/promises'
+import path from 'path'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { HelpDocumentRecord } from './types'
+
+// Same sources scripts/merge-and-embed-all.ts loads into help_documents
+export const HELP_DOCUMENT_SOURCES = [
+  'docs/DOCUMENTATION_STRUCTURE.json',
+  'docs/PROJECTS_PAGE_COMPREHENSIVE.json',
+]
+
+function toRecord(row: any): HelpDocumentRecord {
+  return {
+    doc_id: row.doc_id ?? row.id,
+    title: row.title || '',
+    category: row.category || '',
+    content: row.content || '',
+    keywords: row.keywords || [],
+    roles: row.roles || ['all'],
+    pages: row.pages || ['all'],
+  }
+}
+
+export async function loadHelpDocumentsFromDatabase(supabase: SupabaseClient): Promise<HelpDocumentRecord[]> {
+  const { data, error } = await supabase
+    .from('help_documents')
+    .select('doc_id, title, category, content, keywords, roles, pages')
+  if (error) throw error
+  return (data || []).map(toRecord)
+}
+
+/**
+ * The docs JSON files help_documents is built from, for running without a
+ * database. Later sources win when two define the same id.
+ */
+export async function loadHelpDocumentsFromFiles(
+  sources: string[] = HELP_DOCUMENT_SOURCES,
+  cwd: string = process.cwd()
+): Promise<HelpDocumentRecord[]> {
+  const byId = new Map<string, HelpDocumentRecord>()
+
+  for (const source of sources) {
+    let data: any
+    try {
+      data = JSON.parse(await fs.readFile(path.join(cwd, source), 'utf-8'))
+    } catch (error) {
+      console.warn(`Could not load help documents from ${source}:`, error)
+      continue
+    }
+    for (const doc of data.documents || []) {
+      const record = toRecord(doc)
+      byId.set(record.doc_id, record)
+    }
+  }
+
+  return Array.from(byId.values())
+}
@@ -0,0 +1,33 @@
+import { createHash } from 'crypto'
+import OpenAI from 'openai'
+import type { HelpEmbedder } from './types'
+
+export const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small'
+
+/**
+ * Text a help document is embedded from. content_hash is taken over this, so
+ * any change to the title, body or keywords triggers a re-embed.
+ */
+export function buildEmbeddingText(doc: { title: string; content: string; keywords?: string[] | null }): string {
+  return `${doc.title}\n\n${doc.content}\n\nKeywords: ${(doc.keywords || []).join(', ')}`
+}
+
+export function contentHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex')
+}
+
+export function createOpenAIEmbedder(apiKey: string, model: string = OPENAI_EMBEDDING_MODEL): HelpEmbedder {
+  const openai = new OpenAI({ apiKey })
+
+  return {
+    model,
+    async embed(texts) {
+      if (texts.length === 0) return []
+      const response = await openai.embeddings.create({ model, input: texts })
+      return response.data
+        .slice()
+        .sort((a, b) => a.index - b.index)
+        .map((entry) => entry.embedding)
+    },
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Retrieval evaluation for the help assistant
+ *
+ * Replays questions (normally from help_low_confidence_questions) against a
+ * retriever. Questions with expected document ids contribute to recall@k;
+ * the rest only count towards coverage, the share of questions that
+ * retrieved anything at all.
+ */
+
+import type { HelpRetrievalOptions, HelpRetriever } from './types'
+
+export interface HelpEvalQuestion {
+  question: string
+  context?: Pick<HelpRetrievalOptions, 'role' | 'isMobile' | 'documentType'>
+  expectedDocIds?: string[]
+}
+
+export interface HelpEvalResult {
+  question: string
+  retrievedDocIds: string[]
+  expectedDocIds: string[]
+  /** Share of expected ids found in the top k; null when the question is unlabelled */
+  recall: number | null
+}
+
+export interface HelpEvalReport {
+  retriever: string
+  k: number
+  questionCount: number
+  labelledCount: number
+  recallAtK: number | null
+  /** Labelled questions with at least one expected id in the top k */
+  hitRate: number | null
+  coverage: number
+  results: HelpEvalResult[]
+}
+
+export function normalizeQuestion(question: string): string {
+  return question.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+/**
+ * One entry per distinct question, keeping the first context seen. Expected
+ * ids come from the labels map (keyed by question) or the row itself.
+ */
+export function buildEvalQuestions(
+  rows: Array<{ question: string; context?: any; expectedDocIds?: string[] }>,
+  labels: Record<string, string[]> = {}
+): HelpEvalQuestion[] {
+  const normalizedLabels = new Map(
+    Object.entries(labels).map(([question, ids]) => [normalizeQuestion(question), ids])
+  )
+  const seen = new Set<string>()
+  const questions: HelpEvalQuestion[] = []
+
+  for (const row of rows) {
+    const key = normalizeQuestion(row.question || '')
+    if (!key || seen.has(key)) continue
+    seen.add(key)
+    questions.push({
+      question: row.question.trim(),
+      context: {
+        role: row.context?.role,
+        isMobile: row.context?.isMobile,
+        documentType: row.context?.documentType,
+      },
+      expectedDocIds: normalizedLabels.get(key) ?? row.expectedDocIds,
+    })
+  }
+
+  return questions
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+}
+
+export async function evaluateRetriever(
+  retriever: HelpRetriever,
+  questions: HelpEvalQuestion[],
+  k: number = 5
+): Promise<HelpEvalReport> {
+  const results: HelpEvalResult[] = []
+
+  // One at a time so a hosted retriever isn't hit with a burst of requests
+  for (const { question, context, expectedDocIds = [] } of questions) {
+    const passages = await retriever.retrieve(question, { ...context, limit: k })
+    const retrievedDocIds = passages.slice(0, k).map((passage) => passage.id)
+    const found = expectedDocIds.filter((id) => retrievedDocIds.includes(id))
+    results.push({
+      question,
+      retrievedDocIds,
+      expectedDocIds,
+      recall: expectedDocIds.length > 0 ? found.length / expectedDocIds.length : null,
+    })
+  }
+
+  const labelled = results.filter((result) => result.recall !== null)
+
+  return {
+    retriever: retriever.name,
+    k,
+    questionCount: results.length,
+    labelledCount: labelled.length,
+    recallAtK: mean(labelled.map((result) => result.recall!)),
+    hitRate: mean(labelled.map((result) => (result.recall! > 0 ? 1 : 0))),
+    coverage: mean(results.map((result) => (result.retrievedDocIds.length > 0 ? 1 : 0))) ?? 0,
+    results,
+  }
+}
+
+function percent(value: number | null): string {
+  return value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`
+}
+
+export function formatEvaluationReport(report: HelpEvalReport): string {
+  const lines = [
+    `Retriever: ${report.retriever}`,
+    `Questions: ${report.questionCount} (${report.labelledCount} labelled)`,
+    `Recall@${report.k}: ${percent(report.recallAtK)}`,
+    `Hit rate@${report.k}: ${percent(report.hitRate)}`,
+    `Coverage: ${percent(report.coverage)}`,
+  ]
+
+  const misses = report.results.filter((result) => result.recall === 0)
+  if (misses.length > 0) {
+    lines.push('', 'Labelled questions with no expected document retrieved:')
+    misses.forEach((result) => {
+      lines.push(`- ${result.question}`)
+      lines.push(`    expected: ${result.expectedDocIds.join(', ')}`)
+      lines.push(`    got:      ${result.retrievedDocIds.join(', ') || '(nothing)'}`)
+    })
+  }
+
+  const empty = report.results.filter((result) => result.retrievedDocIds.length === 0)
+  if (empty.length > 0) {
+    lines.push('', 'Questions that retrieved nothing:')
+    empty.forEach((result) => lines.push(`- ${result.question}`))
+  }
+
+  return lines.join('\n')
+}
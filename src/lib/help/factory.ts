@@ -0,0 +1,76 @@
+/**
+ * Picks the help retriever and generator from the environment
+ *
+ *   HELP_RETRIEVER  guide (default) | pgvector | bm25
+ *   HELP_GENERATOR  anthropic | extractive
+ *
+ * pgvector needs OPENAI_API_KEY for query embeddings and drops to bm25 without
+ * it, or when the search fails. The generator defaults to anthropic when
+ * ANTHROPIC_API_KEY is set and extractive otherwise.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createBm25HelpRetriever } from './bm25'
+import { loadHelpDocumentsFromDatabase, loadHelpDocumentsFromFiles } from './documents'
+import { createOpenAIEmbedder } from './embedders'
+import { createAnthropicGenerator, createExtractiveGenerator } from './generators'
+import { createFallbackRetriever, createGuideRetriever, createPgvectorRetriever } from './retrievers'
+import type { HelpDocumentRecord, HelpGenerator, HelpRetriever } from './types'
+
+type Env = Record<string, string | undefined>
+
+const DOCUMENT_CACHE_MS = 10 * 60 * 1000
+
+let documentCache: { loadedAt: number; documents: Promise<HelpDocumentRecord[]> } | null = null
+
+/**
+ * help_documents for the BM25 index, read from the docs JSON files when the
+ * table can't be read or hasn't been populated
+ */
+function loadBm25Documents(supabase: SupabaseClient | null): Promise<HelpDocumentRecord[]> {
+  if (documentCache && Date.now() - documentCache.loadedAt < DOCUMENT_CACHE_MS) {
+    return documentCache.documents
+  }
+
+  const documents = (async () => {
+    if (supabase) {
+      try {
+        const rows = await loadHelpDocumentsFromDatabase(supabase)
+        if (rows.length > 0) return rows
+      } catch (error) {
+        console.warn('Could not load help_documents, using docs files:', error)
+      }
+    }
+    return loadHelpDocumentsFromFiles()
+  })()
+
+  documentCache = { loadedAt: Date.now(), documents }
+  documents.catch(() => { documentCache = null })
+  return documents
+}
+
+export function createHelpRetriever(supabase: SupabaseClient | null, env: Env = process.env): HelpRetriever {
+  const bm25 = createBm25HelpRetriever(() => loadBm25Documents(supabase))
+
+  switch (env.HELP_RETRIEVER) {
+    case 'bm25':
+      return bm25
+    case 'pgvector':
+      if (!supabase || !env.OPENAI_API_KEY) return bm25
+      return createFallbackRetriever(
+        createPgvectorRetriever(supabase, createOpenAIEmbedder(env.OPENAI_API_KEY)),
+        bm25
+      )
+    default:
+      return createGuideRetriever()
+  }
+}
+
+export function createHelpGenerator(env: Env = process.env): HelpGenerator {
+  const kind = env.HELP_GENERATOR || (env.ANTHROPIC_API_KEY ? 'anthropic' : 'extractive')
+  if (kind === 'anthropic') {
+    if (!env.ANTHROPIC_API_KEY) throw new Error('ANTHROPIC_API_KEY is not configured')
+    return createAnthropicGenerator(env.ANTHROPIC_API_KEY)
+  }
+  return createExtractiveGenerator()
+}
@@ -0,0 +1,107 @@
+import Anthropic from '@anthropic-ai/sdk'
+import type { HelpGenerator } from './types'
+
+const ANTHROPIC_MODEL = 'claude-sonnet-4-5-20250929'
+const ANTHROPIC_TIMEOUT_MS = 30000
+
+// Rounds of tool calls allowed before the model must answer with what it has
+const MAX_TOOL_ROUNDS = 4
+
+export function createAnthropicGenerator(apiKey: string): HelpGenerator {
+  const anthropic = new Anthropic({ apiKey })
+
+  const createMessage = (params: Anthropic.MessageCreateParamsNonStreaming) =>
+    Promise.race([
+      anthropic.messages.create(params),
+      new Promise((_, reject) =>
+        setTimeout(() => reject(new Error('Claude API timeout after 30s')), ANTHROPIC_TIMEOUT_MS)
+      ),
+    ]) as Promise<Anthropic.Message>
+
+  return {
+    provider: 'claude',
+    supportsTools: true,
+    async generate({ system, messages, maxTokens, temperature, tools, runTool }) {
+      const useTools = !!runTool && !!tools && tools.length > 0
+      const conversation: Anthropic.MessageParam[] = [...messages]
+      let tokensUsed = 0
+
+      for (let round = 0; ; round++) {
+        const allowTools = useTools && round < MAX_TOOL_ROUNDS
+        const response = await createMessage({
+          model: ANTHROPIC_MODEL,
+          max_tokens: maxTokens,
+          temperature,
+          system,
+          messages: conversation,
+          ...(useTools ? { tools: tools as Anthropic.Tool[] } : {}),
+          ...(useTools && !allowTools ? { tool_choice: { type: 'none' as const } } : {}),
+        })
+        tokensUsed += response.usage.input_tokens + response.usage.output_tokens
+
+        const toolUses = response.content.filter(
+          (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use'
+        )
+
+        if (!allowTools || response.stop_reason !== 'tool_use' || toolUses.length === 0) {
+          const text = response.content
+            .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+            .map((block) => block.text)
+            .join('\n\n')
+          return { text: text || 'Unable to generate response', tokensUsed }
+        }
+
+        const results: Anthropic.ToolResultBlockParam[] = []
+        for (const toolUse of toolUses) {
+          try {
+            const result = await runTool!(toolUse.name, (toolUse.input || {}) as Record<string, unknown>)
+            results.push({ type: 'tool_result', tool_use_id: toolUse.id, content: JSON.stringify(result) })
+          } catch (error) {
+            results.push({
+              type: 'tool_result',
+              tool_use_id: toolUse.id,
+              content: error instanceof Error ? error.message : 'Tool failed',
+              is_error: true,
+            })
+          }
+        }
+
+        conversation.push({ role: 'assistant', content: response.content })
+        conversation.push({ role: 'user', content: results })
+      }
+    },
+  }
+}
+
+const EXTRACT_LENGTH = 600
+
+/**
+ * Answers with an excerpt of the best retrieved passage instead of calling a
+ * model. Used offline and in development so the help flow works end to end
+ * without an API key.
+ */
+export function createExtractiveGenerator(): HelpGenerator {
+  return {
+    provider: 'extractive',
+    supportsTools: false,
+    async generate({ passages }) {
+      const best = passages[0]
+      if (!best) {
+        return { text: "I don't have information about that in the documentation.", tokensUsed: null }
+      }
+
+      const excerpt = best.content.length > EXTRACT_LENGTH
+        ? `${best.content.substring(0, EXTRACT_LENGTH).trimEnd()}...`
+        : best.content
+      const seeAlso = passages.slice(1, 3).map((passage) => `- ${passage.title}`)
+
+      const text = [
+        `From "${best.title}":`,
+        excerpt,
+        ...(seeAlso.length > 0 ? ['', 'See also:', ...seeAlso] : []),
+      ].join('\n')
+
+      return { text, tokensUsed: null }
+    },
+  }
+}
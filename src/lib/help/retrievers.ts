@@ -0,0 +1,80 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { searchGuide } from '@/lib/helpGuide'
+import type { HelpEmbedder, HelpPassage, HelpRetriever } from './types'
+
+/**
+ * Keyword search over the markdown guides in public/ (the original behaviour
+ * of the help chat)
+ */
+export function createGuideRetriever(): HelpRetriever {
+  return {
+    name: 'guide',
+    async retrieve(query, options = {}) {
+      const sections = searchGuide(query, options.role, options.isMobile, options.documentType)
+        .slice(0, options.limit ?? 5)
+
+      // searchGuide returns sections best first without scores, so score by rank
+      return sections.map((section, index): HelpPassage => ({
+        id: section.id,
+        title: section.title,
+        content: section.content,
+        keywords: section.keywords,
+        score: (sections.length - index) / sections.length,
+        documentId: section.documentId,
+        documentTitle: section.documentTitle,
+        examples: section.examples,
+        relatedLinks: section.relatedLinks,
+        mobileOnly: section.mobileOnly,
+      }))
+    },
+  }
+}
+
+const MATCH_THRESHOLD = 0.5
+
+/**
+ * Similarity search over help_documents embeddings via match_help_documents
+ */
+export function createPgvectorRetriever(supabase: SupabaseClient, embedder: HelpEmbedder): HelpRetriever {
+  return {
+    name: 'pgvector',
+    async retrieve(query, options = {}) {
+      const [embedding] = await embedder.embed([query])
+
+      const { data, error } = await supabase.rpc('match_help_documents', {
+        query_embedding: embedding,
+        match_threshold: MATCH_THRESHOLD,
+        match_count: options.limit ?? 5,
+        filter_roles: options.role ? [options.role] : ['all'],
+        filter_page: options.page ?? null,
+      })
+      if (error) throw error
+
+      return (data || []).map((row: any): HelpPassage => ({
+        id: row.doc_id,
+        title: row.title,
+        content: row.content,
+        keywords: [],
+        score: row.similarity,
+        documentId: row.category,
+      }))
+    },
+  }
+}
+
+/**
+ * Uses the primary retriever, dropping to the fallback when it throws
+ */
+export function createFallbackRetriever(primary: HelpRetriever, fallback: HelpRetriever): HelpRetriever {
+  return {
+    name: `${primary.name}+${fallback.name}`,
+    async retrieve(query, options) {
+      try {
+        return await primary.retrieve(query, options)
+      } catch (error) {
+        console.warn(`Help retriever ${primary.name} failed, using ${fallback.name}:`, error)
+        return fallback.retrieve(query, options)
+      }
+    },
+  }
+}
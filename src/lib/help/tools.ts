@@ -0,0 +1,346 @@
+/**
+ * Read-only data tools for the help assistant
+ *
+ * Every tool runs through the caller's own Supabase session, so RLS decides
+ * what they can see, and reuses the queries behind the matching API route:
+ *
+ *   search_projects   /api/search/unified
+ *   employer_eba      /api/eba/employers (and /non-eba)
+ *   patch_summary     /api/dashboard/patch-summaries
+ *   employer_rating   /api/employers/[employerId]/ratings
+ *
+ * Each invocation is recorded by the runner so the chat route can log it on
+ * help_interactions.
+ */
+
+import { fetchEbaEmployersData, type EmployerRow } from '@/lib/eba/ebaEmployersData'
+import { fetchPatchSummaries } from '@/lib/patchSummaries'
+import { getUserPatchIds, searchProjects } from '@/lib/search/unifiedSearch'
+import type { HelpRecordLink, HelpToolDefinition } from './types'
+
+// Same roles the underlying routes allow
+export const HELP_TOOL_ROLES: ReadonlySet<string> = new Set(['organiser', 'lead_organiser', 'admin'])
+
+const MAX_ROWS = 20
+
+export interface HelpToolContext {
+  supabase: any
+  userId: string
+  role: 'organiser' | 'lead_organiser' | 'admin'
+}
+
+export interface HelpToolResult {
+  data: unknown
+  records: HelpRecordLink[]
+}
+
+export interface HelpToolInvocation {
+  tool: string
+  input: Record<string, unknown>
+  status: 'ok' | 'error'
+  error?: string
+  record_count: number
+  duration_ms: number
+  invoked_at: string
+}
+
+export const HELP_TOOLS: HelpToolDefinition[] = [
+  {
+    name: 'search_projects',
+    description: 'Search active construction projects the user can see by name. Organisers and lead organisers only see projects in their patches. Returns each project with a link.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Part of the project name; leave empty to list recent projects' },
+        tiers: { type: 'array', items: { type: 'string' }, description: 'Optional project tiers, e.g. tier_1' },
+      },
+    },
+  },
+  {
+    name: 'employer_eba',
+    description: 'EBA status of employers with the projects they work on. Filter by employer name, contractor role (e.g. builder, head_contractor) or trade code. Use status "non_eba" with contractor_role "builder" to find projects whose builder has no active EBA.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        employer_name: { type: 'string', description: 'Part of the employer name' },
+        status: { type: 'string', enum: ['eba', 'non_eba'], description: 'Only employers with (eba) or without (non_eba) an active EBA; omit for both' },
+        contractor_role: { type: 'string', description: 'Contractor role code, e.g. builder' },
+        trade: { type: 'string', description: 'Trade code, e.g. scaffolding' },
+        my_patches_only: { type: 'boolean', description: "Only projects in the user's patches (default true)" },
+      },
+    },
+  },
+  {
+    name: 'patch_summary',
+    description: "Summary of the user's patches: project counts, EBA and known-builder coverage, key contractor coverage and organisers.",
+    input_schema: {
+      type: 'object',
+      properties: {
+        tier: { type: 'string' },
+        stage: { type: 'string' },
+        universe: { type: 'string' },
+        eba: { type: 'string' },
+      },
+    },
+  },
+  {
+    name: 'employer_rating',
+    description: 'Current traffic light rating for employers matching a name, with score, confidence and review dates.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        employer_name: { type: 'string', description: 'Part of the employer name' },
+      },
+      required: ['employer_name'],
+    },
+  },
+]
+
+function projectLink(project: { id: string; name: string }): HelpRecordLink {
+  return { type: 'project', id: project.id, label: project.name, url: `/projects/${project.id}` }
+}
+
+function employerLink(employer: { id: string; name: string }): HelpRecordLink {
+  return { type: 'employer', id: employer.id, label: employer.name, url: `/employers?q=${encodeURIComponent(employer.name)}` }
+}
+
+function patchLink(patch: { id: string; name: string }): HelpRecordLink {
+  return { type: 'patch', id: patch.id, label: patch.name, url: `/patch?patch=${patch.id}` }
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+async function runSearchProjects(context: HelpToolContext, input: Record<string, unknown>): Promise<HelpToolResult> {
+  const patchIds = await getUserPatchIds(context.supabase, context.userId, context.role)
+  const tiers = Array.isArray(input.tiers) ? input.tiers.filter((tier): tier is string => typeof tier === 'string') : []
+  const results = await searchProjects(
+    context.supabase,
+    optionalString(input.query) || '',
+    MAX_ROWS,
+    null,
+    tiers.length > 0 ? { project_tiers: tiers } : {},
+    patchIds
+  )
+
+  const projects = results.map(({ data }) => ({
+    id: data.id,
+    name: data.name,
+    tier: data.tier,
+    value: data.value,
+    stage: data.stage_class,
+    address: data.job_sites?.[0]?.full_address ?? null,
+    link: `/projects/${data.id}`,
+  }))
+
+  return { data: { projects }, records: projects.map(projectLink) }
+}
+
+async function projectIdsInPatches(supabase: any, patchIds: string[]): Promise<Set<string>> {
+  if (patchIds.length === 0) return new Set()
+  const { data, error } = await supabase
+    .from('v_patch_projects_current')
+    .select('project_id')
+    .in('patch_id', patchIds)
+  if (error) throw new Error(error.message)
+  return new Set((data || []).map((row: any) => String(row.project_id)))
+}
+
+async function runEmployerEba(context: HelpToolContext, input: Record<string, unknown>): Promise<HelpToolResult> {
+  const employerName = optionalString(input.employer_name)?.toLowerCase()
+  const contractorRole = optionalString(input.contractor_role)
+  const trade = optionalString(input.trade)
+  if (!employerName && !contractorRole && !trade) {
+    throw new Error('Provide an employer name, contractor role or trade')
+  }
+
+  const params = {
+    typeParam: contractorRole ? 'contractor_role' as const : trade ? 'trade' as const : null,
+    code: contractorRole || trade,
+    currentOnly: true,
+    includeDerived: true,
+    includeManual: true,
+    keyOnly: false,
+    includeExtendedData: true,
+    includePatchData: true,
+  }
+
+  const modes: Array<'eba' | 'non-eba'> = input.status === 'eba'
+    ? ['eba']
+    : input.status === 'non_eba' ? ['non-eba'] : ['eba', 'non-eba']
+
+  const rows: Array<EmployerRow & { eba_active: boolean }> = []
+  for (const mode of modes) {
+    const employers = await fetchEbaEmployersData(context.supabase, params, mode)
+    employers
+      .filter((employer) => !employerName || employer.employer_name.toLowerCase().includes(employerName))
+      .forEach((employer) => rows.push({ ...employer, eba_active: mode === 'eba' }))
+  }
+
+  const patchIds = input.my_patches_only === false
+    ? null
+    : await getUserPatchIds(context.supabase, context.userId, context.role)
+  const visibleProjects = patchIds ? await projectIdsInPatches(context.supabase, patchIds) : null
+
+  const employers = rows
+    .map((employer) => ({
+      ...employer,
+      projects: visibleProjects
+        ? employer.projects.filter((project) => visibleProjects.has(project.id))
+        : employer.projects,
+    }))
+    .filter((employer) => !visibleProjects || employer.projects.length > 0)
+
+  const records: HelpRecordLink[] = []
+  const data = employers.slice(0, MAX_ROWS).map((employer) => {
+    records.push(employerLink({ id: employer.employer_id, name: employer.employer_name }))
+    const projects = employer.projects.slice(0, MAX_ROWS).map((project) => {
+      records.push(projectLink(project))
+      return {
+        id: project.id,
+        name: project.name,
+        builder: project.builder_name ?? null,
+        link: `/projects/${project.id}`,
+      }
+    })
+    return {
+      id: employer.employer_id,
+      name: employer.employer_name,
+      eba_active: employer.eba_active,
+      patches: (employer.patch_assignments || []).map((patch) => patch.patch_name),
+      projects,
+      link: employerLink({ id: employer.employer_id, name: employer.employer_name }).url,
+    }
+  })
+
+  return { data: { total: employers.length, employers: data }, records }
+}
+
+async function runPatchSummary(context: HelpToolContext, input: Record<string, unknown>): Promise<HelpToolResult> {
+  const summaries = await fetchPatchSummaries(context.supabase, {
+    userId: context.userId,
+    userRole: context.role,
+    leadOrganizerId: context.role === 'lead_organiser' ? context.userId : undefined,
+    filters: {
+      tier: optionalString(input.tier),
+      stage: optionalString(input.stage),
+      universe: optionalString(input.universe),
+      eba: optionalString(input.eba),
+    },
+  })
+
+  const patches = summaries.slice(0, MAX_ROWS).map((summary) => ({
+    ...summary,
+    link: `/patch?patch=${summary.patchId}`,
+  }))
+
+  return {
+    data: { patches },
+    records: patches.map((patch) => patchLink({ id: patch.patchId, name: patch.patchName })),
+  }
+}
+
+async function runEmployerRating(context: HelpToolContext, input: Record<string, unknown>): Promise<HelpToolResult> {
+  const employerName = optionalString(input.employer_name)
+  if (!employerName) throw new Error('employer_name is required')
+
+  const { data: employers, error } = await context.supabase
+    .from('employers')
+    .select('id, name')
+    .ilike('name', `%${employerName.replace(/[%_\\]/g, '\\$&')}%`)
+    .order('name')
+    .limit(5)
+  if (error) throw new Error(error.message)
+  if (!employers || employers.length === 0) return { data: { employers: [] }, records: [] }
+
+  const { data: ratings, error: ratingError } = await context.supabase
+    .from('employer_final_ratings')
+    .select('employer_id, rating_date, final_rating, final_score, overall_confidence, eba_status, project_based_rating, expertise_based_rating, rating_status, next_review_date')
+    .in('employer_id', employers.map((employer: any) => employer.id))
+    .eq('is_active', true)
+    .order('rating_date', { ascending: false })
+  if (ratingError) throw new Error(ratingError.message)
+
+  const latestByEmployer = new Map<string, any>()
+  ;(ratings || []).forEach((rating: any) => {
+    if (!latestByEmployer.has(rating.employer_id)) latestByEmployer.set(rating.employer_id, rating)
+  })
+
+  const records = employers.map((employer: any) => employerLink(employer))
+  return {
+    data: {
+      employers: employers.map((employer: any, index: number) => {
+        const { employer_id, ...rating } = latestByEmployer.get(employer.id) || {}
+        return {
+          id: employer.id,
+          name: employer.name,
+          rating: employer_id ? rating : null,
+          link: records[index].url,
+        }
+      }),
+    },
+    records,
+  }
+}
+
+const EXECUTORS: Record<string, (context: HelpToolContext, input: Record<string, unknown>) => Promise<HelpToolResult>> = {
+  search_projects: runSearchProjects,
+  employer_eba: runEmployerEba,
+  patch_summary: runPatchSummary,
+  employer_rating: runEmployerRating,
+}
+
+export function executeHelpTool(
+  context: HelpToolContext,
+  name: string,
+  input: Record<string, unknown>
+): Promise<HelpToolResult> {
+  const executor = EXECUTORS[name]
+  if (!executor) return Promise.reject(new Error(`Unknown tool: ${name}`))
+  return executor(context, input)
+}
+
+/**
+ * Wraps tool execution for one chat request, keeping an audit entry per call
+ * and the distinct records the answer drew on
+ */
+export function createHelpToolRunner(
+  context: HelpToolContext,
+  execute: typeof executeHelpTool = executeHelpTool
+) {
+  const invocations: HelpToolInvocation[] = []
+  const records = new Map<string, HelpRecordLink>()
+
+  return {
+    invocations,
+    records: () => Array.from(records.values()),
+    async run(name: string, input: Record<string, unknown>): Promise<unknown> {
+      const startedAt = Date.now()
+      try {
+        const result = await execute(context, name, input)
+        result.records.forEach((record) => records.set(`${record.type}:${record.id}`, record))
+        invocations.push({
+          tool: name,
+          input,
+          status: 'ok',
+          record_count: result.records.length,
+          duration_ms: Date.now() - startedAt,
+          invoked_at: new Date(startedAt).toISOString(),
+        })
+        return result.data
+      } catch (error) {
+        invocations.push({
+          tool: name,
+          input,
+          status: 'error',
+          error: error instanceof Error ? error.message : String(error),
+          record_count: 0,
+          duration_ms: Date.now() - startedAt,
+          invoked_at: new Date(startedAt).toISOString(),
+        })
+        throw error
+      }
+    },
+  }
+}
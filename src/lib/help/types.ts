@@ -0,0 +1,95 @@
+/**
+ * Interfaces the help assistant depends on for retrieval, embedding and
+ * answer generation. Each has a hosted implementation and a local one so
+ * the help system can be run and tested without network access.
+ */
+
+export interface HelpPassage {
+  id: string
+  title: string
+  content: string
+  keywords: string[]
+  score: number
+  documentId?: string
+  documentTitle?: string
+  examples?: string[]
+  relatedLinks?: Array<{ label: string; url: string }>
+  mobileOnly?: boolean
+}
+
+export interface HelpRetrievalOptions {
+  role?: string
+  page?: string
+  isMobile?: boolean
+  documentType?: 'user-guide' | 'workflow-guide' | 'mobile-guide' | 'system-guide'
+  limit?: number
+}
+
+export interface HelpRetriever {
+  name: string
+  retrieve(query: string, options?: HelpRetrievalOptions): Promise<HelpPassage[]>
+}
+
+/**
+ * A row of help_documents, or the same shape loaded from the docs JSON files
+ */
+export interface HelpDocumentRecord {
+  doc_id: string
+  title: string
+  category: string
+  content: string
+  keywords: string[]
+  roles: string[]
+  pages: string[]
+}
+
+export interface HelpEmbedder {
+  model: string
+  embed(texts: string[]): Promise<number[][]>
+}
+
+/**
+ * A read-only data lookup the generator may call, described in the JSON
+ * Schema form model tool APIs expect
+ */
+export interface HelpToolDefinition {
+  name: string
+  description: string
+  input_schema: {
+    type: 'object'
+    properties: Record<string, unknown>
+    required?: string[]
+  }
+}
+
+/** A record a tool returned, cited back to the user as a deep link */
+export interface HelpRecordLink {
+  type: 'project' | 'employer' | 'patch'
+  id: string
+  label: string
+  url: string
+}
+
+export interface HelpGenerationRequest {
+  system: string
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>
+  passages: HelpPassage[]
+  maxTokens: number
+  temperature: number
+  tools?: HelpToolDefinition[]
+  /** Runs a tool call and returns the result to hand back to the model */
+  runTool?: (name: string, input: Record<string, unknown>) => Promise<unknown>
+}
+
+export interface HelpGenerationResult {
+  text: string
+  tokensUsed: number | null
+}
+
+export interface HelpGenerator {
+  /** Recorded as ai_provider on help_interactions */
+  provider: string
+  /** Whether generate() uses the tools passed in the request */
+  supportsTools: boolean
+  generate(request: HelpGenerationRequest): Promise<HelpGenerationResult>
+}
@@ -381,3 +381,107 @@ export async function fetchMappingSheetData(
   }
 }
 
+
+export type SiteContactRole = 'project_manager' | 'site_manager' | 'site_delegate' | 'site_hsr'
+
+export interface MappingSheetPrintData {
+  project: {
+    id: string;
+    name: string;
+    value: number | null;
+    projectType: string | null;
+    stateFunding: number | null;
+    federalFunding: number | null;
+    proposedStartDate: string | null;
+    proposedFinishDate: string | null;
+    roeEmail: string | null;
+    address: string | null;
+  };
+  organisers: string[];
+  siteContacts: Array<{ role: string; name: string; email: string | null; phone: string | null }>;
+  mappingSheet: MappingSheetData;
+}
+
+/**
+ * Everything printed on a pre-filled mapping sheet: the mapping sheet data
+ * plus the project fields, main site address, site contacts and the
+ * organisers currently assigned to the project's patches.
+ */
+export async function fetchMappingSheetPrintData(
+  supabase: Client,
+  projectId: string
+): Promise<MappingSheetPrintData> {
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('id, name, value, project_type, state_funding, federal_funding, proposed_start_date, proposed_finish_date, roe_email, main_job_site_id')
+    .eq('id', projectId)
+    .maybeSingle()
+
+  if (projectError || !project) {
+    throw new Error('Project not found')
+  }
+
+  const mappingSheet = await fetchMappingSheetData(supabase, projectId)
+
+  let address: string | null = null
+  let siteContacts: MappingSheetPrintData['siteContacts'] = []
+  if (project.main_job_site_id) {
+    const [{ data: site }, { data: contacts }] = await Promise.all([
+      supabase
+        .from('job_sites')
+        .select('full_address, location')
+        .eq('id', project.main_job_site_id)
+        .maybeSingle(),
+      supabase
+        .from('site_contacts')
+        .select('role, name, email, phone')
+        .eq('job_site_id', project.main_job_site_id),
+    ])
+    address = site?.full_address || site?.location || null
+    siteContacts = (contacts || []).map((contact: any) => ({
+      role: contact.role,
+      name: contact.name,
+      email: contact.email || null,
+      phone: contact.phone || null,
+    }))
+  }
+
+  const { data: patchLinks } = await (supabase as any)
+    .from('patch_projects')
+    .select('patch_id')
+    .eq('project_id', projectId)
+
+  const patchIds = (patchLinks || []).map((link: any) => link.patch_id).filter(Boolean)
+  const organisers: string[] = []
+  if (patchIds.length > 0) {
+    const { data: assignments } = await (supabase as any)
+      .from('organiser_patch_assignments')
+      .select('organiser_id, profiles:organiser_id(full_name)')
+      .is('effective_to', null)
+      .in('patch_id', patchIds)
+
+    ;(assignments || []).forEach((assignment: any) => {
+      const profile = Array.isArray(assignment.profiles) ? assignment.profiles[0] : assignment.profiles
+      const name = profile?.full_name as string | undefined
+      if (name && !organisers.includes(name)) organisers.push(name)
+    })
+  }
+
+  return {
+    project: {
+      id: project.id,
+      name: project.name,
+      value: project.value ?? null,
+      projectType: project.project_type ?? null,
+      stateFunding: project.state_funding ?? null,
+      federalFunding: project.federal_funding ?? null,
+      proposedStartDate: project.proposed_start_date ?? null,
+      proposedFinishDate: project.proposed_finish_date ?? null,
+      roeEmail: project.roe_email ?? null,
+      address,
+    },
+    organisers,
+    siteContacts,
+    mappingSheet,
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Tests for field-level offline sync conflict review
+ *
+ * Run with: npm test src/lib/mobile/__tests__/conflicts.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { formatFieldLabel, getFieldConflicts, resolveFieldConflicts } from '../conflicts'
+
+describe('getFieldConflicts', () => {
+  it('should list every differing field when there is no base copy', () => {
+    const conflicts = getFieldConflicts(
+      'site_visit',
+      { id: 'v1', date: '2026-01-20', notes: 'Met delegates', visit_status: 'completed', row_version: 1 },
+      { id: 'v1', date: '2026-01-20', notes: 'Site closed', visit_status: 'draft', row_version: 3 }
+    )
+
+    expect(conflicts.map((conflict) => conflict.field)).toEqual(['notes', 'visit_status'])
+    expect(conflicts[0]).toMatchObject({ localValue: 'Met delegates', serverValue: 'Site closed' })
+  })
+
+  it('should only report fields both sides changed when the base copy is known', () => {
+    const base = { projectUpdates: { name: 'Tower A', value: 100, roe_email: null }, addressUpdate: '1 Main St', row_version: 4 }
+    const local = { projectUpdates: { name: 'Tower A East', value: 100, roe_email: 'roe@example.com' }, addressUpdate: '1 Main St', row_version: 4 }
+    const server = { projectUpdates: { name: 'Tower A West', value: 250, roe_email: null }, addressUpdate: '1 Main St', row_version: 6 }
+
+    const conflicts = getFieldConflicts('mapping_sheet', local, server, base)
+
+    expect(conflicts.map((conflict) => conflict.field)).toEqual(['name'])
+  })
+
+  it('should only compare compliance fields the local edit carries', () => {
+    const conflicts = getFieldConflicts(
+      'compliance_check',
+      { cbus_payment_status: 'incorrect', base_check_id: 'c1' },
+      { id: 'c2', project_id: 'p1', cbus_payment_status: 'correct', incolink_notes: 'Checked' }
+    )
+
+    expect(conflicts.map((conflict) => conflict.field)).toEqual(['cbus_payment_status'])
+  })
+
+  it('should treat empty strings and missing values as the same', () => {
+    expect(getFieldConflicts('site_visit', { notes: '' }, { notes: null })).toEqual([])
+  })
+})
+
+describe('resolveFieldConflicts', () => {
+  it('should apply per-field choices and adopt the server version stamp', () => {
+    const resolved = resolveFieldConflicts(
+      'site_visit',
+      { id: 'v1', notes: 'Mine', visit_status: 'completed', row_version: 1 },
+      { id: 'v1', notes: 'Theirs', visit_status: 'draft', row_version: 2 },
+      null,
+      { notes: 'server' }
+    )
+
+    expect(resolved).toEqual({ id: 'v1', notes: 'Theirs', visit_status: 'completed', row_version: 2 })
+  })
+
+  it('should take server values for fields only the server changed', () => {
+    const base = { projectUpdates: { name: 'Tower A', value: 100 }, addressUpdate: '1 Main St', row_version: 4 }
+    const local = { projectUpdates: { name: 'Tower A', value: 120 }, addressUpdate: '1 Main St', siteContactUpdates: [], row_version: 4 }
+    const server = { projectUpdates: { name: 'Tower A (Stage 2)', value: 100 }, addressUpdate: '2 Main St', row_version: 5 }
+
+    const resolved = resolveFieldConflicts('mapping_sheet', local, server, base, {})
+
+    expect(resolved).toEqual({
+      projectUpdates: { name: 'Tower A (Stage 2)', value: 120 },
+      addressUpdate: '2 Main St',
+      siteContactUpdates: [],
+      row_version: 5,
+    })
+  })
+
+  it('should rebase compliance edits onto the current check', () => {
+    const resolved = resolveFieldConflicts(
+      'compliance_check',
+      { cbus_notes: 'Late again', base_check_id: 'c1' },
+      { id: 'c2', cbus_notes: 'Paid up' },
+      null,
+      {}
+    )
+
+    expect(resolved).toEqual({ cbus_notes: 'Late again', base_check_id: 'c2' })
+  })
+})
+
+describe('formatFieldLabel', () => {
+  it('should humanise column names', () => {
+    expect(formatFieldLabel('cbus_payment_status')).toBe('CBUS payment status')
+    expect(formatFieldLabel('roe_email')).toBe('ROE email')
+  })
+})
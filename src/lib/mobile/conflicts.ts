@@ -0,0 +1,194 @@
+/**
+ * Field-level conflict review for edits captured offline
+ *
+ * Each offline entity maps its queued payload to a flat set of reviewable
+ * fields. Comparing the local edit, the server copy and (when known) the copy
+ * the edit started from separates real conflicts, where both sides changed a
+ * field, from changes that can be taken from one side without asking.
+ */
+
+export type OfflineEntity = 'site_visit' | 'compliance_check' | 'mapping_sheet'
+
+export type FieldChoice = 'local' | 'server'
+
+export interface FieldConflict {
+  field: string
+  label: string
+  localValue: unknown
+  serverValue: unknown
+}
+
+interface EntityFieldAdapter {
+  /** Reviewable fields in a payload or server copy */
+  read: (data: any) => Record<string, unknown>
+  /** Payload with the given fields applied */
+  write: (data: any, fields: Record<string, unknown>) => any
+  /** Payload stamped with the server copy's version so it applies cleanly */
+  rebase: (data: any, serverData: any) => any
+}
+
+const SITE_VISIT_FIELDS = ['date', 'notes', 'actions_taken', 'visit_status']
+
+const MAPPING_PROJECT_FIELDS = [
+  'name',
+  'value',
+  'proposed_start_date',
+  'proposed_finish_date',
+  'project_type',
+  'state_funding',
+  'federal_funding',
+  'roe_email',
+]
+
+// Bookkeeping columns on employer_compliance_checks that offline edits never set
+const COMPLIANCE_META_FIELDS = new Set([
+  'id',
+  'project_id',
+  'employer_id',
+  'is_current',
+  'version',
+  'created_at',
+  'updated_at',
+  'updated_by',
+  'effective_from',
+  'effective_to',
+  'base_check_id',
+  'employers',
+])
+
+const FIELD_LABELS: Record<string, string> = {
+  roe_email: 'ROE email',
+  address: 'Address',
+  value: 'Project value',
+  name: 'Project name',
+}
+
+function pick(data: Record<string, unknown> | null | undefined, fields: string[]): Record<string, unknown> {
+  const picked: Record<string, unknown> = {}
+  for (const field of fields) {
+    if (data && data[field] !== undefined) picked[field] = data[field]
+  }
+  return picked
+}
+
+/**
+ * Compliance check fields an offline edit may carry
+ */
+export function readComplianceFields(data: Record<string, unknown> | null | undefined): Record<string, unknown> {
+  const fields: Record<string, unknown> = {}
+  for (const [field, value] of Object.entries(data ?? {})) {
+    if (!COMPLIANCE_META_FIELDS.has(field) && value !== undefined) fields[field] = value
+  }
+  return fields
+}
+
+const ADAPTERS: Record<OfflineEntity, EntityFieldAdapter> = {
+  site_visit: {
+    read: (data) => pick(data, SITE_VISIT_FIELDS),
+    write: (data, fields) => ({ ...data, ...fields }),
+    rebase: (data, serverData) => ({ ...data, row_version: serverData?.row_version ?? data.row_version }),
+  },
+  compliance_check: {
+    read: readComplianceFields,
+    write: (data, fields) => ({ ...data, ...fields }),
+    rebase: (data, serverData) => ({ ...data, base_check_id: serverData?.id ?? null }),
+  },
+  mapping_sheet: {
+    read: (data) => ({
+      ...pick(data?.projectUpdates, MAPPING_PROJECT_FIELDS),
+      ...(data?.addressUpdate !== undefined ? { address: data.addressUpdate } : {}),
+    }),
+    write: (data, fields) => {
+      const { address, ...projectFields } = fields
+      return {
+        ...data,
+        projectUpdates: { ...data.projectUpdates, ...projectFields },
+        ...(address !== undefined ? { addressUpdate: address } : {}),
+      }
+    },
+    rebase: (data, serverData) => ({ ...data, row_version: serverData?.row_version ?? data.row_version }),
+  },
+}
+
+function normalise(value: unknown): unknown {
+  if (value === undefined || value === '') return null
+  if (Array.isArray(value)) return [...value].map(normalise).sort()
+  return value
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalise(a)) === JSON.stringify(normalise(b))
+}
+
+export function formatFieldLabel(field: string): string {
+  if (FIELD_LABELS[field]) return FIELD_LABELS[field]
+  const words = field.split('_').map((word) => (word === 'cbus' || word === 'abn' ? word.toUpperCase() : word))
+  const label = words.join(' ')
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
+
+export function formatFieldValue(value: unknown): string {
+  const normalised = normalise(value)
+  if (normalised === null) return '—'
+  if (typeof normalised === 'boolean') return normalised ? 'Yes' : 'No'
+  if (Array.isArray(normalised)) return normalised.length > 0 ? normalised.join(', ') : '—'
+  if (typeof normalised === 'object') return JSON.stringify(normalised)
+  return String(normalised)
+}
+
+/**
+ * Fields both sides changed to different values. Without a base copy every
+ * differing field counts, since there's no way to tell who changed it.
+ */
+export function getFieldConflicts(
+  entity: OfflineEntity,
+  localData: any,
+  serverData: any,
+  baseData?: any
+): FieldConflict[] {
+  const adapter = ADAPTERS[entity]
+  const local = adapter.read(localData)
+  const server = adapter.read(serverData)
+  const base = baseData ? adapter.read(baseData) : null
+
+  return Object.keys(local)
+    .filter((field) => {
+      if (sameValue(local[field], server[field])) return false
+      if (!base) return true
+      return !sameValue(local[field], base[field]) && !sameValue(server[field], base[field])
+    })
+    .map((field) => ({
+      field,
+      label: formatFieldLabel(field),
+      localValue: local[field],
+      serverValue: server[field],
+    }))
+}
+
+/**
+ * Build the payload to resend after review. Fields without an explicit choice
+ * keep the local value, except ones only the server changed, which take the
+ * server value so an untouched field doesn't overwrite someone else's edit.
+ */
+export function resolveFieldConflicts(
+  entity: OfflineEntity,
+  localData: any,
+  serverData: any,
+  baseData: any,
+  choices: Record<string, FieldChoice>
+): any {
+  const adapter = ADAPTERS[entity]
+  const local = adapter.read(localData)
+  const server = adapter.read(serverData)
+  const base = baseData ? adapter.read(baseData) : null
+
+  const resolved: Record<string, unknown> = {}
+  for (const field of Object.keys(local)) {
+    const onlyServerChanged =
+      base !== null && sameValue(local[field], base[field]) && !sameValue(server[field], base[field])
+    const choice = choices[field] ?? (onlyServerChanged ? 'server' : 'local')
+    resolved[field] = choice === 'server' ? server[field] ?? null : local[field]
+  }
+
+  return adapter.rebase(adapter.write(localData, resolved), serverData)
+}
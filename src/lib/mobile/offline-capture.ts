@@ -0,0 +1,98 @@
+/**
+ * Queues site visits, compliance checks and mapping-sheet edits captured while
+ * offline. Each operation records the entity and the server copy it started
+ * from so conflicts can be reviewed field by field once it syncs.
+ */
+
+import {
+  SyncQueue,
+  complianceAuditSyncQueue,
+  projectMappingSyncQueue,
+  siteVisitSyncQueue
+} from './sync-queue'
+import type { OfflineEntity } from './conflicts'
+
+export const OFFLINE_SYNC_QUEUES: Record<OfflineEntity, SyncQueue> = {
+  site_visit: siteVisitSyncQueue,
+  compliance_check: complianceAuditSyncQueue,
+  mapping_sheet: projectMappingSyncQueue
+}
+
+export interface OfflineSiteVisit {
+  id: string
+  date: string
+  project_id: string
+  job_site_id: string
+  employer_ids: string[]
+  notes: string | null
+  visit_status: 'draft' | 'completed'
+  reasons: Array<{ reason_definition_id: string; notes: string | null }>
+}
+
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && !navigator.onLine
+}
+
+export function createOfflineRecordId(): string {
+  return crypto.randomUUID()
+}
+
+/**
+ * Queue a new site visit; it is created under `visit.id` when it syncs
+ */
+export async function queueSiteVisit(visit: OfflineSiteVisit, label: string): Promise<string> {
+  return siteVisitSyncQueue.addOperation({
+    type: 'update',
+    endpoint: `/mobile/sync/site-visits/${visit.id}`,
+    data: visit,
+    entity: 'site_visit',
+    recordId: visit.id,
+    label
+  })
+}
+
+/**
+ * Queue a compliance edit against the current check it was made from
+ */
+export async function queueComplianceCheck(params: {
+  projectId: string
+  employerId: string
+  baseCheck: Record<string, any> | null
+  updates: Record<string, unknown>
+  label: string
+}): Promise<string> {
+  const { projectId, employerId, baseCheck, updates, label } = params
+
+  return complianceAuditSyncQueue.addOperation({
+    type: 'update',
+    endpoint: `/mobile/sync/compliance/${projectId}/${employerId}`,
+    data: { ...updates, base_check_id: baseCheck?.id ?? null },
+    entity: 'compliance_check',
+    recordId: `${projectId}:${employerId}`,
+    baseData: baseCheck,
+    label
+  })
+}
+
+/**
+ * Queue a mapping sheet submission against the project version it was made from
+ */
+export async function queueMappingSheetEdit(params: {
+  projectId: string
+  rowVersion: number | null
+  base: { projectUpdates: Record<string, unknown>; addressUpdate: string | null }
+  submission: Record<string, any>
+  label: string
+}): Promise<string> {
+  const { projectId, rowVersion, base, submission, label } = params
+
+  return projectMappingSyncQueue.addOperation({
+    type: 'update',
+    endpoint: `/projects/${projectId}/mapping-sheet`,
+    data: { ...submission, row_version: rowVersion },
+    entity: 'mapping_sheet',
+    recordId: projectId,
+    baseData: { ...base, row_version: rowVersion },
+    label
+  })
+}
@@ -26,8 +26,17 @@ interface SyncOperation {
   data: any
   timestamp: number
   retries: number
-  status: 'pending' | 'syncing' | 'completed' | 'failed'
+  status: 'pending' | 'syncing' | 'completed' | 'failed' | 'conflict'
   lastError?: string
+  // Record-level metadata used to review conflicts
+  entity?: string
+  recordId?: string
+  label?: string
+  baseData?: any // Server copy the local edit started from
+  conflict?: {
+    serverData: any
+    detectedAt: number
+  }
 }
 
 class IndexedDBStorage {
@@ -261,6 +270,13 @@ class IndexedDBStorage {
    * Get pending sync operations
    */
   async getPendingSyncOperations(): Promise<SyncOperation[]> {
+    return this.getSyncOperationsByStatus('pending')
+  }
+
+  /**
+   * Get sync operations with a given status
+   */
+  async getSyncOperationsByStatus(status: SyncOperation['status']): Promise<SyncOperation[]> {
     await this.init()
 
     if (!this.db) {
@@ -271,7 +287,7 @@ class IndexedDBStorage {
       const transaction = this.db!.transaction(['sync_operations'], 'readonly')
       const store = transaction.objectStore('sync_operations')
       const index = store.index('status')
-      const request = index.getAll('pending')
+      const request = index.getAll(status)
 
       request.onerror = () => reject(request.error)
       request.onsuccess = () => {
@@ -129,10 +129,14 @@ class SyncQueue {
           })
           await this.storage.deleteSyncOperation(operation.id)
         } else if (result.conflictData) {
+          // Parked until the organiser reviews it; see resolveConflict()
           await this.storage.updateSyncOperation(operation.id, {
-            status: 'pending',
-            retries: operation.retries + 1,
-            lastError: result.error
+            status: 'conflict',
+            lastError: result.error,
+            conflict: {
+              serverData: result.conflictData,
+              detectedAt: Date.now()
+            }
           })
         } else {
           await this.storage.updateSyncOperation(operation.id, {
@@ -149,8 +153,9 @@ class SyncQueue {
           error: errorMessage
         })
 
+        // Retryable errors (network, 5xx) stay queued for the next pass
         await this.storage.updateSyncOperation(operation.id, {
-          status: 'failed',
+          status: operation.retries + 1 < this.config.maxRetries ? 'pending' : 'failed',
           retries: operation.retries + 1,
           lastError: errorMessage
         })
@@ -226,7 +231,13 @@ class SyncQueue {
         if (this.onConflictCallback) {
           resolution = await this.onConflictCallback(conflict)
         } else {
-          resolution = 'local' // Fallback
+          // No one to ask right now: keep both versions for later review
+          return {
+            success: false,
+            operationId: operation.id,
+            error: 'Conflict awaiting review',
+            conflictData: serverData
+          }
         }
         break
       case 'client':
@@ -334,6 +345,44 @@ class SyncQueue {
     }
   }
 
+  /**
+   * Get operations parked for conflict review
+   */
+  async getConflicts(): Promise<SyncOperation[]> {
+    return this.storage.getSyncOperationsByStatus('conflict')
+  }
+
+  /**
+   * Resolve a parked conflict. 'server' discards the local change; 'local' and
+   * 'merge' requeue the operation with the resolved data, which should carry
+   * the server's version stamp so it applies cleanly.
+   */
+  async resolveConflict(
+    operationId: string,
+    resolution: 'local' | 'server' | 'merge',
+    resolvedData?: any
+  ): Promise<void> {
+    const conflicts = await this.getConflicts()
+    const operation = conflicts.find(op => op.id === operationId)
+    if (!operation) return
+
+    if (resolution === 'server') {
+      await this.storage.deleteSyncOperation(operationId)
+      return
+    }
+
+    await this.storage.updateSyncOperation(operationId, {
+      status: 'pending',
+      data: resolvedData ?? operation.data,
+      lastError: undefined,
+      conflict: undefined
+    })
+
+    if (navigator.onLine) {
+      this.processQueue().catch(console.error)
+    }
+  }
+
   /**
    * Get sync queue statistics
    */
@@ -387,7 +436,8 @@ export const projectMappingSyncQueue = new SyncQueue(
     maxRetries: 5,
     retryDelay: 10000, // 10 seconds
     batchDelay: 2000, // 2 seconds
-    maxBatchSize: 5
+    maxBatchSize: 5,
+    conflictResolution: 'prompt'
   }
 )
 
@@ -401,7 +451,23 @@ export const complianceAuditSyncQueue = new SyncQueue(
     maxRetries: 3,
     retryDelay: 15000, // 15 seconds
     batchDelay: 3000, // 3 seconds
-    maxBatchSize: 3
+    maxBatchSize: 3,
+    conflictResolution: 'prompt'
+  }
+)
+
+export const siteVisitSyncQueue = new SyncQueue(
+  new IndexedDBStorage({
+    dbName: 'CFMEU-Mobile-SiteVisits',
+    version: 1,
+    storeName: 'visits'
+  }),
+  {
+    maxRetries: 5,
+    retryDelay: 10000, // 10 seconds
+    batchDelay: 1000, // 1 second
+    maxBatchSize: 5,
+    conflictResolution: 'prompt'
   }
 )
 
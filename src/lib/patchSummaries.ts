@@ -0,0 +1,97 @@
+import { mergeOrganiserNameLists, PENDING_USER_DASHBOARD_STATUSES } from '@/utils/organiserDisplay'
+
+export interface PatchSummaryData {
+  patchId: string
+  patchName: string
+  organiserNames: string[]
+  projectCount: number
+  ebaProjectsCount: number
+  ebaProjectsPercentage: number
+  knownBuilderCount: number
+  knownBuilderPercentage: number
+  keyContractorCoverage: number
+  keyContractorEbaPercentage: number
+  lastUpdated: string
+}
+
+export interface PatchSummaryFilters {
+  tier?: string
+  stage?: string
+  universe?: string
+  eba?: string
+}
+
+/**
+ * Patch summaries for a user via get_patch_summaries_for_user, with pending
+ * organisers merged into each patch's organiser names. Throws the RPC error
+ * as-is so callers can map its code (42501 forbidden, 22023 bad input).
+ */
+export async function fetchPatchSummaries(
+  supabase: any,
+  params: {
+    userId: string
+    userRole: 'organiser' | 'lead_organiser' | 'admin'
+    leadOrganizerId?: string
+    filters?: PatchSummaryFilters
+  }
+): Promise<PatchSummaryData[]> {
+  const filters = params.filters || {}
+  const { data: summariesData, error } = await supabase.rpc('get_patch_summaries_for_user', {
+    p_user_id: params.userId,
+    p_user_role: params.userRole,
+    p_lead_organiser_id: params.leadOrganizerId || null,
+    p_filters: Object.keys(filters).some(key => filters[key as keyof PatchSummaryFilters])
+      ? filters
+      : null
+  })
+
+  if (error) throw error
+
+  // Transform data to match client interface
+  let summaries: PatchSummaryData[] = (summariesData || []).map((row: any) => ({
+    patchId: row.patch_id,
+    patchName: row.patch_name,
+    organiserNames: row.organiser_names || [],
+    projectCount: row.project_count || 0,
+    ebaProjectsCount: row.eba_projects_count || 0,
+    ebaProjectsPercentage: row.eba_projects_percentage || 0,
+    knownBuilderCount: row.known_builder_count || 0,
+    knownBuilderPercentage: row.known_builder_percentage || 0,
+    keyContractorCoverage: row.key_contractor_coverage || 0,
+    keyContractorEbaPercentage: row.key_contractor_eba_percentage || 0,
+    lastUpdated: row.last_updated || new Date().toISOString()
+  }))
+
+  if (summaries.length > 0) {
+    const patchIdSet = new Set(summaries.map((summary) => summary.patchId))
+    const { data: pendingRows, error: pendingError } = await supabase
+      .from('pending_users')
+      .select('full_name, email, role, status, assigned_patch_ids')
+      .in('status', Array.from(PENDING_USER_DASHBOARD_STATUSES))
+
+    if (pendingError) {
+      console.error('Failed to load pending organisers for summaries:', pendingError)
+    } else if (pendingRows && pendingRows.length > 0) {
+      const pendingByPatch = new Map<string, any[]>()
+      pendingRows.forEach((row: any) => {
+        const assigned: any[] = Array.isArray(row.assigned_patch_ids) ? row.assigned_patch_ids : []
+        assigned.forEach((pidRaw) => {
+          const pid = String(pidRaw)
+          if (!patchIdSet.has(pid)) return
+          if (!pendingByPatch.has(pid)) pendingByPatch.set(pid, [])
+          pendingByPatch.get(pid)!.push(row)
+        })
+      })
+
+      summaries = summaries.map((summary) => {
+        const pendingForPatch = pendingByPatch.get(summary.patchId) || []
+        return {
+          ...summary,
+          organiserNames: mergeOrganiserNameLists(summary.organiserNames, pendingForPatch)
+        }
+      })
+    }
+  }
+
+  return summaries
+}
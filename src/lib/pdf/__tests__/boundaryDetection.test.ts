@@ -0,0 +1,105 @@
+/**
+ * Tests for MappingSheets layout boundary detection
+ *
+ * Run with: npm test src/lib/pdf/__tests__/boundaryDetection.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  detectProjectBoundaries,
+  extractFieldValue,
+  measureBoundaryAccuracy,
+  UNNAMED_PROJECT,
+} from '../boundaryDetection'
+
+// Text layers as OCR produces them from scanned forms: split words, l read as I or [
+const detailsPage = (projectName: string, address: string) => [
+  'MappingSheets.   NEW   SOUTH   WALES',
+  'Organiser:   A   Hvrat',
+  `Proj   ect   N a   me   :   ${projectName}`,
+  'Government   Private   State   Funding:   FederaI   Funding:',
+  'Project   Va[ue:',
+  `Ad d ress:   ${address}`,
+  'B uiLder:   Proposed   finish   date',
+  'EBA   With   CFMEU:   Yes   No',
+  'Site   Contacts:   Role   Name   Phone   Email',
+].join('\n')
+
+const subcontractorPage = [
+  'Subcontractors.',
+  'Stage.   Trade.   Company.   EBA   (Y/N)',
+  'Early   works   Demo   Excavations',
+  'Structure   Tower   Crane   Formwork   Scaffold',
+  'Finishing   Landscaping',
+].join('\n')
+
+describe('detectProjectBoundaries', () => {
+  it('starts a project at each details page', () => {
+    const result = detectProjectBoundaries([
+      detailsPage('Harbour View Apartments', '12 Smith St, Parramatta'),
+      subcontractorPage,
+      detailsPage('Westfield Stage 2', '1 Church St, Hornsby'),
+      subcontractorPage,
+      subcontractorPage,
+    ])
+
+    expect(result.detectionMethod).toBe('layout_anchors')
+    expect(result.projects.map(({ startPage, endPage }) => [startPage, endPage])).toEqual([[1, 2], [3, 5]])
+    expect(result.projects[0].projectName).toBe('Harbour View Apartments')
+    expect(result.projects[0].projectAddress).toBe('12 Smith St, Parramatta')
+    expect(result.projects[1].reasoning).toContain('3-page project')
+    expect(result.confidence).toBeGreaterThanOrEqual(0.7)
+  })
+
+  it('uses the placeholder name when the handwriting OCR is noise', () => {
+    const result = detectProjectBoundaries([detailsPage('?o.,.t,r hc-lse', '~~ ,. 4'), subcontractorPage])
+
+    expect(result.projects[0].projectName).toBe(UNNAMED_PROJECT)
+    expect(result.projects[0].projectAddress).toBeNull()
+  })
+
+  it('keeps short addresses where the street number makes up much of the value', () => {
+    const result = detectProjectBoundaries([detailsPage('Tower 2', '120 King St'), subcontractorPage])
+
+    expect(result.projects[0].projectName).toBe('Tower 2')
+    expect(result.projects[0].projectAddress).toBe('120 King St')
+  })
+
+  it('reports low confidence for pages before the first details page', () => {
+    const result = detectProjectBoundaries([
+      'Cover sheet for batch scanned at the Sydney office, forty pages of forms',
+      detailsPage('Harbour View', '12 Smith St'),
+      subcontractorPage,
+    ])
+
+    expect(result.projects).toHaveLength(1)
+    expect(result.projects[0].startPage).toBe(2)
+    expect(result.confidence).toBeLessThan(0.7)
+  })
+
+  it('finds nothing without a text layer', () => {
+    const result = detectProjectBoundaries(['', ' ', ''])
+
+    expect(result.projects).toEqual([])
+    expect(result.confidence).toBe(0)
+    expect(result.notes).toEqual(['PDF has no usable text layer'])
+  })
+})
+
+describe('extractFieldValue', () => {
+  it('matches labels split by OCR spacing', () => {
+    expect(extractFieldValue('Proj   ect   N a   me   :   Tower A\nState', 'Project Name')).toBe('Tower A')
+    expect(extractFieldValue('Organiser:\nProject', 'Address')).toBeNull()
+  })
+})
+
+describe('measureBoundaryAccuracy', () => {
+  it('counts page ranges the uploader kept', () => {
+    expect(
+      measureBoundaryAccuracy(
+        [{ startPage: 1, endPage: 2 }, { startPage: 3, endPage: 4 }, { startPage: 5, endPage: 6 }],
+        [{ startPage: 1, endPage: 2 }, { startPage: 3, endPage: 6 }]
+      )
+    ).toEqual({ detectedCount: 3, confirmedCount: 2, matchedCount: 1, accuracy: 0.333 })
+  })
+})
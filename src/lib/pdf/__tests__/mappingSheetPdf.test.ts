@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for pre-filled mapping sheet PDFs
+ *
+ * Run with: npm test src/lib/pdf/__tests__/mappingSheetPdf.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { PDFDocument } from 'pdf-lib'
+import type { MappingSheetPrintData, TradeContractor } from '@/lib/mappingSheetData'
+import {
+  buildSubcontractorRows,
+  generateMappingSheetPdf,
+  MAPPING_SHEET_TRADE_ROWS,
+  mappingSheetScanUrl,
+} from '../mappingSheetPdf'
+
+function contractor(id: string, tradeType: string, employerName: string, ebaStatus: boolean | null): TradeContractor {
+  return {
+    id,
+    employerId: `employer-${id}`,
+    employerName,
+    tradeType,
+    tradeLabel: tradeType,
+    stage: 'other',
+    ebaStatus,
+    source: 'project_contractor_trades',
+  }
+}
+
+function printData(tradeContractors: TradeContractor[]): MappingSheetPrintData {
+  return {
+    project: {
+      id: 'project-1',
+      name: 'Harbour View Apartments',
+      value: 45000000,
+      projectType: 'private',
+      stateFunding: null,
+      federalFunding: null,
+      proposedStartDate: '2026-02-01',
+      proposedFinishDate: null,
+      roeEmail: null,
+      address: '12 Smith St, Parramatta NSW 2150',
+    },
+    organisers: ['Alex Nguyen'],
+    siteContacts: [{ role: 'site_manager', name: 'Jo Citizen', email: null, phone: '0400 000 000' }],
+    mappingSheet: {
+      contractorRoles: [],
+      tradeContractors,
+      projectInfo: { id: 'project-1', name: 'Harbour View Apartments', builderName: 'Acme Builders', builderHasEba: true },
+    },
+  }
+}
+
+describe('buildSubcontractorRows', () => {
+  it('fills printed trade rows and lists unprinted trades under Other', () => {
+    const rows = buildSubcontractorRows([
+      contractor('1', 'scaffolding', 'Scaff Co', true),
+      contractor('2', 'scaffolding', 'Up High Scaffolds', false),
+      contractor('3', 'reinforcing_steel', 'Steel Fixers Pty', null),
+      contractor('4', 'electrical', 'Sparky Pty Ltd', false),
+    ])
+
+    expect(rows.filter((row) => row.company === 'Scaff Co' || row.company === 'Up High Scaffolds')).toEqual([
+      { stage: 'early_works', trade: 'Scaffold', company: 'Scaff Co', eba: true },
+      { stage: 'early_works', trade: '', company: 'Up High Scaffolds', eba: false },
+    ])
+    expect(rows.find((row) => row.company === 'Steel Fixers Pty')?.trade).toBe('Steel fixer')
+    expect(rows.find((row) => row.trade === 'Demo')).toEqual({ stage: 'early_works', trade: 'Demo', company: '', eba: null })
+
+    const other = rows.filter((row) => row.stage === 'other')
+    expect(other[0]).toEqual({ stage: 'other', trade: 'electrical', company: 'Sparky Pty Ltd', eba: false })
+    expect(other).toHaveLength(3)
+    expect(rows).toHaveLength(MAPPING_SHEET_TRADE_ROWS.length + 1 + 3)
+  })
+})
+
+describe('generateMappingSheetPdf', () => {
+  it('renders two pages per project', async () => {
+    const scanUrl = mappingSheetScanUrl('https://app.example', 'project-1')
+    const bytes = await generateMappingSheetPdf([
+      { data: printData([]), scanUrl },
+      { data: printData([contractor('1', 'tiling', 'Tiles R Us', true)]), scanUrl },
+    ])
+
+    const pdf = await PDFDocument.load(bytes)
+    expect(pdf.getPageCount()).toBe(4)
+    expect(scanUrl).toBe('https://app.example/projects/project-1?tab=mappingsheets&upload=scan')
+  })
+})
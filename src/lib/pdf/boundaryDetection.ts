@@ -0,0 +1,257 @@
+/**
+ * Deterministic project boundary detection for CFMEU NSW MappingSheets batches
+ *
+ * Each project in a standard batch starts with the details page (header,
+ * "Organiser", "Project Name", funding, address, builder, site contacts)
+ * followed by one or two subcontractor pages. Pages are classified by which
+ * printed form labels appear in their text layer, and every details page
+ * starts a new project.
+ *
+ * Scanned batches carry an OCR text layer that splits words ("Proj ect N a me")
+ * and confuses l, I, 1 and [, so labels are matched on a normalised form that
+ * ignores spacing and treats those characters as the same letter.
+ */
+
+export interface DetectedProject {
+  startPage: number  // 1-indexed
+  endPage: number    // 1-indexed
+  projectName: string
+  projectAddress?: string | null
+  confidence: number
+  reasoning?: string
+}
+
+/**
+ * Project boundaries found in a batch PDF, by layout detection or AI analysis
+ */
+export interface BoundaryAnalysis {
+  projects: DetectedProject[]
+  totalPages: number
+  detectionMethod: string
+  notes?: string[]
+}
+
+export interface BoundaryDetectionResult extends BoundaryAnalysis {
+  detectionMethod: 'layout_anchors'
+  /** Lowest project confidence, reduced for pages that couldn't be placed */
+  confidence: number
+  notes: string[]
+}
+
+export type PageKind = 'details' | 'subcontractors' | 'unknown'
+
+// Printed labels on the details page, in form order
+const DETAILS_ANCHORS = [
+  'MappingSheets',
+  'Organiser',
+  'Project Name',
+  'State Funding',
+  'Federal Funding',
+  'Project Value',
+  'Address',
+  'Builder',
+  'Proposed finish date',
+  'EBA with CFMEU',
+  'Site Contacts',
+]
+
+// Labels on the subcontractor table pages
+const SUBCONTRACTOR_ANCHORS = [
+  'Subcontractors',
+  'Stage',
+  'Trade',
+  'Company',
+  'Early works',
+  'Excavations',
+  'Tower Crane',
+  'Formwork',
+  'Landscaping',
+]
+
+// The header and organiser line only appear on the details page
+const START_ANCHORS = ['MappingSheets', 'Organiser']
+
+const MIN_DETAILS_ANCHORS = 4
+const MIN_SUBCONTRACTOR_ANCHORS = 4
+
+// Below this the caller should fall back to AI analysis
+export const LAYOUT_CONFIDENCE_THRESHOLD = 0.7
+
+// Pages with less text than this are treated as having no text layer
+const MIN_PAGE_TEXT_LENGTH = 40
+
+export const UNNAMED_PROJECT = 'Unnamed Project'
+
+export function normalizeForAnchors(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[\[\]|!1i]/g, 'l')
+    .replace(/[^a-z0-9]/g, '')
+}
+
+function matchedAnchors(normalizedText: string, anchors: string[]): string[] {
+  return anchors.filter((anchor) => normalizedText.includes(normalizeForAnchors(anchor)))
+}
+
+export function classifyPage(text: string): { kind: PageKind; details: string[]; subcontractors: string[] } {
+  const normalized = normalizeForAnchors(text)
+  const details = matchedAnchors(normalized, DETAILS_ANCHORS)
+  const subcontractors = matchedAnchors(normalized, SUBCONTRACTOR_ANCHORS)
+  const hasStartAnchor = matchedAnchors(normalized, START_ANCHORS).length > 0
+
+  let kind: PageKind = 'unknown'
+  if (hasStartAnchor && details.length >= MIN_DETAILS_ANCHORS && details.length > subcontractors.length) {
+    kind = 'details'
+  } else if (subcontractors.length >= MIN_SUBCONTRACTOR_ANCHORS) {
+    kind = 'subcontractors'
+  }
+
+  return { kind, details, subcontractors }
+}
+
+/**
+ * Regex for a label whose letters may be split by OCR spacing, e.g.
+ * "Project Name" also matches "Proj   ect   N a   me"
+ */
+function spacedLabel(label: string): string {
+  return label
+    .replace(/\s+/g, '')
+    .split('')
+    .map((char) => (/[il]/i.test(char) ? '[il1\\[\\]|]' : char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+    .join('\\s*')
+}
+
+/**
+ * Text written in a field: whatever follows the label on the same line
+ */
+export function extractFieldValue(text: string, label: string): string | null {
+  const match = text.match(new RegExp(`${spacedLabel(label)}\\s*:?([^\\n]*)`, 'i'))
+  const value = match?.[1]?.replace(/\s+/g, ' ').trim()
+  return value ? value : null
+}
+
+/**
+ * OCR of handwriting is often noise; only keep values that read like words.
+ * Digits count towards legibility so street numbers don't sink short addresses
+ */
+function isLegible(value: string | null): value is string {
+  if (!value) return false
+  const letters = value.replace(/[^a-z]/gi, '').length
+  const alphanumeric = value.replace(/[^a-z0-9]/gi, '').length
+  const nonSpace = value.replace(/\s/g, '').length
+  return letters >= 3 && alphanumeric / nonSpace >= 0.75
+}
+
+function structureFactor(pageCount: number): number {
+  if (pageCount === 2) return 1
+  if (pageCount === 3) return 0.9
+  if (pageCount === 1) return 0.6
+  return 0.5
+}
+
+/**
+ * Detect project boundaries from the text of each page (index 0 = page 1)
+ */
+export function detectProjectBoundaries(pageTexts: string[]): BoundaryDetectionResult {
+  const totalPages = pageTexts.length
+  const notes: string[] = []
+
+  const textPages = pageTexts.filter((text) => text.replace(/\s/g, '').length >= MIN_PAGE_TEXT_LENGTH).length
+  if (totalPages === 0 || textPages < totalPages / 2) {
+    return {
+      projects: [],
+      totalPages,
+      detectionMethod: 'layout_anchors',
+      confidence: 0,
+      notes: ['PDF has no usable text layer'],
+    }
+  }
+
+  const classified = pageTexts.map(classifyPage)
+  const startPages = classified
+    .map((page, index) => (page.kind === 'details' ? index + 1 : null))
+    .filter((page): page is number => page !== null)
+
+  if (startPages.length === 0) {
+    return {
+      projects: [],
+      totalPages,
+      detectionMethod: 'layout_anchors',
+      confidence: 0,
+      notes: ['No MappingSheets details pages found'],
+    }
+  }
+
+  const projects = startPages.map((startPage, index): DetectedProject => {
+    const endPage = index + 1 < startPages.length ? startPages[index + 1] - 1 : totalPages
+    const page = classified[startPage - 1]
+    const text = pageTexts[startPage - 1]
+    const pageCount = endPage - startPage + 1
+
+    const followingPages = classified.slice(startPage, endPage)
+    const unrecognised = followingPages.filter((following) => following.kind !== 'subcontractors').length
+
+    const anchorStrength = Math.min(1, page.details.length / (DETAILS_ANCHORS.length - 2))
+    const confidence = anchorStrength * structureFactor(pageCount) * (unrecognised > 0 ? 0.8 : 1)
+
+    const name = extractFieldValue(text, 'Project Name')
+    const address = extractFieldValue(text, 'Address')
+
+    return {
+      startPage,
+      endPage,
+      projectName: isLegible(name) ? name : UNNAMED_PROJECT,
+      projectAddress: isLegible(address) ? address : null,
+      confidence: Math.round(confidence * 100) / 100,
+      reasoning: `Details page ${startPage} matched ${page.details.length}/${DETAILS_ANCHORS.length} form labels`
+        + (pageCount !== 2 ? `; ${pageCount}-page project` : '')
+        + (unrecognised > 0 ? `; ${unrecognised} following page(s) not recognised as subcontractor pages` : ''),
+    }
+  })
+
+  let confidence = Math.min(...projects.map((project) => project.confidence))
+  if (startPages[0] > 1) {
+    notes.push(`Pages 1-${startPages[0] - 1} come before the first details page`)
+    confidence *= 0.5
+  }
+
+  const pageCounts = projects.map((project) => project.endPage - project.startPage + 1)
+  if (pageCounts.every((count) => count === 2)) {
+    notes.push('Projects follow standard 2-page format')
+  }
+
+  return {
+    projects,
+    totalPages,
+    detectionMethod: 'layout_anchors',
+    confidence: Math.round(confidence * 100) / 100,
+    notes,
+  }
+}
+
+export interface BoundaryAccuracy {
+  detectedCount: number
+  confirmedCount: number
+  matchedCount: number
+  /** Share of boundaries detected exactly right, out of the larger of the two sets */
+  accuracy: number
+}
+
+/**
+ * Compare detected page ranges with the ranges the user confirmed
+ */
+export function measureBoundaryAccuracy(
+  detected: Array<{ startPage: number; endPage: number }>,
+  confirmed: Array<{ startPage: number; endPage: number }>
+): BoundaryAccuracy {
+  const confirmedRanges = new Set(confirmed.map((range) => `${range.startPage}-${range.endPage}`))
+  const matchedCount = detected.filter((range) => confirmedRanges.has(`${range.startPage}-${range.endPage}`)).length
+  const denominator = Math.max(detected.length, confirmed.length)
+
+  return {
+    detectedCount: detected.length,
+    confirmedCount: confirmed.length,
+    matchedCount,
+    accuracy: denominator > 0 ? Math.round((matchedCount / denominator) * 1000) / 1000 : 1,
+  }
+}
@@ -0,0 +1,403 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib'
+import { format, parseISO } from 'date-fns'
+import type { MappingSheetPrintData, SiteContactRole, TradeContractor } from '@/lib/mappingSheetData'
+import type { TradeStage } from '@/utils/tradeUtils'
+import { qrCodePath } from './qrCode'
+
+/**
+ * Pre-filled CFMEU NSW MappingSheets PDFs
+ *
+ * Reproduces the official two-page paper form (project details, then the
+ * subcontractor table) with what the database already knows filled in, so
+ * organisers only write in what's missing. A QR code on page 1 opens the
+ * scan upload for the project. The printed labels are the ones
+ * boundaryDetection.ts matches when completed sheets are scanned back in.
+ */
+
+// A4 portrait
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 40
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+
+const QR_SIZE = 78
+const FIELD_SPACING = 26
+const TABLE_ROW_HEIGHT = 20
+const CONTACT_ROW_HEIGHT = 34
+
+const INK = rgb(0, 0, 0)
+const FILLED = rgb(0.05, 0.15, 0.45)
+const RULE = rgb(0.55, 0.55, 0.55)
+const MUTED = rgb(0.4, 0.4, 0.4)
+
+// Minimum "Other" rows, left blank for handwriting when not filled
+const MIN_OTHER_ROWS = 3
+
+export interface MappingSheetTradeRow {
+  stage: Exclude<TradeStage, 'other'>
+  label: string
+  /** trade_type values recorded against this printed row */
+  trades: string[]
+}
+
+// Printed trade rows on page 2, in form order
+export const MAPPING_SHEET_TRADE_ROWS: MappingSheetTradeRow[] = [
+  { stage: 'early_works', label: 'Demo', trades: ['demolition'] },
+  { stage: 'early_works', label: 'Piling', trades: ['piling'] },
+  { stage: 'early_works', label: 'Excavations', trades: ['excavations', 'earthworks'] },
+  { stage: 'early_works', label: 'Scaffold', trades: ['scaffolding'] },
+  { stage: 'early_works', label: 'Cleaners', trades: ['cleaning'] },
+  { stage: 'early_works', label: 'Traffic Control', trades: ['traffic_control', 'traffic_management'] },
+  { stage: 'early_works', label: 'Labour Hire', trades: ['labour_hire'] },
+  { stage: 'structure', label: 'Steel fixer', trades: ['steel_fixing', 'reinforcing_steel'] },
+  { stage: 'structure', label: 'Tower Crane', trades: ['tower_crane'] },
+  { stage: 'structure', label: 'Concreters', trades: ['concreting', 'concrete'] },
+  { stage: 'structure', label: 'Stressor', trades: ['post_tensioning'] },
+  { stage: 'structure', label: 'Formwork', trades: ['form_work'] },
+  { stage: 'structure', label: 'Bricklayer', trades: ['bricklaying'] },
+  { stage: 'structure', label: 'Structural Steel', trades: ['structural_steel'] },
+  { stage: 'finishing', label: 'Facade', trades: ['facade'] },
+  { stage: 'finishing', label: 'Carpenter', trades: ['carpentry'] },
+  { stage: 'finishing', label: 'Plasterer', trades: ['plastering'] },
+  { stage: 'finishing', label: 'Painters', trades: ['painting'] },
+  { stage: 'finishing', label: 'Tiling', trades: ['tiling'] },
+  { stage: 'finishing', label: 'Kitchens', trades: ['kitchens'] },
+  { stage: 'finishing', label: 'Flooring', trades: ['flooring'] },
+  { stage: 'finishing', label: 'Landscaping', trades: ['landscaping'] },
+  { stage: 'finishing', label: 'Final Clean', trades: ['final_clean'] },
+]
+
+const STAGE_LABELS: Record<TradeStage, string> = {
+  early_works: 'Early works',
+  structure: 'Structure',
+  finishing: 'Finishing',
+  other: 'Other',
+}
+
+const SITE_CONTACT_ROWS: Array<{ role: SiteContactRole; label: string }> = [
+  { role: 'project_manager', label: 'Project Manager' },
+  { role: 'site_manager', label: 'Site Manager' },
+  { role: 'site_delegate', label: 'Site Delegate' },
+  { role: 'site_hsr', label: 'Site HSR' },
+]
+
+export interface SubcontractorRow {
+  stage: TradeStage
+  trade: string
+  company: string
+  eba: boolean | null
+}
+
+/**
+ * Page 2 rows: every printed trade, one row per known contractor (blank when
+ * none), then trades the form doesn't print under "Other"
+ */
+export function buildSubcontractorRows(tradeContractors: TradeContractor[]): SubcontractorRow[] {
+  const rows: SubcontractorRow[] = []
+  const printed = new Set<string>()
+
+  MAPPING_SHEET_TRADE_ROWS.forEach((tradeRow) => {
+    tradeRow.trades.forEach((trade) => printed.add(trade))
+    const contractors = tradeContractors.filter((contractor) => tradeRow.trades.includes(contractor.tradeType))
+
+    if (contractors.length === 0) {
+      rows.push({ stage: tradeRow.stage, trade: tradeRow.label, company: '', eba: null })
+      return
+    }
+
+    contractors.forEach((contractor, index) => {
+      rows.push({
+        stage: tradeRow.stage,
+        trade: index === 0 ? tradeRow.label : '',
+        company: contractor.employerName,
+        eba: contractor.ebaStatus ?? null,
+      })
+    })
+  })
+
+  const others = tradeContractors.filter((contractor) => !printed.has(contractor.tradeType))
+  others.forEach((contractor) => {
+    rows.push({ stage: 'other', trade: contractor.tradeLabel, company: contractor.employerName, eba: contractor.ebaStatus ?? null })
+  })
+  for (let i = others.length; i < MIN_OTHER_ROWS; i++) {
+    rows.push({ stage: 'other', trade: '', company: '', eba: null })
+  }
+
+  return rows
+}
+
+export function mappingSheetScanUrl(baseUrl: string, projectId: string): string {
+  return `${baseUrl}/projects/${projectId}?tab=mappingsheets&upload=scan`
+}
+
+export function mappingSheetFileName(name: string): string {
+  const slug = name
+    .replace(/[^a-zA-Z0-9\s-]/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .toLowerCase()
+    .substring(0, 60)
+  return `mapping-sheets-${slug || 'project'}.pdf`
+}
+
+interface Fonts {
+  regular: PDFFont
+  bold: PDFFont
+}
+
+/**
+ * Standard fonts only cover WinAnsi, so drop anything they can't encode
+ */
+function printable(text: string | null | undefined): string {
+  return (text || '')
+    .normalize('NFKD')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/[^\x20-\x7E]/g, '')
+    .trim()
+}
+
+function fit(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) return text
+  let end = text.length
+  while (end > 0 && font.widthOfTextAtSize(`${text.slice(0, end)}...`, size) > maxWidth) end--
+  return `${text.slice(0, end).trimEnd()}...`
+}
+
+function formatCurrency(value: number | null): string {
+  if (value === null || value === undefined) return ''
+  return new Intl.NumberFormat('en-AU', { style: 'currency', currency: 'AUD', maximumFractionDigits: 0 }).format(value)
+}
+
+function formatDate(value: string | null): string {
+  if (!value) return ''
+  try {
+    return format(parseISO(value), 'dd/MM/yyyy')
+  } catch {
+    return value
+  }
+}
+
+/**
+ * "Label: value" on a ruled line, the value in the fill-in colour
+ */
+function drawField(page: PDFPage, fonts: Fonts, label: string, value: string, x: number, y: number, width: number) {
+  page.drawText(label, { x, y, size: 10, font: fonts.bold, color: INK })
+  const valueX = x + fonts.bold.widthOfTextAtSize(label, 10) + 6
+  page.drawLine({ start: { x: valueX, y: y - 3 }, end: { x: x + width, y: y - 3 }, thickness: 0.5, color: RULE })
+  const text = printable(value)
+  if (text) {
+    page.drawText(fit(text, fonts.regular, 10, x + width - valueX - 4), { x: valueX + 2, y, size: 10, font: fonts.regular, color: FILLED })
+  }
+}
+
+function drawCheckbox(page: PDFPage, fonts: Fonts, label: string, checked: boolean, x: number, y: number): number {
+  page.drawText(label, { x, y, size: 10, font: fonts.bold, color: INK })
+  const boxX = x + fonts.bold.widthOfTextAtSize(label, 10) + 5
+  page.drawRectangle({ x: boxX, y: y - 1, width: 9, height: 9, borderColor: INK, borderWidth: 0.75 })
+  if (checked) {
+    page.drawText('X', { x: boxX + 1.8, y: y, size: 8, font: fonts.bold, color: FILLED })
+  }
+  return boxX + 9 + 16
+}
+
+function drawFooter(page: PDFPage, fonts: Fonts, data: MappingSheetPrintData, generatedAt: Date) {
+  const text = printable(`${data.project.name} - pre-filled ${format(generatedAt, 'dd/MM/yyyy')} - ${data.project.id}`)
+  page.drawText(fit(text, fonts.regular, 7, CONTENT_WIDTH), { x: MARGIN, y: MARGIN / 2, size: 7, font: fonts.regular, color: MUTED })
+}
+
+function drawDetailsPage(pdf: PDFDocument, fonts: Fonts, data: MappingSheetPrintData, scanUrl: string, generatedAt: Date) {
+  const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  const top = PAGE_HEIGHT - MARGIN
+
+  // Header
+  page.drawText('CFMEU', { x: MARGIN, y: top - 22, size: 22, font: fonts.bold, color: INK })
+  page.drawText('NEW SOUTH WALES', {
+    x: MARGIN + fonts.bold.widthOfTextAtSize('CFMEU', 22) + 8,
+    y: top - 22,
+    size: 10,
+    font: fonts.bold,
+    color: INK,
+  })
+  page.drawText('MappingSheets.', { x: MARGIN, y: top - 48, size: 18, font: fonts.bold, color: INK })
+
+  // QR code back to the scan upload for this project
+  const qr = qrCodePath(scanUrl)
+  const qrX = PAGE_WIDTH - MARGIN - QR_SIZE
+  page.drawSvgPath(qr.path, { x: qrX, y: top, scale: QR_SIZE / qr.size, color: INK, borderWidth: 0 })
+  const caption = 'Scan to upload this sheet'
+  page.drawText(caption, {
+    x: qrX + (QR_SIZE - fonts.regular.widthOfTextAtSize(caption, 7)) / 2,
+    y: top - QR_SIZE - 8,
+    size: 7,
+    font: fonts.regular,
+    color: MUTED,
+  })
+
+  // Project details
+  const { project, mappingSheet } = data
+  const halfWidth = (CONTENT_WIDTH - 20) / 2
+  let y = top - QR_SIZE - 34
+
+  drawField(page, fonts, 'Organiser:', data.organisers.join(', '), MARGIN, y, CONTENT_WIDTH)
+  y -= FIELD_SPACING
+  drawField(page, fonts, 'Project Name:', project.name, MARGIN, y, CONTENT_WIDTH)
+  y -= FIELD_SPACING
+
+  const type = project.projectType
+  const next = drawCheckbox(page, fonts, 'Government', type === 'government' || type === 'mixed', MARGIN, y)
+  drawCheckbox(page, fonts, 'Private', type === 'private' || type === 'mixed', next, y)
+  y -= FIELD_SPACING
+
+  drawField(page, fonts, 'State Funding:', formatCurrency(project.stateFunding), MARGIN, y, halfWidth)
+  drawField(page, fonts, 'Federal Funding:', formatCurrency(project.federalFunding), MARGIN + halfWidth + 20, y, halfWidth)
+  y -= FIELD_SPACING
+  drawField(page, fonts, 'Project Value:', formatCurrency(project.value), MARGIN, y, CONTENT_WIDTH)
+  y -= FIELD_SPACING
+  drawField(page, fonts, 'Address:', project.address || '', MARGIN, y, CONTENT_WIDTH)
+  y -= FIELD_SPACING
+  drawField(page, fonts, 'Builder:', mappingSheet.projectInfo.builderName || '', MARGIN, y, CONTENT_WIDTH)
+  y -= FIELD_SPACING
+  drawField(page, fonts, 'Proposed start date:', formatDate(project.proposedStartDate), MARGIN, y, halfWidth)
+  drawField(page, fonts, 'Proposed finish date:', formatDate(project.proposedFinishDate), MARGIN + halfWidth + 20, y, halfWidth)
+  y -= FIELD_SPACING
+
+  const builderHasEba = mappingSheet.projectInfo.builderName ? mappingSheet.projectInfo.builderHasEba : null
+  page.drawText('EBA With CFMEU:', { x: MARGIN, y, size: 10, font: fonts.bold, color: INK })
+  const ebaX = MARGIN + fonts.bold.widthOfTextAtSize('EBA With CFMEU:', 10) + 10
+  drawCheckbox(page, fonts, 'No', builderHasEba === false, drawCheckbox(page, fonts, 'Yes', builderHasEba === true, ebaX, y), y)
+  y -= FIELD_SPACING
+  drawField(page, fonts, 'Preferred email for ROE:', project.roeEmail || '', MARGIN, y, CONTENT_WIDTH)
+  y -= FIELD_SPACING + 8
+
+  // Site contacts
+  page.drawText('Site Contacts:', { x: MARGIN, y, size: 12, font: fonts.bold, color: INK })
+  y -= 10
+
+  const columns = [
+    { label: 'Role', width: 100 },
+    { label: 'Name', width: 130 },
+    { label: 'Email', width: 170 },
+    { label: 'Phone', width: CONTENT_WIDTH - 400 },
+  ]
+  const rows = SITE_CONTACT_ROWS.map(({ role, label }) => {
+    const contact = data.siteContacts.find((siteContact) => siteContact.role === role)
+    return [label, contact?.name || '', contact?.email || '', contact?.phone || '']
+  })
+  drawTable(page, fonts, columns, [columns.map((column) => column.label)], rows, MARGIN, y, CONTACT_ROW_HEIGHT, 1)
+
+  drawFooter(page, fonts, data, generatedAt)
+}
+
+/**
+ * Ruled table. The first `labelColumns` cells of each row are the form's
+ * printed labels; the rest are filled-in values.
+ */
+function drawTable(
+  page: PDFPage,
+  fonts: Fonts,
+  columns: Array<{ width: number }>,
+  header: string[][],
+  rows: string[][],
+  x: number,
+  top: number,
+  rowHeight: number,
+  labelColumns: number
+) {
+  const width = columns.reduce((sum, column) => sum + column.width, 0)
+  let y = top
+
+  const drawRow = (cells: string[], height: number, isHeader: boolean) => {
+    let cellX = x
+    cells.forEach((cell, index) => {
+      const isLabel = isHeader || index < labelColumns
+      const font = isLabel ? fonts.bold : fonts.regular
+      const color = isLabel ? INK : FILLED
+      const text = printable(cell)
+      if (text) {
+        page.drawText(fit(text, font, 9, columns[index].width - 8), {
+          x: cellX + 4,
+          y: y - height / 2 - 3,
+          size: 9,
+          font,
+          color,
+        })
+      }
+      cellX += columns[index].width
+    })
+    page.drawRectangle({ x, y: y - height, width, height, borderColor: INK, borderWidth: 0.5 })
+    let lineX = x
+    columns.slice(0, -1).forEach((column) => {
+      lineX += column.width
+      page.drawLine({ start: { x: lineX, y }, end: { x: lineX, y: y - height }, thickness: 0.5, color: INK })
+    })
+    y -= height
+  }
+
+  header.forEach((cells) => drawRow(cells, 18, true))
+  rows.forEach((cells) => drawRow(cells, rowHeight, false))
+}
+
+function drawSubcontractorPages(pdf: PDFDocument, fonts: Fonts, data: MappingSheetPrintData, generatedAt: Date) {
+  const rows = buildSubcontractorRows(data.mappingSheet.tradeContractors)
+  const columns = [
+    { label: 'Stage.', width: 90 },
+    { label: 'Trade.', width: 120 },
+    { label: 'Company.', width: CONTENT_WIDTH - 275 },
+    { label: 'EBA (Y/N)', width: 65 },
+  ]
+
+  const tableTop = PAGE_HEIGHT - MARGIN - 34
+  const rowsPerPage = Math.floor((tableTop - 18 - MARGIN) / TABLE_ROW_HEIGHT)
+
+  for (let start = 0; start < rows.length; start += rowsPerPage) {
+    const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    const title = start === 0 ? 'Subcontractors.' : 'Subcontractors. (continued)'
+    page.drawText(title, { x: MARGIN, y: PAGE_HEIGHT - MARGIN - 18, size: 16, font: fonts.bold, color: INK })
+
+    const pageRows = rows.slice(start, start + rowsPerPage)
+    const cells = pageRows.map((row, index) => {
+      const previous = index > 0 ? pageRows[index - 1] : null
+      return [
+        !previous || previous.stage !== row.stage ? STAGE_LABELS[row.stage] : '',
+        row.trade,
+        row.company,
+        row.eba === true ? 'Y' : row.eba === false ? 'N' : '',
+      ]
+    })
+    drawTable(page, fonts, columns, [columns.map((column) => column.label)], cells, MARGIN, tableTop, TABLE_ROW_HEIGHT, 2)
+
+    drawFooter(page, fonts, data, generatedAt)
+  }
+}
+
+export interface MappingSheetPdfInput {
+  data: MappingSheetPrintData
+  /** Where the QR code on page 1 points; see mappingSheetScanUrl */
+  scanUrl: string
+}
+
+/**
+ * Renders one pre-filled mapping sheet per input into a single PDF
+ */
+export async function generateMappingSheetPdf(
+  sheets: MappingSheetPdfInput[],
+  generatedAt: Date = new Date()
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  const fonts: Fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  }
+
+  pdf.setTitle(sheets.length === 1 ? `MappingSheets - ${printable(sheets[0].data.project.name)}` : 'MappingSheets')
+  pdf.setCreationDate(generatedAt)
+
+  for (const { data, scanUrl } of sheets) {
+    drawDetailsPage(pdf, fonts, data, scanUrl, generatedAt)
+    drawSubcontractorPages(pdf, fonts, data, generatedAt)
+  }
+
+  return pdf.save()
+}
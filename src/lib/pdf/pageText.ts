@@ -0,0 +1,41 @@
+/**
+ * Reads the text layer of each page of a PDF with pdf.js
+ *
+ * pdf.js is loaded on demand so it stays out of bundles that never need it.
+ * In the browser it runs in a worker; on the server it uses pdf.js' built-in
+ * fallback and runs in-process.
+ */
+export async function extractPdfPageTexts(pdfBytes: Uint8Array): Promise<string[]> {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs')
+
+  if (typeof window !== 'undefined' && !pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+      'pdfjs-dist/legacy/build/pdf.worker.min.mjs',
+      import.meta.url
+    ).toString()
+  }
+
+  // pdf.js transfers the buffer it is given, so pass a copy
+  const document = await pdfjs.getDocument({
+    data: pdfBytes.slice(),
+    isEvalSupported: false,
+    verbosity: 0,
+  }).promise
+
+  try {
+    const pages: string[] = []
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber)
+      const content = await page.getTextContent()
+      pages.push(
+        content.items
+          .map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+          .join('')
+      )
+      page.cleanup()
+    }
+    return pages
+  } finally {
+    await document.destroy()
+  }
+}
@@ -0,0 +1,26 @@
+import { createElement } from 'react'
+import { renderToStaticMarkup } from 'react-dom/server'
+import QRCode from 'react-qr-code'
+
+export interface QrCodePath {
+  /** Modules per side, including the quiet zone */
+  size: number
+  /** SVG path of the dark modules in module units */
+  path: string
+}
+
+/**
+ * QR code for a value as an SVG path, for drawing into a PDF with
+ * `page.drawSvgPath`. Uses the same encoder as the on-screen share QR codes.
+ */
+export function qrCodePath(value: string): QrCodePath {
+  const svg = renderToStaticMarkup(createElement(QRCode, { value, level: 'M' }))
+  const size = Number(svg.match(/viewBox="0 0 (\d+) \d+"/)?.[1])
+  const path = svg.match(/<path d="([^"]*)" fill="#000000"/)?.[1]
+
+  if (!size || !path) {
+    throw new Error('Failed to encode QR code')
+  }
+
+  return { size, path: path.replace(/\s+/g, ' ').trim() }
+}
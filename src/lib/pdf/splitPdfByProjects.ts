@@ -1,4 +1,11 @@
 import { PDFDocument } from 'pdf-lib'
+import {
+  detectProjectBoundaries,
+  LAYOUT_CONFIDENCE_THRESHOLD,
+  type BoundaryAnalysis,
+  type BoundaryDetectionResult,
+} from './boundaryDetection'
+import { extractPdfPageTexts } from './pageText'
 
 export interface ProjectDefinition {
   startPage: number  // 1-indexed
@@ -15,16 +22,71 @@ export interface SplitResult {
   definition: ProjectDefinition
 }
 
+export interface DetectDefinitionsOptions {
+  /** Minimum layout confidence before the AI fallback is used */
+  minConfidence?: number
+  /** Called when layout detection isn't confident enough */
+  aiFallback?: (pdfBytes: Uint8Array, layout: BoundaryDetectionResult) => Promise<BoundaryAnalysis>
+}
+
+export interface DetectedDefinitions {
+  definitions: ProjectDefinition[]
+  detection: BoundaryAnalysis
+  usedAiFallback: boolean
+}
+
+function toDefinitions(detection: BoundaryAnalysis): ProjectDefinition[] {
+  return detection.projects.map((project) => ({
+    startPage: project.startPage,
+    endPage: project.endPage,
+    tentativeName: project.projectName,
+    mode: 'new_project' as const,
+  }))
+}
+
+/**
+ * Detects project boundaries from the MappingSheets form layout, falling back
+ * to AI analysis only when the layout match is low confidence
+ * @param pdfBytes Original PDF as Uint8Array
+ * @param options Confidence threshold and AI fallback
+ * @returns Detected definitions and the detection they came from
+ */
+export async function detectProjectDefinitions(
+  pdfBytes: Uint8Array,
+  options: DetectDefinitionsOptions = {}
+): Promise<DetectedDefinitions> {
+  const minConfidence = options.minConfidence ?? LAYOUT_CONFIDENCE_THRESHOLD
+  const layout = detectProjectBoundaries(await extractPdfPageTexts(pdfBytes))
+
+  if (layout.projects.length > 0 && layout.confidence >= minConfidence) {
+    return { definitions: toDefinitions(layout), detection: layout, usedAiFallback: false }
+  }
+
+  if (!options.aiFallback) {
+    throw new Error(
+      `Could not detect project boundaries from the form layout (confidence ${layout.confidence}). ${layout.notes.join('. ')}`
+    )
+  }
+
+  const detection = await options.aiFallback(pdfBytes, layout)
+  return { definitions: toDefinitions(detection), detection, usedAiFallback: true }
+}
+
 /**
  * Splits a PDF into multiple PDFs based on project definitions
  * @param pdfBytes Original PDF as Uint8Array
- * @param definitions Project boundary definitions
+ * @param definitions Project boundary definitions; detected from the form
+ *   layout when omitted
  * @returns Array of split PDF results
  */
 export async function splitPdfByProjects(
   pdfBytes: Uint8Array,
-  definitions: ProjectDefinition[]
+  definitions?: ProjectDefinition[]
 ): Promise<SplitResult[]> {
+  if (!definitions) {
+    definitions = (await detectProjectDefinitions(pdfBytes)).definitions
+  }
+
   // Load the source PDF
   const sourcePdf = await PDFDocument.load(pdfBytes)
   const totalPages = sourcePdf.getPageCount()
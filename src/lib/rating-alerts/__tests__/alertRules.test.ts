@@ -0,0 +1,89 @@
+/**
+ * Tests for rating alert rule validation and display helpers
+ *
+ * Run with: npm test src/lib/rating-alerts/__tests__/alertRules.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  alertDisplayType,
+  defaultRatingAlertRuleParameters,
+  describeRatingAlertRule,
+  RATING_ALERT_RULE_TYPES,
+  snoozeUntil,
+  validateRatingAlertRuleParameters,
+} from '../alertRules'
+
+const NOW = new Date('2026-01-23T09:00:00.000Z')
+
+describe('validateRatingAlertRuleParameters', () => {
+  it('accepts the default parameters for every rule type', () => {
+    for (const ruleType of RATING_ALERT_RULE_TYPES) {
+      expect(validateRatingAlertRuleParameters(ruleType, defaultRatingAlertRuleParameters(ruleType))).toEqual([])
+    }
+  })
+
+  it('rejects unknown rule types and non-object parameters', () => {
+    expect(validateRatingAlertRuleParameters('rating_rise', {})).toEqual(['Unknown rule type'])
+    expect(validateRatingAlertRuleParameters('rating_drop', ['green'])).toEqual(['Parameters must be an object'])
+  })
+
+  it('requires a rating drop to go to a worse rating', () => {
+    expect(validateRatingAlertRuleParameters('rating_drop', { from: ['green', 'amber'], to: ['red'] })).toEqual([])
+    expect(validateRatingAlertRuleParameters('rating_drop', { from: ['amber'], to: ['amber', 'red'] })).toEqual([
+      'Every "to" rating must be worse than every "from" rating',
+    ])
+    expect(validateRatingAlertRuleParameters('rating_drop', { from: [], to: ['unknown'] })).toHaveLength(2)
+  })
+
+  it('requires a confidence level that something can fall below', () => {
+    expect(validateRatingAlertRuleParameters('confidence_below', { minimum: 'high' })).toEqual([])
+    expect(validateRatingAlertRuleParameters('confidence_below', { minimum: 'very_low' })).toHaveLength(1)
+    expect(validateRatingAlertRuleParameters('confidence_below', { minimum: 'certain' })).toHaveLength(1)
+  })
+
+  it('limits divergence to the gap between green and red', () => {
+    expect(validateRatingAlertRuleParameters('track_divergence', { levels: 1 })).toEqual([])
+    expect(validateRatingAlertRuleParameters('track_divergence', { levels: 3 })).toHaveLength(1)
+    expect(validateRatingAlertRuleParameters('track_divergence', { levels: 1.5 })).toHaveLength(1)
+  })
+
+  it('takes no parameters for expiry rules', () => {
+    expect(validateRatingAlertRuleParameters('rating_expired', { days: 30 })).toEqual(['Expiry rules take no parameters'])
+  })
+})
+
+describe('describeRatingAlertRule', () => {
+  it('summarises the request examples', () => {
+    expect(describeRatingAlertRule('rating_drop', { from: ['green'], to: ['red'] })).toBe(
+      'Final rating changes from green to red'
+    )
+    expect(describeRatingAlertRule('confidence_below', { minimum: 'medium' })).toBe('Overall confidence below medium')
+    expect(describeRatingAlertRule('track_divergence', { levels: 2 })).toBe(
+      'Project and expertise ratings 2 or more levels apart'
+    )
+    expect(describeRatingAlertRule('rating_expired', {})).toBe('Rating is past its expiry date')
+  })
+})
+
+describe('snoozeUntil', () => {
+  it('adds whole days to now', () => {
+    expect(snoozeUntil(7, NOW)).toBe('2026-01-30T09:00:00.000Z')
+  })
+
+  it('clamps to between one and ninety days', () => {
+    expect(snoozeUntil(0, NOW)).toBe('2026-01-24T09:00:00.000Z')
+    expect(snoozeUntil('abc', NOW)).toBe('2026-01-24T09:00:00.000Z')
+    expect(snoozeUntil(365, NOW)).toBe('2026-04-23T09:00:00.000Z')
+  })
+})
+
+describe('alertDisplayType', () => {
+  it('maps alert levels to display types', () => {
+    expect(alertDisplayType('emergency')).toBe('error')
+    expect(alertDisplayType('critical')).toBe('error')
+    expect(alertDisplayType('warning')).toBe('warning')
+    expect(alertDisplayType('info')).toBe('info')
+    expect(alertDisplayType(null)).toBe('info')
+  })
+})
@@ -0,0 +1,196 @@
+/**
+ * Rating alert rules, as stored in rating_alert_rules.
+ *
+ * Rules are evaluated in the database by evaluate_rating_alert_rules() every time
+ * create_or_update_final_rating writes an employer_final_ratings row. This module
+ * validates the parameters admins edit and describes rules for display.
+ */
+
+import type { ConfidenceLevel, TrafficLightRating } from '@/types/rating-api'
+
+export type RatingAlertRuleType = 'rating_drop' | 'confidence_below' | 'track_divergence' | 'rating_expired'
+export type RatingAlertLevel = 'info' | 'warning' | 'critical' | 'emergency'
+export type RatedTrafficLight = Exclude<TrafficLightRating, 'unknown'>
+
+export interface RatingDropParameters {
+  from: RatedTrafficLight[]
+  to: RatedTrafficLight[]
+}
+
+export interface ConfidenceBelowParameters {
+  minimum: ConfidenceLevel
+}
+
+export interface TrackDivergenceParameters {
+  levels: number
+}
+
+export type RatingAlertRuleParameters =
+  | RatingDropParameters
+  | ConfidenceBelowParameters
+  | TrackDivergenceParameters
+  | Record<string, never>
+
+export interface RatingAlertRule {
+  id: string
+  name: string
+  description: string | null
+  ruleType: RatingAlertRuleType
+  parameters: RatingAlertRuleParameters
+  alertLevel: RatingAlertLevel
+  enabled: boolean
+  updatedAt: string
+}
+
+export const RATING_ALERT_RULE_TYPES: RatingAlertRuleType[] = [
+  'rating_drop',
+  'confidence_below',
+  'track_divergence',
+  'rating_expired',
+]
+export const RATING_ALERT_LEVELS: RatingAlertLevel[] = ['info', 'warning', 'critical', 'emergency']
+
+// Best to worst; the database ranks these the same way in traffic_light_rank()
+export const RATED_TRAFFIC_LIGHTS: RatedTrafficLight[] = ['green', 'amber', 'red']
+// Highest to lowest; matches rating_confidence_rank()
+export const CONFIDENCE_LEVELS: ConfidenceLevel[] = ['high', 'medium', 'low', 'very_low']
+
+export const RATING_ALERT_RULE_LABELS: Record<RatingAlertRuleType, string> = {
+  rating_drop: 'Rating dropped',
+  confidence_below: 'Low confidence',
+  track_divergence: 'Project and expertise ratings diverge',
+  rating_expired: 'Rating expired',
+}
+
+export const MAX_DIVERGENCE_LEVELS = RATED_TRAFFIC_LIGHTS.length - 1
+export const MAX_SNOOZE_DAYS = 90
+
+export function defaultRatingAlertRuleParameters(ruleType: RatingAlertRuleType): RatingAlertRuleParameters {
+  switch (ruleType) {
+    case 'rating_drop':
+      return { from: ['green'], to: ['red'] }
+    case 'confidence_below':
+      return { minimum: 'medium' }
+    case 'track_divergence':
+      return { levels: MAX_DIVERGENCE_LEVELS }
+    case 'rating_expired':
+      return {}
+  }
+}
+
+function isTrafficLightList(value: unknown): value is RatedTrafficLight[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((item) => RATED_TRAFFIC_LIGHTS.includes(item as RatedTrafficLight))
+  )
+}
+
+/**
+ * Check a rule's parameters against its type. Returns readable errors; empty when valid.
+ */
+export function validateRatingAlertRuleParameters(ruleType: string, parameters: unknown): string[] {
+  if (!RATING_ALERT_RULE_TYPES.includes(ruleType as RatingAlertRuleType)) {
+    return ['Unknown rule type']
+  }
+  if (parameters === null || typeof parameters !== 'object' || Array.isArray(parameters)) {
+    return ['Parameters must be an object']
+  }
+
+  const params = parameters as Record<string, unknown>
+  const errors: string[] = []
+
+  switch (ruleType as RatingAlertRuleType) {
+    case 'rating_drop': {
+      if (!isTrafficLightList(params.from)) errors.push('Choose at least one rating to drop from')
+      if (!isTrafficLightList(params.to)) errors.push('Choose at least one rating to drop to')
+      if (errors.length === 0) {
+        const worstFrom = Math.max(...(params.from as RatedTrafficLight[]).map((r) => RATED_TRAFFIC_LIGHTS.indexOf(r)))
+        const bestTo = Math.min(...(params.to as RatedTrafficLight[]).map((r) => RATED_TRAFFIC_LIGHTS.indexOf(r)))
+        if (bestTo <= worstFrom) errors.push('Every "to" rating must be worse than every "from" rating')
+      }
+      break
+    }
+    case 'confidence_below':
+      if (!CONFIDENCE_LEVELS.includes(params.minimum as ConfidenceLevel)) {
+        errors.push('Minimum confidence must be one of high, medium, low or very_low')
+      } else if (params.minimum === 'very_low') {
+        errors.push('No confidence level is below very_low')
+      }
+      break
+    case 'track_divergence': {
+      const levels = params.levels
+      if (typeof levels !== 'number' || !Number.isInteger(levels) || levels < 1 || levels > MAX_DIVERGENCE_LEVELS) {
+        errors.push(`Divergence must be a whole number of levels from 1 to ${MAX_DIVERGENCE_LEVELS}`)
+      }
+      break
+    }
+    case 'rating_expired':
+      if (Object.keys(params).length > 0) errors.push('Expiry rules take no parameters')
+      break
+  }
+
+  return errors
+}
+
+/**
+ * One-line summary of when a rule fires, e.g. "Final rating changes from green to red".
+ */
+export function describeRatingAlertRule(ruleType: RatingAlertRuleType, parameters: RatingAlertRuleParameters): string {
+  switch (ruleType) {
+    case 'rating_drop': {
+      const { from, to } = parameters as RatingDropParameters
+      return `Final rating changes from ${from.join(' or ')} to ${to.join(' or ')}`
+    }
+    case 'confidence_below':
+      return `Overall confidence below ${(parameters as ConfidenceBelowParameters).minimum.replace('_', ' ')}`
+    case 'track_divergence': {
+      const { levels } = parameters as TrackDivergenceParameters
+      return `Project and expertise ratings ${levels} or more level${levels === 1 ? '' : 's'} apart`
+    }
+    case 'rating_expired':
+      return 'Rating is past its expiry date'
+  }
+}
+
+export interface RatingAlertRuleRow {
+  id: string
+  name: string
+  description: string | null
+  rule_type: string
+  parameters: unknown
+  alert_level: string
+  enabled: boolean
+  updated_at: string
+}
+
+export function ratingAlertRuleFromRow(row: RatingAlertRuleRow): RatingAlertRule {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    ruleType: row.rule_type as RatingAlertRuleType,
+    parameters: (row.parameters ?? {}) as RatingAlertRuleParameters,
+    alertLevel: row.alert_level as RatingAlertLevel,
+    enabled: row.enabled,
+    updatedAt: row.updated_at,
+  }
+}
+
+/**
+ * When a snooze of `days` days ends. Days are clamped to 1..MAX_SNOOZE_DAYS.
+ */
+export function snoozeUntil(days: unknown, now: Date = new Date()): string {
+  const value = Number(days)
+  const clamped = Number.isFinite(value) ? Math.min(Math.max(Math.round(value), 1), MAX_SNOOZE_DAYS) : 1
+  return new Date(now.getTime() + clamped * 24 * 60 * 60 * 1000).toISOString()
+}
+
+/**
+ * Collapse the stored alert level into the three display types the dashboard uses.
+ */
+export function alertDisplayType(level: string | null | undefined): 'info' | 'warning' | 'error' {
+  if (level === 'critical' || level === 'emergency') return 'error'
+  if (level === 'warning') return 'warning'
+  return 'info'
+}
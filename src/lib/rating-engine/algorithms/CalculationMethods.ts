@@ -0,0 +1,269 @@
+// Calculation Methods - Built-in methods for combining component ratings, registered as plugins
+
+import { RatingWeights } from '../types/RatingTypes';
+import { CalculationMethodInput, CalculationMethodValidation } from '../types/CalculationTypes';
+import type { CalculationMethodPlugin } from '../core/CalculationMethodRegistry';
+
+// =============================================================================
+// SHARED HELPERS
+// =============================================================================
+
+function componentScores(input: CalculationMethodInput) {
+  return {
+    project: input.project.score || 0,
+    expertise: input.expertise.score || 0,
+    eba: input.eba.eba_score || 0
+  };
+}
+
+function validateWeights(weights: RatingWeights, keys: Array<keyof RatingWeights>): CalculationMethodValidation {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  for (const key of keys) {
+    const weight = weights[key];
+    if (typeof weight !== 'number' || isNaN(weight)) {
+      errors.push(`${key} weight must be a number`);
+    } else if (weight < 0) {
+      errors.push(`${key} weight cannot be negative`);
+    }
+  }
+
+  if (errors.length === 0 && keys.every(key => weights[key] === 0)) {
+    warnings.push('All weights are zero - the score will be 0');
+  }
+
+  return { is_valid: errors.length === 0, errors, warnings };
+}
+
+function addMissingDataWarnings(input: CalculationMethodInput, validation: CalculationMethodValidation): CalculationMethodValidation {
+  const warnings = [...validation.warnings];
+
+  if (input.project.score === null) {
+    warnings.push('No project score available - treated as 0');
+  }
+  if (input.expertise.score === null) {
+    warnings.push('No expertise score available - treated as 0');
+  }
+
+  return { ...validation, warnings };
+}
+
+// =============================================================================
+// WEIGHTED AVERAGE
+// =============================================================================
+
+export const weightedAverageMethod: CalculationMethodPlugin = {
+  id: 'weighted_average',
+  name: 'Weighted average',
+  description: 'Average of project, expertise and EBA scores, normalised by the total weight',
+  config: { normalize_weights: true },
+
+  calculate(input) {
+    const scores = componentScores(input);
+    const { weights } = input;
+    const totalWeight = weights.project + weights.expertise + weights.eba;
+
+    if (totalWeight === 0) return 0;
+
+    const weightedSum = (
+      (scores.project * weights.project) +
+      (scores.expertise * weights.expertise) +
+      (scores.eba * weights.eba)
+    );
+
+    return weightedSum / totalWeight;
+  },
+
+  explain(input) {
+    const scores = componentScores(input);
+    const { weights } = input;
+    const totalWeight = weights.project + weights.expertise + weights.eba;
+
+    return {
+      method: 'weighted_average',
+      summary: `Weighted average of three components divided by a total weight of ${totalWeight.toFixed(2)}`,
+      steps: [
+        { label: 'Project contribution', value: scores.project * weights.project, detail: `${scores.project} × ${weights.project}` },
+        { label: 'Expertise contribution', value: scores.expertise * weights.expertise, detail: `${scores.expertise} × ${weights.expertise}` },
+        { label: 'EBA contribution', value: scores.eba * weights.eba, detail: `${scores.eba} × ${weights.eba}` },
+        { label: 'Total weight', value: totalWeight }
+      ],
+      score: this.calculate(input)
+    };
+  },
+
+  validate(input) {
+    return addMissingDataWarnings(input, validateWeights(input.weights, ['project', 'expertise', 'eba']));
+  }
+};
+
+// =============================================================================
+// WEIGHTED SUM
+// =============================================================================
+
+export const weightedSumMethod: CalculationMethodPlugin = {
+  id: 'weighted_sum',
+  name: 'Weighted sum',
+  description: 'Sum of weighted project, expertise and EBA scores without normalisation',
+  config: { max_total_score: 100 },
+
+  calculate(input) {
+    const scores = componentScores(input);
+    const { weights } = input;
+
+    return (
+      (scores.project * weights.project) +
+      (scores.expertise * weights.expertise) +
+      (scores.eba * weights.eba)
+    );
+  },
+
+  explain(input) {
+    const scores = componentScores(input);
+    const { weights } = input;
+
+    return {
+      method: 'weighted_sum',
+      summary: 'Sum of each component score multiplied by its weight',
+      steps: [
+        { label: 'Project contribution', value: scores.project * weights.project, detail: `${scores.project} × ${weights.project}` },
+        { label: 'Expertise contribution', value: scores.expertise * weights.expertise, detail: `${scores.expertise} × ${weights.expertise}` },
+        { label: 'EBA contribution', value: scores.eba * weights.eba, detail: `${scores.eba} × ${weights.eba}` }
+      ],
+      score: this.calculate(input)
+    };
+  },
+
+  validate(input) {
+    const validation = addMissingDataWarnings(input, validateWeights(input.weights, ['project', 'expertise', 'eba']));
+    const totalWeight = input.weights.project + input.weights.expertise + input.weights.eba;
+
+    if (totalWeight > 1) {
+      validation.warnings.push(`Weights total ${totalWeight.toFixed(2)} - scores may exceed the 100 point scale and be clamped`);
+    }
+
+    return validation;
+  }
+};
+
+// =============================================================================
+// MINIMUM SCORE
+// =============================================================================
+
+const MINIMUM_PROJECT_ASSESSMENTS = 3;
+const MINIMUM_EXPERTISE_ASSESSMENTS = 2;
+
+function minimumScoreFactors(input: CalculationMethodInput): Array<{ label: string; value: number }> {
+  const scores = componentScores(input);
+
+  // EBA status is often the most critical factor
+  const factors = [{ label: 'EBA score', value: scores.eba }];
+
+  // Include project and expertise if they have sufficient data
+  if (input.project.assessment_count >= MINIMUM_PROJECT_ASSESSMENTS) {
+    factors.push({ label: 'Project score', value: scores.project });
+  }
+  if (input.expertise.assessment_count >= MINIMUM_EXPERTISE_ASSESSMENTS) {
+    factors.push({ label: 'Expertise score', value: scores.expertise });
+  }
+
+  return factors;
+}
+
+export const minimumScoreMethod: CalculationMethodPlugin = {
+  id: 'minimum_score',
+  name: 'Minimum score',
+  description: 'Lowest of the EBA score and any component with enough assessments',
+  config: { critical_factors: ['eca_status', 'safety_incidents'] },
+
+  calculate(input) {
+    return Math.min(...minimumScoreFactors(input).map(factor => factor.value));
+  },
+
+  explain(input) {
+    const factors = minimumScoreFactors(input);
+    const lowest = factors.reduce((min, factor) => (factor.value < min.value ? factor : min), factors[0]);
+
+    return {
+      method: 'minimum_score',
+      summary: `Lowest of ${factors.length} qualifying factor(s): ${lowest.label.toLowerCase()} sets the score`,
+      steps: factors.map(factor => ({ label: factor.label, value: factor.value })),
+      score: lowest.value
+    };
+  },
+
+  validate(input) {
+    const warnings: string[] = [];
+
+    if (input.project.assessment_count < MINIMUM_PROJECT_ASSESSMENTS) {
+      warnings.push(`Project score ignored - fewer than ${MINIMUM_PROJECT_ASSESSMENTS} assessments`);
+    }
+    if (input.expertise.assessment_count < MINIMUM_EXPERTISE_ASSESSMENTS) {
+      warnings.push(`Expertise score ignored - fewer than ${MINIMUM_EXPERTISE_ASSESSMENTS} assessments`);
+    }
+
+    return { is_valid: true, errors: [], warnings };
+  }
+};
+
+// =============================================================================
+// HYBRID METHOD
+// =============================================================================
+
+const HYBRID_CRITICAL_WEIGHT = 0.3; // 30% weight for critical factors
+
+function hybridBaseScore(input: CalculationMethodInput): number {
+  const scores = componentScores(input);
+  const baseWeight = input.weights.project + input.weights.expertise;
+
+  if (baseWeight <= 0) return 0;
+
+  return ((scores.project * input.weights.project) + (scores.expertise * input.weights.expertise)) / baseWeight;
+}
+
+export const hybridMethod: CalculationMethodPlugin = {
+  id: 'hybrid_method',
+  name: 'Hybrid',
+  description: 'Weighted average of project and expertise, blended with the EBA score as a critical factor',
+  config: { critical_weight: HYBRID_CRITICAL_WEIGHT, fallback_method: 'weighted_average' },
+
+  calculate(input) {
+    const baseScore = hybridBaseScore(input);
+    const criticalScore = componentScores(input).eba;
+
+    // Combine base and critical scores
+    return (baseScore * (1 - HYBRID_CRITICAL_WEIGHT)) + (criticalScore * HYBRID_CRITICAL_WEIGHT);
+  },
+
+  explain(input) {
+    const baseScore = hybridBaseScore(input);
+    const criticalScore = componentScores(input).eba;
+
+    return {
+      method: 'hybrid_method',
+      summary: `${Math.round((1 - HYBRID_CRITICAL_WEIGHT) * 100)}% project/expertise average plus ${Math.round(HYBRID_CRITICAL_WEIGHT * 100)}% EBA score`,
+      steps: [
+        { label: 'Project/expertise average', value: baseScore },
+        { label: 'EBA score (critical factor)', value: criticalScore },
+        { label: 'Critical factor weight', value: HYBRID_CRITICAL_WEIGHT }
+      ],
+      score: this.calculate(input)
+    };
+  },
+
+  validate(input) {
+    return addMissingDataWarnings(input, validateWeights(input.weights, ['project', 'expertise']));
+  }
+};
+
+// =============================================================================
+// BUILT-IN METHOD LIST
+// =============================================================================
+
+export const BUILT_IN_CALCULATION_METHODS: CalculationMethodPlugin[] = [
+  weightedAverageMethod,
+  weightedSumMethod,
+  minimumScoreMethod,
+  hybridMethod
+];
@@ -38,6 +38,16 @@ export interface ITimeDecayCalculator {
     futureDays: number,
     config: DecayConfiguration
   ): Promise<DecayResult>;
+  calculateDecayAsAt(
+    dataPoints: HistoricalDataPoint[],
+    asAt: Date,
+    config?: Partial<DecayConfiguration>
+  ): Promise<DecayResult>;
+  applyTemporalWeightingAsAt(
+    assessments: any[],
+    asAt: Date,
+    config?: Partial<DecayConfiguration>
+  ): Promise<TemporalWeightingResult>;
   validateDecayConfiguration(config: DecayConfiguration): Promise<boolean>;
 }
 
@@ -217,7 +227,8 @@ export class TimeDecayCalculator implements ITimeDecayCalculator {
       metadata: {
         assessment_type: assessment.assessment_type,
         confidence_level: assessment.confidence_level,
-        source_id: assessment.source_id
+        source_id: assessment.source_id,
+        recorded_at: assessment.created_at ? new Date(assessment.created_at) : undefined
       }
     }));
 
@@ -293,6 +304,51 @@ export class TimeDecayCalculator implements ITimeDecayCalculator {
     };
   }
 
+  // -------------------------------------------------------------------------
+  // HISTORICAL ("AS AT") REPLAY
+  // -------------------------------------------------------------------------
+
+  async calculateDecayAsAt(
+    dataPoints: HistoricalDataPoint[],
+    asAt: Date,
+    config?: Partial<DecayConfiguration>
+  ): Promise<DecayResult> {
+    // Only points that had been recorded by the replay date take part, and their
+    // age is measured from that date rather than from today
+    const existingPoints = dataPoints.filter(point => this.existedAt(point, asAt));
+
+    const decay = await this.calculateDecay(existingPoints, asAt, {
+      ...config,
+      reference_date: asAt
+    });
+
+    return {
+      ...decay,
+      metadata: {
+        ...decay.metadata,
+        is_replay: true,
+        as_at: asAt,
+        points_after_as_at: dataPoints.length - existingPoints.length
+      }
+    };
+  }
+
+  async applyTemporalWeightingAsAt(
+    assessments: any[],
+    asAt: Date,
+    config?: Partial<DecayConfiguration>
+  ): Promise<TemporalWeightingResult> {
+    const existingAssessments = assessments.filter(assessment =>
+      new Date(assessment.assessment_date) <= asAt &&
+      (!assessment.created_at || new Date(assessment.created_at) <= asAt)
+    );
+
+    return this.applyTemporalWeighting(existingAssessments, asAt, {
+      ...config,
+      reference_date: asAt
+    });
+  }
+
   async validateDecayConfiguration(config: DecayConfiguration): Promise<boolean> {
     // Check basic configuration validity
     if (config.half_life_days <= 0) {
@@ -333,6 +389,15 @@ export class TimeDecayCalculator implements ITimeDecayCalculator {
   // PRIVATE HELPER METHODS
   // -------------------------------------------------------------------------
 
+  private existedAt(point: HistoricalDataPoint, asAt: Date): boolean {
+    if (point.date > asAt) {
+      return false;
+    }
+
+    const recordedAt = point.metadata?.recorded_at;
+    return !recordedAt || new Date(recordedAt) <= asAt;
+  }
+
   private filterValidDataPoints(
     dataPoints: HistoricalDataPoint[],
     referenceDate: Date,
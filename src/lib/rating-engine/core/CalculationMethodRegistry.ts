@@ -0,0 +1,124 @@
+// Calculation Method Registry - Pluggable methods for combining component ratings into a final score
+
+import { CalculationMethod, CalculationMethodExplanation } from '../types/RatingTypes';
+import { CalculationMethodInput, CalculationMethodValidation } from '../types/CalculationTypes';
+import { BUILT_IN_CALCULATION_METHODS } from '../algorithms/CalculationMethods';
+
+// =============================================================================
+// CALCULATION METHOD PLUGIN INTERFACE
+// =============================================================================
+
+/**
+ * A calculation method turns the Track 1, Track 2 and EBA results into a single
+ * score. Reconciliation adjustments, clamping and rating thresholds are applied
+ * by the CombinedCalculator afterwards, so methods only need to produce the raw score.
+ */
+export interface CalculationMethodPlugin {
+  readonly id: CalculationMethod;
+  readonly name: string;
+  readonly description: string;
+  readonly config: Record<string, any>;
+  calculate(input: CalculationMethodInput): number;
+  explain(input: CalculationMethodInput): CalculationMethodExplanation;
+  validate(input: CalculationMethodInput): CalculationMethodValidation;
+}
+
+export interface CalculationMethodSummary {
+  id: CalculationMethod;
+  name: string;
+  description: string;
+  config: Record<string, any>;
+}
+
+// =============================================================================
+// REGISTRY IMPLEMENTATION
+// =============================================================================
+
+export class CalculationMethodRegistry {
+  private methods: Map<string, CalculationMethodPlugin>;
+
+  constructor(methods: CalculationMethodPlugin[] = []) {
+    this.methods = new Map();
+    methods.forEach(method => this.register(method));
+  }
+
+  register(method: CalculationMethodPlugin, options: { replace?: boolean } = {}): void {
+    if (!method.id) {
+      throw new CalculationMethodRegistryError('INVALID_METHOD', 'Calculation method must have an id');
+    }
+
+    if (this.methods.has(method.id) && !options.replace) {
+      throw new CalculationMethodRegistryError(
+        'DUPLICATE_METHOD',
+        `Calculation method '${method.id}' is already registered`,
+        { method: method.id }
+      );
+    }
+
+    this.methods.set(method.id, method);
+  }
+
+  unregister(id: CalculationMethod): boolean {
+    return this.methods.delete(id);
+  }
+
+  has(id: string): boolean {
+    return this.methods.has(id);
+  }
+
+  get(id: string): CalculationMethodPlugin | undefined {
+    return this.methods.get(id);
+  }
+
+  require(id: string): CalculationMethodPlugin {
+    const method = this.methods.get(id);
+    if (!method) {
+      throw new CalculationMethodRegistryError(
+        'METHOD_NOT_FOUND',
+        `Calculation method '${id}' is not registered`,
+        { method: id, available: this.ids() }
+      );
+    }
+    return method;
+  }
+
+  ids(): CalculationMethod[] {
+    return Array.from(this.methods.keys());
+  }
+
+  list(): CalculationMethodSummary[] {
+    return Array.from(this.methods.values()).map(method => ({
+      id: method.id,
+      name: method.name,
+      description: method.description,
+      config: method.config
+    }));
+  }
+}
+
+/**
+ * Builds a registry holding the four built-in methods
+ */
+export function createDefaultMethodRegistry(): CalculationMethodRegistry {
+  return new CalculationMethodRegistry(BUILT_IN_CALCULATION_METHODS);
+}
+
+// Shared registry used by the engine when no registry is injected. Register trial
+// methods here (or pass a custom registry to CombinedCalculator) to try them out.
+export const defaultMethodRegistry = createDefaultMethodRegistry();
+
+// =============================================================================
+// CUSTOM ERROR CLASS
+// =============================================================================
+
+export class CalculationMethodRegistryError extends Error {
+  public readonly code: string;
+  public readonly details?: Record<string, any>;
+
+  constructor(code: string, message: string, details?: Record<string, any>) {
+    super(message);
+    this.name = 'CalculationMethodRegistryError';
+    this.code = code;
+    this.details = details;
+  }
+}
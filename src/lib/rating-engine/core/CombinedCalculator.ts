@@ -17,9 +17,16 @@ import {
   ReconciliationInput,
   ReconciliationOutput,
   CalculationConfig,
-  RatingCalculationError
+  RatingCalculationError,
+  CalculationMethodInput
 } from '../types/CalculationTypes';
 import { DiscrepancyAnalysisResult, ReconciliationDetails } from '../types/ResultTypes';
+import {
+  CalculationMethodPlugin,
+  CalculationMethodRegistry,
+  defaultMethodRegistry
+} from './CalculationMethodRegistry';
+import { weightedAverageMethod } from '../algorithms/CalculationMethods';
 
 // =============================================================================
 // COMBINED CALCULATOR INTERFACE
@@ -50,9 +57,11 @@ export interface ICombinedCalculator {
 
 export class CombinedCalculator implements ICombinedCalculator {
   private config: CalculationConfig;
+  private methodRegistry: CalculationMethodRegistry;
 
-  constructor(config: CalculationConfig) {
+  constructor(config: CalculationConfig, methodRegistry: CalculationMethodRegistry = defaultMethodRegistry) {
     this.config = config;
+    this.methodRegistry = methodRegistry;
   }
 
   // -------------------------------------------------------------------------
@@ -79,12 +88,14 @@ export class CombinedCalculator implements ICombinedCalculator {
         context
       );
 
+      // Resolve the calculation method and the input it scores
+      const method = this.resolveMethod(context.method);
+      const methodInput = this.buildMethodInput(projectResult, expertiseResult, ebaResult, context);
+
       // Calculate final score and rating
       const { finalScore, finalRating } = this.calculateFinalScoreAndRating(
-        projectResult,
-        expertiseResult,
-        ebaResult,
-        context,
+        method,
+        methodInput,
         reconciliationOutput
       );
 
@@ -137,7 +148,8 @@ export class CombinedCalculator implements ICombinedCalculator {
         calculation_method: context.method,
         weights: context.weights,
         algorithm_type: context.method,
-        method_config: this.getMethodConfig(context.method),
+        method_config: method.config,
+        method_explanation: method.explain(methodInput),
 
         // Review and status
         review_required: reviewRequirements.required,
@@ -294,59 +306,21 @@ export class CombinedCalculator implements ICombinedCalculator {
   // -------------------------------------------------------------------------
 
   private calculateFinalScoreAndRating(
-    projectResult: ProjectRatingResult,
-    expertiseResult: ExpertiseRatingResult,
-    ebaResult: EBARatingResult,
-    context: CalculationContext,
+    method: CalculationMethodPlugin,
+    methodInput: CalculationMethodInput,
     reconciliationOutput: ReconciliationOutput
   ): { finalScore: number; finalRating: TrafficLightRating } {
-    let finalScore: number;
-
-    switch (context.method) {
-      case 'weighted_average':
-        finalScore = this.calculateWeightedAverage(
-          projectResult,
-          expertiseResult,
-          ebaResult,
-          context.weights
-        );
-        break;
-
-      case 'weighted_sum':
-        finalScore = this.calculateWeightedSum(
-          projectResult,
-          expertiseResult,
-          ebaResult,
-          context.weights
-        );
-        break;
-
-      case 'minimum_score':
-        finalScore = this.calculateMinimumScore(
-          projectResult,
-          expertiseResult,
-          ebaResult
-        );
-        break;
-
-      case 'hybrid_method':
-        finalScore = this.calculateHybridMethod(
-          projectResult,
-          expertiseResult,
-          ebaResult,
-          context.weights
-        );
-        break;
-
-      default:
-        finalScore = this.calculateWeightedAverage(
-          projectResult,
-          expertiseResult,
-          ebaResult,
-          context.weights
-        );
+    const validation = method.validate(methodInput);
+    if (!validation.is_valid) {
+      throw new CombinedCalculationError(
+        'INVALID_METHOD_INPUT',
+        `Calculation method '${method.id}' rejected its input`,
+        { method: method.id, errors: validation.errors }
+      );
     }
 
+    let finalScore = method.calculate(methodInput);
+
     // Apply reconciliation adjustments
     finalScore = this.applyReconciliationAdjustments(finalScore, reconciliationOutput);
 
@@ -359,98 +333,41 @@ export class CombinedCalculator implements ICombinedCalculator {
     return { finalScore, finalRating };
   }
 
-  private calculateWeightedAverage(
-    projectResult: ProjectRatingResult,
-    expertiseResult: ExpertiseRatingResult,
-    ebaResult: EBARatingResult,
-    weights: RatingWeights
-  ): number {
-    const projectScore = projectResult.score || 0;
-    const expertiseScore = expertiseResult.score || 0;
-    const ebaScore = ebaResult.eba_score || 0;
-
-    const totalWeight = weights.project + weights.expertise + weights.eba;
-
-    if (totalWeight === 0) return 0;
-
-    const weightedSum = (
-      (projectScore * weights.project) +
-      (expertiseScore * weights.expertise) +
-      (ebaScore * weights.eba)
-    );
-
-    return weightedSum / totalWeight;
+  // Unknown methods fall back to weighted average so stale configs keep rating
+  private resolveMethod(methodId: CalculationMethod): CalculationMethodPlugin {
+    return this.methodRegistry.get(methodId) ?? this.methodRegistry.require('weighted_average');
   }
 
-  private calculateWeightedSum(
+  private buildMethodInput(
     projectResult: ProjectRatingResult,
     expertiseResult: ExpertiseRatingResult,
     ebaResult: EBARatingResult,
-    weights: RatingWeights
-  ): number {
-    const projectScore = projectResult.score || 0;
-    const expertiseScore = expertiseResult.score || 0;
-    const ebaScore = ebaResult.eba_score || 0;
-
-    return (
-      (projectScore * weights.project) +
-      (expertiseScore * weights.expertise) +
-      (ebaScore * weights.eba)
-    );
-  }
-
-  private calculateMinimumScore(
-    projectResult: ProjectRatingResult,
-    expertiseResult: ExpertiseRatingResult,
-    ebaResult: EBARatingResult
-  ): number {
-    const projectScore = projectResult.score || 0;
-    const expertiseScore = expertiseResult.score || 0;
-    const ebaScore = ebaResult.eba_score || 0;
-
-    // EBA status is often the most critical factor
-    const criticalFactors = [ebaScore];
-
-    // Include project and expertise if they have sufficient data
-    if (projectResult.assessment_count >= 3) {
-      criticalFactors.push(projectScore);
-    }
-    if (expertiseResult.assessment_count >= 2) {
-      criticalFactors.push(expertiseScore);
-    }
-
-    return Math.min(...criticalFactors);
+    context: CalculationContext
+  ): CalculationMethodInput {
+    return {
+      project: projectResult,
+      expertise: expertiseResult,
+      eba: ebaResult,
+      weights: context.weights,
+      context
+    };
   }
 
-  private calculateHybridMethod(
+  // Reconciliation always scores with the built-in weighted average, whatever method is active
+  private calculateWeightedAverage(
     projectResult: ProjectRatingResult,
     expertiseResult: ExpertiseRatingResult,
     ebaResult: EBARatingResult,
-    weights: RatingWeights
+    weights: RatingWeights,
+    context: CalculationContext
   ): number {
-    // Calculate base weighted average of project and expertise
-    const projectScore = projectResult.score || 0;
-    const expertiseScore = expertiseResult.score || 0;
-    const ebaScore = ebaResult.eba_score || 0;
-
-    const projectWeight = weights.project;
-    const expertiseWeight = weights.expertise;
-
-    let baseScore = 0;
-    let baseWeight = projectWeight + expertiseWeight;
-
-    if (baseWeight > 0) {
-      baseScore = ((projectScore * projectWeight) + (expertiseScore * expertiseWeight)) / baseWeight;
-    }
-
-    // Apply critical factor adjustment (EBA has significant impact)
-    const criticalWeight = 0.3; // 30% weight for critical factors
-    const criticalScore = ebaScore;
-
-    // Combine base and critical scores
-    const finalScore = (baseScore * (1 - criticalWeight)) + (criticalScore * criticalWeight);
-
-    return finalScore;
+    return weightedAverageMethod.calculate({
+      project: projectResult,
+      expertise: expertiseResult,
+      eba: ebaResult,
+      weights,
+      context
+    });
   }
 
   private applyReconciliationAdjustments(
@@ -647,17 +564,6 @@ export class CombinedCalculator implements ICombinedCalculator {
     return new Date(calculationDate.getTime() + (totalDays * 24 * 60 * 60 * 1000));
   }
 
-  private getMethodConfig(method: CalculationMethod): Record<string, any> {
-    const configs = {
-      weighted_average: { normalize_weights: true },
-      weighted_sum: { max_total_score: 100 },
-      minimum_score: { critical_factors: ['eca_status', 'safety_incidents'] },
-      hybrid_method: { critical_weight: 0.3, fallback_method: 'weighted_average' }
-    };
-
-    return configs[method] || {};
-  }
-
   private countDataPoints(
     projectResult: ProjectRatingResult,
     expertiseResult: ExpertiseRatingResult,
@@ -1215,7 +1121,7 @@ export class CombinedCalculator implements ICombinedCalculator {
     context: CalculationContext
   ): ReconciliationOutput {
     return {
-      final_score: this.calculateWeightedAverage(projectResult, expertiseResult, { eba_score: 0 }, context.weights),
+      final_score: this.calculateWeightedAverage(projectResult, expertiseResult, { eba_score: 0 } as EBARatingResult, context.weights, context),
       final_rating: projectResult.rating, // Default to project rating until review
       reconciliation_applied: false,
       method_used: 'manual_review_required',
@@ -1260,7 +1166,7 @@ export class CombinedCalculator implements ICombinedCalculator {
     };
 
     return {
-      final_score: this.calculateWeightedAverage(projectResult, expertiseResult, { eba_score: 0 }, adjustedWeights),
+      final_score: this.calculateWeightedAverage(projectResult, expertiseResult, { eba_score: 0 } as EBARatingResult, adjustedWeights, context),
       final_rating: projectResult.rating, // Would be recalculated
       reconciliation_applied: true,
       method_used: 'automated_weighting_adjustment',
@@ -1276,7 +1182,7 @@ export class CombinedCalculator implements ICombinedCalculator {
     ebaResult: EBARatingResult,
     context: CalculationContext
   ): ReconciliationOutput {
-    const finalScore = this.calculateWeightedAverage(projectResult, expertiseResult, ebaResult, context.weights);
+    const finalScore = this.calculateWeightedAverage(projectResult, expertiseResult, ebaResult, context.weights, context);
     const finalRating = this.determineRatingFromScore(finalScore);
 
     return {
@@ -0,0 +1,85 @@
+// Default calculation configuration - mirrors the seeded rating lookup tables
+
+import { CalculationConfig } from '../types/CalculationTypes';
+import { RatingWeights } from '../types/RatingTypes';
+
+// Values follow traffic_light_thresholds and compliance_assessment_weights as seeded in
+// 20251027000000_employer_rating_lookup_tables.sql. Red extends down to -100 because
+// component scores can be negative.
+export const DEFAULT_CALCULATION_CONFIG: CalculationConfig = {
+  score_thresholds: {
+    green: { min: 80, max: 100 },
+    amber: { min: 50, max: 79.9 },
+    red: { min: -100, max: 49.9 },
+    unknown: { min: -1, max: -1 }
+  },
+  confidence_thresholds: {
+    high: { min: 0.8, max: 1.0 },
+    medium: { min: 0.6, max: 0.79 },
+    low: { min: 0.4, max: 0.59 },
+    very_low: { min: 0, max: 0.39 }
+  },
+  assessment_weights: {
+    cbus_status: 3.0,
+    incolink_status: 2.5,
+    site_visit_report: 2.0,
+    delegate_report: 1.5,
+    organiser_verbal_report: 1.0,
+    organiser_written_report: 1.2,
+    eca_status: 2.8,
+    safety_incidents: 2.5,
+    industrial_disputes: 3.0,
+    payment_issues: 2.7
+  },
+  decay_settings: {
+    enabled: true,
+    half_life_days: 90,
+    minimum_weight: 0.1
+  },
+  quality_requirements: {
+    minimum_assessments: {
+      project: 1,
+      expertise: 1
+    },
+    maximum_data_age: {
+      high: 30,
+      medium: 60,
+      low: 90
+    }
+  },
+  discrepancy_thresholds: {
+    score_difference: {
+      none: 5,
+      minor: 15,
+      moderate: 30,
+      major: 50,
+      critical: 70
+    },
+    rating_mismatch: {
+      none: false,
+      minor: false,
+      moderate: true,
+      major: true,
+      critical: true
+    }
+  },
+  performance: {
+    enable_caching: false,
+    cache_ttl_seconds: 300,
+    batch_size: 10,
+    timeout_ms: 30000
+  }
+};
+
+export const DEFAULT_LOOKBACK_DAYS = {
+  project: 365,
+  expertise: 180,
+  eba: 1460 // 4 years
+};
+
+// Component weights used by calculate_final_employer_rating when none are passed
+export const DEFAULT_RATING_WEIGHTS: RatingWeights = {
+  project: 0.6,
+  expertise: 0.4,
+  eba: 0.15
+};
@@ -0,0 +1,122 @@
+// EBA Calculator - Enterprise agreement status scoring (mirrors get_eba_status_with_score)
+
+import {
+  TrafficLightRating,
+  EBARatingResult,
+  EBARecord
+} from '../types/RatingTypes';
+import { CalculationContext } from '../types/CalculationTypes';
+import { IEBACalculator } from './RatingCalculator';
+
+// =============================================================================
+// EBA CALCULATOR IMPLEMENTATION
+// =============================================================================
+
+export class EBACalculator implements IEBACalculator {
+  // EBAs certified within this window count as active (matches the SQL function)
+  private static readonly ACTIVE_WINDOW_YEARS = 4;
+
+  async calculateRating(ebaRecords: any[], context: CalculationContext): Promise<EBARatingResult> {
+    try {
+      const calculationDate = context.calculation_date;
+
+      // Only consider records that had been certified on or before the calculation date
+      const certifiedRecords = ebaRecords
+        .filter(record => record.fwc_certified_date)
+        .map(record => this.normaliseRecord(record))
+        .filter(record => record.fwc_certified_date!.getTime() <= calculationDate.getTime())
+        .sort((a, b) => b.fwc_certified_date!.getTime() - a.fwc_certified_date!.getTime());
+
+      const latestEbaDate = certifiedRecords[0]?.fwc_certified_date;
+      const hasActiveEba = !!latestEbaDate &&
+        latestEbaDate >= this.yearsBefore(calculationDate, EBACalculator.ACTIVE_WINDOW_YEARS);
+
+      const { status, score } = this.determineStatusAndScore(
+        hasActiveEba,
+        latestEbaDate,
+        ebaRecords.length > 0,
+        calculationDate
+      );
+
+      return {
+        eba_status: status,
+        eba_score: score,
+        has_active_eba: hasActiveEba,
+        latest_eba_date: latestEbaDate,
+        eba_details: certifiedRecords,
+        data_age_days: latestEbaDate
+          ? Math.floor((calculationDate.getTime() - latestEbaDate.getTime()) / (1000 * 60 * 60 * 24))
+          : undefined,
+        calculation_date: calculationDate
+      };
+
+    } catch (error) {
+      throw new EBACalculationError(
+        'CALCULATION_FAILED',
+        `EBA calculation failed: ${(error as Error).message}`,
+        { employer_id: context.employer_id, error: (error as Error).stack }
+      );
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // PRIVATE HELPER METHODS
+  // -------------------------------------------------------------------------
+
+  private determineStatusAndScore(
+    hasActiveEba: boolean,
+    latestEbaDate: Date | undefined,
+    hasEbaHistory: boolean,
+    calculationDate: Date
+  ): { status: TrafficLightRating; score: number } {
+    if (hasActiveEba && latestEbaDate) {
+      if (latestEbaDate >= this.yearsBefore(calculationDate, 1)) {
+        return { status: 'green', score: 25 };
+      }
+      if (latestEbaDate >= this.yearsBefore(calculationDate, 2)) {
+        return { status: 'green', score: 20 };
+      }
+      if (latestEbaDate >= this.yearsBefore(calculationDate, 3)) {
+        return { status: 'amber', score: 10 };
+      }
+      return { status: 'amber', score: 5 };
+    }
+
+    if (hasEbaHistory) {
+      return { status: 'red', score: -20 };
+    }
+
+    return { status: 'unknown', score: 0 };
+  }
+
+  private normaliseRecord(record: any): EBARecord {
+    return {
+      ...record,
+      fwc_certified_date: record.fwc_certified_date ? new Date(record.fwc_certified_date) : undefined,
+      date_eba_signed: record.date_eba_signed ? new Date(record.date_eba_signed) : undefined,
+      date_vote_occurred: record.date_vote_occurred ? new Date(record.date_vote_occurred) : undefined
+    };
+  }
+
+  private yearsBefore(date: Date, years: number): Date {
+    const result = new Date(date.getTime());
+    result.setFullYear(result.getFullYear() - years);
+    return result;
+  }
+}
+
+// =============================================================================
+// CUSTOM ERROR CLASS
+// =============================================================================
+
+export class EBACalculationError extends Error {
+  public readonly code: string;
+  public readonly details?: Record<string, any>;
+
+  constructor(code: string, message: string, details?: Record<string, any>) {
+    super(message);
+    this.name = 'EBACalculationError';
+    this.code = code;
+    this.details = details;
+  }
+}
@@ -0,0 +1,172 @@
+// Employer Rating Calculator - Concrete BaseRatingCalculator wired to the Supabase data source
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { FinalRatingResult, RatingCalculationRequest, ValidationError } from '../types/RatingTypes';
+import { CalculationConfig, CalculationValidationResult, PerformanceProfile } from '../types/CalculationTypes';
+import {
+  BaseRatingCalculator,
+  ILogger,
+  IPerformanceTracker,
+  IValidator,
+  ITrack1Calculator,
+  ITrack2Calculator,
+  IEBACalculator,
+  ICombinedCalculator,
+  RatingCalculationError,
+  RatingCalculatorDependencies
+} from './RatingCalculator';
+import { Track1Calculator } from './Track1Calculator';
+import { Track2Calculator } from './Track2Calculator';
+import { EBACalculator } from './EBACalculator';
+import { CombinedCalculator } from './CombinedCalculator';
+import { DEFAULT_CALCULATION_CONFIG } from './DefaultConfig';
+import { SupabaseRatingDataSource } from '../utils/SupabaseDataSource';
+import { Validator } from '../utils/Validation';
+
+// =============================================================================
+// EMPLOYER RATING CALCULATOR IMPLEMENTATION
+// =============================================================================
+
+export class EmployerRatingCalculator extends BaseRatingCalculator {
+  private track1Calculator: Track1Calculator;
+  private track2Calculator: Track2Calculator;
+  private ebaCalculator: EBACalculator;
+  private combinedCalculator: CombinedCalculator;
+
+  constructor(config: CalculationConfig, dependencies: RatingCalculatorDependencies) {
+    super(config, dependencies);
+    this.track1Calculator = new Track1Calculator(config);
+    this.track2Calculator = new Track2Calculator(config);
+    this.ebaCalculator = new EBACalculator();
+    this.combinedCalculator = new CombinedCalculator(config);
+  }
+
+  protected getTrack1Calculator(): ITrack1Calculator {
+    return this.track1Calculator;
+  }
+
+  protected getTrack2Calculator(): ITrack2Calculator {
+    return this.track2Calculator;
+  }
+
+  protected getEBACalculator(): IEBACalculator {
+    return this.ebaCalculator;
+  }
+
+  protected getCombinedCalculator(): ICombinedCalculator {
+    return this.combinedCalculator;
+  }
+}
+
+// =============================================================================
+// DEFAULT DEPENDENCIES
+// =============================================================================
+
+export class ConsoleRatingLogger implements ILogger {
+  info(message: string, data?: Record<string, any>): void {
+    console.log(`[RatingEngine] ${message}`, data ?? '');
+  }
+
+  warn(message: string, data?: Record<string, any>): void {
+    console.warn(`[RatingEngine] ${message}`, data ?? '');
+  }
+
+  error(message: string, data?: Record<string, any>): void {
+    console.error(`[RatingEngine] ${message}`, data ?? '');
+  }
+
+  debug(message: string, data?: Record<string, any>): void {
+    if (process.env.NODE_ENV === 'development') {
+      console.debug(`[RatingEngine] ${message}`, data ?? '');
+    }
+  }
+}
+
+export class InMemoryPerformanceTracker implements IPerformanceTracker {
+  private calculationTimes: number[] = [];
+  private dataPointsProcessed = 0;
+
+  async recordCalculation(processingTime: number, result: FinalRatingResult): Promise<void> {
+    this.calculationTimes.push(processingTime);
+    this.dataPointsProcessed +=
+      (result.project_data.assessment_count || 0) + (result.expertise_data.assessment_count || 0);
+  }
+
+  async recordError(_error: Error, processingTime: number): Promise<void> {
+    this.calculationTimes.push(processingTime);
+  }
+
+  async getCurrentMetrics(): Promise<PerformanceProfile> {
+    const count = this.calculationTimes.length;
+    const total = this.calculationTimes.reduce((sum, time) => sum + time, 0);
+
+    return {
+      calculation_time_ms: count > 0 ? total / count : 0,
+      memory_usage_mb: process.memoryUsage().heapUsed / (1024 * 1024),
+      database_queries: 0,
+      cache_hits: 0,
+      cache_misses: 0,
+      data_points_processed: this.dataPointsProcessed,
+      complexity_score: 0
+    };
+  }
+}
+
+/**
+ * Adapts the shared Validator, which reports plain pass/fail errors, to the calculator's
+ * validation contract. Request errors are kept on the result so they reach the thrown error.
+ */
+export class RequestValidator implements IValidator {
+  private validator: Validator;
+
+  constructor(validator: Validator = new Validator()) {
+    this.validator = validator;
+  }
+
+  async validateCalculationRequest(
+    request: RatingCalculationRequest
+  ): Promise<CalculationValidationResult & { errors: ValidationError[] }> {
+    const result = await this.validator.validateCalculationRequest(request);
+
+    return {
+      is_valid: result.errors.length === 0,
+      errors: result.errors,
+      missing_data: [],
+      data_quality_issues: [],
+      configuration_issues: [],
+      warnings: (result.warnings || []).map(warning => ({
+        code: (warning as { code?: string }).code || 'REQUEST_WARNING',
+        message: warning.message,
+        category: 'data_quality' as const,
+        actionability: 'informational' as const
+      })),
+      recommendations: []
+    };
+  }
+
+  async validateConfiguration(config: CalculationConfig): Promise<void> {
+    const result = await this.validator.validateConfiguration(config);
+    if (result.errors.length > 0) {
+      throw new RatingCalculationError(
+        'INVALID_CONFIGURATION',
+        'Rating configuration failed validation',
+        { validation_errors: result.errors }
+      );
+    }
+  }
+}
+
+/**
+ * Builds a calculator that reads live data through the given Supabase client
+ */
+export function createEmployerRatingCalculator(
+  supabase: SupabaseClient,
+  config: CalculationConfig = DEFAULT_CALCULATION_CONFIG
+): EmployerRatingCalculator {
+  return new EmployerRatingCalculator(config, {
+    logger: new ConsoleRatingLogger(),
+    performanceTracker: new InMemoryPerformanceTracker(),
+    validator: new RequestValidator(),
+    dataSource: new SupabaseRatingDataSource(supabase)
+  });
+}
@@ -0,0 +1,223 @@
+// Method Comparison - Side-by-side report of every registered calculation method over a sample of employers
+//
+// Component ratings (Track 1, Track 2, EBA) are calculated once per employer; only the
+// combination step is repeated per method, so differences come from the method alone.
+
+import { TrafficLightRating, CalculationMethod } from '../types/RatingTypes';
+import { CalculationConfig, CalculationInput } from '../types/CalculationTypes';
+import { ITrack1Calculator, ITrack2Calculator, IEBACalculator } from './RatingCalculator';
+import { Track1Calculator } from './Track1Calculator';
+import { Track2Calculator } from './Track2Calculator';
+import { EBACalculator } from './EBACalculator';
+import { CombinedCalculator } from './CombinedCalculator';
+import {
+  CalculationMethodRegistry,
+  CalculationMethodSummary,
+  defaultMethodRegistry
+} from './CalculationMethodRegistry';
+
+// =============================================================================
+// COMPARISON TYPES
+// =============================================================================
+
+export interface MethodComparisonCell {
+  final_score: number | null;
+  final_rating: TrafficLightRating;
+  error?: string;
+}
+
+export interface MethodComparisonRow {
+  employer_id: string;
+  employer_name?: string;
+  results: Record<string, MethodComparisonCell>;
+  // True when the methods disagree on the traffic light rating
+  ratings_differ: boolean;
+}
+
+export interface MethodComparisonSummary {
+  method: CalculationMethod;
+  name: string;
+  mean_score: number | null;
+  rating_distribution: Record<TrafficLightRating, number>;
+  changed_from_baseline: number;
+  errors: number;
+}
+
+export interface MethodComparisonReport {
+  generated_at: Date;
+  baseline_method: CalculationMethod;
+  sample_size: number;
+  methods: CalculationMethodSummary[];
+  rows: MethodComparisonRow[];
+  summary: MethodComparisonSummary[];
+}
+
+export interface MethodComparisonCalculators {
+  track1: ITrack1Calculator;
+  track2: ITrack2Calculator;
+  eba: IEBACalculator;
+}
+
+// =============================================================================
+// METHOD COMPARISON IMPLEMENTATION
+// =============================================================================
+
+export class MethodComparison {
+  private calculators: MethodComparisonCalculators;
+  private combinedCalculator: CombinedCalculator;
+  private methodRegistry: CalculationMethodRegistry;
+
+  constructor(
+    config: CalculationConfig,
+    methodRegistry: CalculationMethodRegistry = defaultMethodRegistry,
+    calculators: Partial<MethodComparisonCalculators> = {}
+  ) {
+    this.methodRegistry = methodRegistry;
+    this.combinedCalculator = new CombinedCalculator(config, methodRegistry);
+    this.calculators = {
+      track1: calculators.track1 ?? new Track1Calculator(config),
+      track2: calculators.track2 ?? new Track2Calculator(config),
+      eba: calculators.eba ?? new EBACalculator()
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // MAIN COMPARISON METHOD
+  // -------------------------------------------------------------------------
+
+  async compare(
+    inputs: CalculationInput[],
+    options: { baselineMethod?: CalculationMethod; employerNames?: Record<string, string> } = {}
+  ): Promise<MethodComparisonReport> {
+    const baselineMethod = options.baselineMethod ?? 'hybrid_method';
+    if (!this.methodRegistry.has(baselineMethod)) {
+      throw new MethodComparisonError(
+        'INVALID_BASELINE_METHOD',
+        `Baseline method '${baselineMethod}' is not registered`,
+        { method: baselineMethod, available: this.methodRegistry.ids() }
+      );
+    }
+
+    const methodIds = this.methodRegistry.ids();
+    const rows: MethodComparisonRow[] = [];
+
+    for (const input of inputs) {
+      const row = await this.compareEmployer(input, methodIds);
+      row.employer_name = options.employerNames?.[input.employer_id];
+      rows.push(row);
+    }
+
+    return {
+      generated_at: new Date(),
+      baseline_method: baselineMethod,
+      sample_size: inputs.length,
+      methods: this.methodRegistry.list(),
+      rows,
+      summary: methodIds.map(methodId => this.summariseMethod(methodId, baselineMethod, rows))
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // PRIVATE HELPER METHODS
+  // -------------------------------------------------------------------------
+
+  private async compareEmployer(input: CalculationInput, methodIds: CalculationMethod[]): Promise<MethodComparisonRow> {
+    const { context } = input;
+
+    const [projectResult, expertiseResult, ebaResult] = await Promise.all([
+      this.calculators.track1.calculateRating(input.project_assessments, context, input.whs_breaches),
+      this.calculators.track2.calculateRating(input.expertise_assessments, input.organiser_profiles, context),
+      this.calculators.eba.calculateRating(input.eba_records, context)
+    ]);
+
+    const results: Record<string, MethodComparisonCell> = {};
+
+    for (const methodId of methodIds) {
+      try {
+        const result = await this.combinedCalculator.calculateFinalRating(
+          projectResult,
+          expertiseResult,
+          ebaResult,
+          { ...context, method: methodId }
+        );
+        results[methodId] = {
+          final_score: Math.round(result.final_score * 100) / 100,
+          final_rating: result.final_rating
+        };
+      } catch (error) {
+        // One failing method should not hide the others
+        results[methodId] = {
+          final_score: null,
+          final_rating: 'unknown',
+          error: error instanceof Error ? error.message : 'Calculation failed'
+        };
+      }
+    }
+
+    const ratings = new Set(
+      Object.values(results).filter(cell => !cell.error).map(cell => cell.final_rating)
+    );
+
+    return {
+      employer_id: input.employer_id,
+      results,
+      ratings_differ: ratings.size > 1
+    };
+  }
+
+  private summariseMethod(
+    methodId: CalculationMethod,
+    baselineMethod: CalculationMethod,
+    rows: MethodComparisonRow[]
+  ): MethodComparisonSummary {
+    const distribution: Record<TrafficLightRating, number> = { green: 0, amber: 0, red: 0, unknown: 0 };
+    const scores: number[] = [];
+    let changedFromBaseline = 0;
+    let errors = 0;
+
+    for (const row of rows) {
+      const cell = row.results[methodId];
+      if (!cell || cell.error || cell.final_score === null) {
+        errors++;
+        continue;
+      }
+
+      distribution[cell.final_rating]++;
+      scores.push(cell.final_score);
+
+      const baseline = row.results[baselineMethod];
+      if (baseline && !baseline.error && baseline.final_rating !== cell.final_rating) {
+        changedFromBaseline++;
+      }
+    }
+
+    const meanScore = scores.length > 0
+      ? Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100) / 100
+      : null;
+
+    return {
+      method: methodId,
+      name: this.methodRegistry.get(methodId)?.name ?? methodId,
+      mean_score: meanScore,
+      rating_distribution: distribution,
+      changed_from_baseline: changedFromBaseline,
+      errors
+    };
+  }
+}
+
+// =============================================================================
+// CUSTOM ERROR CLASS
+// =============================================================================
+
+export class MethodComparisonError extends Error {
+  public readonly code: string;
+  public readonly details?: Record<string, any>;
+
+  constructor(code: string, message: string, details?: Record<string, any>) {
+    super(message);
+    this.name = 'MethodComparisonError';
+    this.code = code;
+    this.details = details;
+  }
+}
@@ -8,6 +8,7 @@ import {
   ExpertiseRatingResult,
   EBARatingResult,
   RatingCalculationRequest,
+  RatingReplayDetails,
   RatingWeights,
   CalculationMethod
 } from '../types/RatingTypes';
@@ -18,9 +19,13 @@ import {
   CalculationState,
   CalculationOutput,
   CalculationValidationResult,
-  PerformanceProfile
+  PerformanceProfile,
+  RawWhsBreach,
+  DecayConfiguration
 } from '../types/CalculationTypes';
 import { CacheStrategy, LogLevel } from '../types/CalculationTypes';
+import { ITimeDecayCalculator, TimeDecayCalculator } from '../algorithms/TimeDecay';
+import { RatingExportBuilder, RATING_EXPORT_CONTENT_TYPES } from './RatingExport';
 
 // =============================================================================
 // MAIN RATING CALCULATOR INTERFACE
@@ -67,6 +72,7 @@ export abstract class BaseRatingCalculator implements IRatingCalculator {
   protected performanceTracker: IPerformanceTracker;
   protected validator: IValidator;
   protected dataSource: IDataSource;
+  protected timeDecay: ITimeDecayCalculator;
 
   constructor(
     config: CalculationConfig,
@@ -78,6 +84,7 @@ export abstract class BaseRatingCalculator implements IRatingCalculator {
     this.performanceTracker = dependencies.performanceTracker;
     this.validator = dependencies.validator;
     this.dataSource = dependencies.dataSource;
+    this.timeDecay = new TimeDecayCalculator({ enable_caching: false, enable_outlier_detection: false });
   }
 
   // -------------------------------------------------------------------------
@@ -96,7 +103,8 @@ export abstract class BaseRatingCalculator implements IRatingCalculator {
       this.logger.info('Starting final rating calculation', {
         employer_id: request.employer_id,
         calculation_id: calculationId,
-        method: request.calculation_method
+        method: request.calculation_method,
+        as_at: request.as_at?.toISOString()
       });
 
       // Validate request
@@ -158,16 +166,21 @@ export abstract class BaseRatingCalculator implements IRatingCalculator {
     try {
       this.logger.info('Starting project rating calculation', { employer_id: employerId });
 
-      // Load project assessment data
-      const assessments = await this.dataSource.loadProjectAssessments(
-        employerId,
-        context.calculation_date,
-        context.lookback_days.project
-      );
+      // Load project assessment data and unresolved WHS breaches
+      const [assessments, whsBreaches] = await Promise.all([
+        this.dataSource.loadProjectAssessments(
+          employerId,
+          context.calculation_date,
+          context.lookback_days.project
+        ),
+        this.dataSource.loadWhsBreaches
+          ? this.dataSource.loadWhsBreaches(employerId, context.calculation_date)
+          : Promise.resolve([])
+      ]);
 
       // Calculate rating using Track 1 calculator
       const track1Calculator = this.getTrack1Calculator();
-      const result = await track1Calculator.calculateRating(assessments, context);
+      const result = await track1Calculator.calculateRating(assessments, context, whsBreaches);
 
       this.logger.info('Project rating calculation completed', {
         employer_id: employerId,
@@ -422,7 +435,7 @@ export abstract class BaseRatingCalculator implements IRatingCalculator {
   }
 
   async generateReport(employerId: string, reportType: 'summary' | 'detailed' | 'audit'): Promise<string> {
-    const request: RatingCalculationRequest = { employer_id: employer_id };
+    const request: RatingCalculationRequest = { employer_id: employerId };
     const result = await this.calculateFinalRating(request);
 
     switch (reportType) {
@@ -457,18 +470,27 @@ export abstract class BaseRatingCalculator implements IRatingCalculator {
   ): Promise<FinalRatingResult> {
     const context = input.context;
 
-    // Calculate component ratings
+    // Calculate component ratings from the already loaded input so that an
+    // "as at" cutoff applied in loadCalculationInput carries through
     state.phase = 'calculating_project';
     await this.updateCalculationState(this.generateCalculationId(request.employer_id), state);
-    const projectResult = await this.calculateProjectRating(request.employer_id, context);
+    const projectResult = await this.getTrack1Calculator().calculateRating(
+      input.project_assessments,
+      context,
+      input.whs_breaches
+    );
 
     state.phase = 'calculating_expertise';
     await this.updateCalculationState(this.generateCalculationId(request.employer_id), state);
-    const expertiseResult = await this.calculateExpertiseRating(request.employer_id, context);
+    const expertiseResult = await this.getTrack2Calculator().calculateRating(
+      input.expertise_assessments,
+      input.organiser_profiles,
+      context
+    );
 
     state.phase = 'calculating_eba';
     await this.updateCalculationState(this.generateCalculationId(request.employer_id), state);
-    const ebaResult = await this.calculateEBARating(request.employer_id, context);
+    const ebaResult = await this.getEBACalculator().calculateRating(input.eba_records, context);
 
     // Combine and reconcile ratings
     state.phase = 'reconciling';
@@ -481,13 +503,19 @@ export abstract class BaseRatingCalculator implements IRatingCalculator {
       context
     );
 
+    if (context.as_at) {
+      return { ...finalResult, replay: this.buildReplayDetails(input, context.as_at) };
+    }
+
     return finalResult;
   }
 
   protected async loadCalculationInput(request: RatingCalculationRequest): Promise<CalculationInput> {
+    // In "as at" mode the calculation date is pinned to the replay date so that
+    // lookback windows and decay are measured from then rather than today
     const context: CalculationContext = {
       employer_id: request.employer_id,
-      calculation_date: request.calculation_date || new Date(),
+      calculation_date: request.as_at || request.calculation_date || new Date(),
       lookback_days: {
         project: 365,
         expertise: 180,
@@ -500,21 +528,28 @@ export abstract class BaseRatingCalculator implements IRatingCalculator {
       },
       method: request.calculation_method || 'hybrid_method',
       force_recalculate: request.force_recalculate || false,
-      debug_mode: false
+      debug_mode: false,
+      as_at: request.as_at
     };
 
     // Load data in parallel
-    const [projectAssessments, expertiseAssessments, ebaRecords] = await Promise.all([
+    const [projectAssessments, expertiseAssessments, ebaRecords, siteVisits, whsBreaches] = await Promise.all([
       this.dataSource.loadProjectAssessments(request.employer_id, context.calculation_date, context.lookback_days.project),
       this.dataSource.loadExpertiseAssessments(request.employer_id, context.calculation_date, context.lookback_days.expertise),
-      this.dataSource.loadEBARecords(request.employer_id)
+      this.dataSource.loadEBARecords(request.employer_id),
+      context.as_at && this.dataSource.loadSiteVisits
+        ? this.dataSource.loadSiteVisits(request.employer_id, context.as_at)
+        : Promise.resolve([]),
+      this.dataSource.loadWhsBreaches
+        ? this.dataSource.loadWhsBreaches(request.employer_id, context.calculation_date)
+        : Promise.resolve([])
     ]);
 
     // Load organiser profiles for expertise assessments
     const organiserIds = [...new Set(expertiseAssessments.map(a => a.organiser_id))];
     const organiserProfiles = await this.dataSource.loadOrganiserProfiles(organiserIds);
 
-    return {
+    const input: CalculationInput = {
       employer_id: request.employer_id,
       project_assessments: projectAssessments,
       expertise_assessments: expertiseAssessments,
@@ -523,8 +558,84 @@ export abstract class BaseRatingCalculator implements IRatingCalculator {
         acc[profile.id] = profile;
         return acc;
       }, {} as Record<string, any>),
+      site_visits: siteVisits,
+      whs_breaches: whsBreaches,
       context
     };
+
+    return context.as_at ? await this.applyAsAtCutoff(input, context.as_at) : input;
+  }
+
+  /**
+   * Rebuilds the input as it would have looked at the given date: records created
+   * or dated after the cutoff are dropped, records deactivated after the cutoff
+   * are treated as still active, and assessments are temporally weighted by their
+   * age at that date rather than today.
+   */
+  protected async applyAsAtCutoff(input: CalculationInput, asAt: Date): Promise<CalculationInput> {
+    const existedAt = (record: { created_at?: Date | string }) =>
+      !record.created_at || new Date(record.created_at) <= asAt;
+    const activeAt = <T extends { is_active: boolean; updated_at?: Date | string }>(record: T): T =>
+      !record.is_active && record.updated_at && new Date(record.updated_at) > asAt
+        ? { ...record, is_active: true }
+        : record;
+
+    const decayConfig: Partial<DecayConfiguration> = {
+      enabled: this.config.decay_settings.enabled,
+      half_life_days: this.config.decay_settings.half_life_days,
+      minimum_weight: this.config.decay_settings.minimum_weight
+    };
+    const [projectWeighting, expertiseWeighting] = await Promise.all([
+      this.timeDecay.applyTemporalWeightingAsAt(input.project_assessments, asAt, decayConfig),
+      this.timeDecay.applyTemporalWeightingAsAt(input.expertise_assessments, asAt, decayConfig)
+    ]);
+
+    const projectAssessments = projectWeighting.weighted_assessments.map(activeAt);
+    const expertiseAssessments = expertiseWeighting.weighted_assessments.map(activeAt);
+    const ebaRecords = input.eba_records.filter(existedAt).map(activeAt);
+    const siteVisits = (input.site_visits || []).filter(existedAt);
+    // Whether a breach was still unresolved is judged by Track 1 against the calculation date
+    const whsBreaches = (input.whs_breaches || []).filter(existedAt);
+
+    const recordsExcluded =
+      (input.project_assessments.length - projectAssessments.length) +
+      (input.expertise_assessments.length - expertiseAssessments.length) +
+      (input.eba_records.length - ebaRecords.length) +
+      ((input.site_visits || []).length - siteVisits.length) +
+      ((input.whs_breaches || []).length - whsBreaches.length);
+
+    this.logger.debug('Applied as-at cutoff to calculation input', {
+      employer_id: input.employer_id,
+      as_at: asAt.toISOString(),
+      records_excluded: recordsExcluded
+    });
+
+    return {
+      ...input,
+      project_assessments: projectAssessments,
+      expertise_assessments: expertiseAssessments,
+      eba_records: ebaRecords,
+      site_visits: siteVisits,
+      whs_breaches: whsBreaches,
+      temporal_weighting: {
+        project: projectWeighting.weighting_summary,
+        expertise: expertiseWeighting.weighting_summary
+      }
+    };
+  }
+
+  protected buildReplayDetails(input: CalculationInput, asAt: Date): RatingReplayDetails {
+    return {
+      as_at: asAt,
+      project_assessments_included: input.project_assessments.length,
+      expertise_assessments_included: input.expertise_assessments.length,
+      eba_records_included: input.eba_records.length,
+      site_visits_included: (input.site_visits || []).length,
+      average_decay_factor: {
+        project: input.temporal_weighting?.project.average_decay_factor ?? 1,
+        expertise: input.temporal_weighting?.expertise.average_decay_factor ?? 1
+      }
+    };
   }
 
   protected initializeCalculationState(calculationId: string, request: RatingCalculationRequest): CalculationState {
@@ -599,6 +710,7 @@ export abstract class BaseRatingCalculator implements IRatingCalculator {
     const keyData = {
       employer_id: request.employer_id,
       calculation_date: request.calculation_date?.toISOString() || 'today',
+      as_at: request.as_at?.toISOString(),
       method: request.calculation_method,
       weights: {
         project: request.project_weight,
@@ -636,39 +748,15 @@ export abstract class BaseRatingCalculator implements IRatingCalculator {
   // -------------------------------------------------------------------------
 
   protected generateCSVExport(result: FinalRatingResult): Blob {
-    const csvData = this.convertToCSV(result);
-    return new Blob([csvData], { type: 'text/csv' });
+    const builder = new RatingExportBuilder(this.config);
+    const [ratingsSheet] = builder.buildSheets([RatingExportBuilder.recordFromResult(result)]);
+    return new Blob([builder.toCSV(ratingsSheet)], { type: 'text/csv' });
   }
 
   protected generateExcelExport(result: FinalRatingResult): Blob {
-    // This would use a library like ExcelJS
-    // For now, return JSON as placeholder
-    const jsonData = JSON.stringify(result, null, 2);
-    return new Blob([jsonData], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
-  }
-
-  protected convertToCSV(result: FinalRatingResult): string {
-    const headers = [
-      'Employer ID', 'Final Rating', 'Final Score', 'Overall Confidence',
-      'Project Rating', 'Project Score', 'Expertise Rating', 'Expertise Score',
-      'EBA Status', 'Calculation Date', 'Review Required'
-    ];
-
-    const row = [
-      result.employer_id,
-      result.final_rating,
-      result.final_score,
-      result.overall_confidence,
-      result.project_data.rating,
-      result.project_data.score,
-      result.expertise_data.rating,
-      result.expertise_data.score,
-      result.eba_data.eba_status,
-      result.calculation_date.toISOString(),
-      result.review_required
-    ];
-
-    return [headers.join(','), row.join(',')].join('\n');
+    const builder = new RatingExportBuilder(this.config);
+    const workbook = builder.toWorkbook(builder.buildSheets([RatingExportBuilder.recordFromResult(result)]));
+    return new Blob([new Uint8Array(workbook)], { type: RATING_EXPORT_CONTENT_TYPES.xlsx });
   }
 
   protected generateSummaryReport(result: FinalRatingResult): string {
@@ -698,43 +786,7 @@ Next Review Date: ${result.next_review_date?.toISOString() || 'Not set'}
   }
 
   protected generateAuditReport(result: FinalRatingResult): string {
-    return `
-Employer Rating Audit Report
-============================
-Employer ID: ${result.employer_id}
-Audit Date: ${new Date().toISOString()}
-
-Calculation Details:
-- Method: ${result.calculation_method}
-- Algorithm: ${result.algorithm_type}
-- Weights: Project=${result.weights.project}, Expertise=${result.weights.expertise}, EBA=${result.weights.eba}
-- Processing Time: ${result.performance.calculation_time_ms}ms
-
-Component Analysis:
-${this.generateComponentAnalysis(result.project_data, 'Project Data')}
-${this.generateComponentAnalysis(result.expertise_data, 'Expertise Data')}
-${this.generateComponentAnalysis(result.eba_data, 'EBA Data')}
-
-Discrepancy Analysis:
-- Discrepancy Detected: ${result.discrepancy_check.discrepancy_detected}
-- Discrepancy Level: ${result.discrepancy_check.discrepancy_level}
-- Score Difference: ${result.discrepancy_check.score_difference}
-- Requires Review: ${result.discrepancy_check.requires_review}
-
-Validation Issues:
-${result.validation.errors.map(e => `- ${e.message}`).join('\n') || 'None'}
-    `.trim();
-  }
-
-  protected generateComponentAnalysis(data: any, title: string): string {
-    return `
-${title}:
-- Rating: ${data.rating || data.eba_status}
-- Score: ${data.score || data.eba_score}
-- Assessment Count: ${data.assessment_count || 'N/A'}
-- Data Quality: ${data.data_quality || data.eba_status}
-- Latest Assessment: ${data.latest_assessment_date || data.latest_eba_date || 'N/A'}
-    `;
+    return new RatingExportBuilder(this.config).buildAuditReport(result);
   }
 }
 
@@ -765,10 +817,12 @@ export interface IDataSource {
   loadExpertiseAssessments(employerId: string, calculationDate: Date, lookbackDays: number): Promise<any[]>;
   loadEBARecords(employerId: string): Promise<any[]>;
   loadOrganiserProfiles(organiserIds: string[]): Promise<any[]>;
+  loadSiteVisits?(employerId: string, asAt: Date): Promise<any[]>;
+  loadWhsBreaches?(employerId: string, calculationDate: Date): Promise<any[]>;
 }
 
 export interface ITrack1Calculator {
-  calculateRating(assessments: any[], context: CalculationContext): Promise<ProjectRatingResult>;
+  calculateRating(assessments: any[], context: CalculationContext, whsBreaches?: RawWhsBreach[]): Promise<ProjectRatingResult>;
 }
 
 export interface ITrack2Calculator {
@@ -0,0 +1,497 @@
+// Rating Export - Multi-sheet workbook, CSV and audit report builders for rating exports
+//
+// Sheets are built from a normalised record so a live FinalRatingResult and a stored
+// employer_final_ratings row export identically. Workbooks are written with SheetJS.
+
+import * as XLSX from 'xlsx';
+import {
+  TrafficLightRating,
+  DiscrepancyLevel,
+  FinalRatingResult,
+  ProjectRatingResult,
+  ExpertiseRatingResult
+} from '../types/RatingTypes';
+import { CalculationConfig } from '../types/CalculationTypes';
+import { DEFAULT_CALCULATION_CONFIG } from './DefaultConfig';
+import { StoredRatingRow } from './RatingNarrative';
+
+// =============================================================================
+// EXPORT TYPES
+// =============================================================================
+
+export type ExportCell = string | number | boolean | null;
+export type ExportRow = ExportCell[];
+
+export interface ExportSheet {
+  name: string;
+  headers: string[];
+  rows: ExportRow[];
+}
+
+export interface ExportComponent {
+  rating: TrafficLightRating;
+  score: number | null;
+  weight: number;
+  assessment_count: number;
+  data_age_days: number | null;
+  latest_assessment_date: string | null;
+}
+
+/**
+ * One rating as it appears in an export, whichever source it came from.
+ */
+export interface RatingExportRecord {
+  employer_id: string;
+  employer_name: string | null;
+  employer_abn: string | null;
+  rating_date: string;
+  final_rating: TrafficLightRating;
+  final_score: number | null;
+  overall_confidence: string | null;
+  rating_status: string | null;
+  calculation_method: string | null;
+  review_required: boolean;
+  project: ExportComponent;
+  expertise: ExportComponent;
+  eba: {
+    rating: TrafficLightRating;
+    score: number | null;
+    weight: number;
+    has_active_eba: boolean;
+  };
+  discrepancy: {
+    detected: boolean;
+    level: DiscrepancyLevel;
+    score_difference: number | null;
+    requires_review: boolean;
+  };
+  narrative: string | null;
+}
+
+export interface StoredExportRow extends StoredRatingRow {
+  employer_id: string;
+  overall_confidence?: string | null;
+  rating_status?: string | null;
+  review_required?: boolean | null;
+  employers?: { name?: string | null; abn?: string | null } | null;
+  narrative?: { text: string } | null;
+}
+
+export interface RatingExportOptions {
+  include_components?: boolean;
+  include_history?: boolean;
+}
+
+// =============================================================================
+// SHEET LAYOUT
+// =============================================================================
+
+const RATINGS_HEADERS = [
+  'Employer ID', 'Employer', 'ABN', 'Rating Date', 'Final Rating', 'Final Score',
+  'Confidence', 'Rating Status', 'Calculation Method', 'Review Required', 'Narrative'
+];
+
+const COMPONENT_HEADERS = [
+  'Employer ID', 'Employer', 'Rating Date', 'Component', 'Rating', 'Score', 'Weight',
+  'Weighted Score', 'Assessments', 'Data Age (days)', 'Latest Assessment'
+];
+
+const HISTORY_HEADERS = [
+  'Employer ID', 'Employer', 'Rating Date', 'Final Rating', 'Final Score',
+  'Project Score', 'Expertise Score', 'EBA Status', 'Rating Status'
+];
+
+const DISCREPANCY_HEADERS = [
+  'Employer ID', 'Employer', 'Rating Date', 'Project Rating', 'Project Score',
+  'Expertise Rating', 'Expertise Score', 'Score Difference', 'Discrepancy Level', 'Requires Review'
+];
+
+// Stored ratings keep the discrepancy level as 0-3
+const STORED_DISCREPANCY_LEVELS: DiscrepancyLevel[] = ['none', 'minor', 'moderate', 'major'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Private storage bucket holding finished exports, one folder per requester
+export const RATING_EXPORT_BUCKET = 'rating-exports';
+
+export const RATING_EXPORT_CONTENT_TYPES: Record<'csv' | 'xlsx' | 'json', string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json'
+};
+
+// =============================================================================
+// RATING EXPORT BUILDER
+// =============================================================================
+
+export class RatingExportBuilder {
+  private config: CalculationConfig;
+
+  constructor(config: CalculationConfig = DEFAULT_CALCULATION_CONFIG) {
+    this.config = config;
+  }
+
+  // -------------------------------------------------------------------------
+  // SHEETS
+  // -------------------------------------------------------------------------
+
+  /**
+   * Ratings, component breakdown and discrepancies use the latest rating per employer;
+   * the history sheet lists every rating in the export.
+   */
+  buildSheets(records: RatingExportRecord[], options: RatingExportOptions = {}): ExportSheet[] {
+    const history = [...records].sort((a, b) =>
+      a.employer_id.localeCompare(b.employer_id) || b.rating_date.localeCompare(a.rating_date)
+    );
+    const latest = history.filter((record, index) =>
+      index === 0 || history[index - 1].employer_id !== record.employer_id
+    );
+
+    const sheets: ExportSheet[] = [
+      { name: 'Ratings', headers: RATINGS_HEADERS, rows: latest.map(record => this.ratingRow(record)) }
+    ];
+
+    if (options.include_components !== false) {
+      sheets.push({
+        name: 'Component Breakdown',
+        headers: COMPONENT_HEADERS,
+        rows: latest.flatMap(record => this.componentRows(record))
+      });
+    }
+
+    if (options.include_history !== false) {
+      sheets.push({ name: 'History', headers: HISTORY_HEADERS, rows: history.map(record => this.historyRow(record)) });
+    }
+
+    sheets.push({
+      name: 'Discrepancies',
+      headers: DISCREPANCY_HEADERS,
+      rows: latest.filter(record => record.discrepancy.detected).map(record => this.discrepancyRow(record))
+    });
+
+    return sheets;
+  }
+
+  toWorkbook(sheets: ExportSheet[]): Buffer {
+    const workbook = XLSX.utils.book_new();
+
+    for (const sheet of sheets) {
+      const worksheet = XLSX.utils.aoa_to_sheet([sheet.headers, ...sheet.rows]);
+      XLSX.utils.book_append_sheet(workbook, worksheet, sheet.name);
+    }
+
+    return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+  }
+
+  toCSV(sheet: ExportSheet): string {
+    return [sheet.headers, ...sheet.rows]
+      .map(row => row.map(cell => this.escapeCSV(cell)).join(','))
+      .join('\n');
+  }
+
+  // -------------------------------------------------------------------------
+  // AUDIT REPORT
+  // -------------------------------------------------------------------------
+
+  /**
+   * Lists every input assessment with the weight and decay factor it was counted with,
+   * followed by the combination weights, method configuration and method steps.
+   */
+  buildAuditReport(result: FinalRatingResult): string {
+    const calculationDate = new Date(result.calculation_date);
+    const decay = this.config.decay_settings;
+    const lines: string[] = [
+      'Employer Rating Audit Report',
+      '============================',
+      `Employer ID: ${result.employer_id}`,
+      `Calculation Date: ${this.formatDate(calculationDate)}`,
+      `Final Rating: ${result.final_rating} (${this.formatNumber(result.final_score)})`,
+      '',
+      'Calculation Settings:',
+      `- Method: ${result.calculation_method}`,
+      `- Weights: Project=${result.weights.project}, Expertise=${result.weights.expertise}, EBA=${result.weights.eba}`,
+      ...Object.entries(result.weights.custom ?? {}).map(([name, weight]) => `- Custom Weight ${name}: ${weight}`),
+      ...Object.entries(result.method_config ?? {}).map(([key, value]) => `- Method Config ${key}: ${JSON.stringify(value)}`),
+      `- Decay: ${decay.enabled ? `enabled, half-life ${decay.half_life_days} days, minimum weight ${decay.minimum_weight}` : 'disabled'}`,
+      '',
+      `Project Assessments (${result.project_data.assessments.length}):`
+    ];
+
+    if (result.project_data.assessments.length === 0) {
+      lines.push('- None');
+    }
+    for (const assessment of result.project_data.assessments) {
+      const decayFactor = this.auditDecayFactor(assessment, calculationDate);
+      lines.push(
+        `- ${this.formatDate(new Date(assessment.assessment_date))} ${assessment.assessment_type}: ` +
+        `score ${this.formatNumber(assessment.score)}, confidence ${assessment.confidence_level}, ` +
+        `weight ${this.formatNumber(assessment.weight)}, decay factor ${this.formatNumber(decayFactor, 4)}`
+      );
+    }
+
+    lines.push('', `Expertise Assessments (${result.expertise_data.assessments.length}):`);
+    if (result.expertise_data.assessments.length === 0) {
+      lines.push('- None');
+    }
+    for (const assessment of result.expertise_data.assessments) {
+      const decayFactor = this.auditDecayFactor(assessment, calculationDate);
+      lines.push(
+        `- ${this.formatDate(new Date(assessment.assessment_date))} ${assessment.organiser_name} (${assessment.organiser_id}): ` +
+        `score ${this.formatNumber(assessment.score)}, confidence ${assessment.confidence_level}, ` +
+        `confidence weight ${this.formatNumber(assessment.confidence_weight)}, decay factor ${this.formatNumber(decayFactor, 4)}`
+      );
+    }
+
+    lines.push('', `EBA Records (${result.eba_data.eba_details.length}):`);
+    if (result.eba_data.eba_details.length === 0) {
+      lines.push('- None');
+    }
+    for (const record of result.eba_data.eba_details) {
+      const certified = record.fwc_certified_date ? this.formatDate(new Date(record.fwc_certified_date)) : 'not certified';
+      lines.push(`- ${record.eba_file_number || record.id}: ${record.is_active ? 'active' : 'inactive'}, FWC certified ${certified}`);
+    }
+
+    lines.push(
+      '',
+      'Component Results:',
+      `- Project: ${result.project_data.rating} (${this.formatNumber(result.project_data.score)})`,
+      `- Expertise: ${result.expertise_data.rating} (${this.formatNumber(result.expertise_data.score)})`,
+      `- EBA: ${result.eba_data.eba_status} (${this.formatNumber(result.eba_data.eba_score)})`
+    );
+
+    if (result.method_explanation) {
+      lines.push('', `Method Steps: ${result.method_explanation.summary}`);
+      for (const step of result.method_explanation.steps) {
+        lines.push(`- ${step.label}: ${this.formatNumber(step.value, 4)}${step.detail ? ` (${step.detail})` : ''}`);
+      }
+    }
+
+    const discrepancyCheck = result.discrepancy_check;
+    lines.push(
+      '',
+      'Discrepancy Analysis:',
+      `- Discrepancy Detected: ${discrepancyCheck.discrepancy_detected}`,
+      `- Discrepancy Level: ${discrepancyCheck.discrepancy_level}`,
+      `- Score Difference: ${this.formatNumber(discrepancyCheck.score_difference)}`,
+      `- Requires Review: ${discrepancyCheck.requires_review}`,
+      `- Explanation: ${discrepancyCheck.explanation}`
+    );
+
+    return lines.join('\n');
+  }
+
+  // -------------------------------------------------------------------------
+  // RECORD ADAPTERS
+  // -------------------------------------------------------------------------
+
+  static recordFromResult(result: FinalRatingResult, employerName: string | null = null): RatingExportRecord {
+    const component = (data: ProjectRatingResult | ExpertiseRatingResult, weight: number): ExportComponent => ({
+      rating: data.rating,
+      score: data.score,
+      weight,
+      assessment_count: data.assessment_count,
+      data_age_days: data.data_age_days ?? null,
+      latest_assessment_date: data.latest_assessment_date
+        ? new Date(data.latest_assessment_date).toISOString().slice(0, 10)
+        : null
+    });
+
+    return {
+      employer_id: result.employer_id,
+      employer_name: employerName,
+      employer_abn: null,
+      rating_date: new Date(result.calculation_date).toISOString().slice(0, 10),
+      final_rating: result.final_rating,
+      final_score: result.final_score,
+      overall_confidence: result.overall_confidence,
+      rating_status: null,
+      calculation_method: result.calculation_method,
+      review_required: result.discrepancy_check.requires_review,
+      project: component(result.project_data, result.weights.project),
+      expertise: component(result.expertise_data, result.weights.expertise),
+      eba: {
+        rating: result.eba_data.eba_status,
+        score: result.eba_data.eba_score,
+        weight: result.weights.eba,
+        has_active_eba: result.eba_data.has_active_eba
+      },
+      discrepancy: {
+        detected: result.discrepancy_check.discrepancy_detected,
+        level: result.discrepancy_check.discrepancy_level,
+        score_difference: result.discrepancy_check.score_difference,
+        requires_review: result.discrepancy_check.requires_review
+      },
+      narrative: null
+    };
+  }
+
+  static recordFromStoredRating(row: StoredExportRow): RatingExportRecord {
+    const projectScore = row.project_based_score ?? null;
+    const expertiseScore = row.expertise_based_score ?? null;
+    const level = STORED_DISCREPANCY_LEVELS[row.discrepancy_level ?? 0] ?? 'none';
+
+    return {
+      employer_id: row.employer_id,
+      employer_name: row.employers?.name ?? null,
+      employer_abn: row.employers?.abn ?? null,
+      rating_date: row.rating_date,
+      final_rating: row.final_rating,
+      final_score: row.final_score,
+      overall_confidence: row.overall_confidence ?? null,
+      rating_status: row.rating_status ?? null,
+      calculation_method: null,
+      review_required: Boolean(row.review_required),
+      project: {
+        rating: row.project_based_rating ?? 'unknown',
+        score: projectScore,
+        weight: row.project_weight ?? 0.6,
+        assessment_count: row.projects_included ?? 0,
+        data_age_days: row.project_data_age_days ?? null,
+        latest_assessment_date: row.latest_project_date ?? null
+      },
+      expertise: {
+        rating: row.expertise_based_rating ?? 'unknown',
+        score: expertiseScore,
+        weight: row.expertise_weight ?? 0.4,
+        assessment_count: row.expertise_assessments_included ?? 0,
+        data_age_days: row.expertise_data_age_days ?? null,
+        latest_assessment_date: row.latest_expertise_date ?? null
+      },
+      eba: {
+        rating: row.eba_status ?? 'unknown',
+        score: null,
+        weight: row.eba_weight ?? 0.15,
+        has_active_eba: row.eba_status === 'green'
+      },
+      discrepancy: {
+        detected: Boolean(row.rating_discrepancy) || level !== 'none',
+        level,
+        score_difference: projectScore !== null && expertiseScore !== null
+          ? Math.abs(projectScore - expertiseScore)
+          : null,
+        requires_review: Boolean(row.review_required)
+      },
+      narrative: row.narrative?.text ?? null
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // PRIVATE HELPER METHODS
+  // -------------------------------------------------------------------------
+
+  private ratingRow(record: RatingExportRecord): ExportRow {
+    return [
+      record.employer_id,
+      record.employer_name,
+      record.employer_abn,
+      record.rating_date,
+      record.final_rating,
+      record.final_score,
+      record.overall_confidence,
+      record.rating_status,
+      record.calculation_method,
+      record.review_required,
+      record.narrative
+    ];
+  }
+
+  private componentRows(record: RatingExportRecord): ExportRow[] {
+    const prefix = [record.employer_id, record.employer_name, record.rating_date];
+    const weighted = (score: number | null, weight: number) =>
+      score === null ? null : Math.round(score * weight * 100) / 100;
+
+    return [
+      [
+        ...prefix, 'Project', record.project.rating, record.project.score, record.project.weight,
+        weighted(record.project.score, record.project.weight), record.project.assessment_count,
+        record.project.data_age_days, record.project.latest_assessment_date
+      ],
+      [
+        ...prefix, 'Expertise', record.expertise.rating, record.expertise.score, record.expertise.weight,
+        weighted(record.expertise.score, record.expertise.weight), record.expertise.assessment_count,
+        record.expertise.data_age_days, record.expertise.latest_assessment_date
+      ],
+      [
+        ...prefix, 'EBA', record.eba.rating, record.eba.score, record.eba.weight,
+        weighted(record.eba.score, record.eba.weight), null, null, null
+      ]
+    ];
+  }
+
+  private historyRow(record: RatingExportRecord): ExportRow {
+    return [
+      record.employer_id,
+      record.employer_name,
+      record.rating_date,
+      record.final_rating,
+      record.final_score,
+      record.project.score,
+      record.expertise.score,
+      record.eba.rating,
+      record.rating_status
+    ];
+  }
+
+  private discrepancyRow(record: RatingExportRecord): ExportRow {
+    return [
+      record.employer_id,
+      record.employer_name,
+      record.rating_date,
+      record.project.rating,
+      record.project.score,
+      record.expertise.rating,
+      record.expertise.score,
+      record.discrepancy.score_difference,
+      record.discrepancy.level,
+      record.discrepancy.requires_review
+    ];
+  }
+
+  // Track calculators attach the factor they applied; recompute it for older results
+  private auditDecayFactor(assessment: { assessment_date: Date; decay_factor?: number }, calculationDate: Date): number {
+    if (typeof assessment.decay_factor === 'number') {
+      return assessment.decay_factor;
+    }
+
+    const { enabled, half_life_days, minimum_weight } = this.config.decay_settings;
+    const daysOld = (calculationDate.getTime() - new Date(assessment.assessment_date).getTime()) / DAY_MS;
+    if (!enabled || daysOld <= 0) return 1;
+
+    return Math.max(Math.pow(0.5, daysOld / half_life_days), minimum_weight);
+  }
+
+  private escapeCSV(cell: ExportCell): string {
+    if (cell === null || cell === undefined) return '';
+    const value = cell.toString();
+    if (/[",\n]/.test(value)) {
+      return `"${value.replace(/"/g, '""')}"`;
+    }
+    return value;
+  }
+
+  private formatNumber(value: number | null | undefined, decimals: number = 2): string {
+    if (value === null || value === undefined || Number.isNaN(value)) return 'n/a';
+    const factor = Math.pow(10, decimals);
+    return String(Math.round(value * factor) / factor);
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+}
+
+// =============================================================================
+// CUSTOM ERROR CLASS
+// =============================================================================
+
+export class RatingExportError extends Error {
+  public readonly code: string;
+  public readonly details?: Record<string, any>;
+
+  constructor(code: string, message: string, details?: Record<string, any>) {
+    super(message);
+    this.name = 'RatingExportError';
+    this.code = code;
+    this.details = details;
+  }
+}
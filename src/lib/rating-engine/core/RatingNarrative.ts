@@ -0,0 +1,429 @@
+// Rating Narrative - Deterministic plain-English explanation of a final rating
+//
+// Template-based only: the same rating always produces the same text, so narratives can be
+// exported, diffed and unit tested. Ages are measured from the rating's own calculation date.
+
+import {
+  TrafficLightRating,
+  DiscrepancyLevel,
+  FinalRatingResult,
+  RatingWeights,
+  CalculationMethod
+} from '../types/RatingTypes';
+import { CalculationConfig } from '../types/CalculationTypes';
+import { DEFAULT_CALCULATION_CONFIG } from './DefaultConfig';
+
+// =============================================================================
+// NARRATIVE TYPES
+// =============================================================================
+
+export interface RatingNarrative {
+  headline: string;
+  drivers: string[];
+  stale_data: string[];
+  discrepancy: string | null;
+  what_would_change: string[];
+  // All sections joined into one paragraph, for exports and tooltips
+  text: string;
+}
+
+export interface NarrativeAssessment {
+  label: string;
+  assessment_date: Date;
+}
+
+export interface NarrativeComponent {
+  rating: TrafficLightRating;
+  score: number | null;
+  assessment_count: number;
+  latest_assessment_date?: Date;
+  data_age_days?: number;
+  assessments?: NarrativeAssessment[];
+}
+
+/**
+ * The subset of a rating the narrative needs. Built from a live FinalRatingResult or
+ * from a stored employer_final_ratings row.
+ */
+export interface RatingNarrativeSource {
+  final_rating: TrafficLightRating;
+  final_score: number;
+  calculation_date: Date;
+  calculation_method?: CalculationMethod;
+  weights: Pick<RatingWeights, 'project' | 'expertise' | 'eba'>;
+  project: NarrativeComponent;
+  expertise: NarrativeComponent;
+  eba: {
+    has_active_eba: boolean;
+    latest_eba_date?: Date;
+  };
+  discrepancy?: {
+    detected: boolean;
+    level: DiscrepancyLevel;
+    score_difference?: number;
+  };
+}
+
+export interface StoredRatingRow {
+  rating_date: string;
+  final_rating: TrafficLightRating;
+  final_score: number | null;
+  project_based_rating?: TrafficLightRating | null;
+  project_based_score?: number | null;
+  project_data_age_days?: number | null;
+  projects_included?: number | null;
+  latest_project_date?: string | null;
+  expertise_based_rating?: TrafficLightRating | null;
+  expertise_based_score?: number | null;
+  expertise_data_age_days?: number | null;
+  expertise_assessments_included?: number | null;
+  latest_expertise_date?: string | null;
+  rating_discrepancy?: boolean | null;
+  discrepancy_level?: number | null;
+  project_weight?: number | null;
+  expertise_weight?: number | null;
+  eba_weight?: number | null;
+  eba_status?: TrafficLightRating | null;
+}
+
+// =============================================================================
+// LABELS
+// =============================================================================
+
+const ASSESSMENT_LABELS: Record<string, string> = {
+  cbus_status: 'Cbus status',
+  incolink_status: 'Incolink status',
+  site_visit_report: 'Site visit report',
+  delegate_report: 'Delegate report',
+  organiser_verbal_report: 'Organiser verbal report',
+  organiser_written_report: 'Organiser written report',
+  eca_status: 'ECA status',
+  safety_incidents: 'Safety incidents',
+  industrial_disputes: 'Industrial disputes',
+  payment_issues: 'Payment issues'
+};
+
+// Stored ratings keep the discrepancy level as 0-3
+const STORED_DISCREPANCY_LEVELS: DiscrepancyLevel[] = ['none', 'minor', 'moderate', 'major'];
+
+const HYBRID_CRITICAL_WEIGHT = 0.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// RATING NARRATIVE BUILDER
+// =============================================================================
+
+export class RatingNarrativeBuilder {
+  private config: CalculationConfig;
+
+  constructor(config: CalculationConfig = DEFAULT_CALCULATION_CONFIG) {
+    this.config = config;
+  }
+
+  // -------------------------------------------------------------------------
+  // PUBLIC BUILDERS
+  // -------------------------------------------------------------------------
+
+  build(result: FinalRatingResult): RatingNarrative {
+    return this.buildFromSource(RatingNarrativeBuilder.sourceFromResult(result));
+  }
+
+  buildFromStoredRating(row: StoredRatingRow): RatingNarrative {
+    return this.buildFromSource(RatingNarrativeBuilder.sourceFromStoredRating(row));
+  }
+
+  buildFromSource(source: RatingNarrativeSource): RatingNarrative {
+    const headline = this.buildHeadline(source);
+    const drivers = this.buildDrivers(source);
+    const staleData = this.buildStaleData(source);
+    const discrepancy = this.buildDiscrepancy(source);
+    const whatWouldChange = this.buildWhatWouldChange(source);
+
+    const text = [
+      headline,
+      ...drivers,
+      discrepancy,
+      ...staleData,
+      ...whatWouldChange
+    ].filter((sentence): sentence is string => Boolean(sentence)).join(' ');
+
+    return {
+      headline,
+      drivers,
+      stale_data: staleData,
+      discrepancy,
+      what_would_change: whatWouldChange,
+      text
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // SOURCE ADAPTERS
+  // -------------------------------------------------------------------------
+
+  static sourceFromResult(result: FinalRatingResult): RatingNarrativeSource {
+    const discrepancyCheck = result.discrepancy_check;
+
+    return {
+      final_rating: result.final_rating,
+      final_score: result.final_score,
+      calculation_date: new Date(result.calculation_date),
+      calculation_method: result.calculation_method,
+      weights: result.weights,
+      project: {
+        rating: result.project_data.rating,
+        score: result.project_data.score,
+        assessment_count: result.project_data.assessment_count,
+        latest_assessment_date: result.project_data.latest_assessment_date,
+        data_age_days: result.project_data.data_age_days,
+        assessments: (result.project_data.assessments || []).map(assessment => ({
+          label: ASSESSMENT_LABELS[assessment.assessment_type] || assessment.assessment_type,
+          assessment_date: new Date(assessment.assessment_date)
+        }))
+      },
+      expertise: {
+        rating: result.expertise_data.rating,
+        score: result.expertise_data.score,
+        assessment_count: result.expertise_data.assessment_count,
+        latest_assessment_date: result.expertise_data.latest_assessment_date,
+        data_age_days: result.expertise_data.data_age_days,
+        assessments: (result.expertise_data.assessments || []).map(assessment => ({
+          label: `Expertise assessment by ${assessment.organiser_name}`,
+          assessment_date: new Date(assessment.assessment_date)
+        }))
+      },
+      eba: {
+        has_active_eba: result.eba_data.has_active_eba,
+        latest_eba_date: result.eba_data.latest_eba_date
+      },
+      discrepancy: discrepancyCheck
+        ? {
+            detected: discrepancyCheck.discrepancy_detected,
+            level: discrepancyCheck.discrepancy_level,
+            score_difference: discrepancyCheck.score_difference
+          }
+        : undefined
+    };
+  }
+
+  static sourceFromStoredRating(row: StoredRatingRow): RatingNarrativeSource {
+    const toDate = (value?: string | null) => (value ? new Date(value) : undefined);
+    const discrepancyLevel = STORED_DISCREPANCY_LEVELS[row.discrepancy_level ?? 0] ?? 'none';
+
+    return {
+      final_rating: row.final_rating,
+      final_score: row.final_score ?? 0,
+      calculation_date: new Date(row.rating_date),
+      weights: {
+        project: row.project_weight ?? 0.6,
+        expertise: row.expertise_weight ?? 0.4,
+        eba: row.eba_weight ?? 0.15
+      },
+      project: {
+        rating: row.project_based_rating ?? 'unknown',
+        score: row.project_based_score ?? null,
+        assessment_count: row.projects_included ?? 0,
+        latest_assessment_date: toDate(row.latest_project_date),
+        data_age_days: row.project_data_age_days ?? undefined
+      },
+      expertise: {
+        rating: row.expertise_based_rating ?? 'unknown',
+        score: row.expertise_based_score ?? null,
+        assessment_count: row.expertise_assessments_included ?? 0,
+        latest_assessment_date: toDate(row.latest_expertise_date),
+        data_age_days: row.expertise_data_age_days ?? undefined
+      },
+      eba: {
+        has_active_eba: row.eba_status === 'green'
+      },
+      discrepancy: {
+        detected: Boolean(row.rating_discrepancy) || discrepancyLevel !== 'none',
+        level: discrepancyLevel
+      }
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // SECTION BUILDERS
+  // -------------------------------------------------------------------------
+
+  private buildHeadline(source: RatingNarrativeSource): string {
+    if (source.final_rating === 'unknown') {
+      return 'There is not enough data to rate this employer yet.';
+    }
+
+    return `Rated ${source.final_rating} with a score of ${this.formatScore(source.final_score)} as at ${this.formatDate(source.calculation_date)}.`;
+  }
+
+  private buildDrivers(source: RatingNarrativeSource): string[] {
+    const shares = this.componentShares(source);
+    const components: Array<{ name: string; component: NarrativeComponent; share: number }> = [
+      { name: 'Project compliance data', component: source.project, share: shares.project },
+      { name: 'Organiser expertise', component: source.expertise, share: shares.expertise }
+    ];
+
+    const drivers = components
+      .filter(({ component }) => component.score !== null && component.assessment_count > 0)
+      // Largest weighted contribution first; names break ties so the order is stable
+      .sort((a, b) =>
+        Math.abs((b.component.score as number) * b.share) - Math.abs((a.component.score as number) * a.share) ||
+        a.name.localeCompare(b.name)
+      )
+      .map(({ name, component, share }) => {
+        const effect = this.describeEffect(component.score as number);
+        const count = `${component.assessment_count} assessment${component.assessment_count === 1 ? '' : 's'}`;
+        return `${name} ${effect} (${component.rating}, score ${this.formatScore(component.score as number)} from ${count}, ${Math.round(share * 100)}% of the final score).`;
+      });
+
+    for (const { name, component } of components) {
+      if (component.score === null || component.assessment_count === 0) {
+        drivers.push(`${name} has no assessments in the rating period, so it did not contribute.`);
+      }
+    }
+
+    if (source.eba.has_active_eba) {
+      drivers.push('An active EBA is on record and supported the rating.');
+    } else {
+      drivers.push('No active EBA is on record, which pulled the rating down.');
+    }
+
+    return drivers;
+  }
+
+  private buildStaleData(source: RatingNarrativeSource): string[] {
+    const maximumAge = this.config.quality_requirements.maximum_data_age.low;
+    const stale: string[] = [];
+
+    const componentStale = (name: string, component: NarrativeComponent) => {
+      if (component.assessments && component.assessments.length > 0) {
+        const staleAssessments = component.assessments
+          .map(assessment => ({ ...assessment, age: this.ageInDays(assessment.assessment_date, source.calculation_date) }))
+          .filter(assessment => assessment.age > maximumAge)
+          .sort((a, b) => b.age - a.age || a.label.localeCompare(b.label));
+
+        for (const assessment of staleAssessments) {
+          stale.push(`${assessment.label} from ${this.formatDate(assessment.assessment_date)} is ${assessment.age} days old.`);
+        }
+        return;
+      }
+
+      const age = component.data_age_days ??
+        (component.latest_assessment_date ? this.ageInDays(component.latest_assessment_date, source.calculation_date) : undefined);
+      if (age !== undefined && age > maximumAge) {
+        stale.push(`The most recent ${name} is ${age} days old.`);
+      }
+    };
+
+    componentStale('project assessment', source.project);
+    componentStale('expertise assessment', source.expertise);
+
+    if (stale.length > 0) {
+      stale.unshift(`${stale.length} assessment${stale.length === 1 ? ' is' : 's are'} older than ${maximumAge} days and carry reduced weight:`);
+    }
+
+    return stale;
+  }
+
+  private buildDiscrepancy(source: RatingNarrativeSource): string | null {
+    const discrepancy = source.discrepancy;
+    if (!discrepancy || !discrepancy.detected || discrepancy.level === 'none') {
+      return null;
+    }
+
+    const gap = discrepancy.score_difference ?? (
+      source.project.score !== null && source.expertise.score !== null
+        ? Math.abs(source.project.score - source.expertise.score)
+        : undefined
+    );
+    const gapText = gap !== undefined ? ` (${this.formatScore(gap)} points apart)` : '';
+
+    return `Project data rates the employer ${source.project.rating} but organiser expertise rates it ${source.expertise.rating}${gapText}, a ${discrepancy.level} discrepancy.`;
+  }
+
+  private buildWhatWouldChange(source: RatingNarrativeSource): string[] {
+    if (source.final_rating === 'unknown') {
+      return ['Recording a project assessment or an organiser expertise assessment would produce a rating.'];
+    }
+
+    const thresholds = this.config.score_thresholds;
+    const shares = this.componentShares(source);
+    const changes: string[] = [];
+
+    const nextBand = source.final_rating === 'red'
+      ? { rating: 'amber', min: thresholds.amber.min }
+      : source.final_rating === 'amber'
+        ? { rating: 'green', min: thresholds.green.min }
+        : null;
+
+    if (nextBand) {
+      const gap = Math.max(0, nextBand.min - source.final_score);
+      changes.push(`Moving to ${nextBand.rating} needs ${this.formatScore(gap)} more points on the final score.`);
+
+      for (const [name, share] of [['project compliance', shares.project], ['organiser expertise', shares.expertise]] as const) {
+        if (share > 0) {
+          changes.push(`That is about ${this.formatScore(gap / share)} points of improvement in ${name} with everything else unchanged.`);
+        }
+      }
+    }
+
+    const lowerBand = source.final_rating === 'green'
+      ? { rating: 'amber', max: thresholds.green.min }
+      : source.final_rating === 'amber'
+        ? { rating: 'red', max: thresholds.amber.min }
+        : null;
+
+    if (lowerBand) {
+      const margin = Math.max(0, source.final_score - lowerBand.max);
+      changes.push(`A drop of more than ${this.formatScore(margin)} points would move the rating to ${lowerBand.rating}.`);
+    }
+
+    return changes;
+  }
+
+  // -------------------------------------------------------------------------
+  // PRIVATE HELPER METHODS
+  // -------------------------------------------------------------------------
+
+  // Share of the final score each component controls under the rating's method and weights
+  private componentShares(source: RatingNarrativeSource): { project: number; expertise: number } {
+    const { project, expertise, eba } = source.weights;
+
+    // The lowest factor sets a minimum score, so no single component has a fixed share
+    if (source.calculation_method === 'minimum_score') {
+      return { project: 0, expertise: 0 };
+    }
+
+    if (source.calculation_method === 'weighted_sum') {
+      return { project, expertise };
+    }
+
+    if (source.calculation_method === 'hybrid_method') {
+      const base = project + expertise;
+      if (base <= 0) return { project: 0, expertise: 0 };
+      const baseShare = 1 - HYBRID_CRITICAL_WEIGHT;
+      return { project: (project / base) * baseShare, expertise: (expertise / base) * baseShare };
+    }
+
+    const total = project + expertise + eba;
+    if (total <= 0) return { project: 0, expertise: 0 };
+    return { project: project / total, expertise: expertise / total };
+  }
+
+  private describeEffect(score: number): string {
+    if (score >= this.config.score_thresholds.green.min) return 'lifted the rating';
+    if (score >= this.config.score_thresholds.amber.min) return 'held the rating at amber';
+    return 'pulled the rating down';
+  }
+
+  private ageInDays(date: Date, reference: Date): number {
+    return Math.max(0, Math.floor((reference.getTime() - new Date(date).getTime()) / DAY_MS));
+  }
+
+  private formatScore(score: number): string {
+    return (Math.round(score * 10) / 10).toString();
+  }
+
+  private formatDate(date: Date): string {
+    return new Date(date).toISOString().split('T')[0];
+  }
+}
@@ -0,0 +1,517 @@
+// Rating Simulator - "What-if" recalculation of final ratings from hypothetical input changes
+//
+// Nothing here touches the database: the simulator takes already-loaded inputs, applies
+// overrides to an in-memory copy and reruns the Track 1 / Track 2 / EBA / combined pipeline.
+
+import {
+  TrafficLightRating,
+  ConfidenceLevel,
+  ComplianceAssessmentType,
+  FinalRatingResult,
+  RatingWeights,
+  CalculationMethod
+} from '../types/RatingTypes';
+import {
+  CalculationConfig,
+  CalculationContext,
+  CalculationInput,
+  RawProjectAssessment,
+  RawExpertiseAssessment,
+  RawEBARecord
+} from '../types/CalculationTypes';
+import {
+  ITrack1Calculator,
+  ITrack2Calculator,
+  IEBACalculator,
+  ICombinedCalculator
+} from './RatingCalculator';
+import { Track1Calculator } from './Track1Calculator';
+import { Track2Calculator } from './Track2Calculator';
+import { EBACalculator } from './EBACalculator';
+import { CombinedCalculator } from './CombinedCalculator';
+
+// =============================================================================
+// SIMULATION TYPES
+// =============================================================================
+
+export interface SimulatedProjectAssessment {
+  assessment_type: ComplianceAssessmentType;
+  score: number;
+  rating?: TrafficLightRating | null;
+  confidence_level?: ConfidenceLevel;
+  assessment_date?: Date;
+  project_id?: string;
+}
+
+export interface SimulatedExpertiseAssessment {
+  organiser_id: string;
+  overall_score: number;
+  overall_rating?: TrafficLightRating | null;
+  confidence_level?: ConfidenceLevel;
+  assessment_basis?: string;
+  assessment_date?: Date;
+}
+
+export type SimulatedEBAStatus = 'active' | 'expired' | 'none';
+
+export interface RatingSimulationOverrides {
+  add_project_assessments?: SimulatedProjectAssessment[];
+  remove_project_assessment_ids?: string[];
+  add_expertise_assessments?: SimulatedExpertiseAssessment[];
+  remove_expertise_assessment_ids?: string[];
+  drop_expired_assessments?: boolean;
+  eba_status?: SimulatedEBAStatus;
+  weights?: Partial<RatingWeights>;
+  method?: CalculationMethod;
+}
+
+export interface ComponentDiff {
+  from_rating: TrafficLightRating;
+  to_rating: TrafficLightRating;
+  from_score: number | null;
+  to_score: number | null;
+  score_delta: number | null;
+  from_assessment_count: number;
+  to_assessment_count: number;
+}
+
+export interface RatingSimulationDiff {
+  rating_changed: boolean;
+  from_rating: TrafficLightRating;
+  to_rating: TrafficLightRating;
+  from_score: number;
+  to_score: number;
+  score_delta: number;
+  confidence_changed: boolean;
+  from_confidence: ConfidenceLevel;
+  to_confidence: ConfidenceLevel;
+  review_required_changed: boolean;
+  components: {
+    project: ComponentDiff;
+    expertise: ComponentDiff;
+    eba: ComponentDiff;
+  };
+}
+
+export type PersistedComponentDiff = Omit<ComponentDiff, 'from_assessment_count' | 'to_assessment_count'>;
+
+/**
+ * The saved employer_final_ratings values a simulation can be compared with
+ */
+export interface PersistedRatingSnapshot {
+  final_rating: TrafficLightRating;
+  final_score: number | null;
+  overall_confidence: ConfidenceLevel;
+  project_based_rating: TrafficLightRating | null;
+  project_based_score: number | null;
+  expertise_based_rating: TrafficLightRating | null;
+  expertise_based_score: number | null;
+  eba_status: TrafficLightRating | null;
+  rating_date: string;
+}
+
+export interface PersistedRatingDiff {
+  rating_date: string;
+  rating_changed: boolean;
+  from_rating: TrafficLightRating;
+  to_rating: TrafficLightRating;
+  from_score: number | null;
+  to_score: number;
+  score_delta: number | null;
+  confidence_changed: boolean;
+  from_confidence: ConfidenceLevel;
+  to_confidence: ConfidenceLevel;
+  components: {
+    project: PersistedComponentDiff;
+    expertise: PersistedComponentDiff;
+    eba: PersistedComponentDiff;
+  };
+}
+
+export interface RatingSimulationResult {
+  employer_id: string;
+  calculation_date: Date;
+  baseline: FinalRatingResult;
+  simulated: FinalRatingResult;
+  diff: RatingSimulationDiff;
+  applied_overrides: string[];
+  persisted: false;
+}
+
+export interface RatingSimulatorCalculators {
+  track1: ITrack1Calculator;
+  track2: ITrack2Calculator;
+  eba: IEBACalculator;
+  combined: ICombinedCalculator;
+}
+
+// =============================================================================
+// RATING SIMULATOR IMPLEMENTATION
+// =============================================================================
+
+export class RatingSimulator {
+  private calculators: RatingSimulatorCalculators;
+
+  constructor(config: CalculationConfig, calculators: Partial<RatingSimulatorCalculators> = {}) {
+    this.calculators = {
+      track1: calculators.track1 ?? new Track1Calculator(config),
+      track2: calculators.track2 ?? new Track2Calculator(config),
+      eba: calculators.eba ?? new EBACalculator(),
+      combined: calculators.combined ?? new CombinedCalculator(config)
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // MAIN SIMULATION METHOD
+  // -------------------------------------------------------------------------
+
+  async simulate(
+    input: CalculationInput,
+    overrides: RatingSimulationOverrides
+  ): Promise<RatingSimulationResult> {
+    this.validateOverrides(overrides);
+
+    const baseline = await this.calculate(input);
+    const { input: simulatedInput, applied } = this.applyOverrides(input, overrides);
+    const simulated = await this.calculate(simulatedInput);
+
+    return {
+      employer_id: input.employer_id,
+      calculation_date: input.context.calculation_date,
+      baseline,
+      simulated,
+      diff: this.buildDiff(baseline, simulated),
+      applied_overrides: applied,
+      persisted: false
+    };
+  }
+
+  /**
+   * Runs the full calculation pipeline over in-memory inputs
+   */
+  async calculate(input: CalculationInput): Promise<FinalRatingResult> {
+    const { context } = input;
+
+    const [projectResult, expertiseResult, ebaResult] = await Promise.all([
+      this.calculators.track1.calculateRating(input.project_assessments, context, input.whs_breaches),
+      this.calculators.track2.calculateRating(input.expertise_assessments, input.organiser_profiles, context),
+      this.calculators.eba.calculateRating(input.eba_records, context)
+    ]);
+
+    return this.calculators.combined.calculateFinalRating(
+      projectResult,
+      expertiseResult,
+      ebaResult,
+      context
+    );
+  }
+
+  /**
+   * Compares a simulated result with the rating saved in employer_final_ratings, which
+   * can differ from the recalculated baseline when inputs changed since it was saved
+   */
+  diffAgainstPersisted(live: PersistedRatingSnapshot, simulated: FinalRatingResult): PersistedRatingDiff {
+    const component = (
+      fromRating: TrafficLightRating | null,
+      toRating: TrafficLightRating,
+      fromScore: number | null,
+      toScore: number | null
+    ): PersistedComponentDiff => ({
+      from_rating: fromRating ?? 'unknown',
+      to_rating: toRating,
+      from_score: fromScore,
+      to_score: toScore,
+      score_delta: fromScore !== null && toScore !== null ? this.roundScore(toScore - fromScore) : null
+    });
+    const fromScore = live.final_score === null ? null : Number(live.final_score);
+
+    return {
+      rating_date: live.rating_date,
+      rating_changed: live.final_rating !== simulated.final_rating,
+      from_rating: live.final_rating,
+      to_rating: simulated.final_rating,
+      from_score: fromScore,
+      to_score: simulated.final_score,
+      score_delta: fromScore === null ? null : this.roundScore(simulated.final_score - fromScore),
+      confidence_changed: live.overall_confidence !== simulated.overall_confidence,
+      from_confidence: live.overall_confidence,
+      to_confidence: simulated.overall_confidence,
+      components: {
+        project: component(
+          live.project_based_rating, simulated.project_data.rating,
+          live.project_based_score === null ? null : Number(live.project_based_score), simulated.project_data.score
+        ),
+        expertise: component(
+          live.expertise_based_rating, simulated.expertise_data.rating,
+          live.expertise_based_score === null ? null : Number(live.expertise_based_score), simulated.expertise_data.score
+        ),
+        eba: component(live.eba_status, simulated.eba_data.eba_status, null, simulated.eba_data.eba_score)
+      }
+    };
+  }
+
+  /**
+   * Returns a modified copy of the input; the original input is never mutated
+   */
+  applyOverrides(
+    input: CalculationInput,
+    overrides: RatingSimulationOverrides
+  ): { input: CalculationInput; applied: string[] } {
+    const applied: string[] = [];
+    const context: CalculationContext = {
+      ...input.context,
+      weights: { ...input.context.weights },
+      force_recalculate: true
+    };
+    const calculationDate = context.calculation_date;
+
+    let projectAssessments = [...input.project_assessments];
+    let expertiseAssessments = [...input.expertise_assessments];
+    let ebaRecords = [...input.eba_records];
+
+    if (overrides.remove_project_assessment_ids?.length) {
+      const ids = new Set(overrides.remove_project_assessment_ids);
+      const before = projectAssessments.length;
+      projectAssessments = projectAssessments.filter(a => !ids.has(a.id));
+      applied.push(`Removed ${before - projectAssessments.length} project assessment(s)`);
+    }
+
+    if (overrides.remove_expertise_assessment_ids?.length) {
+      const ids = new Set(overrides.remove_expertise_assessment_ids);
+      const before = expertiseAssessments.length;
+      expertiseAssessments = expertiseAssessments.filter(a => !ids.has(a.id));
+      applied.push(`Removed ${before - expertiseAssessments.length} expertise assessment(s)`);
+    }
+
+    if (overrides.drop_expired_assessments) {
+      const projectCutoff = this.daysBefore(calculationDate, context.lookback_days.project);
+      const before = projectAssessments.length + expertiseAssessments.length;
+
+      projectAssessments = projectAssessments.filter(a => new Date(a.assessment_date) >= projectCutoff);
+      expertiseAssessments = expertiseAssessments.filter(a =>
+        !a.expires_date || new Date(a.expires_date) >= calculationDate
+      );
+
+      applied.push(`Dropped ${before - projectAssessments.length - expertiseAssessments.length} expired assessment(s)`);
+    }
+
+    overrides.add_project_assessments?.forEach((assessment, index) => {
+      projectAssessments.push(this.createProjectAssessment(input.employer_id, assessment, calculationDate, index));
+      applied.push(`Added ${assessment.assessment_type} assessment scoring ${assessment.score}`);
+    });
+
+    overrides.add_expertise_assessments?.forEach((assessment, index) => {
+      expertiseAssessments.push(this.createExpertiseAssessment(input.employer_id, assessment, calculationDate, index));
+      applied.push(`Added expertise assessment scoring ${assessment.overall_score}`);
+    });
+
+    if (overrides.eba_status) {
+      ebaRecords = this.createEBARecords(input.employer_id, overrides.eba_status, calculationDate);
+      applied.push(`Set EBA status to ${overrides.eba_status}`);
+    }
+
+    if (overrides.weights) {
+      context.weights = { ...context.weights, ...overrides.weights };
+      applied.push(
+        `Used weights project=${context.weights.project}, expertise=${context.weights.expertise}, eba=${context.weights.eba}`
+      );
+    }
+
+    if (overrides.method) {
+      context.method = overrides.method;
+      applied.push(`Used calculation method ${overrides.method}`);
+    }
+
+    return {
+      input: {
+        ...input,
+        project_assessments: projectAssessments,
+        expertise_assessments: expertiseAssessments,
+        eba_records: ebaRecords,
+        context
+      },
+      applied
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // PRIVATE HELPER METHODS
+  // -------------------------------------------------------------------------
+
+  private validateOverrides(overrides: RatingSimulationOverrides): void {
+    const scores = [
+      ...(overrides.add_project_assessments ?? []).map(a => a.score),
+      ...(overrides.add_expertise_assessments ?? []).map(a => a.overall_score)
+    ];
+
+    const invalidScore = scores.find(score => typeof score !== 'number' || isNaN(score) || score < -100 || score > 100);
+    if (invalidScore !== undefined) {
+      throw new RatingSimulationError(
+        'INVALID_OVERRIDE',
+        'Simulated assessment scores must be between -100 and 100',
+        { score: invalidScore }
+      );
+    }
+
+    for (const [component, weight] of Object.entries(overrides.weights ?? {})) {
+      if (typeof weight === 'number' && (weight < 0 || weight > 1)) {
+        throw new RatingSimulationError(
+          'INVALID_OVERRIDE',
+          'Simulated weights must be between 0 and 1',
+          { component, weight }
+        );
+      }
+    }
+  }
+
+  private createProjectAssessment(
+    employerId: string,
+    assessment: SimulatedProjectAssessment,
+    calculationDate: Date,
+    index: number
+  ): RawProjectAssessment {
+    return {
+      id: `simulated-project-${index + 1}`,
+      employer_id: employerId,
+      project_id: assessment.project_id,
+      assessment_type: assessment.assessment_type,
+      score: assessment.score,
+      rating: assessment.rating ?? null,
+      confidence_level: assessment.confidence_level ?? 'medium',
+      severity_level: null,
+      assessment_date: assessment.assessment_date ?? calculationDate,
+      follow_up_required: false,
+      is_active: true,
+      created_at: calculationDate,
+      updated_at: calculationDate
+    };
+  }
+
+  private createExpertiseAssessment(
+    employerId: string,
+    assessment: SimulatedExpertiseAssessment,
+    calculationDate: Date,
+    index: number
+  ): RawExpertiseAssessment {
+    return {
+      id: `simulated-expertise-${index + 1}`,
+      employer_id: employerId,
+      organiser_id: assessment.organiser_id,
+      overall_score: assessment.overall_score,
+      overall_rating: assessment.overall_rating ?? null,
+      confidence_level: assessment.confidence_level ?? 'medium',
+      assessment_basis: assessment.assessment_basis || 'Simulated assessment',
+      eba_status_known: false,
+      knowledge_beyond_projects: false,
+      recent_improvements: false,
+      future_concerns: false,
+      assessment_date: assessment.assessment_date ?? calculationDate,
+      is_active: true,
+      created_at: calculationDate,
+      updated_at: calculationDate
+    };
+  }
+
+  private createEBARecords(
+    employerId: string,
+    status: SimulatedEBAStatus,
+    calculationDate: Date
+  ): RawEBARecord[] {
+    if (status === 'none') {
+      return [];
+    }
+
+    // An expired agreement is one certified outside the four year active window
+    const certifiedDate = status === 'active'
+      ? calculationDate
+      : this.daysBefore(calculationDate, 5 * 365);
+
+    return [{
+      id: 'simulated-eba',
+      employer_id: employerId,
+      fwc_certified_date: certifiedDate,
+      is_active: true,
+      created_at: certifiedDate,
+      updated_at: certifiedDate
+    }];
+  }
+
+  private buildDiff(baseline: FinalRatingResult, simulated: FinalRatingResult): RatingSimulationDiff {
+    return {
+      rating_changed: baseline.final_rating !== simulated.final_rating,
+      from_rating: baseline.final_rating,
+      to_rating: simulated.final_rating,
+      from_score: baseline.final_score,
+      to_score: simulated.final_score,
+      score_delta: this.roundScore(simulated.final_score - baseline.final_score),
+      confidence_changed: baseline.overall_confidence !== simulated.overall_confidence,
+      from_confidence: baseline.overall_confidence,
+      to_confidence: simulated.overall_confidence,
+      review_required_changed: this.isReviewRequired(baseline) !== this.isReviewRequired(simulated),
+      components: {
+        project: this.buildComponentDiff(
+          baseline.project_data.rating, simulated.project_data.rating,
+          baseline.project_data.score, simulated.project_data.score,
+          baseline.project_data.assessment_count, simulated.project_data.assessment_count
+        ),
+        expertise: this.buildComponentDiff(
+          baseline.expertise_data.rating, simulated.expertise_data.rating,
+          baseline.expertise_data.score, simulated.expertise_data.score,
+          baseline.expertise_data.assessment_count, simulated.expertise_data.assessment_count
+        ),
+        eba: this.buildComponentDiff(
+          baseline.eba_data.eba_status, simulated.eba_data.eba_status,
+          baseline.eba_data.eba_score, simulated.eba_data.eba_score,
+          baseline.eba_data.eba_details.length, simulated.eba_data.eba_details.length
+        )
+      }
+    };
+  }
+
+  private buildComponentDiff(
+    fromRating: TrafficLightRating,
+    toRating: TrafficLightRating,
+    fromScore: number | null,
+    toScore: number | null,
+    fromCount: number,
+    toCount: number
+  ): ComponentDiff {
+    return {
+      from_rating: fromRating,
+      to_rating: toRating,
+      from_score: fromScore,
+      to_score: toScore,
+      score_delta: fromScore !== null && toScore !== null ? this.roundScore(toScore - fromScore) : null,
+      from_assessment_count: fromCount,
+      to_assessment_count: toCount
+    };
+  }
+
+  private isReviewRequired(result: FinalRatingResult): boolean {
+    return !!(result as FinalRatingResult & { review_required?: boolean }).review_required;
+  }
+
+  private roundScore(score: number): number {
+    return Math.round(score * 100) / 100;
+  }
+
+  private daysBefore(date: Date, days: number): Date {
+    return new Date(date.getTime() - (days * 24 * 60 * 60 * 1000));
+  }
+}
+
+// =============================================================================
+// CUSTOM ERROR CLASS
+// =============================================================================
+
+export class RatingSimulationError extends Error {
+  public readonly code: string;
+  public readonly details?: Record<string, any>;
+
+  constructor(code: string, message: string, details?: Record<string, any>) {
+    super(message);
+    this.name = 'RatingSimulationError';
+    this.code = code;
+    this.details = details;
+  }
+}
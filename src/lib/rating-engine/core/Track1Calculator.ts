@@ -19,9 +19,18 @@ import {
   WeightedAssessment,
   AggregatedProjectData,
   DataQualityIssue,
-  CalculationConfig
+  CalculationConfig,
+  RawProjectAssessment,
+  RawWhsBreach
 } from '../types/CalculationTypes';
 
+// Score and severity an unresolved serious WHS breach adds to the safety
+// component. Lower-severity breaches are left to organiser assessments.
+const UNRESOLVED_BREACH_IMPACT: Partial<Record<RawWhsBreach['severity'], { score: number; severity_level: number }>> = {
+  high: { score: 25, severity_level: 4 },
+  critical: { score: 0, severity_level: 5 }
+};
+
 // =============================================================================
 // TRACK 1 CALCULATOR INTERFACE
 // =============================================================================
@@ -29,7 +38,8 @@ import {
 export interface ITrack1Calculator {
   calculateRating(
     assessments: any[],
-    context: CalculationContext
+    context: CalculationContext,
+    whsBreaches?: RawWhsBreach[]
   ): Promise<ProjectRatingResult>;
   calculateQualityMetrics(
     assessments: any[],
@@ -58,7 +68,8 @@ export class Track1Calculator implements ITrack1Calculator {
 
   async calculateRating(
     assessments: any[],
-    context: CalculationContext
+    context: CalculationContext,
+    whsBreaches: RawWhsBreach[] = []
   ): Promise<ProjectRatingResult> {
     const startTime = Date.now();
 
@@ -66,13 +77,19 @@ export class Track1Calculator implements ITrack1Calculator {
       // Filter and validate assessments
       const validAssessments = this.filterValidAssessments(assessments, context);
 
-      if (validAssessments.length === 0) {
+      // Unresolved serious breaches count against safety even with no assessments on record
+      const breachAssessments = this.weightUnresolvedBreaches(whsBreaches, context);
+
+      if (validAssessments.length === 0 && breachAssessments.length === 0) {
         return this.createEmptyResult(context);
       }
 
       // Group assessments by type and apply weights
       const groupedAssessments = this.groupAssessmentsByType(validAssessments);
-      const weightedAssessments = await this.applyWeightsAndDecay(groupedAssessments, context);
+      const weightedAssessments = [
+        ...await this.applyWeightsAndDecay(groupedAssessments, context),
+        ...breachAssessments
+      ];
 
       // Calculate aggregated data
       const aggregatedData = this.calculateAggregatedData(weightedAssessments, context);
@@ -97,7 +114,7 @@ export class Track1Calculator implements ITrack1Calculator {
         rating: finalRating,
         score: finalScore,
         data_quality: qualityMetrics.data_quality,
-        assessment_count: validAssessments.length,
+        assessment_count: weightedAssessments.length,
         latest_assessment_date: this.getLatestAssessmentDate(validAssessments),
         earliest_assessment_date: this.getEarliestAssessmentDate(validAssessments),
         data_age_days: this.calculateDataAge(validAssessments, context.calculation_date),
@@ -108,7 +125,12 @@ export class Track1Calculator implements ITrack1Calculator {
         trend_analysis: trendAnalysis,
         processing_time_ms: Date.now() - startTime,
         calculation_version: '1.0',
-        warnings: this.generateWarnings(validAssessments, aggregatedData)
+        warnings: [
+          ...this.generateWarnings(validAssessments, aggregatedData),
+          ...(breachAssessments.length > 0
+            ? [`${breachAssessments.length} unresolved serious WHS breach(es) included in the safety component`]
+            : [])
+        ]
       };
 
       return result;
@@ -249,6 +271,56 @@ export class Track1Calculator implements ITrack1Calculator {
     });
   }
 
+  /**
+   * Turns high and critical breaches that were still open or notified on the
+   * calculation date into safety_incidents entries. They carry full confidence
+   * and do not decay, since the risk remains until the breach is rectified.
+   */
+  private weightUnresolvedBreaches(breaches: RawWhsBreach[], context: CalculationContext): WeightedAssessment[] {
+    const weight = this.config.assessment_weights.safety_incidents || 1.0;
+    const calculationTime = context.calculation_date.getTime();
+
+    return breaches.flatMap(breach => {
+      const impact = UNRESOLVED_BREACH_IMPACT[breach.severity];
+      if (!impact || new Date(breach.identified_at).getTime() > calculationTime) {
+        return [];
+      }
+
+      const unresolved = breach.resolved_at
+        ? new Date(breach.resolved_at).getTime() > calculationTime
+        : breach.status === 'open' || breach.status === 'notified';
+      if (!unresolved) {
+        return [];
+      }
+
+      const assessment: RawProjectAssessment = {
+        id: `whs_breach:${breach.id}`,
+        employer_id: breach.employer_id,
+        project_id: breach.project_id,
+        assessment_type: 'safety_incidents',
+        score: impact.score,
+        rating: this.determineRatingFromScore(impact.score),
+        confidence_level: 'high',
+        severity_level: impact.severity_level,
+        assessment_date: new Date(breach.identified_at),
+        assessment_notes: `Unresolved WHS breach: ${breach.title}`,
+        follow_up_required: true,
+        is_active: true,
+        created_at: breach.created_at,
+        updated_at: breach.updated_at
+      };
+
+      return [{
+        assessment,
+        weight,
+        confidence_weight: 1.0,
+        decayed_weight: weight,
+        effective_weight: weight,
+        contribution: impact.score * weight
+      }];
+    });
+  }
+
   private groupAssessmentsByType(assessments: any[]): Record<ComplianceAssessmentType, any[]> {
     const grouped: Record<ComplianceAssessmentType, any[]> = {} as any;
 
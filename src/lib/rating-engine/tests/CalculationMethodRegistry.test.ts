@@ -0,0 +1,176 @@
+/**
+ * Tests for the pluggable calculation method registry
+ * Built-in methods must keep their original arithmetic and custom methods must plug into the combined calculator
+ */
+
+import {
+  CalculationMethodPlugin,
+  CalculationMethodRegistry,
+  CalculationMethodRegistryError,
+  createDefaultMethodRegistry
+} from '../core/CalculationMethodRegistry';
+import { CombinedCalculator, CombinedCalculationError } from '../core/CombinedCalculator';
+import { MethodComparison } from '../core/MethodComparison';
+import { Track1Calculator } from '../core/Track1Calculator';
+import { Track2Calculator } from '../core/Track2Calculator';
+import { EBACalculator } from '../core/EBACalculator';
+import { DEFAULT_CALCULATION_CONFIG, DEFAULT_LOOKBACK_DAYS } from '../core/DefaultConfig';
+import { CalculationContext, CalculationInput, CalculationMethodInput } from '../types/CalculationTypes';
+import { ProjectRatingResult, ExpertiseRatingResult, EBARatingResult } from '../types/RatingTypes';
+
+const calculationDate = new Date('2025-06-01');
+
+function createContext(overrides: Partial<CalculationContext> = {}): CalculationContext {
+  return {
+    employer_id: 'employer-1',
+    calculation_date: calculationDate,
+    lookback_days: DEFAULT_LOOKBACK_DAYS,
+    weights: { project: 0.6, expertise: 0.4, eba: 0.15 },
+    method: 'hybrid_method',
+    force_recalculate: true,
+    debug_mode: false,
+    ...overrides
+  } as CalculationContext;
+}
+
+function createMethodInput(scores: { project: number; expertise: number; eba: number }, counts = { project: 3, expertise: 2 }): CalculationMethodInput {
+  const context = createContext();
+  return {
+    project: { score: scores.project, assessment_count: counts.project } as ProjectRatingResult,
+    expertise: { score: scores.expertise, assessment_count: counts.expertise } as ExpertiseRatingResult,
+    eba: { eba_score: scores.eba } as EBARatingResult,
+    weights: context.weights,
+    context
+  };
+}
+
+function createStubMethod(id: string, score: number): CalculationMethodPlugin {
+  return {
+    id,
+    name: `Stub ${id}`,
+    description: 'Returns a fixed score',
+    config: {},
+    calculate: () => score,
+    explain: () => ({ method: id, summary: 'Fixed score', steps: [], score }),
+    validate: () => ({ is_valid: true, errors: [], warnings: [] })
+  };
+}
+
+describe('CalculationMethodRegistry', () => {
+  let registry: CalculationMethodRegistry;
+
+  beforeEach(() => {
+    registry = createDefaultMethodRegistry();
+  });
+
+  describe('registration', () => {
+    it('should register the four built-in methods', () => {
+      expect(registry.ids()).toEqual(['weighted_average', 'weighted_sum', 'minimum_score', 'hybrid_method']);
+    });
+
+    it('should reject duplicate ids unless replacing', () => {
+      expect(() => registry.register(createStubMethod('weighted_sum', 10))).toThrow(CalculationMethodRegistryError);
+
+      registry.register(createStubMethod('weighted_sum', 10), { replace: true });
+      expect(registry.require('weighted_sum').name).toBe('Stub weighted_sum');
+    });
+
+    it('should throw when requiring an unknown method', () => {
+      expect(() => registry.require('median')).toThrow(CalculationMethodRegistryError);
+    });
+  });
+
+  describe('built-in methods', () => {
+    const input = createMethodInput({ project: 80, expertise: 60, eba: 100 });
+
+    it('should keep the original weighted average arithmetic', () => {
+      const expected = ((80 * 0.6) + (60 * 0.4) + (100 * 0.15)) / (0.6 + 0.4 + 0.15);
+      expect(registry.require('weighted_average').calculate(input)).toBeCloseTo(expected, 10);
+    });
+
+    it('should keep the original hybrid arithmetic', () => {
+      const base = ((80 * 0.6) + (60 * 0.4)) / (0.6 + 0.4);
+      expect(registry.require('hybrid_method').calculate(input)).toBeCloseTo(base * 0.7 + 100 * 0.3, 10);
+    });
+
+    it('should ignore components without enough assessments in the minimum score', () => {
+      const sparse = createMethodInput({ project: 10, expertise: 20, eba: 50 }, { project: 1, expertise: 1 });
+      const method = registry.require('minimum_score');
+
+      expect(method.calculate(sparse)).toBe(50);
+      expect(method.validate(sparse).warnings).toHaveLength(2);
+    });
+
+    it('should explain a score with the same value it calculates', () => {
+      for (const method of registry.ids().map(id => registry.require(id))) {
+        expect(method.explain(input).score).toBeCloseTo(method.calculate(input), 10);
+      }
+    });
+
+    it('should reject negative weights', () => {
+      const invalid = { ...input, weights: { project: -0.1, expertise: 0.4, eba: 0.15 } };
+      expect(registry.require('weighted_average').validate(invalid).is_valid).toBe(false);
+    });
+  });
+
+  describe('CombinedCalculator integration', () => {
+    async function createComponentResults() {
+      const context = createContext();
+      return {
+        project: await new Track1Calculator(DEFAULT_CALCULATION_CONFIG).calculateRating([], context),
+        expertise: await new Track2Calculator(DEFAULT_CALCULATION_CONFIG).calculateRating([], {}, context),
+        eba: await new EBACalculator().calculateRating([], context)
+      };
+    }
+
+    it('should score with a custom registered method and attach its explanation', async () => {
+      registry.register(createStubMethod('fixed_forty', 40));
+      const { project, expertise, eba } = await createComponentResults();
+      const calculator = new CombinedCalculator(DEFAULT_CALCULATION_CONFIG, registry);
+
+      const result = await calculator.calculateFinalRating(project, expertise, eba, createContext({ method: 'fixed_forty' }));
+
+      expect(result.method_explanation?.method).toBe('fixed_forty');
+      expect(result.method_explanation?.score).toBe(40);
+    });
+
+    it('should fail when a method rejects its input', async () => {
+      registry.register({
+        ...createStubMethod('strict', 0),
+        validate: () => ({ is_valid: false, errors: ['always invalid'], warnings: [] })
+      });
+      const { project, expertise, eba } = await createComponentResults();
+      const calculator = new CombinedCalculator(DEFAULT_CALCULATION_CONFIG, registry);
+
+      await expect(
+        calculator.calculateFinalRating(project, expertise, eba, createContext({ method: 'strict' }))
+      ).rejects.toThrow(CombinedCalculationError);
+    });
+  });
+
+  describe('MethodComparison', () => {
+    it('should report every registered method for each sampled employer', async () => {
+      registry.register(createStubMethod('always_red', -50));
+      const comparison = new MethodComparison(DEFAULT_CALCULATION_CONFIG, registry);
+
+      const input: CalculationInput = {
+        employer_id: 'employer-1',
+        project_assessments: [],
+        expertise_assessments: [],
+        eba_records: [],
+        organiser_profiles: {},
+        context: createContext()
+      };
+
+      const report = await comparison.compare([input], { employerNames: { 'employer-1': 'Test Builder' } });
+
+      expect(report.rows).toHaveLength(1);
+      expect(report.rows[0].employer_name).toBe('Test Builder');
+      expect(Object.keys(report.rows[0].results)).toEqual(registry.ids());
+      expect(report.rows[0].results.always_red.final_rating).toBe('red');
+
+      const alwaysRed = report.summary.find(summary => summary.method === 'always_red')!;
+      expect(alwaysRed.rating_distribution.red).toBe(1);
+    });
+  });
+});
@@ -412,6 +412,67 @@ describe('Track1Calculator', () => {
     });
   });
 
+  describe('WHS breaches', () => {
+    const context = {
+      employer_id: 'test-employer-1',
+      calculation_date: new Date('2024-01-15'),
+      lookback_days: { project: 365, expertise: 180, eba: 1460 },
+      weights: { project: 0.6, expertise: 0.4, eba: 0.15 },
+      method: 'weighted_average' as const,
+      force_recalculate: false,
+      debug_mode: false
+    };
+
+    const createBreach = (overrides: any = {}) => ({
+      id: 'breach-1',
+      employer_id: 'test-employer-1',
+      title: 'Unguarded edge on level 4',
+      category: 'working_at_heights',
+      severity: 'critical' as const,
+      status: 'open' as const,
+      identified_at: new Date('2024-01-05'),
+      created_at: new Date('2024-01-05'),
+      updated_at: new Date('2024-01-05'),
+      ...overrides
+    });
+
+    it('should add unresolved serious breaches to the safety component', async () => {
+      const assessments = [
+        createMockProjectAssessment({ assessment_type: 'cbus_status', score: 90 }),
+        createMockProjectAssessment({ assessment_type: 'safety_incidents', score: 90 })
+      ];
+
+      const withoutBreach = await calculator.calculateRating(assessments, context);
+      const withBreach = await calculator.calculateRating(assessments, context, [createBreach()]);
+
+      const safety = withBreach.breakdown?.components?.find((c: any) => c.assessment_type === 'safety_incidents');
+      expect(safety?.assessment_count).toBe(2);
+      expect(withBreach.score!).toBeLessThan(withoutBreach.score!);
+      expect(withBreach.warnings).toContain('1 unresolved serious WHS breach(es) included in the safety component');
+    });
+
+    it('should ignore low severity and resolved breaches', async () => {
+      const assessments = [createMockProjectAssessment({ assessment_type: 'cbus_status', score: 90 })];
+      const breaches = [
+        createBreach({ id: 'breach-low', severity: 'medium' }),
+        createBreach({ id: 'breach-fixed', status: 'rectified', resolved_at: new Date('2024-01-10') })
+      ];
+
+      const result = await calculator.calculateRating(assessments, context, breaches);
+
+      expect(result.assessment_count).toBe(1);
+    });
+
+    it('should judge resolution against the calculation date', async () => {
+      const breach = createBreach({ status: 'closed', resolved_at: new Date('2024-02-01') });
+
+      const result = await calculator.calculateRating([], context, [breach]);
+
+      expect(result.rating).toBe('red');
+      expect(result.assessment_count).toBe(1);
+    });
+  });
+
   describe('calculateQualityMetrics', () => {
     it('should calculate quality metrics for recent data', async () => {
       const assessments = [
@@ -0,0 +1,147 @@
+/**
+ * Tests for rating exports
+ * Workbooks must carry one sheet per section and the audit report must list every input, weight and decay factor
+ */
+
+import * as XLSX from 'xlsx';
+import { RatingExportBuilder, StoredExportRow } from '../core/RatingExport';
+import { Track1Calculator } from '../core/Track1Calculator';
+import { Track2Calculator } from '../core/Track2Calculator';
+import { EBACalculator } from '../core/EBACalculator';
+import { CombinedCalculator } from '../core/CombinedCalculator';
+import { DEFAULT_CALCULATION_CONFIG, DEFAULT_LOOKBACK_DAYS } from '../core/DefaultConfig';
+import { CalculationContext } from '../types/CalculationTypes';
+import { FinalRatingResult } from '../types/RatingTypes';
+
+const calculationDate = new Date('2025-06-01T00:00:00Z');
+
+function createStoredRow(overrides: Partial<StoredExportRow> = {}): StoredExportRow {
+  return {
+    employer_id: 'employer-1',
+    rating_date: '2025-06-01',
+    final_rating: 'amber',
+    final_score: 62,
+    project_based_rating: 'red',
+    project_based_score: 40,
+    projects_included: 3,
+    project_data_age_days: 20,
+    expertise_based_rating: 'green',
+    expertise_based_score: 95,
+    expertise_assessments_included: 1,
+    discrepancy_level: 3,
+    project_weight: 0.6,
+    expertise_weight: 0.4,
+    eba_weight: 0.15,
+    eba_status: 'green',
+    rating_status: 'active',
+    employers: { name: 'Acme, Builders', abn: '51824753556' },
+    narrative: { text: 'Rated amber with a score of 62 as at 2025-06-01.' },
+    ...overrides
+  };
+}
+
+async function createResult(): Promise<FinalRatingResult> {
+  const context = {
+    employer_id: 'employer-1',
+    calculation_date: calculationDate,
+    lookback_days: DEFAULT_LOOKBACK_DAYS,
+    weights: { project: 0.6, expertise: 0.4, eba: 0.15 },
+    method: 'weighted_average',
+    force_recalculate: true,
+    debug_mode: false
+  } as CalculationContext;
+
+  const projectResult = await new Track1Calculator(DEFAULT_CALCULATION_CONFIG).calculateRating([
+    {
+      id: 'assessment-1',
+      employer_id: 'employer-1',
+      assessment_type: 'cbus_status',
+      score: 80,
+      confidence_level: 'high',
+      assessment_date: new Date('2025-05-02T00:00:00Z'),
+      is_active: true
+    },
+    {
+      id: 'assessment-2',
+      employer_id: 'employer-1',
+      assessment_type: 'safety_incidents',
+      score: -20,
+      confidence_level: 'medium',
+      assessment_date: new Date('2025-03-03T00:00:00Z'),
+      is_active: true
+    }
+  ], context);
+  const expertiseResult = await new Track2Calculator(DEFAULT_CALCULATION_CONFIG).calculateRating([], {}, context);
+  const ebaResult = await new EBACalculator().calculateRating([], context);
+
+  return new CombinedCalculator(DEFAULT_CALCULATION_CONFIG).calculateFinalRating(
+    projectResult,
+    expertiseResult,
+    ebaResult,
+    context
+  );
+}
+
+describe('RatingExportBuilder', () => {
+  let builder: RatingExportBuilder;
+
+  beforeEach(() => {
+    builder = new RatingExportBuilder();
+  });
+
+  it('should write one workbook sheet per export section', () => {
+    const records = [createStoredRow()].map(row => RatingExportBuilder.recordFromStoredRating(row));
+    const workbook = XLSX.read(builder.toWorkbook(builder.buildSheets(records)), { type: 'buffer' });
+
+    expect(workbook.SheetNames).toEqual(['Ratings', 'Component Breakdown', 'History', 'Discrepancies']);
+
+    const components = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets['Component Breakdown']);
+    expect(components).toHaveLength(3);
+    expect(components[0]).toMatchObject({ Component: 'Project', Score: 40, Weight: 0.6, 'Weighted Score': 24 });
+  });
+
+  it('should keep the latest rating per employer and list every rating in history', () => {
+    const records = [
+      createStoredRow({ rating_date: '2025-03-01', final_rating: 'red', final_score: 30 }),
+      createStoredRow(),
+      createStoredRow({ employer_id: 'employer-2', discrepancy_level: 0, expertise_based_score: 45 })
+    ].map(row => RatingExportBuilder.recordFromStoredRating(row));
+
+    const [ratings, , history, discrepancies] = builder.buildSheets(records);
+
+    expect(ratings.rows.map(row => [row[0], row[3]])).toEqual([['employer-1', '2025-06-01'], ['employer-2', '2025-06-01']]);
+    expect(history.rows).toHaveLength(3);
+    expect(discrepancies.rows).toHaveLength(1);
+    expect(discrepancies.rows[0].slice(7)).toEqual([55, 'major', false]);
+  });
+
+  it('should leave out sheets the request excludes', () => {
+    const records = [RatingExportBuilder.recordFromStoredRating(createStoredRow())];
+
+    const sheets = builder.buildSheets(records, { include_components: false, include_history: false });
+
+    expect(sheets.map(sheet => sheet.name)).toEqual(['Ratings', 'Discrepancies']);
+  });
+
+  it('should quote CSV cells containing commas', () => {
+    const [ratings] = builder.buildSheets([RatingExportBuilder.recordFromStoredRating(createStoredRow())]);
+    const lines = builder.toCSV(ratings).split('\n');
+
+    expect(lines[0]).toBe('Employer ID,Employer,ABN,Rating Date,Final Rating,Final Score,Confidence,Rating Status,Calculation Method,Review Required,Narrative');
+    expect(lines[1]).toContain('employer-1,"Acme, Builders",51824753556,2025-06-01,amber,62');
+  });
+
+  it('should list every input with its weight and decay factor in the audit report', async () => {
+    const report = builder.buildAuditReport(await createResult());
+
+    expect(report).toContain('- Method: weighted_average');
+    expect(report).toContain('- Weights: Project=0.6, Expertise=0.4, EBA=0.15');
+    expect(report).toContain('- Decay: enabled, half-life 90 days, minimum weight 0.1');
+    expect(report).toContain('Project Assessments (2):');
+    // 30 and 90 days old at a 90 day half-life
+    expect(report).toContain('- 2025-05-02 cbus_status: score 80, confidence high, weight 3, decay factor 0.7937');
+    expect(report).toContain('- 2025-03-03 safety_incidents: score -20, confidence medium, weight 2.5, decay factor 0.5');
+    expect(report).toContain('Expertise Assessments (0):');
+    expect(report).toContain('EBA Records (0):');
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests for the rating narrative builder
+ * Narratives must be deterministic and describe drivers, stale data, discrepancies and what would move the rating
+ */
+
+import { RatingNarrativeBuilder, RatingNarrativeSource } from '../core/RatingNarrative';
+
+const calculationDate = new Date('2025-06-01T00:00:00Z');
+
+function createSource(overrides: Partial<RatingNarrativeSource> = {}): RatingNarrativeSource {
+  return {
+    final_rating: 'amber',
+    final_score: 62,
+    calculation_date: calculationDate,
+    calculation_method: 'weighted_average',
+    weights: { project: 0.6, expertise: 0.4, eba: 0 },
+    project: {
+      rating: 'red',
+      score: 40,
+      assessment_count: 2,
+      assessments: [
+        { label: 'Cbus status', assessment_date: new Date('2025-05-01T00:00:00Z') },
+        { label: 'Safety incidents', assessment_date: new Date('2024-12-01T00:00:00Z') }
+      ]
+    },
+    expertise: {
+      rating: 'green',
+      score: 95,
+      assessment_count: 1,
+      data_age_days: 10
+    },
+    eba: { has_active_eba: true },
+    discrepancy: { detected: true, level: 'major', score_difference: 55 },
+    ...overrides
+  };
+}
+
+describe('RatingNarrativeBuilder', () => {
+  let builder: RatingNarrativeBuilder;
+
+  beforeEach(() => {
+    builder = new RatingNarrativeBuilder();
+  });
+
+  it('should produce identical text for identical input', () => {
+    expect(builder.buildFromSource(createSource()).text).toBe(builder.buildFromSource(createSource()).text);
+  });
+
+  it('should list the component with the largest weighted contribution first', () => {
+    const narrative = builder.buildFromSource(createSource());
+
+    expect(narrative.headline).toBe('Rated amber with a score of 62 as at 2025-06-01.');
+    expect(narrative.drivers[0]).toContain('Organiser expertise lifted the rating');
+    expect(narrative.drivers[1]).toContain('Project compliance data pulled the rating down');
+    expect(narrative.drivers[2]).toContain('active EBA');
+  });
+
+  it('should flag assessments older than the maximum data age', () => {
+    const narrative = builder.buildFromSource(createSource());
+
+    expect(narrative.stale_data).toHaveLength(2);
+    expect(narrative.stale_data[1]).toBe('Safety incidents from 2024-12-01 is 182 days old.');
+  });
+
+  it('should describe the discrepancy between the two tracks', () => {
+    const narrative = builder.buildFromSource(createSource());
+
+    expect(narrative.discrepancy).toBe(
+      'Project data rates the employer red but organiser expertise rates it green (55 points apart), a major discrepancy.'
+    );
+  });
+
+  it('should say how far the score is from the next band', () => {
+    const narrative = builder.buildFromSource(createSource());
+
+    expect(narrative.what_would_change[0]).toBe('Moving to green needs 18 more points on the final score.');
+    expect(narrative.what_would_change).toContain('That is about 30 points of improvement in project compliance with everything else unchanged.');
+    expect(narrative.what_would_change).toContain('A drop of more than 12 points would move the rating to red.');
+  });
+
+  it('should only describe score thresholds when no EBA is active', () => {
+    const narrative = builder.buildFromSource(createSource({ eba: { has_active_eba: false } }));
+
+    expect(narrative.what_would_change[0]).toBe('Moving to green needs 18 more points on the final score.');
+    expect(narrative.what_would_change.some(change => change.includes('EBA'))).toBe(false);
+  });
+
+  it('should build a narrative from a stored rating row', () => {
+    const narrative = builder.buildFromStoredRating({
+      rating_date: '2025-06-01',
+      final_rating: 'red',
+      final_score: 30,
+      project_based_rating: 'red',
+      project_based_score: 30,
+      projects_included: 4,
+      project_data_age_days: 120,
+      expertise_based_rating: null,
+      expertise_based_score: null,
+      expertise_assessments_included: 0,
+      discrepancy_level: 0,
+      eba_status: 'red'
+    });
+
+    expect(narrative.drivers).toContain('Organiser expertise has no assessments in the rating period, so it did not contribute.');
+    expect(narrative.stale_data).toContain('The most recent project assessment is 120 days old.');
+    expect(narrative.discrepancy).toBeNull();
+    expect(narrative.what_would_change[0]).toBe('Moving to amber needs 20 more points on the final score.');
+  });
+});
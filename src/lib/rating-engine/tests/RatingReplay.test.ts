@@ -0,0 +1,172 @@
+/**
+ * Tests for historical "as at" rating replay
+ * Replays must only see data that existed at the replay date and must decay relative to it
+ */
+
+import { EmployerRatingCalculator, InMemoryPerformanceTracker, RequestValidator } from '../core/EmployerRatingCalculator';
+import { ILogger, IDataSource } from '../core/RatingCalculator';
+import { DEFAULT_CALCULATION_CONFIG } from '../core/DefaultConfig';
+import { TimeDecayCalculator } from '../algorithms/TimeDecay';
+import { HistoricalDataPoint } from '../types/CalculationTypes';
+
+const EMPLOYER_ID = '3f9a2c1e-4b5d-4e6f-8a7b-9c0d1e2f3a4b';
+
+const silentLogger: ILogger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined
+};
+
+function createProjectAssessment(id: string, score: number, assessmentDate: string, createdAt: string, overrides: Record<string, any> = {}) {
+  return {
+    id,
+    employer_id: EMPLOYER_ID,
+    assessment_type: 'cbus_status',
+    score,
+    rating: score >= 80 ? 'green' : score >= 50 ? 'amber' : 'red',
+    confidence_level: 'high',
+    severity_level: null,
+    assessment_date: new Date(assessmentDate),
+    follow_up_required: false,
+    is_active: true,
+    created_at: new Date(createdAt),
+    updated_at: new Date(createdAt),
+    ...overrides
+  };
+}
+
+function createDataSource(): IDataSource {
+  const projectAssessments = [
+    createProjectAssessment('early', 30, '2025-01-10', '2025-01-10'),
+    // Dated before the replay date but only entered afterwards
+    createProjectAssessment('backdated', 95, '2025-02-01', '2025-04-20'),
+    createProjectAssessment('later', 95, '2025-05-01', '2025-05-01'),
+    // Deactivated after the replay date, so it was still live at the time
+    createProjectAssessment('retired', 20, '2025-01-20', '2025-01-20', {
+      is_active: false,
+      updated_at: new Date('2025-06-01')
+    })
+  ];
+
+  return {
+    loadProjectAssessments: async () => projectAssessments,
+    loadExpertiseAssessments: async () => [],
+    loadEBARecords: async () => [
+      {
+        id: 'eba-1',
+        employer_id: EMPLOYER_ID,
+        fwc_certified_date: new Date('2025-03-15'),
+        is_active: true,
+        created_at: new Date('2025-03-20'),
+        updated_at: new Date('2025-03-20')
+      }
+    ],
+    loadOrganiserProfiles: async () => [],
+    loadSiteVisits: async () => [
+      {
+        id: 'visit-1',
+        employer_id: EMPLOYER_ID,
+        job_site_id: 'site-1',
+        created_at: new Date('2025-01-15'),
+        updated_at: new Date('2025-01-15')
+      }
+    ]
+  };
+}
+
+describe('Historical rating replay', () => {
+  let calculator: EmployerRatingCalculator;
+
+  beforeEach(() => {
+    calculator = new EmployerRatingCalculator(DEFAULT_CALCULATION_CONFIG, {
+      logger: silentLogger,
+      performanceTracker: new InMemoryPerformanceTracker(),
+      validator: new RequestValidator(),
+      dataSource: createDataSource()
+    });
+  });
+
+  describe('BaseRatingCalculator as-at mode', () => {
+    it('should only include records that existed at the as-at date', async () => {
+      const result = await calculator.calculateFinalRating({
+        employer_id: EMPLOYER_ID,
+        as_at: new Date('2025-03-01'),
+        force_recalculate: true
+      });
+
+      expect(result.replay).toBeDefined();
+      expect(result.replay!.project_assessments_included).toBe(2);
+      expect(result.replay!.eba_records_included).toBe(0);
+      expect(result.replay!.site_visits_included).toBe(1);
+      expect(result.calculation_date).toEqual(new Date('2025-03-01'));
+      expect(result.eba_data.has_active_eba).toBe(false);
+    });
+
+    it('should decay assessments relative to the as-at date', async () => {
+      const result = await calculator.calculateFinalRating({
+        employer_id: EMPLOYER_ID,
+        as_at: new Date('2025-03-01'),
+        force_recalculate: true
+      });
+
+      // Both included assessments were under two months old at the replay date
+      expect(result.replay!.average_decay_factor.project).toBeGreaterThan(0.6);
+      expect(result.replay!.average_decay_factor.project).toBeLessThan(1);
+    });
+
+    it('should pick up records entered after an earlier replay date', async () => {
+      const result = await calculator.calculateFinalRating({
+        employer_id: EMPLOYER_ID,
+        as_at: new Date('2025-05-15'),
+        force_recalculate: true
+      });
+
+      expect(result.replay!.project_assessments_included).toBe(4);
+      expect(result.replay!.eba_records_included).toBe(1);
+      expect(result.eba_data.has_active_eba).toBe(true);
+    });
+
+    it('should not attach replay details to a normal calculation', async () => {
+      const result = await calculator.calculateFinalRating({
+        employer_id: EMPLOYER_ID,
+        force_recalculate: true
+      });
+
+      expect(result.replay).toBeUndefined();
+    });
+
+    it('should reject an as-at date in the future', async () => {
+      await expect(
+        calculator.calculateFinalRating({
+          employer_id: EMPLOYER_ID,
+          as_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+        })
+      ).rejects.toThrow('Calculation request failed validation');
+    });
+  });
+
+  describe('TimeDecayCalculator as-at mode', () => {
+    const dataPoints: HistoricalDataPoint[] = [
+      { id: 'a', date: new Date('2025-01-01'), value: 60, weight: 1, metadata: { recorded_at: new Date('2025-01-01') } },
+      { id: 'b', date: new Date('2025-02-01'), value: 80, weight: 1, metadata: { recorded_at: new Date('2025-04-01') } },
+      { id: 'c', date: new Date('2025-05-01'), value: 90, weight: 1 }
+    ];
+
+    it('should drop points recorded or dated after the as-at date', async () => {
+      const decayCalculator = new TimeDecayCalculator({ enable_caching: false, enable_outlier_detection: false });
+      const result = await decayCalculator.calculateDecayAsAt(dataPoints, new Date('2025-03-01'));
+
+      expect(result.decayed_points.map(p => p.id)).toEqual(['a']);
+      expect(result.metadata.points_after_as_at).toBe(2);
+      expect(result.reference_date).toEqual(new Date('2025-03-01'));
+    });
+
+    it('should measure age from the as-at date', async () => {
+      const decayCalculator = new TimeDecayCalculator({ enable_caching: false, enable_outlier_detection: false });
+      const result = await decayCalculator.calculateDecayAsAt(dataPoints, new Date('2025-01-31'));
+
+      expect(result.decayed_points[0].age_days).toBe(30);
+    });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Tests for the what-if rating simulator
+ * The simulator must never mutate its input and must report how each override moves the rating
+ */
+
+import { RatingSimulator, RatingSimulationError } from '../core/RatingSimulator';
+import { DEFAULT_CALCULATION_CONFIG, DEFAULT_LOOKBACK_DAYS } from '../core/DefaultConfig';
+import { CalculationInput } from '../types/CalculationTypes';
+
+const calculationDate = new Date('2025-06-01');
+
+function createSimulationInput(): CalculationInput {
+  return {
+    employer_id: 'employer-1',
+    project_assessments: [
+      {
+        id: 'project-1',
+        employer_id: 'employer-1',
+        assessment_type: 'cbus_status',
+        score: 40,
+        rating: 'red',
+        confidence_level: 'high',
+        severity_level: null,
+        assessment_date: new Date('2025-05-01'),
+        follow_up_required: false,
+        is_active: true,
+        created_at: calculationDate,
+        updated_at: calculationDate
+      },
+      {
+        id: 'project-2',
+        employer_id: 'employer-1',
+        assessment_type: 'safety_incidents',
+        score: -30,
+        rating: 'red',
+        confidence_level: 'high',
+        severity_level: null,
+        assessment_date: new Date('2025-04-01'),
+        follow_up_required: false,
+        is_active: true,
+        created_at: calculationDate,
+        updated_at: calculationDate
+      }
+    ],
+    expertise_assessments: [
+      {
+        id: 'expertise-1',
+        employer_id: 'employer-1',
+        organiser_id: 'organiser-1',
+        overall_score: 70,
+        overall_rating: 'amber',
+        confidence_level: 'medium',
+        assessment_basis: 'Site knowledge',
+        eba_status_known: true,
+        knowledge_beyond_projects: true,
+        recent_improvements: false,
+        future_concerns: false,
+        assessment_date: new Date('2025-05-15'),
+        is_active: true,
+        created_at: calculationDate,
+        updated_at: calculationDate
+      }
+    ],
+    eba_records: [],
+    organiser_profiles: {
+      'organiser-1': {
+        id: 'organiser-1',
+        name: 'Test Organiser',
+        role: 'organiser',
+        created_at: calculationDate,
+        updated_at: calculationDate
+      }
+    },
+    context: {
+      employer_id: 'employer-1',
+      calculation_date: calculationDate,
+      lookback_days: DEFAULT_LOOKBACK_DAYS,
+      weights: { project: 0.6, expertise: 0.4, eba: 0.15 },
+      method: 'hybrid_method',
+      force_recalculate: false,
+      debug_mode: false
+    }
+  } as CalculationInput;
+}
+
+describe('RatingSimulator', () => {
+  let simulator: RatingSimulator;
+
+  beforeEach(() => {
+    simulator = new RatingSimulator(DEFAULT_CALCULATION_CONFIG);
+  });
+
+  describe('applyOverrides', () => {
+    it('should not mutate the original input', () => {
+      const input = createSimulationInput();
+      const snapshot = JSON.stringify(input);
+
+      simulator.applyOverrides(input, {
+        remove_project_assessment_ids: ['project-1'],
+        add_project_assessments: [{ assessment_type: 'eca_status', score: 90 }],
+        eba_status: 'active',
+        weights: { project: 0.8 }
+      });
+
+      expect(JSON.stringify(input)).toBe(snapshot);
+    });
+
+    it('should remove and add project assessments', () => {
+      const { input, applied } = simulator.applyOverrides(createSimulationInput(), {
+        remove_project_assessment_ids: ['project-2'],
+        add_project_assessments: [{ assessment_type: 'safety_incidents', score: 90 }]
+      });
+
+      expect(input.project_assessments).toHaveLength(2);
+      expect(input.project_assessments.map(a => a.id)).toEqual(['project-1', 'simulated-project-1']);
+      expect(applied).toHaveLength(2);
+    });
+
+    it('should replace EBA records when an EBA status is simulated', () => {
+      const { input } = simulator.applyOverrides(createSimulationInput(), { eba_status: 'active' });
+
+      expect(input.eba_records).toHaveLength(1);
+      expect(input.eba_records[0].id).toBe('simulated-eba');
+
+      const { input: noEba } = simulator.applyOverrides(input, { eba_status: 'none' });
+      expect(noEba.eba_records).toHaveLength(0);
+    });
+  });
+
+  describe('simulate', () => {
+    it('should report an unchanged rating when no overrides are applied', async () => {
+      const result = await simulator.simulate(createSimulationInput(), {});
+
+      expect(result.persisted).toBe(false);
+      expect(result.applied_overrides).toHaveLength(0);
+      expect(result.diff.rating_changed).toBe(false);
+      expect(result.diff.score_delta).toBe(0);
+    });
+
+    it('should improve the rating when a negative assessment is replaced and an EBA is added', async () => {
+      const result = await simulator.simulate(createSimulationInput(), {
+        remove_project_assessment_ids: ['project-2'],
+        add_project_assessments: [{ assessment_type: 'safety_incidents', score: 90 }],
+        eba_status: 'active'
+      });
+
+      expect(result.diff.score_delta).toBeGreaterThan(0);
+      expect(result.diff.to_score).toBe(result.simulated.final_score);
+      expect(result.diff.from_score).toBe(result.baseline.final_score);
+      expect(result.diff.components.eba.to_rating).toBe('green');
+    });
+
+    it('should diff the simulated result against the saved rating', async () => {
+      const result = await simulator.simulate(createSimulationInput(), { eba_status: 'active' });
+      const liveDiff = simulator.diffAgainstPersisted({
+        final_rating: 'red',
+        final_score: 10,
+        overall_confidence: 'low',
+        project_based_rating: 'red',
+        project_based_score: 5,
+        expertise_based_rating: null,
+        expertise_based_score: null,
+        eba_status: 'red',
+        rating_date: '2025-01-01'
+      }, result.simulated);
+
+      expect(liveDiff.from_score).toBe(10);
+      expect(liveDiff.to_score).toBe(result.simulated.final_score);
+      expect(liveDiff.score_delta).toBe(Math.round((result.simulated.final_score - 10) * 100) / 100);
+      expect(liveDiff.components.expertise.from_rating).toBe('unknown');
+      expect(liveDiff.components.expertise.score_delta).toBeNull();
+      expect(liveDiff.components.eba.to_rating).toBe('green');
+    });
+
+    it('should reject scores outside the -100 to 100 range', async () => {
+      await expect(
+        simulator.simulate(createSimulationInput(), {
+          add_project_assessments: [{ assessment_type: 'cbus_status', score: 150 }]
+        })
+      ).rejects.toThrow(RatingSimulationError);
+    });
+
+    it('should reject weights outside the 0 to 1 range', async () => {
+      await expect(
+        simulator.simulate(createSimulationInput(), { weights: { project: 1.5 } })
+      ).rejects.toThrow(RatingSimulationError);
+    });
+  });
+});
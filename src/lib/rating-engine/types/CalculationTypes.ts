@@ -5,8 +5,12 @@ import {
   ConfidenceLevel,
   ComplianceAssessmentType,
   CalculationMethod,
+  BuiltInCalculationMethod,
   RatingWeights,
-  DiscrepancyLevel
+  DiscrepancyLevel,
+  ProjectRatingResult,
+  ExpertiseRatingResult,
+  EBARatingResult
 } from './RatingTypes';
 
 // =============================================================================
@@ -26,6 +30,7 @@ export interface CalculationContext {
   force_recalculate: boolean;
   debug_mode: boolean;
   user_id?: string;
+  as_at?: Date;
 }
 
 export interface CalculationConfig {
@@ -75,6 +80,13 @@ export interface CalculationInput {
   expertise_assessments: RawExpertiseAssessment[];
   eba_records: RawEBARecord[];
   organiser_profiles: Record<string, RawOrganiserProfile>;
+  site_visits?: RawSiteVisit[];
+  whs_breaches?: RawWhsBreach[];
+  // Set by an "as at" replay, with assessment ages measured from the replay date
+  temporal_weighting?: {
+    project: TemporalWeightingSummary;
+    expertise: TemporalWeightingSummary;
+  };
   context: CalculationContext;
 }
 
@@ -145,6 +157,29 @@ export interface RawEBARecord {
   updated_at: Date;
 }
 
+export interface RawSiteVisit {
+  id: string;
+  employer_id: string;
+  job_site_id: string;
+  scheduled_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface RawWhsBreach {
+  id: string;
+  employer_id: string;
+  project_id?: string;
+  title: string;
+  category: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  status: 'open' | 'notified' | 'rectified' | 'closed';
+  identified_at: Date;
+  resolved_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
 export interface RawOrganiserProfile {
   id: string;
   name: string;
@@ -360,6 +395,20 @@ export interface HybridMethodInput {
   fallback_method: CalculationMethod;
 }
 
+export interface CalculationMethodInput {
+  project: ProjectRatingResult;
+  expertise: ExpertiseRatingResult;
+  eba: EBARatingResult;
+  weights: RatingWeights;
+  context: CalculationContext;
+}
+
+export interface CalculationMethodValidation {
+  is_valid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
 // =============================================================================
 // CONFIDENCE CALCULATION TYPES
 // =============================================================================
@@ -652,7 +701,7 @@ export interface LogEntry {
 
 // Helper type for calculation method parameters
 export type CalculationParameters = {
-  [K in CalculationMethod]: {
+  [K in BuiltInCalculationMethod]: {
     method: K;
     parameters: K extends 'weighted_average' ? WeightedAverageInput
       : K extends 'weighted_sum' ? WeightedSumInput
@@ -660,7 +709,7 @@ export type CalculationParameters = {
       : K extends 'hybrid_method' ? HybridMethodInput
       : never;
   };
-}[CalculationMethod];
+}[BuiltInCalculationMethod];
 
 // =============================================================================
 // DISCREPANCY DETECTION TYPES
@@ -730,14 +779,13 @@ export interface DiscrepancyResolution {
 // TIME DECAY TYPES
 // =============================================================================
 
-export type DecayCurveType = 'exponential' | 'linear' | 'step' | 'custom';
-
-export type DecayCurveType =
-  | 'exponential'
-  | 'linear'
-  | 'logarithmic'
-  | 'step_function'
-  | 'custom';
+export enum DecayCurveType {
+  EXPONENTIAL = 'exponential',
+  LINEAR = 'linear',
+  LOGARITHMIC = 'logarithmic',
+  STEP_FUNCTION = 'step_function',
+  CUSTOM = 'custom'
+}
 
 export interface DecayConfiguration {
   enabled: boolean;
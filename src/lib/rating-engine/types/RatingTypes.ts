@@ -20,7 +20,9 @@ export type ComplianceAssessmentType =
 export type RatingSourceType = 'project_assessment' | 'organiser_expertise' | 'calculated_final' | 'manual_override';
 export type ConfidenceLevel = 'high' | 'medium' | 'low' | 'very_low';
 export type RatingStatus = 'active' | 'under_review' | 'disputed' | 'superseded' | 'archived';
-export type CalculationMethod = 'weighted_average' | 'weighted_sum' | 'minimum_score' | 'hybrid_method';
+export type BuiltInCalculationMethod = 'weighted_average' | 'weighted_sum' | 'minimum_score' | 'hybrid_method';
+// Methods are resolved through the calculation method registry, so plugins can add their own ids
+export type CalculationMethod = BuiltInCalculationMethod | (string & {});
 export type UnionRelationshipQuality = 'excellent' | 'good' | 'neutral' | 'poor' | 'very_poor';
 export type DiscrepancyLevel = 'none' | 'minor' | 'moderate' | 'major' | 'critical';
 
@@ -240,6 +242,7 @@ export interface FinalRatingResult {
   weights: RatingWeights;
   algorithm_type: CalculationMethod;
   method_config: Record<string, any>;
+  method_explanation?: CalculationMethodExplanation;
 
   // Reconciliation
   reconciliation_needed: boolean;
@@ -250,6 +253,28 @@ export interface FinalRatingResult {
   calculated_at: Date;
   calculation_version: string;
   processing_time_ms?: number;
+
+  // Historical replay
+  replay?: RatingReplayDetails;
+}
+
+export interface CalculationMethodExplanation {
+  method: CalculationMethod;
+  summary: string;
+  steps: Array<{ label: string; value: number; detail?: string }>;
+  score: number;
+}
+
+export interface RatingReplayDetails {
+  as_at: Date;
+  project_assessments_included: number;
+  expertise_assessments_included: number;
+  eba_records_included: number;
+  site_visits_included: number;
+  average_decay_factor: {
+    project: number;
+    expertise: number;
+  };
 }
 
 export interface EmployerRatingSummary {
@@ -359,6 +384,7 @@ export interface RatingCalculationRequest {
   force_recalculate?: boolean;
   custom_adjustment?: number;
   notes?: string;
+  as_at?: Date; // Replay using only data that existed at this date
 }
 
 export interface BatchCalculationRequest {
@@ -0,0 +1,277 @@
+// Supabase Data Source - Loads raw rating inputs for the calculation engine
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  CalculationContext,
+  CalculationInput,
+  RawProjectAssessment,
+  RawExpertiseAssessment,
+  RawEBARecord,
+  RawOrganiserProfile,
+  RawSiteVisit,
+  RawWhsBreach
+} from '../types/CalculationTypes';
+import { CalculationMethod, RatingWeights } from '../types/RatingTypes';
+import { IDataSource } from '../core/RatingCalculator';
+import { defaultMethodRegistry } from '../core/CalculationMethodRegistry';
+import { DEFAULT_RATING_WEIGHTS } from '../core/DefaultConfig';
+
+// =============================================================================
+// SUPABASE DATA SOURCE IMPLEMENTATION
+// =============================================================================
+
+export class SupabaseRatingDataSource implements IDataSource {
+  private supabase: SupabaseClient;
+
+  constructor(supabase: SupabaseClient) {
+    this.supabase = supabase;
+  }
+
+  async loadProjectAssessments(
+    employerId: string,
+    calculationDate: Date,
+    lookbackDays: number
+  ): Promise<RawProjectAssessment[]> {
+    const { data, error } = await this.supabase
+      .from('project_compliance_assessments')
+      .select('*')
+      .eq('employer_id', employerId)
+      .gte('assessment_date', this.toDateString(this.daysBefore(calculationDate, lookbackDays)))
+      .lte('assessment_date', this.toDateString(calculationDate))
+      .order('assessment_date', { ascending: false });
+
+    if (error) {
+      throw new DataSourceError('LOAD_FAILED', 'Failed to load project assessments', { error: error.message });
+    }
+
+    return (data || []).map((row: any) => ({
+      ...row,
+      organiser_id: row.assessor_id ?? undefined,
+      score: row.score === null ? null : Number(row.score),
+      follow_up_required: false,
+      assessment_date: new Date(row.assessment_date),
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at)
+    }));
+  }
+
+  async loadExpertiseAssessments(
+    employerId: string,
+    calculationDate: Date,
+    lookbackDays: number
+  ): Promise<RawExpertiseAssessment[]> {
+    const { data, error } = await this.supabase
+      .from('organiser_overall_expertise_ratings')
+      .select('*')
+      .eq('employer_id', employerId)
+      .gte('assessment_date', this.toDateString(this.daysBefore(calculationDate, lookbackDays)))
+      .lte('assessment_date', this.toDateString(calculationDate))
+      .order('assessment_date', { ascending: false });
+
+    if (error) {
+      throw new DataSourceError('LOAD_FAILED', 'Failed to load expertise assessments', { error: error.message });
+    }
+
+    return (data || []).map((row: any) => ({
+      ...row,
+      overall_score: row.overall_score === null ? null : Number(row.overall_score),
+      assessment_date: new Date(row.assessment_date),
+      expires_date: row.expires_date ? new Date(row.expires_date) : undefined,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at)
+    }));
+  }
+
+  async loadEBARecords(employerId: string): Promise<RawEBARecord[]> {
+    const { data, error } = await this.supabase
+      .from('company_eba_records')
+      .select('id, employer_id, eba_file_number, sector, fwc_certified_date, date_eba_signed, date_vote_occurred, created_at, updated_at')
+      .eq('employer_id', employerId);
+
+    if (error) {
+      throw new DataSourceError('LOAD_FAILED', 'Failed to load EBA records', { error: error.message });
+    }
+
+    return (data || []).map((row: any) => ({
+      ...row,
+      eba_file_number: row.eba_file_number ?? undefined,
+      sector: row.sector ?? undefined,
+      fwc_certified_date: row.fwc_certified_date ? new Date(row.fwc_certified_date) : undefined,
+      date_eba_signed: row.date_eba_signed ? new Date(row.date_eba_signed) : undefined,
+      date_vote_occurred: row.date_vote_occurred ? new Date(row.date_vote_occurred) : undefined,
+      is_active: true,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at)
+    }));
+  }
+
+  async loadOrganiserProfiles(organiserIds: string[]): Promise<RawOrganiserProfile[]> {
+    if (organiserIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.supabase
+      .from('profiles')
+      .select('id, full_name, role, created_at, updated_at')
+      .in('id', organiserIds);
+
+    if (error) {
+      throw new DataSourceError('LOAD_FAILED', 'Failed to load organiser profiles', { error: error.message });
+    }
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      name: row.full_name || 'Unknown organiser',
+      role: row.role || 'organiser',
+      created_at: new Date(row.created_at || Date.now()),
+      updated_at: new Date(row.updated_at || Date.now())
+    }));
+  }
+
+  async loadSiteVisits(employerId: string, asAt: Date): Promise<RawSiteVisit[]> {
+    const { data, error } = await this.supabase
+      .from('site_visit')
+      .select('id, employer_id, job_site_id, scheduled_at, created_at, updated_at')
+      .eq('employer_id', employerId)
+      .lte('created_at', asAt.toISOString());
+
+    if (error) {
+      throw new DataSourceError('LOAD_FAILED', 'Failed to load site visits', { error: error.message });
+    }
+
+    return (data || []).map((row: any) => ({
+      ...row,
+      scheduled_at: row.scheduled_at ? new Date(row.scheduled_at) : undefined,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at)
+    }));
+  }
+
+  /**
+   * WHS breaches identified by the calculation date that were not yet resolved by then
+   */
+  async loadWhsBreaches(employerId: string, calculationDate: Date): Promise<RawWhsBreach[]> {
+    const cutoff = calculationDate.toISOString();
+    const { data, error } = await this.supabase
+      .from('whs_breach')
+      .select('id, employer_id, project_id, title, category, severity, status, identified_at, resolved_at, created_at, updated_at')
+      .eq('employer_id', employerId)
+      .lte('identified_at', cutoff)
+      .or(`resolved_at.is.null,resolved_at.gt.${cutoff}`);
+
+    if (error) {
+      throw new DataSourceError('LOAD_FAILED', 'Failed to load WHS breaches', { error: error.message });
+    }
+
+    return (data || []).map((row: any) => ({
+      ...row,
+      project_id: row.project_id ?? undefined,
+      identified_at: new Date(row.identified_at),
+      resolved_at: row.resolved_at ? new Date(row.resolved_at) : undefined,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at)
+    }));
+  }
+
+  /**
+   * Method chosen on the active weighting template. The project data template drives
+   * the final combination; falls back to hybrid when unset or no longer registered.
+   */
+  async loadConfiguredCalculationMethod(track: 'project_data' | 'organiser_expertise' = 'project_data'): Promise<CalculationMethod> {
+    const { data, error } = await this.supabase
+      .from('rating_weight_configs')
+      .select('calculation_method')
+      .eq('track', track)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error) {
+      throw new DataSourceError('LOAD_FAILED', 'Failed to load weighting template', { error: error.message });
+    }
+
+    const method = data?.calculation_method;
+    return method && defaultMethodRegistry.has(method) ? method : 'hybrid_method';
+  }
+
+  /**
+   * Weights from the active weighting templates. Component weights keep their defaults;
+   * each template's category weights are carried in `custom` as `<track>.<category>`.
+   */
+  async loadConfiguredWeights(): Promise<RatingWeights> {
+    const { data, error } = await this.supabase
+      .from('rating_weight_configs')
+      .select('track, weights')
+      .eq('is_active', true);
+
+    if (error) {
+      throw new DataSourceError('LOAD_FAILED', 'Failed to load weighting templates', { error: error.message });
+    }
+
+    const custom: Record<string, number> = {};
+    (data || []).forEach((row: any) => {
+      Object.entries(row.weights || {}).forEach(([category, weight]) => {
+        custom[`${row.track}.${category}`] = Number(weight);
+      });
+    });
+
+    return Object.keys(custom).length > 0
+      ? { ...DEFAULT_RATING_WEIGHTS, custom }
+      : { ...DEFAULT_RATING_WEIGHTS };
+  }
+
+  /**
+   * Loads every raw input the engine needs for one employer in a single call
+   */
+  async loadCalculationInput(context: CalculationContext): Promise<CalculationInput> {
+    const [projectAssessments, expertiseAssessments, ebaRecords, whsBreaches] = await Promise.all([
+      this.loadProjectAssessments(context.employer_id, context.calculation_date, context.lookback_days.project),
+      this.loadExpertiseAssessments(context.employer_id, context.calculation_date, context.lookback_days.expertise),
+      this.loadEBARecords(context.employer_id),
+      this.loadWhsBreaches(context.employer_id, context.calculation_date)
+    ]);
+
+    const organiserIds = [...new Set(expertiseAssessments.map(a => a.organiser_id))];
+    const organiserProfiles = await this.loadOrganiserProfiles(organiserIds);
+
+    return {
+      employer_id: context.employer_id,
+      project_assessments: projectAssessments,
+      expertise_assessments: expertiseAssessments,
+      eba_records: ebaRecords,
+      organiser_profiles: organiserProfiles.reduce((acc, profile) => {
+        acc[profile.id] = profile;
+        return acc;
+      }, {} as Record<string, RawOrganiserProfile>),
+      whs_breaches: whsBreaches,
+      context
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // PRIVATE HELPER METHODS
+  // -------------------------------------------------------------------------
+
+  private daysBefore(date: Date, days: number): Date {
+    return new Date(date.getTime() - (days * 24 * 60 * 60 * 1000));
+  }
+
+  private toDateString(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
+
+// =============================================================================
+// CUSTOM ERROR CLASS
+// =============================================================================
+
+export class DataSourceError extends Error {
+  public readonly code: string;
+  public readonly details?: Record<string, any>;
+
+  constructor(code: string, message: string, details?: Record<string, any>) {
+    super(message);
+    this.name = 'DataSourceError';
+    this.code = code;
+    this.details = details;
+  }
+}
@@ -18,6 +18,7 @@ import {
   ConfidenceLevel,
   RatingStatus
 } from '../types/CalculationTypes';
+import { defaultMethodRegistry } from '../core/CalculationMethodRegistry';
 
 // =============================================================================
 // VALIDATION INTERFACES
@@ -82,6 +83,14 @@ export class Validator implements IValidator {
         warnings.push(this.createError('FUTURE_CALCULATION_DATE', 'Calculation date is in the future', { value: request.calculation_date }));
       }
 
+      if (request.as_at && !this.isValidDate(request.as_at)) {
+        errors.push(this.createError('INVALID_AS_AT_DATE', 'Invalid as-at date format', { value: request.as_at }));
+      }
+
+      if (request.as_at && new Date(request.as_at) > new Date()) {
+        errors.push(this.createError('FUTURE_AS_AT_DATE', 'As-at date cannot be in the future', { value: request.as_at }));
+      }
+
       // Validate weights
       if (request.project_weight !== undefined) {
         if (!this.isValidWeight(request.project_weight)) {
@@ -863,7 +872,7 @@ export class Validator implements IValidator {
   }
 
   private isValidCalculationMethod(method: string): boolean {
-    return ['weighted_average', 'weighted_sum', 'minimum_score', 'hybrid_method'].includes(method);
+    return defaultMethodRegistry.has(method);
   }
 
   private isValidDiscrepancyLevel(level: string): boolean {
@@ -0,0 +1,112 @@
+/**
+ * Tests for scraper job admin controls
+ *
+ * Run with: npm test src/lib/scraper-jobs/__tests__/jobControl.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  buildCancelControl,
+  buildReprioritiseControl,
+  buildRetryControl,
+  ControllableScraperJob,
+  normalizePriority,
+  resolveResumeIndex,
+  ScraperJobControlError,
+} from '../jobControl'
+
+const NOW = new Date('2026-01-22T10:00:00.000Z')
+
+function makeJob(overrides: Partial<ControllableScraperJob> = {}): ControllableScraperJob {
+  return {
+    id: 'job-1',
+    job_type: 'fwc_lookup',
+    status: 'failed',
+    payload: { employerIds: ['a', 'b', 'c', 'd'] },
+    priority: 5,
+    attempts: 5,
+    max_attempts: 5,
+    progress_completed: 2,
+    progress_total: 4,
+    ...overrides,
+  }
+}
+
+describe('Scraper job controls', () => {
+  describe('resolveResumeIndex', () => {
+    it('should resume after the last completed employer', () => {
+      expect(resolveResumeIndex(makeJob())).toBe(2)
+    })
+
+    it('should restart jobs that completed every employer or have no employer list', () => {
+      expect(resolveResumeIndex(makeJob({ progress_completed: 4 }))).toBe(0)
+      expect(resolveResumeIndex(makeJob({ job_type: 'mapping_sheet_scan', payload: { scanId: 's1' } }))).toBe(0)
+      expect(resolveResumeIndex(makeJob({ progress_completed: null }))).toBe(0)
+    })
+  })
+
+  describe('buildRetryControl', () => {
+    it('should requeue a failed job from the last completed employer', () => {
+      const control = buildRetryControl(makeJob({ status: 'dead_letter' }), 'admin-1', NOW)
+
+      expect(control.update).toMatchObject({
+        status: 'queued',
+        attempts: 0,
+        last_error: null,
+        completed_at: null,
+        run_at: NOW.toISOString(),
+        progress_completed: 2,
+        payload: { employerIds: ['a', 'b', 'c', 'd'], resumeFromIndex: 2 },
+      })
+      expect(control.event).toEqual({
+        event_type: 'job_retry_requested',
+        payload: { requestedBy: 'admin-1', previousStatus: 'dead_letter', resumeFromIndex: 2 },
+      })
+    })
+
+    it('should refuse to retry jobs that are still active or succeeded', () => {
+      expect(() => buildRetryControl(makeJob({ status: 'running' }), 'admin-1')).toThrow(ScraperJobControlError)
+      expect(() => buildRetryControl(makeJob({ status: 'succeeded' }), 'admin-1')).toThrow('Cannot retry a succeeded job')
+    })
+  })
+
+  describe('buildCancelControl', () => {
+    it('should cancel queued and running jobs without touching the lock', () => {
+      const control = buildCancelControl(makeJob({ status: 'running' }), 'admin-1', NOW)
+
+      expect(control.update).toEqual({
+        status: 'cancelled',
+        completed_at: NOW.toISOString(),
+        updated_at: NOW.toISOString(),
+      })
+      expect(control.event.payload).toEqual({ cancelledBy: 'admin-1', previousStatus: 'running' })
+    })
+
+    it('should refuse to cancel finished jobs', () => {
+      expect(() => buildCancelControl(makeJob({ status: 'failed' }), 'admin-1')).toThrow('Cannot cancel a failed job')
+    })
+  })
+
+  describe('buildReprioritiseControl', () => {
+    it('should clamp priority to the queue range', () => {
+      const control = buildReprioritiseControl(makeJob({ status: 'queued' }), 0, 'admin-1', NOW)
+
+      expect(control.update.priority).toBe(1)
+      expect(control.event.payload).toEqual({ requestedBy: 'admin-1', previousPriority: 5, priority: 1 })
+      expect(normalizePriority(42)).toBe(10)
+    })
+
+    it('should only reprioritise queued jobs with a numeric priority', () => {
+      expect(() => buildReprioritiseControl(makeJob({ status: 'running' }), 1, 'admin-1')).toThrow(
+        'Only queued jobs can be reprioritised'
+      )
+
+      try {
+        buildReprioritiseControl(makeJob({ status: 'queued' }), 'soon', 'admin-1')
+        throw new Error('Expected an error')
+      } catch (error) {
+        expect((error as ScraperJobControlError).code).toBe('INVALID_PRIORITY')
+      }
+    })
+  })
+})
@@ -0,0 +1,168 @@
+/**
+ * Admin controls for scraper jobs: cancel, retry and reprioritise.
+ *
+ * Each control validates the job's current state and returns the column update to apply,
+ * plus the event recorded in scraper_job_events. Workers pick the changes up on their own:
+ * a cancelled running job is aborted between employers, and a retried job resumes from
+ * payload.resumeFromIndex.
+ */
+
+export type ScraperJobControlStatus =
+  | 'queued'
+  | 'running'
+  | 'processing'
+  | 'succeeded'
+  | 'failed'
+  | 'cancelled'
+  | 'dead_letter'
+
+export type ScraperJobAction = 'cancel' | 'retry' | 'reprioritise'
+
+export interface ControllableScraperJob {
+  id: string
+  job_type: string
+  status: ScraperJobControlStatus
+  payload: Record<string, unknown> | null
+  priority: number
+  attempts: number
+  max_attempts: number
+  progress_completed: number | null
+  progress_total: number | null
+}
+
+export interface ScraperJobControlResult {
+  update: Record<string, unknown>
+  event: {
+    event_type: string
+    payload: Record<string, unknown>
+  }
+}
+
+export const SCRAPER_JOB_ACTIONS: ScraperJobAction[] = ['cancel', 'retry', 'reprioritise']
+export const CANCELLABLE_STATUSES: ScraperJobControlStatus[] = ['queued', 'running', 'processing']
+export const RETRYABLE_STATUSES: ScraperJobControlStatus[] = ['failed', 'dead_letter', 'cancelled']
+
+export const MIN_PRIORITY = 1
+export const MAX_PRIORITY = 10
+export const DEFAULT_PRIORITY = 5
+
+// Job types whose payload is a list of employers processed in order
+const EMPLOYER_JOB_TYPES = ['fwc_lookup', 'incolink_sync']
+
+/**
+ * Clamp a requested priority to the queue's range (1 runs first, 10 last).
+ */
+export function normalizePriority(priority: unknown): number {
+  const value = Number(priority)
+  if (!Number.isFinite(value)) return DEFAULT_PRIORITY
+  return Math.min(Math.max(Math.trunc(value), MIN_PRIORITY), MAX_PRIORITY)
+}
+
+/**
+ * Index of the first employer still to process. Workers record progress_completed after
+ * each employer finishes, so it marks the last completed employer.
+ */
+export function resolveResumeIndex(job: ControllableScraperJob): number {
+  if (!EMPLOYER_JOB_TYPES.includes(job.job_type)) return 0
+
+  const employerIds = Array.isArray(job.payload?.employerIds) ? (job.payload?.employerIds as unknown[]) : []
+  const completed = Number.isFinite(job.progress_completed) ? Number(job.progress_completed) : 0
+
+  // A job that got through every employer failed afterwards (e.g. refreshing views); run it all again
+  if (completed >= employerIds.length) return 0
+
+  return Math.max(0, Math.trunc(completed))
+}
+
+export function buildCancelControl(
+  job: ControllableScraperJob,
+  requestedBy: string,
+  now: Date = new Date()
+): ScraperJobControlResult {
+  if (!CANCELLABLE_STATUSES.includes(job.status)) {
+    throw new ScraperJobControlError('INVALID_STATE', `Cannot cancel a ${job.status} job`, { status: job.status })
+  }
+
+  return {
+    // The lock is left in place for running jobs; the worker releases it when it stops
+    update: {
+      status: 'cancelled',
+      completed_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    },
+    event: {
+      event_type: 'cancelled',
+      payload: { cancelledBy: requestedBy, previousStatus: job.status },
+    },
+  }
+}
+
+export function buildRetryControl(
+  job: ControllableScraperJob,
+  requestedBy: string,
+  now: Date = new Date()
+): ScraperJobControlResult {
+  if (!RETRYABLE_STATUSES.includes(job.status)) {
+    throw new ScraperJobControlError('INVALID_STATE', `Cannot retry a ${job.status} job`, { status: job.status })
+  }
+
+  const resumeFromIndex = resolveResumeIndex(job)
+
+  return {
+    update: {
+      status: 'queued',
+      attempts: 0,
+      last_error: null,
+      lock_token: null,
+      locked_at: null,
+      completed_at: null,
+      run_at: now.toISOString(),
+      updated_at: now.toISOString(),
+      progress_completed: resumeFromIndex,
+      payload: { ...(job.payload ?? {}), resumeFromIndex },
+    },
+    event: {
+      event_type: 'job_retry_requested',
+      payload: { requestedBy, previousStatus: job.status, resumeFromIndex },
+    },
+  }
+}
+
+export function buildReprioritiseControl(
+  job: ControllableScraperJob,
+  priority: unknown,
+  requestedBy: string,
+  now: Date = new Date()
+): ScraperJobControlResult {
+  if (job.status !== 'queued') {
+    throw new ScraperJobControlError('INVALID_STATE', 'Only queued jobs can be reprioritised', { status: job.status })
+  }
+
+  if (priority === undefined || priority === null || !Number.isFinite(Number(priority))) {
+    throw new ScraperJobControlError('INVALID_PRIORITY', `Priority must be a number between ${MIN_PRIORITY} and ${MAX_PRIORITY}`)
+  }
+
+  const nextPriority = normalizePriority(priority)
+
+  return {
+    update: {
+      priority: nextPriority,
+      updated_at: now.toISOString(),
+    },
+    event: {
+      event_type: 'job_reprioritised',
+      payload: { requestedBy, previousPriority: job.priority, priority: nextPriority },
+    },
+  }
+}
+
+export class ScraperJobControlError extends Error {
+  constructor(
+    public code: 'INVALID_STATE' | 'INVALID_PRIORITY' | 'INVALID_ACTION',
+    message: string,
+    public details?: Record<string, unknown>
+  ) {
+    super(message)
+    this.name = 'ScraperJobControlError'
+  }
+}
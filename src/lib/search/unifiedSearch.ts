@@ -0,0 +1,471 @@
+/**
+ * Entity searches behind /api/search/unified. Projects, employers and job sites are
+ * scoped to the caller's patches for organisers and lead organisers; worker search
+ * is not patch-scoped. Also used by the help assistant tools.
+ */
+
+// Cursor-based pagination interface
+export interface CursorInfo {
+  id: string
+  created_at?: string
+  name?: string
+  distance_km?: number
+}
+
+export interface SearchResult<T = any> {
+  id: string
+  type: 'project' | 'employer' | 'worker' | 'job_site'
+  score: number
+  data: T
+  cursor: string
+}
+
+// Helper functions for cursor encoding/decoding
+function encodeCursor(cursor: CursorInfo): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+export function decodeCursor(cursor?: string): CursorInfo | null {
+  if (!cursor) return null
+  try {
+    return JSON.parse(Buffer.from(cursor, 'base64url').toString())
+  } catch {
+    return null
+  }
+}
+
+// Helper function to escape ILIKE patterns
+function escapeLikePattern(str: string): string {
+  return str.replace(/[%_\\]/g, '\\$&')
+}
+
+// Helper function to calculate relevance score
+function calculateRelevanceScore(query: string, fields: string[]): number {
+  if (!query || query.length < 2) return 1
+
+  const queryLower = query.toLowerCase()
+  let score = 0
+
+  // Exact name match gets highest score
+  for (const field of fields) {
+    if (field && field.toLowerCase() === queryLower) {
+      score += 100
+    }
+  }
+
+  // Exact match in any field
+  for (const field of fields) {
+    if (field && field.toLowerCase().includes(queryLower)) {
+      score += 50
+    }
+  }
+
+  // Fuzzy matching using word boundaries
+  const queryWords = queryLower.split(/\s+/)
+  for (const word of queryWords) {
+    for (const field of fields) {
+      if (field) {
+        const fieldWords = field.toLowerCase().split(/\s+/)
+        for (const fieldWord of fieldWords) {
+          if (fieldWord.startsWith(word)) {
+            score += 10
+          }
+        }
+      }
+    }
+  }
+
+  return score || 1
+}
+
+// Search functions for different entities
+export async function searchProjects(
+  supabase: any,
+  query: string,
+  limit: number,
+  cursor: CursorInfo | null,
+  filters: any,
+  userPatchIds: string[] | null
+): Promise<SearchResult[]> {
+  let dbQuery = supabase
+    .from('projects')
+    .select(`
+      id,
+      name,
+      tier,
+      value,
+      organising_universe,
+      stage_class,
+      created_at,
+      job_sites!inner(
+        id,
+        name,
+        full_address,
+        latitude,
+        longitude
+      )
+    `)
+    .eq('stage_class', 'construction') // Only active construction projects
+    .order('created_at', { ascending: false })
+
+  // Apply user patch restrictions if needed
+  if (userPatchIds && userPatchIds.length > 0) {
+    dbQuery = dbQuery.in('id',
+      supabase
+        .from('v_patch_projects_current')
+        .select('project_id')
+        .in('patch_id', userPatchIds)
+    )
+  }
+
+  // Apply text search
+  if (query && query.length >= 2) {
+    dbQuery = dbQuery.ilike('name', `%${escapeLikePattern(query)}%`)
+  }
+
+  // Apply filters
+  if (filters?.project_tiers?.length) {
+    dbQuery = dbQuery.in('tier', filters.project_tiers)
+  }
+
+  if (filters?.stage_class) {
+    dbQuery = dbQuery.eq('stage_class', filters.stage_class)
+  }
+
+  // Apply cursor for pagination
+  if (cursor) {
+    dbQuery = dbQuery.lt('created_at', cursor.created_at || '')
+  }
+
+  const { data, error } = await dbQuery.limit(limit)
+
+  if (error) {
+    console.error('Project search error:', error)
+    return []
+  }
+
+  return (data || []).map((project: any) => {
+    const score = calculateRelevanceScore(query, [project.name])
+    const nextCursor = encodeCursor({
+      id: project.id,
+      created_at: project.created_at
+    })
+
+    return {
+      id: project.id,
+      type: 'project' as const,
+      score,
+      data: project,
+      cursor: nextCursor
+    }
+  })
+}
+
+export async function searchEmployers(
+  supabase: any,
+  query: string,
+  limit: number,
+  cursor: CursorInfo | null,
+  filters: any,
+  userPatchIds: string[] | null
+): Promise<SearchResult[]> {
+  let dbQuery = supabase
+    .from('employers')
+    .select(`
+      id,
+      name,
+      abn,
+      tier,
+      created_at,
+      enterprise_agreement_status
+    `)
+    .order('name', { ascending: true })
+
+  // Apply user patch restrictions if needed
+  if (userPatchIds && userPatchIds.length > 0) {
+    dbQuery = dbQuery.in('id',
+      supabase
+        .from('v_patch_employers_current')
+        .select('employer_id')
+        .in('patch_id', userPatchIds)
+    )
+  }
+
+  // Apply text search using trigram index
+  if (query && query.length >= 2) {
+    dbQuery = dbQuery.ilike('name', `%${escapeLikePattern(query)}%`)
+  }
+
+  // Apply filters
+  if (filters?.employer_tiers?.length) {
+    dbQuery = dbQuery.in('tier', filters.employer_tiers)
+  }
+
+  // Apply cursor for pagination
+  if (cursor) {
+    dbQuery = dbQuery.gt('name', cursor.name || '')
+  }
+
+  const { data, error } = await dbQuery.limit(limit)
+
+  if (error) {
+    console.error('Employer search error:', error)
+    return []
+  }
+
+  return (data || []).map((employer: any) => {
+    const score = calculateRelevanceScore(query, [employer.name, employer.abn])
+    const nextCursor = encodeCursor({
+      id: employer.id,
+      name: employer.name
+    })
+
+    return {
+      id: employer.id,
+      type: 'employer' as const,
+      score,
+      data: employer,
+      cursor: nextCursor
+    }
+  })
+}
+
+export async function searchWorkers(
+  supabase: any,
+  query: string,
+  limit: number,
+  cursor: CursorInfo | null,
+  filters: any
+): Promise<SearchResult[]> {
+  let dbQuery = supabase
+    .from('worker_list_view')
+    .select(`
+      id,
+      first_name,
+      surname,
+      email,
+      mobile_phone,
+      member_number,
+      union_membership_status,
+      created_at
+    `)
+    .order('surname', { ascending: true })
+    .order('first_name', { ascending: true })
+
+  // Apply text search using pre-computed search_text
+  if (query && query.length >= 2) {
+    dbQuery = dbQuery.ilike('search_text', `%${escapeLikePattern(query)}%`)
+  }
+
+  // Apply membership filter
+  if (filters?.membership && filters.membership !== 'all') {
+    if (filters.membership === 'member') {
+      dbQuery = dbQuery.not('union_membership_status', 'is', null)
+                 .neq('union_membership_status', 'non_member')
+    } else if (filters.membership === 'non_member') {
+      dbQuery = dbQuery.or('union_membership_status.is.null,union_membership_status.eq.non_member')
+    }
+  }
+
+  // Apply cursor for pagination
+  if (cursor) {
+    dbQuery = dbQuery.or(`surname.gt.${cursor.name || ''},and(surname.eq.${cursor.name || ''},first_name.gt.${cursor.name || ''})`)
+  }
+
+  const { data, error } = await dbQuery.limit(limit)
+
+  if (error) {
+    console.error('Worker search error:', error)
+    return []
+  }
+
+  return (data || []).map((worker: any) => {
+    const fullName = `${worker.first_name} ${worker.surname}`
+    const score = calculateRelevanceScore(query, [fullName, worker.email, worker.mobile_phone])
+    const nextCursor = encodeCursor({
+      id: worker.id,
+      name: worker.surname
+    })
+
+    return {
+      id: worker.id,
+      type: 'worker' as const,
+      score,
+      data: worker,
+      cursor: nextCursor
+    }
+  })
+}
+
+export async function searchJobSites(
+  supabase: any,
+  query: string,
+  limit: number,
+  cursor: CursorInfo | null,
+  filters: any,
+  userPatchIds: string[] | null,
+  lat?: number,
+  lng?: number,
+  radiusKm?: number
+): Promise<SearchResult[]> {
+  // Use existing find_nearby_projects for geographic search
+  if (lat && lng && radiusKm) {
+    const { data, error } = await supabase.rpc('find_nearby_projects', {
+      search_lat: lat,
+      search_lng: lng,
+      max_results: limit,
+      max_distance_km: radiusKm
+    })
+
+    if (error) {
+      console.error('Job site geographic search error:', error)
+      return []
+    }
+
+    return (data || []).map((site: any) => {
+      const score = 100 - (site.distance_km || 0) // Closer sites get higher scores
+      const nextCursor = encodeCursor({
+        id: site.job_site_id,
+        distance_km: site.distance_km
+      })
+
+      return {
+        id: site.job_site_id,
+        type: 'job_site' as const,
+        score,
+        data: {
+          id: site.job_site_id,
+          name: site.job_site_name,
+          address: site.job_site_address,
+          latitude: site.latitude,
+          longitude: site.longitude,
+          distance_km: site.distance_km,
+          project: {
+            id: site.project_id,
+            name: site.project_name,
+            tier: site.project_tier,
+            builder_name: site.builder_name
+          }
+        },
+        cursor: nextCursor
+      }
+    })
+  }
+
+  // Regular text-based job site search
+  let dbQuery = supabase
+    .from('job_sites')
+    .select(`
+      id,
+      name,
+      full_address,
+      location,
+      latitude,
+      longitude,
+      created_at,
+      projects!inner(
+        id,
+        name,
+        tier,
+        stage_class
+      )
+    `)
+    .order('name', { ascending: true })
+
+  // Apply user patch restrictions if needed
+  if (userPatchIds && userPatchIds.length > 0) {
+    dbQuery = dbQuery.in('id',
+      supabase
+        .from('v_patch_sites_current')
+        .select('job_site_id')
+        .in('patch_id', userPatchIds)
+    )
+  }
+
+  // Apply text search
+  if (query && query.length >= 2) {
+    dbQuery = dbQuery.or(`name.ilike.%${escapeLikePattern(query)}%,full_address.ilike.%${escapeLikePattern(query)}%,location.ilike.%${escapeLikePattern(query)}%`)
+  }
+
+  // Apply location filter
+  if (filters?.has_location) {
+    dbQuery = dbQuery.not('latitude', 'is', null)
+                   .not('longitude', 'is', null)
+  }
+
+  // Apply cursor for pagination
+  if (cursor) {
+    dbQuery = dbQuery.gt('name', cursor.name || '')
+  }
+
+  const { data, error } = await dbQuery.limit(limit)
+
+  if (error) {
+    console.error('Job site search error:', error)
+    return []
+  }
+
+  return (data || []).map((site: any) => {
+    const score = calculateRelevanceScore(query, [site.name, site.full_address, site.location])
+    const nextCursor = encodeCursor({
+      id: site.id,
+      name: site.name
+    })
+
+    return {
+      id: site.id,
+      type: 'job_site' as const,
+      score,
+      data: site,
+      cursor: nextCursor
+    }
+  })
+}
+
+// Get user patch assignments for filtering
+export async function getUserPatchIds(supabase: any, userId: string, role: string): Promise<string[] | null> {
+  if (role === 'admin') {
+    return null // Admin sees everything
+  }
+
+  const patchIdSet = new Set<string>()
+
+  if (role === 'lead_organiser') {
+    // Get direct patch assignments
+    const { data: direct } = await supabase
+      .from("lead_organiser_patch_assignments")
+      .select("patch_id")
+      .is("effective_to", null)
+      .eq("lead_organiser_id", userId)
+
+    direct?.forEach((r: any) => r?.patch_id && patchIdSet.add(r.patch_id))
+
+    // Get team members' patches
+    const today = new Date().toISOString().slice(0, 10)
+    const { data: links } = await supabase
+      .from("role_hierarchy")
+      .select("child_user_id")
+      .eq("parent_user_id", userId)
+      .eq("is_active", true)
+      .or(`end_date.is.null,end_date.gte.${today}`)
+
+    const childIds = Array.from(new Set(links?.map((r: any) => r.child_user_id).filter(Boolean) || []))
+    if (childIds.length > 0) {
+      const { data: team } = await supabase
+        .from("organiser_patch_assignments")
+        .select("patch_id")
+        .is("effective_to", null)
+        .in("organiser_id", childIds)
+      team?.forEach((r: any) => r?.patch_id && patchIdSet.add(r.patch_id))
+    }
+  } else if (role === 'organiser') {
+    const { data } = await supabase
+      .from("organiser_patch_assignments")
+      .select("patch_id")
+      .is("effective_to", null)
+      .eq("organiser_id", userId)
+    data?.forEach((r: any) => r?.patch_id && patchIdSet.add(r.patch_id))
+  }
+
+  return Array.from(patchIdSet)
+}
@@ -0,0 +1,53 @@
+/**
+ * Tests for delegate and HSR refresher due dates
+ *
+ * Run with: npm test src/lib/training/__tests__/refresher.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { calculateRefresherDue, getTrainingStatus, isTrainingLapsed } from '../refresher'
+
+describe('calculateRefresherDue', () => {
+  it('should add the course validity to the completion date', () => {
+    expect(calculateRefresherDue('2025-03-14', 12)).toBe('2026-03-14')
+    expect(calculateRefresherDue('2025-11-02', 24)).toBe('2027-11-02')
+  })
+
+  it('should clamp to the last day of a shorter month', () => {
+    expect(calculateRefresherDue('2025-08-31', 6)).toBe('2026-02-28')
+    expect(calculateRefresherDue('2027-08-31', 6)).toBe('2028-02-29')
+  })
+
+  it('should return null for courses that never lapse', () => {
+    expect(calculateRefresherDue('2025-03-14', null)).toBeNull()
+    expect(calculateRefresherDue('2025-03-14', 0)).toBeNull()
+  })
+})
+
+describe('getTrainingStatus', () => {
+  const today = new Date('2026-01-22T09:00:00Z')
+
+  it('should flag reps with no completion as never trained', () => {
+    expect(getTrainingStatus(null, null, today)).toBe('never_trained')
+  })
+
+  it('should classify by the refresher due date', () => {
+    expect(getTrainingStatus('2024-06-01', '2026-01-21', today)).toBe('overdue')
+    expect(getTrainingStatus('2025-01-22', '2026-01-22', today)).toBe('due_soon')
+    expect(getTrainingStatus('2025-03-23', '2026-03-23', today)).toBe('due_soon')
+    expect(getTrainingStatus('2025-03-24', '2026-03-24', today)).toBe('current')
+  })
+
+  it('should treat completions without a due date as current', () => {
+    expect(getTrainingStatus('2020-01-01', null, today)).toBe('current')
+  })
+})
+
+describe('isTrainingLapsed', () => {
+  it('should only count overdue and never trained reps as lapsed', () => {
+    expect(isTrainingLapsed('overdue')).toBe(true)
+    expect(isTrainingLapsed('never_trained')).toBe(true)
+    expect(isTrainingLapsed('due_soon')).toBe(false)
+    expect(isTrainingLapsed(null)).toBe(false)
+  })
+})
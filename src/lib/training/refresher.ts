@@ -0,0 +1,81 @@
+/**
+ * Refresher due dates and training status for delegates and HSRs
+ *
+ * Mirrors the database: set_training_refresher_due() adds the course validity
+ * to the completion date, and v_worker_training_status classifies each rep
+ * against it. The client uses these to preview a due date before a
+ * participation record is saved and to label the statuses the view returns.
+ */
+
+export type TrainingStatus = 'current' | 'due_soon' | 'overdue' | 'never_trained'
+
+// Same window as v_worker_training_status
+export const DUE_SOON_DAYS = 60
+
+export const TRAINING_STATUS_LABELS: Record<TrainingStatus, string> = {
+  current: 'Current',
+  due_soon: 'Due soon',
+  overdue: 'Overdue',
+  never_trained: 'Never trained',
+}
+
+// Union roles a course can be required for (union_role_type values)
+export const TRAINED_ROLE_LABELS: Record<string, string> = {
+  hsr: 'HSR',
+  health_safety_committee: 'H&S committee',
+  ohs_committee_chair: 'OHS committee chair',
+  site_delegate: 'Site delegate',
+  shift_delegate: 'Shift delegate',
+  company_delegate: 'Company delegate',
+}
+
+function parseDate(value: string): Date {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Completion date plus the course validity, as an ISO date. Like Postgres
+ * interval arithmetic, a day past the end of the target month is clamped to
+ * its last day (31 Aug + 6 months is 28 or 29 Feb). Courses without a
+ * validity never lapse.
+ */
+export function calculateRefresherDue(completedOn: string, validityMonths: number | null): string | null {
+  if (!validityMonths || validityMonths <= 0) return null
+
+  const completed = parseDate(completedOn)
+  const targetMonth = completed.getUTCMonth() + validityMonths
+  const lastDayOfTarget = new Date(Date.UTC(completed.getUTCFullYear(), targetMonth + 1, 0)).getUTCDate()
+  const due = new Date(
+    Date.UTC(completed.getUTCFullYear(), targetMonth, Math.min(completed.getUTCDate(), lastDayOfTarget))
+  )
+  return formatDate(due)
+}
+
+export function getTrainingStatus(
+  lastCompletedOn: string | null,
+  dueOn: string | null,
+  today: Date = new Date()
+): TrainingStatus {
+  if (!lastCompletedOn) return 'never_trained'
+  if (!dueOn) return 'current'
+
+  const todayUtc = parseDate(formatDate(today))
+  const due = parseDate(dueOn)
+  if (due < todayUtc) return 'overdue'
+
+  const soon = new Date(todayUtc)
+  soon.setUTCDate(soon.getUTCDate() + DUE_SOON_DAYS)
+  return due <= soon ? 'due_soon' : 'current'
+}
+
+/**
+ * A rep who has never done the training or whose refresher is overdue
+ */
+export function isTrainingLapsed(status: TrainingStatus | string | null | undefined): boolean {
+  return status === 'overdue' || status === 'never_trained'
+}
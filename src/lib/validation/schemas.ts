@@ -6,6 +6,7 @@
  */
 
 import { z } from 'zod'
+import { INVALID_ABN_MESSAGE, isValidAbn } from '@/lib/employers/abn'
 
 // Common UUID validation pattern
 const uuidSchema = z.string().uuid('Invalid ID format - must be a valid UUID')
@@ -98,7 +99,7 @@ export const employerSchemas = {
   // Core employer data
   createEmployer: z.object({
     name: commonSchemas.shortString,
-    abn: z.string().regex(/^\d{11}$/, 'ABN must be exactly 11 digits').optional(),
+    abn: z.string().refine(isValidAbn, INVALID_ABN_MESSAGE).optional(),
     contact_name: commonSchemas.shortString.optional(),
     contact_phone: commonSchemas.phone.optional(),
     contact_email: commonSchemas.email.optional(),
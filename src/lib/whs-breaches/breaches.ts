@@ -0,0 +1,110 @@
+/**
+ * Logging WHS breaches against a site visit
+ */
+
+import { supabase } from '@/integrations/supabase/client'
+import type { WhsBreachCategory, WhsBreachSeverity, WhsBreachStatus } from './codes'
+
+export const WHS_BREACH_PHOTO_BUCKET = 'whs-breach-photos'
+
+export interface WhsBreachDraft {
+  /** Stored as client_generated_id so saving twice logs the breach once */
+  clientId: string
+  employerId: string
+  category: WhsBreachCategory
+  severity: WhsBreachSeverity
+  title: string
+  notes: string
+  safeworkNoticeRef: string
+  photos: File[]
+}
+
+export interface WhsBreachVisitContext {
+  visitId: string
+  projectId: string | null
+  jobSiteId: string | null
+  visitDate: string
+}
+
+export function createWhsBreachDraft(employerId: string): WhsBreachDraft {
+  return {
+    clientId: crypto.randomUUID(),
+    employerId,
+    category: 'other',
+    severity: 'medium',
+    title: '',
+    notes: '',
+    safeworkNoticeRef: '',
+    photos: [],
+  }
+}
+
+async function uploadBreachPhotos(userId: string, draft: WhsBreachDraft): Promise<string[]> {
+  const paths: string[] = []
+  for (const photo of draft.photos) {
+    const fileName = photo.name.replace(/[^a-zA-Z0-9.-]/g, '_')
+    const path = `${userId}/${draft.clientId}/${Date.now()}_${fileName}`
+    const { error } = await supabase.storage
+      .from(WHS_BREACH_PHOTO_BUCKET)
+      .upload(path, photo, { cacheControl: '3600', upsert: false })
+    if (error) throw error
+    paths.push(path)
+  }
+  return paths
+}
+
+/**
+ * Upload photos and record each drafted breach against the visit. A SafeWork
+ * notice reference starts the breach as notified rather than open.
+ */
+export async function saveWhsBreaches(context: WhsBreachVisitContext, drafts: WhsBreachDraft[]): Promise<void> {
+  if (drafts.length === 0) return
+
+  const { data: userData } = await supabase.auth.getUser()
+  const userId = userData.user?.id
+  if (!userId) throw new Error('User not authenticated')
+
+  const rows = []
+  for (const draft of drafts) {
+    const safeworkNoticeRef = draft.safeworkNoticeRef.trim() || null
+    const status: WhsBreachStatus = safeworkNoticeRef ? 'notified' : 'open'
+    rows.push({
+      site_visit_id: context.visitId,
+      employer_id: draft.employerId,
+      project_id: context.projectId,
+      job_site_id: context.jobSiteId,
+      category: draft.category,
+      severity: draft.severity,
+      status,
+      title: draft.title.trim(),
+      notes: draft.notes.trim() || null,
+      safework_notice_ref: safeworkNoticeRef,
+      photo_paths: await uploadBreachPhotos(userId, draft),
+      identified_at: new Date(`${context.visitDate}T00:00:00`).toISOString(),
+      reported_by: userId,
+      client_generated_id: draft.clientId,
+    })
+  }
+
+  const { error } = await supabase
+    .from('whs_breach')
+    .upsert(rows, { onConflict: 'client_generated_id', ignoreDuplicates: true })
+
+  if (error) throw error
+}
+
+/**
+ * Move a breach on to a later status. The database stamps the matching
+ * notified/rectified/closed time and rejects moves backwards.
+ */
+export async function updateWhsBreachStatus(
+  breachId: string,
+  status: WhsBreachStatus,
+  safeworkNoticeRef?: string
+): Promise<void> {
+  const changes: { status: WhsBreachStatus; safework_notice_ref?: string } = { status }
+  if (safeworkNoticeRef?.trim()) changes.safework_notice_ref = safeworkNoticeRef.trim()
+
+  const { error } = await supabase.from('whs_breach').update(changes).eq('id', breachId)
+  if (error) throw error
+}
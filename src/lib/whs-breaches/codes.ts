@@ -0,0 +1,65 @@
+/**
+ * WHS breach categories, severities and statuses
+ *
+ * Must match the CHECK constraints on whs_breach.
+ */
+
+export const WHS_BREACH_CATEGORIES = [
+  { code: 'working_at_heights', label: 'Working at heights' },
+  { code: 'scaffolding', label: 'Scaffolding' },
+  { code: 'electrical', label: 'Electrical' },
+  { code: 'plant_machinery', label: 'Plant and machinery' },
+  { code: 'excavation', label: 'Excavation' },
+  { code: 'silica_dust', label: 'Silica and dust' },
+  { code: 'asbestos', label: 'Asbestos' },
+  { code: 'traffic_management', label: 'Traffic management' },
+  { code: 'amenities', label: 'Amenities' },
+  { code: 'housekeeping', label: 'Housekeeping' },
+  { code: 'ppe', label: 'PPE' },
+  { code: 'other', label: 'Other' },
+] as const
+
+export const WHS_BREACH_SEVERITIES = [
+  { code: 'low', label: 'Low' },
+  { code: 'medium', label: 'Medium' },
+  { code: 'high', label: 'High' },
+  { code: 'critical', label: 'Critical' },
+] as const
+
+// In lifecycle order; a breach only ever moves forward through these
+export const WHS_BREACH_STATUSES = [
+  { code: 'open', label: 'Open' },
+  { code: 'notified', label: 'Notified' },
+  { code: 'rectified', label: 'Rectified' },
+  { code: 'closed', label: 'Closed' },
+] as const
+
+export type WhsBreachCategory = typeof WHS_BREACH_CATEGORIES[number]['code']
+export type WhsBreachSeverity = typeof WHS_BREACH_SEVERITIES[number]['code']
+export type WhsBreachStatus = typeof WHS_BREACH_STATUSES[number]['code']
+
+// Severities that count against the Track 1 safety component while unresolved
+export const SERIOUS_SEVERITIES: ReadonlySet<string> = new Set(['high', 'critical'])
+
+export const UNRESOLVED_STATUSES: readonly WhsBreachStatus[] = ['open', 'notified']
+
+export function getWhsBreachCategoryLabel(code: string): string {
+  return WHS_BREACH_CATEGORIES.find((category) => category.code === code)?.label ?? code
+}
+
+export function getWhsBreachSeverityLabel(code: string): string {
+  return WHS_BREACH_SEVERITIES.find((severity) => severity.code === code)?.label ?? code
+}
+
+export function getWhsBreachStatusLabel(code: string): string {
+  return WHS_BREACH_STATUSES.find((status) => status.code === code)?.label ?? code
+}
+
+/**
+ * Statuses a breach can move to from its current status
+ */
+export function getNextWhsBreachStatuses(status: string): WhsBreachStatus[] {
+  const index = WHS_BREACH_STATUSES.findIndex((entry) => entry.code === status)
+  if (index < 0) return []
+  return WHS_BREACH_STATUSES.slice(index + 1).map((entry) => entry.code)
+}
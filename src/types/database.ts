@@ -528,6 +528,11 @@ export type Database = {
       }
       batch_uploads: {
         Row: {
+          boundary_accuracy: number | null
+          boundary_detected_count: number | null
+          boundary_detection_confidence: number | null
+          boundary_detection_method: string | null
+          boundary_matched_count: number | null
           created_at: string | null
           error_message: string | null
           id: string
@@ -545,6 +550,11 @@ export type Database = {
           uploaded_by: string
         }
         Insert: {
+          boundary_accuracy?: number | null
+          boundary_detected_count?: number | null
+          boundary_detection_confidence?: number | null
+          boundary_detection_method?: string | null
+          boundary_matched_count?: number | null
           created_at?: string | null
           error_message?: string | null
           id?: string
@@ -562,6 +572,11 @@ export type Database = {
           uploaded_by: string
         }
         Update: {
+          boundary_accuracy?: number | null
+          boundary_detected_count?: number | null
+          boundary_detection_confidence?: number | null
+          boundary_detection_method?: string | null
+          boundary_matched_count?: number | null
           created_at?: string | null
           error_message?: string | null
           id?: string
@@ -823,8 +838,10 @@ export type Database = {
           employer_id: string | null
           followup_email_sent: string | null
           followup_phone_call: string | null
+          fwc_agreement_status: string | null
           fwc_certified_date: string | null
           fwc_document_url: string | null
+          fwc_last_checked_at: string | null
           fwc_lodgement_number: string | null
           fwc_matter_number: string | null
           id: string
@@ -856,8 +873,10 @@ export type Database = {
           employer_id?: string | null
           followup_email_sent?: string | null
           followup_phone_call?: string | null
+          fwc_agreement_status?: string | null
           fwc_certified_date?: string | null
           fwc_document_url?: string | null
+          fwc_last_checked_at?: string | null
           fwc_lodgement_number?: string | null
           fwc_matter_number?: string | null
           id?: string
@@ -889,8 +908,10 @@ export type Database = {
           employer_id?: string | null
           followup_email_sent?: string | null
           followup_phone_call?: string | null
+          fwc_agreement_status?: string | null
           fwc_certified_date?: string | null
           fwc_document_url?: string | null
+          fwc_last_checked_at?: string | null
           fwc_lodgement_number?: string | null
           fwc_matter_number?: string | null
           id?: string
@@ -1158,13 +1179,307 @@ export type Database = {
           },
         ]
       }
+      data_quality_assessments: {
+        Row: {
+          assessment_date: string
+          created_at: string | null
+          dimension_scores: Json
+          id: string
+          overall_score: number
+          recommendations: string[] | null
+          record_count: number | null
+          rule_results: Json
+          table_name: string
+          trends: Json | null
+        }
+        Insert: {
+          assessment_date: string
+          created_at?: string | null
+          dimension_scores: Json
+          id?: string
+          overall_score: number
+          recommendations?: string[] | null
+          record_count?: number | null
+          rule_results: Json
+          table_name: string
+          trends?: Json | null
+        }
+        Update: {
+          assessment_date?: string
+          created_at?: string | null
+          dimension_scores?: Json
+          id?: string
+          overall_score?: number
+          recommendations?: string[] | null
+          record_count?: number | null
+          rule_results?: Json
+          table_name?: string
+          trends?: Json | null
+        }
+        Relationships: []
+      }
+      data_quality_issues: {
+        Row: {
+          assigned_at: string | null
+          assigned_by: string | null
+          assigned_to: string | null
+          current_value: Json | null
+          description: string
+          detected_at: string | null
+          expected_value: Json | null
+          field_name: string | null
+          id: string
+          issue_type: string
+          record_context: Json | null
+          record_id: string | null
+          record_label: string | null
+          resolution: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          rule_id: string | null
+          rule_name: string
+          severity: string
+          status: string | null
+          table_name: string
+        }
+        Insert: {
+          assigned_at?: string | null
+          assigned_by?: string | null
+          assigned_to?: string | null
+          current_value?: Json | null
+          description: string
+          detected_at?: string | null
+          expected_value?: Json | null
+          field_name?: string | null
+          id?: string
+          issue_type: string
+          record_context?: Json | null
+          record_id?: string | null
+          record_label?: string | null
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          rule_id?: string | null
+          rule_name: string
+          severity: string
+          status?: string | null
+          table_name: string
+        }
+        Update: {
+          assigned_at?: string | null
+          assigned_by?: string | null
+          assigned_to?: string | null
+          current_value?: Json | null
+          description?: string
+          detected_at?: string | null
+          expected_value?: Json | null
+          field_name?: string | null
+          id?: string
+          issue_type?: string
+          record_context?: Json | null
+          record_id?: string | null
+          record_label?: string | null
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          rule_id?: string | null
+          rule_name?: string
+          severity?: string
+          status?: string | null
+          table_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "data_quality_issues_assigned_by_fkey"
+            columns: ["assigned_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "data_quality_issues_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "data_quality_issues_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "data_quality_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      data_quality_metrics: {
+        Row: {
+          accuracy_score: number | null
+          completeness_score: number | null
+          consistency_score: number | null
+          id: string
+          issues: Json | null
+          last_assessed: string
+          record_count: number | null
+          recorded_at: string | null
+          table_name: string
+          validity_score: number | null
+        }
+        Insert: {
+          accuracy_score?: number | null
+          completeness_score?: number | null
+          consistency_score?: number | null
+          id?: string
+          issues?: Json | null
+          last_assessed: string
+          record_count?: number | null
+          recorded_at?: string | null
+          table_name: string
+          validity_score?: number | null
+        }
+        Update: {
+          accuracy_score?: number | null
+          completeness_score?: number | null
+          consistency_score?: number | null
+          id?: string
+          issues?: Json | null
+          last_assessed?: string
+          record_count?: number | null
+          recorded_at?: string | null
+          table_name?: string
+          validity_score?: number | null
+        }
+        Relationships: []
+      }
+      data_quality_rules: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          enabled: boolean | null
+          field_name: string | null
+          id: string
+          name: string
+          parameters: Json
+          rule_type: string
+          severity: string
+          table_name: string
+          threshold: number | null
+          updated_at: string | null
+          weight: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          enabled?: boolean | null
+          field_name?: string | null
+          id?: string
+          name: string
+          parameters: Json
+          rule_type: string
+          severity: string
+          table_name: string
+          threshold?: number | null
+          updated_at?: string | null
+          weight?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          enabled?: boolean | null
+          field_name?: string | null
+          id?: string
+          name?: string
+          parameters?: Json
+          rule_type?: string
+          severity?: string
+          table_name?: string
+          threshold?: number | null
+          updated_at?: string | null
+          weight?: number | null
+        }
+        Relationships: []
+      }
+      data_quality_trends: {
+        Row: {
+          assessment_date: string
+          created_at: string | null
+          dimension_scores: Json
+          id: string
+          issue_count: number | null
+          overall_score: number
+          record_count: number | null
+          table_name: string
+        }
+        Insert: {
+          assessment_date: string
+          created_at?: string | null
+          dimension_scores: Json
+          id?: string
+          issue_count?: number | null
+          overall_score: number
+          record_count?: number | null
+          table_name: string
+        }
+        Update: {
+          assessment_date?: string
+          created_at?: string | null
+          dimension_scores?: Json
+          id?: string
+          issue_count?: number | null
+          overall_score?: number
+          record_count?: number | null
+          table_name?: string
+        }
+        Relationships: []
+      }
+      database_triggers: {
+        Row: {
+          conditions: string | null
+          created_at: string | null
+          enabled: boolean | null
+          events: string[]
+          function_name: string
+          id: string
+          name: string
+          priority: number | null
+          table_name: string
+          updated_at: string | null
+        }
+        Insert: {
+          conditions?: string | null
+          created_at?: string | null
+          enabled?: boolean | null
+          events: string[]
+          function_name: string
+          id?: string
+          name: string
+          priority?: number | null
+          table_name: string
+          updated_at?: string | null
+        }
+        Update: {
+          conditions?: string | null
+          created_at?: string | null
+          enabled?: boolean | null
+          events?: string[]
+          function_name?: string
+          id?: string
+          name?: string
+          priority?: number | null
+          table_name?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       dd_conversion_attempt: {
         Row: {
           client_generated_id: string
           created_at: string
           id: string
           method_code: string
+          notes: string | null
           outcome_code: string
+          recorded_by: string | null
           site_visit_id: string
           updated_at: string
           worker_id: string
@@ -1174,7 +1489,9 @@ export type Database = {
           created_at?: string
           id?: string
           method_code: string
+          notes?: string | null
           outcome_code: string
+          recorded_by?: string | null
           site_visit_id: string
           updated_at?: string
           worker_id: string
@@ -1184,12 +1501,21 @@ export type Database = {
           created_at?: string
           id?: string
           method_code?: string
+          notes?: string | null
           outcome_code?: string
+          recorded_by?: string | null
           site_visit_id?: string
           updated_at?: string
           worker_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "dd_conversion_attempt_worker_id_fkey"
+            columns: ["worker_id"]
+            isOneToOne: false
+            referencedRelation: "workers"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "dd_conversion_attempt_site_visit_id_fkey"
             columns: ["site_visit_id"]
@@ -1248,6 +1574,7 @@ export type Database = {
       delegate_field_permissions: {
         Row: {
           can_edit: boolean
+          can_view: boolean
           created_at: string
           entity_field_id: string
           id: string
@@ -1256,6 +1583,7 @@ export type Database = {
         }
         Insert: {
           can_edit?: boolean
+          can_view?: boolean
           created_at?: string
           entity_field_id: string
           id?: string
@@ -1264,6 +1592,7 @@ export type Database = {
         }
         Update: {
           can_edit?: boolean
+          can_view?: boolean
           created_at?: string
           entity_field_id?: string
           id?: string
@@ -1390,6 +1719,64 @@ export type Database = {
           },
         ]
       }
+      eba_change_events: {
+        Row: {
+          change_type: string
+          current: Json | null
+          detected_at: string
+          eba_record_id: string | null
+          employer_id: string
+          fingerprint: string
+          id: string
+          job_id: string | null
+          previous: Json | null
+        }
+        Insert: {
+          change_type: string
+          current?: Json | null
+          detected_at?: string
+          eba_record_id?: string | null
+          employer_id: string
+          fingerprint: string
+          id?: string
+          job_id?: string | null
+          previous?: Json | null
+        }
+        Update: {
+          change_type?: string
+          current?: Json | null
+          detected_at?: string
+          eba_record_id?: string | null
+          employer_id?: string
+          fingerprint?: string
+          id?: string
+          job_id?: string | null
+          previous?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "eba_change_events_eba_record_id_fkey"
+            columns: ["eba_record_id"]
+            isOneToOne: false
+            referencedRelation: "company_eba_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "eba_change_events_employer_id_fkey"
+            columns: ["employer_id"]
+            isOneToOne: false
+            referencedRelation: "employers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "eba_change_events_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "scraper_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       employer_aliases: {
         Row: {
           alias: string
@@ -1984,6 +2371,10 @@ export type Database = {
       employers: {
         Row: {
           abn: string | null
+          abn_checked_at: string | null
+          abn_gst_registered: boolean | null
+          abn_legal_name: string | null
+          abn_status: string | null
           address_line_1: string | null
           address_line_2: string | null
           approval_status: string | null
@@ -2022,6 +2413,10 @@ export type Database = {
         }
         Insert: {
           abn?: string | null
+          abn_checked_at?: string | null
+          abn_gst_registered?: boolean | null
+          abn_legal_name?: string | null
+          abn_status?: string | null
           address_line_1?: string | null
           address_line_2?: string | null
           approval_status?: string | null
@@ -2054,6 +2449,10 @@ export type Database = {
         }
         Update: {
           abn?: string | null
+          abn_checked_at?: string | null
+          abn_gst_registered?: boolean | null
+          abn_legal_name?: string | null
+          abn_status?: string | null
           address_line_1?: string | null
           address_line_2?: string | null
           approval_status?: string | null
@@ -2390,9 +2789,12 @@ export type Database = {
         Row: {
           category: string
           content: string
+          content_hash: string | null
           created_at: string | null
           doc_id: string
           embedding: string | null
+          embedded_at: string | null
+          embedding_model: string | null
           id: string
           keywords: string[] | null
           pages: string[] | null
@@ -2406,9 +2808,12 @@ export type Database = {
         Insert: {
           category: string
           content: string
+          content_hash?: string | null
           created_at?: string | null
           doc_id: string
           embedding?: string | null
+          embedded_at?: string | null
+          embedding_model?: string | null
           id?: string
           keywords?: string[] | null
           pages?: string[] | null
@@ -2422,9 +2827,12 @@ export type Database = {
         Update: {
           category?: string
           content?: string
+          content_hash?: string | null
           created_at?: string | null
           doc_id?: string
           embedding?: string | null
+          embedded_at?: string | null
+          embedding_model?: string | null
           id?: string
           keywords?: string[] | null
           pages?: string[] | null
@@ -2451,6 +2859,7 @@ export type Database = {
           response_time_ms: number | null
           sources: Json | null
           tokens_used: number | null
+          tool_calls: Json
           user_id: string | null
         }
         Insert: {
@@ -2466,6 +2875,7 @@ export type Database = {
           response_time_ms?: number | null
           sources?: Json | null
           tokens_used?: number | null
+          tool_calls?: Json
           user_id?: string | null
         }
         Update: {
@@ -2481,6 +2891,7 @@ export type Database = {
           response_time_ms?: number | null
           sources?: Json | null
           tokens_used?: number | null
+          tool_calls?: Json
           user_id?: string | null
         }
         Relationships: [
@@ -2694,39 +3105,45 @@ export type Database = {
         Row: {
           campaign_id: string
           created_at: string
-          created_by: string
+          created_by: string | null
           employer_id: string | null
           id: string
           job_site_id: string | null
           kpi_id: string
           occurred_at: string
           organiser_id: string | null
+          source_id: string | null
+          source_type: string | null
           value: number
           worker_id: string | null
         }
         Insert: {
           campaign_id: string
           created_at?: string
-          created_by: string
+          created_by?: string | null
           employer_id?: string | null
           id?: string
           job_site_id?: string | null
           kpi_id: string
           occurred_at?: string
           organiser_id?: string | null
+          source_id?: string | null
+          source_type?: string | null
           value?: number
           worker_id?: string | null
         }
         Update: {
           campaign_id?: string
           created_at?: string
-          created_by?: string
+          created_by?: string | null
           employer_id?: string | null
           id?: string
           job_site_id?: string | null
           kpi_id?: string
           occurred_at?: string
           organiser_id?: string | null
+          source_id?: string | null
+          source_type?: string | null
           value?: number
           worker_id?: string | null
         }
@@ -2848,6 +3265,7 @@ export type Database = {
           job_site_id: string | null
           kpi_id: string
           organiser_id: string | null
+          patch_id: string | null
           target_value: number
         }
         Insert: {
@@ -2859,6 +3277,7 @@ export type Database = {
           job_site_id?: string | null
           kpi_id: string
           organiser_id?: string | null
+          patch_id?: string | null
           target_value: number
         }
         Update: {
@@ -2870,6 +3289,7 @@ export type Database = {
           job_site_id?: string | null
           kpi_id?: string
           organiser_id?: string | null
+          patch_id?: string | null
           target_value?: number
         }
         Relationships: [
@@ -2922,6 +3342,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "kpi_targets_patch_id_fkey"
+            columns: ["patch_id"]
+            isOneToOne: false
+            referencedRelation: "patches"
+            referencedColumns: ["id"]
+          },
         ]
       }
       lead_draft_organiser_links: {
@@ -3478,56 +3905,284 @@ export type Database = {
           },
         ]
       }
-      organiser_allocations: {
+      metrics_alerts: {
         Row: {
-          allocated_by: string | null
-          created_at: string
-          end_date: string | null
-          entity_id: string
-          entity_type: string
+          acknowledged: boolean | null
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          actual_value: Json | null
+          alert_type: string
+          component: string
           id: string
-          is_active: boolean
-          notes: string | null
-          organiser_id: string
-          start_date: string
-          updated_at: string
+          message: string
+          metric_name: string | null
+          resolved: boolean | null
+          resolved_at: string | null
+          severity: string
+          threshold_value: Json | null
+          triggered_at: string | null
         }
         Insert: {
-          allocated_by?: string | null
-          created_at?: string
-          end_date?: string | null
-          entity_id: string
-          entity_type: string
+          acknowledged?: boolean | null
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          actual_value?: Json | null
+          alert_type: string
+          component: string
           id?: string
-          is_active?: boolean
-          notes?: string | null
-          organiser_id: string
-          start_date?: string
-          updated_at?: string
+          message: string
+          metric_name?: string | null
+          resolved?: boolean | null
+          resolved_at?: string | null
+          severity: string
+          threshold_value?: Json | null
+          triggered_at?: string | null
         }
         Update: {
-          allocated_by?: string | null
-          created_at?: string
-          end_date?: string | null
-          entity_id?: string
-          entity_type?: string
+          acknowledged?: boolean | null
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          actual_value?: Json | null
+          alert_type?: string
+          component?: string
           id?: string
-          is_active?: boolean
-          notes?: string | null
-          organiser_id?: string
-          start_date?: string
-          updated_at?: string
+          message?: string
+          metric_name?: string | null
+          resolved?: boolean | null
+          resolved_at?: string | null
+          severity?: string
+          threshold_value?: Json | null
+          triggered_at?: string | null
         }
-        Relationships: [
-          {
-            foreignKeyName: "organiser_allocations_allocated_by_fkey"
-            columns: ["allocated_by"]
-            isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "organiser_allocations_organiser_id_fkey"
+        Relationships: []
+      }
+      migration_audit_log: {
+        Row: {
+          action: string
+          actor: string
+          id: string
+          new_values: Json | null
+          object_id: string
+          object_type: string
+          old_values: Json | null
+          pipeline_id: string
+          timestamp: string | null
+        }
+        Insert: {
+          action: string
+          actor: string
+          id?: string
+          new_values?: Json | null
+          object_id: string
+          object_type: string
+          old_values?: Json | null
+          pipeline_id: string
+          timestamp?: string | null
+        }
+        Update: {
+          action?: string
+          actor?: string
+          id?: string
+          new_values?: Json | null
+          object_id?: string
+          object_type?: string
+          old_values?: Json | null
+          pipeline_id?: string
+          timestamp?: string | null
+        }
+        Relationships: []
+      }
+      migration_discovery_results: {
+        Row: {
+          actual_records: number | null
+          discovery_date: string | null
+          estimated_records: number | null
+          id: string
+          phase_id: string
+          pipeline_id: string
+          table_name: string
+        }
+        Insert: {
+          actual_records?: number | null
+          discovery_date?: string | null
+          estimated_records?: number | null
+          id?: string
+          phase_id: string
+          pipeline_id: string
+          table_name: string
+        }
+        Update: {
+          actual_records?: number | null
+          discovery_date?: string | null
+          estimated_records?: number | null
+          id?: string
+          phase_id?: string
+          pipeline_id?: string
+          table_name?: string
+        }
+        Relationships: []
+      }
+      migration_pipelines: {
+        Row: {
+          completed_at: string | null
+          current_phase: number | null
+          description: string | null
+          error_count: number | null
+          id: string
+          name: string
+          phases: Json
+          processed_records: number | null
+          rollback_available: boolean | null
+          started_at: string | null
+          status: string
+          total_records: number | null
+        }
+        Insert: {
+          completed_at?: string | null
+          current_phase?: number | null
+          description?: string | null
+          error_count?: number | null
+          id?: string
+          name: string
+          phases: Json
+          processed_records?: number | null
+          rollback_available?: boolean | null
+          started_at?: string | null
+          status: string
+          total_records?: number | null
+        }
+        Update: {
+          completed_at?: string | null
+          current_phase?: number | null
+          description?: string | null
+          error_count?: number | null
+          id?: string
+          name?: string
+          phases?: Json
+          processed_records?: number | null
+          rollback_available?: boolean | null
+          started_at?: string | null
+          status?: string
+          total_records?: number | null
+        }
+        Relationships: []
+      }
+      migration_transformed_data: {
+        Row: {
+          id: string
+          phase_id: string
+          pipeline_id: string
+          source_record_id: string
+          source_table: string
+          transformed_at: string | null
+          transformed_data: Json
+        }
+        Insert: {
+          id?: string
+          phase_id: string
+          pipeline_id: string
+          source_record_id: string
+          source_table: string
+          transformed_at?: string | null
+          transformed_data: Json
+        }
+        Update: {
+          id?: string
+          phase_id?: string
+          pipeline_id?: string
+          source_record_id?: string
+          source_table?: string
+          transformed_at?: string | null
+          transformed_data?: Json
+        }
+        Relationships: []
+      }
+      migration_validation_reports: {
+        Row: {
+          id: string
+          invalid_records: number | null
+          phase_id: string
+          pipeline_id: string
+          table_name: string
+          total_records: number | null
+          valid_records: number | null
+          validated_at: string | null
+          validation_details: Json | null
+        }
+        Insert: {
+          id?: string
+          invalid_records?: number | null
+          phase_id: string
+          pipeline_id: string
+          table_name: string
+          total_records?: number | null
+          valid_records?: number | null
+          validated_at?: string | null
+          validation_details?: Json | null
+        }
+        Update: {
+          id?: string
+          invalid_records?: number | null
+          phase_id?: string
+          pipeline_id?: string
+          table_name?: string
+          total_records?: number | null
+          valid_records?: number | null
+          validated_at?: string | null
+          validation_details?: Json | null
+        }
+        Relationships: []
+      }
+      organiser_allocations: {
+        Row: {
+          allocated_by: string | null
+          created_at: string
+          end_date: string | null
+          entity_id: string
+          entity_type: string
+          id: string
+          is_active: boolean
+          notes: string | null
+          organiser_id: string
+          start_date: string
+          updated_at: string
+        }
+        Insert: {
+          allocated_by?: string | null
+          created_at?: string
+          end_date?: string | null
+          entity_id: string
+          entity_type: string
+          id?: string
+          is_active?: boolean
+          notes?: string | null
+          organiser_id: string
+          start_date?: string
+          updated_at?: string
+        }
+        Update: {
+          allocated_by?: string | null
+          created_at?: string
+          end_date?: string | null
+          entity_id?: string
+          entity_type?: string
+          id?: string
+          is_active?: boolean
+          notes?: string | null
+          organiser_id?: string
+          start_date?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organiser_allocations_allocated_by_fkey"
+            columns: ["allocated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organiser_allocations_organiser_id_fkey"
             columns: ["organiser_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -4169,6 +4824,48 @@ export type Database = {
           },
         ]
       }
+      performance_metrics: {
+        Row: {
+          cpu_usage: number | null
+          dimensions: Json | null
+          error_rate: number | null
+          execution_time: number
+          id: string
+          memory_usage: number | null
+          operation: string
+          recorded_at: string | null
+          records_processed: number | null
+          throughput: number | null
+          timestamp: string
+        }
+        Insert: {
+          cpu_usage?: number | null
+          dimensions?: Json | null
+          error_rate?: number | null
+          execution_time: number
+          id?: string
+          memory_usage?: number | null
+          operation: string
+          recorded_at?: string | null
+          records_processed?: number | null
+          throughput?: number | null
+          timestamp: string
+        }
+        Update: {
+          cpu_usage?: number | null
+          dimensions?: Json | null
+          error_rate?: number | null
+          execution_time?: number
+          id?: string
+          memory_usage?: number | null
+          operation?: string
+          recorded_at?: string | null
+          records_processed?: number | null
+          throughput?: number | null
+          timestamp?: string
+        }
+        Relationships: []
+      }
       permission_audit_log: {
         Row: {
           access_method: string | null
@@ -4220,6 +4917,9 @@ export type Database = {
         Row: {
           created_at: string | null
           email: string | null
+          email_digest_enabled: boolean
+          email_digest_frequency: string
+          email_digest_last_sent_at: string | null
           full_name: string | null
           id: string
           is_active: boolean
@@ -4234,6 +4934,9 @@ export type Database = {
         Insert: {
           created_at?: string | null
           email?: string | null
+          email_digest_enabled?: boolean
+          email_digest_frequency?: string
+          email_digest_last_sent_at?: string | null
           full_name?: string | null
           id: string
           is_active?: boolean
@@ -4248,6 +4951,9 @@ export type Database = {
         Update: {
           created_at?: string | null
           email?: string | null
+          email_digest_enabled?: boolean
+          email_digest_frequency?: string
+          email_digest_last_sent_at?: string | null
           full_name?: string | null
           id?: string
           is_active?: boolean
@@ -5359,6 +6065,7 @@ export type Database = {
           proposed_start_date: string | null
           rejection_reason: string | null
           roe_email: string | null
+          row_version: number
           stage_class: Database["public"]["Enums"]["project_stage_class"]
           state_funding: number
           tier: string | null
@@ -5393,6 +6100,7 @@ export type Database = {
           proposed_start_date?: string | null
           rejection_reason?: string | null
           roe_email?: string | null
+          row_version?: number
           stage_class?: Database["public"]["Enums"]["project_stage_class"]
           state_funding?: number
           tier?: string | null
@@ -5427,6 +6135,7 @@ export type Database = {
           proposed_start_date?: string | null
           rejection_reason?: string | null
           roe_email?: string | null
+          row_version?: number
           stage_class?: Database["public"]["Enums"]["project_stage_class"]
           state_funding?: number
           tier?: string | null
@@ -5477,57 +6186,330 @@ export type Database = {
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "fk_projects_main_job_site"
-            columns: ["main_job_site_id"]
+            foreignKeyName: "fk_projects_main_job_site"
+            columns: ["main_job_site_id"]
+            isOneToOne: false
+            referencedRelation: "patch_project_mapping_view"
+            referencedColumns: ["job_site_id"]
+          },
+          {
+            foreignKeyName: "fk_projects_main_job_site"
+            columns: ["main_job_site_id"]
+            isOneToOne: false
+            referencedRelation: "site_visit_list_view"
+            referencedColumns: ["job_site_id"]
+          },
+        ]
+      }
+      projects_organising_universe_backup: {
+        Row: {
+          created_at: string | null
+          id: string | null
+          name: string | null
+          organising_universe:
+            | Database["public"]["Enums"]["project_organising_universe"]
+            | null
+          tier: string | null
+          updated_at: string | null
+          value: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string | null
+          name?: string | null
+          organising_universe?:
+            | Database["public"]["Enums"]["project_organising_universe"]
+            | null
+          tier?: string | null
+          updated_at?: string | null
+          value?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string | null
+          name?: string | null
+          organising_universe?:
+            | Database["public"]["Enums"]["project_organising_universe"]
+            | null
+          tier?: string | null
+          updated_at?: string | null
+          value?: number | null
+        }
+        Relationships: []
+      }
+      rating_alert_recipients: {
+        Row: {
+          acknowledged_at: string | null
+          alert_id: string
+          created_at: string
+          digest: boolean
+          in_app: boolean
+          snoozed_until: string | null
+          user_id: string
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          alert_id: string
+          created_at?: string
+          digest?: boolean
+          in_app?: boolean
+          snoozed_until?: string | null
+          user_id: string
+        }
+        Update: {
+          acknowledged_at?: string | null
+          alert_id?: string
+          created_at?: string
+          digest?: boolean
+          in_app?: boolean
+          snoozed_until?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rating_alert_recipients_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "rating_alerts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rating_alert_recipients_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rating_alert_rules: {
+        Row: {
+          alert_level: string
+          created_at: string
+          created_by: string | null
+          description: string | null
+          enabled: boolean
+          id: string
+          name: string
+          parameters: Json
+          rule_type: string
+          updated_at: string
+        }
+        Insert: {
+          alert_level?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          enabled?: boolean
+          id?: string
+          name: string
+          parameters?: Json
+          rule_type: string
+          updated_at?: string
+        }
+        Update: {
+          alert_level?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          enabled?: boolean
+          id?: string
+          name?: string
+          parameters?: Json
+          rule_type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rating_alert_rules_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rating_alert_subscriptions: {
+        Row: {
+          created_at: string
+          digest: boolean
+          employer_id: string | null
+          id: string
+          in_app: boolean
+          patch_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          digest?: boolean
+          employer_id?: string | null
+          id?: string
+          in_app?: boolean
+          patch_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          digest?: boolean
+          employer_id?: string | null
+          id?: string
+          in_app?: boolean
+          patch_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rating_alert_subscriptions_employer_id_fkey"
+            columns: ["employer_id"]
+            isOneToOne: false
+            referencedRelation: "employers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rating_alert_subscriptions_patch_id_fkey"
+            columns: ["patch_id"]
+            isOneToOne: false
+            referencedRelation: "patches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rating_alert_subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rating_alerts: {
+        Row: {
+          acknowledged_by: Json | null
+          alert_level: string
+          alert_message: string
+          alert_rule_id: string | null
+          alert_title: string
+          alert_type: string
+          created_at: string
+          created_by: string | null
+          delivery_status: string | null
+          employer_id: string
+          final_rating_id: string | null
+          id: string
+          is_active: boolean | null
+          notification_channels: Json | null
+          recipients: Json | null
+          resolution_details: string | null
+          resolved: boolean | null
+          resolved_at: string | null
+          resolved_by: string | null
+          response_deadline: string | null
+          response_required: boolean | null
+          responses_received: Json | null
+          sent_notifications: Json | null
+          threshold_values: Json | null
+          trigger_condition: Json | null
+          updated_at: string
+          updated_by: string | null
+          viewed_by: Json | null
+        }
+        Insert: {
+          acknowledged_by?: Json | null
+          alert_level: string
+          alert_message: string
+          alert_rule_id?: string | null
+          alert_title: string
+          alert_type: string
+          created_at?: string
+          created_by?: string | null
+          delivery_status?: string | null
+          employer_id: string
+          final_rating_id?: string | null
+          id?: string
+          is_active?: boolean | null
+          notification_channels?: Json | null
+          recipients?: Json | null
+          resolution_details?: string | null
+          resolved?: boolean | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          response_deadline?: string | null
+          response_required?: boolean | null
+          responses_received?: Json | null
+          sent_notifications?: Json | null
+          threshold_values?: Json | null
+          trigger_condition?: Json | null
+          updated_at?: string
+          updated_by?: string | null
+          viewed_by?: Json | null
+        }
+        Update: {
+          acknowledged_by?: Json | null
+          alert_level?: string
+          alert_message?: string
+          alert_rule_id?: string | null
+          alert_title?: string
+          alert_type?: string
+          created_at?: string
+          created_by?: string | null
+          delivery_status?: string | null
+          employer_id?: string
+          final_rating_id?: string | null
+          id?: string
+          is_active?: boolean | null
+          notification_channels?: Json | null
+          recipients?: Json | null
+          resolution_details?: string | null
+          resolved?: boolean | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          response_deadline?: string | null
+          response_required?: boolean | null
+          responses_received?: Json | null
+          sent_notifications?: Json | null
+          threshold_values?: Json | null
+          trigger_condition?: Json | null
+          updated_at?: string
+          updated_by?: string | null
+          viewed_by?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rating_alerts_alert_rule_id_fkey"
+            columns: ["alert_rule_id"]
+            isOneToOne: false
+            referencedRelation: "rating_alert_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rating_alerts_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rating_alerts_employer_id_fkey"
+            columns: ["employer_id"]
+            isOneToOne: false
+            referencedRelation: "employers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rating_alerts_resolved_by_fkey"
+            columns: ["resolved_by"]
             isOneToOne: false
-            referencedRelation: "patch_project_mapping_view"
-            referencedColumns: ["job_site_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "fk_projects_main_job_site"
-            columns: ["main_job_site_id"]
+            foreignKeyName: "rating_alerts_updated_by_fkey"
+            columns: ["updated_by"]
             isOneToOne: false
-            referencedRelation: "site_visit_list_view"
-            referencedColumns: ["job_site_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
           },
         ]
       }
-      projects_organising_universe_backup: {
-        Row: {
-          created_at: string | null
-          id: string | null
-          name: string | null
-          organising_universe:
-            | Database["public"]["Enums"]["project_organising_universe"]
-            | null
-          tier: string | null
-          updated_at: string | null
-          value: number | null
-        }
-        Insert: {
-          created_at?: string | null
-          id?: string | null
-          name?: string | null
-          organising_universe?:
-            | Database["public"]["Enums"]["project_organising_universe"]
-            | null
-          tier?: string | null
-          updated_at?: string | null
-          value?: number | null
-        }
-        Update: {
-          created_at?: string | null
-          id?: string | null
-          name?: string | null
-          organising_universe?:
-            | Database["public"]["Enums"]["project_organising_universe"]
-            | null
-          tier?: string | null
-          updated_at?: string | null
-          value?: number | null
-        }
-        Relationships: []
-      }
       role_hierarchy: {
         Row: {
           assigned_by: string | null
@@ -5624,6 +6606,7 @@ export type Database = {
           completed_at: string | null
           created_at: string
           created_by: string | null
+          depends_on: string[] | null
           id: string
           job_type: Database["public"]["Enums"]["scraper_job_type"]
           last_error: string | null
@@ -5643,6 +6626,7 @@ export type Database = {
           completed_at?: string | null
           created_at?: string
           created_by?: string | null
+          depends_on?: string[] | null
           id?: string
           job_type: Database["public"]["Enums"]["scraper_job_type"]
           last_error?: string | null
@@ -5662,6 +6646,7 @@ export type Database = {
           completed_at?: string | null
           created_at?: string
           created_by?: string | null
+          depends_on?: string[] | null
           id?: string
           job_type?: Database["public"]["Enums"]["scraper_job_type"]
           last_error?: string | null
@@ -6066,6 +7051,132 @@ export type Database = {
         }
         Relationships: []
       }
+      sync_errors: {
+        Row: {
+          error_details: Json | null
+          error_id: string
+          error_message: string
+          error_timestamp: string | null
+          id: string
+          operation: string
+          record_id: string
+          resolved: boolean | null
+          resolved_at: string | null
+          table_name: string
+        }
+        Insert: {
+          error_details?: Json | null
+          error_id: string
+          error_message: string
+          error_timestamp?: string | null
+          id?: string
+          operation: string
+          record_id: string
+          resolved?: boolean | null
+          resolved_at?: string | null
+          table_name: string
+        }
+        Update: {
+          error_details?: Json | null
+          error_id?: string
+          error_message?: string
+          error_timestamp?: string | null
+          id?: string
+          operation?: string
+          record_id?: string
+          resolved?: boolean | null
+          resolved_at?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
+      sync_events: {
+        Row: {
+          changed_fields: string[] | null
+          error: string | null
+          event_id: string
+          event_timestamp: string | null
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          operation: string
+          processed: boolean | null
+          processed_at: string | null
+          record_id: string
+          table_name: string
+        }
+        Insert: {
+          changed_fields?: string[] | null
+          error?: string | null
+          event_id: string
+          event_timestamp?: string | null
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          operation: string
+          processed?: boolean | null
+          processed_at?: string | null
+          record_id: string
+          table_name: string
+        }
+        Update: {
+          changed_fields?: string[] | null
+          error?: string | null
+          event_id?: string
+          event_timestamp?: string | null
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          operation?: string
+          processed?: boolean | null
+          processed_at?: string | null
+          record_id?: string
+          table_name?: string
+        }
+        Relationships: []
+      }
+      sync_metrics: {
+        Row: {
+          average_processing_time: number | null
+          conflict_count: number | null
+          data_quality_score: number | null
+          failed_syncs: number | null
+          id: string
+          recorded_at: string | null
+          resolution_time: number | null
+          source_table: string
+          successful_syncs: number | null
+          sync_date: string
+          total_records: number | null
+        }
+        Insert: {
+          average_processing_time?: number | null
+          conflict_count?: number | null
+          data_quality_score?: number | null
+          failed_syncs?: number | null
+          id?: string
+          recorded_at?: string | null
+          resolution_time?: number | null
+          source_table: string
+          successful_syncs?: number | null
+          sync_date: string
+          total_records?: number | null
+        }
+        Update: {
+          average_processing_time?: number | null
+          conflict_count?: number | null
+          data_quality_score?: number | null
+          failed_syncs?: number | null
+          id?: string
+          recorded_at?: string | null
+          resolution_time?: number | null
+          source_table?: string
+          successful_syncs?: number | null
+          sync_date?: string
+          total_records?: number | null
+        }
+        Relationships: []
+      }
       trade_types: {
         Row: {
           category: string
@@ -6102,38 +7213,117 @@ export type Database = {
         }
         Relationships: []
       }
+      training_courses: {
+        Row: {
+          code: string
+          created_at: string
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          provider: string | null
+          refresher_course_id: string | null
+          required_for_roles: string[]
+          updated_at: string
+          validity_months: number | null
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          provider?: string | null
+          refresher_course_id?: string | null
+          required_for_roles?: string[]
+          updated_at?: string
+          validity_months?: number | null
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          provider?: string | null
+          refresher_course_id?: string | null
+          required_for_roles?: string[]
+          updated_at?: string
+          validity_months?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "training_courses_refresher_course_id_fkey"
+            columns: ["refresher_course_id"]
+            isOneToOne: false
+            referencedRelation: "training_courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       training_participation: {
         Row: {
+          course_id: string | null
           created_at: string | null
           date: string
           id: string
           location: string | null
+          notes: string | null
+          recorded_by: string | null
+          refresher_due_on: string | null
           status: Database["public"]["Enums"]["training_status"] | null
           training_type: string
+          union_role_id: string | null
           updated_at: string | null
           worker_id: string | null
         }
         Insert: {
+          course_id?: string | null
           created_at?: string | null
           date: string
           id?: string
           location?: string | null
+          notes?: string | null
+          recorded_by?: string | null
+          refresher_due_on?: string | null
           status?: Database["public"]["Enums"]["training_status"] | null
           training_type: string
+          union_role_id?: string | null
           updated_at?: string | null
           worker_id?: string | null
         }
         Update: {
+          course_id?: string | null
           created_at?: string | null
           date?: string
           id?: string
           location?: string | null
+          notes?: string | null
+          recorded_by?: string | null
+          refresher_due_on?: string | null
           status?: Database["public"]["Enums"]["training_status"] | null
           training_type?: string
+          union_role_id?: string | null
           updated_at?: string | null
           worker_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "training_participation_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "training_courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "training_participation_union_role_id_fkey"
+            columns: ["union_role_id"]
+            isOneToOne: false
+            referencedRelation: "union_roles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "training_participation_worker_id_fkey"
             columns: ["worker_id"]
@@ -6633,33 +7823,116 @@ export type Database = {
       }
       whs_breach: {
         Row: {
+          category: string
+          client_generated_id: string | null
+          closed_at: string | null
           created_at: string
+          employer_id: string | null
           id: string
+          identified_at: string
+          job_site_id: string | null
           notes: string | null
-          rating_code: string
+          notified_at: string | null
+          photo_paths: string[]
+          project_id: string | null
+          rating_code: string | null
+          rectified_at: string | null
+          reported_by: string | null
+          resolved_at: string | null
+          safework_notice_ref: string | null
+          severity: string
+          site_visit_id: string | null
+          status: string
           title: string
           updated_at: string
-          whs_assessment_id: string
+          whs_assessment_id: string | null
         }
         Insert: {
+          category?: string
+          client_generated_id?: string | null
+          closed_at?: string | null
           created_at?: string
+          employer_id?: string | null
           id?: string
+          identified_at?: string
+          job_site_id?: string | null
           notes?: string | null
-          rating_code: string
+          notified_at?: string | null
+          photo_paths?: string[]
+          project_id?: string | null
+          rating_code?: string | null
+          rectified_at?: string | null
+          reported_by?: string | null
+          resolved_at?: string | null
+          safework_notice_ref?: string | null
+          severity?: string
+          site_visit_id?: string | null
+          status?: string
           title: string
           updated_at?: string
-          whs_assessment_id: string
+          whs_assessment_id?: string | null
         }
         Update: {
+          category?: string
+          client_generated_id?: string | null
+          closed_at?: string | null
           created_at?: string
+          employer_id?: string | null
           id?: string
+          identified_at?: string
+          job_site_id?: string | null
           notes?: string | null
-          rating_code?: string
+          notified_at?: string | null
+          photo_paths?: string[]
+          project_id?: string | null
+          rating_code?: string | null
+          rectified_at?: string | null
+          reported_by?: string | null
+          resolved_at?: string | null
+          safework_notice_ref?: string | null
+          severity?: string
+          site_visit_id?: string | null
+          status?: string
           title?: string
           updated_at?: string
-          whs_assessment_id?: string
+          whs_assessment_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "whs_breach_employer_id_fkey"
+            columns: ["employer_id"]
+            isOneToOne: false
+            referencedRelation: "employers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "whs_breach_job_site_id_fkey"
+            columns: ["job_site_id"]
+            isOneToOne: false
+            referencedRelation: "job_sites"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "whs_breach_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "whs_breach_reported_by_fkey"
+            columns: ["reported_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "whs_breach_site_visit_id_fkey"
+            columns: ["site_visit_id"]
+            isOneToOne: false
+            referencedRelation: "site_visit"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "whs_breach_whs_assessment_id_fkey"
             columns: ["whs_assessment_id"]
@@ -8224,6 +9497,21 @@ export type Database = {
           },
         ]
       }
+      v_campaign_kpi_sources: {
+        Row: {
+          created_by: string | null
+          employer_id: string | null
+          job_site_id: string | null
+          kpi_code: string | null
+          occurred_at: string | null
+          organiser_id: string | null
+          project_id: string | null
+          source_id: string | null
+          source_type: string | null
+          worker_id: string | null
+        }
+        Relationships: []
+      }
       v_contractor_categories_catalog: {
         Row: {
           category_code: string | null
@@ -8234,6 +9522,23 @@ export type Database = {
         }
         Relationships: []
       }
+      v_dd_conversion_attempts: {
+        Row: {
+          campaign_ids: string[] | null
+          created_at: string | null
+          id: string | null
+          job_site_id: string | null
+          method_code: string | null
+          organiser_id: string | null
+          outcome_code: string | null
+          patch_ids: string[] | null
+          project_id: string | null
+          site_visit_id: string | null
+          visit_date: string | null
+          worker_id: string | null
+        }
+        Relationships: []
+      }
       v_eba_active_employer_categories: {
         Row: {
           category_code: string | null
@@ -8862,6 +10167,27 @@ export type Database = {
         }
         Relationships: []
       }
+      v_worker_training_status: {
+        Row: {
+          course_code: string | null
+          course_id: string | null
+          course_name: string | null
+          due_on: string | null
+          first_name: string | null
+          job_site_id: string | null
+          job_site_name: string | null
+          last_completed_course_id: string | null
+          last_completed_on: string | null
+          project_id: string | null
+          project_name: string | null
+          status: string | null
+          surname: string | null
+          union_role: string | null
+          union_role_id: string | null
+          worker_id: string | null
+        }
+        Relationships: []
+      }
       worker_list_view: {
         Row: {
           computed_at: string | null
@@ -9559,6 +10885,19 @@ export type Database = {
         Args: { geom1: unknown; geom2: unknown }
         Returns: boolean
       }
+      evaluate_expired_rating_alerts: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      find_employers_sharing_abn: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          abn: string
+          abn_valid: boolean
+          employer_count: number
+          employers: Json
+        }[]
+      }
       find_nearby_projects: {
         Args: {
           max_distance_km?: number
@@ -9834,6 +11173,10 @@ export type Database = {
         Args: { _key: string }
         Returns: string
       }
+      get_data_integration_schema_snapshot: {
+        Args: { p_functions: string[]; p_tables: string[]; p_triggers: string[] }
+        Returns: Json
+      }
       get_eba_category: {
         Args: { eba_record: Json }
         Returns: string
@@ -9867,6 +11210,15 @@ export type Database = {
         Args: { p_employer_id: string }
         Returns: number
       }
+      get_field_permissions: {
+        Args: { p_entity_types: string[]; p_public_form?: boolean }
+        Returns: {
+          can_edit: boolean
+          can_view: boolean
+          entity_type: string
+          field_name: string
+        }[]
+      }
       get_patch_summaries_for_user: {
         Args: {
           p_filters?: Json
@@ -9988,6 +11340,10 @@ export type Database = {
         Args: { p_project_id: string; p_token: string }
         Returns: Json
       }
+      get_rating_alert_digest: {
+        Args: { p_limit?: number; p_since: string; p_user_id: string }
+        Returns: Json
+      }
       get_site_manager_phone: {
         Args: { site_id: string }
         Returns: string
@@ -10119,6 +11475,10 @@ export type Database = {
         Args: { _child: string; _parent: string }
         Returns: boolean
       }
+      is_valid_abn: {
+        Args: { p_abn: string }
+        Returns: boolean
+      }
       ivfflat_bit_support: {
         Args: { "": unknown }
         Returns: unknown
@@ -10161,10 +11521,21 @@ export type Database = {
           p_response_time_ms: number
           p_sources: Json
           p_tokens_used: number
+          p_tool_calls?: Json
           p_user_id: string
         }
         Returns: Json
       }
+      log_sync_event: {
+        Args: {
+          p_new_data: Json
+          p_old_data: Json
+          p_operation: string
+          p_record_id: string
+          p_table_name: string
+        }
+        Returns: undefined
+      }
       longtransactionsenabled: {
         Args: Record<PropertyKey, never>
         Returns: boolean
@@ -10490,10 +11861,22 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      preview_data_quality_rule: {
+        Args: { p_parameters: Json; p_sample_size: number; p_table: string }
+        Returns: Json
+      }
       project_has_pending_scan: {
         Args: { p_project_id: string }
         Returns: boolean
       }
+      record_campaign_kpi_events: {
+        Args: {
+          p_campaign_id?: string
+          p_source_id?: string
+          p_source_type?: string
+        }
+        Returns: number
+      }
       refresh_all_materialized_views: {
         Args: Record<PropertyKey, never>
         Returns: undefined
@@ -10579,6 +11962,10 @@ export type Database = {
         Args: { p_applied_by?: string; p_confirm_rollback?: boolean }
         Returns: Json
       }
+      run_data_quality_rule: {
+        Args: { p_rule_id: string }
+        Returns: Json
+      }
       search_all_projects: {
         Args: { search_query: string }
         Returns: {
@@ -10683,6 +12070,10 @@ export type Database = {
         Args: { p_feature_geometries_geojson: Json[]; p_patch_id: string }
         Returns: undefined
       }
+      set_sync_trigger_enabled: {
+        Args: { p_enabled: boolean; p_trigger_name: string }
+        Returns: undefined
+      }
       should_auto_update_organising_universe: {
         Args: { p_project_id: string }
         Returns: boolean
@@ -11977,6 +13368,7 @@ export type Database = {
         | "failed"
         | "cancelled"
         | "processing"
+        | "dead_letter"
       scraper_job_type: "fwc_lookup" | "incolink_sync" | "mapping_sheet_scan"
       shift_type: "day" | "night" | "split" | "weekend"
       site_contact_role:
@@ -12254,6 +13646,7 @@ export const Constants = {
         "failed",
         "cancelled",
         "processing",
+        "dead_letter",
       ],
       scraper_job_type: ["fwc_lookup", "incolink_sync", "mapping_sheet_scan"],
       shift_type: ["day", "night", "split", "weekend"],
@@ -1,3 +1,16 @@
+export type ScanAiProvider = 'claude' | 'openai'
+
+// Each provider's reading of a field the providers disagreed on (consensus extraction)
+export type ProviderValues = Partial<Record<ScanAiProvider, unknown>>
+
+export interface ExtractionDisputes {
+  // Keyed by project field name
+  project?: Record<string, ProviderValues>
+  // Keyed by index in site_contacts / subcontractors, then by field name
+  site_contacts?: Record<number, Record<string, ProviderValues>>
+  subcontractors?: Record<number, Record<string, ProviderValues>>
+}
+
 export interface ExtractedMappingSheetData {
   extraction_version: string
   pages_processed: number
@@ -36,6 +49,9 @@ export interface ExtractedMappingSheetData {
     project?: Record<string, number>
     site_contacts?: number[]
     subcontractors?: number[]
+    // Consensus extraction only
+    providers?: ScanAiProvider[]
+    disputes?: ExtractionDisputes
   }
   
   notes?: string[]
@@ -53,7 +69,7 @@ export interface MappingSheetScan {
   status: 'pending' | 'processing' | 'completed' | 'failed' | 'under_review' | 'confirmed' | 'rejected'
   extracted_data: ExtractedMappingSheetData | null
   confidence_scores: any
-  ai_provider: 'claude' | 'openai' | null
+  ai_provider: ScanAiProvider | 'consensus' | null
   extraction_attempted_at: string | null
   extraction_completed_at: string | null
   extraction_cost_usd: number | null
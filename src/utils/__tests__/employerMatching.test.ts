@@ -1,11 +1,20 @@
 import { matchEmployerAdvanced, getMatchingStatistics } from '../employerMatching';
 import { normalizeEmployerName } from '@/lib/employers/normalize';
 
+const mockAbnEq = jest.fn(() => ({
+  limit: jest.fn(() => ({
+    data: [{ id: '4', name: 'Zenith Formwork Pty Ltd' }],
+    error: null
+  }))
+}));
+
 // Mock supabase
 jest.mock('@/integrations/supabase/client', () => ({
   supabase: {
+    rpc: jest.fn(() => ({ data: [], error: null })),
     from: jest.fn(() => ({
       select: jest.fn(() => ({
+        eq: mockAbnEq,
         ilike: jest.fn(() => ({
           data: [
             { id: '1', name: 'ABC Construction Pty Ltd', address_line_1: '123 Main St', suburb: 'Sydney', state: 'NSW' },
@@ -71,6 +80,34 @@ describe('employerMatching', () => {
       expect(result.candidates.length).toBeGreaterThan(0);
     });
 
+    it('should rank an employer with the same ABN first', async () => {
+      const result = await matchEmployerAdvanced('ABC Construction', {
+        confidenceThreshold: 0.75,
+        allowFuzzyMatching: true,
+        requireUserConfirmation: false,
+        abn: '51 824 753 556'
+      });
+
+      expect(mockAbnEq).toHaveBeenCalledWith('abn', '51824753556');
+      expect(result.match?.id).toBe('4');
+      expect(result.match?.confidence).toBe('exact');
+      expect(result.candidates.map(candidate => candidate.id)).toContain('1');
+    });
+
+    it('should ignore an ABN that fails the checksum', async () => {
+      mockAbnEq.mockClear();
+
+      const result = await matchEmployerAdvanced('ABC Construction Pty Ltd', {
+        confidenceThreshold: 0.75,
+        allowFuzzyMatching: true,
+        requireUserConfirmation: false,
+        abn: '51 824 753 557'
+      });
+
+      expect(mockAbnEq).not.toHaveBeenCalled();
+      expect(result.match?.id).toBe('1');
+    });
+
     it('should handle empty or invalid input', async () => {
       const result = await matchEmployerAdvanced('', {
         confidenceThreshold: 0.75,
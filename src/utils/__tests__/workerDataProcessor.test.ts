@@ -1,4 +1,4 @@
-import { normalizeCompanyName } from '../workerDataProcessor'
+import { findBestEmployerMatch, normalizeCompanyName } from '../workerDataProcessor'
 
 describe('normalizeCompanyName', () => {
   it('uppercases and trims input', () => {
@@ -19,3 +19,18 @@ describe('normalizeCompanyName', () => {
 })
 
 
+
+describe('findBestEmployerMatch', () => {
+  const employers = [
+    { id: '1', name: 'Acme Constructions Pty Ltd', abn: null },
+    { id: '2', name: 'Zenith Formwork Pty Ltd', abn: '51824753556' }
+  ]
+
+  it('prefers an employer with the same ABN over a name match', () => {
+    expect(findBestEmployerMatch('Acme Constructions', employers, '51 824 753 556')?.id).toBe('2')
+  })
+
+  it('falls back to the name when the ABN is not valid', () => {
+    expect(findBestEmployerMatch('Acme Constructions', employers, '51 824 753 557')?.id).toBe('1')
+  })
+})
@@ -6,6 +6,7 @@ interface EbaContactDetails {
 
 export interface ProcessedEbaData {
   company_name: string;
+  abn?: string;
   eba_file_number?: string;
   sector?: string;
   contact_name?: string;
@@ -124,6 +125,7 @@ export function processEbaRow(row: Record<string, any>): ProcessedEbaData | null
   
   return {
     company_name: companyName.trim(),
+    abn: String(row['ABN'] || row['abn'] || '').trim() || undefined,
     eba_file_number: row['EBA File'] || row['eba_file'] || undefined,
     sector: row['Sector'] || row['sector'] || undefined,
     comments: row['COMMENTS'] || row['comments'] || undefined,
@@ -1,10 +1,13 @@
 import { supabase } from '@/integrations/supabase/client';
+import { isValidAbn, normalizeAbn } from '@/lib/employers/abn';
 import { normalizeEmployerName } from '@/lib/employers/normalize';
 
 export interface EmployerMatchingOptions {
   confidenceThreshold: number;
   allowFuzzyMatching: boolean;
   requireUserConfirmation: boolean;
+  /** ABN from the source record. An employer with the same ABN outranks every name match */
+  abn?: string | null;
 }
 
 export interface EmployerMatch {
@@ -134,10 +137,35 @@ export async function matchEmployerAdvanced(
   const normalizedQuery = normalizeCompanyName(companyName);
 
   try {
+    let abnMatches: any[] = [];
     let exactMatches: any[] = [];
     let aliasMatches: any[] = [];
     let fuzzyMatches: any[] = [];
 
+    // Step 0: Employers registered under the same ABN
+    if (options.abn && isValidAbn(options.abn)) {
+      const { data: abnEmployerMatches, error: abnError } = await supabase
+        .from('employers')
+        .select('id, name')
+        .eq('abn', normalizeAbn(options.abn) as string)
+        .limit(10);
+
+      if (abnError) {
+        console.warn('ABN match query failed:', abnError);
+      } else {
+        abnMatches = (abnEmployerMatches || []).map(match => ({
+          ...match,
+          match_type: 'abn' as const,
+          match_details: {
+            canonical_name: match.name,
+            matched_alias: null,
+            query: companyName,
+            external_id_match: null
+          }
+        }));
+      }
+    }
+
     // Step 1: Search for exact employer name matches
     const { data: exactEmployerMatches, error: exactError } = await supabase
       .rpc('search_employers_by_exact_name', { name_query: companyName.trim() });
@@ -226,8 +254,8 @@ export async function matchEmployerAdvanced(
       }
     }
 
-    // Step 4: Combine and deduplicate results, prioritizing exact > alias > fuzzy
-    const allMatches = [...exactMatches, ...aliasMatches, ...fuzzyMatches];
+    // Step 4: Combine and deduplicate results, prioritizing abn > exact > alias > fuzzy
+    const allMatches = [...abnMatches, ...exactMatches, ...aliasMatches, ...fuzzyMatches];
     const uniqueMatches = allMatches.filter((match, index, arr) =>
       index === arr.findIndex(m => m.id === match.id)
     );
@@ -237,7 +265,10 @@ export async function matchEmployerAdvanced(
       let baseScore = calculateMatchScore(companyName, employer.name);
 
       // Apply scoring bonuses based on match type
-      if (employer.match_type === 'canonical_name') {
+      if (employer.match_type === 'abn') {
+        // Same registered business - certain regardless of how the name was written
+        baseScore = 1.0;
+      } else if (employer.match_type === 'canonical_name') {
         // Exact or fuzzy name match - no bonus, base score stands
       } else if (employer.match_type === 'alias') {
         // Alias match - boost confidence but cap at high
@@ -253,8 +284,14 @@ export async function matchEmployerAdvanced(
       };
     });
 
-    // Sort by score descending, then by match type priority
+    // ABN matches first, then by score descending, then by match type priority
+    const abnMatchIds = new Set(abnMatches.map(match => match.id));
     scoredMatches.sort((a, b) => {
+      const abnDiff = Number(abnMatchIds.has(b.id)) - Number(abnMatchIds.has(a.id));
+      if (abnDiff !== 0) {
+        return abnDiff;
+      }
+
       const scoreDiff = b.score - a.score;
       if (Math.abs(scoreDiff) > 0.01) {
         return scoreDiff;
@@ -264,7 +301,7 @@ export async function matchEmployerAdvanced(
       const aMatch = uniqueMatches.find(m => m.id === a.id);
       const bMatch = uniqueMatches.find(m => m.id === b.id);
 
-      const priority = { canonical_name: 3, alias: 2, external_id: 1 };
+      const priority = { abn: 4, canonical_name: 3, alias: 2, external_id: 1 };
       const aPriority = priority[aMatch?.match_type as keyof typeof priority] || 0;
       const bPriority = priority[bMatch?.match_type as keyof typeof priority] || 0;
 
@@ -304,7 +341,8 @@ export async function matchEmployerAdvanced(
 export async function findBestEmployerMatch(
   companyName: string,
   includeAliases: boolean = true,
-  confidenceThreshold: number = 0.85
+  confidenceThreshold: number = 0.85,
+  abn?: string | null
 ): Promise<EmployerMatch | null> {
   if (!companyName || companyName.trim().length === 0) {
     return null;
@@ -313,7 +351,8 @@ export async function findBestEmployerMatch(
   const options: EmployerMatchingOptions = {
     confidenceThreshold,
     allowFuzzyMatching: true,
-    requireUserConfirmation: false
+    requireUserConfirmation: false,
+    abn
   };
 
   const result = await matchEmployerAdvanced(companyName, options, includeAliases, 'any');
@@ -322,11 +361,13 @@ export async function findBestEmployerMatch(
 
 /**
  * Batch match multiple employers efficiently with alias support
+ * ABNs from the source rows are keyed by company name
  */
 export async function batchMatchEmployers(
   companyNames: string[],
   options: EmployerMatchingOptions,
-  includeAliases: boolean = true
+  includeAliases: boolean = true,
+  abnsByCompanyName: Record<string, string | null | undefined> = {}
 ): Promise<Record<string, EmployerMatchResult>> {
   const results: Record<string, EmployerMatchResult> = {};
 
@@ -337,7 +378,12 @@ export async function batchMatchEmployers(
 
     const batchResults = await Promise.all(
       batch.map(async (companyName) => {
-        const result = await matchEmployerAdvanced(companyName, options, includeAliases, 'any');
+        const result = await matchEmployerAdvanced(
+          companyName,
+          { ...options, abn: abnsByCompanyName[companyName] ?? options.abn },
+          includeAliases,
+          'any'
+        );
         return { companyName, result };
       })
     );
@@ -2,7 +2,7 @@
  * Utility functions for deriving progress steps from scraper job status and events
  */
 
-export type ScraperJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+export type ScraperJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled' | 'dead_letter'
 
 export type ScraperJobEvent = {
   id: number
@@ -38,7 +38,7 @@ export function deriveStepFromEvents(
   const status = job.status
 
   // Terminal states always show final step
-  if (status === 'succeeded' || status === 'failed' || status === 'cancelled') {
+  if (status === 'succeeded' || status === 'failed' || status === 'cancelled' || status === 'dead_letter') {
     return 3
   }
 
@@ -108,7 +108,7 @@ function deriveStepFromStatus(
     return 2
   }
 
-  // succeeded, failed, cancelled
+  // succeeded, failed, cancelled, dead_letter
   return 3
 }
 
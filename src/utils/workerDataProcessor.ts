@@ -1,3 +1,4 @@
+import { isValidAbn, normalizeAbn } from '@/lib/employers/abn';
 import { normalizeEmployerName } from '@/lib/employers/normalize';
 
 export interface ProcessedWorkerData {
@@ -11,6 +12,7 @@ export interface ProcessedWorkerData {
   
   // Employer linking
   company_name: string;
+  company_abn?: string;
   
   // Organizer info (for matching and assignment)
   organizer_number?: string;
@@ -80,8 +82,23 @@ export const normalizeCompanyName = (name: string): string => normalizeEmployerN
 
 export function findBestEmployerMatch(
   companyName: string, 
-  existingEmployers: Array<{id: string, name: string}>
+  existingEmployers: Array<{id: string, name: string, abn?: string | null}>,
+  abn?: string | null
 ): EmployerMatch | null {
+  // An employer registered under the same ABN outranks any name match
+  if (isValidAbn(abn)) {
+    const normalizedAbn = normalizeAbn(abn);
+    const abnMatch = existingEmployers.find(employer => normalizeAbn(employer.abn) === normalizedAbn);
+    if (abnMatch) {
+      return {
+        id: abnMatch.id,
+        name: abnMatch.name,
+        confidence: 'exact',
+        distance: 0
+      };
+    }
+  }
+
   const normalizedSearchName = normalizeCompanyName(companyName);
   
   // PERFORMANCE FIX: Pre-normalize all employer names once and cache
@@ -251,6 +268,7 @@ export function processWorkerRow(row: Record<string, string>): ProcessedWorkerDa
   const memberNumber = row['MemberNumber'] || row['Member Number'] || row['member_number'];
   const comments = row['Comments'] || row['comments'];
   const email = row['Email'] || row['email'];
+  const companyAbn = row['CompanyABN'] || row['Company ABN'] || row['company_abn'] || row['ABN'] || row['abn'];
   
   // Skip rows with missing essential data (company can be injected upstream when employer is pre-selected)
   if (!companyName || !memberSurname || !memberFirstName) {
@@ -291,6 +309,7 @@ export function processWorkerRow(row: Record<string, string>): ProcessedWorkerDa
     union_membership_status: unionStatus,
     member_number: memberNumber?.trim(),
     company_name: companyName.trim(),
+    company_abn: companyAbn?.trim() || undefined,
     organizer_number: row['OrganiserNumber'] || row['Organiser Number'],
     organizer_surname: organiserSurname,
     organizer_first_name: organiserFirstName,
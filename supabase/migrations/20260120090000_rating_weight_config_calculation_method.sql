@@ -0,0 +1,15 @@
+-- ============================================================================
+-- Per-template calculation method for rating weight configurations
+-- ============================================================================
+-- Calculation methods are registered in the rating engine's method registry
+-- (src/lib/rating-engine/core/CalculationMethodRegistry.ts). Each weighting
+-- template records which registered method combines its component scores.
+-- No CHECK constraint on the value: new methods can be registered without a
+-- migration, and the admin API validates ids against the registry instead.
+-- ============================================================================
+
+ALTER TABLE public.rating_weight_configs
+    ADD COLUMN IF NOT EXISTS calculation_method text NOT NULL DEFAULT 'hybrid_method';
+
+COMMENT ON COLUMN public.rating_weight_configs.calculation_method IS
+    'Id of the rating engine calculation method used with this weighting template';
@@ -0,0 +1,121 @@
+-- ============================================================================
+-- Rating export jobs and the rating-exports storage bucket
+-- ============================================================================
+-- /api/ratings/export creates one row per export. Each status poll by the
+-- requester processes the next chunk of ratings (written to storage as a part
+-- file) until the final CSV, XLSX or JSON file is assembled. Finished files
+-- are kept in a private bucket under the requester's folder and expire after
+-- expires_at, when the status endpoint removes them.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.rating_export_jobs (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    requested_by uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    format text NOT NULL,
+    parameters jsonb NOT NULL DEFAULT '{}'::jsonb,
+    status text NOT NULL DEFAULT 'processing',
+    ip_address text,
+
+    -- Chunked processing progress
+    rows_processed integer NOT NULL DEFAULT 0,
+    parts_written integer NOT NULL DEFAULT 0,
+
+    -- Finished file
+    file_path text,
+    file_size_bytes bigint,
+    record_count integer,
+    error_message text,
+
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now(),
+    completed_at timestamptz,
+    expires_at timestamptz,
+
+    CONSTRAINT rating_export_jobs_format_check CHECK (format IN ('csv', 'xlsx', 'json')),
+    CONSTRAINT rating_export_jobs_status_check CHECK (status IN ('processing', 'completed', 'failed', 'expired'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_rating_export_jobs_requested_by
+    ON public.rating_export_jobs(requested_by, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_rating_export_jobs_expires_at
+    ON public.rating_export_jobs(expires_at)
+    WHERE status = 'completed';
+
+ALTER TABLE public.rating_export_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can create their own rating exports"
+    ON public.rating_export_jobs FOR INSERT
+    TO authenticated
+    WITH CHECK (requested_by = auth.uid());
+
+CREATE POLICY "Users can view their own rating exports or all if admin"
+    ON public.rating_export_jobs FOR SELECT
+    TO authenticated
+    USING (requested_by = auth.uid() OR is_admin());
+
+CREATE POLICY "Users can update their own rating exports"
+    ON public.rating_export_jobs FOR UPDATE
+    TO authenticated
+    USING (requested_by = auth.uid())
+    WITH CHECK (requested_by = auth.uid());
+
+COMMENT ON TABLE public.rating_export_jobs IS
+    'Rating export requests from /api/ratings/export, processed in chunks on each status poll';
+
+-- ============================================================================
+-- Private bucket for export files, one folder per requester
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'rating-exports',
+  'rating-exports',
+  false,
+  52428800, -- 50MB limit
+  ARRAY[
+    'text/csv',
+    'application/json',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ]
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = false,
+  file_size_limit = 52428800,
+  allowed_mime_types = ARRAY[
+    'text/csv',
+    'application/json',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ];
+
+CREATE POLICY "Users can upload rating exports to their own folder"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'rating-exports' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can overwrite their own rating exports"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'rating-exports' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can read their own rating exports"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'rating-exports' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can delete their own rating exports"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'rating-exports' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
@@ -0,0 +1,25 @@
+-- Shared worker job queue: dead-letter status for jobs that exhausted their attempts,
+-- and job dependencies (a job waits until every job in depends_on has succeeded)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_type t
+    JOIN pg_enum e ON t.oid = e.enumtypid
+    WHERE t.typname = 'scraper_job_status'
+      AND e.enumlabel = 'dead_letter'
+  ) THEN
+    ALTER TYPE public.scraper_job_status ADD VALUE 'dead_letter';
+  END IF;
+END $$;
+
+ALTER TABLE public.scraper_jobs
+  ADD COLUMN IF NOT EXISTS depends_on uuid[];
+
+-- Finds the jobs waiting on a given job (depends_on @> ARRAY[job_id])
+CREATE INDEX IF NOT EXISTS idx_scraper_jobs_depends_on
+  ON public.scraper_jobs USING gin (depends_on)
+  WHERE depends_on IS NOT NULL;
+
+COMMENT ON TYPE public.scraper_job_status IS 'Queue status values for scraper jobs (includes legacy running + processing states, and dead_letter for jobs that exhausted their retries).';
+COMMENT ON COLUMN public.scraper_jobs.depends_on IS 'Jobs that must succeed before this job runs. The job is dead-lettered if any of them fails, is cancelled or is dead-lettered.';
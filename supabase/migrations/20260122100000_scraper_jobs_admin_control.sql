@@ -0,0 +1,35 @@
+-- Admin job control panel: admins can see every scraper job and its event timeline,
+-- and cancel, retry or reprioritise jobs. Workers keep using the service role.
+
+DROP POLICY IF EXISTS "scraper_jobs_admin_select" ON public.scraper_jobs;
+CREATE POLICY "scraper_jobs_admin_select"
+  ON public.scraper_jobs
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+DROP POLICY IF EXISTS "scraper_jobs_admin_update" ON public.scraper_jobs;
+CREATE POLICY "scraper_jobs_admin_update"
+  ON public.scraper_jobs
+  FOR UPDATE
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+DROP POLICY IF EXISTS "scraper_job_events_admin_select" ON public.scraper_job_events;
+CREATE POLICY "scraper_job_events_admin_select"
+  ON public.scraper_job_events
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+DROP POLICY IF EXISTS "scraper_job_events_admin_insert" ON public.scraper_job_events;
+CREATE POLICY "scraper_job_events_admin_insert"
+  ON public.scraper_job_events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_admin());
+
+-- Timeline filtering by event type within a job
+CREATE INDEX IF NOT EXISTS idx_scraper_job_events_job_type_created
+  ON public.scraper_job_events (job_id, event_type, created_at DESC);
@@ -0,0 +1,108 @@
+-- ============================================================================
+-- Scheduled FWC EBA re-verification
+-- ============================================================================
+-- The scraper worker periodically enqueues fwc_lookup jobs for employers whose
+-- EBA is close to its nominal expiry or has not been checked against FWC for a
+-- while. Each lookup diffs the scraped agreement against the stored record and
+-- writes one row per detected change to eba_change_events, which feeds the
+-- change digest on the EBA tracking page.
+-- ============================================================================
+
+ALTER TABLE public.company_eba_records
+    ADD COLUMN IF NOT EXISTS fwc_last_checked_at timestamptz,
+    ADD COLUMN IF NOT EXISTS fwc_agreement_status text;
+
+COMMENT ON COLUMN public.company_eba_records.fwc_last_checked_at IS
+    'When the FWC scraper last looked this employer up, whether or not anything changed';
+COMMENT ON COLUMN public.company_eba_records.fwc_agreement_status IS
+    'Agreement status as last reported by FWC (e.g. Approved, Expired)';
+
+CREATE INDEX IF NOT EXISTS idx_company_eba_records_fwc_last_checked
+    ON public.company_eba_records (fwc_last_checked_at NULLS FIRST);
+
+CREATE TABLE IF NOT EXISTS public.eba_change_events (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    employer_id uuid NOT NULL REFERENCES public.employers(id) ON DELETE CASCADE,
+    eba_record_id uuid REFERENCES public.company_eba_records(id) ON DELETE SET NULL,
+    change_type text NOT NULL,
+    previous jsonb,
+    current jsonb,
+    -- Identifies the change itself so repeat lookups of the same agreement don't duplicate it
+    fingerprint text NOT NULL,
+    job_id uuid REFERENCES public.scraper_jobs(id) ON DELETE SET NULL,
+    detected_at timestamptz NOT NULL DEFAULT now(),
+
+    CONSTRAINT eba_change_events_type_check CHECK (
+        change_type IN ('new_agreement', 'agreement_approved', 'agreement_expired', 'expiry_date_changed')
+    ),
+    CONSTRAINT eba_change_events_fingerprint_unique UNIQUE (employer_id, change_type, fingerprint)
+);
+
+CREATE INDEX IF NOT EXISTS idx_eba_change_events_detected_at
+    ON public.eba_change_events (detected_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_eba_change_events_employer
+    ON public.eba_change_events (employer_id, detected_at DESC);
+
+ALTER TABLE public.eba_change_events ENABLE ROW LEVEL SECURITY;
+
+-- Written by the scraper worker with the service role; users see changes for employers they can access
+CREATE POLICY "eba_change_events_select"
+    ON public.eba_change_events FOR SELECT
+    TO authenticated
+    USING (public.can_access_employer(employer_id));
+
+COMMENT ON TABLE public.eba_change_events IS
+    'Changes detected when the FWC scraper re-verifies an employer''s EBA (new agreement, approval, expiry)';
+
+-- ============================================================================
+-- Employers due for re-verification
+-- ============================================================================
+-- An employer is due when its latest check is older than p_min_recheck_days and
+-- either its nominal expiry falls within p_expiry_window_days (or has already
+-- passed), it has never been checked, or its last check is older than
+-- p_stale_after_days. Employers expiring soonest come first, then the stalest.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_employers_due_for_eba_reverification(
+    p_expiry_window_days integer DEFAULT 90,
+    p_stale_after_days integer DEFAULT 30,
+    p_min_recheck_days integer DEFAULT 7,
+    p_limit integer DEFAULT 200
+)
+RETURNS TABLE (
+    employer_id uuid,
+    nominal_expiry_date date,
+    fwc_last_checked_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH latest AS (
+        SELECT
+            r.employer_id,
+            max(r.nominal_expiry_date) AS nominal_expiry_date,
+            max(r.fwc_last_checked_at) AS fwc_last_checked_at
+        FROM public.company_eba_records r
+        WHERE r.employer_id IS NOT NULL
+        GROUP BY r.employer_id
+    )
+    SELECT l.employer_id, l.nominal_expiry_date, l.fwc_last_checked_at
+    FROM latest l
+    WHERE (l.fwc_last_checked_at IS NULL OR l.fwc_last_checked_at < now() - make_interval(days => p_min_recheck_days))
+      AND (
+          l.nominal_expiry_date <= current_date + p_expiry_window_days
+          OR l.fwc_last_checked_at IS NULL
+          OR l.fwc_last_checked_at < now() - make_interval(days => p_stale_after_days)
+      )
+    ORDER BY
+        (l.nominal_expiry_date <= current_date + p_expiry_window_days) DESC NULLS LAST,
+        l.nominal_expiry_date ASC NULLS LAST,
+        l.fwc_last_checked_at ASC NULLS FIRST
+    LIMIT p_limit;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_employers_due_for_eba_reverification(integer, integer, integer, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_employers_due_for_eba_reverification(integer, integer, integer, integer) TO service_role;
@@ -0,0 +1,13 @@
+-- Consensus extraction: the scanner worker can run Claude and OpenAI on the same
+-- scan and reconcile them field by field. Such scans record ai_provider =
+-- 'consensus'; mapping_sheet_scan_costs keeps one row per provider called.
+
+ALTER TABLE public.mapping_sheet_scans
+  DROP CONSTRAINT IF EXISTS valid_ai_provider;
+
+ALTER TABLE public.mapping_sheet_scans
+  ADD CONSTRAINT valid_ai_provider
+  CHECK (ai_provider IS NULL OR ai_provider IN ('claude', 'openai', 'consensus'));
+
+COMMENT ON COLUMN public.mapping_sheet_scans.ai_provider IS
+  'claude, openai, or consensus when both were reconciled (disagreements in confidence_scores->disputes)';
@@ -0,0 +1,221 @@
+-- ============================================================================
+-- Organiser email digest
+-- ============================================================================
+-- The dashboard worker emails organisers and lead organisers a summary of what
+-- changed in their patches. Users opt in from their profile and choose a
+-- daily or weekly frequency; email_digest_last_sent_at is both the window
+-- start for the next digest and the guard against sending twice.
+-- ============================================================================
+
+ALTER TABLE public.profiles
+    ADD COLUMN IF NOT EXISTS email_digest_enabled boolean NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS email_digest_frequency text NOT NULL DEFAULT 'weekly',
+    ADD COLUMN IF NOT EXISTS email_digest_last_sent_at timestamptz;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'profiles_email_digest_frequency_check'
+    ) THEN
+        ALTER TABLE public.profiles
+            ADD CONSTRAINT profiles_email_digest_frequency_check
+            CHECK (email_digest_frequency IN ('daily', 'weekly'));
+    END IF;
+END $$;
+
+COMMENT ON COLUMN public.profiles.email_digest_enabled IS
+    'Whether the user receives the organiser email digest';
+COMMENT ON COLUMN public.profiles.email_digest_frequency IS
+    'How often the organiser email digest is sent: daily or weekly';
+COMMENT ON COLUMN public.profiles.email_digest_last_sent_at IS
+    'When the last organiser email digest was sent to this user';
+
+CREATE INDEX IF NOT EXISTS idx_profiles_email_digest
+    ON public.profiles (email_digest_frequency, email_digest_last_sent_at)
+    WHERE email_digest_enabled;
+
+-- ============================================================================
+-- Digest contents
+-- ============================================================================
+-- Everything in one digest for one user, scoped to their current patches
+-- (organiser_patch_assignments for organisers, lead_organiser_patch_assignments
+-- for lead organisers). Each section returns its total and at most p_limit
+-- items so large patches don't produce unreadable emails:
+--   new_projects              projects created since p_since
+--   expiring_ebas             employers on patch projects whose latest EBA expires
+--                             within p_eba_expiry_days
+--   pending_delegated_tasks   delegated-task links the user created that have not
+--                             been submitted
+--   stale_site_visits         patch projects with no completed visit in
+--                             p_stale_visit_days (or never visited)
+--   rating_changes            rating history entries since p_since for employers
+--                             on patch projects, excluding maintained ratings
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_organiser_digest(
+    p_user_id uuid,
+    p_since timestamptz,
+    p_eba_expiry_days integer DEFAULT 60,
+    p_stale_visit_days integer DEFAULT 90,
+    p_limit integer DEFAULT 10
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_role text;
+    v_patch_ids uuid[];
+    v_project_ids uuid[];
+    v_patches jsonb;
+    v_new_projects jsonb;
+    v_expiring_ebas jsonb;
+    v_pending_tasks jsonb;
+    v_stale_visits jsonb;
+    v_rating_changes jsonb;
+BEGIN
+    SELECT role INTO v_role FROM public.profiles WHERE id = p_user_id;
+
+    IF v_role = 'lead_organiser' THEN
+        SELECT coalesce(array_agg(DISTINCT patch_id), '{}') INTO v_patch_ids
+        FROM public.lead_organiser_patch_assignments
+        WHERE lead_organiser_id = p_user_id AND effective_to IS NULL;
+    ELSE
+        SELECT coalesce(array_agg(DISTINCT patch_id), '{}') INTO v_patch_ids
+        FROM public.organiser_patch_assignments
+        WHERE organiser_id = p_user_id AND effective_to IS NULL;
+    END IF;
+
+    SELECT coalesce(jsonb_agg(jsonb_build_object('id', pt.id, 'name', pt.name) ORDER BY pt.name), '[]')
+    INTO v_patches
+    FROM public.patches pt
+    WHERE pt.id = ANY (v_patch_ids);
+
+    SELECT coalesce(array_agg(DISTINCT ppm.project_id), '{}') INTO v_project_ids
+    FROM public.patch_project_mapping_view ppm
+    WHERE ppm.patch_id = ANY (v_patch_ids);
+
+    WITH rows AS (
+        SELECT p.id, p.name, p.value, p.created_at
+        FROM public.projects p
+        WHERE p.id = ANY (v_project_ids)
+          AND p.created_at > p_since
+    )
+    SELECT jsonb_build_object(
+        'total', (SELECT count(*) FROM rows),
+        'items', coalesce((
+            SELECT jsonb_agg(to_jsonb(r) ORDER BY r.created_at DESC)
+            FROM (SELECT * FROM rows ORDER BY created_at DESC LIMIT p_limit) r
+        ), '[]')
+    ) INTO v_new_projects;
+
+    WITH patch_employers AS (
+        SELECT DISTINCT pa.employer_id
+        FROM public.project_assignments pa
+        WHERE pa.project_id = ANY (v_project_ids)
+    ),
+    -- An employer that has already renewed has a later expiry and drops out
+    latest AS (
+        SELECT r.employer_id, max(r.nominal_expiry_date) AS nominal_expiry_date
+        FROM public.company_eba_records r
+        JOIN patch_employers pe ON pe.employer_id = r.employer_id
+        GROUP BY r.employer_id
+    ),
+    rows AS (
+        SELECT l.employer_id, e.name AS employer_name, l.nominal_expiry_date
+        FROM latest l
+        JOIN public.employers e ON e.id = l.employer_id
+        WHERE l.nominal_expiry_date BETWEEN current_date AND current_date + p_eba_expiry_days
+    )
+    SELECT jsonb_build_object(
+        'total', (SELECT count(*) FROM rows),
+        'items', coalesce((
+            SELECT jsonb_agg(to_jsonb(r) ORDER BY r.nominal_expiry_date)
+            FROM (SELECT * FROM rows ORDER BY nominal_expiry_date LIMIT p_limit) r
+        ), '[]')
+    ) INTO v_expiring_ebas;
+
+    WITH rows AS (
+        SELECT
+            sat.id,
+            sat.resource_type,
+            sat.resource_id AS project_id,
+            p.name AS project_name,
+            sat.created_at,
+            sat.expires_at,
+            sat.expires_at < now() AS expired
+        FROM public.secure_access_tokens sat
+        LEFT JOIN public.projects p ON p.id = sat.resource_id
+        WHERE sat.created_by = p_user_id
+          AND sat.submitted_at IS NULL
+          AND sat.resource_type IN ('PROJECT_AUDIT_COMPLIANCE', 'PROJECT_MAPPING_SHEET')
+          -- Links that expired before this digest window were already reported
+          AND sat.expires_at > p_since
+    )
+    SELECT jsonb_build_object(
+        'total', (SELECT count(*) FROM rows),
+        'items', coalesce((
+            SELECT jsonb_agg(to_jsonb(r) ORDER BY r.expires_at)
+            FROM (SELECT * FROM rows ORDER BY expires_at LIMIT p_limit) r
+        ), '[]')
+    ) INTO v_pending_tasks;
+
+    WITH rows AS (
+        SELECT p.id AS project_id, p.name AS project_name, lv.last_visit_date
+        FROM public.projects p
+        LEFT JOIN public.v_project_last_visit lv ON lv.project_id = p.id
+        WHERE p.id = ANY (v_project_ids)
+          AND (lv.last_visit_date IS NULL
+           OR lv.last_visit_date < now() - make_interval(days => p_stale_visit_days))
+    )
+    SELECT jsonb_build_object(
+        'total', (SELECT count(*) FROM rows),
+        'items', coalesce((
+            SELECT jsonb_agg(to_jsonb(r) ORDER BY r.last_visit_date NULLS FIRST)
+            FROM (SELECT * FROM rows ORDER BY last_visit_date NULLS FIRST LIMIT p_limit) r
+        ), '[]')
+    ) INTO v_stale_visits;
+
+    WITH patch_employers AS (
+        SELECT DISTINCT pa.employer_id
+        FROM public.project_assignments pa
+        WHERE pa.project_id = ANY (v_project_ids)
+    ),
+    rows AS (
+        SELECT
+            h.employer_id,
+            e.name AS employer_name,
+            h.previous_rating,
+            h.new_rating,
+            h.rating_change_type,
+            h.created_at
+        FROM public.employer_rating_history h
+        JOIN patch_employers pe ON pe.employer_id = h.employer_id
+        JOIN public.employers e ON e.id = h.employer_id
+        WHERE h.created_at > p_since
+          AND h.rating_change_type IS DISTINCT FROM 'maintained'
+    )
+    SELECT jsonb_build_object(
+        'total', (SELECT count(*) FROM rows),
+        'items', coalesce((
+            SELECT jsonb_agg(to_jsonb(r) ORDER BY r.created_at DESC)
+            FROM (SELECT * FROM rows ORDER BY created_at DESC LIMIT p_limit) r
+        ), '[]')
+    ) INTO v_rating_changes;
+
+    RETURN jsonb_build_object(
+        'patches', v_patches,
+        'new_projects', v_new_projects,
+        'expiring_ebas', v_expiring_ebas,
+        'pending_delegated_tasks', v_pending_tasks,
+        'stale_site_visits', v_stale_visits,
+        'rating_changes', v_rating_changes
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_organiser_digest(uuid, timestamptz, integer, integer, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_organiser_digest(uuid, timestamptz, integer, integer, integer) TO service_role;
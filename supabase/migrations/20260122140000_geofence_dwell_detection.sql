@@ -0,0 +1,231 @@
+-- ============================================================================
+-- Geofence dwell detection
+-- ============================================================================
+-- Organisers with geofencing enabled report their position to
+-- /api/site-visits/geofence. When a device stays inside a job site's fence for
+-- long enough, the API creates a draft site_visit for that job site and project,
+-- which the organiser confirms or discards in the site visit wizard.
+--
+-- Fences default to a circle around the job site; sites can override the
+-- radius or supply a polygon (e.g. for large or oddly shaped sites).
+--
+-- Privacy: positions outside every fence are never stored. Positions inside a
+-- fence are kept only as evidence for the draft visit and purged after
+-- 14 days; dwell sessions keep timestamps, not coordinates.
+-- ============================================================================
+
+ALTER TABLE public.job_sites
+    ADD COLUMN IF NOT EXISTS geofence_radius_m integer,
+    ADD COLUMN IF NOT EXISTS geofence_polygon geometry(Polygon, 4326);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'job_sites_geofence_radius_check'
+    ) THEN
+        ALTER TABLE public.job_sites
+            ADD CONSTRAINT job_sites_geofence_radius_check
+            CHECK (geofence_radius_m IS NULL OR geofence_radius_m BETWEEN 25 AND 2000);
+    END IF;
+END $$;
+
+COMMENT ON COLUMN public.job_sites.geofence_radius_m IS
+    'Custom geofence radius in metres around the site coordinates; NULL uses the app default';
+COMMENT ON COLUMN public.job_sites.geofence_polygon IS
+    'Custom geofence boundary; takes precedence over the radius when set';
+
+CREATE INDEX IF NOT EXISTS idx_job_sites_geofence_polygon
+    ON public.job_sites USING gist (geofence_polygon)
+    WHERE geofence_polygon IS NOT NULL;
+
+-- site_visit rows created from a dwell rather than entered by hand
+ALTER TABLE public.site_visit
+    ADD COLUMN IF NOT EXISTS detection_source text;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'site_visit_detection_source_check'
+    ) THEN
+        ALTER TABLE public.site_visit
+            ADD CONSTRAINT site_visit_detection_source_check
+            CHECK (detection_source IS NULL OR detection_source IN ('geofence'));
+    END IF;
+END $$;
+
+COMMENT ON COLUMN public.site_visit.detection_source IS
+    'How the visit was created when not entered manually (geofence = dwell detection)';
+
+CREATE INDEX IF NOT EXISTS idx_site_visit_detected_drafts
+    ON public.site_visit (organiser_id, date DESC)
+    WHERE detection_source IS NOT NULL AND visit_status = 'draft';
+
+-- ============================================================================
+-- Dwell sessions: one row per stay inside a fence
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.geofence_dwell_sessions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    job_site_id uuid NOT NULL REFERENCES public.job_sites(id) ON DELETE CASCADE,
+    project_id uuid REFERENCES public.projects(id) ON DELETE SET NULL,
+    entered_at timestamptz NOT NULL,
+    last_seen_at timestamptz NOT NULL,
+    exited_at timestamptz,
+    -- Set once per session so a discarded draft isn't recreated while the organiser is still on site
+    draft_created_at timestamptz,
+    site_visit_id uuid REFERENCES public.site_visit(id) ON DELETE SET NULL,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- At most one open session per user and site
+CREATE UNIQUE INDEX IF NOT EXISTS idx_geofence_dwell_sessions_open
+    ON public.geofence_dwell_sessions (user_id, job_site_id)
+    WHERE exited_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_geofence_dwell_sessions_user
+    ON public.geofence_dwell_sessions (user_id, entered_at DESC);
+
+ALTER TABLE public.geofence_dwell_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "geofence_dwell_sessions_own"
+    ON public.geofence_dwell_sessions FOR ALL
+    TO authenticated
+    USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
+
+COMMENT ON TABLE public.geofence_dwell_sessions IS
+    'Time an organiser''s device spent inside a job site geofence; drives draft visit creation';
+
+-- ============================================================================
+-- Raw positions (inside a fence only, short retention)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.geofence_positions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    dwell_session_id uuid REFERENCES public.geofence_dwell_sessions(id) ON DELETE CASCADE,
+    latitude double precision NOT NULL,
+    longitude double precision NOT NULL,
+    accuracy_m double precision,
+    recorded_at timestamptz NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_geofence_positions_recorded_at
+    ON public.geofence_positions (recorded_at);
+
+CREATE INDEX IF NOT EXISTS idx_geofence_positions_session
+    ON public.geofence_positions (dwell_session_id);
+
+ALTER TABLE public.geofence_positions ENABLE ROW LEVEL SECURITY;
+
+-- Only the organiser can see their own positions; nobody else, including admins
+CREATE POLICY "geofence_positions_own"
+    ON public.geofence_positions FOR ALL
+    TO authenticated
+    USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
+
+COMMENT ON TABLE public.geofence_positions IS
+    'Device positions recorded inside a job site geofence; purged after 14 days by purge_geofence_positions()';
+
+-- ============================================================================
+-- Fences containing a point
+-- ============================================================================
+-- Runs as the caller so job_sites RLS still decides which sites an organiser
+-- can be detected at.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_geofences_at_point(
+    p_latitude double precision,
+    p_longitude double precision,
+    p_default_radius_m integer DEFAULT 100
+)
+RETURNS TABLE (
+    job_site_id uuid,
+    job_site_name text,
+    project_id uuid,
+    project_name text,
+    distance_m double precision
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH here AS (
+        SELECT ST_SetSRID(ST_MakePoint(p_longitude, p_latitude), 4326) AS point
+    )
+    SELECT
+        js.id,
+        js.name,
+        js.project_id,
+        p.name,
+        ST_Distance(js.geom::geography, here.point::geography)
+    FROM public.job_sites js
+    CROSS JOIN here
+    LEFT JOIN public.projects p ON p.id = js.project_id
+    WHERE js.geom IS NOT NULL
+      AND CASE
+          WHEN js.geofence_polygon IS NOT NULL THEN ST_Contains(js.geofence_polygon, here.point)
+          ELSE ST_DWithin(
+              js.geom::geography,
+              here.point::geography,
+              coalesce(js.geofence_radius_m, p_default_radius_m)
+          )
+      END
+    ORDER BY 5;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_geofences_at_point(double precision, double precision, integer) TO authenticated;
+
+-- ============================================================================
+-- Retention
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.purge_geofence_positions(p_retain_days integer DEFAULT 14)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_deleted integer;
+BEGIN
+    DELETE FROM public.geofence_positions
+    WHERE recorded_at < now() - make_interval(days => p_retain_days);
+    GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+    -- Sessions that never became a visit have no further use
+    DELETE FROM public.geofence_dwell_sessions
+    WHERE site_visit_id IS NULL
+      AND exited_at IS NOT NULL
+      AND exited_at < now() - make_interval(days => p_retain_days);
+
+    RETURN v_deleted;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.purge_geofence_positions(integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.purge_geofence_positions(integer) TO service_role;
+
+DO $cron_setup$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        BEGIN
+            PERFORM cron.unschedule('purge-geofence-positions');
+        EXCEPTION WHEN OTHERS THEN
+            NULL;
+        END;
+
+        PERFORM cron.schedule(
+            'purge-geofence-positions',
+            '30 3 * * *',
+            'SELECT public.purge_geofence_positions(14);'
+        );
+    ELSE
+        RAISE WARNING 'pg_cron not available: schedule purge_geofence_positions() externally';
+    END IF;
+END $cron_setup$;
@@ -0,0 +1,42 @@
+-- ============================================================================
+-- Row version stamps for offline sync
+-- ============================================================================
+-- Site visits and mapping-sheet project edits captured offline carry the
+-- row_version they were based on. The sync endpoints compare it with the
+-- current row and return 409 with the server copy when someone else changed
+-- the record in the meantime, so the organiser can resolve field by field.
+--
+-- Compliance checks are versioned by row (each change inserts a new current
+-- check), so the current check id serves as their stamp and needs no column.
+-- ============================================================================
+
+ALTER TABLE public.site_visit
+    ADD COLUMN IF NOT EXISTS row_version integer NOT NULL DEFAULT 1;
+
+ALTER TABLE public.projects
+    ADD COLUMN IF NOT EXISTS row_version integer NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN public.site_visit.row_version IS
+    'Incremented on every update; offline edits send the version they were based on to detect conflicts';
+COMMENT ON COLUMN public.projects.row_version IS
+    'Incremented on every update; offline mapping-sheet edits send the version they were based on to detect conflicts';
+
+CREATE OR REPLACE FUNCTION public.bump_row_version()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    NEW.row_version := OLD.row_version + 1;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_site_visit_row_version ON public.site_visit;
+CREATE TRIGGER trg_site_visit_row_version
+    BEFORE UPDATE ON public.site_visit
+    FOR EACH ROW EXECUTE FUNCTION public.bump_row_version();
+
+DROP TRIGGER IF EXISTS trg_projects_row_version ON public.projects;
+CREATE TRIGGER trg_projects_row_version
+    BEFORE UPDATE ON public.projects
+    FOR EACH ROW EXECUTE FUNCTION public.bump_row_version();
@@ -0,0 +1,289 @@
+-- ============================================================================
+-- Delegate and HSR training tracker
+-- ============================================================================
+-- training_courses is the catalogue of union training. A course lists the
+-- union roles it is required for and how long a completion stays valid; a
+-- course with a refresher_course_id is kept current by completing either it
+-- or its refresher.
+--
+-- training_participation (existing) gains a course, the union role the
+-- training was done for, and refresher_due_on, which a trigger derives from
+-- the completion date and the course's validity so it is never entered by
+-- hand. Dates recorded on union_roles (ohs_training_date and
+-- ohs_refresher_training_date) are mirrored into participation records so the
+-- union roles tab and the tracker stay in step.
+--
+-- v_worker_training_status has one row per active union role and course it
+-- requires, with the latest completion and whether the rep is current, due
+-- within 60 days, overdue or never trained.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.training_courses (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    code text NOT NULL UNIQUE,
+    name text NOT NULL,
+    description text,
+    provider text,
+    required_for_roles text[] NOT NULL DEFAULT '{}',
+    validity_months integer,
+    refresher_course_id uuid REFERENCES public.training_courses(id) ON DELETE SET NULL,
+    is_active boolean NOT NULL DEFAULT true,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'training_courses_validity_months_check'
+    ) THEN
+        ALTER TABLE public.training_courses
+            ADD CONSTRAINT training_courses_validity_months_check
+            CHECK (validity_months IS NULL OR validity_months > 0);
+    END IF;
+END $$;
+
+COMMENT ON TABLE public.training_courses IS
+    'Catalogue of union training courses for delegates and HSRs';
+COMMENT ON COLUMN public.training_courses.required_for_roles IS
+    'union_role_type values whose holders must keep this course current';
+COMMENT ON COLUMN public.training_courses.validity_months IS
+    'Months a completion stays valid before a refresher is due; NULL means it never lapses';
+COMMENT ON COLUMN public.training_courses.refresher_course_id IS
+    'Course that renews this one; completing it also keeps this course current';
+
+DROP TRIGGER IF EXISTS update_training_courses_updated_at ON public.training_courses;
+CREATE TRIGGER update_training_courses_updated_at
+    BEFORE UPDATE ON public.training_courses
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.training_courses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "training_courses_read" ON public.training_courses;
+CREATE POLICY "training_courses_read"
+    ON public.training_courses FOR SELECT
+    TO authenticated
+    USING (true);
+
+DROP POLICY IF EXISTS "training_courses_admin_all" ON public.training_courses;
+CREATE POLICY "training_courses_admin_all"
+    ON public.training_courses FOR ALL
+    TO authenticated
+    USING (public.get_user_role(auth.uid()) = 'admin')
+    WITH CHECK (public.get_user_role(auth.uid()) = 'admin');
+
+INSERT INTO public.training_courses (code, name, description, required_for_roles, validity_months)
+VALUES
+    ('hsr_refresher', 'HSR refresher', 'Annual one-day refresher for elected health and safety representatives', '{}', 12),
+    ('delegate_refresher', 'Delegate refresher', 'Refresher for site, shift and company delegates', '{}', 24)
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO public.training_courses (code, name, description, required_for_roles, validity_months, refresher_course_id)
+VALUES
+    (
+        'hsr_initial',
+        'HSR initial OHS course',
+        'Five-day initial course for elected health and safety representatives',
+        ARRAY['hsr', 'health_safety_committee', 'ohs_committee_chair'],
+        12,
+        (SELECT id FROM public.training_courses WHERE code = 'hsr_refresher')
+    ),
+    (
+        'delegate_foundation',
+        'Delegate foundation course',
+        'Introductory course for newly elected delegates',
+        ARRAY['site_delegate', 'shift_delegate', 'company_delegate'],
+        24,
+        (SELECT id FROM public.training_courses WHERE code = 'delegate_refresher')
+    )
+ON CONFLICT (code) DO NOTHING;
+
+-- ============================================================================
+-- Participation records
+-- ============================================================================
+
+ALTER TABLE public.training_participation
+    ADD COLUMN IF NOT EXISTS course_id uuid REFERENCES public.training_courses(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS union_role_id uuid REFERENCES public.union_roles(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS refresher_due_on date,
+    ADD COLUMN IF NOT EXISTS notes text,
+    ADD COLUMN IF NOT EXISTS recorded_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.training_participation.union_role_id IS
+    'Union role the training was undertaken for, if any';
+COMMENT ON COLUMN public.training_participation.refresher_due_on IS
+    'Completion date plus the course validity; set by trigger, NULL when the course never lapses or the training was not completed';
+
+CREATE INDEX IF NOT EXISTS idx_training_participation_worker_course
+    ON public.training_participation (worker_id, course_id, date DESC)
+    WHERE status = 'completed';
+
+CREATE OR REPLACE FUNCTION public.set_training_refresher_due()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_code text;
+    v_validity_months integer;
+BEGIN
+    IF NEW.course_id IS NULL THEN
+        NEW.refresher_due_on := NULL;
+        RETURN NEW;
+    END IF;
+
+    SELECT code, validity_months INTO v_code, v_validity_months
+    FROM public.training_courses
+    WHERE id = NEW.course_id;
+
+    NEW.training_type := coalesce(nullif(NEW.training_type, ''), v_code);
+
+    IF NEW.status = 'completed' AND v_validity_months IS NOT NULL THEN
+        NEW.refresher_due_on := (NEW.date + make_interval(months => v_validity_months))::date;
+    ELSE
+        NEW.refresher_due_on := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_training_participation_refresher_due ON public.training_participation;
+CREATE TRIGGER trg_training_participation_refresher_due
+    BEFORE INSERT OR UPDATE OF course_id, date, status ON public.training_participation
+    FOR EACH ROW EXECUTE FUNCTION public.set_training_refresher_due();
+
+-- Lead organisers were left out of the original policies
+DROP POLICY IF EXISTS "Lead organisers can manage training participation" ON public.training_participation;
+CREATE POLICY "Lead organisers can manage training participation"
+    ON public.training_participation FOR ALL
+    TO authenticated
+    USING (public.get_user_role(auth.uid()) = 'lead_organiser')
+    WITH CHECK (public.get_user_role(auth.uid()) = 'lead_organiser');
+
+-- ============================================================================
+-- Mirror union role training dates
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.sync_union_role_training_dates()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_initial_id uuid;
+    v_refresher_id uuid;
+BEGIN
+    IF NEW.worker_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT id, refresher_course_id INTO v_initial_id, v_refresher_id
+    FROM public.training_courses
+    WHERE code = 'hsr_initial';
+
+    IF v_initial_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.ohs_training_date IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.training_participation
+        WHERE worker_id = NEW.worker_id AND course_id = v_initial_id AND date = NEW.ohs_training_date
+    ) THEN
+        INSERT INTO public.training_participation (worker_id, course_id, union_role_id, training_type, date, status)
+        VALUES (NEW.worker_id, v_initial_id, NEW.id, 'hsr_initial', NEW.ohs_training_date, 'completed');
+    END IF;
+
+    IF NEW.ohs_refresher_training_date IS NOT NULL AND v_refresher_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM public.training_participation
+        WHERE worker_id = NEW.worker_id AND course_id = v_refresher_id AND date = NEW.ohs_refresher_training_date
+    ) THEN
+        INSERT INTO public.training_participation (worker_id, course_id, union_role_id, training_type, date, status)
+        VALUES (NEW.worker_id, v_refresher_id, NEW.id, 'hsr_refresher', NEW.ohs_refresher_training_date, 'completed');
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_union_roles_sync_training ON public.union_roles;
+CREATE TRIGGER trg_union_roles_sync_training
+    AFTER INSERT OR UPDATE OF ohs_training_date, ohs_refresher_training_date ON public.union_roles
+    FOR EACH ROW EXECUTE FUNCTION public.sync_union_role_training_dates();
+
+-- Backfill from dates already on union roles
+INSERT INTO public.training_participation (worker_id, course_id, union_role_id, training_type, date, status)
+SELECT DISTINCT ON (ur.worker_id, ur.ohs_training_date)
+    ur.worker_id, c.id, ur.id, c.code, ur.ohs_training_date, 'completed'::public.training_status
+FROM public.union_roles ur
+JOIN public.training_courses c ON c.code = 'hsr_initial'
+WHERE ur.worker_id IS NOT NULL
+  AND ur.ohs_training_date IS NOT NULL
+  AND NOT EXISTS (
+      SELECT 1 FROM public.training_participation tp
+      WHERE tp.worker_id = ur.worker_id AND tp.course_id = c.id AND tp.date = ur.ohs_training_date
+  );
+
+INSERT INTO public.training_participation (worker_id, course_id, union_role_id, training_type, date, status)
+SELECT DISTINCT ON (ur.worker_id, ur.ohs_refresher_training_date)
+    ur.worker_id, c.id, ur.id, c.code, ur.ohs_refresher_training_date, 'completed'::public.training_status
+FROM public.union_roles ur
+JOIN public.training_courses c ON c.code = 'hsr_refresher'
+WHERE ur.worker_id IS NOT NULL
+  AND ur.ohs_refresher_training_date IS NOT NULL
+  AND NOT EXISTS (
+      SELECT 1 FROM public.training_participation tp
+      WHERE tp.worker_id = ur.worker_id AND tp.course_id = c.id AND tp.date = ur.ohs_refresher_training_date
+  );
+
+-- ============================================================================
+-- Training status per active rep
+-- ============================================================================
+
+CREATE OR REPLACE VIEW public.v_worker_training_status
+WITH (security_invoker = true) AS
+SELECT
+    ur.id AS union_role_id,
+    ur.worker_id,
+    w.first_name,
+    w.surname,
+    ur.name::text AS union_role,
+    ur.job_site_id,
+    js.name AS job_site_name,
+    js.project_id,
+    p.name AS project_name,
+    c.id AS course_id,
+    c.code AS course_code,
+    c.name AS course_name,
+    last_completion.date AS last_completed_on,
+    last_completion.course_id AS last_completed_course_id,
+    last_completion.refresher_due_on AS due_on,
+    CASE
+        WHEN last_completion.date IS NULL THEN 'never_trained'
+        WHEN last_completion.refresher_due_on IS NULL THEN 'current'
+        WHEN last_completion.refresher_due_on < CURRENT_DATE THEN 'overdue'
+        WHEN last_completion.refresher_due_on <= CURRENT_DATE + 60 THEN 'due_soon'
+        ELSE 'current'
+    END AS status
+FROM public.union_roles ur
+JOIN public.training_courses c
+    ON c.is_active AND ur.name::text = ANY (c.required_for_roles)
+JOIN public.workers w ON w.id = ur.worker_id
+LEFT JOIN public.job_sites js ON js.id = ur.job_site_id
+LEFT JOIN public.projects p ON p.id = js.project_id
+LEFT JOIN LATERAL (
+    SELECT tp.date, tp.course_id, tp.refresher_due_on
+    FROM public.training_participation tp
+    WHERE tp.worker_id = ur.worker_id
+      AND tp.status = 'completed'
+      AND (tp.course_id = c.id OR tp.course_id = c.refresher_course_id)
+    ORDER BY tp.date DESC
+    LIMIT 1
+) last_completion ON true
+WHERE ur.end_date IS NULL OR ur.end_date > CURRENT_DATE;
+
+COMMENT ON VIEW public.v_worker_training_status IS
+    'One row per active union role and required course: latest completion, refresher due date and status (current, due_soon, overdue, never_trained)';
+
+GRANT SELECT ON public.v_worker_training_status TO authenticated;
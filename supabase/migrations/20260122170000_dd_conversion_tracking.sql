@@ -0,0 +1,164 @@
+-- ============================================================================
+-- Direct-debit conversion tracking
+-- ============================================================================
+-- dd_conversion_attempt records each time an organiser asks a worker on site
+-- to move their dues to direct debit: the visit, the worker, how they were
+-- approached (method_code) and what happened (outcome_code). The codes are
+-- fixed here and mirrored in src/lib/dd-conversion/codes.ts.
+--
+-- A 'converted' outcome moves the worker's membership to direct debit, with
+-- the mandate in progress until the membership team confirms it.
+--
+-- v_dd_conversion_attempts attaches the organiser, patches and campaigns each
+-- attempt counts towards so the funnel report can group by any of them. An
+-- attempt counts towards a campaign when its visit falls within the campaign
+-- dates and matches one of the campaign's assignments (organiser, job site,
+-- project or patch).
+-- ============================================================================
+
+ALTER TABLE public.dd_conversion_attempt
+    ADD COLUMN IF NOT EXISTS recorded_by uuid DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS notes text;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'dd_conversion_attempt_worker_id_fkey'
+    ) THEN
+        ALTER TABLE public.dd_conversion_attempt
+            ADD CONSTRAINT dd_conversion_attempt_worker_id_fkey
+            FOREIGN KEY (worker_id) REFERENCES public.workers(id) ON DELETE CASCADE;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'dd_conversion_attempt_client_generated_id_key'
+    ) THEN
+        ALTER TABLE public.dd_conversion_attempt
+            ADD CONSTRAINT dd_conversion_attempt_client_generated_id_key
+            UNIQUE (client_generated_id);
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'dd_conversion_attempt_method_code_check'
+    ) THEN
+        ALTER TABLE public.dd_conversion_attempt
+            ADD CONSTRAINT dd_conversion_attempt_method_code_check
+            CHECK (method_code IN ('paper_form', 'online_link', 'qr_code', 'phone_follow_up'));
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'dd_conversion_attempt_outcome_code_check'
+    ) THEN
+        ALTER TABLE public.dd_conversion_attempt
+            ADD CONSTRAINT dd_conversion_attempt_outcome_code_check
+            CHECK (outcome_code IN ('converted', 'follow_up', 'declined', 'already_direct_debit', 'not_eligible'));
+    END IF;
+END $$;
+
+COMMENT ON COLUMN public.dd_conversion_attempt.method_code IS
+    'How the worker was approached: paper_form, online_link, qr_code or phone_follow_up';
+COMMENT ON COLUMN public.dd_conversion_attempt.outcome_code IS
+    'Result of the attempt: converted, follow_up, declined, already_direct_debit or not_eligible';
+COMMENT ON COLUMN public.dd_conversion_attempt.client_generated_id IS
+    'Generated by the capturing device so a retried save does not record the attempt twice';
+
+DROP TRIGGER IF EXISTS update_dd_conversion_attempt_updated_at ON public.dd_conversion_attempt;
+CREATE TRIGGER update_dd_conversion_attempt_updated_at
+    BEFORE UPDATE ON public.dd_conversion_attempt
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Lead organisers were left out of the original policies
+DROP POLICY IF EXISTS "Lead organisers can manage dd conversion attempts" ON public.dd_conversion_attempt;
+CREATE POLICY "Lead organisers can manage dd conversion attempts"
+    ON public.dd_conversion_attempt FOR ALL
+    TO authenticated
+    USING (public.get_user_role(auth.uid()) = 'lead_organiser')
+    WITH CHECK (public.get_user_role(auth.uid()) = 'lead_organiser');
+
+-- ============================================================================
+-- Converted workers move to direct debit
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.apply_dd_conversion_outcome()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.worker_memberships (worker_id, payment_method, dd_status)
+    VALUES (NEW.worker_id, 'direct_debit', 'in_progress')
+    ON CONFLICT (worker_id) DO UPDATE
+        SET payment_method = 'direct_debit',
+            -- Keep a mandate that is already live; otherwise it is now pending
+            dd_status = CASE
+                WHEN public.worker_memberships.payment_method = 'direct_debit'
+                     AND public.worker_memberships.dd_status = 'active'
+                    THEN 'active'::public.dd_status_type
+                ELSE 'in_progress'::public.dd_status_type
+            END;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_dd_conversion_attempt_converted ON public.dd_conversion_attempt;
+CREATE TRIGGER trg_dd_conversion_attempt_converted
+    AFTER INSERT OR UPDATE OF outcome_code ON public.dd_conversion_attempt
+    FOR EACH ROW
+    WHEN (NEW.outcome_code = 'converted')
+    EXECUTE FUNCTION public.apply_dd_conversion_outcome();
+
+-- ============================================================================
+-- Reporting
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_dd_conversion_attempt_created_at
+    ON public.dd_conversion_attempt (created_at);
+
+CREATE OR REPLACE VIEW public.v_dd_conversion_attempts
+WITH (security_invoker = true) AS
+WITH attempts AS (
+    SELECT
+        a.id,
+        a.site_visit_id,
+        a.worker_id,
+        a.method_code,
+        a.outcome_code,
+        a.created_at,
+        sv.date AS visit_date,
+        coalesce(sv.organiser_id, a.recorded_by) AS organiser_id,
+        sv.project_id,
+        sv.job_site_id,
+        coalesce((
+            SELECT array_agg(DISTINCT ps.patch_id)
+            FROM public.v_patch_sites_current ps
+            WHERE ps.job_site_id = sv.job_site_id
+        ), '{}') AS patch_ids
+    FROM public.dd_conversion_attempt a
+    JOIN public.site_visit sv ON sv.id = a.site_visit_id
+)
+SELECT
+    attempts.*,
+    coalesce((
+        SELECT array_agg(DISTINCT c.id)
+        FROM public.campaigns c
+        JOIN public.campaign_assignments ca ON ca.campaign_id = c.id
+        WHERE attempts.visit_date::date BETWEEN c.start_date AND c.end_date
+          AND (
+              ca.organiser_id = attempts.organiser_id
+              OR ca.job_site_id = attempts.job_site_id
+              OR ca.project_id = attempts.project_id
+              OR ca.patch_id = ANY (attempts.patch_ids)
+          )
+    ), '{}') AS campaign_ids
+FROM attempts;
+
+COMMENT ON VIEW public.v_dd_conversion_attempts IS
+    'DD conversion attempts with the organiser, patches and campaigns they count towards';
+
+GRANT SELECT ON public.v_dd_conversion_attempts TO authenticated;
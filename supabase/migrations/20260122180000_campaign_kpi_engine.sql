@@ -0,0 +1,421 @@
+-- ============================================================================
+-- Campaign KPI engine
+-- ============================================================================
+-- Campaigns pick KPIs from kpi_definitions (campaign_kpis) and set targets per
+-- organiser, patch or job site (kpi_targets). Progress is recorded as
+-- kpi_events, which are now written automatically for the derived KPIs:
+--
+--   site_visits             a site visit is completed
+--   compliance_assessments  a project compliance assessment is recorded
+--   membership_joins        a worker becomes a member
+--   dd_conversions          a worker is converted to direct debit
+--
+-- An event is recorded for a campaign when the KPI is attached to it, the
+-- activity falls within the campaign dates, and the activity matches one of
+-- the campaign's assignments (organiser, job site, project or patch). A
+-- campaign with no assignments runs across the whole organisation.
+-- v_dd_conversion_attempts is brought into line with the same rule.
+--
+-- Events carry the source they came from so each source counts once per
+-- campaign KPI. A worker counts once towards membership_joins and
+-- dd_conversions however many times their status changes. Attaching a KPI or
+-- adding an assignment backfills events for activity already in the window.
+-- ============================================================================
+
+-- ============================================================================
+-- Targets per patch
+-- ============================================================================
+
+ALTER TABLE public.kpi_targets
+    ADD COLUMN IF NOT EXISTS patch_id uuid REFERENCES public.patches(id) ON DELETE CASCADE;
+
+ALTER TABLE public.kpi_targets DROP CONSTRAINT IF EXISTS kpi_targets_scope_chk;
+ALTER TABLE public.kpi_targets
+    ADD CONSTRAINT kpi_targets_scope_chk
+    CHECK (organiser_id IS NOT NULL OR job_site_id IS NOT NULL OR patch_id IS NOT NULL);
+
+DROP INDEX IF EXISTS public.kpi_targets_scope_uidx;
+CREATE UNIQUE INDEX kpi_targets_scope_uidx ON public.kpi_targets (
+    campaign_id,
+    kpi_id,
+    coalesce(organiser_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    coalesce(job_site_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    coalesce(patch_id, '00000000-0000-0000-0000-000000000000'::uuid)
+);
+
+CREATE INDEX IF NOT EXISTS idx_kpi_targets_patch_id ON public.kpi_targets (patch_id);
+
+-- Lead organisers set targets for the patches and organisers they run
+DROP POLICY IF EXISTS "Lead organisers can manage kpi targets" ON public.kpi_targets;
+CREATE POLICY "Lead organisers can manage kpi targets"
+    ON public.kpi_targets FOR ALL
+    TO authenticated
+    USING (public.get_user_role(auth.uid()) = 'lead_organiser')
+    WITH CHECK (public.get_user_role(auth.uid()) = 'lead_organiser');
+
+DROP POLICY IF EXISTS "Lead organisers can manage campaign kpis" ON public.campaign_kpis;
+CREATE POLICY "Lead organisers can manage campaign kpis"
+    ON public.campaign_kpis FOR ALL
+    TO authenticated
+    USING (public.get_user_role(auth.uid()) = 'lead_organiser')
+    WITH CHECK (public.get_user_role(auth.uid()) = 'lead_organiser');
+
+-- ============================================================================
+-- Event sources
+-- ============================================================================
+
+ALTER TABLE public.kpi_events
+    ADD COLUMN IF NOT EXISTS source_type text,
+    ADD COLUMN IF NOT EXISTS source_id uuid;
+
+-- Derived events are written by triggers and may have no human author
+ALTER TABLE public.kpi_events ALTER COLUMN created_by DROP NOT NULL;
+
+COMMENT ON COLUMN public.kpi_events.source_type IS
+    'Where a derived event came from: site_visit, project_compliance_assessment, worker_membership or dd_conversion. Null for manual events';
+COMMENT ON COLUMN public.kpi_events.source_id IS
+    'Id of the source row; the worker id for worker_membership and dd_conversion so each worker counts once';
+
+CREATE UNIQUE INDEX IF NOT EXISTS kpi_events_source_uidx
+    ON public.kpi_events (campaign_id, kpi_id, source_type, source_id)
+    WHERE source_type IS NOT NULL;
+
+-- Derived events must not block deleting or merging the records they point at
+ALTER TABLE public.kpi_events DROP CONSTRAINT IF EXISTS kpi_events_worker_id_fkey;
+ALTER TABLE public.kpi_events
+    ADD CONSTRAINT kpi_events_worker_id_fkey
+    FOREIGN KEY (worker_id) REFERENCES public.workers(id) ON DELETE CASCADE;
+
+ALTER TABLE public.kpi_events DROP CONSTRAINT IF EXISTS kpi_events_employer_id_fkey;
+ALTER TABLE public.kpi_events
+    ADD CONSTRAINT kpi_events_employer_id_fkey
+    FOREIGN KEY (employer_id) REFERENCES public.employers(id) ON DELETE SET NULL;
+
+ALTER TABLE public.kpi_events DROP CONSTRAINT IF EXISTS kpi_events_job_site_id_fkey;
+ALTER TABLE public.kpi_events
+    ADD CONSTRAINT kpi_events_job_site_id_fkey
+    FOREIGN KEY (job_site_id) REFERENCES public.job_sites(id) ON DELETE SET NULL;
+
+INSERT INTO public.kpi_definitions (code, label, unit, source, description)
+VALUES
+    ('site_visits', 'Site visits', 'count', 'derived', 'Completed site visits'),
+    ('compliance_assessments', 'Compliance assessments', 'count', 'derived', 'Project compliance assessments recorded'),
+    ('membership_joins', 'New members', 'count', 'derived', 'Workers who became members'),
+    ('dd_conversions', 'DD conversions', 'count', 'derived', 'Workers converted to direct debit')
+ON CONFLICT (code) DO NOTHING;
+
+-- Every activity that can count towards a derived KPI, in one shape
+CREATE OR REPLACE VIEW public.v_campaign_kpi_sources
+WITH (security_invoker = true) AS
+SELECT
+    'site_visits'::text AS kpi_code,
+    'site_visit'::text AS source_type,
+    sv.id AS source_id,
+    sv.organiser_id,
+    sv.job_site_id,
+    sv.project_id,
+    sv.employer_id,
+    NULL::uuid AS worker_id,
+    sv.date AS occurred_at,
+    coalesce(sv.created_by, sv.organiser_id) AS created_by
+FROM public.site_visit sv
+WHERE sv.visit_status = 'completed'
+
+UNION ALL
+
+SELECT
+    'compliance_assessments',
+    'project_compliance_assessment',
+    pca.id,
+    pca.assessor_id,
+    p.main_job_site_id,
+    pca.project_id,
+    pca.employer_id,
+    NULL::uuid,
+    pca.assessment_date::timestamptz,
+    coalesce(pca.created_by, pca.assessor_id)
+FROM public.project_compliance_assessments pca
+JOIN public.projects p ON p.id = pca.project_id
+WHERE pca.is_active
+
+UNION ALL
+
+-- Joined on the start date of the worker's current member role, falling back
+-- to when their dues record or the worker was created
+SELECT
+    'membership_joins',
+    'worker_membership',
+    w.id,
+    w.organiser_id,
+    placement.job_site_id,
+    js.project_id,
+    placement.employer_id,
+    w.id,
+    coalesce(member_role.start_date::timestamptz, wm.created_at, w.created_at),
+    w.organiser_id
+FROM public.workers w
+LEFT JOIN LATERAL (
+    SELECT ur.start_date
+    FROM public.union_roles ur
+    WHERE ur.worker_id = w.id
+      AND ur.name = 'member'
+    ORDER BY ur.start_date DESC
+    LIMIT 1
+) member_role ON true
+LEFT JOIN public.worker_memberships wm ON wm.worker_id = w.id
+LEFT JOIN LATERAL (
+    SELECT wp.job_site_id, wp.employer_id
+    FROM public.worker_placements wp
+    WHERE wp.worker_id = w.id
+    ORDER BY wp.start_date DESC
+    LIMIT 1
+) placement ON true
+LEFT JOIN public.job_sites js ON js.id = placement.job_site_id
+WHERE w.union_membership_status = 'member'
+
+UNION ALL
+
+SELECT
+    'dd_conversions',
+    'dd_conversion',
+    a.worker_id,
+    coalesce(sv.organiser_id, a.recorded_by),
+    sv.job_site_id,
+    sv.project_id,
+    NULL::uuid,
+    a.worker_id,
+    a.created_at,
+    coalesce(a.recorded_by, sv.organiser_id)
+FROM public.dd_conversion_attempt a
+JOIN public.site_visit sv ON sv.id = a.site_visit_id
+WHERE a.outcome_code = 'converted';
+
+COMMENT ON VIEW public.v_campaign_kpi_sources IS
+    'Activities that count towards derived campaign KPIs; read by record_campaign_kpi_events';
+
+-- ============================================================================
+-- Recording events
+-- ============================================================================
+
+-- Record events for one campaign (backfill) or one source (triggers).
+-- Safe to call repeatedly: existing events are left alone.
+CREATE OR REPLACE FUNCTION public.record_campaign_kpi_events(
+    p_campaign_id uuid DEFAULT NULL,
+    p_source_type text DEFAULT NULL,
+    p_source_id uuid DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_recorded integer;
+BEGIN
+    INSERT INTO public.kpi_events (
+        campaign_id, kpi_id, organiser_id, job_site_id, employer_id, worker_id,
+        value, occurred_at, created_by, source_type, source_id
+    )
+    SELECT
+        c.id, kd.id, s.organiser_id, s.job_site_id, s.employer_id, s.worker_id,
+        1, s.occurred_at, s.created_by, s.source_type, s.source_id
+    FROM public.v_campaign_kpi_sources s
+    JOIN public.kpi_definitions kd ON kd.code = s.kpi_code
+    JOIN public.campaign_kpis ck ON ck.kpi_id = kd.id
+    JOIN public.campaigns c ON c.id = ck.campaign_id
+    WHERE (p_campaign_id IS NULL OR c.id = p_campaign_id)
+      AND (p_source_type IS NULL OR (s.source_type = p_source_type AND s.source_id = p_source_id))
+      AND s.occurred_at::date BETWEEN c.start_date AND c.end_date
+      AND (
+          NOT EXISTS (
+              SELECT 1 FROM public.campaign_assignments ca WHERE ca.campaign_id = c.id
+          )
+          OR EXISTS (
+              SELECT 1
+              FROM public.campaign_assignments ca
+              WHERE ca.campaign_id = c.id
+                AND (
+                    ca.organiser_id = s.organiser_id
+                    OR ca.job_site_id = s.job_site_id
+                    OR ca.project_id = s.project_id
+                    OR EXISTS (
+                        SELECT 1
+                        FROM public.v_patch_sites_current ps
+                        WHERE ps.patch_id = ca.patch_id
+                          AND ps.job_site_id = s.job_site_id
+                    )
+                )
+          )
+      )
+    -- Earliest qualifying activity wins when a worker converts twice
+    ORDER BY s.occurred_at
+    ON CONFLICT (campaign_id, kpi_id, source_type, source_id) WHERE source_type IS NOT NULL
+    DO NOTHING;
+
+    GET DIAGNOSTICS v_recorded = ROW_COUNT;
+    RETURN v_recorded;
+END;
+$$;
+
+COMMENT ON FUNCTION public.record_campaign_kpi_events(uuid, text, uuid) IS
+    'Record derived KPI events for a campaign or a single source row; returns the number of new events';
+
+-- Only the triggers below record events, so callers can't add events to
+-- campaigns they can't see
+REVOKE EXECUTE ON FUNCTION public.record_campaign_kpi_events(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+
+-- TG_ARGV[0] is the source_type, TG_ARGV[1] the column holding the source id
+CREATE OR REPLACE FUNCTION public.trg_record_campaign_kpi_events()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.record_campaign_kpi_events(
+        NULL,
+        TG_ARGV[0],
+        (to_jsonb(NEW) ->> TG_ARGV[1])::uuid
+    );
+    RETURN NEW;
+END;
+$$;
+
+-- Removing a visit or assessment removes what it counted for
+CREATE OR REPLACE FUNCTION public.trg_remove_campaign_kpi_events()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    DELETE FROM public.kpi_events
+    WHERE source_type = TG_ARGV[0]
+      AND source_id = OLD.id;
+    RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_site_visit_campaign_kpis ON public.site_visit;
+CREATE TRIGGER trg_site_visit_campaign_kpis
+    AFTER INSERT OR UPDATE OF visit_status, date ON public.site_visit
+    FOR EACH ROW
+    WHEN (NEW.visit_status = 'completed')
+    EXECUTE FUNCTION public.trg_record_campaign_kpi_events('site_visit', 'id');
+
+DROP TRIGGER IF EXISTS trg_site_visit_campaign_kpis_delete ON public.site_visit;
+CREATE TRIGGER trg_site_visit_campaign_kpis_delete
+    AFTER DELETE ON public.site_visit
+    FOR EACH ROW
+    EXECUTE FUNCTION public.trg_remove_campaign_kpi_events('site_visit');
+
+DROP TRIGGER IF EXISTS trg_project_compliance_assessments_campaign_kpis ON public.project_compliance_assessments;
+CREATE TRIGGER trg_project_compliance_assessments_campaign_kpis
+    AFTER INSERT ON public.project_compliance_assessments
+    FOR EACH ROW
+    WHEN (NEW.is_active)
+    EXECUTE FUNCTION public.trg_record_campaign_kpi_events('project_compliance_assessment', 'id');
+
+DROP TRIGGER IF EXISTS trg_project_compliance_assessments_campaign_kpis_delete ON public.project_compliance_assessments;
+CREATE TRIGGER trg_project_compliance_assessments_campaign_kpis_delete
+    AFTER DELETE ON public.project_compliance_assessments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.trg_remove_campaign_kpi_events('project_compliance_assessment');
+
+DROP TRIGGER IF EXISTS trg_workers_campaign_kpis ON public.workers;
+CREATE TRIGGER trg_workers_campaign_kpis
+    AFTER INSERT OR UPDATE OF union_membership_status ON public.workers
+    FOR EACH ROW
+    WHEN (NEW.union_membership_status = 'member')
+    EXECUTE FUNCTION public.trg_record_campaign_kpi_events('worker_membership', 'id');
+
+-- The member role is often saved after the status, and carries the join date
+DROP TRIGGER IF EXISTS trg_union_roles_campaign_kpis ON public.union_roles;
+CREATE TRIGGER trg_union_roles_campaign_kpis
+    AFTER INSERT OR UPDATE OF start_date ON public.union_roles
+    FOR EACH ROW
+    WHEN (NEW.name = 'member' AND NEW.worker_id IS NOT NULL)
+    EXECUTE FUNCTION public.trg_record_campaign_kpi_events('worker_membership', 'worker_id');
+
+DROP TRIGGER IF EXISTS trg_dd_conversion_attempt_campaign_kpis ON public.dd_conversion_attempt;
+CREATE TRIGGER trg_dd_conversion_attempt_campaign_kpis
+    AFTER INSERT OR UPDATE OF outcome_code ON public.dd_conversion_attempt
+    FOR EACH ROW
+    WHEN (NEW.outcome_code = 'converted')
+    EXECUTE FUNCTION public.trg_record_campaign_kpi_events('dd_conversion', 'worker_id');
+
+-- ============================================================================
+-- DD conversion reporting follows the same campaign reach
+-- ============================================================================
+
+CREATE OR REPLACE VIEW public.v_dd_conversion_attempts
+WITH (security_invoker = true) AS
+WITH attempts AS (
+    SELECT
+        a.id,
+        a.site_visit_id,
+        a.worker_id,
+        a.method_code,
+        a.outcome_code,
+        a.created_at,
+        sv.date AS visit_date,
+        coalesce(sv.organiser_id, a.recorded_by) AS organiser_id,
+        sv.project_id,
+        sv.job_site_id,
+        coalesce((
+            SELECT array_agg(DISTINCT ps.patch_id)
+            FROM public.v_patch_sites_current ps
+            WHERE ps.job_site_id = sv.job_site_id
+        ), '{}') AS patch_ids
+    FROM public.dd_conversion_attempt a
+    JOIN public.site_visit sv ON sv.id = a.site_visit_id
+)
+SELECT
+    attempts.*,
+    coalesce((
+        SELECT array_agg(c.id)
+        FROM public.campaigns c
+        WHERE attempts.visit_date::date BETWEEN c.start_date AND c.end_date
+          AND (
+              NOT EXISTS (
+                  SELECT 1 FROM public.campaign_assignments ca WHERE ca.campaign_id = c.id
+              )
+              OR EXISTS (
+                  SELECT 1
+                  FROM public.campaign_assignments ca
+                  WHERE ca.campaign_id = c.id
+                    AND (
+                        ca.organiser_id = attempts.organiser_id
+                        OR ca.job_site_id = attempts.job_site_id
+                        OR ca.project_id = attempts.project_id
+                        OR ca.patch_id = ANY (attempts.patch_ids)
+                    )
+              )
+          )
+    ), '{}') AS campaign_ids
+FROM attempts;
+
+-- Attaching a KPI or widening a campaign's reach picks up activity already in the window
+CREATE OR REPLACE FUNCTION public.trg_backfill_campaign_kpi_events()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.record_campaign_kpi_events(NEW.campaign_id);
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_campaign_kpis_backfill ON public.campaign_kpis;
+CREATE TRIGGER trg_campaign_kpis_backfill
+    AFTER INSERT ON public.campaign_kpis
+    FOR EACH ROW
+    EXECUTE FUNCTION public.trg_backfill_campaign_kpi_events();
+
+DROP TRIGGER IF EXISTS trg_campaign_assignments_backfill ON public.campaign_assignments;
+CREATE TRIGGER trg_campaign_assignments_backfill
+    AFTER INSERT ON public.campaign_assignments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.trg_backfill_campaign_kpi_events();
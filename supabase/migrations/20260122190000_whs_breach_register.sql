@@ -0,0 +1,198 @@
+-- ============================================================================
+-- WHS breach register
+-- ============================================================================
+-- whs_breach was only reachable through whs_assessment, which nothing writes.
+-- Breaches are now logged straight from a site visit against the employer,
+-- project and site, with a category, severity, photos and an optional
+-- SafeWork notice reference. The codes are fixed here and mirrored in
+-- src/lib/whs-breaches/codes.ts.
+--
+-- Each breach moves forward through open -> notified -> rectified -> closed
+-- (steps may be skipped). The first time a breach is rectified or closed it
+-- is stamped resolved_at, which lets the rating engine work out which
+-- breaches were still unresolved on any given date.
+-- ============================================================================
+
+ALTER TABLE public.whs_breach
+    ALTER COLUMN whs_assessment_id DROP NOT NULL,
+    ALTER COLUMN rating_code DROP NOT NULL;
+
+ALTER TABLE public.whs_breach
+    ADD COLUMN IF NOT EXISTS site_visit_id uuid REFERENCES public.site_visit(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS employer_id uuid REFERENCES public.employers(id) ON DELETE CASCADE,
+    ADD COLUMN IF NOT EXISTS project_id uuid REFERENCES public.projects(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS job_site_id uuid REFERENCES public.job_sites(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS category text NOT NULL DEFAULT 'other',
+    ADD COLUMN IF NOT EXISTS severity text NOT NULL DEFAULT 'medium',
+    ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'open',
+    ADD COLUMN IF NOT EXISTS safework_notice_ref text,
+    ADD COLUMN IF NOT EXISTS photo_paths text[] NOT NULL DEFAULT '{}',
+    ADD COLUMN IF NOT EXISTS identified_at timestamptz NOT NULL DEFAULT now(),
+    ADD COLUMN IF NOT EXISTS notified_at timestamptz,
+    ADD COLUMN IF NOT EXISTS rectified_at timestamptz,
+    ADD COLUMN IF NOT EXISTS closed_at timestamptz,
+    ADD COLUMN IF NOT EXISTS resolved_at timestamptz,
+    ADD COLUMN IF NOT EXISTS client_generated_id uuid,
+    ADD COLUMN IF NOT EXISTS reported_by uuid DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+-- Breaches recorded through an assessment take their visit's context
+UPDATE public.whs_breach b
+SET site_visit_id = sv.id,
+    employer_id = coalesce(b.employer_id, sv.employer_id),
+    project_id = coalesce(b.project_id, sv.project_id),
+    job_site_id = coalesce(b.job_site_id, sv.job_site_id),
+    identified_at = b.created_at
+FROM public.whs_assessment wa
+JOIN public.site_visit sv ON sv.id = wa.site_visit_id
+WHERE wa.id = b.whs_assessment_id
+  AND b.site_visit_id IS NULL;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'whs_breach_category_check'
+    ) THEN
+        ALTER TABLE public.whs_breach
+            ADD CONSTRAINT whs_breach_category_check
+            CHECK (category IN (
+                'working_at_heights', 'scaffolding', 'electrical', 'plant_machinery',
+                'excavation', 'silica_dust', 'asbestos', 'traffic_management',
+                'amenities', 'housekeeping', 'ppe', 'other'
+            ));
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'whs_breach_severity_check'
+    ) THEN
+        ALTER TABLE public.whs_breach
+            ADD CONSTRAINT whs_breach_severity_check
+            CHECK (severity IN ('low', 'medium', 'high', 'critical'));
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'whs_breach_status_check'
+    ) THEN
+        ALTER TABLE public.whs_breach
+            ADD CONSTRAINT whs_breach_status_check
+            CHECK (status IN ('open', 'notified', 'rectified', 'closed'));
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'whs_breach_client_generated_id_key'
+    ) THEN
+        ALTER TABLE public.whs_breach
+            ADD CONSTRAINT whs_breach_client_generated_id_key
+            UNIQUE (client_generated_id);
+    END IF;
+END $$;
+
+COMMENT ON COLUMN public.whs_breach.category IS
+    'Hazard area, e.g. working_at_heights, scaffolding, electrical, asbestos or other';
+COMMENT ON COLUMN public.whs_breach.severity IS
+    'low, medium, high or critical. High and critical breaches feed the Track 1 safety component while unresolved';
+COMMENT ON COLUMN public.whs_breach.status IS
+    'open, notified, rectified or closed; only ever moves forward';
+COMMENT ON COLUMN public.whs_breach.safework_notice_ref IS
+    'Reference of an improvement or prohibition notice issued by SafeWork, when one was issued';
+COMMENT ON COLUMN public.whs_breach.photo_paths IS
+    'Object paths in the whs-breach-photos storage bucket';
+COMMENT ON COLUMN public.whs_breach.resolved_at IS
+    'When the breach was first rectified or closed';
+COMMENT ON COLUMN public.whs_breach.client_generated_id IS
+    'Generated by the capturing device so a retried save does not log the breach twice';
+
+CREATE INDEX IF NOT EXISTS idx_whs_breach_employer_id ON public.whs_breach (employer_id);
+CREATE INDEX IF NOT EXISTS idx_whs_breach_project_id ON public.whs_breach (project_id);
+CREATE INDEX IF NOT EXISTS idx_whs_breach_site_visit_id ON public.whs_breach (site_visit_id);
+CREATE INDEX IF NOT EXISTS idx_whs_breach_unresolved
+    ON public.whs_breach (employer_id, severity)
+    WHERE resolved_at IS NULL;
+
+-- ============================================================================
+-- Status lifecycle
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.track_whs_breach_status()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_order text[] := ARRAY['open', 'notified', 'rectified', 'closed'];
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status THEN
+        IF array_position(v_order, NEW.status) < array_position(v_order, OLD.status) THEN
+            RAISE EXCEPTION 'WHS breach cannot move from % back to %', OLD.status, NEW.status;
+        END IF;
+    END IF;
+
+    IF NEW.status = 'notified' AND NEW.notified_at IS NULL THEN
+        NEW.notified_at := now();
+    END IF;
+    IF NEW.status = 'rectified' AND NEW.rectified_at IS NULL THEN
+        NEW.rectified_at := now();
+    END IF;
+    IF NEW.status = 'closed' AND NEW.closed_at IS NULL THEN
+        NEW.closed_at := now();
+    END IF;
+    IF NEW.status IN ('rectified', 'closed') AND NEW.resolved_at IS NULL THEN
+        NEW.resolved_at := coalesce(NEW.rectified_at, NEW.closed_at);
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_track_whs_breach_status ON public.whs_breach;
+CREATE TRIGGER trg_track_whs_breach_status
+    BEFORE INSERT OR UPDATE OF status ON public.whs_breach
+    FOR EACH ROW EXECUTE FUNCTION public.track_whs_breach_status();
+
+DROP TRIGGER IF EXISTS update_whs_breach_updated_at ON public.whs_breach;
+CREATE TRIGGER update_whs_breach_updated_at
+    BEFORE UPDATE ON public.whs_breach
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Lead organisers were left out of the original policies
+DROP POLICY IF EXISTS "Lead organisers can manage whs breaches" ON public.whs_breach;
+CREATE POLICY "Lead organisers can manage whs breaches"
+    ON public.whs_breach FOR ALL
+    TO authenticated
+    USING (public.get_user_role(auth.uid()) = 'lead_organiser')
+    WITH CHECK (public.get_user_role(auth.uid()) = 'lead_organiser');
+
+-- ============================================================================
+-- Breach photos
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'whs-breach-photos',
+    'whs-breach-photos',
+    false,
+    10485760, -- 10MB
+    ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/heic']
+)
+ON CONFLICT (id) DO UPDATE SET
+    public = false,
+    file_size_limit = 10485760,
+    allowed_mime_types = ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/heic'];
+
+DROP POLICY IF EXISTS "Organisers can upload whs breach photos" ON storage.objects;
+CREATE POLICY "Organisers can upload whs breach photos"
+    ON storage.objects FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        bucket_id = 'whs-breach-photos'
+        AND (storage.foldername(name))[1] = auth.uid()::text
+        AND public.get_user_role(auth.uid()) IN ('admin', 'lead_organiser', 'organiser')
+    );
+
+DROP POLICY IF EXISTS "Authenticated users can view whs breach photos" ON storage.objects;
+CREATE POLICY "Authenticated users can view whs breach photos"
+    ON storage.objects FOR SELECT
+    TO authenticated
+    USING (bucket_id = 'whs-breach-photos');
@@ -0,0 +1,19 @@
+-- ============================================================================
+-- Incremental help document embedding
+-- ============================================================================
+-- scripts/embed-docs.ts records a hash of the text it embedded and the model
+-- that produced the vector, so `--incremental` runs only re-embed documents
+-- whose text or embedding model has changed since the last run.
+-- ============================================================================
+
+ALTER TABLE public.help_documents
+    ADD COLUMN IF NOT EXISTS content_hash text,
+    ADD COLUMN IF NOT EXISTS embedding_model text,
+    ADD COLUMN IF NOT EXISTS embedded_at timestamptz;
+
+COMMENT ON COLUMN public.help_documents.content_hash IS
+    'sha256 of the text the embedding was generated from; null when the document has not been embedded';
+COMMENT ON COLUMN public.help_documents.embedding_model IS
+    'Embedding model that produced the stored vector';
+COMMENT ON COLUMN public.help_documents.embedded_at IS
+    'When the stored vector was generated';
@@ -0,0 +1,84 @@
+-- ============================================================================
+-- Help assistant tool call audit
+-- ============================================================================
+-- The help assistant can now look up projects, employer EBA status, patch
+-- summaries and ratings through read-only tools run under the user's own
+-- session. Every tool invocation (name, input, outcome, record count, timing)
+-- is kept on the interaction it belongs to.
+-- ============================================================================
+
+ALTER TABLE public.help_interactions
+    ADD COLUMN IF NOT EXISTS tool_calls jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.help_interactions.tool_calls IS
+    'Tool invocations made while answering: [{tool, input, status, error, record_count, duration_ms, invoked_at}]';
+
+CREATE INDEX IF NOT EXISTS help_interactions_with_tool_calls_idx
+    ON public.help_interactions (created_at)
+    WHERE tool_calls <> '[]'::jsonb;
+
+-- Replace the logging RPC with one that also takes the tool calls. The old
+-- signature is dropped so callers can't log an interaction without them.
+DROP FUNCTION IF EXISTS public.log_help_interaction(uuid, text, text, numeric, jsonb, jsonb, text, integer, integer);
+
+CREATE OR REPLACE FUNCTION public.log_help_interaction(
+  p_user_id uuid,
+  p_question text,
+  p_answer text,
+  p_confidence numeric,
+  p_context jsonb,
+  p_sources jsonb,
+  p_ai_provider text,
+  p_tokens_used integer,
+  p_response_time_ms integer,
+  p_tool_calls jsonb DEFAULT '[]'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  -- Users can only log their own interactions
+  IF auth.uid() IS DISTINCT FROM p_user_id THEN
+    RETURN jsonb_build_object(
+      'error', 'Unauthorized',
+      'status', 403
+    );
+  END IF;
+
+  INSERT INTO help_interactions (
+    user_id,
+    question,
+    answer,
+    confidence,
+    context,
+    sources,
+    ai_provider,
+    tokens_used,
+    response_time_ms,
+    tool_calls
+  ) VALUES (
+    p_user_id,
+    p_question,
+    p_answer,
+    p_confidence,
+    p_context,
+    p_sources,
+    p_ai_provider,
+    p_tokens_used,
+    p_response_time_ms,
+    COALESCE(p_tool_calls, '[]'::jsonb)
+  )
+  RETURNING id INTO v_id;
+
+  RETURN jsonb_build_object('success', true, 'id', v_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.log_help_interaction(uuid, text, text, numeric, jsonb, jsonb, text, integer, integer, jsonb) TO authenticated;
+
+COMMENT ON FUNCTION public.log_help_interaction(uuid, text, text, numeric, jsonb, jsonb, text, integer, integer, jsonb) IS
+  'Logs a help chat interaction and any tool calls made while answering it. Validates that users can only log their own interactions.';
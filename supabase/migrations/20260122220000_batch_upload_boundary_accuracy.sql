@@ -0,0 +1,41 @@
+-- ============================================================================
+-- Batch upload boundary detection accuracy
+-- ============================================================================
+-- Project boundaries in batch PDFs are now detected from the MappingSheets
+-- form layout, with AI analysis only as a low-confidence fallback. Each batch
+-- records which method produced the suggested boundaries, how confident it
+-- was, and how many of the suggested page ranges the uploader kept unchanged.
+-- ============================================================================
+
+ALTER TABLE public.batch_uploads
+    ADD COLUMN IF NOT EXISTS boundary_detection_method text,
+    ADD COLUMN IF NOT EXISTS boundary_detection_confidence numeric(4,3),
+    ADD COLUMN IF NOT EXISTS boundary_detected_count integer,
+    ADD COLUMN IF NOT EXISTS boundary_matched_count integer,
+    ADD COLUMN IF NOT EXISTS boundary_accuracy numeric(4,3);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'batch_uploads_boundary_accuracy_range'
+  ) THEN
+    ALTER TABLE public.batch_uploads
+      ADD CONSTRAINT batch_uploads_boundary_accuracy_range
+      CHECK (boundary_accuracy IS NULL OR (boundary_accuracy >= 0 AND boundary_accuracy <= 1));
+  END IF;
+END $$;
+
+COMMENT ON COLUMN public.batch_uploads.boundary_detection_method IS
+    'How suggested project boundaries were found: layout_anchors, or the AI detection method when layout confidence was low. NULL when boundaries were entered manually';
+COMMENT ON COLUMN public.batch_uploads.boundary_detection_confidence IS
+    'Overall confidence reported by the detector (0-1)';
+COMMENT ON COLUMN public.batch_uploads.boundary_detected_count IS
+    'Number of projects the detector suggested';
+COMMENT ON COLUMN public.batch_uploads.boundary_matched_count IS
+    'Suggested page ranges the uploader kept unchanged';
+COMMENT ON COLUMN public.batch_uploads.boundary_accuracy IS
+    'Matched ranges divided by the larger of suggested and confirmed project counts (0-1)';
+
+CREATE INDEX IF NOT EXISTS batch_uploads_boundary_method_idx
+    ON public.batch_uploads (boundary_detection_method, created_at)
+    WHERE boundary_detection_method IS NOT NULL;
@@ -0,0 +1,169 @@
+-- ============================================================================
+-- Employer ABN validation, register details and shared-ABN report
+-- ============================================================================
+-- Every write to employers.abn now goes through the ATO checksum, whichever
+-- form, import or API route it comes from. ABNs are stored as 11 bare digits.
+-- Existing valid ABNs are rewritten to that form once so lookups by ABN find
+-- them. Other rows are only checked when their ABN changes, so legacy values
+-- don't block unrelated edits.
+--
+-- Details returned by the ABN lookup (legal name, GST registration, status)
+-- are kept on the employer, and admins get a report of employers that share
+-- an ABN for the duplicate employer manager.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.is_valid_abn(p_abn text)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_digits text := regexp_replace(COALESCE(p_abn, ''), '[[:space:].-]', '', 'g');
+  v_weights integer[] := ARRAY[10, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19];
+  v_sum integer := 0;
+BEGIN
+  IF v_digits !~ '^[1-9][0-9]{10}$' THEN
+    RETURN false;
+  END IF;
+
+  FOR i IN 1..11 LOOP
+    v_sum := v_sum + (substr(v_digits, i, 1)::integer - CASE WHEN i = 1 THEN 1 ELSE 0 END) * v_weights[i];
+  END LOOP;
+
+  RETURN v_sum % 89 = 0;
+END;
+$$;
+
+COMMENT ON FUNCTION public.is_valid_abn(text) IS
+    'ATO ABN checksum: subtract 1 from the first digit, weight the digits 10,1,3,5,...,19 and the sum must divide by 89. Spaces, dots and dashes are ignored';
+
+ALTER TABLE public.employers
+    ADD COLUMN IF NOT EXISTS abn_legal_name text,
+    ADD COLUMN IF NOT EXISTS abn_gst_registered boolean,
+    ADD COLUMN IF NOT EXISTS abn_status text,
+    ADD COLUMN IF NOT EXISTS abn_checked_at timestamptz;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'employers_abn_status_check'
+  ) THEN
+    ALTER TABLE public.employers
+      ADD CONSTRAINT employers_abn_status_check
+      CHECK (abn_status IS NULL OR abn_status IN ('active', 'cancelled'));
+  END IF;
+END $$;
+
+COMMENT ON COLUMN public.employers.abn_legal_name IS
+    'Entity name on the Australian Business Register for the employer ABN';
+COMMENT ON COLUMN public.employers.abn_gst_registered IS
+    'Whether the ABN was registered for GST when last checked';
+COMMENT ON COLUMN public.employers.abn_status IS
+    'ABN status on the register when last checked: active or cancelled';
+COMMENT ON COLUMN public.employers.abn_checked_at IS
+    'When the ABN was last looked up. Cleared with the other register details when the ABN changes';
+
+CREATE OR REPLACE FUNCTION public.employers_validate_abn()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.abn IS NOT DISTINCT FROM OLD.abn THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.abn := NULLIF(regexp_replace(COALESCE(NEW.abn, ''), '[[:space:].-]', '', 'g'), '');
+
+  IF NEW.abn IS NOT NULL AND NOT public.is_valid_abn(NEW.abn) THEN
+    RAISE EXCEPTION 'ABN % is not valid', NEW.abn
+      USING ERRCODE = 'check_violation',
+            HINT = 'An ABN is 11 digits that pass the ATO checksum';
+  END IF;
+
+  -- Register details describe the previous ABN unless this write refreshed them
+  IF TG_OP = 'UPDATE'
+     AND NEW.abn IS DISTINCT FROM OLD.abn
+     AND NEW.abn_checked_at IS NOT DISTINCT FROM OLD.abn_checked_at THEN
+    NEW.abn_legal_name := NULL;
+    NEW.abn_gst_registered := NULL;
+    NEW.abn_status := NULL;
+    NEW.abn_checked_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS employers_validate_abn ON public.employers;
+CREATE TRIGGER employers_validate_abn
+    BEFORE INSERT OR UPDATE OF abn ON public.employers
+    FOR EACH ROW
+    EXECUTE FUNCTION public.employers_validate_abn();
+
+-- Existing ABNs typed with spaces or punctuation would never equal a normalised
+-- lookup. Values that fail the checksum are left for the shared-ABN report
+UPDATE public.employers
+SET abn = regexp_replace(abn, '[[:space:].-]', '', 'g')
+WHERE abn ~ '[[:space:].-]'
+  AND public.is_valid_abn(abn);
+
+-- Employers whose ABNs normalise to the same digits, for duplicate review
+CREATE OR REPLACE FUNCTION public.find_employers_sharing_abn()
+RETURNS TABLE (
+  abn text,
+  abn_valid boolean,
+  employer_count integer,
+  employers jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'lead_organiser')
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - admin or lead_organiser role required'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  WITH normalized AS (
+    SELECT
+      e.id,
+      e.name,
+      e.created_at,
+      e.abn_legal_name,
+      regexp_replace(e.abn, '[[:space:].-]', '', 'g') AS abn_digits
+    FROM employers e
+    WHERE e.abn IS NOT NULL
+      AND btrim(e.abn) <> ''
+  )
+  SELECT
+    n.abn_digits,
+    public.is_valid_abn(n.abn_digits),
+    count(*)::integer,
+    jsonb_agg(
+      jsonb_build_object(
+        'id', n.id,
+        'name', n.name,
+        'created_at', n.created_at,
+        'abn_legal_name', n.abn_legal_name
+      )
+      ORDER BY n.created_at
+    )
+  FROM normalized n
+  GROUP BY n.abn_digits
+  HAVING count(*) > 1
+  ORDER BY count(*) DESC, n.abn_digits;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_valid_abn(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.find_employers_sharing_abn() TO authenticated;
+
+COMMENT ON FUNCTION public.find_employers_sharing_abn() IS
+    'Groups of two or more employers with the same ABN once spaces and punctuation are removed. Admin and lead organiser only';
@@ -0,0 +1,570 @@
+-- ============================================================================
+-- Data integration schema
+-- ============================================================================
+-- Generated from src/lib/data-integration/schema/SchemaRegistry.ts with
+-- npm run generate-data-integration-migration.
+-- Change the registry and regenerate rather than editing the SQL by hand.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Tables
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS public.data_quality_assessments (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    table_name text NOT NULL,
+    record_count integer DEFAULT 0,
+    assessment_date timestamptz NOT NULL,
+    overall_score numeric NOT NULL,
+    dimension_scores jsonb NOT NULL,
+    rule_results jsonb NOT NULL,
+    trends jsonb,
+    recommendations text[],
+    created_at timestamptz DEFAULT now()
+);
+
+COMMENT ON TABLE public.data_quality_assessments IS 'Scored data quality assessments per table';
+CREATE INDEX IF NOT EXISTS idx_quality_assessments_table_date ON public.data_quality_assessments (table_name, assessment_date);
+CREATE INDEX IF NOT EXISTS idx_quality_assessments_score ON public.data_quality_assessments (overall_score);
+
+ALTER TABLE public.data_quality_assessments ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS data_quality_assessments_authenticated_access ON public.data_quality_assessments;
+CREATE POLICY data_quality_assessments_authenticated_access ON public.data_quality_assessments
+    FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS public.data_quality_rules (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL,
+    description text,
+    table_name text NOT NULL,
+    field_name text,
+    rule_type text NOT NULL,
+    severity text NOT NULL,
+    enabled boolean DEFAULT true,
+    parameters jsonb NOT NULL,
+    threshold numeric DEFAULT 80,
+    weight numeric DEFAULT 1.0,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+COMMENT ON TABLE public.data_quality_rules IS 'Configurable data quality rules evaluated by the quality monitor';
+CREATE INDEX IF NOT EXISTS idx_quality_rules_table_enabled ON public.data_quality_rules (table_name, enabled);
+
+ALTER TABLE public.data_quality_rules ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS data_quality_rules_authenticated_access ON public.data_quality_rules;
+CREATE POLICY data_quality_rules_authenticated_access ON public.data_quality_rules
+    FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS public.data_quality_issues (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    table_name text NOT NULL,
+    record_id text,
+    field_name text,
+    rule_id uuid REFERENCES public.data_quality_rules(id),
+    rule_name text NOT NULL,
+    issue_type text NOT NULL,
+    severity text NOT NULL,
+    description text NOT NULL,
+    current_value jsonb,
+    expected_value jsonb,
+    detected_at timestamptz DEFAULT now(),
+    status text DEFAULT 'open',
+    resolved_at timestamptz,
+    resolved_by text,
+    resolution text
+);
+
+COMMENT ON TABLE public.data_quality_issues IS 'Individual records that failed a data quality rule';
+CREATE INDEX IF NOT EXISTS idx_quality_issues_table_severity ON public.data_quality_issues (table_name, severity, detected_at);
+CREATE INDEX IF NOT EXISTS idx_quality_issues_status ON public.data_quality_issues (status, detected_at);
+
+ALTER TABLE public.data_quality_issues ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS data_quality_issues_authenticated_access ON public.data_quality_issues;
+CREATE POLICY data_quality_issues_authenticated_access ON public.data_quality_issues
+    FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS public.data_quality_trends (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    table_name text NOT NULL,
+    assessment_date timestamptz NOT NULL,
+    overall_score numeric NOT NULL,
+    dimension_scores jsonb NOT NULL,
+    issue_count integer DEFAULT 0,
+    record_count integer DEFAULT 0,
+    created_at timestamptz DEFAULT now()
+);
+
+COMMENT ON TABLE public.data_quality_trends IS 'Quality score history used for trend analysis';
+CREATE INDEX IF NOT EXISTS idx_quality_trends_table_date ON public.data_quality_trends (table_name, assessment_date);
+
+ALTER TABLE public.data_quality_trends ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS data_quality_trends_authenticated_access ON public.data_quality_trends;
+CREATE POLICY data_quality_trends_authenticated_access ON public.data_quality_trends
+    FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS public.sync_metrics (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    source_table text NOT NULL,
+    sync_date timestamptz NOT NULL,
+    total_records integer DEFAULT 0,
+    successful_syncs integer DEFAULT 0,
+    failed_syncs integer DEFAULT 0,
+    average_processing_time numeric DEFAULT 0,
+    data_quality_score numeric DEFAULT 0,
+    conflict_count integer DEFAULT 0,
+    resolution_time numeric DEFAULT 0,
+    recorded_at timestamptz DEFAULT now()
+);
+
+COMMENT ON TABLE public.sync_metrics IS 'Per-table synchronisation throughput and error counts';
+CREATE INDEX IF NOT EXISTS idx_sync_metrics_source_date ON public.sync_metrics (source_table, sync_date);
+CREATE INDEX IF NOT EXISTS idx_sync_metrics_recorded_at ON public.sync_metrics (recorded_at);
+
+ALTER TABLE public.sync_metrics ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS sync_metrics_authenticated_access ON public.sync_metrics;
+CREATE POLICY sync_metrics_authenticated_access ON public.sync_metrics
+    FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS public.performance_metrics (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    operation text NOT NULL,
+    execution_time numeric NOT NULL,
+    memory_usage numeric DEFAULT 0,
+    cpu_usage numeric DEFAULT 0,
+    records_processed integer DEFAULT 0,
+    throughput numeric DEFAULT 0,
+    timestamp timestamptz NOT NULL,
+    error_rate numeric DEFAULT 0,
+    dimensions jsonb,
+    recorded_at timestamptz DEFAULT now()
+);
+
+COMMENT ON TABLE public.performance_metrics IS 'Timing and resource usage of data integration operations';
+CREATE INDEX IF NOT EXISTS idx_performance_metrics_operation ON public.performance_metrics (operation, timestamp);
+CREATE INDEX IF NOT EXISTS idx_performance_metrics_timestamp ON public.performance_metrics (timestamp);
+
+ALTER TABLE public.performance_metrics ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS performance_metrics_authenticated_access ON public.performance_metrics;
+CREATE POLICY performance_metrics_authenticated_access ON public.performance_metrics
+    FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS public.data_quality_metrics (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    table_name text NOT NULL,
+    record_count integer DEFAULT 0,
+    completeness_score numeric DEFAULT 0,
+    accuracy_score numeric DEFAULT 0,
+    consistency_score numeric DEFAULT 0,
+    validity_score numeric DEFAULT 0,
+    last_assessed timestamptz NOT NULL,
+    issues jsonb,
+    recorded_at timestamptz DEFAULT now()
+);
+
+COMMENT ON TABLE public.data_quality_metrics IS 'Quality dimension scores recorded alongside sync metrics';
+CREATE INDEX IF NOT EXISTS idx_data_quality_table_assessed ON public.data_quality_metrics (table_name, last_assessed);
+CREATE INDEX IF NOT EXISTS idx_data_quality_score ON public.data_quality_metrics (completeness_score, accuracy_score);
+
+ALTER TABLE public.data_quality_metrics ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS data_quality_metrics_authenticated_access ON public.data_quality_metrics;
+CREATE POLICY data_quality_metrics_authenticated_access ON public.data_quality_metrics
+    FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS public.metrics_alerts (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    alert_type text NOT NULL,
+    severity text NOT NULL CHECK (severity IN ('info', 'warning', 'error', 'critical')),
+    component text NOT NULL,
+    message text NOT NULL,
+    metric_name text,
+    actual_value jsonb,
+    threshold_value jsonb,
+    triggered_at timestamptz DEFAULT now(),
+    acknowledged boolean DEFAULT false,
+    acknowledged_by text,
+    acknowledged_at timestamptz,
+    resolved boolean DEFAULT false,
+    resolved_at timestamptz
+);
+
+COMMENT ON TABLE public.metrics_alerts IS 'Alerts raised when sync or performance metrics cross their thresholds';
+CREATE INDEX IF NOT EXISTS idx_metrics_alerts_severity ON public.metrics_alerts (severity, triggered_at);
+CREATE INDEX IF NOT EXISTS idx_metrics_alerts_component ON public.metrics_alerts (component, triggered_at);
+
+ALTER TABLE public.metrics_alerts ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS metrics_alerts_authenticated_access ON public.metrics_alerts;
+CREATE POLICY metrics_alerts_authenticated_access ON public.metrics_alerts
+    FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS public.sync_events (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id text NOT NULL UNIQUE,
+    table_name text NOT NULL,
+    operation text NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE')),
+    record_id text NOT NULL,
+    old_data jsonb,
+    new_data jsonb,
+    changed_fields text[],
+    event_timestamp timestamptz DEFAULT now(),
+    processed boolean DEFAULT false,
+    processed_at timestamptz,
+    error text
+);
+
+COMMENT ON TABLE public.sync_events IS 'Row changes captured by the sync triggers for incremental sync';
+CREATE INDEX IF NOT EXISTS idx_sync_events_table_processed ON public.sync_events (table_name, processed, event_timestamp);
+CREATE INDEX IF NOT EXISTS idx_sync_events_record ON public.sync_events (table_name, record_id);
+
+ALTER TABLE public.sync_events ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS sync_events_authenticated_access ON public.sync_events;
+CREATE POLICY sync_events_authenticated_access ON public.sync_events
+    FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS public.sync_errors (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    error_id text NOT NULL UNIQUE,
+    table_name text NOT NULL,
+    record_id text NOT NULL,
+    operation text NOT NULL,
+    error_message text NOT NULL,
+    error_details jsonb,
+    error_timestamp timestamptz DEFAULT now(),
+    resolved boolean DEFAULT false,
+    resolved_at timestamptz
+);
+
+COMMENT ON TABLE public.sync_errors IS 'Changes the sync triggers failed to record';
+CREATE INDEX IF NOT EXISTS idx_sync_errors_table_resolved ON public.sync_errors (table_name, resolved, error_timestamp);
+
+ALTER TABLE public.sync_errors ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS sync_errors_authenticated_access ON public.sync_errors;
+CREATE POLICY sync_errors_authenticated_access ON public.sync_errors
+    FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS public.database_triggers (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL UNIQUE,
+    table_name text NOT NULL,
+    events text[] NOT NULL,
+    function_name text NOT NULL,
+    enabled boolean DEFAULT true,
+    priority integer DEFAULT 0,
+    conditions text,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+COMMENT ON TABLE public.database_triggers IS 'Registered sync triggers and whether each is enabled';
+CREATE INDEX IF NOT EXISTS idx_database_triggers_table_enabled ON public.database_triggers (table_name, enabled);
+
+ALTER TABLE public.database_triggers ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS database_triggers_authenticated_access ON public.database_triggers;
+CREATE POLICY database_triggers_authenticated_access ON public.database_triggers
+    FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS public.migration_pipelines (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL,
+    description text,
+    status text NOT NULL,
+    phases jsonb NOT NULL,
+    current_phase integer DEFAULT 0,
+    started_at timestamptz,
+    completed_at timestamptz,
+    total_records integer DEFAULT 0,
+    processed_records integer DEFAULT 0,
+    error_count integer DEFAULT 0,
+    rollback_available boolean DEFAULT false
+);
+
+COMMENT ON TABLE public.migration_pipelines IS 'Historical data migration pipelines and their progress';
+
+ALTER TABLE public.migration_pipelines ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS migration_pipelines_authenticated_access ON public.migration_pipelines;
+CREATE POLICY migration_pipelines_authenticated_access ON public.migration_pipelines
+    FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS public.migration_discovery_results (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    pipeline_id text NOT NULL,
+    phase_id text NOT NULL,
+    table_name text NOT NULL,
+    estimated_records integer,
+    actual_records integer,
+    discovery_date timestamptz DEFAULT now()
+);
+
+COMMENT ON TABLE public.migration_discovery_results IS 'Record counts found while discovering source tables for a migration phase';
+
+ALTER TABLE public.migration_discovery_results ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS migration_discovery_results_authenticated_access ON public.migration_discovery_results;
+CREATE POLICY migration_discovery_results_authenticated_access ON public.migration_discovery_results
+    FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS public.migration_validation_reports (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    pipeline_id text NOT NULL,
+    phase_id text NOT NULL,
+    table_name text NOT NULL,
+    total_records integer,
+    valid_records integer,
+    invalid_records integer,
+    validation_details jsonb,
+    validated_at timestamptz DEFAULT now()
+);
+
+COMMENT ON TABLE public.migration_validation_reports IS 'Validation results for migrated records per phase and table';
+
+ALTER TABLE public.migration_validation_reports ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS migration_validation_reports_authenticated_access ON public.migration_validation_reports;
+CREATE POLICY migration_validation_reports_authenticated_access ON public.migration_validation_reports
+    FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS public.migration_transformed_data (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    pipeline_id text NOT NULL,
+    phase_id text NOT NULL,
+    source_table text NOT NULL,
+    source_record_id text NOT NULL,
+    transformed_data jsonb NOT NULL,
+    transformed_at timestamptz DEFAULT now()
+);
+
+COMMENT ON TABLE public.migration_transformed_data IS 'Transformed records staged between migration phases';
+
+ALTER TABLE public.migration_transformed_data ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS migration_transformed_data_authenticated_access ON public.migration_transformed_data;
+CREATE POLICY migration_transformed_data_authenticated_access ON public.migration_transformed_data
+    FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE TABLE IF NOT EXISTS public.migration_audit_log (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    pipeline_id text NOT NULL,
+    action text NOT NULL,
+    actor text NOT NULL,
+    object_type text NOT NULL,
+    object_id text NOT NULL,
+    old_values jsonb,
+    new_values jsonb,
+    timestamp timestamptz DEFAULT now()
+);
+
+COMMENT ON TABLE public.migration_audit_log IS 'Audit trail of actions taken by migration pipelines';
+
+ALTER TABLE public.migration_audit_log ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS migration_audit_log_authenticated_access ON public.migration_audit_log;
+CREATE POLICY migration_audit_log_authenticated_access ON public.migration_audit_log
+    FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+-- ----------------------------------------------------------------------------
+-- Functions
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.get_data_integration_schema_snapshot(p_tables text[], p_functions text[], p_triggers text[])
+RETURNS jsonb
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'tables', COALESCE((
+      SELECT jsonb_object_agg(t.table_name, t.columns)
+      FROM (
+        SELECT c.table_name, jsonb_object_agg(c.column_name, c.udt_name) AS columns
+        FROM information_schema.columns c
+        WHERE c.table_schema = 'public'
+          AND c.table_name = ANY (p_tables)
+        GROUP BY c.table_name
+      ) t
+    ), '{}'::jsonb),
+    'functions', COALESCE((
+      SELECT jsonb_agg(DISTINCT p.proname)
+      FROM pg_proc p
+      JOIN pg_namespace n ON n.oid = p.pronamespace
+      WHERE n.nspname = 'public'
+        AND p.proname = ANY (p_functions)
+    ), '[]'::jsonb),
+    'triggers', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', tg.tgname,
+        'table', cl.relname,
+        'enabled', tg.tgenabled <> 'D'
+      ))
+      FROM pg_trigger tg
+      JOIN pg_class cl ON cl.oid = tg.tgrelid
+      JOIN pg_namespace n ON n.oid = cl.relnamespace
+      WHERE n.nspname = 'public'
+        AND NOT tg.tgisinternal
+        AND tg.tgname = ANY (p_triggers)
+    ), '[]'::jsonb)
+  );
+$$;
+
+COMMENT ON FUNCTION public.get_data_integration_schema_snapshot(text[], text[], text[]) IS 'Columns, functions and triggers that exist for the named data integration objects, for drift checks';
+GRANT EXECUTE ON FUNCTION public.get_data_integration_schema_snapshot(text[], text[], text[]) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.log_sync_event(p_table_name text, p_operation text, p_record_id text, p_old_data jsonb, p_new_data jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_changed_fields text[];
+  v_event_id text := 'sync_event_' || EXTRACT(EPOCH FROM clock_timestamp())::text || '_' || substr(md5(random()::text), 1, 8);
+BEGIN
+  IF p_operation = 'UPDATE' AND p_old_data IS NOT NULL AND p_new_data IS NOT NULL THEN
+    SELECT ARRAY_AGG(key) INTO v_changed_fields
+    FROM jsonb_object_keys(p_new_data) AS key
+    WHERE p_new_data -> key IS DISTINCT FROM p_old_data -> key;
+  END IF;
+
+  INSERT INTO public.sync_events (
+    event_id, table_name, operation, record_id, old_data, new_data, changed_fields, event_timestamp, processed
+  ) VALUES (
+    v_event_id, p_table_name, p_operation, p_record_id, p_old_data, p_new_data,
+    COALESCE(v_changed_fields, ARRAY[]::text[]), now(), false
+  );
+EXCEPTION WHEN OTHERS THEN
+  -- Never fail the write that fired the trigger
+  INSERT INTO public.sync_errors (
+    error_id, table_name, record_id, operation, error_message, error_timestamp
+  ) VALUES (
+    'error_' || v_event_id, p_table_name, COALESCE(p_record_id, ''), p_operation, SQLERRM, now()
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.log_sync_event(text, text, text, jsonb, jsonb) IS 'Records one row change in sync_events, or in sync_errors if it cannot be recorded';
+REVOKE EXECUTE ON FUNCTION public.log_sync_event(text, text, text, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.capture_sync_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old jsonb := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  v_new jsonb := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+BEGIN
+  PERFORM public.log_sync_event(
+    TG_TABLE_NAME,
+    TG_OP,
+    COALESCE(v_new ->> 'id', v_old ->> 'id'),
+    v_old,
+    v_new
+  );
+  RETURN NULL;
+END;
+$$;
+
+COMMENT ON FUNCTION public.capture_sync_event() IS 'Trigger function shared by the sync triggers; passes the changed row to log_sync_event';
+
+CREATE OR REPLACE FUNCTION public.set_sync_trigger_enabled(p_trigger_name text, p_enabled boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_table_name text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - admin role required'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT table_name INTO v_table_name
+  FROM public.database_triggers
+  WHERE name = p_trigger_name;
+
+  IF v_table_name IS NULL THEN
+    RAISE EXCEPTION 'Trigger % is not a registered sync trigger', p_trigger_name
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  EXECUTE format(
+    'ALTER TABLE public.%I %s TRIGGER %I',
+    v_table_name,
+    CASE WHEN p_enabled THEN 'ENABLE' ELSE 'DISABLE' END,
+    p_trigger_name
+  );
+
+  UPDATE public.database_triggers
+  SET enabled = p_enabled,
+      updated_at = now()
+  WHERE name = p_trigger_name;
+END;
+$$;
+
+COMMENT ON FUNCTION public.set_sync_trigger_enabled(text, boolean) IS 'Enables or disables a registered sync trigger. Admin only';
+GRANT EXECUTE ON FUNCTION public.set_sync_trigger_enabled(text, boolean) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Triggers
+-- ----------------------------------------------------------------------------
+
+DROP TRIGGER IF EXISTS employers_trigger ON public.employers;
+CREATE TRIGGER employers_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON public.employers
+    FOR EACH ROW
+    EXECUTE FUNCTION public.capture_sync_event();
+ALTER TABLE public.employers DISABLE TRIGGER employers_trigger;
+
+DROP TRIGGER IF EXISTS projects_trigger ON public.projects;
+CREATE TRIGGER projects_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON public.projects
+    FOR EACH ROW
+    EXECUTE FUNCTION public.capture_sync_event();
+ALTER TABLE public.projects DISABLE TRIGGER projects_trigger;
+
+DROP TRIGGER IF EXISTS project_assignments_trigger ON public.project_assignments;
+CREATE TRIGGER project_assignments_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON public.project_assignments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.capture_sync_event();
+ALTER TABLE public.project_assignments DISABLE TRIGGER project_assignments_trigger;
+
+DROP TRIGGER IF EXISTS employer_compliance_checks_trigger ON public.employer_compliance_checks;
+CREATE TRIGGER employer_compliance_checks_trigger
+    AFTER INSERT OR UPDATE ON public.employer_compliance_checks
+    FOR EACH ROW
+    EXECUTE FUNCTION public.capture_sync_event();
+ALTER TABLE public.employer_compliance_checks DISABLE TRIGGER employer_compliance_checks_trigger;
+
+DROP TRIGGER IF EXISTS site_visit_trigger ON public.site_visit;
+CREATE TRIGGER site_visit_trigger
+    AFTER INSERT OR UPDATE ON public.site_visit
+    FOR EACH ROW
+    EXECUTE FUNCTION public.capture_sync_event();
+ALTER TABLE public.site_visit DISABLE TRIGGER site_visit_trigger;
+
+DROP TRIGGER IF EXISTS company_eba_records_trigger ON public.company_eba_records;
+CREATE TRIGGER company_eba_records_trigger
+    AFTER INSERT OR UPDATE OR DELETE ON public.company_eba_records
+    FOR EACH ROW
+    EXECUTE FUNCTION public.capture_sync_event();
+ALTER TABLE public.company_eba_records DISABLE TRIGGER company_eba_records_trigger;
+
+INSERT INTO public.database_triggers (name, table_name, events, function_name, enabled, priority, conditions)
+VALUES
+    ('employers_trigger', 'employers', ARRAY['INSERT', 'UPDATE', 'DELETE'], 'capture_sync_event', false, 100, NULL),
+    ('projects_trigger', 'projects', ARRAY['INSERT', 'UPDATE', 'DELETE'], 'capture_sync_event', false, 90, NULL),
+    ('project_assignments_trigger', 'project_assignments', ARRAY['INSERT', 'UPDATE', 'DELETE'], 'capture_sync_event', false, 85, NULL),
+    ('employer_compliance_checks_trigger', 'employer_compliance_checks', ARRAY['INSERT', 'UPDATE'], 'capture_sync_event', false, 80, NULL),
+    ('site_visit_trigger', 'site_visit', ARRAY['INSERT', 'UPDATE'], 'capture_sync_event', false, 75, NULL),
+    ('company_eba_records_trigger', 'company_eba_records', ARRAY['INSERT', 'UPDATE', 'DELETE'], 'capture_sync_event', false, 70, NULL)
+ON CONFLICT (name) DO UPDATE SET
+    table_name = EXCLUDED.table_name,
+    events = EXCLUDED.events,
+    function_name = EXCLUDED.function_name,
+    enabled = EXCLUDED.enabled,
+    priority = EXCLUDED.priority,
+    conditions = EXCLUDED.conditions,
+    updated_at = now();
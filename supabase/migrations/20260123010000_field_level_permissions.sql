@@ -0,0 +1,212 @@
+-- ============================================================================
+-- Field-level permissions
+-- ============================================================================
+-- entity_fields, field_permissions and delegate_field_permissions have existed
+-- since the remote schema but nothing read them. The API routes now resolve
+-- them through get_field_permissions and redact hidden fields from responses
+-- and reject writes to fields the caller can't edit.
+--
+-- Resolution, most specific first:
+--   1. admins can view and edit everything
+--   2. delegates: overrides set by an organiser they report to
+--      (delegate_field_permissions via role_hierarchy)
+--   3. field_permissions for the caller's role ('public_form' for tokens)
+--   4. entity_fields.default_viewable / default_editable
+-- A field that can't be viewed can't be edited.
+--
+-- worker_memberships has no API route; the app reads and writes it directly,
+-- so a trigger rejects inserts and updates that set fields the caller can't
+-- edit and the worker view hides the rest.
+--
+-- The seeded fields default to viewable and editable, so nothing changes until
+-- an admin restricts them in the field permissions matrix.
+-- ============================================================================
+
+ALTER TABLE public.entity_fields DROP CONSTRAINT IF EXISTS entity_fields_entity_type_check;
+ALTER TABLE public.entity_fields ADD CONSTRAINT entity_fields_entity_type_check CHECK (
+  entity_type = ANY (ARRAY[
+    'workers', 'employers', 'projects', 'job_sites', 'company_eba_records',
+    'union_activities', 'worker_memberships', 'site_contacts'
+  ])
+);
+
+ALTER TABLE public.field_permissions DROP CONSTRAINT IF EXISTS field_permissions_role_check;
+ALTER TABLE public.field_permissions ADD CONSTRAINT field_permissions_role_check CHECK (
+  role = ANY (ARRAY['admin', 'lead_organiser', 'organiser', 'delegate', 'viewer', 'public_form'])
+);
+
+-- Overrides could only grant or withhold edit; hiding a field from delegates
+-- needs a view flag too
+ALTER TABLE public.delegate_field_permissions
+  ADD COLUMN IF NOT EXISTS can_view boolean NOT NULL DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS idx_field_permissions_entity_field_id
+  ON public.field_permissions (entity_field_id);
+
+INSERT INTO public.entity_fields
+  (entity_type, field_name, field_label, field_type, is_sensitive, default_viewable, default_editable)
+VALUES
+  ('workers', 'email', 'Email', 'email', true, true, true),
+  ('workers', 'mobile_phone', 'Mobile phone', 'phone', true, true, true),
+  ('workers', 'nickname', 'Nickname', 'text', false, true, true),
+  ('workers', 'member_number', 'Member number', 'text', true, true, true),
+  ('workers', 'union_membership_status', 'Membership status', 'select', true, true, true),
+  ('workers', 'incolink_member_id', 'Incolink member ID', 'text', true, true, true),
+  ('worker_memberships', 'payment_method', 'Payment method', 'select', true, true, true),
+  ('worker_memberships', 'dd_status', 'Direct debit status', 'select', true, true, true),
+  ('worker_memberships', 'dd_mandate_id', 'Direct debit mandate', 'text', true, true, true),
+  ('worker_memberships', 'arrears_amount', 'Arrears', 'number', true, true, true),
+  ('employers', 'abn', 'ABN', 'text', false, true, true),
+  ('employers', 'email', 'Email', 'email', false, true, true),
+  ('employers', 'phone', 'Phone', 'phone', false, true, true),
+  ('employers', 'website', 'Website', 'text', false, true, true),
+  ('employers', 'estimated_worker_count', 'Estimated workers', 'number', false, true, true),
+  ('employers', 'incolink_id', 'Incolink ID', 'text', true, true, true),
+  ('projects', 'value', 'Project value', 'number', false, true, true),
+  ('projects', 'roe_email', 'Right of entry email', 'email', false, true, true),
+  ('projects', 'state_funding', 'State funding', 'number', false, true, true),
+  ('projects', 'federal_funding', 'Federal funding', 'number', false, true, true),
+  ('site_contacts', 'name', 'Name', 'text', false, true, true),
+  ('site_contacts', 'email', 'Email', 'email', true, true, true),
+  ('site_contacts', 'phone', 'Phone', 'phone', true, true, true)
+ON CONFLICT (entity_type, field_name) DO NOTHING;
+
+-- ----------------------------------------------------------------------------
+-- Resolved permissions for the caller
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.get_field_permissions(
+  p_entity_types text[],
+  p_public_form boolean DEFAULT false
+)
+RETURNS TABLE (entity_type text, field_name text, can_view boolean, can_edit boolean)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_role text;
+BEGIN
+  IF p_public_form THEN
+    v_role := 'public_form';
+  ELSE
+    SELECT p.role INTO v_role FROM profiles p WHERE p.id = auth.uid();
+  END IF;
+
+  IF v_role = 'admin' THEN
+    RETURN QUERY
+      SELECT ef.entity_type, ef.field_name, true, true
+      FROM entity_fields ef
+      WHERE ef.entity_type = ANY (p_entity_types);
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+    WITH delegate_overrides AS (
+      SELECT dfp.entity_field_id,
+             bool_or(dfp.can_view) AS can_view,
+             bool_or(dfp.can_edit) AS can_edit
+      FROM delegate_field_permissions dfp
+      JOIN role_hierarchy rh ON rh.parent_user_id = dfp.organiser_id
+      WHERE v_role = 'delegate'
+        AND rh.child_user_id = auth.uid()
+        AND rh.is_active
+        AND rh.start_date <= CURRENT_DATE
+        AND (rh.end_date IS NULL OR rh.end_date >= CURRENT_DATE)
+      GROUP BY dfp.entity_field_id
+    ),
+    resolved AS (
+      SELECT ef.entity_type,
+             ef.field_name,
+             COALESCE(d.can_view, fp.can_view, ef.default_viewable) AS can_view,
+             COALESCE(d.can_edit, fp.can_edit, ef.default_editable) AS can_edit
+      FROM entity_fields ef
+      LEFT JOIN field_permissions fp ON fp.entity_field_id = ef.id AND fp.role = v_role
+      LEFT JOIN delegate_overrides d ON d.entity_field_id = ef.id
+      WHERE ef.entity_type = ANY (p_entity_types)
+    )
+    SELECT r.entity_type, r.field_name, r.can_view, r.can_view AND r.can_edit
+    FROM resolved r;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_field_permissions(text[], boolean) IS
+  'Field-level view/edit permissions for the calling user, or for public form tokens when p_public_form is set.';
+
+GRANT EXECUTE ON FUNCTION public.get_field_permissions(text[], boolean) TO anon, authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Write guard for tables the app updates directly
+-- ----------------------------------------------------------------------------
+
+-- Only changed values are checked, so forms that send a view-only field back
+-- unchanged still save. A new row may only carry a restricted field at its
+-- column default, or null where there is none. Service-role and token RPC
+-- writes (no auth.uid()) are checked by the API routes instead.
+CREATE OR REPLACE FUNCTION public.enforce_field_edit_permissions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_new jsonb := to_jsonb(NEW);
+  v_old jsonb;
+  v_restricted text[];
+  v_blocked text[];
+  v_field text;
+  v_default text;
+  v_default_value jsonb;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT array_agg(fp.field_name) INTO v_restricted
+  FROM get_field_permissions(ARRAY[TG_TABLE_NAME]) fp
+  WHERE NOT fp.can_edit;
+
+  IF v_restricted IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    v_old := '{}'::jsonb;
+    FOR v_field, v_default IN
+      SELECT c.column_name, c.column_default
+      FROM information_schema.columns c
+      WHERE c.table_schema = TG_TABLE_SCHEMA
+        AND c.table_name = TG_TABLE_NAME
+        AND c.column_name = ANY (v_restricted)
+        AND c.column_default IS NOT NULL
+    LOOP
+      EXECUTE format('SELECT to_jsonb(%s)', v_default) INTO v_default_value;
+      v_old := v_old || jsonb_build_object(v_field, v_default_value);
+    END LOOP;
+  ELSE
+    v_old := to_jsonb(OLD);
+  END IF;
+
+  SELECT array_agg(f ORDER BY f) INTO v_blocked
+  FROM unnest(v_restricted) AS f
+  WHERE COALESCE(v_new -> f, 'null'::jsonb) IS DISTINCT FROM COALESCE(v_old -> f, 'null'::jsonb);
+
+  IF v_blocked IS NOT NULL THEN
+    RAISE EXCEPTION 'You do not have permission to edit: %', array_to_string(v_blocked, ', ')
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+COMMENT ON FUNCTION public.enforce_field_edit_permissions() IS
+  'Rejects inserts and updates that set fields the caller cannot edit according to get_field_permissions.';
+
+DROP TRIGGER IF EXISTS worker_memberships_field_permissions ON public.worker_memberships;
+CREATE TRIGGER worker_memberships_field_permissions
+  BEFORE INSERT OR UPDATE ON public.worker_memberships
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_field_edit_permissions();
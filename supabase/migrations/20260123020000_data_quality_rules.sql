@@ -0,0 +1,311 @@
+-- ============================================================================
+-- Data integration schema drift
+-- ============================================================================
+-- Generated from src/lib/data-integration/schema/SchemaRegistry.ts with
+-- npm run generate-data-integration-migration -- --drift.
+-- Change the registry and regenerate rather than editing the SQL by hand.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Tables
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE public.data_quality_issues ADD COLUMN IF NOT EXISTS record_label text;
+
+ALTER TABLE public.data_quality_issues ADD COLUMN IF NOT EXISTS record_context jsonb;
+
+ALTER TABLE public.data_quality_issues ADD COLUMN IF NOT EXISTS assigned_to uuid REFERENCES public.profiles(id);
+
+ALTER TABLE public.data_quality_issues ADD COLUMN IF NOT EXISTS assigned_by uuid REFERENCES public.profiles(id);
+
+ALTER TABLE public.data_quality_issues ADD COLUMN IF NOT EXISTS assigned_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_quality_issues_assigned_to ON public.data_quality_issues (assigned_to, status);
+
+-- ----------------------------------------------------------------------------
+-- Functions
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.data_quality_condition_sql(p_alias text, p_condition jsonb)
+RETURNS text
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_column text;
+  v_values text[];
+BEGIN
+  IF COALESCE(p_condition ->> 'field', '') = '' THEN
+    RAISE EXCEPTION 'Data quality conditions need a field'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  v_column := format('%I.%I', p_alias, p_condition ->> 'field');
+
+  CASE p_condition ->> 'operator'
+    WHEN 'eq' THEN
+      RETURN format('%s::text = %L', v_column, p_condition ->> 'value');
+    WHEN 'neq' THEN
+      RETURN format('%s::text IS DISTINCT FROM %L', v_column, p_condition ->> 'value');
+    WHEN 'in' THEN
+      SELECT array_agg(value) INTO v_values
+      FROM jsonb_array_elements_text(COALESCE(p_condition -> 'value', '[]'::jsonb)) AS value;
+      RETURN format('%s::text = ANY (%L::text[])', v_column, COALESCE(v_values, ARRAY[]::text[]));
+    WHEN 'blank' THEN
+      RETURN format('NULLIF(btrim(%s::text), '''') IS NULL', v_column);
+    WHEN 'not_blank' THEN
+      RETURN format('NULLIF(btrim(%s::text), '''') IS NOT NULL', v_column);
+    ELSE
+      RAISE EXCEPTION 'Unknown data quality condition operator: %', p_condition ->> 'operator'
+        USING ERRCODE = 'invalid_parameter_value';
+  END CASE;
+END;
+$$;
+
+COMMENT ON FUNCTION public.data_quality_condition_sql(text, jsonb) IS 'SQL predicate for one data quality rule condition on the given table alias';
+REVOKE EXECUTE ON FUNCTION public.data_quality_condition_sql(text, jsonb) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.build_data_quality_rule_query(p_table text, p_parameters jsonb, p_violations_only boolean)
+RETURNS text
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_check jsonb := p_parameters -> 'check';
+  v_field text := p_parameters -> 'check' ->> 'field';
+  v_where text[] := ARRAY['true'];
+  v_related text[];
+  v_condition jsonb;
+  v_violation text;
+BEGIN
+  IF to_regclass(format('public.%I', p_table)) IS NULL THEN
+    RAISE EXCEPTION 'Unknown table: %', p_table
+      USING ERRCODE = 'undefined_table';
+  END IF;
+
+  FOR v_condition IN
+    SELECT * FROM jsonb_array_elements(COALESCE(p_parameters -> 'scope', '[]'::jsonb))
+  LOOP
+    v_where := v_where || public.data_quality_condition_sql('t', v_condition);
+  END LOOP;
+
+  IF p_violations_only THEN
+    IF v_check ->> 'kind' IN ('allowed_values', 'pattern', 'unique') AND COALESCE(v_field, '') = '' THEN
+      RAISE EXCEPTION 'The % check needs a field', v_check ->> 'kind'
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    CASE v_check ->> 'kind'
+      WHEN 'required' THEN
+        SELECT string_agg(
+          public.data_quality_condition_sql('t', jsonb_build_object('field', field, 'operator', 'blank')),
+          ' OR '
+        ) INTO v_violation
+        FROM jsonb_array_elements_text(COALESCE(v_check -> 'fields', '[]'::jsonb)) AS field;
+      WHEN 'allowed_values' THEN
+        v_violation := format(
+          't.%I IS NOT NULL AND NOT (%s)',
+          v_field,
+          public.data_quality_condition_sql('t', jsonb_build_object('field', v_field, 'operator', 'in', 'value', v_check -> 'values'))
+        );
+      WHEN 'pattern' THEN
+        v_violation := format(
+          'NULLIF(btrim(t.%I::text), '''') IS NOT NULL AND t.%I::text !~ %L',
+          v_field, v_field, v_check ->> 'pattern'
+        );
+      WHEN 'unique' THEN
+        v_violation := format(
+          't.%I IS NOT NULL AND EXISTS (SELECT 1 FROM public.%I d WHERE d.%I = t.%I AND d.id <> t.id)',
+          v_field, p_table, v_field, v_field
+        );
+      WHEN 'has_related' THEN
+        IF to_regclass(format('public.%I', v_check ->> 'table')) IS NULL
+          OR COALESCE(v_check ->> 'foreignKey', '') = '' THEN
+          RAISE EXCEPTION 'The has_related check needs a known table and foreign key'
+            USING ERRCODE = 'invalid_parameter_value';
+        END IF;
+
+        v_related := ARRAY[format('r.%I = t.id', v_check ->> 'foreignKey')];
+        FOR v_condition IN
+          SELECT * FROM jsonb_array_elements(COALESCE(v_check -> 'conditions', '[]'::jsonb))
+        LOOP
+          v_related := v_related || public.data_quality_condition_sql('r', v_condition);
+        END LOOP;
+
+        v_violation := format(
+          'NOT EXISTS (SELECT 1 FROM public.%I r WHERE %s)',
+          v_check ->> 'table',
+          array_to_string(v_related, ' AND ')
+        );
+      ELSE
+        RAISE EXCEPTION 'Unknown data quality check: %', v_check ->> 'kind'
+          USING ERRCODE = 'invalid_parameter_value';
+    END CASE;
+
+    IF v_violation IS NULL THEN
+      RAISE EXCEPTION 'The % check has nothing to test', v_check ->> 'kind'
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    v_where := v_where || format('(%s)', v_violation);
+  END IF;
+
+  RETURN format(
+    'SELECT t.id::text AS record_id, to_jsonb(t) AS record FROM public.%I t WHERE %s',
+    p_table,
+    array_to_string(v_where, ' AND ')
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.build_data_quality_rule_query(text, jsonb, boolean) IS 'Query returning record_id and record for rows in the rule scope, or only the rows failing its check';
+REVOKE EXECUTE ON FUNCTION public.build_data_quality_rule_query(text, jsonb, boolean) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.data_quality_record_label(p_record jsonb)
+RETURNS text
+LANGUAGE sql
+AS $$
+  SELECT COALESCE(
+    NULLIF(p_record ->> 'name', ''),
+    NULLIF(concat_ws(' ', p_record ->> 'first_name', p_record ->> 'surname'), ''),
+    NULLIF(p_record ->> 'full_name', ''),
+    NULLIF(p_record ->> 'location', ''),
+    p_record ->> 'id'
+  );
+$$;
+
+COMMENT ON FUNCTION public.data_quality_record_label(jsonb) IS 'Human readable label for a record returned by a data quality rule';
+REVOKE EXECUTE ON FUNCTION public.data_quality_record_label(jsonb) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.preview_data_quality_rule(p_table text, p_parameters jsonb, p_sample_size integer)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_total bigint;
+  v_offending bigint;
+  v_sample jsonb;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - admin role required'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  EXECUTE format('SELECT count(*) FROM (%s) q', public.build_data_quality_rule_query(p_table, p_parameters, false))
+    INTO v_total;
+  EXECUTE format('SELECT count(*) FROM (%s) q', public.build_data_quality_rule_query(p_table, p_parameters, true))
+    INTO v_offending;
+  EXECUTE format(
+    'SELECT COALESCE(jsonb_agg(jsonb_build_object(''recordId'', q.record_id, ''label'', public.data_quality_record_label(q.record))), ''[]''::jsonb)
+     FROM (%s LIMIT %s) q',
+    public.build_data_quality_rule_query(p_table, p_parameters, true),
+    GREATEST(0, LEAST(COALESCE(p_sample_size, 10), 50))
+  ) INTO v_sample;
+
+  RETURN jsonb_build_object('total', v_total, 'offending', v_offending, 'sample', v_sample);
+END;
+$$;
+
+COMMENT ON FUNCTION public.preview_data_quality_rule(text, jsonb, integer) IS 'Counts rows in scope and rows failing an unsaved data quality rule, with a sample. Admin only';
+GRANT EXECUTE ON FUNCTION public.preview_data_quality_rule(text, jsonb, integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.run_data_quality_rule(p_rule_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rule public.data_quality_rules%ROWTYPE;
+  v_query text;
+  v_fields text[];
+  v_total bigint;
+  v_offending bigint;
+  v_created bigint;
+  v_resolved integer;
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized - admin role required'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_rule FROM public.data_quality_rules WHERE id = p_rule_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Data quality rule % not found', p_rule_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  v_query := public.build_data_quality_rule_query(v_rule.table_name, v_rule.parameters, true);
+
+  SELECT array_agg(DISTINCT field) INTO v_fields
+  FROM (
+    SELECT jsonb_array_elements_text(COALESCE(v_rule.parameters -> 'check' -> 'fields', '[]'::jsonb)) AS field
+    UNION ALL SELECT v_rule.parameters -> 'check' ->> 'field'
+    UNION ALL SELECT v_rule.field_name
+  ) checked
+  WHERE field IS NOT NULL;
+
+  EXECUTE format('SELECT count(*) FROM (%s) q', public.build_data_quality_rule_query(v_rule.table_name, v_rule.parameters, true))
+    INTO v_offending;
+  EXECUTE format('SELECT count(*) FROM (%s) q', public.build_data_quality_rule_query(v_rule.table_name, v_rule.parameters, false))
+    INTO v_total;
+
+  EXECUTE format($run$
+    WITH inserted AS (
+      INSERT INTO public.data_quality_issues (
+        table_name, record_id, record_label, record_context, field_name, rule_id, rule_name,
+        issue_type, severity, description, current_value, status
+      )
+      SELECT
+        $1, v.record_id, public.data_quality_record_label(v.record),
+        jsonb_strip_nulls(jsonb_build_object('project_id', v.record -> 'project_id')),
+        $2, $3, $4, 'quality_rule_violation', $5, $6,
+        (SELECT jsonb_object_agg(f.field, v.record -> f.field) FROM unnest($7::text[]) AS f(field)),
+        'open'
+      FROM (%s) v
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.data_quality_issues i
+        WHERE i.rule_id = $3
+          AND i.record_id = v.record_id
+          AND i.status IN ('open', 'investigating')
+      )
+      RETURNING 1
+    )
+    SELECT count(*) FROM inserted
+  $run$, v_query)
+  INTO v_created
+  USING v_rule.table_name, v_rule.field_name, v_rule.id, v_rule.name, v_rule.severity,
+        COALESCE(v_rule.description, v_rule.name), COALESCE(v_fields, ARRAY[]::text[]);
+
+  EXECUTE format($run$
+    UPDATE public.data_quality_issues i
+    SET status = 'resolved',
+        resolved_at = now(),
+        resolution = 'No longer fails the rule'
+    WHERE i.rule_id = $1
+      AND i.status IN ('open', 'investigating')
+      AND NOT EXISTS (SELECT 1 FROM (%s) v WHERE v.record_id = i.record_id)
+  $run$, v_query)
+  USING v_rule.id;
+  GET DIAGNOSTICS v_resolved = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'total', v_total,
+    'offending', v_offending,
+    'created', v_created,
+    'resolved', v_resolved,
+    'score', CASE WHEN v_total > 0 THEN round(100.0 * (v_total - v_offending) / v_total, 2) ELSE 100 END
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.run_data_quality_rule(uuid) IS 'Evaluates a saved data quality rule, opening an issue per failing record and resolving issues that now pass. Admin or service role only';
+GRANT EXECUTE ON FUNCTION public.run_data_quality_rule(uuid) TO authenticated;
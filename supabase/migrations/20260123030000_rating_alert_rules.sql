@@ -0,0 +1,534 @@
+-- ============================================================================
+-- Rating alert rules and subscriptions
+-- ============================================================================
+-- rating_alerts existed but nothing decided when an alert should fire. Admins
+-- now configure rules in rating_alert_rules; a trigger on
+-- employer_final_ratings evaluates every enabled rule whenever
+-- create_or_update_final_rating writes a rating, and the dashboard worker runs
+-- a daily sweep for ratings that expire without being recalculated.
+--
+-- Rule types and their parameters:
+--   rating_drop        {"from": ["green"], "to": ["red"]}   previous -> new final rating
+--   confidence_below   {"minimum": "medium"}                overall confidence below minimum
+--   track_divergence   {"levels": 2}                        project vs expertise rating gap
+--   rating_expired     {}                                   expiry_date has passed
+--
+-- rating_drop is a transition and fires on every matching change. The other
+-- rules describe a state: they raise one open alert per employer and resolve
+-- it once a later rating no longer meets the condition.
+--
+-- Organisers subscribe to a patch (every employer on its projects) or to a
+-- single employer, choosing in-app and/or digest delivery. Each subscriber
+-- gets a rating_alert_recipients row that tracks their own acknowledgement
+-- and snooze, so one organiser dismissing an alert doesn't hide it for others.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.rating_alert_rules (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    name text NOT NULL,
+    description text,
+    rule_type text NOT NULL,
+    parameters jsonb NOT NULL DEFAULT '{}',
+    alert_level text NOT NULL DEFAULT 'warning',
+    enabled boolean NOT NULL DEFAULT true,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+    updated_at timestamptz NOT NULL DEFAULT now(),
+
+    CONSTRAINT rating_alert_rules_name_key UNIQUE (name),
+    CONSTRAINT rating_alert_rules_rule_type_check
+        CHECK (rule_type IN ('rating_drop', 'confidence_below', 'track_divergence', 'rating_expired')),
+    CONSTRAINT rating_alert_rules_alert_level_check
+        CHECK (alert_level IN ('info', 'warning', 'critical', 'emergency'))
+);
+
+DROP TRIGGER IF EXISTS update_rating_alert_rules_updated_at ON public.rating_alert_rules;
+CREATE TRIGGER update_rating_alert_rules_updated_at
+    BEFORE UPDATE ON public.rating_alert_rules
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.rating_alert_rules (name, description, rule_type, parameters, alert_level)
+VALUES
+    ('Rating dropped from green to red',
+     'The final rating moved straight from green to red',
+     'rating_drop', '{"from": ["green"], "to": ["red"]}', 'critical'),
+    ('Confidence below medium',
+     'The final rating rests on low or very low confidence data',
+     'confidence_below', '{"minimum": "medium"}', 'warning'),
+    ('Project and expertise ratings diverge',
+     'Project compliance and organiser expertise ratings are two levels apart',
+     'track_divergence', '{"levels": 2}', 'warning'),
+    ('Rating expired',
+     'The final rating has passed its expiry date without being recalculated',
+     'rating_expired', '{}', 'warning')
+ON CONFLICT (name) DO NOTHING;
+
+ALTER TABLE public.rating_alert_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "rating_alert_rules_select" ON public.rating_alert_rules;
+CREATE POLICY "rating_alert_rules_select"
+    ON public.rating_alert_rules
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+DROP POLICY IF EXISTS "rating_alert_rules_admin_write" ON public.rating_alert_rules;
+CREATE POLICY "rating_alert_rules_admin_write"
+    ON public.rating_alert_rules
+    FOR ALL
+    TO authenticated
+    USING (public.is_admin())
+    WITH CHECK (public.is_admin());
+
+COMMENT ON TABLE public.rating_alert_rules IS
+    'Admin-configured conditions that raise rating_alerts when employer final ratings change';
+
+ALTER TABLE public.rating_alerts
+    ADD COLUMN IF NOT EXISTS alert_rule_id uuid REFERENCES public.rating_alert_rules(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rating_alerts_rule_employer
+    ON public.rating_alerts (alert_rule_id, employer_id)
+    WHERE is_active AND NOT resolved;
+
+-- ============================================================================
+-- Subscriptions and per-user delivery
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.rating_alert_subscriptions (
+    id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    patch_id uuid REFERENCES public.patches(id) ON DELETE CASCADE,
+    employer_id uuid REFERENCES public.employers(id) ON DELETE CASCADE,
+    in_app boolean NOT NULL DEFAULT true,
+    digest boolean NOT NULL DEFAULT true,
+    created_at timestamptz NOT NULL DEFAULT now(),
+
+    CONSTRAINT rating_alert_subscriptions_target_check
+        CHECK ((patch_id IS NULL) <> (employer_id IS NULL)),
+    CONSTRAINT rating_alert_subscriptions_delivery_check
+        CHECK (in_app OR digest)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rating_alert_subscriptions_user_patch
+    ON public.rating_alert_subscriptions (user_id, patch_id)
+    WHERE patch_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rating_alert_subscriptions_user_employer
+    ON public.rating_alert_subscriptions (user_id, employer_id)
+    WHERE employer_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rating_alert_subscriptions_patch
+    ON public.rating_alert_subscriptions (patch_id)
+    WHERE patch_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_rating_alert_subscriptions_employer
+    ON public.rating_alert_subscriptions (employer_id)
+    WHERE employer_id IS NOT NULL;
+
+ALTER TABLE public.rating_alert_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "rating_alert_subscriptions_own" ON public.rating_alert_subscriptions;
+CREATE POLICY "rating_alert_subscriptions_own"
+    ON public.rating_alert_subscriptions
+    FOR ALL
+    TO authenticated
+    USING (user_id = auth.uid() OR public.is_admin())
+    WITH CHECK (user_id = auth.uid() OR public.is_admin());
+
+COMMENT ON TABLE public.rating_alert_subscriptions IS
+    'Which patches or employers a user wants rating alerts for, and how they are delivered';
+
+CREATE TABLE IF NOT EXISTS public.rating_alert_recipients (
+    alert_id uuid NOT NULL REFERENCES public.rating_alerts(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    in_app boolean NOT NULL DEFAULT true,
+    digest boolean NOT NULL DEFAULT true,
+    acknowledged_at timestamptz,
+    snoozed_until timestamptz,
+    created_at timestamptz NOT NULL DEFAULT now(),
+
+    PRIMARY KEY (alert_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rating_alert_recipients_user
+    ON public.rating_alert_recipients (user_id, created_at DESC);
+
+ALTER TABLE public.rating_alert_recipients ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "rating_alert_recipients_select_own" ON public.rating_alert_recipients;
+CREATE POLICY "rating_alert_recipients_select_own"
+    ON public.rating_alert_recipients
+    FOR SELECT
+    TO authenticated
+    USING (user_id = auth.uid() OR public.is_admin());
+
+DROP POLICY IF EXISTS "rating_alert_recipients_update_own" ON public.rating_alert_recipients;
+CREATE POLICY "rating_alert_recipients_update_own"
+    ON public.rating_alert_recipients
+    FOR UPDATE
+    TO authenticated
+    USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
+
+-- Rows are written by the rule evaluation functions; users may only record
+-- their own acknowledgement and snooze.
+REVOKE INSERT, UPDATE, DELETE ON public.rating_alert_recipients FROM anon, authenticated;
+GRANT UPDATE (acknowledged_at, snoozed_until) ON public.rating_alert_recipients TO authenticated;
+
+COMMENT ON TABLE public.rating_alert_recipients IS
+    'Per-user delivery of a rating alert, with that user''s acknowledgement and snooze';
+
+-- ============================================================================
+-- Rule evaluation
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.traffic_light_rank(p_rating text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE p_rating
+        WHEN 'red' THEN 1
+        WHEN 'amber' THEN 2
+        WHEN 'green' THEN 3
+    END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.rating_confidence_rank(p_confidence text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE p_confidence
+        WHEN 'very_low' THEN 1
+        WHEN 'low' THEN 2
+        WHEN 'medium' THEN 3
+        WHEN 'high' THEN 4
+    END;
+$$;
+
+-- Raise (p_fires) or clear (NOT p_fires) a rule's alert for one employer.
+-- Recipients are the users subscribed to the employer directly or to any
+-- patch containing one of its projects. Returns the new alert id, or NULL
+-- when nothing was raised.
+CREATE OR REPLACE FUNCTION public.apply_rating_alert_rule(
+    p_rule public.rating_alert_rules,
+    p_employer_id uuid,
+    p_final_rating_id uuid,
+    p_fires boolean,
+    p_alert_type text,
+    p_title text,
+    p_message text,
+    p_condition jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_alert_id uuid;
+    v_subscribers jsonb;
+    v_recipients jsonb;
+    v_channels jsonb;
+BEGIN
+    IF NOT p_fires THEN
+        IF p_rule.rule_type <> 'rating_drop' THEN
+            UPDATE public.rating_alerts
+            SET resolved = true,
+                resolved_at = now(),
+                resolution_details = 'Condition no longer applies'
+            WHERE alert_rule_id = p_rule.id
+              AND employer_id = p_employer_id
+              AND is_active
+              AND NOT resolved;
+        END IF;
+        RETURN NULL;
+    END IF;
+
+    IF p_rule.rule_type <> 'rating_drop' AND EXISTS (
+        SELECT 1 FROM public.rating_alerts
+        WHERE alert_rule_id = p_rule.id
+          AND employer_id = p_employer_id
+          AND is_active
+          AND NOT resolved
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT coalesce(jsonb_agg(jsonb_build_object(
+        'user_id', sub.user_id,
+        'in_app', sub.in_app,
+        'digest', sub.digest
+    )), '[]')
+    INTO v_subscribers
+    FROM (
+        SELECT s.user_id, bool_or(s.in_app) AS in_app, bool_or(s.digest) AS digest
+        FROM public.rating_alert_subscriptions s
+        WHERE s.employer_id = p_employer_id
+           OR s.patch_id IN (
+                SELECT ppm.patch_id
+                FROM public.project_assignments pa
+                JOIN public.patch_project_mapping_view ppm ON ppm.project_id = pa.project_id
+                WHERE pa.employer_id = p_employer_id
+           )
+        GROUP BY s.user_id
+    ) sub;
+
+    SELECT
+        coalesce(jsonb_agg(sub.user_id::text), '[]'),
+        to_jsonb(array_remove(ARRAY[
+            CASE WHEN bool_or(sub.in_app) THEN 'in_app' END,
+            CASE WHEN bool_or(sub.digest) THEN 'email' END
+        ], NULL))
+    INTO v_recipients, v_channels
+    FROM jsonb_to_recordset(v_subscribers) AS sub(user_id uuid, in_app boolean, digest boolean);
+
+    INSERT INTO public.rating_alerts (
+        employer_id,
+        final_rating_id,
+        alert_rule_id,
+        alert_type,
+        alert_level,
+        alert_title,
+        alert_message,
+        trigger_condition,
+        threshold_values,
+        notification_channels,
+        recipients,
+        delivery_status
+    )
+    VALUES (
+        p_employer_id,
+        p_final_rating_id,
+        p_rule.id,
+        p_alert_type,
+        p_rule.alert_level,
+        p_title,
+        p_message,
+        p_condition,
+        p_rule.parameters,
+        coalesce(v_channels, '[]'),
+        v_recipients,
+        'sent'
+    )
+    RETURNING id INTO v_alert_id;
+
+    INSERT INTO public.rating_alert_recipients (alert_id, user_id, in_app, digest)
+    SELECT v_alert_id, sub.user_id, sub.in_app, sub.digest
+    FROM jsonb_to_recordset(v_subscribers) AS sub(user_id uuid, in_app boolean, digest boolean);
+
+    RETURN v_alert_id;
+END;
+$$;
+
+-- Trigger body: evaluates every enabled rule against the rating just written.
+-- The previous rating is OLD on a same-day recalculation, otherwise the most
+-- recent earlier rating. A failing rule is logged and skipped so alerting can
+-- never block a rating calculation.
+CREATE OR REPLACE FUNCTION public.evaluate_rating_alert_rules()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_rule public.rating_alert_rules%ROWTYPE;
+    v_previous_rating text;
+    v_employer_name text;
+    v_fires boolean;
+    v_alert_type text;
+    v_title text;
+    v_message text;
+    v_condition jsonb;
+    v_minimum text;
+    v_gap integer;
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        v_previous_rating := OLD.final_rating::text;
+    ELSE
+        SELECT efr.final_rating::text INTO v_previous_rating
+        FROM public.employer_final_ratings efr
+        WHERE efr.employer_id = NEW.employer_id
+          AND efr.rating_date < NEW.rating_date
+        ORDER BY efr.rating_date DESC
+        LIMIT 1;
+    END IF;
+
+    SELECT e.name INTO v_employer_name FROM public.employers e WHERE e.id = NEW.employer_id;
+    v_employer_name := coalesce(v_employer_name, 'Employer');
+
+    FOR v_rule IN
+        SELECT * FROM public.rating_alert_rules WHERE enabled ORDER BY created_at
+    LOOP
+        BEGIN
+            v_fires := false;
+
+            CASE v_rule.rule_type
+                WHEN 'rating_drop' THEN
+                    v_fires := v_previous_rating IS DISTINCT FROM NEW.final_rating::text
+                        AND v_previous_rating IN (
+                            SELECT jsonb_array_elements_text(coalesce(v_rule.parameters -> 'from', '["green"]'))
+                        )
+                        AND NEW.final_rating::text IN (
+                            SELECT jsonb_array_elements_text(coalesce(v_rule.parameters -> 'to', '["red"]'))
+                        );
+                    v_alert_type := 'rating_change';
+                    v_title := format('%s rating dropped to %s', v_employer_name, NEW.final_rating);
+                    v_message := format('The final rating changed from %s to %s on %s.',
+                        v_previous_rating, NEW.final_rating, NEW.rating_date);
+                    v_condition := jsonb_build_object('previous_rating', v_previous_rating, 'final_rating', NEW.final_rating);
+
+                WHEN 'confidence_below' THEN
+                    v_minimum := coalesce(v_rule.parameters ->> 'minimum', 'medium');
+                    v_fires := public.rating_confidence_rank(NEW.overall_confidence::text)
+                        < public.rating_confidence_rank(v_minimum);
+                    v_alert_type := 'quality_issue';
+                    v_title := format('Low confidence rating for %s', v_employer_name);
+                    v_message := format('Rating confidence is %s, below %s. More assessments are needed.',
+                        replace(NEW.overall_confidence::text, '_', ' '), replace(v_minimum, '_', ' '));
+                    v_condition := jsonb_build_object('overall_confidence', NEW.overall_confidence);
+
+                WHEN 'track_divergence' THEN
+                    v_gap := abs(public.traffic_light_rank(NEW.project_based_rating::text)
+                        - public.traffic_light_rank(NEW.expertise_based_rating::text));
+                    v_fires := v_gap >= coalesce((v_rule.parameters ->> 'levels')::integer, 2);
+                    v_alert_type := 'discrepancy_detected';
+                    v_title := format('Project and expertise ratings disagree for %s', v_employer_name);
+                    v_message := format('Project compliance rates %s but organiser expertise rates %s.',
+                        NEW.project_based_rating, NEW.expertise_based_rating);
+                    v_condition := jsonb_build_object(
+                        'project_based_rating', NEW.project_based_rating,
+                        'expertise_based_rating', NEW.expertise_based_rating,
+                        'levels', v_gap
+                    );
+
+                WHEN 'rating_expired' THEN
+                    v_fires := NEW.expiry_date < current_date;
+                    v_alert_type := 'expiry_warning';
+                    v_title := format('%s rating has expired', v_employer_name);
+                    v_message := format('The rating expired on %s and should be recalculated.', NEW.expiry_date);
+                    v_condition := jsonb_build_object('expiry_date', NEW.expiry_date);
+
+                ELSE
+                    CONTINUE;
+            END CASE;
+
+            PERFORM public.apply_rating_alert_rule(
+                v_rule, NEW.employer_id, NEW.id, coalesce(v_fires, false),
+                v_alert_type, v_title, v_message, v_condition
+            );
+        EXCEPTION WHEN OTHERS THEN
+            RAISE WARNING 'Rating alert rule % failed for employer %: %', v_rule.id, NEW.employer_id, SQLERRM;
+        END;
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS employer_final_ratings_alert_rules ON public.employer_final_ratings;
+CREATE TRIGGER employer_final_ratings_alert_rules
+    AFTER INSERT OR UPDATE OF final_rating, overall_confidence, project_based_rating, expertise_based_rating, expiry_date
+    ON public.employer_final_ratings
+    FOR EACH ROW EXECUTE FUNCTION public.evaluate_rating_alert_rules();
+
+-- Ratings expire without any write to employer_final_ratings, so the
+-- dashboard worker calls this daily. Only each employer's latest active
+-- rating is considered; returns the number of alerts raised.
+CREATE OR REPLACE FUNCTION public.evaluate_expired_rating_alerts()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_rule public.rating_alert_rules%ROWTYPE;
+    v_rating record;
+    v_raised integer := 0;
+BEGIN
+    FOR v_rule IN
+        SELECT * FROM public.rating_alert_rules WHERE enabled AND rule_type = 'rating_expired'
+    LOOP
+        FOR v_rating IN
+            SELECT latest.id, latest.employer_id, latest.expiry_date, coalesce(e.name, 'Employer') AS employer_name
+            FROM (
+                SELECT DISTINCT ON (efr.employer_id) efr.id, efr.employer_id, efr.expiry_date
+                FROM public.employer_final_ratings efr
+                WHERE efr.is_active
+                ORDER BY efr.employer_id, efr.rating_date DESC
+            ) latest
+            LEFT JOIN public.employers e ON e.id = latest.employer_id
+            WHERE latest.expiry_date < current_date
+        LOOP
+            IF public.apply_rating_alert_rule(
+                v_rule, v_rating.employer_id, v_rating.id, true, 'expiry_warning',
+                format('%s rating has expired', v_rating.employer_name),
+                format('The rating expired on %s and should be recalculated.', v_rating.expiry_date),
+                jsonb_build_object('expiry_date', v_rating.expiry_date)
+            ) IS NOT NULL THEN
+                v_raised := v_raised + 1;
+            END IF;
+        END LOOP;
+    END LOOP;
+
+    RETURN v_raised;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.apply_rating_alert_rule(public.rating_alert_rules, uuid, uuid, boolean, text, text, text, jsonb) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.evaluate_expired_rating_alerts() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.evaluate_expired_rating_alerts() TO service_role;
+
+-- ============================================================================
+-- Digest contents
+-- ============================================================================
+-- Alerts for the digest email: delivered to the user by digest, not yet
+-- acknowledged, and either raised since p_since or coming out of a snooze
+-- since then. Same {total, items} shape as the get_organiser_digest sections.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_rating_alert_digest(
+    p_user_id uuid,
+    p_since timestamptz,
+    p_limit integer DEFAULT 10
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH rows AS (
+        SELECT
+            a.id,
+            a.employer_id,
+            e.name AS employer_name,
+            a.alert_level,
+            a.alert_title,
+            a.alert_message,
+            a.created_at
+        FROM public.rating_alert_recipients r
+        JOIN public.rating_alerts a ON a.id = r.alert_id
+        JOIN public.employers e ON e.id = a.employer_id
+        WHERE r.user_id = p_user_id
+          AND r.digest
+          AND r.acknowledged_at IS NULL
+          AND a.is_active
+          AND NOT a.resolved
+          AND (
+              (a.created_at > p_since AND (r.snoozed_until IS NULL OR r.snoozed_until <= now()))
+              OR r.snoozed_until BETWEEN p_since AND now()
+          )
+    )
+    SELECT jsonb_build_object(
+        'total', (SELECT count(*) FROM rows),
+        'items', coalesce((
+            SELECT jsonb_agg(to_jsonb(r) ORDER BY r.created_at DESC)
+            FROM (SELECT * FROM rows ORDER BY created_at DESC LIMIT p_limit) r
+        ), '[]')
+    );
+$$;
+
+REVOKE ALL ON FUNCTION public.get_rating_alert_digest(uuid, timestamptz, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_rating_alert_digest(uuid, timestamptz, integer) TO service_role;